@@ -0,0 +1,96 @@
+/**
+ * Supabase Client Mock
+ * Chainable query builder for service tests. Filters and modifiers return the
+ * builder; the terminal calls (single, maybeSingle, rpc and awaiting the
+ * query) resolve with the next result. Results come from a queue in call
+ * order, or from a responder keyed on the table and operation when the order
+ * of queries doesn't matter to the test.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export interface MockResult {
+  data?: any;
+  error?: any;
+  count?: number | null;
+}
+
+export type MockOperation = 'select' | 'insert' | 'update' | 'upsert' | 'delete';
+
+export type MockResponder = (
+  table: string,
+  operation: MockOperation,
+  values?: any
+) => MockResult | undefined;
+
+export interface MockWrite {
+  table: string;
+  operation: Exclude<MockOperation, 'select'>;
+  values: any;
+}
+
+const FILTER_METHODS = [
+  'select', 'eq', 'neq', 'in', 'is', 'not', 'gt', 'gte', 'lt', 'lte', 'ilike', 'order', 'range', 'limit',
+] as const;
+
+const WRITE_METHODS = ['insert', 'update', 'upsert', 'delete'] as const;
+
+type FilterMethod = typeof FILTER_METHODS[number];
+type WriteMethod = typeof WRITE_METHODS[number];
+
+interface MockQueryBuilder extends Record<FilterMethod | WriteMethod, jest.Mock> {
+  from: jest.Mock<MockSupabase, [string]>;
+  single: jest.Mock<Promise<MockResult>, []>;
+  maybeSingle: jest.Mock<Promise<MockResult>, []>;
+  rpc: jest.Mock<Promise<MockResult>, [string, any?]>;
+  then: PromiseLike<MockResult>['then'];
+  /** Every insert, update, upsert and delete, in order */
+  writes: MockWrite[];
+}
+
+/** Passes for a SupabaseClient, so services take it without casts */
+export type MockSupabase = MockQueryBuilder & SupabaseClient<any>;
+
+const EMPTY_RESULT: MockResult = { data: null, error: null };
+
+export function createMockSupabase(results: MockResult[] | MockResponder = []): MockSupabase {
+  const queue = Array.isArray(results) ? [...results] : [];
+  const writes: MockWrite[] = [];
+  let table = '';
+  let operation: MockOperation = 'select';
+  let values: any;
+
+  const next = (): Promise<MockResult> => {
+    const result = Array.isArray(results) ? queue.shift() : results(table, operation, values);
+    return Promise.resolve(result ?? EMPTY_RESULT);
+  };
+
+  const supabase = { writes } as unknown as MockQueryBuilder;
+
+  supabase.from = jest.fn((name: string) => {
+    table = name;
+    operation = 'select';
+    values = undefined;
+    return supabase as MockSupabase;
+  });
+
+  for (const method of FILTER_METHODS) {
+    supabase[method] = jest.fn(() => supabase);
+  }
+
+  for (const method of WRITE_METHODS) {
+    supabase[method] = jest.fn((row?: any) => {
+      operation = method;
+      values = row;
+      writes.push({ table, operation: method, values: row });
+      return supabase;
+    });
+  }
+
+  supabase.single = jest.fn(next);
+  supabase.maybeSingle = jest.fn(next);
+  supabase.rpc = jest.fn((_fn: string, _args?: any) => (Array.isArray(results) ? next() : Promise.resolve(EMPTY_RESULT)));
+  supabase.then = (resolve, reject) => next().then(resolve, reject);
+
+  return supabase as MockSupabase;
+}
@@ -20,6 +20,8 @@ const customJestConfig = {
     '<rootDir>/src/**/*.{test,spec}.{js,jsx,ts,tsx}',
     '<rootDir>/__tests__/**/*.{js,jsx,ts,tsx}',
   ],
+  // Shared fixtures, not suites
+  testPathIgnorePatterns: ['<rootDir>/__tests__/supabase-mock.ts'],
   moduleDirectories: ['node_modules', '<rootDir>/'],
   moduleNameMapper: {
     '^@/(.*)$': '<rootDir>/src/$1',
@@ -0,0 +1,79 @@
+/**
+ * Retry Worker
+ *
+ * Runs the retry worker as a standalone process, claiming and executing due
+ * retry_operations every interval. Safe to run several copies: each claims
+ * different operations.
+ *
+ * Usage:
+ *   npx tsx scripts/run-retry-worker.ts            # poll every 30s
+ *   npx tsx scripts/run-retry-worker.ts --once     # single run, then exit
+ *   npx tsx scripts/run-retry-worker.ts --interval=60 --batch-size=20
+ */
+
+import 'dotenv/config';
+import { orderRetryManager } from '../src/lib/orderRetry';
+import { RetryWorker } from '../src/lib/retry-worker';
+import { initSentry, flushSentry } from '../src/lib/monitoring/sentry';
+
+function readArg(name: string): string | undefined {
+  const prefix = `--${name}=`;
+  return process.argv.find(arg => arg.startsWith(prefix))?.slice(prefix.length);
+}
+
+const once = process.argv.includes('--once');
+const intervalMs = Number(readArg('interval') || 30) * 1000;
+const batchSize = readArg('batch-size') ? Number(readArg('batch-size')) : undefined;
+
+if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+  console.error('❌ NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required');
+  process.exit(1);
+}
+
+let stopping = false;
+const stop = () => {
+  console.log('Stopping after the current run...');
+  stopping = true;
+};
+process.on('SIGINT', stop);
+process.on('SIGTERM', stop);
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function main() {
+  initSentry();
+
+  const worker = new RetryWorker(orderRetryManager, {
+    batchSize,
+    // A run may take up to one interval before the next starts
+    timeBudgetMs: Math.max(intervalMs, 10_000),
+  });
+  console.log(`🔁 Retry worker ${worker.workerId} started`);
+
+  do {
+    try {
+      const result = await worker.runOnce();
+      if (result.claimed > 0 || result.backlog > 0) {
+        console.log(
+          `✅ ${result.claimed} claimed: ${result.completed} completed, ${result.rescheduled} rescheduled, ` +
+          `${result.deadLettered} dead-lettered, ${result.errors} errors (${result.backlog} still due, ${result.durationMs}ms)`
+        );
+      }
+    } catch (error) {
+      console.error('❌ Retry worker run failed:', error);
+    }
+
+    if (!once && !stopping) {
+      await sleep(intervalMs);
+    }
+  } while (!once && !stopping);
+
+  await flushSentry();
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('❌ Retry worker crashed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,108 @@
+/**
+ * Studio Agent Evals
+ *
+ * Runs the eval dataset (src/lib/studio/evals/dataset.ts) through the agent
+ * graph and prints per-agent scores. Replays recorded model replies and
+ * Prodigi results by default, so it runs offline; --record calls OpenAI and
+ * Prodigi and rewrites the recordings.
+ *
+ * Exits non-zero when a case fails, or with --baseline when anything
+ * regressed against the saved report.
+ *
+ * Usage:
+ *   npx tsx scripts/run-studio-evals.ts                          # offline replay
+ *   npx tsx scripts/run-studio-evals.ts --case=sku-lookup        # one case
+ *   npx tsx scripts/run-studio-evals.ts --baseline=evals/studio-baseline.json
+ *   npx tsx scripts/run-studio-evals.ts --write-baseline=evals/studio-baseline.json
+ *   npx tsx scripts/run-studio-evals.ts --record                 # needs OpenAI and Prodigi keys
+ *   npx tsx scripts/run-studio-evals.ts --json                   # report as JSON
+ */
+
+import 'dotenv/config';
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
+import { dirname, resolve } from 'path';
+import type { EvalRecordings, StudioEvalReport } from '../src/lib/studio/evals';
+
+const RECORDINGS_PATH = resolve(__dirname, '../src/lib/studio/evals/recordings.json');
+
+function readArg(name: string): string | undefined {
+  const prefix = `--${name}=`;
+  return process.argv.find(arg => arg.startsWith(prefix))?.slice(prefix.length);
+}
+
+const record = process.argv.includes('--record');
+const asJson = process.argv.includes('--json');
+const caseId = readArg('case');
+const baselinePath = readArg('baseline');
+const writeBaselinePath = readArg('write-baseline');
+
+function readJson<T>(path: string): T {
+  return JSON.parse(readFileSync(path, 'utf8')) as T;
+}
+
+async function main() {
+  if (!record) {
+    // The Prodigi SDK wants a key at import; replay never calls it
+    process.env.PRODIGI_API_KEY ||= 'offline-replay';
+  }
+
+  const { STUDIO_EVAL_CASES, findRegressions, formatEvalReport, runStudioEvals } =
+    await import('../src/lib/studio/evals');
+
+  const cases = caseId ? STUDIO_EVAL_CASES.filter(evalCase => evalCase.id === caseId) : STUDIO_EVAL_CASES;
+  if (cases.length === 0) {
+    console.error(`❌ No eval case "${caseId}"`);
+    process.exit(1);
+  }
+
+  if (record && (!process.env.OPENAI_API_KEY || !process.env.PRODIGI_API_KEY)) {
+    console.error('❌ OPENAI_API_KEY and PRODIGI_API_KEY are required to record');
+    process.exit(1);
+  }
+
+  const recordings = existsSync(RECORDINGS_PATH) ? readJson<EvalRecordings>(RECORDINGS_PATH) : {};
+
+  // The agents log their own errors; keep the report readable
+  const consoleError = console.error;
+  console.error = () => {};
+
+  const { report, recordings: recorded } = await runStudioEvals(cases, {
+    mode: record ? 'record' : 'replay',
+    recordings,
+    onCase: (evalCase, passed) => {
+      if (!asJson) console.log(`${passed ? '✅' : '❌'} ${evalCase.id}`);
+    },
+  });
+
+  console.error = consoleError;
+
+  if (record) {
+    writeFileSync(RECORDINGS_PATH, `${JSON.stringify({ ...recordings, ...recorded }, null, 2)}\n`);
+    console.log(`📼 Recorded ${Object.keys(recorded).length} cases to ${RECORDINGS_PATH}`);
+  }
+
+  const regressions = baselinePath
+    ? findRegressions(readJson<StudioEvalReport>(baselinePath), report)
+    : undefined;
+
+  if (asJson) {
+    console.log(JSON.stringify({ ...report, regressions }, null, 2));
+  } else {
+    console.log('');
+    console.log(formatEvalReport(report, regressions));
+  }
+
+  if (writeBaselinePath) {
+    mkdirSync(dirname(writeBaselinePath), { recursive: true });
+    writeFileSync(writeBaselinePath, `${JSON.stringify(report, null, 2)}\n`);
+    console.log(`💾 Baseline written to ${writeBaselinePath}`);
+  }
+
+  const failed = regressions ? regressions.length > 0 : report.casesPassed < report.casesTotal;
+  process.exit(failed ? 1 : 0);
+}
+
+main().catch(error => {
+  console.error('❌ Studio evals failed:', error);
+  process.exit(1);
+});
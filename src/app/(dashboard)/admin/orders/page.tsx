@@ -0,0 +1,29 @@
+'use client';
+
+import React from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { useAuth } from '@/hooks/useAuth';
+import { AuthenticatedLayout } from '@/components/AuthenticatedLayout';
+import { AdminOrderDashboard } from '@/components/AdminOrderDashboard';
+import { hasStaffPermission, isStaffRole } from '@/lib/auth/roles';
+
+export default function AdminOrdersPage() {
+  const { session, profile } = useAuth();
+  const role = isStaffRole(profile?.role) ? profile.role : null;
+
+  return (
+    <AuthenticatedLayout>
+      <div className="container mx-auto px-4 py-8">
+        {profile && !hasStaffPermission(role, 'orders:read') ? (
+          <Card>
+            <CardContent className="py-12 text-center text-muted-foreground">
+              Staff access required
+            </CardContent>
+          </Card>
+        ) : profile ? (
+          <AdminOrderDashboard accessToken={session?.access_token} role={role} />
+        ) : null}
+      </div>
+    </AuthenticatedLayout>
+  );
+}
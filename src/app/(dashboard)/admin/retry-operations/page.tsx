@@ -0,0 +1,421 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { RefreshCw, RotateCcw, XCircle, CheckCircle } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { AuthenticatedLayout } from '@/components/AuthenticatedLayout';
+import {
+  RETRY_OPERATION_STATUSES,
+  RETRY_OPERATION_TYPES,
+  type AdminRetryOperation,
+  type RetryOperationLog,
+  type RetryOperationSummary,
+} from '@/lib/retry-operations';
+
+type OperationDetail = AdminRetryOperation & { history: RetryOperationLog[] };
+type OperationAction = 'retry' | 'cancel' | 'resolve';
+
+const PAGE_SIZE = 50;
+
+const statusVariant = (status: string): 'default' | 'secondary' | 'destructive' | 'outline' => {
+  switch (status) {
+    case 'failed':
+    case 'dead_letter':
+      return 'destructive';
+    case 'completed':
+    case 'resolved':
+      return 'default';
+    case 'pending':
+    case 'processing':
+      return 'secondary';
+    default:
+      return 'outline';
+  }
+};
+
+const formatDate = (value: string | null) =>
+  value ? new Date(value).toLocaleString('en-US', { dateStyle: 'short', timeStyle: 'short' }) : '—';
+
+export default function RetryOperationsAdminPage() {
+  const { user, session } = useAuth();
+  const { toast } = useToast();
+  const [operations, setOperations] = useState<AdminRetryOperation[]>([]);
+  const [total, setTotal] = useState(0);
+  const [summary, setSummary] = useState<RetryOperationSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState('dead_letter');
+  const [typeFilter, setTypeFilter] = useState('all');
+  const [errorCodeFilter, setErrorCodeFilter] = useState('');
+  const [offset, setOffset] = useState(0);
+  const [selected, setSelected] = useState<OperationDetail | null>(null);
+  const [note, setNote] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const request = useCallback(async (url: string, init: RequestInit = {}) => {
+    const response = await fetch(url, {
+      ...init,
+      credentials: 'include',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(session?.access_token && {
+          'Authorization': `Bearer ${session.access_token}`
+        })
+      }
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data.error || response.statusText);
+    }
+    return data;
+  }, [session]);
+
+  const fetchOperations = useCallback(async () => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(offset) });
+      if (statusFilter !== 'all') params.set('status', statusFilter);
+      if (typeFilter !== 'all') params.set('type', typeFilter);
+      if (errorCodeFilter.trim()) params.set('errorCode', errorCodeFilter.trim().toUpperCase());
+
+      const data = await request(`/api/admin/retry-operations?${params}`);
+      setOperations(data.operations || []);
+      setTotal(data.total || 0);
+      setSummary(data.summary || null);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to load retry operations',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [request, offset, statusFilter, typeFilter, errorCodeFilter, toast]);
+
+  useEffect(() => {
+    if (user) {
+      fetchOperations();
+    }
+  }, [user, fetchOperations]);
+
+  const openOperation = async (id: string) => {
+    try {
+      const data = await request(`/api/admin/retry-operations/${encodeURIComponent(id)}`);
+      setSelected(data.operation);
+      setNote('');
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to load operation',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const runAction = async (action: OperationAction) => {
+    if (!selected) return;
+    try {
+      setBusy(true);
+      const data = await request(`/api/admin/retry-operations/${encodeURIComponent(selected.id)}`, {
+        method: 'POST',
+        body: JSON.stringify({ action, note: note || undefined }),
+      });
+      toast({
+        title: 'Operation updated',
+        description: `${selected.id} is now ${data.operation.status}`,
+      });
+      await openOperation(selected.id);
+      await fetchOperations();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Action failed',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const bulkRetry = async (errorCode: string) => {
+    if (!window.confirm(`Retry every failed operation with ${errorCode}?`)) return;
+    try {
+      setBusy(true);
+      const data = await request('/api/admin/retry-operations', {
+        method: 'POST',
+        body: JSON.stringify({ errorCode, ...(typeFilter !== 'all' && { type: typeFilter }) }),
+      });
+      toast({
+        title: `Retried ${data.result.matched} operation(s)`,
+        description: `${data.result.succeeded} succeeded, ${data.result.failed} failed`,
+      });
+      await fetchOperations();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Bulk retry failed',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const canRetry = selected && ['pending', 'failed', 'dead_letter'].includes(selected.status);
+  const canCancel = selected && ['pending', 'failed', 'dead_letter', 'processing'].includes(selected.status);
+  const canResolve = selected && ['pending', 'failed', 'dead_letter', 'processing', 'cancelled'].includes(selected.status);
+
+  return (
+    <AuthenticatedLayout>
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold">Retry Operations</h1>
+            <p className="text-muted-foreground">
+              Failed Prodigi submissions and other operations queued for retry
+            </p>
+          </div>
+          <Button variant="outline" onClick={fetchOperations} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+
+        {summary && (
+          <div className="grid gap-4 md:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">By status</CardTitle>
+              </CardHeader>
+              <CardContent className="flex flex-wrap gap-2">
+                {RETRY_OPERATION_STATUSES.map(status => (
+                  <Badge
+                    key={status}
+                    variant={statusVariant(status)}
+                    className="cursor-pointer"
+                    onClick={() => { setStatusFilter(status); setOffset(0); }}
+                  >
+                    {status}: {summary.byStatus[status] ?? 0}
+                  </Badge>
+                ))}
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Failed and dead-lettered by error code</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {summary.failedByErrorCode.length === 0 && (
+                  <p className="text-sm text-muted-foreground">No failed operations</p>
+                )}
+                {summary.failedByErrorCode.map(({ errorCode, count }) => (
+                  <div key={errorCode} className="flex items-center justify-between text-sm">
+                    <button
+                      className="font-mono hover:underline"
+                      onClick={() => { setStatusFilter('dead_letter'); setErrorCodeFilter(errorCode); setOffset(0); }}
+                    >
+                      {errorCode} ({count})
+                    </button>
+                    <Button size="sm" variant="outline" disabled={busy} onClick={() => bulkRetry(errorCode)}>
+                      <RotateCcw className="h-3 w-3 mr-1" />
+                      Retry all
+                    </Button>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        <Card>
+          <CardHeader>
+            <div className="flex flex-wrap gap-3">
+              <select
+                value={statusFilter}
+                onChange={(e) => { setStatusFilter(e.target.value); setOffset(0); }}
+                className="px-3 py-2 border border-input bg-background rounded-md text-sm"
+              >
+                <option value="all">All statuses</option>
+                {RETRY_OPERATION_STATUSES.map(status => (
+                  <option key={status} value={status}>{status}</option>
+                ))}
+              </select>
+              <select
+                value={typeFilter}
+                onChange={(e) => { setTypeFilter(e.target.value); setOffset(0); }}
+                className="px-3 py-2 border border-input bg-background rounded-md text-sm"
+              >
+                <option value="all">All types</option>
+                {RETRY_OPERATION_TYPES.map(type => (
+                  <option key={type} value={type}>{type}</option>
+                ))}
+              </select>
+              <Input
+                placeholder="Error code"
+                value={errorCodeFilter}
+                onChange={(e) => { setErrorCodeFilter(e.target.value); setOffset(0); }}
+                className="max-w-xs font-mono"
+              />
+            </div>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Order</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Attempts</TableHead>
+                  <TableHead>Error</TableHead>
+                  <TableHead>Last attempt</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {operations.map(operation => (
+                  <TableRow
+                    key={operation.id}
+                    className="cursor-pointer"
+                    onClick={() => openOperation(operation.id)}
+                  >
+                    <TableCell>{operation.orderNumber || operation.orderId.slice(0, 8)}</TableCell>
+                    <TableCell className="font-mono text-xs">{operation.type}</TableCell>
+                    <TableCell>
+                      <Badge variant={statusVariant(operation.status)}>{operation.status}</Badge>
+                    </TableCell>
+                    <TableCell>{operation.attempts}/{operation.maxAttempts}</TableCell>
+                    <TableCell className="max-w-sm">
+                      {operation.errorCode && (
+                        <span className="font-mono text-xs mr-2">{operation.errorCode}</span>
+                      )}
+                      <span className="text-xs text-muted-foreground truncate">{operation.error}</span>
+                    </TableCell>
+                    <TableCell className="text-xs">{formatDate(operation.lastAttempt)}</TableCell>
+                  </TableRow>
+                ))}
+                {!loading && operations.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-muted-foreground">
+                      No retry operations match these filters
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+
+            <div className="flex items-center justify-between mt-4 text-sm text-muted-foreground">
+              <span>
+                {total === 0 ? 0 : offset + 1}–{Math.min(offset + PAGE_SIZE, total)} of {total}
+              </span>
+              <div className="space-x-2">
+                <Button size="sm" variant="outline" disabled={offset === 0} onClick={() => setOffset(Math.max(offset - PAGE_SIZE, 0))}>
+                  Previous
+                </Button>
+                <Button size="sm" variant="outline" disabled={offset + PAGE_SIZE >= total} onClick={() => setOffset(offset + PAGE_SIZE)}>
+                  Next
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+          <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+            {selected && (
+              <>
+                <DialogHeader>
+                  <DialogTitle className="font-mono text-sm break-all">{selected.id}</DialogTitle>
+                  <DialogDescription>
+                    {selected.type} for order {selected.orderNumber || selected.orderId}
+                    {selected.customerEmail && ` (${selected.customerEmail})`}
+                  </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-4 text-sm">
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>Status: <Badge variant={statusVariant(selected.status)}>{selected.status}</Badge></div>
+                    <div>Attempts: {selected.attempts}/{selected.maxAttempts}</div>
+                    <div>Last attempt: {formatDate(selected.lastAttempt)}</div>
+                    <div>Next retry: {formatDate(selected.nextRetry)}</div>
+                    {selected.deadLetteredAt && (
+                      <div>Dead-lettered: {formatDate(selected.deadLetteredAt)}</div>
+                    )}
+                    {selected.resolutionNote && (
+                      <div className="col-span-2">Note: {selected.resolutionNote}</div>
+                    )}
+                  </div>
+
+                  {selected.error && (
+                    <div>
+                      <h3 className="font-semibold mb-1">Last error {selected.errorCode && `(${selected.errorCode})`}</h3>
+                      <pre className="bg-muted p-3 rounded text-xs whitespace-pre-wrap break-all">{selected.error}</pre>
+                    </div>
+                  )}
+
+                  <div>
+                    <h3 className="font-semibold mb-1">Payload</h3>
+                    <pre className="bg-muted p-3 rounded text-xs overflow-x-auto">
+                      {JSON.stringify(selected.payload, null, 2)}
+                    </pre>
+                  </div>
+
+                  {selected.history.length > 0 && (
+                    <div>
+                      <h3 className="font-semibold mb-1">History</h3>
+                      <ul className="space-y-1 text-xs">
+                        {selected.history.map(entry => (
+                          <li key={entry.id}>
+                            {formatDate(entry.createdAt)} — {entry.action.replace('retry_operation_', '')}
+                            {typeof entry.details?.note === 'string' && `: ${entry.details.note}`}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
+                  {(canCancel || canResolve) && (
+                    <Textarea
+                      placeholder="Note (optional, saved with cancel / resolve)"
+                      value={note}
+                      onChange={(e) => setNote(e.target.value)}
+                      maxLength={1000}
+                    />
+                  )}
+                </div>
+
+                <DialogFooter className="gap-2">
+                  <Button variant="outline" disabled={!canRetry || busy} onClick={() => runAction('retry')}>
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    Retry now
+                  </Button>
+                  <Button variant="outline" disabled={!canCancel || busy} onClick={() => runAction('cancel')}>
+                    <XCircle className="h-4 w-4 mr-2" />
+                    Cancel
+                  </Button>
+                  <Button disabled={!canResolve || busy} onClick={() => runAction('resolve')}>
+                    <CheckCircle className="h-4 w-4 mr-2" />
+                    Mark resolved
+                  </Button>
+                </DialogFooter>
+              </>
+            )}
+          </DialogContent>
+        </Dialog>
+      </div>
+    </AuthenticatedLayout>
+  );
+}
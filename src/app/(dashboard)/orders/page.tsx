@@ -23,6 +23,10 @@ import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/hooks/use-toast';
 import { AuthenticatedLayout } from '@/components/AuthenticatedLayout';
 import { FramePreview } from '@/components/FramePreview';
+import { OrderItemReview } from '@/components/reviews/OrderItemReview';
+import { OrderItemProblem } from '@/components/orders/OrderItemProblem';
+import { OrderEditPanel } from '@/components/orders/OrderEditPanel';
+import { EDITABLE_ORDER_STATUSES } from '@/lib/order-edits';
 
 interface OrderItem {
   id: string;
@@ -84,6 +88,8 @@ export default function OrdersPage() {
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
+  // "{orderId}:{productId}" for items the user has already reviewed
+  const [reviewedItems, setReviewedItems] = useState<Set<string>>(new Set());
 
   const fetchOrders = useCallback(async () => {
     try {
@@ -146,11 +152,56 @@ export default function OrdersPage() {
     }
   }, [user, session, toast]);
 
+  const fetchReviewedItems = useCallback(async () => {
+    try {
+      const response = await fetch('/api/reviews/mine', {
+        credentials: 'include',
+        headers: {
+          ...(session?.access_token && {
+            'Authorization': `Bearer ${session.access_token}`
+          })
+        }
+      });
+      if (!response.ok) return;
+
+      const data = await response.json();
+      setReviewedItems(new Set(
+        (data.reviews || []).map((review: { orderId: string; productId: string }) => `${review.orderId}:${review.productId}`)
+      ));
+    } catch (error) {
+      console.error('Frontend: Error fetching reviews:', error);
+    }
+  }, [session]);
+
   useEffect(() => {
     if (user) {
       fetchOrders();
+      fetchReviewedItems();
     }
-  }, [user, fetchOrders]);
+  }, [user, fetchOrders, fetchReviewedItems]);
+
+  // Back from paying for a shipping upgrade; the Stripe webhook applies it
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const upgrade = params.get('upgrade');
+    if (!upgrade) return;
+
+    toast(upgrade === 'paid'
+      ? { title: 'Upgrade paid', description: "We'll update your order's shipping in a moment." }
+      : { title: 'Upgrade cancelled', description: 'Your order will ship as before.' });
+    window.history.replaceState(null, '', window.location.pathname);
+  }, [toast]);
+
+  const markReviewed = (productId: string, orderId: string) => {
+    setReviewedItems(prev => new Set(prev).add(`${orderId}:${productId}`));
+  };
+
+  const isDelivered = (order: Order) =>
+    order.status === 'delivered' ||
+    (order.dropship_orders || []).some(dropship => dropship.status === 'delivered');
+
+  const canReportProblem = (order: Order) =>
+    isDelivered(order) || order.status === 'shipped';
 
   const formatPrice = (price: number) => {
     return new Intl.NumberFormat('en-US', {
@@ -354,6 +405,21 @@ export default function OrdersPage() {
                           <div>Unit Price: {formatPrice(item.unit_price)}</div>
                           <div className="font-semibold">Total: {formatPrice(item.total_price)}</div>
                         </div>
+                        {isDelivered(order) && (
+                          <div className="mt-3">
+                            <OrderItemReview
+                              productId={item.product_id}
+                              orderId={order.id}
+                              reviewed={reviewedItems.has(`${order.id}:${item.product_id}`)}
+                              onReviewed={markReviewed}
+                            />
+                          </div>
+                        )}
+                        {canReportProblem(order) && (
+                          <div className="mt-3">
+                            <OrderItemProblem orderId={order.id} orderItemId={item.id} />
+                          </div>
+                        )}
                       </div>
                     </div>
                   </CardContent>
@@ -364,6 +430,10 @@ export default function OrdersPage() {
             {/* Order Information */}
             <div className="space-y-4">
               <h3 className="text-lg font-semibold">Order Information</h3>
+
+              {EDITABLE_ORDER_STATUSES.includes(order.status) && (
+                <OrderEditPanel orderId={order.id} onChanged={fetchOrders} />
+              )}
               
               {/* Status */}
               <Card>
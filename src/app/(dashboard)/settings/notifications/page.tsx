@@ -0,0 +1,105 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { AuthenticatedLayout } from '@/components/AuthenticatedLayout';
+import { EMAIL_CATEGORIES, type EmailPreferences } from '@/lib/email/preferences';
+import type { EmailCategory } from '@/lib/email/types';
+
+export default function NotificationSettingsPage() {
+  const { user, session } = useAuth();
+  const { toast } = useToast();
+  const [preferences, setPreferences] = useState<EmailPreferences | null>(null);
+  const [saving, setSaving] = useState<EmailCategory | null>(null);
+
+  const request = useCallback(async (init: RequestInit = {}) => {
+    const response = await fetch('/api/notifications/email-preferences', {
+      ...init,
+      credentials: 'include',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(session?.access_token && {
+          'Authorization': `Bearer ${session.access_token}`
+        })
+      }
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data.error || response.statusText);
+    }
+    return data.preferences as EmailPreferences;
+  }, [session]);
+
+  useEffect(() => {
+    if (!user) return;
+    request()
+      .then(setPreferences)
+      .catch(error => {
+        toast({
+          title: 'Error',
+          description: error instanceof Error ? error.message : 'Failed to load email preferences',
+          variant: 'destructive',
+        });
+      });
+  }, [user, request, toast]);
+
+  const toggle = async (category: EmailCategory, enabled: boolean) => {
+    const previous = preferences;
+    setPreferences(prev => (prev ? { ...prev, [category]: enabled } : prev));
+    setSaving(category);
+    try {
+      setPreferences(await request({
+        method: 'PUT',
+        body: JSON.stringify({ [category]: enabled }),
+      }));
+    } catch (error) {
+      setPreferences(previous);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update email preferences',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <AuthenticatedLayout>
+      <div className="container mx-auto px-4 py-8 max-w-2xl space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Email Notifications</h1>
+          <p className="text-muted-foreground">
+            Choose which order emails you receive
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Order emails</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {EMAIL_CATEGORIES.map(category => (
+              <div key={category.id} className="flex items-center justify-between gap-4">
+                <div>
+                  <Label htmlFor={`email-${category.id}`}>{category.label}</Label>
+                  <p className="text-sm text-muted-foreground">{category.description}</p>
+                </div>
+                <Switch
+                  id={`email-${category.id}`}
+                  checked={preferences?.[category.id] ?? true}
+                  disabled={!preferences || saving === category.id}
+                  onCheckedChange={(checked) => toggle(category.id, checked)}
+                />
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+    </AuthenticatedLayout>
+  );
+}
@@ -31,10 +31,6 @@ export default function StudioPage() {
   const [pendingAddToCart, setPendingAddToCart] = useState(false);
 
   useEffect(() => {
-    // Initialize conversation
-    const conversationId = `conv-${Date.now()}`;
-    useStudioStore.getState().setConversationId(conversationId);
-    
     // Sync destination country from studio store to localStorage for cart
     const destinationCountry = config.destinationCountry || 'US';
     if (typeof window !== 'undefined') {
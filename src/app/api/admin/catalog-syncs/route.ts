@@ -0,0 +1,77 @@
+/**
+ * Admin Catalog Syncs API
+ *
+ * GET  - Recent catalog syncs with their diff reports (?limit, ?id for one run)
+ * POST - Run a catalog sync now ({ force? } - force applies a sync that would
+ *        remove a large share of the catalog)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceClient } from '@/lib/supabase/server';
+import { authorizeStaff } from '@/lib/auth/staffAuth';
+import { azureSearchClient } from '@/lib/prodigi-v2/azure-search/client';
+import { catalogMirrorClient } from '@/lib/prodigi-v2/azure-search/mirror-client';
+import { CatalogSyncService, CatalogSyncError } from '@/lib/prodigi-v2/azure-search/catalog-sync';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error: authError, status: authStatus } = await authorizeStaff(request, 'catalog:sync');
+    if (authError || !user) {
+      return NextResponse.json({ error: authError }, { status: authStatus });
+    }
+
+    const service = new CatalogSyncService(createServiceClient(), { source: azureSearchClient });
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+
+    if (id) {
+      const run = await service.getRun(id);
+      return NextResponse.json({ run });
+    }
+
+    const runs = await service.listRuns(parseInt(searchParams.get('limit') || '20', 10) || 20);
+    return NextResponse.json({ runs });
+  } catch (error) {
+    console.error('Error fetching catalog syncs:', error);
+    if (error instanceof CatalogSyncError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json({ error: 'Failed to fetch catalog syncs' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { user, error: authError, status: authStatus } = await authorizeStaff(request, 'catalog:sync');
+    if (authError || !user) {
+      return NextResponse.json({ error: authError }, { status: authStatus });
+    }
+
+    const body = await request.json().catch(() => ({}));
+
+    const service = new CatalogSyncService(createServiceClient(), { source: azureSearchClient });
+    const run = await service.run({
+      trigger: 'manual',
+      triggeredBy: user.id,
+      force: body?.force === true,
+    });
+
+    // This instance serves the new snapshot straight away; others pick it up on their next refresh
+    catalogMirrorClient.clearCache();
+
+    return NextResponse.json({ run });
+  } catch (error) {
+    console.error('Error running catalog sync:', error);
+    if (error instanceof CatalogSyncError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.statusCode }
+      );
+    }
+    return NextResponse.json({ error: 'Catalog sync failed' }, { status: 500 });
+  }
+}
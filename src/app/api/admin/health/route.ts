@@ -1,38 +1,28 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createServiceClient } from "@/lib/supabase/server";
-import { authenticateRequest } from "@/lib/auth/jwtAuth";
+import { authorizeStaff } from "@/lib/auth/staffAuth";
 import { prodigiClient } from "@/lib/prodigi";
 import { orderRetryManager } from "@/lib/orderRetry";
 
 export async function GET(request: NextRequest) {
   try {
-    // JWT-only authentication (admin only)
-    const { user, error: authError } = await authenticateRequest(request);
-    
+    // Admin only
+    const { user, error: authError, status } = await authorizeStaff(request, 'system:health');
+
     if (authError || !user) {
-      console.log('Admin Health API: Authentication failed', { error: authError });
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      console.log('Admin Health API: Authorization failed', { error: authError });
+      return NextResponse.json({ error: authError }, { status });
     }
 
     const supabase = createServiceClient();
 
-    // Check if user is admin
-    const { data: profile } = await supabase
-      .from('profiles')
-      .select('is_admin')
-      .eq('id', user.id)
-      .single();
-
-    if (!((profile as { is_admin?: boolean } | null)?.is_admin)) {
-      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
-    }
-
     const healthChecks = await Promise.allSettled([
       checkDatabaseHealth(supabase),
       checkProdigiHealth(),
       checkRetrySystemHealth(supabase),
       checkOrderSystemHealth(supabase),
       checkNotificationSystemHealth(supabase),
+      checkProdigiCacheHealth(),
     ]);
 
     const results = {
@@ -44,6 +34,7 @@ export async function GET(request: NextRequest) {
         retrySystem: healthChecks[2],
         orderSystem: healthChecks[3],
         notificationSystem: healthChecks[4],
+        prodigiCache: healthChecks[5],
       },
     };
 
@@ -327,30 +318,53 @@ async function checkNotificationSystemHealth(supabase: ReturnType<typeof createS
   }
 }
 
+async function checkProdigiCacheHealth() {
+  try {
+    // Imported lazily: the SDK singleton throws when PRODIGI_API_KEY is missing
+    const { prodigiSDK } = await import('@/lib/prodigi-v2');
+
+    const [cache, rateLimit] = await Promise.all([
+      prodigiSDK.getCacheStats(),
+      prodigiSDK.getRateLimitInfo(),
+    ]);
+
+    const issues: string[] = [];
+    if (cache.size === null) {
+      issues.push(`Cache backend (${cache.backend}) unreachable`);
+    }
+    if (cache.revalidationErrors > 0) {
+      issues.push(`${cache.revalidationErrors} background revalidations failed`);
+    }
+
+    return {
+      status: issues.length > 0 ? 'warning' : 'healthy',
+      issues,
+      details: {
+        cache,
+        rateLimit,
+      },
+    };
+  } catch (error) {
+    return {
+      status: 'unhealthy',
+      error: error instanceof Error ? error.message : 'Unknown Prodigi cache error',
+    };
+  }
+}
+
 // POST endpoint to trigger manual health checks and cleanup
 export async function POST(request: NextRequest) {
   try {
-    // JWT-only authentication (admin only)
-    const { user, error: authError } = await authenticateRequest(request);
-    
+    // Admin only
+    const { user, error: authError, status } = await authorizeStaff(request, 'system:health');
+
     if (authError || !user) {
-      console.log('Admin Health Action API: Authentication failed', { error: authError });
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      console.log('Admin Health Action API: Authorization failed', { error: authError });
+      return NextResponse.json({ error: authError }, { status });
     }
 
     const supabase = createServiceClient();
 
-    // Check if user is admin
-    const { data: profile } = await supabase
-      .from('profiles')
-      .select('is_admin')
-      .eq('id', user.id)
-      .single();
-
-    if (!((profile as { is_admin?: boolean } | null)?.is_admin)) {
-      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
-    }
-
     const body = await request.json();
     const { action } = body;
 
@@ -391,6 +405,20 @@ export async function POST(request: NextRequest) {
           rescheduledCount: rescheduleResult,
         });
 
+      case 'cleanup_prodigi_cache':
+        const { data: cacheCleanupResult, error: cacheCleanupError } = await supabase
+          .rpc('cleanup_prodigi_api_cache');
+
+        if (cacheCleanupError) {
+          throw new Error(`Cache cleanup failed: ${cacheCleanupError.message}`);
+        }
+
+        return NextResponse.json({
+          success: true,
+          message: 'Expired Prodigi cache entries cleaned up',
+          deletedCount: cacheCleanupResult,
+        });
+
       default:
         return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
     }
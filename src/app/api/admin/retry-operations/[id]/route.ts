@@ -0,0 +1,83 @@
+/**
+ * Admin Retry Operation API
+ *
+ * GET  - One retry operation with its payload, last error and admin history
+ * POST - Act on it ({ action: 'retry' | 'cancel' | 'resolve', note? })
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceClient } from '@/lib/supabase/server';
+import { authorizeStaff } from '@/lib/auth/staffAuth';
+import { orderRetryManager } from '@/lib/orderRetry';
+import { RetryOperationService, RetryOperationError } from '@/lib/retry-operations';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const ACTIONS = ['retry', 'cancel', 'resolve'] as const;
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { user, error: authError, status: authStatus } = await authorizeStaff(request, 'operations:manage');
+    if (authError || !user) {
+      return NextResponse.json({ error: authError }, { status: authStatus });
+    }
+
+    const supabase = createServiceClient();
+
+    const { id } = await params;
+    const service = new RetryOperationService(supabase, orderRetryManager);
+    const operation = await service.get(id);
+
+    return NextResponse.json({ operation });
+  } catch (error) {
+    console.error('Error fetching retry operation:', error);
+    if (error instanceof RetryOperationError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json(
+      { error: 'Failed to fetch retry operation' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { user, error: authError, status: authStatus } = await authorizeStaff(request, 'operations:manage');
+    if (authError || !user) {
+      return NextResponse.json({ error: authError }, { status: authStatus });
+    }
+
+    const supabase = createServiceClient();
+
+    const { id } = await params;
+    const body = await request.json().catch(() => null);
+    if (!body || !ACTIONS.includes(body.action)) {
+      return NextResponse.json(
+        { error: `action must be one of: ${ACTIONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const service = new RetryOperationService(supabase, orderRetryManager);
+    const operation = body.action === 'retry'
+      ? await service.retryNow(id, user.id)
+      : body.action === 'cancel'
+        ? await service.cancel(id, user.id, body.note)
+        : await service.resolve(id, user.id, body.note);
+
+    return NextResponse.json({ operation });
+  } catch (error) {
+    console.error('Error updating retry operation:', error);
+    if (error instanceof RetryOperationError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json(
+      { error: 'Failed to update retry operation' },
+      { status: 500 }
+    );
+  }
+}
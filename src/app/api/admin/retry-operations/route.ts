@@ -0,0 +1,102 @@
+/**
+ * Admin Retry Operations API
+ *
+ * GET  - Retry operations (?status, ?type, ?errorCode, ?orderId, ?limit, ?offset)
+ *        with counts by status and failed/dead-lettered operations by error code
+ * POST - Bulk-retry failed and dead-lettered operations with an error code ({ errorCode, type? })
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceClient } from '@/lib/supabase/server';
+import { authorizeStaff } from '@/lib/auth/staffAuth';
+import { orderRetryManager } from '@/lib/orderRetry';
+import {
+  RetryOperationService,
+  RetryOperationError,
+  RETRY_OPERATION_STATUSES,
+  RETRY_OPERATION_TYPES,
+  type RetryOperationStatus,
+  type RetryOperationType,
+} from '@/lib/retry-operations';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error: authError, status: authStatus } = await authorizeStaff(request, 'operations:manage');
+    if (authError || !user) {
+      return NextResponse.json({ error: authError }, { status: authStatus });
+    }
+
+    const supabase = createServiceClient();
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status') || undefined;
+    const type = searchParams.get('type') || undefined;
+
+    if (status && !RETRY_OPERATION_STATUSES.includes(status as RetryOperationStatus)) {
+      return NextResponse.json({ error: 'Invalid status filter' }, { status: 400 });
+    }
+    if (type && !RETRY_OPERATION_TYPES.includes(type as RetryOperationType)) {
+      return NextResponse.json({ error: 'Invalid type filter' }, { status: 400 });
+    }
+
+    const service = new RetryOperationService(supabase, orderRetryManager);
+    const [{ operations, total }, summary] = await Promise.all([
+      service.list({
+        status: status as RetryOperationStatus | undefined,
+        type: type as RetryOperationType | undefined,
+        errorCode: searchParams.get('errorCode') || undefined,
+        orderId: searchParams.get('orderId') || undefined,
+        limit: parseInt(searchParams.get('limit') || '50', 10) || 50,
+        offset: parseInt(searchParams.get('offset') || '0', 10) || 0,
+      }),
+      service.summarize(),
+    ]);
+
+    return NextResponse.json({ operations, total, summary });
+  } catch (error) {
+    console.error('Error fetching retry operations:', error);
+    if (error instanceof RetryOperationError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json(
+      { error: 'Failed to fetch retry operations' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { user, error: authError, status: authStatus } = await authorizeStaff(request, 'operations:manage');
+    if (authError || !user) {
+      return NextResponse.json({ error: authError }, { status: authStatus });
+    }
+
+    const supabase = createServiceClient();
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body.errorCode !== 'string') {
+      return NextResponse.json({ error: 'errorCode is required' }, { status: 400 });
+    }
+    if (body.type !== undefined && !RETRY_OPERATION_TYPES.includes(body.type)) {
+      return NextResponse.json({ error: 'Invalid operation type' }, { status: 400 });
+    }
+
+    const service = new RetryOperationService(supabase, orderRetryManager);
+    const result = await service.bulkRetry(body.errorCode, user.id, body.type);
+
+    return NextResponse.json({ result });
+  } catch (error) {
+    console.error('Error bulk-retrying operations:', error);
+    if (error instanceof RetryOperationError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json(
+      { error: 'Failed to retry operations' },
+      { status: 500 }
+    );
+  }
+}
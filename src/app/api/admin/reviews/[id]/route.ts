@@ -0,0 +1,46 @@
+/**
+ * Admin Review Moderation API
+ *
+ * PATCH - Moderate a review ({ action: 'approve' | 'reject' | 'flag' | 'clear_flag', note? })
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceClient } from '@/lib/supabase/server';
+import { authorizeStaff } from '@/lib/auth/staffAuth';
+import { ReviewService, ReviewError } from '@/lib/reviews';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { user, error: authError, status: authStatus } = await authorizeStaff(request, 'reviews:moderate');
+    if (authError || !user) {
+      return NextResponse.json({ error: authError }, { status: authStatus });
+    }
+
+    const supabase = createServiceClient();
+
+    const { id } = await params;
+    const body = await request.json().catch(() => null);
+    if (!body) {
+      return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+    }
+
+    const service = new ReviewService(supabase);
+    const review = await service.moderate(user.id, id, body.action, body.note);
+
+    return NextResponse.json({ review });
+  } catch (error) {
+    console.error('Error moderating review:', error);
+    if (error instanceof ReviewError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.statusCode }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to moderate review' },
+      { status: 500 }
+    );
+  }
+}
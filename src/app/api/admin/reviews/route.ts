@@ -0,0 +1,46 @@
+/**
+ * Admin Review Moderation API
+ *
+ * GET - Reviews awaiting moderation (?status=flagged|hidden|all, ?limit, ?offset)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceClient } from '@/lib/supabase/server';
+import { authorizeStaff } from '@/lib/auth/staffAuth';
+import { ReviewService, ReviewError } from '@/lib/reviews';
+
+const STATUSES = ['flagged', 'hidden', 'all'] as const;
+
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error: authError, status: authStatus } = await authorizeStaff(request, 'reviews:moderate');
+    if (authError || !user) {
+      return NextResponse.json({ error: authError }, { status: authStatus });
+    }
+
+    const supabase = createServiceClient();
+
+    const { searchParams } = new URL(request.url);
+    const statusParam = searchParams.get('status') || 'flagged';
+    if (!STATUSES.includes(statusParam as typeof STATUSES[number])) {
+      return NextResponse.json({ error: 'Invalid status filter' }, { status: 400 });
+    }
+
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50', 10) || 50, 100);
+    const offset = parseInt(searchParams.get('offset') || '0', 10) || 0;
+
+    const service = new ReviewService(supabase);
+    const reviews = await service.listForModeration(statusParam as typeof STATUSES[number], limit, offset);
+
+    return NextResponse.json({ reviews });
+  } catch (error) {
+    console.error('Error fetching reviews for moderation:', error);
+    if (error instanceof ReviewError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json(
+      { error: 'Failed to fetch reviews' },
+      { status: 500 }
+    );
+  }
+}
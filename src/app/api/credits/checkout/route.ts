@@ -0,0 +1,64 @@
+/**
+ * Credit Pack Checkout API
+ *
+ * POST - Start a Stripe Checkout session for a credit pack ({ packId });
+ * the Stripe webhook grants the credits once it's paid
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/auth/jwtAuth';
+import { getCreditPack } from '@/lib/credits';
+import { createCreditPackCheckoutSession } from '@/lib/stripe';
+
+function getBaseUrl(request: NextRequest): string {
+  const origin = request.headers.get('origin');
+  if (origin) return origin;
+
+  const host = request.headers.get('host');
+  if (host) {
+    const protocol = host.includes('localhost') ? 'http' : 'https';
+    return `${protocol}://${host}`;
+  }
+
+  return process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request);
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const pack = typeof body?.packId === 'string' ? getCreditPack(body.packId) : undefined;
+    if (!pack) {
+      return NextResponse.json({ error: 'Unknown credit pack' }, { status: 400 });
+    }
+
+    // Back to the page the purchase started from, when it's one of ours
+    const returnPath = typeof body.returnPath === 'string' && body.returnPath.startsWith('/')
+      && !body.returnPath.startsWith('//')
+      ? body.returnPath
+      : '/';
+    const returnUrl = new URL(returnPath, getBaseUrl(request));
+
+    returnUrl.searchParams.set('credits', 'purchased');
+    const successUrl = returnUrl.toString();
+    returnUrl.searchParams.set('credits', 'cancelled');
+    const cancelUrl = returnUrl.toString();
+
+    const session = await createCreditPackCheckoutSession({
+      pack,
+      userId: user.id,
+      successUrl,
+      cancelUrl,
+      customerEmail: user.email,
+    });
+
+    return NextResponse.json({ sessionId: session.id, url: session.url });
+  } catch (error) {
+    console.error('Error creating credit pack checkout:', error);
+    return NextResponse.json({ error: 'Failed to start checkout' }, { status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Credits API
+ *
+ * GET - The user's generation credit balance, recent ledger entries and the
+ * credit packs on sale
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceClient } from '@/lib/supabase/server';
+import { authenticateRequest } from '@/lib/auth/jwtAuth';
+import { CREDIT_PACKS, CreditService, CreditsError } from '@/lib/credits';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request);
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const service = new CreditService(createServiceClient());
+    const balance = await service.getBalance(user.id);
+    const history = await service.getHistory(user.id);
+
+    return NextResponse.json({ ...balance, history, packs: CREDIT_PACKS });
+  } catch (error) {
+    console.error('Error fetching credits:', error);
+    if (error instanceof CreditsError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.statusCode }
+      );
+    }
+    return NextResponse.json({ error: 'Failed to fetch credits' }, { status: 500 });
+  }
+}
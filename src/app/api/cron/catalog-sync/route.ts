@@ -0,0 +1,43 @@
+/**
+ * Catalog Sync Cron API
+ *
+ * GET  - Snapshot Prodigi's live catalog index into the catalog mirror and
+ *        record what changed. Requires `Authorization: Bearer <CRON_SECRET>`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceClient } from '@/lib/supabase/server';
+import { isAuthorizedCronRequest } from '@/lib/auth/cronAuth';
+import { azureSearchClient } from '@/lib/prodigi-v2/azure-search/client';
+import { CatalogSyncService, CatalogSyncError } from '@/lib/prodigi-v2/azure-search/catalog-sync';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+export async function GET(request: NextRequest) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const service = new CatalogSyncService(createServiceClient(), { source: azureSearchClient });
+    const run = await service.run({ trigger: 'schedule' });
+
+    return NextResponse.json({
+      result: {
+        id: run.id,
+        productCount: run.productCount,
+        added: run.addedCount,
+        changed: run.changedCount,
+        removed: run.removedCount,
+      },
+    });
+  } catch (error) {
+    console.error('Catalog sync failed:', error);
+    if (error instanceof CatalogSyncError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json({ error: 'Catalog sync failed' }, { status: 500 });
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Email Outbox Cron API
+ *
+ * GET  - Send queued transactional emails that are due, retrying failed sends
+ *        with backoff. Requires `Authorization: Bearer <CRON_SECRET>`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceClient } from '@/lib/supabase/server';
+import { EmailOutboxService } from '@/lib/email';
+import { isAuthorizedCronRequest } from '@/lib/auth/cronAuth';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+const BATCH_SIZE = 20;
+const MAX_BATCHES = 5;
+
+export async function GET(request: NextRequest) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const outbox = new EmailOutboxService(createServiceClient());
+    const result = { claimed: 0, sent: 0, retried: 0, failed: 0 };
+
+    for (let batch = 0; batch < MAX_BATCHES; batch++) {
+      const batchResult = await outbox.processBatch(BATCH_SIZE);
+      result.claimed += batchResult.claimed;
+      result.sent += batchResult.sent;
+      result.retried += batchResult.retried;
+      result.failed += batchResult.failed;
+      if (batchResult.claimed < BATCH_SIZE) break;
+    }
+
+    return NextResponse.json({ result });
+  } catch (error) {
+    console.error('Email outbox run failed:', error);
+    return NextResponse.json({ error: 'Email outbox run failed' }, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * Retry Worker Cron API
+ *
+ * GET  - Run the retry worker once: claim and execute due retry operations.
+ *        Requires `Authorization: Bearer <CRON_SECRET>`, the header Vercel
+ *        Cron sends; any scheduler can call it the same way.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { orderRetryManager } from '@/lib/orderRetry';
+import { RetryWorker } from '@/lib/retry-worker';
+import { isAuthorizedCronRequest } from '@/lib/auth/cronAuth';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+export async function GET(request: NextRequest) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    // Leave headroom under maxDuration for the operation already running
+    const worker = new RetryWorker(orderRetryManager, { timeBudgetMs: 40_000 });
+    const result = await worker.runOnce();
+
+    return NextResponse.json({ result });
+  } catch (error) {
+    console.error('Retry worker run failed:', error);
+    return NextResponse.json({ error: 'Retry worker run failed' }, { status: 500 });
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * Studio Conversations Cron API
+ *
+ * GET  - Delete studio chats idle for longer than their owner's retention
+ *        period. Requires `Authorization: Bearer <CRON_SECRET>`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceClient } from '@/lib/supabase/server';
+import { StudioConversationService } from '@/lib/studio/conversations';
+import { isAuthorizedCronRequest } from '@/lib/auth/cronAuth';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const service = new StudioConversationService(createServiceClient());
+    const deleted = await service.purgeExpired();
+
+    return NextResponse.json({ result: { deleted } });
+  } catch (error) {
+    console.error('Studio conversation purge failed:', error);
+    return NextResponse.json({ error: 'Studio conversation purge failed' }, { status: 500 });
+  }
+}
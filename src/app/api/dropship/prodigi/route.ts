@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from "next/server";
 import { createServiceClient } from "@/lib/supabase/server";
 import { authenticateRequest } from "@/lib/auth/jwtAuth";
 import { prodigiClient } from "@/lib/prodigi";
+import { preparePrintAsset } from "@/lib/print-assets";
+import { getPrintSettings } from "@/lib/print-crop";
 import { z } from "zod";
 
 /**
@@ -114,6 +116,7 @@ export async function POST(request: NextRequest) {
       .select('id, status')
       .eq('order_id', validatedData.orderId)
       .eq('provider', 'prodigi')
+      .is('reprint_of', null)
       .single();
 
     if (existingDropship && (existingDropship as any).status !== 'failed') {
@@ -149,6 +152,16 @@ export async function POST(request: NextRequest) {
           isFullUrl: publicImageUrl.startsWith('http')
         });
         
+        // Items with a custom crop are sent as a cropped print-ready asset
+        const printAsset = await preparePrintAsset(supabase, {
+          orderId: validatedData.orderId,
+          orderItemId: item.id,
+          imageUrl: publicImageUrl,
+          size: item.products.frame_size,
+          settings: getPrintSettings(item.print_settings ?? item.products?.metadata),
+          printAssetUrl: item.print_asset_url,
+        });
+        
         return {
           productSku: await prodigiClient.getProductSku(
             item.products.frame_size,
@@ -156,7 +169,8 @@ export async function POST(request: NextRequest) {
             item.products.frame_material
           ),
           quantity: item.quantity,
-          imageUrl: publicImageUrl, // Use public URL instead of raw path
+          imageUrl: printAsset.url,
+          sizing: printAsset.sizing,
           frameSize: item.products.frame_size,
           frameStyle: item.products.frame_style,
           frameMaterial: item.products.frame_material,
@@ -368,6 +382,7 @@ export async function GET(request: NextRequest) {
       `)
       .eq('order_id', orderId)
       .eq('provider', 'prodigi')
+      .is('reprint_of', null)
       .single();
 
     if (dropshipError || !dropshipOrder) {
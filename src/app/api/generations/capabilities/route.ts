@@ -0,0 +1,25 @@
+/**
+ * Generation Capabilities API
+ *
+ * GET - The configured provider and what it supports (models, aspect ratios,
+ * styles, palettes, speeds, image count, seeds, negative prompts and
+ * reference images), so clients only offer options that will be accepted
+ */
+
+import { NextResponse } from 'next/server';
+import { getImageGenerationProvider } from '@/lib/image-generation';
+
+export async function GET() {
+  try {
+    const provider = getImageGenerationProvider();
+
+    return NextResponse.json({
+      provider: provider.id,
+      name: provider.name,
+      capabilities: provider.capabilities,
+    });
+  } catch (error) {
+    console.error('Error loading generation capabilities:', error);
+    return NextResponse.json({ error: 'Image generation is not configured' }, { status: 500 });
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Generations API
+ *
+ * GET - The user's recent generations, with provider, model and images
+ * POST - Generate images with the configured provider; one credit per image
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceClient } from '@/lib/supabase/server';
+import { authenticateRequest } from '@/lib/auth/jwtAuth';
+import { ImageGenerationService, ImageGenerationError } from '@/lib/image-generation';
+import { CreditService, CreditsError } from '@/lib/credits';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request);
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const limit = Math.min(Math.max(parseInt(request.nextUrl.searchParams.get('limit') || '20') || 20, 1), 100);
+    const generations = await new ImageGenerationService(createServiceClient()).list(user.id, limit);
+
+    return NextResponse.json({ generations });
+  } catch (error) {
+    console.error('Error fetching generations:', error);
+    if (error instanceof ImageGenerationError) {
+      return NextResponse.json({ error: error.message, details: error.details }, { status: error.statusCode });
+    }
+    return NextResponse.json({ error: 'Failed to fetch generations' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request);
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Please log in to generate images' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body) {
+      return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+    }
+
+    const supabase = createServiceClient();
+    const credits = new CreditService(supabase);
+
+    try {
+      const generation = await new ImageGenerationService(supabase, undefined, credits).generate(user.id, body);
+      const { balance } = await credits.getBalance(user.id);
+
+      return NextResponse.json({ generation, creditsRemaining: balance });
+    } catch (error) {
+      if (error instanceof CreditsError && error.statusCode === 402) {
+        const { balance } = await credits.getBalance(user.id);
+        return NextResponse.json(
+          {
+            error: 'Not enough credits',
+            message: `This generation needs ${error.details?.required} credits and you have ${balance}.`,
+            code: 'INSUFFICIENT_CREDITS',
+            required: error.details?.required,
+            balance,
+          },
+          { status: 402 }
+        );
+      }
+      throw error;
+    }
+  } catch (error) {
+    console.error('Error generating images:', error);
+    if (error instanceof ImageGenerationError || error instanceof CreditsError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.statusCode }
+      );
+    }
+    return NextResponse.json({ error: 'Failed to generate images' }, { status: 500 });
+  }
+}
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { randomUUID } from 'crypto';
 import { authenticateRequest } from '@/lib/auth/jwtAuth';
+import { createServiceClient } from '@/lib/supabase/server';
+import { CreditService, CreditsError, getGenerationCost, type CreditLedgerEntry } from '@/lib/credits';
 
 export async function GET(
   request: NextRequest,
@@ -63,6 +66,10 @@ export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ path: string[] }> }
 ) {
+  // Set once credits are spent, so any failure below refunds them
+  let creditService: CreditService | null = null;
+  let spend: CreditLedgerEntry | null = null;
+
   try {
     // JWT-only authentication to prevent abuse
     const { user, error: authError } = await authenticateRequest(request);
@@ -94,6 +101,30 @@ export async function POST(
     for (const [key, value] of formData.entries()) {
       console.log(`  - ${key}: ${value}`);
     }
+
+    // Charge before the generation starts; failed generations are refunded
+    const cost = getGenerationCost(pathString, formData);
+    if (cost > 0) {
+      creditService = new CreditService(createServiceClient());
+      try {
+        spend = await creditService.spend(user.id, cost, `ideogram:${randomUUID()}`, { path: pathString });
+      } catch (error) {
+        if (error instanceof CreditsError && error.statusCode === 402) {
+          const { balance } = await creditService.getBalance(user.id);
+          return NextResponse.json(
+            {
+              error: 'Not enough credits',
+              message: `This generation needs ${cost} credits and you have ${balance}.`,
+              code: 'INSUFFICIENT_CREDITS',
+              required: cost,
+              balance,
+            },
+            { status: 402 }
+          );
+        }
+        throw error;
+      }
+    }
     
     const response = await fetch(`https://api.ideogram.ai/${pathString}`, {
       method: 'POST',
@@ -111,6 +142,8 @@ export async function POST(
       console.error('❌ Response headers:', Object.fromEntries(response.headers.entries()));
       console.error('❌ Request path:', pathString);
       console.error('❌ FormData sent:', Array.from(formData.entries()));
+
+      await refundSpend(creditService, spend, `Ideogram API error ${response.status}`);
       
       // Return more detailed error to client
       return NextResponse.json(
@@ -125,12 +158,31 @@ export async function POST(
     }
 
     const data = await response.json();
-    return NextResponse.json(data);
+    const headers: Record<string, string> = spend
+      ? { 'X-Credits-Remaining': spend.balanceAfter.toString() }
+      : {};
+    return NextResponse.json(data, { headers });
   } catch (error) {
     console.error('Ideogram API proxy error:', error);
+    await refundSpend(creditService, spend, 'Ideogram API proxy error');
     return NextResponse.json(
       { error: 'Failed to post to Ideogram API' },
       { status: 500 }
     );
   }
 }
+
+async function refundSpend(
+  creditService: CreditService | null,
+  spend: CreditLedgerEntry | null,
+  reason: string
+) {
+  if (!creditService || !spend) return;
+
+  try {
+    await creditService.refund(spend, reason);
+  } catch (error) {
+    // The ledger keeps the spend, so a missed refund can be found and granted later
+    console.error('Failed to refund generation credits:', { spendId: spend.id, error });
+  }
+}
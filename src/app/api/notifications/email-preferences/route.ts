@@ -0,0 +1,65 @@
+/**
+ * Email Preferences API
+ *
+ * GET /api/notifications/email-preferences - Current user's email opt-outs
+ * PUT /api/notifications/email-preferences - Update them
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createServiceClient } from "@/lib/supabase/server";
+import { authenticateRequest } from "@/lib/auth/jwtAuth";
+import { getEmailPreferences, updateEmailPreferences } from "@/lib/email/preferences";
+import { z } from "zod";
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const UpdatePreferencesSchema = z.object({
+  order_receipts: z.boolean().optional(),
+  production_updates: z.boolean().optional(),
+  shipping_updates: z.boolean().optional(),
+  billing: z.boolean().optional(),
+}).strict();
+
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request);
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const supabase = createServiceClient();
+    const preferences = await getEmailPreferences(supabase, user.id);
+
+    return NextResponse.json({ preferences });
+  } catch (error) {
+    console.error('Error in GET /api/notifications/email-preferences:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request);
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const updates = UpdatePreferencesSchema.parse(body);
+
+    const supabase = createServiceClient();
+    const preferences = await updateEmailPreferences(supabase, user.id, updates);
+
+    return NextResponse.json({ preferences });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid preferences', details: error.issues },
+        { status: 400 }
+      );
+    }
+    console.error('Error in PUT /api/notifications/email-preferences:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Customer Order Edits API
+ *
+ * GET - The order's edit window: what can still be changed, until when, and
+ *       what each shipping upgrade costs
+ * POST - Make a change (the order's owner only):
+ *        { action: 'address', address }
+ *        { action: 'shipping', shippingMethod } - returns a Stripe Checkout URL for paid upgrades
+ *        { action: 'cancel' } - cancels at Prodigi and refunds in full
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceClient } from '@/lib/supabase/server';
+import { authenticateRequest } from '@/lib/auth/jwtAuth';
+import { stripe } from '@/lib/stripe';
+import { OrderEditService, OrderEditError } from '@/lib/order-edits';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function getBaseUrl(request: NextRequest): string {
+  const origin = request.headers.get('origin');
+  if (origin) return origin;
+
+  const host = request.headers.get('host');
+  if (host) {
+    const protocol = host.includes('localhost') ? 'http' : 'https';
+    return `${protocol}://${host}`;
+  }
+
+  return process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+}
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof OrderEditError) {
+    return NextResponse.json(
+      { error: error.message, details: error.details },
+      { status: error.statusCode }
+    );
+  }
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+async function createService() {
+  const { prodigiSDK } = await import('@/lib/prodigi-v2');
+  return new OrderEditService(createServiceClient(), { stripe, fulfillment: prodigiSDK });
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request);
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const window = await (await createService()).getEditWindow(user.id, id);
+
+    return NextResponse.json({ window });
+  } catch (error) {
+    console.error('Error in GET /api/orders/[id]/edits:', error);
+    return errorResponse(error, 'Failed to load edit window');
+  }
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request);
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body) {
+      return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+    }
+
+    const { id } = await params;
+    const service = await createService();
+
+    switch (body.action) {
+      case 'address': {
+        const edit = await service.changeAddress(user.id, id, body.address);
+        return NextResponse.json({ edit });
+      }
+
+      case 'shipping': {
+        const returnUrl = new URL('/orders', getBaseUrl(request));
+        returnUrl.searchParams.set('order', id);
+        returnUrl.searchParams.set('upgrade', 'paid');
+        const successUrl = returnUrl.toString();
+        returnUrl.searchParams.set('upgrade', 'cancelled');
+        const cancelUrl = returnUrl.toString();
+
+        const result = await service.upgradeShipping(user.id, id, body.shippingMethod, { successUrl, cancelUrl });
+        return NextResponse.json(result);
+      }
+
+      case 'cancel': {
+        const result = await service.cancel(user.id, id);
+        return NextResponse.json(result);
+      }
+
+      default:
+        return NextResponse.json({ error: 'Unknown action' }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('Error in POST /api/orders/[id]/edits:', error);
+    return errorResponse(error, 'Failed to change order');
+  }
+}
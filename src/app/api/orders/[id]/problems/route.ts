@@ -0,0 +1,95 @@
+/**
+ * Order Problem Reports API
+ *
+ * GET - Problem reports for an order, with signed photo URLs (the order's owner or staff)
+ * POST - Report a problem with a shipped order (multipart: orderItemId?, category, description, photos[])
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceClient } from '@/lib/supabase/server';
+import { authenticateRequest } from '@/lib/auth/jwtAuth';
+import { getUserRole } from '@/lib/auth/staffAuth';
+import { hasStaffPermission } from '@/lib/auth/roles';
+import { stripe } from '@/lib/stripe';
+import { RefundService, RefundError } from '@/lib/refunds';
+
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof RefundError) {
+    return NextResponse.json(
+      { error: error.message, details: error.details },
+      { status: error.statusCode }
+    );
+  }
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request);
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const supabase = createServiceClient();
+
+    const { data: order } = await supabase
+      .from('orders')
+      .select('id, user_id')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (!order) {
+      return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+    }
+    if ((order as any).user_id !== user.id
+      && !hasStaffPermission(await getUserRole(supabase, user.id), 'orders:read')) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const reports = await new RefundService(supabase, { stripe }).listProblemReports(id);
+
+    return NextResponse.json({ reports });
+  } catch (error) {
+    console.error('Error in GET /api/orders/[id]/problems:', error);
+    return errorResponse(error, 'Failed to load problem reports');
+  }
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request);
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const formData = await request.formData().catch(() => null);
+    if (!formData) {
+      return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+    }
+
+    const photos = formData.getAll('photos').filter((value): value is File => value instanceof File);
+
+    const { id } = await params;
+    const service = new RefundService(createServiceClient(), { stripe });
+    const report = await service.reportProblem(
+      user.id,
+      id,
+      {
+        orderItemId: formData.get('orderItemId'),
+        category: formData.get('category'),
+        description: formData.get('description'),
+      },
+      photos
+    );
+
+    return NextResponse.json({ report }, { status: 201 });
+  } catch (error) {
+    console.error('Error in POST /api/orders/[id]/problems:', error);
+    return errorResponse(error, 'Failed to report problem');
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * Order Refunds API
+ *
+ * GET - Refunds of an order (the order's owner or staff)
+ * POST - Refund items through Stripe (staff): { full?, items?: [{ orderItemId, amount? }], shipping?, reason, reportId? }
+ *        A refund that covers every item also cancels the Prodigi order while that's still possible.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceClient } from '@/lib/supabase/server';
+import { authenticateRequest } from '@/lib/auth/jwtAuth';
+import { authorizeStaff, getUserRole, recordStaffAction } from '@/lib/auth/staffAuth';
+import { hasStaffPermission } from '@/lib/auth/roles';
+import { stripe } from '@/lib/stripe';
+import { RefundService, RefundError } from '@/lib/refunds';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof RefundError) {
+    return NextResponse.json(
+      { error: error.message, details: error.details },
+      { status: error.statusCode }
+    );
+  }
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request);
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const supabase = createServiceClient();
+
+    const { data: order } = await supabase
+      .from('orders')
+      .select('id, user_id')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (!order) {
+      return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+    }
+    if ((order as any).user_id !== user.id
+      && !hasStaffPermission(await getUserRole(supabase, user.id), 'orders:read')) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const refunds = await new RefundService(supabase, { stripe }).listRefunds(id);
+
+    return NextResponse.json({ refunds });
+  } catch (error) {
+    console.error('Error in GET /api/orders/[id]/refunds:', error);
+    return errorResponse(error, 'Failed to load refunds');
+  }
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { user, role, error: authError, status } = await authorizeStaff(request, 'orders:refund');
+    if (authError || !user || !role) {
+      return NextResponse.json({ error: authError }, { status });
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body) {
+      return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+    }
+
+    const { id } = await params;
+    const supabase = createServiceClient();
+
+    const { prodigiSDK } = await import('@/lib/prodigi-v2');
+    const service = new RefundService(supabase, { stripe, fulfillment: prodigiSDK });
+    const outcome = await service.refund(id, user.id, body);
+
+    await recordStaffAction(supabase, {
+      orderId: id,
+      action: 'refund_issued',
+      actor: { id: user.id, role },
+      details: {
+        refund_id: outcome.refund.id,
+        stripe_refund_id: outcome.refund.stripeRefundId,
+        amount: outcome.refund.amount,
+        currency: outcome.refund.currency,
+        items: outcome.refund.items,
+        shipping_amount: outcome.refund.shippingAmount,
+        status: outcome.refund.status,
+        reason: outcome.refund.reason,
+        problem_report_id: outcome.refund.problemReportId,
+        fulfillment: outcome.fulfillment,
+      },
+    });
+
+    return NextResponse.json(outcome, { status: 201 });
+  } catch (error) {
+    console.error('Error in POST /api/orders/[id]/refunds:', error);
+    return errorResponse(error, 'Failed to refund order');
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Order Reprints API
+ *
+ * POST - Have Prodigi reprint an item instead of refunding it (staff): { orderItemId?, reason, reportId? }
+ *        The item defaults to the one the problem report is about.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceClient } from '@/lib/supabase/server';
+import { authorizeStaff, recordStaffAction } from '@/lib/auth/staffAuth';
+import { stripe } from '@/lib/stripe';
+import { RefundService, RefundError } from '@/lib/refunds';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { user, role, error: authError, status } = await authorizeStaff(request, 'orders:reprint');
+    if (authError || !user || !role) {
+      return NextResponse.json({ error: authError }, { status });
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body) {
+      return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+    }
+
+    const { id } = await params;
+    const supabase = createServiceClient();
+
+    const { prodigiSDK } = await import('@/lib/prodigi-v2');
+    const service = new RefundService(supabase, { stripe, fulfillment: prodigiSDK });
+    const reprint = await service.reprint(id, user.id, body);
+
+    await recordStaffAction(supabase, {
+      orderId: id,
+      action: 'reprint_created',
+      actor: { id: user.id, role },
+      details: {
+        prodigi_order_id: reprint.prodigiOrderId,
+        merchant_reference: reprint.merchantReference,
+        order_item_id: body.orderItemId ?? null,
+        problem_report_id: body.reportId ?? null,
+        reason: body.reason,
+      },
+    });
+
+    return NextResponse.json({ reprint }, { status: 201 });
+  } catch (error) {
+    console.error('Error in POST /api/orders/[id]/reprints:', error);
+    if (error instanceof RefundError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.statusCode }
+      );
+    }
+    return NextResponse.json({ error: 'Failed to create reprint' }, { status: 500 });
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createServiceClient } from "@/lib/supabase/server";
 import { authenticateRequest } from "@/lib/auth/jwtAuth";
+import { authorizeStaff, getUserRole, recordStaffAction } from "@/lib/auth/staffAuth";
+import { hasStaffPermission } from "@/lib/auth/roles";
 import { prodigiClient } from "@/lib/prodigi";
 import { z } from "zod";
 
@@ -36,14 +38,9 @@ export async function GET(
       return NextResponse.json({ error: 'Order not found' }, { status: 404 });
     }
 
-    // Check if user owns this order or is admin
-    const { data: profile } = await supabase
-      .from('profiles')
-      .select('is_admin')
-      .eq('id', user.id)
-      .single();
-
-    if ((order as any).user_id !== user.id && !(profile as any)?.is_admin) {
+    // Check if user owns this order or is staff
+    if ((order as any).user_id !== user.id
+      && !hasStaffPermission(await getUserRole(supabase, user.id), 'orders:read')) {
       return NextResponse.json({ error: 'Access denied' }, { status: 403 });
     }
 
@@ -199,27 +196,16 @@ export async function POST(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    // JWT-only authentication (admin only for manual status updates)
-    const { user, error: authError } = await authenticateRequest(request);
-    
-    if (authError || !user) {
-      console.log('Order Status Update API: Authentication failed', { error: authError });
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    // Staff only
+    const { user, role, error: authError, status } = await authorizeStaff(request, 'orders:refresh');
+
+    if (authError || !user || !role) {
+      console.log('Order Status Update API: Authorization failed', { error: authError });
+      return NextResponse.json({ error: authError }, { status });
     }
 
     const supabase = createServiceClient();
 
-    // Check if user is admin
-    const { data: profile } = await supabase
-      .from('profiles')
-      .select('is_admin')
-      .eq('id', user.id)
-      .single();
-
-    if (!(profile as any)?.is_admin) {
-      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
-    }
-
     const { id } = await params;
     const validatedParams = OrderIdSchema.parse({ id });
     const body = await request.json();
@@ -232,7 +218,8 @@ export async function POST(
         .from('dropship_orders')
         .select('*')
         .eq('order_id', validatedParams.id)
-        .eq('provider', 'prodigi');
+        .eq('provider', 'prodigi')
+        .is('reprint_of', null);
 
       if (dropshipError || !dropshipOrders || dropshipOrders.length === 0) {
         return NextResponse.json({ error: 'No Prodigi order found' }, { status: 404 });
@@ -262,19 +249,17 @@ export async function POST(
           .eq('id', (prodigiOrder as any).id);
 
         // Log the manual refresh
-        await (supabase as any)
-          .from('order_logs')
-          .insert({
-            order_id: validatedParams.id,
-            action: 'manual_prodigi_refresh',
-            details: {
-              old_status: (prodigiOrder as any).status,
-              new_status: newStatus,
-              tracking_number: updatedProdigiOrder.trackingNumber,
-              tracking_url: updatedProdigiOrder.trackingUrl,
-              refreshed_by: user.id,
-            },
-          });
+        await recordStaffAction(supabase, {
+          orderId: validatedParams.id,
+          action: 'manual_prodigi_refresh',
+          actor: { id: user.id, role },
+          details: {
+            old_status: (prodigiOrder as any).status,
+            new_status: newStatus,
+            tracking_number: updatedProdigiOrder.trackingNumber,
+            tracking_url: updatedProdigiOrder.trackingUrl,
+          },
+        });
 
         return NextResponse.json({
           success: true,
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createServiceClient } from "@/lib/supabase/server";
-import { authenticateRequest } from "@/lib/auth/jwtAuth";
+import { authorizeStaff, recordStaffAction } from "@/lib/auth/staffAuth";
+import { hasStaffPermission } from "@/lib/auth/roles";
+import { recordDelivery } from "@/lib/prodigi-v2/delivery-history";
 import { z } from "zod";
 
 const OrderStatusUpdateSchema = z.object({
@@ -24,12 +26,12 @@ const OrderQuerySchema = z.object({
 
 export async function GET(request: NextRequest) {
   try {
-    // JWT-only authentication (admin only)
-    const { user, error: authError } = await authenticateRequest(request);
-    
-    if (authError || !user) {
-      console.log('Order Management API: Authentication failed', { error: authError });
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    // Staff only
+    const { user, role, error: authError, status } = await authorizeStaff(request, 'orders:read');
+
+    if (authError || !user || !role) {
+      console.log('Order Management API: Authorization failed', { error: authError });
+      return NextResponse.json({ error: authError }, { status });
     }
 
     const supabase = createServiceClient();
@@ -111,29 +113,29 @@ export async function GET(request: NextRequest) {
 
 export async function PATCH(request: NextRequest) {
   try {
-    // JWT-only authentication (admin only for order updates)
-    const { user, error: authError } = await authenticateRequest(request);
-    
-    if (authError || !user) {
-      console.log('Order Management Update API: Authentication failed', { error: authError });
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    // Staff only
+    const { user, role, error: authError, status } = await authorizeStaff(request, 'orders:update');
+
+    if (authError || !user || !role) {
+      console.log('Order Management Update API: Authorization failed', { error: authError });
+      return NextResponse.json({ error: authError }, { status });
     }
 
     const supabase = createServiceClient();
 
-    // Check if user is admin (you might want to implement proper admin check)
-    const { data: profile } = await supabase
-      .from('profiles')
-      .select('is_admin')
-      .eq('id', user.id)
-      .single();
+    const body = await request.json();
+    const validatedData = OrderStatusUpdateSchema.parse(body);
 
-    if (!(profile as any)?.is_admin) {
-      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    const isCancellation = validatedData.status === 'cancelled' || validatedData.status === 'refunded';
+    if (isCancellation && !hasStaffPermission(role, 'orders:cancel')) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
     }
 
-    const body = await request.json();
-    const validatedData = OrderStatusUpdateSchema.parse(body);
+    const { data: currentOrder } = await supabase
+      .from('orders')
+      .select('status')
+      .eq('id', validatedData.orderId)
+      .single();
 
     // Update the order
     const updateData: any = {
@@ -170,21 +172,26 @@ export async function PATCH(request: NextRequest) {
     }
 
     // Log the status change
-    await (supabase as any)
-      .from('order_logs')
-      .insert({
-        order_id: validatedData.orderId,
-        action: 'status_updated',
-        details: {
-          new_status: validatedData.status,
-          reason: validatedData.reason,
-          tracking_number: validatedData.trackingNumber,
-          tracking_url: validatedData.trackingUrl,
-          estimated_delivery: validatedData.estimatedDelivery,
-          notes: validatedData.notes,
-          updated_by: user.id,
-        },
-      });
+    await recordStaffAction(supabase, {
+      orderId: validatedData.orderId,
+      action: isCancellation ? `order_${validatedData.status}` : 'status_updated',
+      actor: { id: user.id, role },
+      details: {
+        old_status: (currentOrder as { status?: string } | null)?.status ?? null,
+        new_status: validatedData.status,
+        reason: validatedData.reason,
+        tracking_number: validatedData.trackingNumber,
+        tracking_url: validatedData.trackingUrl,
+        estimated_delivery: validatedData.estimatedDelivery,
+        notes: validatedData.notes,
+      },
+    });
+
+    // Prodigi doesn't report deliveries, so staff confirmations are how
+    // transit times get learned
+    if (validatedData.status === 'delivered') {
+      await recordDelivery(supabase, validatedData.orderId);
+    }
 
     // Create customer notification
     const notificationTypes = {
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createServiceClient } from "@/lib/supabase/server";
 import { authenticateRequest } from "@/lib/auth/jwtAuth";
+import { getPrintSettings, MAX_CROP_ZOOM } from "@/lib/print-crop";
 import { z } from "zod";
 
 // V2 sizing system: accepts actual sizes like "8x10", "12x30", "16x20", etc.
@@ -21,6 +22,13 @@ const CreateProductSchema = z.object({
   finish: z.string().optional(),
   edge: z.enum(['19mm', '38mm', 'auto']).optional(),
   canvasType: z.enum(['standard', 'slim', 'eco', 'auto']).optional(),
+  // Image placement on the print (crop only applies to fillPrintArea)
+  sizing: z.enum(['fillPrintArea', 'fitPrintArea', 'stretchToPrintArea']).optional(),
+  crop: z.object({
+    focalX: z.number().min(0).max(1),
+    focalY: z.number().min(0).max(1),
+    zoom: z.number().min(1).max(MAX_CROP_ZOOM),
+  }).optional(),
 });
 
 const GetProductsSchema = z.object({
@@ -191,7 +199,7 @@ export async function POST(request: NextRequest) {
     
     const { data: existingProduct, error: existingError } = await serviceSupabase
       .from('products')
-      .select('id')
+      .select('id, metadata')
       .eq('image_id', validatedData.imageId)
       .eq('frame_size', validatedData.frameSize)
       .eq('frame_style', validatedData.frameStyle)
@@ -204,6 +212,29 @@ export async function POST(request: NextRequest) {
       // Return the existing product instead of error
       console.log('✅ Products API: Found existing product, returning it', { productId: (existingProduct as { id: string }).id });
       const productId = (existingProduct as { id: string }).id;
+
+      // Crop and sizing are edited without changing the product, so keep them current
+      // (orders snapshot them at checkout)
+      const existingMetadata = ((existingProduct as { metadata?: Record<string, any> | null }).metadata) || {};
+      const printSettings = getPrintSettings(validatedData);
+      if (JSON.stringify(getPrintSettings(existingMetadata)) !== JSON.stringify(printSettings)) {
+        const metadata: Record<string, any> = { ...existingMetadata, ...printSettings };
+        if (!printSettings.crop) delete metadata.crop;
+
+        const { error: updateError } = await (serviceSupabase as any)
+          .from('products')
+          .update({ metadata })
+          .eq('id', productId);
+
+        if (updateError) {
+          console.error('Error updating product print settings:', updateError);
+          return NextResponse.json(
+            { error: 'Failed to update product' },
+            { status: 500 }
+          );
+        }
+      }
+
       const { data: product } = await serviceSupabase
         .from('products')
         .select(`
@@ -342,6 +373,7 @@ export async function POST(request: NextRequest) {
     if (data.finish) metadata.finish = data.finish;
     if (data.edge && data.edge !== 'auto') metadata.edge = data.edge;
     if (data.canvasType && data.canvasType !== 'auto') metadata.canvasType = data.canvasType;
+    Object.assign(metadata, getPrintSettings(validatedData));
 
     // Create product using service client to bypass RLS
     console.log('💾 Products API: Inserting product into database...', { 
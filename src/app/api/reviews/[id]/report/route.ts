@@ -0,0 +1,41 @@
+/**
+ * Review Report API
+ *
+ * POST - Flag a review for admin moderation ({ reason? })
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceClient } from '@/lib/supabase/server';
+import { authenticateRequest } from '@/lib/auth/jwtAuth';
+import { ReviewService, ReviewError } from '@/lib/reviews';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request);
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+
+    const service = new ReviewService(createServiceClient());
+    await service.report(id, body?.reason);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error reporting review:', error);
+    if (error instanceof ReviewError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.statusCode }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to report review' },
+      { status: 500 }
+    );
+  }
+}
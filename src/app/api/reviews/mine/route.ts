@@ -0,0 +1,33 @@
+/**
+ * My Reviews API
+ *
+ * GET - The signed-in user's reviews (used to show "Reviewed" on delivered orders)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceClient } from '@/lib/supabase/server';
+import { authenticateRequest } from '@/lib/auth/jwtAuth';
+import { ReviewService, ReviewError } from '@/lib/reviews';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request);
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const service = new ReviewService(createServiceClient());
+    const reviews = await service.listMine(user.id);
+
+    return NextResponse.json({ reviews });
+  } catch (error) {
+    console.error('Error fetching user reviews:', error);
+    if (error instanceof ReviewError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json(
+      { error: 'Failed to fetch your reviews' },
+      { status: 500 }
+    );
+  }
+}
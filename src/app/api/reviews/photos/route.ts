@@ -0,0 +1,44 @@
+/**
+ * Review Photo Upload API
+ *
+ * POST - Upload a review photo (multipart "file"); returns its public URL
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceClient } from '@/lib/supabase/server';
+import { authenticateRequest } from '@/lib/auth/jwtAuth';
+import { ReviewService, ReviewError } from '@/lib/reviews';
+
+export const runtime = 'nodejs';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request);
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file');
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 });
+    }
+
+    const service = new ReviewService(createServiceClient());
+    const url = await service.uploadPhoto(user.id, file);
+
+    return NextResponse.json({ url }, { status: 201 });
+  } catch (error) {
+    console.error('Error uploading review photo:', error);
+    if (error instanceof ReviewError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.statusCode }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to upload photo' },
+      { status: 500 }
+    );
+  }
+}
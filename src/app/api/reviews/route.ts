@@ -0,0 +1,68 @@
+/**
+ * Product Reviews API
+ *
+ * GET - List approved reviews (?productId, ?productType, ?frameStyle, ?limit, ?offset)
+ * POST - Create a verified-purchase review
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceClient } from '@/lib/supabase/server';
+import { authenticateRequest } from '@/lib/auth/jwtAuth';
+import { ReviewService, ReviewError, combineRatingSummaries } from '@/lib/reviews';
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof ReviewError) {
+    return NextResponse.json(
+      { error: error.message, details: error.details },
+      { status: error.statusCode }
+    );
+  }
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const productId = searchParams.get('productId') || undefined;
+    const productType = searchParams.get('productType') || undefined;
+    const frameStyle = searchParams.get('frameStyle') || undefined;
+    const limit = parseInt(searchParams.get('limit') || '20', 10);
+    const offset = parseInt(searchParams.get('offset') || '0', 10);
+
+    const service = new ReviewService(createServiceClient());
+    const [reviews, summaries] = await Promise.all([
+      service.list({ productId, productType, frameStyle, limit, offset }),
+      productType ? service.getSummaries({ productType, frameStyle }) : Promise.resolve([]),
+    ]);
+
+    return NextResponse.json({
+      reviews,
+      summary: productType ? combineRatingSummaries(summaries, productType, frameStyle ?? null) : null,
+    });
+  } catch (error) {
+    console.error('Error fetching reviews:', error);
+    return errorResponse(error, 'Failed to fetch reviews');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request);
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body) {
+      return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+    }
+
+    const service = new ReviewService(createServiceClient());
+    const review = await service.create(user.id, body);
+
+    return NextResponse.json({ review }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating review:', error);
+    return errorResponse(error, 'Failed to save review');
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Product Rating Summaries API
+ *
+ * GET - Review counts and average ratings per product type and frame style
+ *       (?productType, ?frameStyle)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceClient } from '@/lib/supabase/server';
+import { ReviewService, ReviewError } from '@/lib/reviews';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const service = new ReviewService(createServiceClient());
+    const summaries = await service.getSummaries({
+      productType: searchParams.get('productType') || undefined,
+      frameStyle: searchParams.get('frameStyle') || undefined,
+    });
+
+    return NextResponse.json(
+      { summaries },
+      { headers: { 'Cache-Control': 'public, s-maxage=300, stale-while-revalidate=600' } }
+    );
+  } catch (error) {
+    console.error('Error fetching rating summaries:', error);
+    if (error instanceof ReviewError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json(
+      { error: 'Failed to fetch rating summaries' },
+      { status: 500 }
+    );
+  }
+}
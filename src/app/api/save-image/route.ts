@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import sharp from 'sharp';
 import { Database } from '@/lib/supabase/client';
 import { authenticateRequest } from '@/lib/auth/jwtAuth';
 
@@ -30,6 +31,8 @@ interface SaveImageRequest {
   prompt: string;
   aspectRatio: string;
   model: string;
+  provider?: string;
+  generationId?: string;
   style?: string;
   color?: string;
   userId: string;
@@ -51,7 +54,7 @@ export async function POST(request: NextRequest) {
     console.log('✅ Save Image API: User authenticated', { userId: user.id, email: user.email });
     
     const body: SaveImageRequest = await request.json();
-    const { imageUrl, prompt, aspectRatio, model, style, color, userId } = body;
+    const { imageUrl, prompt, aspectRatio, model, provider = 'ideogram', generationId, style, color, userId } = body;
 
     // Validate required fields
     if (!imageUrl || !prompt || !userId) {
@@ -123,16 +126,9 @@ export async function POST(request: NextRequest) {
       return 'square'; // default
     };
 
-    // Map model to database enum
-    const mapModel = (model: string): '3.0-latest' | '3.0' | '2.1' | '1.5' => {
-      if (model === 'V_3') return '3.0-latest';
-      if (model === 'V_2_1') return '2.1';
-      if (model === 'V_1_5') return '1.5';
-      return '3.0-latest'; // default
-    };
-
-    // Get image dimensions (default for now, could be extracted from actual image)
-    const dimensions = aspectRatio.includes('1x1') || aspectRatio.includes('1:1') 
+    // Get image dimensions from the image itself (print quality ratings depend on them),
+    // falling back to the nominal size for the aspect ratio
+    const nominalDimensions = aspectRatio.includes('1x1') || aspectRatio.includes('1:1') 
       ? { width: 1024, height: 1024 }
       : aspectRatio.includes('3x4') || aspectRatio.includes('2x3')
       ? { width: 768, height: 1024 }
@@ -140,6 +136,16 @@ export async function POST(request: NextRequest) {
       ? { width: 1024, height: 768 }
       : { width: 1024, height: 1024 };
 
+    let dimensions = nominalDimensions;
+    try {
+      const metadata = await sharp(Buffer.from(imageBuffer)).metadata();
+      if (metadata.width && metadata.height) {
+        dimensions = { width: metadata.width, height: metadata.height };
+      }
+    } catch (error) {
+      console.warn('⚠️ Could not read image dimensions, using nominal size:', error);
+    }
+
     console.log('💾 Saving metadata to database...');
 
     // Save metadata to database
@@ -151,14 +157,17 @@ export async function POST(request: NextRequest) {
         aspect_ratio: mapAspectRatio(aspectRatio),
         width: dimensions.width,
         height: dimensions.height,
-        model: mapModel(model),
+        model: model || 'unknown',
+        provider,
+        generation_id: generationId || null,
         image_url: publicUrl,
         status: 'completed' as const,
         is_public: false,
         metadata: {
           style: style,
           color: color,
-          original_ideogram_url: imageUrl,
+          // Provider URLs expire; local placeholders are data URLs, not worth keeping
+          ...(!imageUrl.startsWith('data:') && { original_url: imageUrl }),
           generation_timestamp: new Date().toISOString(),
         }
       } as any)
@@ -11,12 +11,13 @@
  * - Real-time Prodigi pricing
  * - All shipping method options
  * - Currency conversion
- * - Delivery estimates
+ * - Delivery estimates and arrival dates
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prodigiSDK } from '@/lib/prodigi-v2';
-import { estimateDeliveryTime, formatDeliveryEstimate } from '@/lib/prodigi-v2/delivery-estimator';
+import { estimateDeliveryTime, formatDeliveryEstimate, getArrivalWindow } from '@/lib/prodigi-v2/delivery-estimator';
+import { getDeliveryHistory, resolveProductType } from '@/lib/prodigi-v2/delivery-history';
 import { detectUserLocation } from '@/lib/location-detection';
 import { currencyService } from '@/lib/currency';
 import { getCountry } from '@/lib/countries';
@@ -86,6 +87,8 @@ export async function POST(request: NextRequest) {
       hasAddress: !!body.address,
     });
 
+    const deliveryHistory = await getDeliveryHistory();
+
     // Process all items and get quotes
     const itemQuotes = await Promise.all(
       body.items.map(async (item) => {
@@ -161,10 +164,15 @@ export async function POST(request: NextRequest) {
         const userCountry = getCountry(country);
         const userCurrency = body.currency || userCountry?.currency || 'USD';
 
+        const prodigiProductType = deliveryHistory ? await resolveProductType(sku, country) : null;
+
         // Process quotes with currency conversion
         const shippingOptions = await Promise.all(quotes.map(async (quote) => {
           const productionCountry = quote.shipments?.[0]?.fulfillmentLocation?.countryCode || 'US';
-          const deliveryEstimate = estimateDeliveryTime(productionCountry, country, quote.shipmentMethod);
+          const deliveryEstimate = estimateDeliveryTime(productionCountry, country, quote.shipmentMethod, 'wall-art', {
+            history: deliveryHistory,
+            productType: prodigiProductType,
+          });
           
           const prodigiCurrency = quote.costSummary.totalCost?.currency || 'USD';
           const prodigiPrices = {
@@ -207,6 +215,8 @@ export async function POST(request: NextRequest) {
               min: deliveryEstimate.totalDays.min,
               max: deliveryEstimate.totalDays.max,
               formatted: formatDeliveryEstimate(deliveryEstimate),
+              arrivesBy: getArrivalWindow(deliveryEstimate),
+              basis: deliveryEstimate.basis,
             },
             productionCountry,
           };
@@ -1,236 +1,236 @@
 /**
  * AI Chat API - LangGraph Multi-Agent System
+ *
+ * Signed-in users' chats are persisted: pass the returned conversationId with
+ * the next message and the conversation resumes from its stored history and
+ * checkpoint. Anonymous chats send their full history every time.
+ *
+ * Requests with `Accept: text/event-stream` get progress, suggestion and
+ * token events while the graph runs (see src/lib/studio/chat-stream.ts).
  */
 
-import { runAgentGraph } from '@/lib/studio/langgraph';
+import { runAgentGraph, type AgentProgressEvent } from '@/lib/studio/langgraph';
 import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/auth/jwtAuth';
+import { createServiceClient } from '@/lib/supabase/server';
+import {
+  StudioConversationService,
+  toConversationCheckpoint,
+  type StudioChatTurn,
+} from '@/lib/studio/conversations';
+import {
+  buildChatReply,
+  fallbackChatReply,
+  type ChatReply,
+} from '@/lib/studio/chat-reply';
+import {
+  CHAT_STREAM_CONTENT_TYPE,
+  encodeChatStreamEvent,
+  type ChatStreamEvent,
+} from '@/lib/studio/chat-stream';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
+type ConversationContext = { service: StudioConversationService; userId: string };
+
+interface ChatTurn {
+  lastUserMessage: string;
+  messages: Array<{ role: 'user' | 'assistant'; content: string }>;
+  frameConfig: any;
+  imageAnalysis: any;
+  conversations: ConversationContext | null;
+  conversationId: string | null;
+}
+
 export async function POST(req: NextRequest) {
-  try {
-    const { messages, frameConfig, imageAnalysis } = await req.json();
+  if (req.headers.get('accept')?.includes(CHAT_STREAM_CONTENT_TYPE)) {
+    return streamChat(req);
+  }
+
+  let conversationId: string | null = null;
 
-    // Get the last user message
-    const lastUserMessage = messages && messages.length > 0 
-      ? messages.filter((m: any) => m.role === 'user').pop()?.content || ''
-      : '';
+  try {
+    const turn = await prepareTurn(req);
+    conversationId = turn.conversationId;
 
     // Use LangGraph multi-agent system
     const result = await runAgentGraph(
-      lastUserMessage,
-      messages || [],
-      frameConfig || {},
-      imageAnalysis
+      turn.lastUserMessage,
+      turn.messages,
+      turn.frameConfig,
+      turn.imageAnalysis
     );
-    
-    // Process tool calls and results from LangGraph state
-    const suggestions: any[] = [];
-    let showLifestyleImages = false;
-    let comparisonData = null;
-    let imageSuggestions = null;
-    
-    // Process tool results from agent responses
-    const allToolResults = result.toolResults || [];
-    for (const toolResult of allToolResults) {
-      const toolName = (toolResult as any).toolName || '';
-      const toolResultData = (toolResult as any).result || toolResult;
-      
-      // Handle comparison tools
-      if (toolName.includes('compare') || toolName === 'compareFrames' || toolName === 'compareProducts' || toolName === 'comparePrices') {
-        comparisonData = toolResultData;
-      }
-      
-      // Handle image suggestion tools
-      if (toolName === 'getFrameVisuals' || toolName.includes('Image') || toolName === 'getVisualExamples') {
-        imageSuggestions = toolResultData;
-        showLifestyleImages = true;
-      }
-      
-      // Handle recommendation tools
-      if (toolName === 'recommendFrame' || toolName.includes('recommend')) {
-        if (toolResultData && toolResultData.recommendations) {
-          toolResultData.recommendations.forEach((rec: any) => {
-            suggestions.push({
-              id: rec.id,
-              type: 'configuration',
-              title: `Try ${rec.frameColor} ${rec.productType}`,
-              description: rec.reason,
-              changes: {
-                productType: rec.productType,
-                frameColor: rec.frameColor,
-                size: rec.size,
-                mount: rec.mount,
-                glaze: rec.glaze,
-              },
-              confidence: rec.confidence,
-              reason: rec.reason,
-              timestamp: Date.now(),
-            });
-          });
-        }
-      }
-      
-      // Handle update tools
-      if (toolName.includes('update') || toolName === 'updateFrame') {
-        if (toolResultData && toolResultData.updates) {
-          suggestions.push({
-            id: `suggestion-${Date.now()}`,
-            type: 'configuration',
-            title: generateSuggestionTitle(toolResultData.updates),
-            description: generateSuggestionDescription(toolResultData.updates, frameConfig),
-            changes: toolResultData.updates,
-            currentValues: extractCurrentValues(toolResultData.updates, frameConfig),
-            confidence: 0.9,
-            reason: generateSuggestionReason(toolResultData.updates, frameConfig),
-            timestamp: Date.now(),
-          });
-        }
-      }
-      
-      // Handle pricing tools
-      if (toolName.includes('price') || toolName === 'getPriceQuote' || toolName === 'comparePrices') {
-        // Store pricing information for display
-        if (toolResultData && toolResultData.estimatedPrice) {
-          // Pricing data can be displayed in UI
-        }
-      }
-    }
-    
-    // Check if we should show lifestyle images based on content
-    let finalContent = result.finalResponse || '';
-    
-    // Remove any markdown image links from the content (images are handled via tool results)
-    // This prevents the AI from generating incorrect image paths
-    finalContent = finalContent.replace(/!\[([^\]]*)\]\([^)]+\)/g, '');
-    
-    if (!showLifestyleImages) {
-      const lowerContent = finalContent.toLowerCase();
-      const productTypeKeywords = [
-        'canvas', 'framed print', 'acrylic', 'metal', 'poster',
-        'product type', 'wall art', 'recommend', 'suggest',
-        'try canvas', 'make it', 'switch to'
-      ];
-      showLifestyleImages = productTypeKeywords.some(keyword => lowerContent.includes(keyword));
-    }
 
-    return NextResponse.json({
-      role: 'assistant',
-      content: finalContent,
-      suggestions,
-      showLifestyleImages,
-      comparison: comparisonData,
-      imageSuggestions: imageSuggestions,
-      toolCalls: result.toolCalls || [],
-    });
+    return NextResponse.json(await completeTurn(turn, result));
   } catch (error: any) {
     console.error('Error in AI chat:', error);
-    
+
     // Never return an error to the user - always provide a helpful fallback
-    const fallbackContent = 'I\'m here to help with your custom framing needs. I can assist with frame recommendations, pricing questions, and configuration options. How can I help you today?';
-    
-    return NextResponse.json({
-      role: 'assistant',
-      content: fallbackContent,
-      suggestions: [],
-      showLifestyleImages: false,
-      comparison: null,
-      imageSuggestions: null,
-      toolCalls: [],
-      metadata: {
-        fallback: true,
-        error: error instanceof Error ? error.message : 'Unknown error',
-      },
-    });
+    return NextResponse.json(fallbackChatReply(error, conversationId));
   }
 }
 
-function generateSuggestionTitle(changes: any): string {
-  const keys = Object.keys(changes);
-  if (keys.length === 1) {
-    const key = keys[0];
-    const value = changes[key];
-    
-    switch (key) {
-      case 'frameColor':
-        return `Change Frame to ${capitalize(value)}`;
-      case 'size':
-        return `Resize to ${value}"`;
-      case 'glaze':
-        return value === 'none' ? 'Remove Glaze' : `Apply ${capitalize(value)} Glaze`;
-      case 'mount':
-        return value === 'none' ? 'Remove Mount' : `Add ${value} Mount`;
-      case 'wrap':
-        return `Change Canvas Wrap to ${value}`;
-      case 'productType':
-        return `Switch to ${capitalize(value)}`;
-      default:
-        return `Update ${capitalize(key)}`;
-    }
-  }
-  
-  return `Update ${keys.length} Options`;
+/**
+ * Run the turn as a server-sent events stream. Failures end the stream with
+ * the fallback reply, like the JSON form.
+ */
+function streamChat(req: NextRequest): Response {
+  const encoder = new TextEncoder();
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: ChatStreamEvent) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(encodeChatStreamEvent(event)));
+      };
+
+      let conversationId: string | null = null;
+
+      try {
+        const turn = await prepareTurn(req);
+        conversationId = turn.conversationId;
+
+        const result = await runAgentGraph(
+          turn.lastUserMessage,
+          turn.messages,
+          turn.frameConfig,
+          turn.imageAnalysis,
+          {
+            onProgress: (event: AgentProgressEvent) => {
+              // Tool results stay server-side; the checked cards made from them don't
+              if (event.type !== 'tool_result') {
+                send(event);
+              }
+            },
+          }
+        );
+
+        send({ type: 'done', reply: await completeTurn(turn, result) });
+      } catch (error) {
+        console.error('Error in streaming AI chat:', error);
+        send({ type: 'done', reply: fallbackChatReply(error, conversationId) });
+      } finally {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      // The client went away; the run finishes and is still saved
+      closed = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': CHAT_STREAM_CONTENT_TYPE,
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
 }
 
-function generateSuggestionDescription(changes: any, current: any): string {
-  const keys = Object.keys(changes);
-  
-  if (keys.length === 1) {
-    const key = keys[0];
-    const value = changes[key];
-    const oldValue = current[key];
-    
-    if (oldValue && oldValue !== value) {
-      return `Change from ${oldValue} to ${value}`;
+/**
+ * Read the request and, for stored conversations, the history and
+ * checkpoint the turn resumes from
+ */
+async function prepareTurn(req: NextRequest): Promise<ChatTurn> {
+  const body = await req.json();
+  const { messages, frameConfig, imageAnalysis } = body;
+  let conversationId: string | null = typeof body.conversationId === 'string' ? body.conversationId : null;
+
+  // Get the last user message
+  const lastUserMessage = messages && messages.length > 0
+    ? messages.filter((m: any) => m.role === 'user').pop()?.content || ''
+    : '';
+
+  const conversations = await getConversationService(req);
+  let history: Awaited<ReturnType<StudioConversationService['getHistory']>> | null = null;
+
+  if (conversations && conversationId) {
+    try {
+      history = await conversations.service.getHistory(conversations.userId, conversationId);
+    } catch {
+      // Deleted or expired: carry on in a new conversation
+      console.warn('Studio conversation not found, starting a new one:', conversationId);
+      conversationId = null;
     }
-    
-    return `Set ${key} to ${value}`;
   }
-  
-  const changeList = keys.map(k => `${k}: ${changes[k]}`).join(', ');
-  return `Update multiple options: ${changeList}`;
+
+  return {
+    lastUserMessage,
+    messages: history ? [...history.messages, { role: 'user', content: lastUserMessage }] : messages || [],
+    frameConfig: frameConfig || history?.checkpoint.frameConfig || {},
+    imageAnalysis: history ? imageAnalysis ?? history.checkpoint.imageAnalysis : imageAnalysis,
+    conversations,
+    conversationId,
+  };
 }
 
-function generateSuggestionReason(changes: any, current: any): string {
-  const keys = Object.keys(changes);
-  
-  if (keys.includes('frameColor')) {
-    const color = changes.frameColor;
-    const reasons: Record<string, string> = {
-      black: 'Black frames create a modern, elegant look that works with most artwork',
-      white: 'White frames offer a clean, gallery-style appearance perfect for bright spaces',
-      natural: 'Natural wood adds warmth and complements artwork beautifully',
-      gold: 'Gold frames add a premium, classical touch ideal for elegant pieces',
-      silver: 'Silver provides a sleek, modern metallic finish',
-    };
-    return reasons[color] || 'This color will enhance your artwork';
+/**
+ * Build the reply and, for signed-in users, save the turn
+ */
+async function completeTurn(turn: ChatTurn, result: Awaited<ReturnType<typeof runAgentGraph>>): Promise<ChatReply> {
+  const reply = buildChatReply(result, turn.frameConfig, turn.conversationId);
+
+  if (turn.conversations && turn.lastUserMessage) {
+    reply.conversationId = await saveTurn(turn.conversations, turn.conversationId, {
+      userMessage: turn.lastUserMessage,
+      assistantMessage: {
+        content: reply.content,
+        suggestions: reply.suggestions,
+        metadata: {
+          showLifestyleImages: reply.showLifestyleImages,
+          comparison: reply.comparison,
+          imageSuggestions: reply.imageSuggestions,
+        },
+      },
+      checkpoint: toConversationCheckpoint(
+        { ...result, showLifestyleImages: reply.showLifestyleImages, comparison: reply.comparison },
+        reply.suggestions
+      ),
+    });
   }
-  
-  if (keys.includes('glaze')) {
-    if (changes.glaze === 'motheye') {
-      return 'Motheye glaze offers 99% UV protection and anti-glare properties - perfect for valuable artwork';
-    }
-    if (changes.glaze === 'acrylic') {
-      return 'Acrylic glazing is shatter-resistant and budget-friendly while still protecting your art';
-    }
+
+  return reply;
+}
+
+/**
+ * Conversation storage for signed-in requests; null for anonymous ones
+ */
+async function getConversationService(req: NextRequest): Promise<ConversationContext | null> {
+  if (!req.headers.get('authorization')) {
+    return null;
   }
-  
-  if (keys.includes('mount') && changes.mount !== 'none') {
-    return 'A mount creates breathing room around your artwork and adds a professional, gallery-quality look';
+
+  const { user } = await authenticateRequest(req);
+  if (!user) {
+    return null;
   }
-  
-  return 'This change will improve the overall presentation of your artwork';
-}
 
-function extractCurrentValues(changes: any, current: any): Record<string, any> {
-  const values: Record<string, any> = {};
-  Object.keys(changes).forEach(key => {
-    values[key] = current[key];
-  });
-  return values;
+  return { service: new StudioConversationService(createServiceClient()), userId: user.id };
 }
 
-function capitalize(str: string): string {
-  return str.charAt(0).toUpperCase() + str.slice(1);
+/**
+ * Persist a turn, starting the conversation if needed. Storage failures are
+ * logged rather than failing the reply.
+ */
+async function saveTurn(
+  conversations: ConversationContext,
+  conversationId: string | null,
+  turn: StudioChatTurn
+): Promise<string | null> {
+  try {
+    const id = conversationId
+      ?? (await conversations.service.create(conversations.userId, turn.userMessage)).id;
+    await conversations.service.appendTurn(conversations.userId, id, turn);
+    return id;
+  } catch (error) {
+    console.error('Error saving studio conversation:', error);
+    return conversationId;
+  }
 }
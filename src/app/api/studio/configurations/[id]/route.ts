@@ -0,0 +1,97 @@
+/**
+ * Saved Studio Configuration API
+ *
+ * GET - Fetch a saved design (current version, or ?version=N)
+ * PATCH - Rename a design and/or save a new version of its configuration
+ * DELETE - Delete a design and all of its versions
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceClient } from '@/lib/supabase/server';
+import { authenticateRequest } from '@/lib/auth/jwtAuth';
+import {
+  SavedConfigurationService,
+  SavedConfigurationError,
+} from '@/lib/studio/saved-configurations';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof SavedConfigurationError) {
+    return NextResponse.json(
+      { error: error.message, details: error.details },
+      { status: error.statusCode }
+    );
+  }
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request);
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const versionParam = searchParams.get('version');
+    const version = versionParam ? parseInt(versionParam, 10) : undefined;
+
+    if (version !== undefined && (isNaN(version) || version < 1)) {
+      return NextResponse.json({ error: 'Invalid version' }, { status: 400 });
+    }
+
+    const service = new SavedConfigurationService(createServiceClient());
+    const configuration = await service.get(user.id, id, version);
+
+    return NextResponse.json({ configuration, config: configuration.config });
+  } catch (error) {
+    console.error('Error fetching saved configuration:', error);
+    return errorResponse(error, 'Failed to fetch design');
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request);
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await request.json().catch(() => null);
+    if (!body) {
+      return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+    }
+
+    const service = new SavedConfigurationService(createServiceClient());
+    const configuration = await service.update(user.id, id, {
+      name: body.name,
+      config: body.config,
+    });
+
+    return NextResponse.json({ configuration });
+  } catch (error) {
+    console.error('Error updating saved configuration:', error);
+    return errorResponse(error, 'Failed to update design');
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request);
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const service = new SavedConfigurationService(createServiceClient());
+    await service.delete(user.id, id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting saved configuration:', error);
+    return errorResponse(error, 'Failed to delete design');
+  }
+}
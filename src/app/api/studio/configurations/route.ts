@@ -0,0 +1,71 @@
+/**
+ * Saved Studio Configurations API
+ *
+ * GET - List the user's saved designs
+ * POST - Save the current studio configuration as a new design
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceClient } from '@/lib/supabase/server';
+import { authenticateRequest } from '@/lib/auth/jwtAuth';
+import {
+  SavedConfigurationService,
+  SavedConfigurationError,
+} from '@/lib/studio/saved-configurations';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request);
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const service = new SavedConfigurationService(createServiceClient());
+    const configurations = await service.list(user.id);
+
+    return NextResponse.json({ configurations });
+  } catch (error) {
+    console.error('Error fetching saved configurations:', error);
+    if (error instanceof SavedConfigurationError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.statusCode }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to fetch saved designs' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request);
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body) {
+      return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+    }
+
+    const service = new SavedConfigurationService(createServiceClient());
+    const configuration = await service.create(user.id, body.name, body.config);
+
+    return NextResponse.json({ configuration }, { status: 201 });
+  } catch (error) {
+    console.error('Error saving configuration:', error);
+    if (error instanceof SavedConfigurationError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.statusCode }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to save design' },
+      { status: 500 }
+    );
+  }
+}
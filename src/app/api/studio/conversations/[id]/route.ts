@@ -0,0 +1,62 @@
+/**
+ * Studio Conversation API
+ *
+ * GET - Fetch a studio chat with its messages and checkpoint
+ * DELETE - Delete a studio chat and its messages
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceClient } from '@/lib/supabase/server';
+import { authenticateRequest } from '@/lib/auth/jwtAuth';
+import {
+  StudioConversationService,
+  StudioConversationError,
+} from '@/lib/studio/conversations';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof StudioConversationError) {
+    return NextResponse.json(
+      { error: error.message, details: error.details },
+      { status: error.statusCode }
+    );
+  }
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request);
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const service = new StudioConversationService(createServiceClient());
+    const conversation = await service.get(user.id, id);
+
+    return NextResponse.json({ conversation });
+  } catch (error) {
+    console.error('Error fetching studio conversation:', error);
+    return errorResponse(error, 'Failed to fetch conversation');
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request);
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const service = new StudioConversationService(createServiceClient());
+    await service.delete(user.id, id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting studio conversation:', error);
+    return errorResponse(error, 'Failed to delete conversation');
+  }
+}
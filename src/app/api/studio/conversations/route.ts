@@ -0,0 +1,58 @@
+/**
+ * Studio Conversations API
+ *
+ * GET - List the user's studio chats, most recently active first
+ * DELETE - Delete all of the user's studio chats
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceClient } from '@/lib/supabase/server';
+import { authenticateRequest } from '@/lib/auth/jwtAuth';
+import {
+  StudioConversationService,
+  StudioConversationError,
+} from '@/lib/studio/conversations';
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof StudioConversationError) {
+    return NextResponse.json(
+      { error: error.message, details: error.details },
+      { status: error.statusCode }
+    );
+  }
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request);
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const service = new StudioConversationService(createServiceClient());
+    const conversations = await service.list(user.id);
+
+    return NextResponse.json({ conversations });
+  } catch (error) {
+    console.error('Error fetching studio conversations:', error);
+    return errorResponse(error, 'Failed to fetch conversations');
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request);
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const service = new StudioConversationService(createServiceClient());
+    await service.deleteAll(user.id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting studio conversations:', error);
+    return errorResponse(error, 'Failed to delete conversations');
+  }
+}
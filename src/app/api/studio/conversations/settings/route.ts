@@ -0,0 +1,64 @@
+/**
+ * Studio Conversation Settings API
+ *
+ * GET - The user's chat retention period (days, or null to keep chats)
+ * PUT - Change it: { retentionDays: 7 | 30 | 90 | 365 | null }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceClient } from '@/lib/supabase/server';
+import { authenticateRequest } from '@/lib/auth/jwtAuth';
+import {
+  CHAT_RETENTION_OPTIONS,
+  StudioConversationService,
+  StudioConversationError,
+} from '@/lib/studio/conversations';
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof StudioConversationError) {
+    return NextResponse.json(
+      { error: error.message, details: error.details },
+      { status: error.statusCode }
+    );
+  }
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request);
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const service = new StudioConversationService(createServiceClient());
+    const retentionDays = await service.getRetention(user.id);
+
+    return NextResponse.json({ retentionDays, retentionOptions: CHAT_RETENTION_OPTIONS });
+  } catch (error) {
+    console.error('Error fetching studio chat settings:', error);
+    return errorResponse(error, 'Failed to fetch chat settings');
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request);
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body || !('retentionDays' in body)) {
+      return NextResponse.json({ error: 'retentionDays is required' }, { status: 400 });
+    }
+
+    const service = new StudioConversationService(createServiceClient());
+    const retentionDays = await service.setRetention(user.id, body.retentionDays);
+
+    return NextResponse.json({ retentionDays, retentionOptions: CHAT_RETENTION_OPTIONS });
+  } catch (error) {
+    console.error('Error updating studio chat settings:', error);
+    return errorResponse(error, 'Failed to update chat settings');
+  }
+}
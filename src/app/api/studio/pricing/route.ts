@@ -8,11 +8,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prodigiSDK } from '@/lib/prodigi-v2';
 import { facetService } from '@/lib/prodigi-v2/azure-search/facet-service';
-import { estimateDeliveryTime, formatDeliveryEstimate } from '@/lib/prodigi-v2/delivery-estimator';
+import { estimateDeliveryTime, formatDeliveryEstimate, getArrivalWindow } from '@/lib/prodigi-v2/delivery-estimator';
+import { getDeliveryHistory, resolveProductType } from '@/lib/prodigi-v2/delivery-history';
 import { detectUserLocation } from '@/lib/location-detection';
 import { currencyService } from '@/lib/currency';
 import { getCountry } from '@/lib/countries';
 import { getUserFriendlyError } from '@/lib/error-handling/user-friendly-errors';
+import { getStudioQuoteService } from '@/lib/studio/quote-service';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -176,50 +178,22 @@ export async function POST(request: NextRequest) {
     console.log('[Pricing] Product valid attributes:', Object.keys(product.attributes));
     console.log('[Pricing] Attributes being sent:', attributes);
 
-    // Step 5: Build quote request
-    // Use detected country for accurate shipping costs
-    const quoteRequest = {
-      destinationCountryCode: country,
-      shippingMethod: config.shippingMethod || 'Standard' as const, // Use selected method or default to Standard
-      items: [
-        {
-          sku,
-          copies: 1,
-          ...(Object.keys(attributes).length > 0 && { attributes }),
-          assets: [
-            {
-              printArea: 'default',
-              // Note: url is only needed for orders, not for quotes
-            },
-          ],
-        },
-      ],
-    };
-
     console.log('[Pricing] Requesting quote from Prodigi:', {
       sku,
       attributes,
       country,
-      shippingMethod: quoteRequest.shippingMethod,
+      shippingMethod: config.shippingMethod || 'Standard',
     });
 
-    // Step 6: Get real quotes from Prodigi for ALL shipping methods
-    // Prodigi API may only return the requested method, so we request all methods
+    // Step 5-6: Get real quotes from Prodigi for ALL shipping methods
+    // Prodigi API may only return the requested method, so we request all methods.
+    // Quotes are cached per SKU + attributes + country + method, so clicking back
+    // to a previous size or colour doesn't call Prodigi again.
     const shippingMethods: Array<'Budget' | 'Standard' | 'Express' | 'Overnight'> = 
       ['Budget', 'Standard', 'Express', 'Overnight'];
     
-    const quotePromises = shippingMethods.map(method => 
-      prodigiSDK.quotes.create({
-        ...quoteRequest,
-        shippingMethod: method,
-      }).catch(error => {
-        console.warn(`[Pricing] Failed to get quote for ${method}:`, error.message);
-        return []; // Return empty array if method is not available
-      })
-    );
-
-    const quoteResults = await Promise.all(quotePromises);
-    const quotes = quoteResults.flat().filter(Boolean);
+    const quoteService = await getStudioQuoteService();
+    const quotes = await quoteService.getQuotesForMethods({ sku, attributes, country }, shippingMethods);
 
     if (quotes.length === 0) {
       console.warn('[Pricing] No shipping quotes available from Prodigi', {
@@ -249,13 +223,19 @@ export async function POST(request: NextRequest) {
     const userCurrency = userCountry?.currency || 'USD';
     console.log(`[Pricing] User currency: ${userCurrency} (from country: ${country})`);
 
-    // Step 8: Process all shipping methods with currency conversion
+    // Step 8: Process all shipping methods with currency conversion.
+    // Delivery times come from our own shipment history where there's enough of it.
+    const deliveryHistory = await getDeliveryHistory();
+    const prodigiProductType = deliveryHistory ? await resolveProductType(sku, country) : null;
+
     const shippingOptions = await Promise.all(quotes.map(async (quote) => {
       const productionCountry = quote.shipments?.[0]?.fulfillmentLocation?.countryCode || 'US';
-    const deliveryEstimate = estimateDeliveryTime(
-      productionCountry,
-      country,
-        quote.shipmentMethod
+      const deliveryEstimate = estimateDeliveryTime(
+        productionCountry,
+        country,
+        quote.shipmentMethod,
+        'wall-art',
+        { history: deliveryHistory, productType: prodigiProductType }
       );
       
       // Get Prodigi's currency from quote
@@ -311,6 +291,8 @@ export async function POST(request: NextRequest) {
           max: deliveryEstimate.totalDays.max,
           formatted: formatDeliveryEstimate(deliveryEstimate),
           note: deliveryEstimate.note,
+          arrivesBy: getArrivalWindow(deliveryEstimate),
+          basis: deliveryEstimate.basis,
         },
         productionCountry,
       };
@@ -371,6 +353,7 @@ export async function POST(request: NextRequest) {
           max: delivery.max,
           formatted: delivery.formatted,
           note: delivery.note,
+          arrivesBy: delivery.arrivesBy,
         },
         estimated: false, // This is a REAL quote from Prodigi
       },
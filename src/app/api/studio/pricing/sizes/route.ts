@@ -0,0 +1,69 @@
+/**
+ * Studio Size Pricing API
+ *
+ * POST - Item price for every available size of the current product type,
+ * quoted in one batched Prodigi call and cached, so the size picker can show
+ * prices before the user selects a size. Shipping is not included.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { detectUserLocation } from '@/lib/location-detection';
+import { currencyService } from '@/lib/currency';
+import { getCountry } from '@/lib/countries';
+import { getStudioQuoteService } from '@/lib/studio/quote-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { config, country: requestCountry } = await request.json();
+
+    if (!config?.productType) {
+      return NextResponse.json(
+        { error: 'Product type is required' },
+        { status: 400 }
+      );
+    }
+
+    const location = await detectUserLocation(request, requestCountry || config.destinationCountry);
+    const country = location.country;
+    const userCurrency = getCountry(country)?.currency || 'USD';
+
+    const quoteService = await getStudioQuoteService();
+    const sizePrices = await quoteService.prewarmSizes(config, country);
+
+    const prices: Record<string, { sku: string; amount: number; currency: string }> = {};
+    for (const { size, sku, unitCost } of sizePrices) {
+      const amount = Number(unitCost.amount) || 0;
+      let displayAmount = amount;
+      let displayCurrency = unitCost.currency;
+
+      if (unitCost.currency !== userCurrency) {
+        try {
+          displayAmount = await currencyService.convert(amount, unitCost.currency, userCurrency);
+          displayCurrency = userCurrency;
+        } catch (error) {
+          console.warn(`[Size Pricing] Currency conversion failed for ${size}, using ${unitCost.currency}:`, error);
+        }
+      }
+
+      prices[size] = { sku, amount: displayAmount, currency: displayCurrency };
+    }
+
+    return NextResponse.json({
+      productType: config.productType,
+      country,
+      prices,
+    });
+  } catch (error) {
+    console.error('[Size Pricing] Error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to price sizes',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
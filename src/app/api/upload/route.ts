@@ -5,6 +5,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { randomUUID } from 'crypto';
+import sharp from 'sharp';
 import { createClient } from '@supabase/supabase-js';
 import { Database } from '@/lib/supabase/client';
 
@@ -63,6 +64,22 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Read pixel dimensions so print quality can be rated per size
+    let dimensions: { width: number; height: number };
+    try {
+      const metadata = await sharp(Buffer.from(await file.arrayBuffer())).metadata();
+      if (!metadata.width || !metadata.height) {
+        throw new Error('Missing dimensions');
+      }
+      dimensions = { width: metadata.width, height: metadata.height };
+    } catch (error) {
+      console.warn('Unreadable image upload:', error);
+      return NextResponse.json(
+        { error: 'File could not be read as an image' },
+        { status: 400 }
+      );
+    }
+
     // Generate unique filename
     const id = randomUUID();
     const extension = file.name.split('.').pop() || 'jpg';
@@ -102,6 +119,8 @@ export async function POST(request: NextRequest) {
       filename,
       size: file.size,
       type: file.type,
+      width: dimensions.width,
+      height: dimensions.height,
     });
   } catch (error) {
     console.error('Error uploading file:', error);
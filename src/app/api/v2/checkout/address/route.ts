@@ -0,0 +1,63 @@
+/**
+ * V2 Address Verification API
+ *
+ * POST - Validate and normalize a shipping address for a shipping method,
+ *        with suggested corrections from the verification provider
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceClient } from '@/lib/supabase/server';
+import { authenticateRequest } from '@/lib/auth/jwtAuth';
+import { AddressService } from '@/lib/checkout/services/address.service';
+import { AddressError } from '@/lib/checkout/types/errors';
+import { z } from 'zod';
+
+const VerifyAddressSchema = z.object({
+  address: z.object({
+    firstName: z.string().optional(),
+    lastName: z.string().optional(),
+    address1: z.string(),
+    address2: z.string().optional(),
+    city: z.string(),
+    state: z.string().optional(),
+    zip: z.string().optional(),
+    country: z.string(),
+    phone: z.string().optional(),
+  }),
+  shippingMethod: z.enum(['Budget', 'Standard', 'Express', 'Overnight']).optional(),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request);
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validated = VerifyAddressSchema.parse(body);
+
+    const addressService = new AddressService(createServiceClient());
+    const result = await addressService.validateAddress(validated.address, validated.shippingMethod);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error verifying address:', error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      );
+    }
+    if (error instanceof AddressError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, details: error.details },
+        { status: error.statusCode }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to verify address' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,8 @@
 /**
  * V2 Cart API
  * 
- * GET - Fetch cart with real-time pricing
+ * GET - Fetch cart with real-time pricing (pass ?currency= to price in the
+ *       customer's currency at their locked exchange rate)
  * POST - Add item to cart
  */
 
@@ -10,6 +11,7 @@ import { createServiceClient } from '@/lib/supabase/server';
 import { authenticateRequest } from '@/lib/auth/jwtAuth';
 import { CartService } from '@/lib/checkout/services/cart.service';
 import { PricingService } from '@/lib/checkout/services/pricing.service';
+import { ExchangeRateService } from '@/lib/checkout/services/exchange-rate.service';
 import { ProdigiClient as ProdigiClientV1 } from '@/lib/prodigi';
 import { ProdigiClient as ProdigiClientV2 } from '@/lib/prodigi-v2/client';
 import { currencyService } from '@/lib/currency';
@@ -54,6 +56,9 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url);
     const destinationCountry = searchParams.get('country') || 'US';
     const shippingMethod = (searchParams.get('shippingMethod') as any) || 'Standard';
+    const region = searchParams.get('region') || undefined; // State/province for tax
+    const promoCode = searchParams.get('promoCode') || undefined;
+    const currency = searchParams.get('currency')?.toUpperCase() || undefined;
 
     // Initialize services
     const supabase = createServiceClient();
@@ -72,7 +77,16 @@ export async function GET(request: NextRequest) {
 
     // Get cart
   try {
-    const cart = await cartService.getCart(user.id, destinationCountry, shippingMethod);
+    const exchangeRateService = new ExchangeRateService(supabase, currencyService);
+    const cart = await cartService.getCart(
+      user.id,
+      destinationCountry,
+      shippingMethod,
+      region,
+      promoCode,
+      currency,
+      (base, quote) => exchangeRateService.lockRate(user.id, base, quote)
+    );
     return NextResponse.json({ cart });
   } catch (error) {
     console.error('Error fetching cart:', error);
@@ -1,7 +1,8 @@
 /**
  * V2 Checkout Session API
  * 
- * POST - Create Stripe checkout session
+ * POST - Create Stripe checkout session, charged in the customer's currency
+ *        at their locked exchange rate
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -10,11 +11,16 @@ import { authenticateRequest } from '@/lib/auth/jwtAuth';
 import { CartService } from '@/lib/checkout/services/cart.service';
 import { PricingService } from '@/lib/checkout/services/pricing.service';
 import { PaymentService } from '@/lib/checkout/services/payment.service';
+import { PromotionService, applyDiscountToTotals } from '@/lib/checkout/services/promotion.service';
+import { ExchangeRateService } from '@/lib/checkout/services/exchange-rate.service';
+import { PrintQualityService } from '@/lib/checkout/services/print-quality.service';
+import { AddressService } from '@/lib/checkout/services/address.service';
 import { ProdigiClient as ProdigiClientV1 } from '@/lib/prodigi';
 import { ProdigiClient as ProdigiClientV2 } from '@/lib/prodigi-v2/client';
+import { ProductsAPI } from '@/lib/prodigi-v2/products';
 import { currencyService } from '@/lib/currency';
-import { validateShippingAddress } from '@/lib/checkout/validators/address.validator';
-import { PaymentError } from '@/lib/checkout/types/errors';
+import { getCountry } from '@/lib/countries';
+import { AddressError, ExchangeRateError, PaymentError, PrintQualityError, PromotionError } from '@/lib/checkout/types/errors';
 import { z } from 'zod';
 
 const CreateSessionSchema = z.object({
@@ -32,6 +38,7 @@ const CreateSessionSchema = z.object({
   }),
   shippingMethod: z.enum(['Budget', 'Standard', 'Express', 'Overnight']).optional(),
   currency: z.string().optional(),
+  promoCode: z.string().max(50).optional(),
 });
 
 // Initialize Prodigi v1 client (for CartService - SKU generation)
@@ -85,10 +92,23 @@ export async function POST(request: NextRequest) {
     // Parse and validate body
     const body = await request.json();
     const validated = CreateSessionSchema.parse(body);
-    const shippingAddress = validateShippingAddress(validated.shippingAddress);
 
     // Initialize services
     const supabase = createServiceClient();
+
+    // Prodigi rejects bad postcodes, missing states and courier PO boxes after
+    // payment, so stop them here. The customer already saw the provider's
+    // suggestions in checkout; only the local rules need to pass.
+    const addressService = new AddressService(supabase);
+    const addressCheck = await addressService.validateAddress(
+      validated.shippingAddress,
+      validated.shippingMethod,
+      { verify: false }
+    );
+    if (!addressCheck.valid) {
+      throw new AddressError('Invalid shipping address', { issues: addressCheck.issues });
+    }
+    const shippingAddress = addressCheck.address;
     const prodigiClientV1 = getProdigiClientV1();
     const prodigiClientV2 = getProdigiClientV2();
     
@@ -109,12 +129,18 @@ export async function POST(request: NextRequest) {
     const pricingService = new PricingService(prodigiClientV2, currencyService);
     const cartService = new CartService(supabase, prodigiClientV1, pricingService);
     const paymentService = new PaymentService(process.env.STRIPE_SECRET_KEY);
+    const exchangeRateService = new ExchangeRateService(supabase, currencyService);
+    const printQualityService = new PrintQualityService(supabase, new ProductsAPI(prodigiClientV2));
+
+    // Charge in the customer's currency unless the client asked for a specific one
+    const chargeCurrency = (validated.currency || getCountry(shippingAddress.country)?.currency)?.toUpperCase();
 
     // Get cart with real-time pricing
     const cart = await cartService.getCart(
       user.id,
       shippingAddress.country,
-      validated.shippingMethod || 'Standard'
+      validated.shippingMethod || 'Standard',
+      shippingAddress.state
     );
 
     // Filter cart to only include requested items
@@ -129,6 +155,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Refuse images that would print below the DPI floor at their size
+    await printQualityService.assertPrintable(requestedItems);
+
     // Recalculate pricing for filtered items
     const filteredCart: typeof cart = {
       ...cart,
@@ -139,9 +168,20 @@ export async function POST(request: NextRequest) {
       requestedItems,
       shippingAddress.country,
       validated.shippingMethod || 'Standard',
-      validated.currency
+      chargeCurrency,
+      { region: shippingAddress.state, postalCode: shippingAddress.zip },
+      (base, quote) => exchangeRateService.lockRate(user.id, base, quote)
     );
 
+    // Use the per-item prices from this quote so Stripe line items add up to the quoted total
+    if (pricing.itemPrices) {
+      filteredCart.items = requestedItems.map((item, index) => ({
+        ...item,
+        price: pricing.itemPrices?.get(index) ?? item.price,
+        currency: pricing.currency,
+      }));
+    }
+
     filteredCart.totals = {
       subtotal: pricing.subtotal,
       shipping: pricing.shipping,
@@ -151,8 +191,31 @@ export async function POST(request: NextRequest) {
       originalCurrency: pricing.originalCurrency,
       originalTotal: pricing.originalTotal,
       exchangeRate: pricing.exchangeRate,
+      rateSnapshotId: pricing.rateSnapshot?.id,
+      taxInclusive: pricing.taxInclusive,
+      taxName: pricing.taxName,
+      taxEstimated: pricing.taxEstimated,
     };
 
+    // Re-validate the promo code against exactly what is being charged
+    if (validated.promoCode) {
+      const promotionService = new PromotionService(supabase, currencyService);
+      const discount = await promotionService.applyPromotion(validated.promoCode, {
+        userId: user.id,
+        items: filteredCart.items,
+        subtotal: pricing.subtotal,
+        shipping: pricing.shipping,
+        currency: pricing.currency,
+        rateSnapshot: pricing.rateSnapshot,
+      });
+      filteredCart.discount = discount;
+      filteredCart.totals = applyDiscountToTotals(filteredCart.totals, discount, {
+        itemsTax: pricing.itemsTax ?? 0,
+        shippingTax: pricing.shippingTax ?? 0,
+      });
+    }
+    const totals = filteredCart.totals;
+
     // Create Stripe checkout session
     const baseUrl = getBaseUrl(request);
     const session = await paymentService.createCheckoutSession(
@@ -166,15 +229,32 @@ export async function POST(request: NextRequest) {
         userId: user.id,
         cartItemIds: validated.cartItemIds.join(','),
         subtotal: pricing.subtotal.toString(),
-        taxAmount: pricing.tax.toString(),
+        taxAmount: totals.tax.toString(),
+        taxInclusive: String(!!pricing.taxInclusive),
+        taxRate: (pricing.taxRate ?? 0).toString(),
         shippingAmount: pricing.shipping.toString(),
-        total: pricing.total.toString(),
+        discountAmount: (totals.discount ?? 0).toString(),
+        ...(filteredCart.discount && {
+          promoCode: filteredCart.discount.code,
+          promoCodeId: filteredCart.discount.promotionId,
+        }),
+        total: totals.total.toString(),
         currency: pricing.currency,
         originalCurrency: pricing.originalCurrency || pricing.currency,
         originalTotal: pricing.originalTotal?.toString() || pricing.total.toString(),
       }
     );
 
+    // Keep the locked rate for as long as the session can be paid
+    if (pricing.rateSnapshot) {
+      try {
+        await exchangeRateService.attachToCheckoutSession(pricing.rateSnapshot.id, session.id);
+      } catch (error) {
+        // The webhook reads the rate from the session metadata, so this is bookkeeping only
+        console.error('Error attaching exchange rate to checkout session:', error);
+      }
+    }
+
     // Store shipping address with session
     await (supabase.from('stripe_session_addresses') as any).insert({
       stripe_session_id: session.id,
@@ -195,6 +275,30 @@ export async function POST(request: NextRequest) {
         { status: 400 }
       );
     }
+    if (error instanceof AddressError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, details: error.details },
+        { status: error.statusCode }
+      );
+    }
+    if (error instanceof PromotionError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, details: error.details },
+        { status: error.statusCode }
+      );
+    }
+    if (error instanceof ExchangeRateError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.statusCode }
+      );
+    }
+    if (error instanceof PrintQualityError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, details: error.details },
+        { status: error.statusCode }
+      );
+    }
     if (error instanceof PaymentError) {
       return NextResponse.json(
         { error: error.message, details: error.details },
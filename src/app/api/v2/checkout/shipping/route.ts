@@ -7,7 +7,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { authenticateRequest } from '@/lib/auth/jwtAuth';
 import { ShippingService } from '@/lib/checkout/services/shipping.service';
+import { createTaxProvider } from '@/lib/checkout/services/tax.service';
 import { ProdigiClient } from '@/lib/prodigi-v2/client';
+import { getDeliveryHistory } from '@/lib/prodigi-v2/delivery-history';
 import { ShippingError } from '@/lib/checkout/types/errors';
 import { z } from 'zod';
 import { validateShippingAddress } from '@/lib/checkout/validators/address.validator';
@@ -33,6 +35,8 @@ const ShippingRequestSchema = z.object({
     zip: z.string().optional(),
     country: z.string().length(2),
   }),
+  // Items subtotal (display currency) - when present, each option includes the order tax
+  subtotal: z.number().min(0).optional(),
 });
 
 // Initialize Prodigi v2 client
@@ -75,7 +79,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const shippingService = new ShippingService(prodigiClient);
+    const shippingService = new ShippingService(prodigiClient, await getDeliveryHistory());
 
     // Validate address
     const validation = await shippingService.validateAddress(address);
@@ -109,8 +113,45 @@ export async function POST(request: NextRequest) {
 
     // Calculate shipping options
     try {
-    const options = await shippingService.calculateShipping(cartItems, address);
-    const recommended = shippingService.getRecommendedMethod(options);
+    const shippingOptions = await shippingService.calculateShipping(cartItems, address);
+    const recommended = shippingService.getRecommendedMethod(shippingOptions);
+
+    // Tax depends on shipping taxability, so quote it per option
+    const subtotal = validated.subtotal;
+    const taxProvider = createTaxProvider();
+    const options = subtotal === undefined
+      ? shippingOptions
+      : await Promise.all(
+          shippingOptions.map(async (option) => {
+            const tax = await taxProvider.calculate({
+              address: { country: address.country, region: address.state, postalCode: address.zip },
+              lines: [{ amount: subtotal }],
+              shipping: option.cost,
+              currency: option.currency,
+            });
+            if (!tax.inclusive) {
+              return {
+                ...option,
+                taxAmount: tax.totalTax,
+                shippingTax: tax.shippingTax,
+                taxInclusive: false,
+                taxName: tax.taxName,
+              };
+            }
+
+            // Inclusive markets: the cart subtotal is already gross, so extract its tax
+            // and gross up shipping the same way the checkout session does
+            const itemsTax = Math.round((subtotal - subtotal / (1 + tax.rate)) * 100) / 100;
+            return {
+              ...option,
+              cost: Math.round((option.cost + tax.shippingTax) * 100) / 100,
+              taxAmount: Math.round((itemsTax + tax.shippingTax) * 100) / 100,
+              shippingTax: tax.shippingTax,
+              taxInclusive: true,
+              taxName: tax.taxName,
+            };
+          })
+        );
 
     return NextResponse.json({
       options,
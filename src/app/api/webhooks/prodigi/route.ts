@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createServiceClient } from "@/lib/supabase/server";
+import { queueEmail } from "@/lib/email";
+import { recordFulfillmentTiming } from "@/lib/prodigi-v2/delivery-history";
 import { z } from "zod";
 
 // CloudEvents schema for Prodigi webhooks
@@ -36,7 +38,20 @@ const CloudEventSchema = z.object({
         number: z.string().optional(),
       }).optional(),
       dispatchDate: z.string().optional(),
+      fulfillmentLocation: z.object({
+        countryCode: z.string(),
+        labCode: z.string().optional(),
+      }).optional(),
     })).optional(),
+    items: z.array(z.object({
+      sku: z.string(),
+    }).passthrough()).optional(),
+    shippingMethod: z.string().optional(),
+    recipient: z.object({
+      address: z.object({
+        countryCode: z.string().optional(),
+      }).passthrough().optional(),
+    }).passthrough().optional(),
     merchantReference: z.string().optional(),
   }),
   subject: z.string(),
@@ -92,7 +107,11 @@ export async function POST(request: NextRequest) {
           id,
           user_id,
           order_number,
-          status
+          status,
+          customer_email,
+          customer_name,
+          shipping_address,
+          shipping_method
         )
       `)
       .eq('provider_order_id', cloudEvent.data.id)
@@ -154,6 +173,19 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Failed to update order' }, { status: 500 });
     }
 
+    // Production and dispatch times feed the delivery estimates
+    const order = (dropshipOrder as any).orders;
+    await recordFulfillmentTiming(supabase, {
+      dropshipOrderId: (dropshipOrder as any).id,
+      orderId,
+      data: cloudEvent.data,
+      eventTime: cloudEvent.time,
+      fallback: {
+        destinationCountry: order?.shipping_address?.country ?? null,
+        shippingMethod: order?.shipping_method ?? null,
+      },
+    });
+
     // Update main order status
     const orderStatusUpdate: any = {
       updated_at: new Date().toISOString(),
@@ -171,11 +203,13 @@ export async function POST(request: NextRequest) {
         break;
     }
 
-    // Update main order
+    // Update main order. A refunded order stays refunded: cancelling the
+    // Prodigi order is part of a full refund, and its event can come last.
     const { error: orderUpdateError } = await (supabase as any)
       .from('orders')
       .update(orderStatusUpdate)
-      .eq('id', orderId);
+      .eq('id', orderId)
+      .neq('status', 'refunded');
 
     if (orderUpdateError) {
       console.error('Error updating main order:', orderUpdateError);
@@ -233,6 +267,8 @@ export async function POST(request: NextRequest) {
       });
     }
 
+    await queueLifecycleEmails(supabase, cloudEvent, orderId, (dropshipOrder as any).orders);
+
     console.log(`✅ Prodigi CloudEvent processed successfully: ${oldStatus} → ${newStatus}`);
 
     return NextResponse.json({ 
@@ -261,6 +297,61 @@ export async function POST(request: NextRequest) {
   }
 }
 
+/**
+ * Queue customer emails for the event. Keys are per order (and per shipment),
+ * so Prodigi redelivering an event doesn't email the customer twice.
+ */
+async function queueLifecycleEmails(
+  supabase: any,
+  cloudEvent: z.infer<typeof CloudEventSchema>,
+  orderId: string,
+  order: { user_id: string | null; order_number: string; customer_email: string | null; customer_name: string | null } | null
+) {
+  if (!order) {
+    return;
+  }
+
+  const recipient = {
+    to: order.customer_email,
+    userId: order.user_id,
+    orderId,
+  };
+  const base = { orderNumber: order.order_number, customerName: order.customer_name };
+
+  if (cloudEvent.data.status.stage === 'InProgress') {
+    await queueEmail(supabase, {
+      ...recipient,
+      template: 'order_in_production',
+      idempotencyKey: `order_in_production:${orderId}`,
+      data: base,
+    });
+  }
+
+  for (const shipment of cloudEvent.data.shipments || []) {
+    if (shipment.status.toLowerCase() !== 'shipped') continue;
+    await queueEmail(supabase, {
+      ...recipient,
+      template: 'order_shipped',
+      idempotencyKey: `order_shipped:${orderId}:${shipment.id}`,
+      data: {
+        ...base,
+        carrier: shipment.carrier?.name ?? null,
+        trackingNumber: shipment.tracking?.number ?? null,
+        trackingUrl: shipment.tracking?.url ?? null,
+      },
+    });
+  }
+
+  if (cloudEvent.data.status.stage === 'Complete') {
+    await queueEmail(supabase, {
+      ...recipient,
+      template: 'order_delivered',
+      idempotencyKey: `order_delivered:${orderId}`,
+      data: base,
+    });
+  }
+}
+
 // Handle GET requests for webhook verification
 export async function GET(request: NextRequest) {
   try {
@@ -1,56 +1,16 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient, createServiceClient } from "@/lib/supabase/server";
-import { constructWebhookEvent } from "@/lib/stripe";
-import { prodigiClient } from "@/lib/prodigi";
+import { constructWebhookEvent, stripe } from "@/lib/stripe";
 import { orderRetryManager } from "@/lib/orderRetry";
+import { PromotionService } from "@/lib/checkout/services/promotion.service";
+import { queueEmail } from "@/lib/email";
+import { applyPriceEnding, fromMinorUnits } from "@/lib/currency";
+import { getPrintSettings } from "@/lib/print-crop";
+import { CreditService, getCreditPack } from "@/lib/credits";
+import { RefundService } from "@/lib/refunds";
+import { OrderEditService } from "@/lib/order-edits";
 import Stripe from "stripe";
 
-/**
- * Converts a Supabase storage path to a public URL
- * Prodigi requires publicly accessible absolute URLs
- */
-function getPublicImageUrl(imageUrl: string | null | undefined, supabase: any): string | null {
-  if (!imageUrl) {
-    console.warn('⚠️ No image URL provided');
-    return null;
-  }
-
-  // If already a full URL, return it
-  if (imageUrl.startsWith('http://') || imageUrl.startsWith('https://')) {
-    console.log('✅ Image URL is already a full URL:', imageUrl);
-    return imageUrl;
-  }
-
-  // Try to determine which bucket based on path/URL patterns
-  let bucket = 'images'; // Default bucket
-  
-  // Check if it's a curated image (might have different patterns)
-  if (imageUrl.includes('curated') || imageUrl.includes('public-')) {
-    bucket = 'curated-images';
-  }
-
-  try {
-    // Convert storage path to public URL
-    const { data } = supabase.storage.from(bucket).getPublicUrl(imageUrl);
-    const publicUrl = data?.publicUrl;
-    
-    if (publicUrl) {
-      console.log('✅ Converted storage path to public URL:', {
-        original: imageUrl,
-        publicUrl,
-        bucket
-      });
-      return publicUrl;
-    } else {
-      console.warn('⚠️ Failed to get public URL for:', imageUrl);
-      return imageUrl; // Return original as fallback
-    }
-  } catch (error) {
-    console.error('❌ Error converting image URL:', error);
-    return imageUrl; // Return original as fallback
-  }
-}
-
 export async function POST(request: NextRequest) {
   try {
     // Try to get the raw request body using the body stream
@@ -139,6 +99,17 @@ export async function POST(request: NextRequest) {
         await handlePaymentIntentRequiresAction(paymentIntent, supabase);
         break;
       }
+      case 'charge.refunded': {
+        const charge = event.data.object as Stripe.Charge;
+        await handleChargeRefunded(charge, supabase);
+        break;
+      }
+      case 'refund.updated':
+      case 'refund.failed': {
+        const refund = event.data.object as Stripe.Refund;
+        await handleRefundUpdated(refund, supabase);
+        break;
+      }
       case 'charge.dispute.created': {
         const dispute = event.data.object as Stripe.Dispute;
         await handleChargeDisputeCreated(dispute, supabase);
@@ -170,6 +141,20 @@ async function handleCheckoutSessionCompleted(
       metadata: session.metadata
     });
 
+    if (session.metadata?.type === 'credit_pack') {
+      // Delayed payment methods are granted on async_payment_succeeded
+      if (session.payment_status === 'paid') {
+        await grantCreditPack(session, supabase);
+      }
+      return;
+    }
+
+    if (session.metadata?.type === 'shipping_upgrade') {
+      // Delayed payment methods are applied on async_payment_succeeded
+      await completeShippingUpgrade(session, supabase);
+      return;
+    }
+
     const userId = session.metadata?.userId;
     const cartItemIds = session.metadata?.cartItemIds?.split(',') || [];
 
@@ -377,11 +362,18 @@ async function handleCheckoutSessionCompleted(
         subtotal: parseFloat(session.metadata?.subtotal || '0'),
         tax_amount: parseFloat(session.metadata?.taxAmount || '0'),
         shipping_amount: parseFloat(session.metadata?.shippingAmount || '0'),
+        discount_amount: parseFloat(session.metadata?.discountAmount || '0'),
         total_amount: parseFloat(session.metadata?.total || '0'),
         currency: session.currency || 'usd',
+        // Rate locked at checkout, so refunds and reports convert exactly as charged
+        exchange_rate: parseFloat(session.metadata?.exchangeRate || '1'),
+        exchange_rate_snapshot_id: session.metadata?.rateSnapshotId || null,
+        base_currency: (session.metadata?.originalCurrency || session.currency || 'usd').toUpperCase(),
+        base_total_amount: parseFloat(session.metadata?.originalTotal || session.metadata?.total || '0'),
         metadata: {
           stripe_session_id: session.id,
           payment_intent_id: session.payment_intent,
+          ...(session.metadata?.promoCode && { promo_code: session.metadata.promoCode }),
         }
       })
       .select()
@@ -398,6 +390,29 @@ async function handleCheckoutSessionCompleted(
 
     console.log('✅ Order created successfully:', { orderId: order.id, userId, total: order.total_amount });
 
+    // Count the promo code redemption now that payment has completed
+    if (session.metadata?.promoCodeId) {
+      try {
+        const redeemed = await new PromotionService(supabase).recordRedemption({
+          promotionId: session.metadata.promoCodeId,
+          userId,
+          orderId: order.id,
+          stripeSessionId: session.id,
+          discountAmount: parseFloat(session.metadata.discountAmount || '0'),
+          currency: session.currency || 'usd',
+        });
+        if (!redeemed) {
+          console.warn('⚠️ Promo code was over its usage limit at redemption:', {
+            promoCode: session.metadata.promoCode,
+            orderId: order.id,
+          });
+        }
+      } catch (error) {
+        // Don't fail the order over redemption bookkeeping
+        console.error('Error recording promo code redemption:', error);
+      }
+    }
+
     // Create order items
     const orderItems = cartItems.map((item: any) => ({
       order_id: order.id,
@@ -405,6 +420,8 @@ async function handleCheckoutSessionCompleted(
       quantity: item.quantity,
       unit_price: item.products.price,
       total_price: item.products.price * item.quantity,
+      // Snapshot the crop and sizing: the product's can change after checkout
+      print_settings: getPrintSettings(item.products?.metadata),
     }));
 
     const { data: insertedOrderItems, error: orderItemsError } = await (supabase as any)
@@ -459,13 +476,14 @@ async function handleCheckoutSessionCompleted(
       }
     }
 
-    // Schedule Prodigi order creation with retry system
+    await queueOrderConfirmationEmail(order, cartItems, supabase);
+
+    // Schedule Prodigi order creation; the retry worker picks it up on its next run
     try {
       await orderRetryManager.scheduleOperation(
         'prodigi_order_creation',
         order.id,
-        { orderData: order, cartItems },
-        true // Process immediately
+        { orderData: order, cartItems }
       );
     } catch (error) {
       console.error('Error scheduling Prodigi order creation:', error);
@@ -517,18 +535,38 @@ async function handlePaymentIntentFailed(
     console.log('Processing payment intent failed:', paymentIntent.id);
 
     // Update order status if it exists
-    const { error: updateError } = await supabase
+    const { data: orders, error: updateError } = await supabase
       .from('orders')
       .update({
         status: 'cancelled',
         payment_status: 'failed',
         updated_at: new Date().toISOString(),
       })
-      .eq('stripe_payment_intent_id', paymentIntent.id);
+      .eq('stripe_payment_intent_id', paymentIntent.id)
+      .select('id, user_id, order_number, customer_email, customer_name');
 
     if (updateError) {
       console.error('Error updating order status:', updateError);
     }
+
+    const order = orders?.[0];
+    const to = order?.customer_email || paymentIntent.receipt_email;
+    if (order || to) {
+      await queueEmail(supabase, {
+        template: 'payment_failed',
+        idempotencyKey: `payment_failed:${paymentIntent.id}`,
+        to,
+        userId: order?.user_id ?? paymentIntent.metadata?.userId ?? null,
+        orderId: order?.id ?? null,
+        data: {
+          orderNumber: order?.order_number ?? null,
+          customerName: order?.customer_name ?? null,
+          amount: fromMinorUnits(paymentIntent.amount, paymentIntent.currency),
+          currency: paymentIntent.currency,
+          reason: paymentIntent.last_payment_error?.message ?? null,
+        },
+      });
+    }
   } catch (error) {
     console.error('Error handling payment intent failed:', error);
   }
@@ -545,6 +583,16 @@ async function handleCheckoutSessionAsyncPaymentSucceeded(
       customerEmail: session.customer_email
     });
 
+    if (session.metadata?.type === 'credit_pack') {
+      await grantCreditPack(session, supabase);
+      return;
+    }
+
+    if (session.metadata?.type === 'shipping_upgrade') {
+      await completeShippingUpgrade(session, supabase);
+      return;
+    }
+
     // Update order status to paid
     const { error: updateError } = await supabase
       .from('orders')
@@ -565,6 +613,40 @@ async function handleCheckoutSessionAsyncPaymentSucceeded(
   }
 }
 
+async function grantCreditPack(session: Stripe.Checkout.Session, supabase: any) {
+  const userId = session.metadata?.userId;
+  const pack = getCreditPack(session.metadata?.packId || '');
+
+  if (!userId || !pack) {
+    console.error('❌ Credit pack session is missing its user or pack:', {
+      sessionId: session.id,
+      metadata: session.metadata
+    });
+    return;
+  }
+
+  // Keyed on the session id, so redelivered events don't grant twice
+  const entry = await new CreditService(supabase).grantPurchase(userId, pack, session.id);
+  console.log('✅ Credit pack granted:', { userId, packId: pack.id, balance: entry.balanceAfter });
+}
+
+async function createOrderEditService(supabase: any) {
+  const { prodigiSDK } = await import('@/lib/prodigi-v2');
+  return new OrderEditService(supabase, { stripe, fulfillment: prodigiSDK });
+}
+
+/**
+ * A customer paid to upgrade an order's shipping; completeShippingUpgrade
+ * does nothing until the payment has settled
+ */
+async function completeShippingUpgrade(session: Stripe.Checkout.Session, supabase: any) {
+  const service = await createOrderEditService(supabase);
+  const edit = await service.completeShippingUpgrade(session);
+  if (edit) {
+    console.log('✅ Shipping upgrade settled:', { editId: edit.id, status: edit.status });
+  }
+}
+
 async function handleCheckoutSessionAsyncPaymentFailed(
   session: Stripe.Checkout.Session,
   supabase: any
@@ -576,26 +658,126 @@ async function handleCheckoutSessionAsyncPaymentFailed(
       customerEmail: session.customer_email
     });
 
+    // Nothing was granted for the pack, so there's nothing to undo
+    if (session.metadata?.type === 'credit_pack') {
+      return;
+    }
+
+    // The order itself was paid for; only the upgrade falls through
+    if (session.metadata?.type === 'shipping_upgrade') {
+      const service = await createOrderEditService(supabase);
+      await service.failShippingUpgrade(session);
+      return;
+    }
+
     // Update order status to cancelled
-    const { error: updateError } = await supabase
+    const { data: orders, error: updateError } = await supabase
       .from('orders')
       .update({
         status: 'cancelled',
         payment_status: 'failed',
         updated_at: new Date().toISOString(),
       })
-      .eq('stripe_session_id', session.id);
+      .eq('stripe_session_id', session.id)
+      .select('id, user_id, order_number, customer_email, customer_name');
 
     if (updateError) {
       console.error('Error updating order for async payment failure:', updateError);
     } else {
       console.log('✅ Order updated for async payment failure');
     }
+
+    const order = orders?.[0];
+    await queueEmail(supabase, {
+      template: 'payment_failed',
+      idempotencyKey: `payment_failed:${session.id}`,
+      to: order?.customer_email || session.customer_email,
+      userId: order?.user_id ?? session.metadata?.userId ?? null,
+      orderId: order?.id ?? null,
+      data: {
+        orderNumber: order?.order_number ?? null,
+        customerName: order?.customer_name ?? session.customer_details?.name ?? null,
+        amount: session.amount_total != null && session.currency
+          ? fromMinorUnits(session.amount_total, session.currency)
+          : null,
+        currency: session.currency,
+      },
+    });
   } catch (error) {
     console.error('Error handling async payment failed:', error);
   }
 }
 
+async function handleChargeRefunded(
+  charge: Stripe.Charge,
+  supabase: any
+) {
+  try {
+    console.log('Processing charge refunded:', charge.id);
+
+    const paymentIntentId = typeof charge.payment_intent === 'string'
+      ? charge.payment_intent
+      : charge.payment_intent?.id;
+    if (!paymentIntentId) {
+      return;
+    }
+
+    const { data: order } = await supabase
+      .from('orders')
+      .select('id, user_id, order_number, customer_email, customer_name')
+      .eq('stripe_payment_intent_id', paymentIntentId)
+      .maybeSingle();
+
+    if (!order) {
+      console.warn('No order found for refunded charge:', charge.id);
+      return;
+    }
+
+    // Record the charge's refunds against the order, including any made in
+    // the Stripe dashboard. The email still goes out if this fails.
+    try {
+      await new RefundService(supabase, { stripe }).reconcileCharge(charge);
+    } catch (error) {
+      console.error('Error reconciling refunds for charge:', charge.id, error);
+    }
+
+    // amount_refunded is cumulative, so each further partial refund gets its own email
+    await queueEmail(supabase, {
+      template: 'refund_issued',
+      idempotencyKey: `refund_issued:${charge.id}:${charge.amount_refunded}`,
+      to: order.customer_email || charge.billing_details?.email,
+      userId: order.user_id,
+      orderId: order.id,
+      data: {
+        orderNumber: order.order_number,
+        customerName: order.customer_name,
+        amount: fromMinorUnits(charge.amount_refunded, charge.currency),
+        currency: charge.currency,
+        partial: charge.amount_refunded < charge.amount,
+      },
+    });
+  } catch (error) {
+    console.error('Error handling charge refunded:', error);
+  }
+}
+
+/**
+ * A refund moved on after it was created: pending refunds succeed, and
+ * succeeded ones can still fail (e.g. a closed card account)
+ */
+async function handleRefundUpdated(refund: Stripe.Refund, supabase: any) {
+  try {
+    console.log('Processing refund update:', refund.id, refund.status);
+
+    const reconciled = await new RefundService(supabase, { stripe }).reconcileStripeRefund(refund);
+    if (!reconciled) {
+      console.log('Refund is not for an order:', refund.id);
+    }
+  } catch (error) {
+    console.error('Error handling refund update:', error);
+  }
+}
+
 async function handlePaymentIntentRequiresAction(
   paymentIntent: Stripe.PaymentIntent,
   supabase: any
@@ -656,184 +838,41 @@ async function handleChargeDisputeCreated(
   }
 }
 
-// Unused function - can be removed or implemented later
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-async function triggerProdigiOrderCreation(orderId: string, supabase: any) {
-  try {
-    console.log('🚀 Triggering Prodigi order creation for order:', orderId);
-
-    // Fetch order with all details
-    const { data: order, error: orderError } = await supabase
-      .from('orders')
-      .select(`
-        *,
-        order_items (
-          *,
-          products (
-            *,
-            images (
-              image_url,
-              thumbnail_url
-            )
-          )
-        )
-      `)
-      .eq('id', orderId)
-      .single();
-
-    if (orderError || !order) {
-      throw new Error(`Order not found: ${orderError?.message}`);
-    }
-
-    if (order.status !== 'paid') {
-      throw new Error('Order must be paid before creating Prodigi order');
-    }
-
-    // Check if Prodigi order already exists
-    const { data: existingDropship } = await supabase
-      .from('dropship_orders')
-      .select('id, status, provider_order_id')
-      .eq('order_id', orderId)
-      .eq('provider', 'prodigi')
-      .single();
-
-    if (existingDropship && existingDropship.provider_order_id) {
-      console.log('Prodigi order already exists:', existingDropship.provider_order_id);
-      return;
-    }
-
-    // Prepare order data for Prodigi
-    const prodigiOrderData = {
-      orderReference: order.order_number || `ORDER-${orderId.slice(-8)}`,
-      items: await Promise.all(order.order_items.map(async (item: any) => {
-        // Extract base SKU from stored SKU (remove image ID suffix if present)
-        const baseSku = prodigiClient.extractBaseProdigiSku(item.products?.sku || '');
-        
-        // CRITICAL: Convert image URL to public URL if it's a storage path
-        // Prodigi requires publicly accessible absolute URLs
-        const rawImageUrl = item.products?.images?.image_url || item.products?.images?.thumbnail_url || '';
-        const publicImageUrl = getPublicImageUrl(rawImageUrl, supabase);
-        
-        if (!publicImageUrl) {
-          console.error('❌ No valid image URL for Prodigi order item:', {
-            productId: item.products?.id,
-            imageId: item.products?.images?.id,
-            rawImageUrl,
-            hasImage: !!item.products?.images
-          });
-          throw new Error(`Missing or invalid image URL for product ${item.products?.id}`);
-        }
-        
-        console.log('🖼️ Image URL for Prodigi:', {
-          productId: item.products?.id,
-          rawUrl: rawImageUrl,
-          publicUrl: publicImageUrl,
-          isFullUrl: publicImageUrl.startsWith('http')
-        });
-        
-        return {
-          productSku: baseSku, // Changed from productUid to productSku to match the interface
-          quantity: item.quantity,
-          imageUrl: publicImageUrl, // Use public URL instead of raw path
-          frameSize: item.products?.frame_size || '16x20', // V2 sizing: default to "16x20" instead of 'medium'
-          frameStyle: item.products?.frame_style || 'black',
-          frameMaterial: item.products?.frame_material || 'wood',
-        };
+/**
+ * Queue the receipt. Prices are shown in the currency the customer was charged in.
+ */
+async function queueOrderConfirmationEmail(order: any, cartItems: any[], supabase: any) {
+  const currency = order.currency || 'usd';
+  const rate = Number(order.exchange_rate) || 1;
+
+  await queueEmail(supabase, {
+    template: 'order_confirmation',
+    idempotencyKey: `order_confirmation:${order.id}`,
+    to: order.customer_email,
+    userId: order.user_id,
+    orderId: order.id,
+    data: {
+      orderNumber: order.order_number,
+      customerName: order.customer_name,
+      items: cartItems.map((item: any) => ({
+        name: describeCartItem(item),
+        quantity: item.quantity,
+        unitPrice: rate === 1 ? item.products.price : applyPriceEnding(item.products.price * rate, currency),
       })),
-      shippingAddress: order.shipping_address,
-      billingAddress: order.billing_address, // Include billing address for Prodigi
-      customerEmail: order.customer_email,
-      customerPhone: order.customer_phone,
-    };
-
-    // Convert to Prodigi format
-    const prodigiOrder = await prodigiClient.convertToProdigiOrder(prodigiOrderData);
-
-    // Create order in Prodigi
-    const prodigiResponse = await prodigiClient.createOrder(prodigiOrder);
-
-    // Update dropship order record
-    const dropshipOrderRecord = {
-      provider_order_id: prodigiResponse.id,
-      tracking_number: prodigiResponse.trackingNumber,
-      tracking_url: prodigiResponse.trackingUrl,
-      estimated_delivery: prodigiResponse.estimatedDelivery ? new Date(prodigiResponse.estimatedDelivery) : null,
-      provider_response: prodigiResponse,
-      status: (prodigiResponse.status?.stage || 'pending').toLowerCase(), // Extract stage from status object
-      updated_at: new Date().toISOString(),
-    };
-
-    if (existingDropship) {
-      // Update existing record
-      const { error: updateError } = await supabase
-        .from('dropship_orders')
-        .update(dropshipOrderRecord)
-        .eq('id', existingDropship.id);
-
-      if (updateError) {
-        throw new Error(`Failed to update dropship order: ${updateError.message}`);
-      }
-    } else {
-      // Create new record
-      const { error: insertError } = await supabase
-        .from('dropship_orders')
-        .insert({
-          order_id: orderId,
-          order_item_id: order.order_items[0]?.id, // Assuming one item per dropship order for simplicity
-          provider: 'prodigi',
-          ...dropshipOrderRecord,
-        });
-
-      if (insertError) {
-        throw new Error(`Failed to create dropship order: ${insertError.message}`);
-      }
-    }
-
-    // Update main order status
-    const { error: orderUpdateError } = await supabase
-      .from('orders')
-      .update({
-        status: 'processing',
-        updated_at: new Date().toISOString()
-      })
-      .eq('id', orderId);
-
-    if (orderUpdateError) {
-      console.error('Error updating order status:', orderUpdateError);
-    }
-
-    console.log('✅ Prodigi order created successfully:', prodigiResponse.id);
-    
-    // Log the successful creation
-    await supabase
-      .from('order_logs')
-      .insert({
-        order_id: orderId,
-        action: 'prodigi_order_created',
-        details: {
-          prodigi_order_id: prodigiResponse.id,
-          status: prodigiResponse.status?.stage,
-          tracking_number: prodigiResponse.trackingNumber,
-        },
-        created_at: new Date().toISOString(),
-      });
-
-  } catch (error) {
-    console.error('❌ Error creating Prodigi order:', error);
-    
-    // Log the error
-    await supabase
-      .from('order_logs')
-      .insert({
-        order_id: orderId,
-        action: 'prodigi_order_failed',
-        details: {
-          error: error instanceof Error ? error.message : 'Unknown error',
-          stack: error instanceof Error ? error.stack : undefined,
-        },
-        created_at: new Date().toISOString(),
-      });
+      subtotal: order.subtotal,
+      shipping: order.shipping_amount,
+      tax: order.tax_amount,
+      discount: order.discount_amount,
+      total: order.total_amount,
+      currency,
+    },
+  });
+}
 
-    throw error;
-  }
+function describeCartItem(item: any): string {
+  const product = item.products || {};
+  const frame = [product.frame_size, product.frame_style, product.frame_material].filter(Boolean).join(' ');
+  const prompt: string | undefined = product.images?.prompt;
+  const title = prompt && prompt.length > 40 ? `${prompt.slice(0, 40).trim()}…` : prompt;
+  return [title ? `"${title}"` : 'Framed print', frame && `(${frame} frame)`].filter(Boolean).join(' ');
 }
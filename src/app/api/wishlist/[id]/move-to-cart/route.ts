@@ -0,0 +1,64 @@
+/**
+ * Wishlist Move-to-Cart API
+ *
+ * POST - Re-quote a wishlisted design, add it to the cart and remove it from the wishlist
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceClient } from '@/lib/supabase/server';
+import { authenticateRequest } from '@/lib/auth/jwtAuth';
+import { CartService } from '@/lib/checkout/services/cart.service';
+import { PricingService } from '@/lib/checkout/services/pricing.service';
+import { ProdigiClient as ProdigiClientV1 } from '@/lib/prodigi';
+import { ProdigiClient as ProdigiClientV2 } from '@/lib/prodigi-v2/client';
+import { currencyService } from '@/lib/currency';
+import { CartError } from '@/lib/checkout/types/errors';
+import { WishlistService, WishlistError } from '@/lib/wishlist';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request);
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const apiKey = process.env.PRODIGI_API_KEY;
+    const environment = (process.env.PRODIGI_ENVIRONMENT as 'sandbox' | 'production') || 'production';
+    if (!apiKey) {
+      return NextResponse.json(
+        { error: 'Prodigi client not configured' },
+        { status: 500 }
+      );
+    }
+
+    const { id } = await params;
+    const supabase = createServiceClient();
+    const pricingService = new PricingService(new ProdigiClientV2({ apiKey, environment }), currencyService);
+    const cartService = new CartService(supabase, new ProdigiClientV1(apiKey, environment), pricingService);
+
+    const service = new WishlistService(supabase);
+    const result = await service.moveToCart(user.id, id, { cartService, pricingService });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error moving wishlist item to cart:', error);
+    if (error instanceof WishlistError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.statusCode }
+      );
+    }
+    if (error instanceof CartError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.statusCode || 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to move item to cart' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Wishlist Item API
+ *
+ * DELETE - Remove an item from the wishlist
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceClient } from '@/lib/supabase/server';
+import { authenticateRequest } from '@/lib/auth/jwtAuth';
+import { WishlistService, WishlistError } from '@/lib/wishlist';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request);
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const service = new WishlistService(createServiceClient());
+    await service.remove(user.id, id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error removing wishlist item:', error);
+    if (error instanceof WishlistError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.statusCode }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to remove from wishlist' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Wishlist API
+ *
+ * GET - List the user's wishlist
+ * POST - Add an image (optionally with a studio configuration) or a shop product
+ * DELETE - Remove by { id }, { imageUrl } or { productId }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceClient } from '@/lib/supabase/server';
+import { authenticateRequest } from '@/lib/auth/jwtAuth';
+import { WishlistService, WishlistError } from '@/lib/wishlist';
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof WishlistError) {
+    return NextResponse.json(
+      { error: error.message, details: error.details },
+      { status: error.statusCode }
+    );
+  }
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request);
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const service = new WishlistService(createServiceClient());
+    const items = await service.list(user.id);
+
+    return NextResponse.json({ items });
+  } catch (error) {
+    console.error('Error fetching wishlist:', error);
+    return errorResponse(error, 'Failed to fetch wishlist');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request);
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body) {
+      return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+    }
+
+    const service = new WishlistService(createServiceClient());
+    const item = typeof body.productId === 'string'
+      ? await service.addProduct(user.id, body.productId)
+      : await service.add(user.id, body);
+
+    return NextResponse.json({ item }, { status: 201 });
+  } catch (error) {
+    console.error('Error adding to wishlist:', error);
+    return errorResponse(error, 'Failed to add to wishlist');
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { user, error: authError } = await authenticateRequest(request);
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body) {
+      return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+    }
+
+    const service = new WishlistService(createServiceClient());
+    if (typeof body.id === 'string') {
+      await service.remove(user.id, body.id);
+    } else {
+      await service.removeBy(user.id, { imageUrl: body.imageUrl, productId: body.productId });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error removing from wishlist:', error);
+    return errorResponse(error, 'Failed to remove from wishlist');
+  }
+}
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -9,6 +9,8 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/u
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
+import { hasStaffPermission, type StaffRole } from '@/lib/auth/roles';
+import { OrderRefundPanel } from '@/components/orders/OrderRefundPanel';
 import { 
   Search, 
   Filter, 
@@ -40,6 +42,7 @@ interface Order {
   dropship_provider?: string;
   dropship_status?: string;
   provider_order_id?: string;
+  items?: any[];
 }
 
 interface OrderDetails {
@@ -50,7 +53,14 @@ interface OrderDetails {
   prodigiStatus: any;
 }
 
-export function AdminOrderDashboard() {
+interface AdminOrderDashboardProps {
+  /** Sent as the Bearer token; the order management API requires a staff JWT */
+  accessToken?: string;
+  /** Hides the actions the role isn't allowed to take */
+  role?: StaffRole | null;
+}
+
+export function AdminOrderDashboard({ accessToken, role }: AdminOrderDashboardProps = {}) {
   const [orders, setOrders] = useState<Order[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedOrder, setSelectedOrder] = useState<OrderDetails | null>(null);
@@ -77,6 +87,15 @@ export function AdminOrderDashboard() {
   });
   const { toast } = useToast();
 
+  const canUpdate = hasStaffPermission(role, 'orders:update');
+  const canCancel = hasStaffPermission(role, 'orders:cancel');
+  const canRefresh = hasStaffPermission(role, 'orders:refresh');
+  const canRefund = hasStaffPermission(role, 'orders:refund');
+  const canReprint = hasStaffPermission(role, 'orders:reprint');
+  const authHeaders = useMemo((): Record<string, string> => (
+    accessToken ? { 'Authorization': `Bearer ${accessToken}` } : {}
+  ), [accessToken]);
+
   const statusColors = {
     pending: 'bg-yellow-100 text-yellow-800',
     paid: 'bg-blue-100 text-blue-800',
@@ -113,6 +132,7 @@ export function AdminOrderDashboard() {
 
       const response = await fetch(`/api/orders/management?${params}`, {
         credentials: 'include',
+        headers: authHeaders,
       });
 
       if (!response.ok) {
@@ -136,7 +156,7 @@ export function AdminOrderDashboard() {
     } finally {
       setLoading(false);
     }
-  }, [filters, pagination.offset]);
+  }, [filters, pagination.offset, authHeaders]);
 
   useEffect(() => {
     fetchOrders();
@@ -146,6 +166,7 @@ export function AdminOrderDashboard() {
     try {
       const response = await fetch(`/api/orders/${orderId}/status`, {
         credentials: 'include',
+        headers: authHeaders,
       });
 
       if (!response.ok) {
@@ -171,6 +192,7 @@ export function AdminOrderDashboard() {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...authHeaders,
         },
         credentials: 'include',
         body: JSON.stringify({ action: 'refresh_prodigi_status' }),
@@ -208,6 +230,7 @@ export function AdminOrderDashboard() {
         method: 'PATCH',
         headers: {
           'Content-Type': 'application/json',
+          ...authHeaders,
         },
         credentials: 'include',
         body: JSON.stringify({
@@ -440,14 +463,16 @@ export function AdminOrderDashboard() {
                             >
                               <Eye className="h-4 w-4" />
                             </Button>
-                            <Button
-                              size="sm"
-                              variant="outline"
-                              onClick={() => openEditDialog(order)}
-                            >
-                              <Edit className="h-4 w-4" />
-                            </Button>
-                            {order.dropship_provider === 'prodigi' && (
+                            {canUpdate && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => openEditDialog(order)}
+                              >
+                                <Edit className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {canRefresh && order.dropship_provider === 'prodigi' && (
                               <Button
                                 size="sm"
                                 variant="outline"
@@ -509,6 +534,18 @@ export function AdminOrderDashboard() {
                 </div>
               )}
 
+              {/* Refunds, reprints and problem reports */}
+              <OrderRefundPanel
+                key={selectedOrder.order.id}
+                orderId={selectedOrder.order.id}
+                currency={selectedOrder.order.currency}
+                items={selectedOrder.order.items || []}
+                accessToken={accessToken}
+                canRefund={canRefund}
+                canReprint={canReprint}
+                onChanged={() => fetchOrderDetails(selectedOrder.order.id)}
+              />
+
               {/* Status History */}
               <div>
                 <h3 className="font-semibold">Status History</h3>
@@ -564,8 +601,8 @@ export function AdminOrderDashboard() {
                   <SelectItem value="processing">Processing</SelectItem>
                   <SelectItem value="shipped">Shipped</SelectItem>
                   <SelectItem value="delivered">Delivered</SelectItem>
-                  <SelectItem value="cancelled">Cancelled</SelectItem>
-                  <SelectItem value="refunded">Refunded</SelectItem>
+                  {canCancel && <SelectItem value="cancelled">Cancelled</SelectItem>}
+                  {canCancel && <SelectItem value="refunded">Refunded</SelectItem>}
                 </SelectContent>
               </Select>
             </div>
@@ -21,6 +21,7 @@ import { getProxiedImageUrl } from '@/lib/utils/imageProxy';
 import { createClient } from '@supabase/supabase-js';
 import { supabase } from '@/lib/supabase/client';
 import { formatSizeWithCm } from '@/lib/utils/size-conversion';
+import { PromoCodeInput } from '@/components/shared/PromoCodeInput';
 
 interface CartItem {
   id: string;
@@ -64,6 +65,10 @@ interface CartData {
     shippingAmount: number;
     total: number;
     itemCount: number;
+    taxInclusive?: boolean;
+    taxName?: string;
+    discountAmount?: number;
+    promoCode?: string;
   };
 }
 
@@ -110,7 +115,9 @@ export function CartModal({ isOpen, onClose }: CartModalProps) {
     setLoading(true);
     try {
       // Use v2 checkout API with JWT authentication
-      const response = await fetch('/api/v2/checkout/cart?country=US&shippingMethod=Standard', {
+      // Same promo code storage key as CartContext
+      const promoCode = localStorage.getItem('cartPromoCode');
+      const response = await fetch(`/api/v2/checkout/cart?country=US&shippingMethod=Standard${promoCode ? `&promoCode=${encodeURIComponent(promoCode)}` : ''}`, {
         credentials: 'include',
         headers: {
           'Authorization': `Bearer ${session.access_token}`
@@ -141,6 +148,10 @@ export function CartModal({ isOpen, onClose }: CartModalProps) {
               shippingAmount: data.cart.totals?.shipping || 0,
               total: data.cart.totals?.total || 0,
               itemCount: data.cart.items?.length || 0,
+              taxInclusive: data.cart.totals?.taxInclusive || false,
+              taxName: data.cart.totals?.taxName,
+              discountAmount: data.cart.totals?.discount || 0,
+              promoCode: data.cart.totals?.promoCode,
             },
           }
         : data;
@@ -561,8 +572,18 @@ export function CartModal({ isOpen, onClose }: CartModalProps) {
                       <span>Subtotal</span>
                       <span>{formatPrice(cartData.totals.subtotal)}</span>
                     </div>
+                    {!!cartData.totals.discountAmount && (
+                      <div className="flex justify-between text-sm text-green-700">
+                        <span>Discount{cartData.totals.promoCode ? ` (${cartData.totals.promoCode})` : ''}</span>
+                        <span>-{formatPrice(cartData.totals.discountAmount)}</span>
+                      </div>
+                    )}
                     <div className="flex justify-between text-sm">
-                      <span>Tax</span>
+                      <span>
+                        {cartData.totals.taxInclusive
+                          ? `Includes ${cartData.totals.taxName || 'tax'}`
+                          : cartData.totals.taxName || 'Tax'}
+                      </span>
                       <span>{formatPrice(cartData.totals.taxAmount)}</span>
                     </div>
                     <div className="flex justify-between text-sm">
@@ -579,6 +600,8 @@ export function CartModal({ isOpen, onClose }: CartModalProps) {
                     </div>
                   </div>
 
+                  <PromoCodeInput onChange={fetchCart} />
+
                   <Button
                     onClick={handleCheckout}
                     className="w-full"
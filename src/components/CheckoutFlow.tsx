@@ -26,8 +26,11 @@ import { GooglePlacesAutocomplete } from '@/components/ui/google-places-autocomp
 import { supabase } from '@/lib/supabase/client';
 import { formatSizeWithCm } from '@/lib/utils/size-conversion';
 import { formatPrice } from '@/lib/prodigi-v2/utils';
+import { formatArrivalWindow } from '@/lib/prodigi-v2/delivery-estimator';
 import { PricingDisplay, type PricingData } from '@/components/shared/PricingDisplay';
+import { PromoCodeInput } from '@/components/shared/PromoCodeInput';
 import type { ShippingOption } from '@/lib/checkout/services/pricing.service';
+import type { AddressVerificationResult } from '@/lib/checkout/types/address.types';
 import { getProductTypeLabelFromProduct } from '@/lib/utils/product-type-labels';
 
 interface CheckoutFlowProps {
@@ -59,7 +62,7 @@ interface BillingAddress {
 }
 
 export function CheckoutFlow({ onCancel }: CheckoutFlowProps) {
-  const { cartData } = useCart();
+  const { cartData, promoCode } = useCart();
   const cartItems = cartData?.cartItems || [];
   const totals = cartData?.totals || { subtotal: 0, taxAmount: 0, shippingAmount: 0, total: 0, itemCount: 0 };
   const { user, session: contextSession } = useAuth();
@@ -74,14 +77,24 @@ export function CheckoutFlow({ onCancel }: CheckoutFlowProps) {
   const [calculatedShipping, setCalculatedShipping] = useState<{
     cost: number;
     estimatedDays: number;
-    estimatedDaysRange?: { min: number; max: number };  // NEW: Add range
+    estimatedDaysRange?: { min: number; max: number };
     serviceName: string;
     isEstimated: boolean;
     provider: string;
     addressValidated: boolean;
     currency: string;
+    taxAmount?: number; // Order tax including this option's shipping
+    shippingTax?: number;
   } | null>(null);
   const [shippingLoading, setShippingLoading] = useState(false);
+
+  // Free-shipping promo codes waive the selected option's shipping (and its tax)
+  const shippingDiscount = cartData?.discount?.type === 'free_shipping' ? (calculatedShipping?.cost || 0) : 0;
+  const orderDiscount = (totals.discountAmount || 0) + shippingDiscount;
+
+  // Tax quoted with the selected shipping option, falling back to the cart's items-only tax
+  const orderTax = (calculatedShipping?.taxAmount ?? totals.taxAmount)
+    - (shippingDiscount > 0 ? calculatedShipping?.shippingTax || 0 : 0);
   const [googlePlacesAddress, setGooglePlacesAddress] = useState('');
   
   const [shippingAddress, setShippingAddress] = useState<CheckoutShippingAddress>({
@@ -109,6 +122,12 @@ export function CheckoutFlow({ onCancel }: CheckoutFlowProps) {
 
   const [errors, setErrors] = useState<Record<string, string>>({});
 
+  // Address verification: problems and suggested corrections for the shipping
+  // address, and the address the customer chose to keep despite warnings
+  const [addressCheck, setAddressCheck] = useState<AddressVerificationResult | null>(null);
+  const [acceptedAddressKey, setAcceptedAddressKey] = useState<string | null>(null);
+  const [addressVerifying, setAddressVerifying] = useState(false);
+
   // Load default address when component mounts (without triggering shipping calculation)
   useEffect(() => {
     const defaultAddress = getDefaultAddress();
@@ -348,6 +367,8 @@ export function CheckoutFlow({ onCancel }: CheckoutFlowProps) {
           zip: address.zip || '',
           country: address.country,
         },
+        // Discounted items subtotal, so option tax matches the checkout session
+        subtotal: totals.subtotal - (totals.discountAmount || 0),
       };
       
       console.log('📤 Shipping request body:', JSON.stringify(requestBody, null, 2));
@@ -415,12 +436,14 @@ export function CheckoutFlow({ onCancel }: CheckoutFlowProps) {
         setCalculatedShipping(prev => ({
           cost: shippingCost,
           estimatedDays: estimatedDays,
-          estimatedDaysRange: undefined,  // V2 API doesn't provide range yet
+          estimatedDaysRange: selectedOption.estimatedDaysRange,
           serviceName: serviceName,
           isEstimated: false,
           provider: 'prodigi',
           addressValidated: data.addressValidated || false,
           currency: currency,
+          taxAmount: selectedOption.taxAmount,
+          shippingTax: selectedOption.shippingTax,
         }));
         console.log('✅ Shipping calculated successfully:', {
           cost: shippingCost,
@@ -520,7 +543,7 @@ export function CheckoutFlow({ onCancel }: CheckoutFlowProps) {
       isCalculatingRef.current = false;
       setShippingLoading(false);
     }
-  }, [getDisplayCurrency, contextSession, toast, cartItems, selectedShippingMethod]);
+  }, [getDisplayCurrency, contextSession, toast, cartItems, totals.subtotal, totals.discountAmount, selectedShippingMethod]);
 
   // Track if address has been manually modified by user
   const [addressManuallyModified, setAddressManuallyModified] = useState(false);
@@ -541,12 +564,14 @@ export function CheckoutFlow({ onCancel }: CheckoutFlowProps) {
       setCalculatedShipping({
         cost: typeof option.cost === 'number' ? option.cost : parseFloat(String(option.cost || '0')),
         estimatedDays: option.estimatedDays || 7,
-        estimatedDaysRange: undefined,
+        estimatedDaysRange: option.estimatedDaysRange,
         serviceName: option.serviceName || option.method || 'Standard',
         isEstimated: false,
         provider: 'prodigi',
         addressValidated: true,
         currency: option.currency || getDisplayCurrency(),
+        taxAmount: option.taxAmount,
+        shippingTax: option.shippingTax,
       });
     }
   }, [getDisplayCurrency, shippingOptions]);
@@ -733,9 +758,104 @@ export function CheckoutFlow({ onCancel }: CheckoutFlowProps) {
     return Object.keys(newErrors).length === 0;
   };
 
-  const handleNext = () => {
+  const getAddressKey = (address: CheckoutShippingAddress, method: string | null) =>
+    JSON.stringify([address.address1, address.address2, address.city, address.state, address.zip, address.country, address.phone, method]);
+
+  /**
+   * Check the shipping address against the country rules and the verification
+   * provider. Resolves false when the customer needs to fix the address or
+   * pick a suggestion first.
+   */
+  const verifyShippingAddress = async (): Promise<boolean> => {
+    const shippingMethod = selectedShippingMethod || calculatedShipping?.serviceName || 'Standard';
+    if (acceptedAddressKey === getAddressKey(shippingAddress, shippingMethod)) {
+      return true;
+    }
+
+    setAddressVerifying(true);
+    try {
+      const response = await fetch('/api/v2/checkout/address', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(contextSession?.access_token && {
+            'Authorization': `Bearer ${contextSession.access_token}`
+          })
+        },
+        body: JSON.stringify({
+          address: {
+            address1: shippingAddress.address1,
+            address2: shippingAddress.address2 || undefined,
+            city: shippingAddress.city,
+            state: shippingAddress.state || undefined,
+            zip: shippingAddress.zip || undefined,
+            country: shippingAddress.country,
+            phone: shippingAddress.phone || undefined,
+          },
+          shippingMethod,
+        }),
+      });
+
+      const result = response.ok ? await response.json() : null;
+      // Verification being unavailable doesn't block checkout - the session
+      // endpoint still enforces the rules
+      if (!result || typeof result.valid !== 'boolean') {
+        return true;
+      }
+
+      const check = result as AddressVerificationResult;
+      const fieldErrors: Record<string, string> = {};
+      check.issues
+        .filter(issue => issue.severity === 'error' && (issue.field === 'address1' || issue.field === 'phone'))
+        .forEach(issue => { fieldErrors[issue.field] = issue.message; });
+      setErrors(prev => ({ ...prev, ...fieldErrors }));
+
+      if (check.valid && check.issues.length === 0 && check.suggestions.length === 0) {
+        // The session endpoint applies the same normalization (postcode format,
+        // state code, phone), so the form can keep what the customer typed
+        setAddressCheck(null);
+        setAcceptedAddressKey(getAddressKey(shippingAddress, shippingMethod));
+        return true;
+      }
+
+      setAddressCheck(check);
+      return false;
+    } catch (error) {
+      console.error('Address verification failed:', error);
+      return true;
+    } finally {
+      setAddressVerifying(false);
+    }
+  };
+
+  const applySuggestedAddress = (suggestion: AddressVerificationResult['address']) => {
+    const updated: CheckoutShippingAddress = {
+      ...shippingAddress,
+      address1: suggestion.address1,
+      address2: suggestion.address2 || '',
+      city: suggestion.city,
+      state: suggestion.state || '',
+      zip: suggestion.zip || '',
+      country: suggestion.country,
+      phone: suggestion.phone || shippingAddress.phone,
+    };
+    setShippingAddress(updated);
+    setGooglePlacesAddress([updated.address1, updated.city, updated.state, updated.zip].filter(Boolean).join(', '));
+    setAcceptedAddressKey(getAddressKey(updated, selectedShippingMethod || calculatedShipping?.serviceName || 'Standard'));
+    setAddressCheck(null);
+    setErrors(prev => ({ ...prev, address1: '', phone: '' }));
+    // Re-quotes shipping for the corrected address
+    setAddressManuallyModified(true);
+  };
+
+  const keepEnteredAddress = () => {
+    setAcceptedAddressKey(getAddressKey(shippingAddress, selectedShippingMethod || calculatedShipping?.serviceName || 'Standard'));
+    setAddressCheck(null);
+  };
+
+  const handleNext = async () => {
     if (currentStep === 1) {
-      if (validateShippingAddress()) {
+      if (validateShippingAddress() && await verifyShippingAddress()) {
         setCurrentStep(2);
       }
     } else if (currentStep === 2) {
@@ -798,6 +918,13 @@ export function CheckoutFlow({ onCancel }: CheckoutFlowProps) {
         return;
       }
       console.log('✅ CheckoutFlow: Address validation passed');
+
+      // Catch addresses Prodigi would reject before the customer pays
+      if (!(await verifyShippingAddress())) {
+        setProcessing(false);
+        setCurrentStep(1);
+        return;
+      }
       
       // Ensure shipping cost is calculated before proceeding
       if (!calculatedShipping && !shippingLoading) {
@@ -938,6 +1065,7 @@ export function CheckoutFlow({ onCancel }: CheckoutFlowProps) {
           },
           shippingMethod: selectedShippingMethod || calculatedShipping?.serviceName || 'Standard',
           currency: getDisplayCurrency(), // Pass the expected currency to ensure consistency
+          promoCode: promoCode || undefined,
         }),
         signal: controller.signal
       });
@@ -1173,6 +1301,45 @@ export function CheckoutFlow({ onCancel }: CheckoutFlowProps) {
                   />
                   {errors.phone && <p className="text-sm text-red-500 mt-1">{errors.phone}</p>}
                 </div>
+
+                {addressCheck && (
+                  <div className={`p-3 rounded-lg border ${
+                    addressCheck.valid ? 'bg-amber-50 border-amber-200' : 'bg-red-50 border-red-200'
+                  }`}>
+                    <div className="flex items-start gap-2">
+                      <AlertTriangle className={`h-4 w-4 mt-0.5 ${addressCheck.valid ? 'text-amber-600' : 'text-red-600'}`} />
+                      <div className="flex-1 space-y-2">
+                        <h4 className="font-medium text-sm text-gray-900">
+                          {addressCheck.valid ? 'Please check your address' : 'This address needs fixing before checkout'}
+                        </h4>
+                        {addressCheck.issues.length > 0 && (
+                          <ul className="text-xs text-gray-700 list-disc pl-4">
+                            {addressCheck.issues.map((issue) => (
+                              <li key={`${issue.field}-${issue.code}`}>{issue.message}</li>
+                            ))}
+                          </ul>
+                        )}
+                        {addressCheck.suggestions.map((suggestion, index) => (
+                          <div key={index} className="flex items-center justify-between gap-2 p-2 bg-white rounded border border-gray-200">
+                            <div className="text-xs text-gray-800">
+                              <div className="font-medium">Did you mean:</div>
+                              <div>{[suggestion.address1, suggestion.address2].filter(Boolean).join(', ')}</div>
+                              <div>{[suggestion.city, suggestion.state, suggestion.zip, suggestion.country].filter(Boolean).join(', ')}</div>
+                            </div>
+                            <Button type="button" size="sm" variant="outline" onClick={() => applySuggestedAddress(suggestion)}>
+                              Use this address
+                            </Button>
+                          </div>
+                        ))}
+                        {addressCheck.valid && (
+                          <Button type="button" size="sm" variant="ghost" onClick={keepEnteredAddress}>
+                            Keep the address I entered
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                )}
               </CardContent>
             </Card>
           )}
@@ -1325,8 +1492,8 @@ export function CheckoutFlow({ onCancel }: CheckoutFlowProps) {
             </Button>
             
             {currentStep < 3 ? (
-              <Button onClick={handleNext}>
-                Continue
+              <Button onClick={handleNext} disabled={addressVerifying}>
+                {addressVerifying ? 'Checking address...' : 'Continue'}
               </Button>
             ) : (
               <Button 
@@ -1427,7 +1594,9 @@ export function CheckoutFlow({ onCancel }: CheckoutFlowProps) {
                               <div>
                                 <div className="font-medium text-gray-900">{option.method}</div>
                                 <div className="text-xs text-gray-600 mt-1">
-                                  ~{option.estimatedDays || 7} business days
+                                  {option.arrivesBy
+                                    ? formatArrivalWindow(option.arrivesBy)
+                                    : `~${option.estimatedDays || 7} business days`}
                                 </div>
                               </div>
                               <div className="text-right">
@@ -1453,10 +1622,12 @@ export function CheckoutFlow({ onCancel }: CheckoutFlowProps) {
               <PricingDisplay
                 pricing={{
                   subtotal: totals.subtotal,
-                  tax: totals.taxAmount,
-                  total: calculatedShipping 
-                    ? totals.subtotal + totals.taxAmount + calculatedShipping.cost
-                    : totals.subtotal + totals.taxAmount,
+                  tax: orderTax,
+                  taxInclusive: totals.taxInclusive,
+                  taxLabel: totals.taxName,
+                  discount: orderDiscount,
+                  discountLabel: totals.promoCode,
+                  total: totals.subtotal + (calculatedShipping?.cost || 0) - orderDiscount + (totals.taxInclusive ? 0 : orderTax),
                   shipping: calculatedShipping?.cost,
                   shippingRange: calculatedShipping?.estimatedDaysRange 
                     ? undefined 
@@ -1471,6 +1642,8 @@ export function CheckoutFlow({ onCancel }: CheckoutFlowProps) {
                 showShippingInfo={true}
               />
 
+              <PromoCodeInput />
+
               <div className="flex items-center gap-2 text-xs text-gray-500">
                 <Shield className="h-3 w-3" />
                 <span>Secure checkout powered by Stripe</span>
@@ -15,16 +15,27 @@ import { useCartNotification } from './CartNotificationToast';
 import { supabase } from '@/lib/supabase/client';
 import { CreationsModal } from './CreationsModal';
 import { useStudioStore } from '@/store/studio';
+import { useWishlist } from '@/hooks/useWishlist';
 
 interface CuratedImageCardProps {
   image: CuratedImage;
   onImageClick?: (image: CuratedImage) => void;
   onBuyAsFrame?: (image: CuratedImage) => void;
   onOpenAuthModal?: () => void;
+  isWishlisted?: boolean;
+  onToggleWishlist?: (image: CuratedImage) => void;
   animationDelay?: number;
 }
 
-function CuratedImageCard({ image, onImageClick, onBuyAsFrame, onOpenAuthModal, animationDelay = 0 }: CuratedImageCardProps) {
+function CuratedImageCard({
+  image,
+  onImageClick,
+  onBuyAsFrame,
+  onOpenAuthModal,
+  isWishlisted = false,
+  onToggleWishlist,
+  animationDelay = 0,
+}: CuratedImageCardProps) {
   const [isLoaded, setIsLoaded] = useState(false);
   const [isHovered, setIsHovered] = useState(false);
   const { createTransition } = useDynamicAnimationsSafe();
@@ -74,8 +85,11 @@ function CuratedImageCard({ image, onImageClick, onBuyAsFrame, onOpenAuthModal,
 
   const handleLike = (e: React.MouseEvent) => {
     e.stopPropagation();
-    // TODO: Implement like functionality
-    console.log('Like clicked for image:', image.id);
+    if (!user) {
+      onOpenAuthModal?.();
+      return;
+    }
+    onToggleWishlist?.(image);
   };
 
   const handleShare = (e: React.MouseEvent) => {
@@ -132,6 +146,19 @@ function CuratedImageCard({ image, onImageClick, onBuyAsFrame, onOpenAuthModal,
             loading="lazy"
           />
           
+          {/* Wishlist Button - Top Left Corner */}
+          <button
+            type="button"
+            className={`absolute top-2 left-2 rounded-full bg-white/90 p-2 shadow-lg transition-all duration-300 hover:bg-white ${
+              isHovered || isWishlisted ? 'opacity-100' : 'opacity-0'
+            }`}
+            onClick={handleLike}
+            aria-label={isWishlisted ? 'Remove from wishlist' : 'Add to wishlist'}
+            aria-pressed={isWishlisted}
+          >
+            <Heart className={`w-4 h-4 ${isWishlisted ? 'fill-red-500 text-red-500' : 'text-gray-700'}`} />
+          </button>
+
           {/* Order Frame Button - Top Right Corner */}
           <div 
             className={`absolute top-2 right-2 transition-all duration-300 pointer-events-auto ${
@@ -269,6 +296,15 @@ export function CuratedImageGallery({
   const { toast } = useToast();
   const { addToCart } = useCart();
   const { showCartNotification } = useCartNotification();
+  const { isWishlisted, toggleWishlist } = useWishlist();
+
+  const handleToggleWishlist = (image: CuratedImage) => {
+    toggleWishlist({
+      imageUrl: image.image_url,
+      curatedImageId: image.id,
+      title: image.title,
+    });
+  };
 
   // Ensure hydration safety
   useEffect(() => {
@@ -393,6 +429,8 @@ export function CuratedImageGallery({
                 onImageClick={handleImageClick}
                 onBuyAsFrame={handleBuyAsFrame}
                 onOpenAuthModal={onOpenAuthModal}
+                isWishlisted={isWishlisted(image.image_url)}
+                onToggleWishlist={handleToggleWishlist}
                 animationDelay={enableAnimations ? index * 100 : 0}
               />
             ))}
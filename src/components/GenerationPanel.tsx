@@ -2,14 +2,30 @@
 
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { useImageGeneration } from '@/hooks/useImageGeneration';
-import { IdeogramImageGenerationRequest } from '@/lib/ideogram/api';
+import type { GenerationSpeed, ImageGenerationRequest } from '@/lib/image-generation/types';
 import { CreationsModal } from './CreationsModal';
 import { getProxiedImageUrl } from '@/lib/utils/imageProxy';
 import { saveGeneratedImageToSupabase } from '@/lib/utils/saveGeneratedImage';
 import { useAuth } from '@/hooks/useAuth';
+import { useCredits } from '@/hooks/useCredits';
 import { useGeneration } from '@/contexts/GenerationContext';
 import { RobustImage } from '@/components/RobustImage';
 
+/**
+ * Inline a local (blob:) image so the server can pass it to the provider
+ */
+async function toDataUrl(url: string): Promise<string> {
+  if (/^(https?|data):/.test(url)) return url;
+
+  const blob = await (await fetch(url)).blob();
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
 interface GenerationPanelProps {
   isOpen: boolean;
   onClose: () => void;
@@ -55,116 +71,76 @@ export function GenerationPanel({
   const generationInitiatedRef = useRef(false);
   const currentPromptRef = useRef('');
 
+  // Generation credits: one per image, charged by the Ideogram proxy
+  const { balance: creditBalance, packs: creditPacks, purchasingPackId, refreshCredits, purchasePack } = useCredits();
+  const hasEnoughCredits = creditBalance === null || creditBalance >= numberOfImages;
+
   // Image generation hook
   const {
     isGenerating,
     currentGeneration,
+    providerInfo,
     error,
     generateImage,
-    cancelGeneration,
     clearError,
   } = useImageGeneration({
-    onSuccess: async (response) => {
-      console.log('Generation started:', response);
-      setGenerationStatus('Generation started, processing...');
-      
-      // Handle the actual API response structure
-      // The API returns { created: string, data: Array }
-      if (response && typeof response === 'object') {
-        // Check if response has a 'data' property (actual API response)
-        if ('data' in response && Array.isArray(response.data)) {
-          console.log('📥 Found data array:', response.data);
-          console.log('📊 Data array length:', response.data.length);
-          const actualImages = response.data.map((img: any, index: number) => {
-            console.log(`🖼️ Processing image ${index}:`, img);
-            return {
-              id: `img-${Date.now()}-${index}`, // Use timestamp to ensure unique IDs
-              url: getProxiedImageUrl(img.url || ''),
-              originalUrl: img.url || '',
-              isLoaded: true
-            };
-          });
-          console.log('✅ Final actualImages array:', actualImages);
-          console.log('🔄 Adding images to existing array');
-          
-          // Accumulate images instead of replacing them
-          setImages(prevImages => {
-            const newImages = [...prevImages, ...actualImages];
-            console.log('📦 Total images now:', newImages.length);
-            return newImages;
-          });
-          
-          // Save each generated image to Supabase Storage and update IDs
-          if (user && session?.access_token) {
-            console.log('💾 Saving images to Supabase...');
-            setGenerationStatus('Saving images...');
-            
-            const savedImages: { id: string; url: string; originalUrl?: string; isLoaded: boolean }[] = [];
-            for (let i = 0; i < response.data.length; i++) {
-              const img = response.data[i];
-              try {
-                const savedImage = await saveGeneratedImageToSupabase({
-                  imageUrl: img.url,
-                  prompt: promptText,
-                  aspectRatio: aspectRatio,
-                  model: model,
-                  style: style !== 'AUTO' ? style : undefined,
-                  color: color !== 'AUTO' ? color : undefined,
-                  userId: user.id,
-                  accessToken: session.access_token, // Pass JWT token
-                });
-                console.log('✅ Image saved to Supabase with ID:', savedImage.id);
-                savedImages.push({
-                  ...actualImages[i],
-                  id: savedImage.id, // Use the actual database UUID
-                });
-              } catch (error) {
-                console.error('❌ Failed to save image to Supabase:', error);
-                // Keep the temporary ID if saving fails
-                savedImages.push(actualImages[i]);
-              }
-            }
-            
-            // Update the images array with the correct database IDs
-            setImages(prevImages => {
-              const updatedImages = [...prevImages];
-              // Replace the last batch of images with the saved versions
-              const startIndex = updatedImages.length - actualImages.length;
-              updatedImages.splice(startIndex, actualImages.length, ...savedImages);
-              return updatedImages;
+    onSuccess: async (generation) => {
+      console.log('Generation completed:', generation);
+
+      const actualImages = generation.images.map((img, index) => ({
+        id: `img-${Date.now()}-${index}`, // Use timestamp to ensure unique IDs
+        url: getProxiedImageUrl(img.url),
+        originalUrl: img.url,
+        isLoaded: true
+      }));
+
+      // Accumulate images instead of replacing them
+      setImages(prevImages => [...prevImages, ...actualImages]);
+
+      // Save each generated image to Supabase Storage and update IDs
+      if (user && session?.access_token) {
+        console.log('💾 Saving images to Supabase...');
+        setGenerationStatus('Saving images...');
+
+        const savedImages: { id: string; url: string; originalUrl?: string; isLoaded: boolean }[] = [];
+        for (let i = 0; i < generation.images.length; i++) {
+          const img = generation.images[i];
+          try {
+            const savedImage = await saveGeneratedImageToSupabase({
+              imageUrl: img.url,
+              prompt: generation.prompt,
+              aspectRatio: generation.request.aspectRatio,
+              model: generation.model || model,
+              provider: generation.provider,
+              generationId: generation.id,
+              style: generation.request.style,
+              color: generation.request.colorPalette,
+              userId: user.id,
+              accessToken: session.access_token, // Pass JWT token
             });
-            
-            setGenerationStatus(`Your art is ready! Choose a frame to order.`);
-          } else {
-            setGenerationStatus(`Your art is ready! Choose a frame to order.`);
+            console.log('✅ Image saved to Supabase with ID:', savedImage.id);
+            savedImages.push({
+              ...actualImages[i],
+              id: savedImage.id, // Use the actual database UUID
+            });
+          } catch (error) {
+            console.error('❌ Failed to save image to Supabase:', error);
+            // Keep the temporary ID if saving fails
+            savedImages.push(actualImages[i]);
           }
-          
-          return;
-        }
-        
-        // Check if response has an 'images' property (expected interface)
-        if ('images' in response && Array.isArray(response.images)) {
-          console.log('Found images array:', response.images);
-          const actualImages = response.images.map((img: any, index: number) => ({
-            id: `img-${index}`,
-            url: getProxiedImageUrl(img.url || ''),
-            originalUrl: img.url || '',
-            isLoaded: true
-          }));
-          setImages(actualImages);
-          setGenerationStatus(`Your art is ready! Choose a frame to order.`);
-          return;
         }
+
+        // Update the images array with the correct database IDs
+        setImages(prevImages => {
+          const updatedImages = [...prevImages];
+          // Replace the last batch of images with the saved versions
+          const startIndex = updatedImages.length - actualImages.length;
+          updatedImages.splice(startIndex, actualImages.length, ...savedImages);
+          return updatedImages;
+        });
       }
-      
-      // Fallback to placeholders if no actual images found
-      console.log('No images found in response, using placeholders');
-      const numberOfImages = (response as any)?.number_of_images || 4;
-      setImages(Array.from({ length: numberOfImages }, (_, i) => ({
-        id: `img-${i}`,
-        url: '',
-        isLoaded: false
-      })));
+
+      setGenerationStatus(`Your art is ready! Choose a frame to order.`);
     },
     onError: (error) => {
       console.error('Generation failed:', error);
@@ -217,6 +193,11 @@ export function GenerationPanel({
 
   const handleGenerate = useCallback(async () => {
     if (!localPromptText.trim()) return;
+
+    if (!hasEnoughCredits) {
+      setGenerationStatus(`Not enough credits: ${numberOfImages} needed`);
+      return;
+    }
     
     console.log('🚀 handleGenerate called - hasStartedGeneration:', hasStartedGeneration, 'isGenerating:', isGenerating);
     
@@ -230,18 +211,28 @@ export function GenerationPanel({
     console.log('🗑️ Clearing previous images');
     setImages([]);
 
-    const request: IdeogramImageGenerationRequest = {
+    // Options the provider doesn't support are left out rather than rejected
+    const capabilities = providerInfo?.capabilities;
+    const speed: GenerationSpeed = renderSpeed === 'TURBO' ? 'fast' : renderSpeed === 'QUALITY' ? 'quality' : 'balanced';
+    const styleName = style.toLowerCase();
+    const paletteName = color.toLowerCase();
+
+    const request: ImageGenerationRequest = {
       prompt: localPromptText.trim(),
-      aspect_ratio: aspectRatio as any,
-      num_images: numberOfImages as 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8, // Updated parameter name
-      rendering_speed: renderSpeed as any,
-      style_type: style as any,
-      magic_prompt: 'AUTO', // Add magic_prompt parameter
-      // Handle color_palette for Ideogram API v3 - use uppercase preset names
-      color_palette: color && color !== 'AUTO' ? { name: color } : undefined,
-      character_reference_images: referenceImages.length > 0 ? referenceImages : undefined,
+      aspectRatio,
+      numImages: numberOfImages,
+      speed: !capabilities || capabilities.speeds.includes(speed) ? speed : undefined,
+      style: !capabilities || capabilities.styles.includes(styleName) ? styleName : undefined,
+      colorPalette: paletteName !== 'auto' && (!capabilities || capabilities.colorPalettes.includes(paletteName))
+        ? paletteName
+        : undefined,
     };
 
+    // Attached images are local previews, so they're sent as data URLs
+    if (referenceImages.length > 0 && (!capabilities || capabilities.referenceImages)) {
+      request.referenceImages = await Promise.all(referenceImages.map(toDataUrl));
+    }
+
     console.log('GenerationPanel - Props received:', {
       aspectRatio,
       numberOfImages,
@@ -252,16 +243,10 @@ export function GenerationPanel({
       referenceImages
     });
     console.log('GenerationPanel - Starting generation with request:', request);
-    console.log('🔍 Key parameters check:', {
-      'aspect_ratio in request': request.aspect_ratio,
-      'num_images in request': request.num_images,
-      'rendering_speed in request': request.rendering_speed,
-      'style_type in request': request.style_type,
-      'color_palette in request': request.color_palette,
-      'color prop received': color
-    });
     await generateImage(request);
-  }, [localPromptText, aspectRatio, numberOfImages, model, renderSpeed, style, color, referenceImages, generateImage]); // Added color to deps
+    // Picks up the spend, or the refund when the generation failed
+    refreshCredits();
+  }, [localPromptText, aspectRatio, numberOfImages, model, renderSpeed, style, color, referenceImages, generateImage, hasEnoughCredits, refreshCredits, providerInfo]); // Added color to deps
 
   // Auto-start generation when panel opens with a prompt
   useEffect(() => {
@@ -312,6 +297,15 @@ export function GenerationPanel({
           </div>
           
           <div className="flex justify-center items-center">
+            {/* Credit Balance */}
+            {creditBalance !== null && (
+              <span
+                className={`mr-1 px-2 py-1 rounded-full text-xs font-semibold ${hasEnoughCredits ? 'bg-gray-100 text-gray-700' : 'bg-red-50 text-red-600'}`}
+                title="Each image costs 1 credit"
+              >
+                {creditBalance} {creditBalance === 1 ? 'credit' : 'credits'}
+              </span>
+            )}
             <div className="flex flex-col items-start">
               <button
                 onClick={() => setIsExpanded(!isExpanded)}
@@ -362,6 +356,25 @@ export function GenerationPanel({
           </div>
         </div>
 
+        {/* Credit Packs, when the balance can't cover a generation */}
+        {!hasEnoughCredits && creditPacks.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 self-stretch px-2 py-2 rounded-lg bg-gray-50">
+            <span className="text-xs text-gray-700 flex-1 min-w-[160px]">
+              You need {numberOfImages} credits to generate {numberOfImages} {numberOfImages === 1 ? 'image' : 'images'}.
+            </span>
+            {creditPacks.map((pack) => (
+              <button
+                key={pack.id}
+                onClick={() => purchasePack(pack.id)}
+                disabled={purchasingPackId !== null}
+                className="px-2 py-1 rounded-md border border-gray-300 bg-white text-xs font-semibold text-gray-900 hover:bg-gray-100 transition-colors disabled:opacity-50"
+              >
+                {pack.credits} for ${pack.price.toFixed(2)}
+              </button>
+            ))}
+          </div>
+        )}
+
         {/* Content Area */}
         {isExpanded && (
           <div className="flex w-full justify-center items-start">
@@ -472,7 +485,7 @@ export function GenerationPanel({
                     <div className="flex flex-col items-start">
                       <button 
                         onClick={handleGenerate}
-                        disabled={!localPromptText.trim() || isGenerating}
+                        disabled={!localPromptText.trim() || isGenerating || !hasEnoughCredits}
                         className="flex w-16 md:w-[91px] h-7 md:h-9 min-w-16 md:min-w-[91px] px-2 md:px-3 py-1 md:py-1.5 justify-center items-center rounded-lg bg-gray-light shadow-sm hover:bg-gray-light/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                       >
                         <div className="flex flex-col items-center">
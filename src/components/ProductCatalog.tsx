@@ -5,9 +5,12 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { ShoppingCart, Heart, Eye, Star } from 'lucide-react';
+import { ShoppingCart, Heart, Eye } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/hooks/use-toast';
+import { useWishlist } from '@/hooks/useWishlist';
+import { useRatingSummaries } from '@/hooks/useRatingSummaries';
+import { RatingSummaryBadge } from '@/components/reviews/RatingSummaryBadge';
 import { useCartNotification } from './CartNotificationToast';
 import { getProductTypeLabelFromProduct } from '@/lib/utils/product-type-labels';
 
@@ -61,10 +64,11 @@ export function ProductCatalog({
     sortBy: 'created_at',
     sortOrder: 'desc' as 'asc' | 'desc'
   });
-  const [wishlist, setWishlist] = useState<Set<string>>(new Set());
   const { user } = useAuth();
   const { toast } = useToast();
   const { showCartNotification } = useCartNotification();
+  const { isProductWishlisted, toggleProductWishlist } = useWishlist();
+  const { getSummary } = useRatingSummaries();
 
   const fetchProducts = useCallback(async () => {
     try {
@@ -151,56 +155,6 @@ export function ProductCatalog({
     }
   };
 
-  const toggleWishlist = async (productId: string) => {
-    if (!user) {
-      toast({
-        title: 'Authentication Required',
-        description: 'Please sign in to manage your wishlist.',
-        variant: 'destructive',
-      });
-      return;
-    }
-
-    try {
-      const isInWishlist = wishlist.has(productId);
-      const response = await fetch('/api/wishlist', {
-        method: isInWishlist ? 'DELETE' : 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        credentials: 'include',
-        body: JSON.stringify({ productId }),
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to update wishlist');
-      }
-
-      setWishlist(prev => {
-        const newSet = new Set(prev);
-        if (isInWishlist) {
-          newSet.delete(productId);
-        } else {
-          newSet.add(productId);
-        }
-        return newSet;
-      });
-
-      toast({
-        title: isInWishlist ? 'Removed from Wishlist' : 'Added to Wishlist',
-        description: isInWishlist 
-          ? 'Item has been removed from your wishlist.'
-          : 'Item has been added to your wishlist.',
-      });
-    } catch (err) {
-      toast({
-        title: 'Error',
-        description: 'Failed to update wishlist. Please try again.',
-        variant: 'destructive',
-      });
-    }
-  };
-
   const formatPrice = (price: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
@@ -374,11 +328,11 @@ export function ProductCatalog({
                   size="sm"
                   variant="secondary"
                   className="h-8 w-8 p-0 bg-white/80 hover:bg-white"
-                  onClick={() => toggleWishlist(product.id)}
+                  onClick={() => toggleProductWishlist(product.id)}
                 >
                   <Heart 
                     className={`h-4 w-4 ${
-                      wishlist.has(product.id) ? 'fill-red-500 text-red-500' : 'text-gray-600'
+                      isProductWishlisted(product.id) ? 'fill-red-500 text-red-500' : 'text-gray-600'
                     }`} 
                   />
                 </Button>
@@ -418,10 +372,9 @@ export function ProductCatalog({
                 <span className="text-2xl font-bold text-primary">
                   {formatPrice(product.price)}
                 </span>
-                <div className="flex items-center gap-1">
-                  <Star className="h-4 w-4 fill-yellow-400 text-yellow-400" />
-                  <span className="text-sm text-gray-600">4.8</span>
-                </div>
+                <RatingSummaryBadge
+                  summary={getSummary(product.product_type || 'framed-print', product.frame_style)}
+                />
               </div>
             </CardContent>
 
@@ -26,6 +26,7 @@ import { FramePreview } from '@/components/FramePreview';
 import { formatSizeWithCm } from '@/lib/utils/size-conversion';
 import { formatPrice } from '@/lib/prodigi-v2/utils';
 import { PricingDisplay, type PricingData } from '@/components/shared/PricingDisplay';
+import { PromoCodeInput } from '@/components/shared/PromoCodeInput';
 import { getProductTypeLabelFromProduct } from '@/lib/utils/product-type-labels';
 import { createClient } from '@supabase/supabase-js';
 
@@ -299,13 +300,20 @@ export function ShoppingCart({ onCheckout, showAsModal = false, trigger }: Shopp
                 pricing={{
                   subtotal: totals.subtotal,
                   tax: totals.taxAmount,
-                  total: totals.subtotal + totals.taxAmount, // Excluding shipping (calculated at checkout)
+                  taxInclusive: totals.taxInclusive,
+                  taxLabel: totals.taxName,
+                  discount: totals.discountAmount,
+                  discountLabel: totals.promoCode,
+                  // Excluding shipping (calculated at checkout)
+                  total: (totals.taxInclusive ? totals.subtotal : totals.subtotal + totals.taxAmount) - (totals.discountAmount || 0),
                   currency: totals.currency || 'USD',
                   isPricingLoading: loading,
                 }}
                 showBreakdown={true}
                 showShippingInfo={false} // Shipping calculated at checkout
               />
+
+              <PromoCodeInput />
               
               <div className="bg-amber-50 border border-amber-200 rounded-lg p-2.5">
                 <div className="flex items-start gap-2 text-xs text-amber-800">
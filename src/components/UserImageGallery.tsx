@@ -7,11 +7,12 @@ import { supabase } from '@/lib/supabase/client';
 import { getProxiedImageUrl } from '@/lib/utils/imageProxy';
 import { CreationsModal } from './CreationsModal';
 import { Button } from '@/components/ui/button';
-import { ShoppingCart, XCircle } from 'lucide-react';
+import { Heart, ShoppingCart, XCircle } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { useCart } from '@/contexts/CartContext';
 import { useCartNotification } from './CartNotificationToast';
 import { useStudioStore } from '@/store/studio';
+import { useWishlist } from '@/hooks/useWishlist';
 
 interface UserImage {
   id: string;
@@ -29,9 +30,18 @@ interface UserImageCardProps {
   onImageClick: (image: UserImage) => void;
   onBuyAsFrame: (image: UserImage) => void;
   onOpenAuthModal?: () => void;
+  isWishlisted?: boolean;
+  onToggleWishlist?: (image: UserImage) => void;
 }
 
-function UserImageCard({ image, onImageClick, onBuyAsFrame, onOpenAuthModal }: UserImageCardProps) {
+function UserImageCard({
+  image,
+  onImageClick,
+  onBuyAsFrame,
+  onOpenAuthModal,
+  isWishlisted = false,
+  onToggleWishlist,
+}: UserImageCardProps) {
   const { user } = useAuth();
   // Normalize any DB-stored storage path into a public URL
   const normalizeImageUrl = useCallback((url?: string | null) => {
@@ -78,6 +88,22 @@ function UserImageCard({ image, onImageClick, onBuyAsFrame, onOpenAuthModal }: U
               loading="lazy"
             />
             
+            {/* Wishlist Button - Top Left Corner */}
+            <button
+              type="button"
+              className={`absolute top-2 left-2 rounded-full bg-white/90 p-2 shadow-lg transition-opacity duration-200 hover:bg-white ${
+                isWishlisted ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'
+              }`}
+              onClick={(e) => {
+                e.stopPropagation();
+                onToggleWishlist?.(image);
+              }}
+              aria-label={isWishlisted ? 'Remove from wishlist' : 'Add to wishlist'}
+              aria-pressed={isWishlisted}
+            >
+              <Heart className={`w-4 h-4 ${isWishlisted ? 'fill-red-500 text-red-500' : 'text-gray-700'}`} />
+            </button>
+
             {/* Order Frame Button - Top Right Corner */}
             <div className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity duration-200">
               <Button 
@@ -133,6 +159,7 @@ export function UserImageGallery({ onOpenAuthModal }: UserImageGalleryProps = {}
   const { addToCart } = useCart();
   const { showCartNotification } = useCartNotification();
   const { setImage } = useStudioStore();
+  const { isWishlisted, toggleWishlist } = useWishlist();
   const router = useRouter();
   
   // Debug function - expose to window for testing
@@ -173,6 +200,14 @@ export function UserImageGallery({ onOpenAuthModal }: UserImageGalleryProps = {}
     }
   }, []);
 
+  const handleToggleWishlist = (image: UserImage) => {
+    toggleWishlist({
+      imageUrl: normalizeImageUrl(image.image_url),
+      imageId: image.id,
+      title: image.prompt,
+    });
+  };
+
   // Check for pending cart image after login and redirect to studio
   useEffect(() => {
     if (user) {
@@ -467,6 +502,8 @@ export function UserImageGallery({ onOpenAuthModal }: UserImageGalleryProps = {}
                 onImageClick={handleImageClick}
                 onBuyAsFrame={handleBuyAsFrame}
                 onOpenAuthModal={onOpenAuthModal}
+                isWishlisted={isWishlisted(normalizeImageUrl(image.image_url))}
+                onToggleWishlist={handleToggleWishlist}
               />
             ))}
           </div>
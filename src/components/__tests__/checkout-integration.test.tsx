@@ -362,6 +362,10 @@ describe('Checkout Integration Tests', () => {
         updateQuantity: jest.fn(),
         clearCart: jest.fn(),
         refreshCart: jest.fn(),
+        promoCode: null,
+        promoCodeError: null,
+        applyPromoCode: jest.fn(),
+        removePromoCode: jest.fn(),
         loading: false // Add loading state
       });
 
@@ -421,6 +425,10 @@ describe('Checkout Integration Tests', () => {
         updateQuantity: jest.fn(),
         clearCart: jest.fn(),
         refreshCart: jest.fn(),
+        promoCode: null,
+        promoCodeError: null,
+        applyPromoCode: jest.fn(),
+        removePromoCode: jest.fn(),
         loading: false
       });
 
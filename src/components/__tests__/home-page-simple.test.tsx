@@ -419,9 +419,9 @@ describe('Home Page Components - Production Ready Tests', () => {
       render(<CuratedImageGallery onOpenAuthModal={jest.fn()} />);
       
       // Should handle error gracefully - component should still render
-      // The component renders 1 button per image (Order Frame)
+      // The component renders 1 Order Frame button per image
       // With 2 images, that's 2 buttons total
-      expect(screen.getAllByRole('button')).toHaveLength(2);
+      expect(screen.getAllByRole('button', { name: /order frame/i })).toHaveLength(2);
       
       // Restore original localStorage and console
       localStorage.setItem = originalSetItem;
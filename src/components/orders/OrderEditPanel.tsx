@@ -0,0 +1,203 @@
+/**
+ * Order Edit Panel
+ * Lets customers change the address, upgrade shipping or cancel while the edit window is open
+ */
+
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Clock, MapPin, Truck, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { formatTimeRemaining, type EditableAddress, type EditWindow } from '@/lib/order-edits';
+
+interface OrderEditPanelProps {
+  orderId: string;
+  /** Called after a change so the order can be reloaded */
+  onChanged?: () => void;
+}
+
+const ADDRESS_FIELDS: Array<{ key: keyof EditableAddress; label: string; optional?: boolean }> = [
+  { key: 'name', label: 'Full name' },
+  { key: 'line1', label: 'Address line 1' },
+  { key: 'line2', label: 'Address line 2', optional: true },
+  { key: 'city', label: 'City' },
+  { key: 'state', label: 'State / County', optional: true },
+  { key: 'postalCode', label: 'Postal code' },
+];
+
+export function OrderEditPanel({ orderId, onChanged }: OrderEditPanelProps) {
+  const { session } = useAuth();
+  const { toast } = useToast();
+  const [editWindow, setEditWindow] = useState<EditWindow | null>(null);
+  const [mode, setMode] = useState<'address' | 'shipping' | null>(null);
+  const [address, setAddress] = useState<EditableAddress | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+
+  const loadWindow = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/orders/${orderId}/edits`, {
+        headers: { 'Authorization': `Bearer ${session?.access_token}` },
+      });
+      if (!response.ok) return;
+      const data = await response.json();
+      setEditWindow(data.window);
+      setAddress(data.window.address);
+    } catch (error) {
+      console.error('Error fetching edit window:', error);
+    }
+  }, [orderId, session]);
+
+  useEffect(() => {
+    if (session) loadWindow();
+  }, [session, loadWindow]);
+
+  const expiresAt = editWindow?.expiresAt ? new Date(editWindow.expiresAt).getTime() : null;
+  const remaining = expiresAt ? expiresAt - now : 0;
+
+  // Tick the countdown; once it runs out the panel closes itself
+  useEffect(() => {
+    if (!expiresAt) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [expiresAt]);
+
+  if (!editWindow?.open || remaining <= 0) {
+    return null;
+  }
+
+  const submit = async (body: Record<string, unknown>, success: string) => {
+    setSubmitting(true);
+    try {
+      const response = await fetch(`/api/orders/${orderId}/edits`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session?.access_token}`,
+        },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to change order');
+      }
+
+      if (data.checkoutUrl) {
+        window.location.href = data.checkoutUrl;
+        return;
+      }
+
+      toast({ title: 'Order updated', description: success });
+      setMode(null);
+      await loadWindow();
+      onChanged?.();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to change order',
+        variant: 'destructive',
+      });
+      await loadWindow();
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCancel = () => {
+    if (!window.confirm('Cancel this order? You will be refunded in full.')) return;
+    submit({ action: 'cancel' }, "Your order has been cancelled and refunded.");
+  };
+
+  const formatPrice = (price: number, currency: string) =>
+    new Intl.NumberFormat('en-US', { style: 'currency', currency: currency.toUpperCase() }).format(price);
+
+  return (
+    <Card className="border-amber-200 bg-amber-50/50">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center gap-2">
+          <Clock className="h-4 w-4 text-amber-600" />
+          <span className="font-medium">Need to change something?</span>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          You can make changes for another <span className="font-semibold text-amber-700">{formatTimeRemaining(remaining)}</span>,
+          before your order goes into production.
+        </p>
+
+        <div className="flex flex-wrap gap-2">
+          {editWindow.canChangeAddress && (
+            <Button size="sm" variant="outline" onClick={() => setMode(mode === 'address' ? null : 'address')}>
+              <MapPin className="h-4 w-4 mr-1" />
+              Change address
+            </Button>
+          )}
+          {editWindow.canUpgradeShipping && (
+            <Button size="sm" variant="outline" onClick={() => setMode(mode === 'shipping' ? null : 'shipping')}>
+              <Truck className="h-4 w-4 mr-1" />
+              Faster shipping
+            </Button>
+          )}
+          {editWindow.canCancel && (
+            <Button size="sm" variant="outline" className="text-red-600" onClick={handleCancel} disabled={submitting}>
+              <XCircle className="h-4 w-4 mr-1" />
+              Cancel order
+            </Button>
+          )}
+        </div>
+
+        {mode === 'address' && address && (
+          <div className="space-y-2">
+            {ADDRESS_FIELDS.map(field => (
+              <div key={field.key}>
+                <Label htmlFor={`edit-${field.key}`} className="text-xs">
+                  {field.label}{field.optional && ' (optional)'}
+                </Label>
+                <Input
+                  id={`edit-${field.key}`}
+                  value={address[field.key] || ''}
+                  onChange={(e) => setAddress({ ...address, [field.key]: e.target.value })}
+                />
+              </div>
+            ))}
+            <p className="text-xs text-muted-foreground">
+              Ships to {address.country}; the country can&apos;t be changed after ordering.
+            </p>
+            <Button
+              size="sm"
+              onClick={() => submit({ action: 'address', address }, 'Your order will ship to the new address.')}
+              disabled={submitting}
+            >
+              {submitting ? 'Saving...' : 'Save address'}
+            </Button>
+          </div>
+        )}
+
+        {mode === 'shipping' && (
+          <div className="space-y-2">
+            <p className="text-sm">Currently shipping {editWindow.shippingMethod}.</p>
+            {editWindow.shippingOptions.map(option => (
+              <Button
+                key={option.method}
+                size="sm"
+                variant="outline"
+                className="w-full justify-between"
+                onClick={() => submit(
+                  { action: 'shipping', shippingMethod: option.method },
+                  `Your order will ship ${option.method}.`
+                )}
+                disabled={submitting}
+              >
+                <span>{option.method}</span>
+                <span>{option.price > 0 ? `+${formatPrice(option.price, option.currency)}` : 'Free'}</span>
+              </Button>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
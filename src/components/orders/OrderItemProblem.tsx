@@ -0,0 +1,48 @@
+/**
+ * Order Item Problem
+ * "Report a problem" action for a shipped or delivered order item
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { AlertTriangle, CheckCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ReportProblemForm } from './ReportProblemForm';
+
+interface OrderItemProblemProps {
+  orderId: string;
+  orderItemId: string;
+}
+
+export function OrderItemProblem({ orderId, orderItemId }: OrderItemProblemProps) {
+  const [open, setOpen] = useState(false);
+  const [reported, setReported] = useState(false);
+
+  if (reported) {
+    return (
+      <div className="flex items-center gap-1 text-sm text-green-700">
+        <CheckCircle className="h-4 w-4" />
+        Problem reported
+      </div>
+    );
+  }
+
+  if (!open) {
+    return (
+      <Button variant="outline" size="sm" onClick={() => setOpen(true)}>
+        <AlertTriangle className="h-4 w-4 mr-1" />
+        Report a problem
+      </Button>
+    );
+  }
+
+  return (
+    <ReportProblemForm
+      orderId={orderId}
+      orderItemId={orderItemId}
+      onSubmitted={() => setReported(true)}
+      onCancel={() => setOpen(false)}
+    />
+  );
+}
@@ -0,0 +1,295 @@
+/**
+ * Order Refund Panel
+ * Staff view of an order's refunds and problem reports, with refund and reprint actions
+ */
+
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { PROBLEM_CATEGORIES, type OrderRefund, type ProblemReport } from '@/lib/refunds';
+
+interface RefundPanelItem {
+  id: string;
+  quantity: number;
+  products?: { frame_size?: string; frame_style?: string } | null;
+}
+
+interface OrderRefundPanelProps {
+  orderId: string;
+  currency: string;
+  items: RefundPanelItem[];
+  accessToken?: string;
+  canRefund: boolean;
+  canReprint: boolean;
+  /** Called after a refund or reprint so the order details can be reloaded */
+  onChanged?: () => void;
+}
+
+const refundStatusColors: Record<string, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  succeeded: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  canceled: 'bg-gray-100 text-gray-800',
+};
+
+export function OrderRefundPanel({
+  orderId,
+  currency,
+  items,
+  accessToken,
+  canRefund,
+  canReprint,
+  onChanged,
+}: OrderRefundPanelProps) {
+  const { toast } = useToast();
+  const [refunds, setRefunds] = useState<OrderRefund[]>([]);
+  const [reports, setReports] = useState<ProblemReport[]>([]);
+  // Item id -> amount to refund ('' refunds what's left of the item)
+  const [selected, setSelected] = useState<Record<string, string>>({});
+  const [refundShipping, setRefundShipping] = useState(false);
+  const [reason, setReason] = useState('');
+  const [reportId, setReportId] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const authHeaders = useMemo((): Record<string, string> => (
+    accessToken ? { 'Authorization': `Bearer ${accessToken}` } : {}
+  ), [accessToken]);
+
+  const load = useCallback(async () => {
+    try {
+      const [refundsResponse, reportsResponse] = await Promise.all([
+        fetch(`/api/orders/${orderId}/refunds`, { credentials: 'include', headers: authHeaders }),
+        fetch(`/api/orders/${orderId}/problems`, { credentials: 'include', headers: authHeaders }),
+      ]);
+      if (refundsResponse.ok) setRefunds((await refundsResponse.json()).refunds || []);
+      if (reportsResponse.ok) setReports((await reportsResponse.json()).reports || []);
+    } catch (error) {
+      console.error('Error fetching refunds:', error);
+    }
+  }, [orderId, authHeaders]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const formatAmount = (amount: number) =>
+    new Intl.NumberFormat('en-US', { style: 'currency', currency: currency.toUpperCase() }).format(amount);
+
+  const itemLabel = (orderItemId: string | null) => {
+    const item = items.find(candidate => candidate.id === orderItemId);
+    if (!item) return 'Whole order';
+    const size = item.products?.frame_size?.replace('x', '×');
+    return size ? `${size} ${item.products?.frame_style || ''} frame ×${item.quantity}`.trim() : `Item ×${item.quantity}`;
+  };
+
+  const toggleItem = (orderItemId: string, checked: boolean) => {
+    setSelected(prev => {
+      const next = { ...prev };
+      if (checked) next[orderItemId] = '';
+      else delete next[orderItemId];
+      return next;
+    });
+  };
+
+  const startFromReport = (report: ProblemReport) => {
+    setReportId(report.id);
+    setSelected(report.orderItemId ? { [report.orderItemId]: '' } : {});
+    setReason(`${PROBLEM_CATEGORIES.find(option => option.value === report.category)?.label}: ${report.description}`);
+  };
+
+  const submit = async (path: 'refunds' | 'reprints', body: Record<string, unknown>, success: string) => {
+    if (!reason.trim()) {
+      toast({ title: 'Reason required', description: 'Add a reason for the audit log.', variant: 'destructive' });
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const response = await fetch(`/api/orders/${orderId}/${path}`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json', ...authHeaders },
+        body: JSON.stringify({ ...body, reason, reportId: reportId ?? undefined }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to create ${path}`);
+      }
+
+      toast({ title: 'Done', description: success });
+      setSelected({});
+      setRefundShipping(false);
+      setReason('');
+      setReportId(null);
+      await load();
+      onChanged?.();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Request failed',
+        variant: 'destructive',
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const refundSelected = () => submit(
+    'refunds',
+    {
+      items: Object.entries(selected).map(([orderItemId, amount]) => ({
+        orderItemId,
+        amount: amount === '' ? undefined : Number(amount),
+      })),
+      shipping: refundShipping,
+    },
+    'Refund sent to Stripe'
+  );
+
+  const refundEverything = () => {
+    if (!window.confirm('Refund everything that is left on this order and cancel fulfillment if possible?')) return;
+    submit('refunds', { full: true }, 'Order refunded');
+  };
+
+  const reprintSelected = () => {
+    const [orderItemId] = Object.keys(selected);
+    submit('reprints', { orderItemId }, 'Reprint sent to Prodigi');
+  };
+
+  const selectedCount = Object.keys(selected).length;
+  const openReports = reports.filter(report => report.status === 'open');
+
+  return (
+    <div className="space-y-4">
+      {openReports.length > 0 && (
+        <div>
+          <h3 className="font-semibold">Problem Reports</h3>
+          <div className="space-y-2">
+            {openReports.map(report => (
+              <div key={report.id} className="rounded border p-2 text-sm">
+                <div className="flex items-center justify-between gap-2">
+                  <div>
+                    <Badge variant="outline">
+                      {PROBLEM_CATEGORIES.find(option => option.value === report.category)?.label}
+                    </Badge>
+                    <span className="ml-2 text-gray-600">{itemLabel(report.orderItemId)}</span>
+                  </div>
+                  {(canRefund || canReprint) && (
+                    <Button size="sm" variant="outline" onClick={() => startFromReport(report)}>
+                      Resolve
+                    </Button>
+                  )}
+                </div>
+                <p className="mt-1">{report.description}</p>
+                {report.photos.length > 0 && (
+                  <div className="mt-2 flex gap-2">
+                    {report.photos.map(url => (
+                      <a key={url} href={url} target="_blank" rel="noopener noreferrer">
+                        {/* eslint-disable-next-line @next/next/no-img-element */}
+                        <img src={url} alt="Problem photo" className="h-16 w-16 rounded object-cover" />
+                      </a>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {refunds.length > 0 && (
+        <div>
+          <h3 className="font-semibold">Refunds</h3>
+          <div className="space-y-1">
+            {refunds.map(refund => (
+              <div key={refund.id} className="flex items-center gap-2 text-sm">
+                <Badge className={refundStatusColors[refund.status]}>{refund.status}</Badge>
+                <span className="font-medium">{formatAmount(refund.amount)}</span>
+                <span className="text-gray-500">{new Date(refund.createdAt).toLocaleDateString()}</span>
+                {refund.reason && <span className="text-gray-500">- {refund.reason}</span>}
+                {refund.failureReason && <span className="text-red-600">({refund.failureReason})</span>}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {(canRefund || canReprint) && (
+        <div className="space-y-3 rounded border p-3">
+          <h3 className="font-semibold">Refund or Reprint</h3>
+          {reportId && <p className="text-xs text-gray-500">Resolving a problem report</p>}
+          <div className="space-y-2">
+            {items.map(item => (
+              <div key={item.id} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  id={`refund-item-${item.id}`}
+                  checked={item.id in selected}
+                  onCheckedChange={(checked) => toggleItem(item.id, checked === true)}
+                />
+                <Label htmlFor={`refund-item-${item.id}`} className="flex-1 font-normal">
+                  {itemLabel(item.id)}
+                </Label>
+                {canRefund && item.id in selected && (
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder="Full item"
+                    value={selected[item.id]}
+                    onChange={(e) => setSelected(prev => ({ ...prev, [item.id]: e.target.value }))}
+                    className="h-8 w-28"
+                    aria-label="Amount to refund"
+                  />
+                )}
+              </div>
+            ))}
+            {canRefund && (
+              <div className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  id="refund-shipping"
+                  checked={refundShipping}
+                  onCheckedChange={(checked) => setRefundShipping(checked === true)}
+                />
+                <Label htmlFor="refund-shipping" className="font-normal">Refund shipping</Label>
+              </div>
+            )}
+          </div>
+          <Textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Reason"
+            rows={2}
+          />
+          <div className="flex flex-wrap gap-2">
+            {canRefund && (
+              <Button
+                size="sm"
+                onClick={refundSelected}
+                disabled={submitting || (selectedCount === 0 && !refundShipping)}
+              >
+                Refund selected
+              </Button>
+            )}
+            {canReprint && (
+              <Button size="sm" variant="outline" onClick={reprintSelected} disabled={submitting || selectedCount !== 1}>
+                Reprint item
+              </Button>
+            )}
+            {canRefund && (
+              <Button size="sm" variant="destructive" onClick={refundEverything} disabled={submitting}>
+                Refund everything
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+/**
+ * Report Problem Form
+ * What went wrong with a shipped order item, with up to four photos
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { ImagePlus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import {
+  MAX_PROBLEM_PHOTOS,
+  PHOTO_REQUIRED_CATEGORIES,
+  PROBLEM_CATEGORIES,
+  type ProblemCategory,
+  type ProblemReport,
+} from '@/lib/refunds';
+
+interface ReportProblemFormProps {
+  orderId: string;
+  orderItemId: string;
+  onSubmitted?: (report: ProblemReport) => void;
+  onCancel?: () => void;
+}
+
+export function ReportProblemForm({ orderId, orderItemId, onSubmitted, onCancel }: ReportProblemFormProps) {
+  const { session } = useAuth();
+  const { toast } = useToast();
+  const [category, setCategory] = useState<ProblemCategory | ''>('');
+  const [description, setDescription] = useState('');
+  const [photos, setPhotos] = useState<Array<{ file: File; preview: string }>>([]);
+  const [submitting, setSubmitting] = useState(false);
+
+  // Photos upload with the report, so previews are local until then
+  useEffect(() => () => photos.forEach(photo => URL.revokeObjectURL(photo.preview)), [photos]);
+
+  const photoRequired = category !== '' && PHOTO_REQUIRED_CATEGORIES.includes(category);
+
+  const handlePhotoSelect = (files: FileList | null) => {
+    if (!files?.length) return;
+    const added = Array.from(files)
+      .filter(file => file.type.startsWith('image/'))
+      .slice(0, MAX_PROBLEM_PHOTOS - photos.length)
+      .map(file => ({ file, preview: URL.createObjectURL(file) }));
+    setPhotos(prev => [...prev, ...added]);
+  };
+
+  const handleSubmit = async () => {
+    if (!category || !description.trim()) {
+      toast({ title: 'Missing details', description: 'Tell us what went wrong.', variant: 'destructive' });
+      return;
+    }
+    if (photoRequired && photos.length === 0) {
+      toast({ title: 'Photo required', description: 'Please add a photo of the problem.', variant: 'destructive' });
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const formData = new FormData();
+      formData.append('orderItemId', orderItemId);
+      formData.append('category', category);
+      formData.append('description', description);
+      photos.forEach(photo => formData.append('photos', photo.file));
+
+      const response = await fetch(`/api/orders/${orderId}/problems`, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${session?.access_token}` },
+        body: formData,
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to report problem');
+      }
+
+      toast({ title: 'Thanks for letting us know', description: "We'll look into it and get back to you." });
+      onSubmitted?.(data.report);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to report problem',
+        variant: 'destructive',
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <select
+        value={category}
+        onChange={(e) => setCategory(e.target.value as ProblemCategory)}
+        className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+        aria-label="What went wrong"
+      >
+        <option value="" disabled>What went wrong?</option>
+        {PROBLEM_CATEGORIES.map(option => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+
+      <textarea
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+        placeholder="Describe the problem"
+        maxLength={2000}
+        rows={3}
+        className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+        aria-label="Problem description"
+      />
+
+      <div className="flex flex-wrap gap-2">
+        {photos.map((photo) => (
+          <div key={photo.preview} className="relative">
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img src={photo.preview} alt="Problem photo" className="h-16 w-16 rounded object-cover" />
+            <button
+              type="button"
+              onClick={() => setPhotos(prev => prev.filter(candidate => candidate !== photo))}
+              className="absolute -top-1.5 -right-1.5 rounded-full bg-white p-0.5 shadow"
+              aria-label="Remove photo"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </div>
+        ))}
+        {photos.length < MAX_PROBLEM_PHOTOS && (
+          <label className="flex h-16 w-16 cursor-pointer items-center justify-center rounded border border-dashed border-gray-300 text-gray-500 hover:bg-gray-50">
+            <ImagePlus className="h-5 w-5" />
+            <input
+              type="file"
+              accept="image/*"
+              multiple
+              className="hidden"
+              onChange={(e) => handlePhotoSelect(e.target.files)}
+            />
+          </label>
+        )}
+      </div>
+      {photoRequired && (
+        <p className="text-xs text-gray-500">A photo helps us arrange a reprint or refund quickly.</p>
+      )}
+
+      <div className="flex gap-2">
+        <Button onClick={handleSubmit} disabled={submitting}>
+          {submitting ? 'Sending...' : 'Send report'}
+        </Button>
+        {onCancel && (
+          <Button variant="outline" onClick={onCancel} disabled={submitting}>
+            Cancel
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
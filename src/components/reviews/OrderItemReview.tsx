@@ -0,0 +1,49 @@
+/**
+ * Order Item Review
+ * "Write a review" action for a delivered order item
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { CheckCircle, Star } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ProductReviewForm } from './ProductReviewForm';
+
+interface OrderItemReviewProps {
+  productId: string;
+  orderId: string;
+  reviewed: boolean;
+  onReviewed: (productId: string, orderId: string) => void;
+}
+
+export function OrderItemReview({ productId, orderId, reviewed, onReviewed }: OrderItemReviewProps) {
+  const [open, setOpen] = useState(false);
+
+  if (reviewed) {
+    return (
+      <div className="flex items-center gap-1 text-sm text-green-700">
+        <CheckCircle className="h-4 w-4" />
+        Reviewed
+      </div>
+    );
+  }
+
+  if (!open) {
+    return (
+      <Button variant="outline" size="sm" onClick={() => setOpen(true)}>
+        <Star className="h-4 w-4 mr-1" />
+        Write a review
+      </Button>
+    );
+  }
+
+  return (
+    <ProductReviewForm
+      productId={productId}
+      orderId={orderId}
+      onSubmitted={() => onReviewed(productId, orderId)}
+      onCancel={() => setOpen(false)}
+    />
+  );
+}
@@ -0,0 +1,163 @@
+/**
+ * Product Review Form
+ * Star rating, title, comment and up to four photos for a delivered order item
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { ImagePlus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { MAX_REVIEW_PHOTOS, type ProductReview } from '@/lib/reviews';
+import { StarRating } from './StarRating';
+
+interface ProductReviewFormProps {
+  productId: string;
+  orderId: string;
+  onSubmitted?: (review: ProductReview) => void;
+  onCancel?: () => void;
+}
+
+export function ProductReviewForm({ productId, orderId, onSubmitted, onCancel }: ProductReviewFormProps) {
+  const { session } = useAuth();
+  const { toast } = useToast();
+  const [rating, setRating] = useState(0);
+  const [title, setTitle] = useState('');
+  const [comment, setComment] = useState('');
+  const [photos, setPhotos] = useState<string[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  const authHeader = { 'Authorization': `Bearer ${session?.access_token}` };
+
+  const handlePhotoSelect = async (files: FileList | null) => {
+    if (!files?.length) return;
+
+    setUploading(true);
+    try {
+      for (const file of Array.from(files).slice(0, MAX_REVIEW_PHOTOS - photos.length)) {
+        const formData = new FormData();
+        formData.append('file', file);
+
+        const response = await fetch('/api/reviews/photos', {
+          method: 'POST',
+          headers: authHeader,
+          body: formData,
+        });
+        const data = await response.json().catch(() => ({}));
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to upload photo');
+        }
+        setPhotos(prev => [...prev, data.url]);
+      }
+    } catch (error) {
+      toast({
+        title: 'Upload failed',
+        description: error instanceof Error ? error.message : 'Failed to upload photo',
+        variant: 'destructive',
+      });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (rating === 0) {
+      toast({ title: 'Rating required', description: 'Please choose a star rating.', variant: 'destructive' });
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const response = await fetch('/api/reviews', {
+        method: 'POST',
+        headers: { ...authHeader, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ productId, orderId, rating, title, comment, images: photos }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to submit review');
+      }
+
+      toast({ title: 'Thanks for your review!', description: 'Your review has been published.' });
+      onSubmitted?.(data.review);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to submit review',
+        variant: 'destructive',
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <StarRating value={rating} onChange={setRating} size="lg" />
+
+      <Input
+        value={title}
+        onChange={(e) => setTitle(e.target.value)}
+        placeholder="Headline (optional)"
+        maxLength={255}
+        aria-label="Review headline"
+      />
+
+      <textarea
+        value={comment}
+        onChange={(e) => setComment(e.target.value)}
+        placeholder="How does it look on your wall?"
+        maxLength={5000}
+        rows={4}
+        className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+        aria-label="Review"
+      />
+
+      <div className="flex flex-wrap gap-2">
+        {photos.map((url) => (
+          <div key={url} className="relative">
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img src={url} alt="Review photo" className="h-16 w-16 rounded object-cover" />
+            <button
+              type="button"
+              onClick={() => setPhotos(prev => prev.filter(photo => photo !== url))}
+              className="absolute -top-1.5 -right-1.5 rounded-full bg-white p-0.5 shadow"
+              aria-label="Remove photo"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </div>
+        ))}
+        {photos.length < MAX_REVIEW_PHOTOS && (
+          <label className="flex h-16 w-16 cursor-pointer items-center justify-center rounded border border-dashed border-gray-300 text-gray-500 hover:bg-gray-50">
+            <ImagePlus className="h-5 w-5" />
+            <input
+              type="file"
+              accept="image/*"
+              multiple
+              className="hidden"
+              disabled={uploading}
+              onChange={(e) => handlePhotoSelect(e.target.files)}
+            />
+          </label>
+        )}
+      </div>
+      {uploading && <p className="text-xs text-gray-500">Uploading photos...</p>}
+
+      <div className="flex gap-2">
+        <Button onClick={handleSubmit} disabled={submitting || uploading}>
+          {submitting ? 'Submitting...' : 'Submit review'}
+        </Button>
+        {onCancel && (
+          <Button variant="outline" onClick={onCancel} disabled={submitting}>
+            Cancel
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
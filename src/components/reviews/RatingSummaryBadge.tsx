@@ -0,0 +1,31 @@
+/**
+ * Rating Summary Badge
+ * Average rating and review count for a product type / frame style
+ */
+
+'use client';
+
+import type { RatingSummary } from '@/lib/reviews';
+import { StarRating } from './StarRating';
+
+interface RatingSummaryBadgeProps {
+  summary: RatingSummary | null;
+  showStars?: boolean;
+  className?: string;
+}
+
+export function RatingSummaryBadge({ summary, showStars = true, className = '' }: RatingSummaryBadgeProps) {
+  if (!summary || summary.reviewCount === 0) {
+    return null;
+  }
+
+  return (
+    <div className={`flex items-center gap-1.5 text-sm text-gray-600 ${className}`}>
+      {showStars && <StarRating value={summary.averageRating} size="sm" />}
+      <span className="font-medium text-gray-900">{summary.averageRating.toFixed(1)}</span>
+      <span>
+        ({summary.reviewCount} review{summary.reviewCount === 1 ? '' : 's'})
+      </span>
+    </div>
+  );
+}
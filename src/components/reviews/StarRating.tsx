@@ -0,0 +1,53 @@
+/**
+ * Star Rating
+ * Read-only star display, or a 1-5 picker when onChange is passed
+ */
+
+'use client';
+
+import { Star } from 'lucide-react';
+
+interface StarRatingProps {
+  value: number;
+  onChange?: (value: number) => void;
+  size?: 'sm' | 'md' | 'lg';
+  className?: string;
+}
+
+const SIZES = {
+  sm: 'h-3.5 w-3.5',
+  md: 'h-4 w-4',
+  lg: 'h-6 w-6',
+};
+
+export function StarRating({ value, onChange, size = 'md', className = '' }: StarRatingProps) {
+  return (
+    <div
+      className={`flex items-center gap-0.5 ${className}`}
+      role={onChange ? 'radiogroup' : 'img'}
+      aria-label={onChange ? 'Rating' : `${value.toFixed(1)} out of 5 stars`}
+    >
+      {[1, 2, 3, 4, 5].map((star) => {
+        const filled = value >= star - 0.25;
+        const icon = (
+          <Star className={`${SIZES[size]} ${filled ? 'fill-yellow-400 text-yellow-400' : 'text-gray-300'}`} />
+        );
+
+        return onChange ? (
+          <button
+            key={star}
+            type="button"
+            role="radio"
+            aria-checked={Math.round(value) === star}
+            aria-label={`${star} star${star > 1 ? 's' : ''}`}
+            onClick={() => onChange(star)}
+          >
+            {icon}
+          </button>
+        ) : (
+          <span key={star}>{icon}</span>
+        );
+      })}
+    </div>
+  );
+}
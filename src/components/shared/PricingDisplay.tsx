@@ -20,6 +20,10 @@ export interface PricingData {
   // Item pricing
   subtotal: number; // Items cost (frame & print)
   tax?: number;
+  taxInclusive?: boolean; // Tax already included in subtotal (VAT/GST markets)
+  taxLabel?: string; // "VAT", "GST", "Sales tax"
+  discount?: number; // Promo code discount (already subtracted from total)
+  discountLabel?: string; // e.g. the promo code
   total: number;
   
   // Shipping
@@ -183,9 +187,22 @@ export function PricingDisplay({
             </span>
           </div>
 
+          {pricing.discount !== undefined && pricing.discount > 0 && (
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-green-700 font-medium">
+                Discount{pricing.discountLabel ? ` (${pricing.discountLabel})` : ''}
+              </span>
+              <span className="font-bold text-green-700">
+                -{formatPrice(pricing.discount, pricing.currency)}
+              </span>
+            </div>
+          )}
+
           {pricing.tax !== undefined && pricing.tax > 0 && (
             <div className="flex items-center justify-between text-sm">
-              <span className="text-gray-700 font-medium">Tax</span>
+              <span className="text-gray-700 font-medium">
+                {pricing.taxInclusive ? `Includes ${pricing.taxLabel || 'tax'}` : pricing.taxLabel || 'Tax'}
+              </span>
               <span className="font-bold text-gray-900">
                 {formatPrice(pricing.tax, pricing.currency)}
               </span>
@@ -0,0 +1,94 @@
+/**
+ * Promo Code Input
+ * Applies/removes a promo code on the cart (shared by CartModal, ShoppingCart and CheckoutFlow)
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { Tag, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useCart } from '@/contexts/CartContext';
+
+interface PromoCodeInputProps {
+  /** Called after a code is applied or removed (e.g. to refetch a locally held cart) */
+  onChange?: () => void;
+  className?: string;
+}
+
+export function PromoCodeInput({ onChange, className = '' }: PromoCodeInputProps) {
+  const { promoCode, promoCodeError, applyPromoCode, removePromoCode, cartData } = useCart();
+  const [code, setCode] = useState('');
+  const [applying, setApplying] = useState(false);
+
+  const handleApply = async () => {
+    if (!code.trim()) return;
+
+    setApplying(true);
+    try {
+      const applied = await applyPromoCode(code);
+      if (applied) {
+        setCode('');
+      }
+      onChange?.();
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    await removePromoCode();
+    onChange?.();
+  };
+
+  if (promoCode) {
+    const discount = cartData?.discount;
+    return (
+      <div className={`flex items-center justify-between rounded-lg border border-green-200 bg-green-50 px-3 py-2 text-sm ${className}`}>
+        <span className="flex items-center gap-2 text-green-800">
+          <Tag className="h-4 w-4" />
+          <span className="font-medium">{promoCode}</span>
+          {discount?.type === 'free_shipping' && <span className="text-xs">Free shipping</span>}
+          {discount?.description && discount.type !== 'free_shipping' && (
+            <span className="text-xs">{discount.description}</span>
+          )}
+        </span>
+        <button
+          onClick={handleRemove}
+          className="text-green-700 hover:text-green-900"
+          aria-label={`Remove promo code ${promoCode}`}
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className={className}>
+      <div className="flex gap-2">
+        <Input
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleApply();
+            }
+          }}
+          placeholder="Promo code"
+          maxLength={50}
+          className="uppercase"
+          aria-label="Promo code"
+        />
+        <Button variant="outline" onClick={handleApply} disabled={applying || !code.trim()}>
+          {applying ? 'Applying...' : 'Apply'}
+        </Button>
+      </div>
+      {promoCodeError && (
+        <p className="mt-1 text-xs text-red-600">{promoCodeError}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+/**
+ * Conversation History Component
+ * Lists saved studio chats with retention and deletion controls
+ */
+
+'use client';
+
+import type { ChatRetentionDays, StudioConversationSummary } from '@/lib/studio/conversations';
+
+interface ConversationHistoryProps {
+  conversations: StudioConversationSummary[];
+  activeConversationId: string | null;
+  retentionDays: ChatRetentionDays;
+  retentionOptions: number[];
+  loading: boolean;
+  onSelect: (id: string) => void;
+  onDelete: (id: string) => void;
+  onDeleteAll: () => void;
+  onNewChat: () => void;
+  onRetentionChange: (days: ChatRetentionDays) => void;
+  onClose: () => void;
+}
+
+function formatLastMessage(date: string): string {
+  return new Date(date).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+}
+
+export function ConversationHistory({
+  conversations,
+  activeConversationId,
+  retentionDays,
+  retentionOptions,
+  loading,
+  onSelect,
+  onDelete,
+  onDeleteAll,
+  onNewChat,
+  onRetentionChange,
+  onClose,
+}: ConversationHistoryProps) {
+  return (
+    <div className="absolute inset-0 z-20 flex flex-col bg-white">
+      <div className="flex items-center justify-between border-b border-gray-200 px-4 py-3">
+        <h3 className="text-sm font-semibold text-gray-900">Chat history</h3>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={onNewChat}
+            className="px-3 py-1.5 text-xs font-semibold text-white rounded-full bg-black hover:bg-gray-800 transition-colors"
+          >
+            New chat
+          </button>
+          <button
+            onClick={onClose}
+            aria-label="Close chat history"
+            className="w-8 h-8 rounded-full flex items-center justify-center text-gray-500 hover:bg-gray-100"
+          >
+            ✕
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {loading && conversations.length === 0 ? (
+          <p className="px-4 py-6 text-sm text-gray-500">Loading conversations...</p>
+        ) : conversations.length === 0 ? (
+          <p className="px-4 py-6 text-sm text-gray-500">No saved conversations yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {conversations.map((conversation) => (
+              <li
+                key={conversation.id}
+                className={`flex items-center gap-2 px-4 py-3 ${
+                  conversation.id === activeConversationId ? 'bg-gray-50' : 'hover:bg-gray-50'
+                }`}
+              >
+                <button
+                  onClick={() => onSelect(conversation.id)}
+                  className="flex-1 min-w-0 text-left"
+                >
+                  <p className="truncate text-sm font-medium text-gray-900">{conversation.title}</p>
+                  <p className="text-xs text-gray-500">
+                    {formatLastMessage(conversation.lastMessageAt)} · {conversation.messageCount} messages
+                  </p>
+                </button>
+                <button
+                  onClick={() => onDelete(conversation.id)}
+                  aria-label={`Delete "${conversation.title}"`}
+                  className="flex-shrink-0 px-2 py-1 text-xs text-gray-500 rounded hover:bg-red-50 hover:text-red-600"
+                >
+                  Delete
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="border-t border-gray-200 px-4 py-3 space-y-3">
+        <label className="flex items-center justify-between gap-2 text-xs text-gray-700">
+          <span>Delete inactive chats after</span>
+          <select
+            value={retentionDays ?? ''}
+            onChange={(e) => onRetentionChange(e.target.value ? (Number(e.target.value) as ChatRetentionDays) : null)}
+            className="rounded border border-gray-300 bg-white px-2 py-1 text-xs text-gray-900"
+          >
+            {retentionOptions.map((days) => (
+              <option key={days} value={days}>
+                {days === 365 ? '1 year' : `${days} days`}
+              </option>
+            ))}
+            <option value="">Never</option>
+          </select>
+        </label>
+        {conversations.length > 0 && (
+          <button
+            onClick={onDeleteAll}
+            className="w-full px-3 py-1.5 text-xs font-semibold text-red-600 rounded-full border border-red-200 hover:bg-red-50 transition-colors"
+          >
+            Delete all chat history
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
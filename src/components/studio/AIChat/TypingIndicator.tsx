@@ -5,7 +5,12 @@
 
 'use client';
 
-export function TypingIndicator() {
+interface TypingIndicatorProps {
+  /** What the assistant is doing, e.g. which agent is running */
+  label?: string;
+}
+
+export function TypingIndicator({ label = 'AI is thinking...' }: TypingIndicatorProps) {
   return (
     <div className="flex justify-start">
       <div className="bg-gray-100 rounded-2xl px-4 py-3">
@@ -24,7 +29,7 @@ export function TypingIndicator() {
               style={{ animationDelay: '300ms' }}
             />
           </div>
-          <span className="text-xs text-gray-500">AI is thinking...</span>
+          <span className="text-xs text-gray-500">{label}</span>
         </div>
       </div>
     </div>
@@ -7,11 +7,16 @@
 
 import { useStudioStore, type FrameConfiguration, type AIChatSuggestion, type ConfigurationChangeData } from '@/store/studio';
 import { useEffect, useRef, useState } from 'react';
+import { useStudioConversations } from '@/hooks/useStudioConversations';
+import type { StudioMessage } from '@/lib/studio/conversations';
+import type { ChatReply } from '@/lib/studio/chat-reply';
+import { CHAT_STREAM_CONTENT_TYPE, createChatStreamParser, type ChatStreamEvent } from '@/lib/studio/chat-stream';
 import { Message } from './Message';
 import { QuickActions } from './QuickActions';
 import { TypingIndicator } from './TypingIndicator';
 import { SuggestionCard } from './SuggestionCard';
 import { ConfigurationChange } from './ConfigurationChange';
+import { ConversationHistory } from './ConversationHistory';
 
 interface ChatMessage {
   id: string;
@@ -35,6 +40,45 @@ interface ChatMessage {
   };
 }
 
+const AGENT_LABELS: Record<string, string> = {
+  'frame-advisor': 'Frame advisor',
+  'prodigi-config': 'Product specialist',
+  'pricing-advisor': 'Pricing advisor',
+  'image-generation': 'Art generator',
+};
+
+/**
+ * Status line for a progress event while the reply streams
+ */
+function describeProgress(event: ChatStreamEvent): string | null {
+  switch (event.type) {
+    case 'agents_selected':
+      return `Asking ${event.agents.map((agent) => AGENT_LABELS[agent] || agent).join(', ')}...`;
+    case 'agent_start':
+      return `${AGENT_LABELS[event.agent] || event.agent} is thinking...`;
+    case 'tool_call':
+      return `${AGENT_LABELS[event.agent] || event.agent} is running ${event.toolName}...`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Rebuild a chat message from a stored one. Ids keep the `<role>-<timestamp>`
+ * shape the transcript is ordered by.
+ */
+function toChatMessage(message: StudioMessage): ChatMessage {
+  return {
+    id: `${message.role}-${new Date(message.createdAt).getTime()}`,
+    role: message.role,
+    content: message.content,
+    suggestions: message.suggestions,
+    showLifestyleImages: message.metadata.showLifestyleImages || false,
+    comparison: message.metadata.comparison || undefined,
+    imageSuggestions: message.metadata.imageSuggestions || undefined,
+  };
+}
+
 export function AIChat() {
   const { 
     config, 
@@ -44,75 +88,220 @@ export function AIChat() {
     rejectSuggestion,
     configurationChanges,
     revertToConfiguration,
+    conversationId,
+    setConversationId,
+    clearPendingSuggestions,
   } = useStudioStore();
+  const {
+    conversations,
+    retentionDays,
+    retentionOptions,
+    loading: conversationsLoading,
+    isSignedIn,
+    authToken,
+    refreshConversations,
+    loadConversation,
+    deleteConversation,
+    deleteAllConversations,
+    updateRetention,
+  } = useStudioConversations();
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const [showVoiceInput, setShowVoiceInput] = useState(false);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [applyingSuggestionId, setApplyingSuggestionId] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [progressLabel, setProgressLabel] = useState<string | null>(null);
+  const restoredConversationRef = useRef<string | null>(null);
+
+  /**
+   * Send the transcript to the chat API. Signed-in chats are stored under the
+   * conversation id the API returns.
+   */
+  const postChat = (transcript: ChatMessage[]) =>
+    fetch('/api/studio/chat', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': CHAT_STREAM_CONTENT_TYPE,
+        ...(authToken ? { 'Authorization': `Bearer ${authToken}` } : {}),
+      },
+      body: JSON.stringify({
+        messages: transcript.map((m) => ({
+          role: m.role,
+          content: m.content,
+        })),
+        frameConfig: config,
+        imageAnalysis: config.imageAnalysis,
+        conversationId: isSignedIn ? conversationId : null,
+      }),
+    });
+
+  const rememberConversation = (id: string | null | undefined) => {
+    if (id && id !== conversationId) {
+      restoredConversationRef.current = id;
+      setConversationId(id);
+      refreshConversations();
+    }
+  };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!input.trim() || isLoading) return;
+  const openConversation = async (id: string, restoreConfig: boolean) => {
+    const conversation = await loadConversation(id);
+    if (!conversation) {
+      setConversationId(null);
+      return;
+    }
+
+    restoredConversationRef.current = conversation.id;
+    setConversationId(conversation.id);
+    setMessages(conversation.messages.map(toChatMessage));
+
+    clearPendingSuggestions();
+    conversation.checkpoint.suggestions.forEach((suggestion) => addPendingSuggestion(suggestion));
+    if (restoreConfig && conversation.checkpoint.frameConfig) {
+      updateConfig(conversation.checkpoint.frameConfig);
+    }
+  };
+
+  const handleSelectConversation = async (id: string) => {
+    setShowHistory(false);
+    if (id !== conversationId || messages.length === 0) {
+      await openConversation(id, true);
+    }
+  };
+
+  const handleNewChat = () => {
+    restoredConversationRef.current = null;
+    setConversationId(null);
+    setMessages([]);
+    clearPendingSuggestions();
+    setShowHistory(false);
+  };
+
+  const handleDeleteConversation = async (id: string) => {
+    const deleted = await deleteConversation(id);
+    if (deleted && id === conversationId) {
+      handleNewChat();
+    }
+  };
+
+  const handleDeleteAllConversations = async () => {
+    if (!window.confirm('Delete all of your studio chat history?')) return;
+    if (await deleteAllConversations()) {
+      handleNewChat();
+    }
+  };
+
+  // Resume the stored conversation after a reload
+  useEffect(() => {
+    if (!isSignedIn || !conversationId || restoredConversationRef.current === conversationId) return;
+    restoredConversationRef.current = conversationId;
+    openConversation(conversationId, false);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isSignedIn, conversationId]);
+
+  /**
+   * Add to (or start) the assistant message being streamed
+   */
+  const updateStreamingMessage = (id: string, update: (message: ChatMessage) => ChatMessage) => {
+    setMessages((prev) =>
+      prev.some((m) => m.id === id)
+        ? prev.map((m) => (m.id === id ? update(m) : m))
+        : [...prev, update({ id, role: 'assistant', content: '', suggestions: [] })]
+    );
+  };
+
+  /**
+   * Render a streamed reply as it arrives and resolve with the final one
+   */
+  const readChatStream = async (body: ReadableStream<Uint8Array>, messageId: string): Promise<ChatReply> => {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let reply: ChatReply | null = null;
+
+    const parser = createChatStreamParser((event) => {
+      switch (event.type) {
+        case 'token':
+          setProgressLabel(null);
+          updateStreamingMessage(messageId, (m) => ({ ...m, content: m.content + event.text }));
+          break;
+        case 'suggestion':
+          updateStreamingMessage(messageId, (m) => ({
+            ...m,
+            suggestions: [...(m.suggestions || []), event.suggestion],
+          }));
+          break;
+        case 'done':
+          reply = event.reply;
+          break;
+        default:
+          setProgressLabel(describeProgress(event));
+      }
+    });
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      parser.push(decoder.decode(value, { stream: true }));
+    }
+
+    if (!reply) {
+      throw new Error('Chat stream ended without a reply');
+    }
+    return reply;
+  };
+
+  const sendMessage = async (content: string) => {
+    if (!content.trim() || isLoading) return;
 
     const userMessage: ChatMessage = {
       id: `user-${Date.now()}`,
       role: 'user',
-      content: input.trim(),
+      content: content.trim(),
     };
+    const assistantMessageId = `assistant-${Date.now()}`;
 
     setMessages((prev) => [...prev, userMessage]);
     setInput('');
     setIsLoading(true);
+    setProgressLabel(null);
 
     try {
-      const response = await fetch('/api/studio/chat', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          messages: [...messages, userMessage].map((m) => ({
-            role: m.role,
-            content: m.content,
-          })),
-          frameConfig: config,
-          imageAnalysis: config.imageAnalysis,
-        }),
-      });
-
-      if (response.ok) {
-        const data = await response.json();
-
-        // Add assistant message with suggestions, comparison, and image suggestions
-        const assistantMessage: ChatMessage = {
-          id: `assistant-${Date.now()}`,
-          role: 'assistant',
-          content: data.content || 'I apologize, I encountered an error.',
-          suggestions: data.suggestions || [],
-          productType: config.productType || 'framed-print',
-          showLifestyleImages: data.showLifestyleImages || false,
-          comparison: data.comparison || undefined,
-          imageSuggestions: data.imageSuggestions || undefined,
-        };
+      const response = await postChat([...messages, userMessage]);
 
-        setMessages((prev) => [...prev, assistantMessage]);
-
-        // Add suggestions to pending list
-        if (data.suggestions && data.suggestions.length > 0) {
-          data.suggestions.forEach((suggestion: AIChatSuggestion) => {
-            addPendingSuggestion(suggestion);
-          });
-        }
-
-        // Handle function calls AFTER displaying message (deprecated in favor of suggestions)
-        if (data.function_call) {
-          await handleFunctionCall(data.function_call);
-        }
-      } else {
+      if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
         console.error('Chat API error:', errorData);
         throw new Error('Failed to get response');
       }
+
+      const isStream = response.headers.get('content-type')?.includes(CHAT_STREAM_CONTENT_TYPE);
+      const reply: ChatReply & { function_call?: any } = isStream && response.body
+        ? await readChatStream(response.body, assistantMessageId)
+        : await response.json();
+      rememberConversation(reply.conversationId);
+
+      // Replace the streamed message with the final reply, comparison and image suggestions
+      updateStreamingMessage(assistantMessageId, (m) => ({
+        ...m,
+        content: reply.content || 'I apologize, I encountered an error.',
+        suggestions: reply.suggestions || [],
+        productType: config.productType || 'framed-print',
+        showLifestyleImages: reply.showLifestyleImages || false,
+        comparison: reply.comparison || undefined,
+        imageSuggestions: reply.imageSuggestions || undefined,
+      }));
+
+      // Add suggestions to pending list
+      (reply.suggestions || []).forEach((suggestion: AIChatSuggestion) => {
+        addPendingSuggestion(suggestion);
+      });
+
+      // Handle function calls AFTER displaying message (deprecated in favor of suggestions)
+      if (reply.function_call) {
+        await handleFunctionCall(reply.function_call);
+      }
     } catch (error) {
       console.error('Error in chat:', error);
       const errorMessage: ChatMessage = {
@@ -120,12 +309,18 @@ export function AIChat() {
         role: 'assistant',
         content: 'I apologize, I encountered an error. Please try again.',
       };
-      setMessages((prev) => [...prev, errorMessage]);
+      setMessages((prev) => [...prev.filter((m) => m.id !== assistantMessageId), errorMessage]);
     } finally {
       setIsLoading(false);
+      setProgressLabel(null);
     }
   };
 
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    sendMessage(input);
+  };
+
   const handleInputChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     setInput(e.target.value);
   };
@@ -272,65 +467,54 @@ export function AIChat() {
     setMessages((prev) => [...prev, confirmMessage]);
   };
 
-  const handleQuickAction = async (action: string) => {
-    // Create user message immediately
-    const userMessage: ChatMessage = {
-      id: `user-${Date.now()}`,
-      role: 'user',
-      content: action,
-    };
-
-    setMessages((prev) => [...prev, userMessage]);
-    setInput(''); // Clear input
-    setIsLoading(true);
-
-    try {
-      const response = await fetch('/api/studio/chat', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          messages: [...messages, userMessage].map((m) => ({
-            role: m.role,
-            content: m.content,
-          })),
-          frameConfig: config,
-          imageAnalysis: config.imageAnalysis,
-        }),
-      });
-
-      if (response.ok) {
-        const data = await response.json();
+  const handleQuickAction = (action: string) => {
+    sendMessage(action);
+  };
 
-        const assistantMessage: ChatMessage = {
-          id: `assistant-${Date.now()}`,
-          role: 'assistant',
-          content: data.content || 'I apologize, I encountered an error.',
-        };
+  // Keep the indicator up until streamed text starts to arrive
+  const lastMessage = messages[messages.length - 1];
+  const isAwaitingText = isLoading && !(lastMessage?.role === 'assistant' && lastMessage.content);
 
-        setMessages((prev) => [...prev, assistantMessage]);
+  return (
+    <div className="relative flex flex-col h-full overflow-hidden">
+      {isSignedIn && (
+        <div className="flex items-center justify-between border-b border-gray-200 px-4 py-2">
+          <button
+            onClick={() => {
+              setShowHistory(true);
+              refreshConversations();
+            }}
+            className="text-xs font-semibold text-gray-700 hover:text-black"
+          >
+            🕘 Chat history
+          </button>
+          {messages.length > 0 && (
+            <button
+              onClick={handleNewChat}
+              className="text-xs font-semibold text-gray-700 hover:text-black"
+            >
+              New chat
+            </button>
+          )}
+        </div>
+      )}
 
-        // Handle function calls
-        if (data.function_call) {
-          handleFunctionCall(data.function_call);
-        }
-      } else {
-        throw new Error('Failed to get response');
-      }
-    } catch (error) {
-      console.error('Error in chat:', error);
-      const errorMessage: ChatMessage = {
-        id: `error-${Date.now()}`,
-        role: 'assistant',
-        content: 'I apologize, I encountered an error. Please try again.',
-      };
-      setMessages((prev) => [...prev, errorMessage]);
-    } finally {
-      setIsLoading(false);
-    }
-  };
+      {showHistory && (
+        <ConversationHistory
+          conversations={conversations}
+          activeConversationId={conversationId}
+          retentionDays={retentionDays}
+          retentionOptions={retentionOptions}
+          loading={conversationsLoading}
+          onSelect={handleSelectConversation}
+          onDelete={handleDeleteConversation}
+          onDeleteAll={handleDeleteAllConversations}
+          onNewChat={handleNewChat}
+          onRetentionChange={updateRetention}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
 
-  return (
-    <div className="flex flex-col h-full overflow-hidden">
       {/* Messages */}
       <div className="flex-1 overflow-y-auto p-4 space-y-4 pb-28">
         {messages.length === 0 && configurationChanges.length === 0 ? (
@@ -373,6 +557,8 @@ export function AIChat() {
                   const message = item.data;
                   return (
               <div key={message.id} className="space-y-3">
+                {/* A streaming reply may have suggestion cards before any text */}
+                {message.content && (
                 <Message 
                   message={{
                     ...message,
@@ -380,6 +566,7 @@ export function AIChat() {
                     showLifestyleImages: message.showLifestyleImages,
                   }}
                 />
+                )}
                 {/* Show suggestion cards for this message */}
                 {message.suggestions && message.suggestions.length > 0 && (
                   <div className="ml-10 space-y-2">
@@ -426,7 +613,7 @@ export function AIChat() {
                 }
               });
             })()}
-            {isLoading && <TypingIndicator />}
+            {isAwaitingText && <TypingIndicator label={progressLabel ?? undefined} />}
             <div ref={messagesEndRef} />
           </>
         )}
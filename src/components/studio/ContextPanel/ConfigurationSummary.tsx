@@ -10,9 +10,15 @@ import { useEffect, useState } from 'react';
 import { useStudioStore } from '@/store/studio';
 import { FRAME_SIZES, getSizeInCm, getSizeEntry } from '@/lib/utils/size-conversion';
 import { getAspectRatioCategory } from '@/lib/utils/aspect-ratio';
+import { formatPrice } from '@/lib/prodigi-v2/utils';
+import { getPrintSettings } from '@/lib/print-crop';
+import { assessPrintSizes, PRINT_QUALITY_LABELS, type PrintQuality } from '@/lib/print-quality';
 import { ColorPicker } from './ColorPicker';
 import { HorizontalButtonGroup } from './HorizontalButtonGroup';
 import { ProductTypeSelector } from './ProductTypeSelector';
+import { useRatingSummaries } from '@/hooks/useRatingSummaries';
+import { useImageDimensions } from '@/hooks/useImageDimensions';
+import { RatingSummaryBadge } from '@/components/reviews/RatingSummaryBadge';
 
 // Info icon with tooltip component
 function InfoTooltip({ text }: { text: string }) {
@@ -53,14 +59,34 @@ function InfoTooltip({ text }: { text: string }) {
   );
 }
 
+// Print quality of the image at the selected size, shown under the size picker
+function getPrintQualityNotice(quality: PrintQuality | undefined) {
+  if (!quality) return undefined;
+
+  const summary = `${PRINT_QUALITY_LABELS[quality.rating]} (${quality.dpi} DPI)`;
+  const recommended = `${quality.recommendedPixels.width}×${quality.recommendedPixels.height}px or larger is recommended`;
+
+  switch (quality.rating) {
+    case 'blocked':
+      return { text: `${summary}. Choose a smaller size; ${recommended}.`, tone: 'error' as const };
+    case 'poor':
+      return { text: `${summary}. ${recommended}.`, tone: 'warning' as const };
+    default:
+      return { text: summary, tone: 'info' as const };
+  }
+}
+
 export function ConfigurationSummary() {
   const { 
     config, 
     updateConfigAsync, 
     availableOptions, 
     isFacetsLoading,
-    updateAvailableOptionsAsync 
+    updateAvailableOptionsAsync,
+    sizePrices
   } = useStudioStore();
+  const { getSummary } = useRatingSummaries();
+  const imageDimensions = useImageDimensions(config.imageUrl);
   
   // Initialize aspect ratio from size if not set (only on mount, not on every change)
   useEffect(() => {
@@ -174,6 +200,9 @@ export function ConfigurationSummary() {
   // Build dynamic options based on available facets
   const getOptions = () => {
     const normalizedSizes = getNormalizedSizes();
+    // A zoomed-in crop prints fewer pixels, so rate sizes on the crop
+    const { crop } = getPrintSettings({ sizing: config.printSizing, crop: config.crop });
+    const sizeQuality = assessPrintSizes(imageDimensions, normalizedSizes, crop);
     const opts: Array<{
       label: string;
       value: any;
@@ -181,6 +210,8 @@ export function ConfigurationSummary() {
       editable: boolean;
       options?: string[];
       displayNames?: Record<string, string>;
+      disabledOptions?: string[];
+      notice?: { text: string; tone: 'info' | 'warning' | 'error' };
       description?: string;
       showIf: boolean;
     }> = [
@@ -231,13 +262,23 @@ export function ConfigurationSummary() {
           
           // Generate display names for all sizes using getSizeEntry
           // This will create dynamic entries with CM conversions for any size
+          // Pre-warmed item prices and the image's print quality are appended when available
           normalizedSizes.forEach(size => {
             const sizeEntry = getSizeEntry(size);
-            displayNames[size] = sizeEntry.label;
+            const price = sizePrices[size];
+            const quality = sizeQuality[size];
+            displayNames[size] = [
+              sizeEntry.label,
+              price && formatPrice(price.amount, price.currency),
+              quality && PRINT_QUALITY_LABELS[quality.rating],
+            ].filter(Boolean).join(' · ');
           });
           
           return displayNames;
         })(),
+        // Sizes the image is too small for can't be ordered
+        disabledOptions: normalizedSizes.filter(size => sizeQuality[size]?.rating === 'blocked'),
+        notice: config.size ? getPrintQualityNotice(sizeQuality[config.size]) : undefined,
         description: getSizeInCm(config.size),
         showIf: true,
     });
@@ -471,6 +512,10 @@ export function ConfigurationSummary() {
           </span>
         )}
       </div>
+      <RatingSummaryBadge
+        summary={getSummary(config.productType, config.frameColor)}
+        className="mb-3 text-xs"
+      />
       <div className="space-y-2">
         {options.map((option) => {
           // Check if this option should use product type selector
@@ -601,7 +646,12 @@ export function ConfigurationSummary() {
                       className="text-sm font-semibold text-gray-900 bg-white border border-gray-300 rounded-md px-3 py-1.5 focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent cursor-pointer capitalize hover:border-gray-400 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                     >
                       {option.options?.map((opt) => (
-                        <option key={opt} value={opt} className="capitalize bg-white text-gray-900">
+                        <option
+                          key={opt}
+                          value={opt}
+                          disabled={opt !== option.value && option.disabledOptions?.includes(opt)}
+                          className="capitalize bg-white text-gray-900"
+                        >
                           {option.displayNames && opt in option.displayNames 
                             ? option.displayNames[opt as keyof typeof option.displayNames] 
                             : opt}
@@ -617,6 +667,19 @@ export function ConfigurationSummary() {
                   )
                 )}
               </div>
+              {option.notice && (
+                <p
+                  className={`mt-1 text-xs ${
+                    option.notice.tone === 'error'
+                      ? 'text-red-600'
+                      : option.notice.tone === 'warning'
+                      ? 'text-amber-600'
+                      : 'text-gray-500'
+                  }`}
+                >
+                  {option.notice.text}
+                </p>
+              )}
             </div>
           );
         })}
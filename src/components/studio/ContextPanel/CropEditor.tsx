@@ -0,0 +1,163 @@
+/**
+ * Crop Editor Component
+ * Chooses how the image is placed on the print (fill, fit or stretch) and,
+ * for fill, the focal point and zoom of the crop
+ */
+
+'use client';
+
+import { useEffect, useRef, useState, type PointerEvent } from 'react';
+import { useStudioStore } from '@/store/studio';
+import { useImageDimensions } from '@/hooks/useImageDimensions';
+import {
+  DEFAULT_ARTWORK_CROP,
+  DEFAULT_PRINT_SIZING,
+  getCropRect,
+  isDefaultCrop,
+  MAX_CROP_ZOOM,
+  normalizeArtworkCrop,
+  PRINT_SIZING_LABELS,
+  type ArtworkCrop,
+} from '@/lib/print-crop';
+import { SIZING_DESCRIPTIONS } from '@/lib/prodigi-v2/constants';
+import type { SizingOption } from '@/lib/prodigi-v2/types';
+import { parseSizeInches } from '@/lib/utils/size-conversion';
+import { HorizontalButtonGroup } from './HorizontalButtonGroup';
+
+export function CropEditor() {
+  const { config, updateConfig } = useStudioStore();
+  const imageDimensions = useImageDimensions(config.imageUrl);
+  const sizing = config.printSizing || DEFAULT_PRINT_SIZING;
+
+  // Edits are local while dragging and committed on release, so the
+  // undo history gets one entry per adjustment
+  const [draft, setDraft] = useState<ArtworkCrop>(config.crop || DEFAULT_ARTWORK_CROP);
+  const [isDragging, setIsDragging] = useState(false);
+  const previewRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    setDraft(config.crop || DEFAULT_ARTWORK_CROP);
+  }, [config.crop]);
+
+  const printArea = parseSizeInches(config.size);
+  if (!config.imageUrl || !printArea) {
+    return null;
+  }
+
+  const commit = (crop: ArtworkCrop) => {
+    updateConfig({ crop: normalizeArtworkCrop(crop) || DEFAULT_ARTWORK_CROP });
+  };
+
+  const focalPointAt = (event: PointerEvent<HTMLDivElement>): ArtworkCrop | null => {
+    const bounds = previewRef.current?.getBoundingClientRect();
+    if (!bounds?.width || !bounds.height) return null;
+
+    return normalizeArtworkCrop({
+      ...draft,
+      focalX: (event.clientX - bounds.left) / bounds.width,
+      focalY: (event.clientY - bounds.top) / bounds.height,
+    });
+  };
+
+  const handlePointerDown = (event: PointerEvent<HTMLDivElement>) => {
+    const next = focalPointAt(event);
+    if (!next) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setIsDragging(true);
+    setDraft(next);
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    if (!isDragging) return;
+    const next = focalPointAt(event);
+    if (next) setDraft(next);
+  };
+
+  const handlePointerUp = () => {
+    if (!isDragging) return;
+    setIsDragging(false);
+    commit(draft);
+  };
+
+  const cropRect = imageDimensions
+    ? getCropRect(imageDimensions, printArea.width / printArea.height, draft)
+    : null;
+
+  return (
+    <div className="py-3 px-4 bg-gray-50 rounded-lg">
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-sm font-medium text-gray-700">✂️ Placement</span>
+        {sizing === 'fillPrintArea' && !isDefaultCrop(config.crop) && (
+          <button
+            onClick={() => commit(DEFAULT_ARTWORK_CROP)}
+            className="text-xs text-gray-500 hover:text-gray-900 underline"
+          >
+            Reset crop
+          </button>
+        )}
+      </div>
+
+      <HorizontalButtonGroup
+        options={Object.keys(PRINT_SIZING_LABELS)}
+        selectedOption={sizing}
+        onChange={(option) => updateConfig({ printSizing: option as SizingOption })}
+        displayNames={PRINT_SIZING_LABELS}
+      />
+      <p className="mt-2 text-xs text-gray-500">{SIZING_DESCRIPTIONS[sizing]}</p>
+
+      {sizing === 'fillPrintArea' && imageDimensions && cropRect && (
+        <div className="mt-3 space-y-3">
+          <div
+            ref={previewRef}
+            className="relative w-full overflow-hidden rounded-md cursor-crosshair touch-none select-none"
+            style={{ aspectRatio: `${imageDimensions.width} / ${imageDimensions.height}` }}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          >
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img
+              src={config.imageUrl}
+              alt="Crop preview"
+              draggable={false}
+              className="absolute inset-0 w-full h-full"
+            />
+            {/* Printed area; everything outside it is dimmed */}
+            <div
+              className="absolute border-2 border-white pointer-events-none"
+              style={{
+                left: `${cropRect.x * 100}%`,
+                top: `${cropRect.y * 100}%`,
+                width: `${cropRect.width * 100}%`,
+                height: `${cropRect.height * 100}%`,
+                boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.45)',
+              }}
+            />
+            <div
+              className="absolute w-3 h-3 -ml-1.5 -mt-1.5 rounded-full bg-white ring-2 ring-black pointer-events-none"
+              style={{ left: `${draft.focalX * 100}%`, top: `${draft.focalY * 100}%` }}
+            />
+          </div>
+
+          <label className="flex items-center gap-3 text-xs text-gray-600">
+            Zoom
+            <input
+              type="range"
+              min={1}
+              max={MAX_CROP_ZOOM}
+              step={0.05}
+              value={draft.zoom}
+              onChange={(event) => setDraft({ ...draft, zoom: Number(event.target.value) })}
+              onPointerUp={() => commit(draft)}
+              onKeyUp={() => commit(draft)}
+              className="flex-1 accent-black"
+            />
+            <span className="w-10 text-right">{draft.zoom.toFixed(1)}×</span>
+          </label>
+          <p className="text-xs text-gray-500">Click or drag on the image to choose what stays in frame.</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+/**
+ * Saved Designs Component
+ * "My saved designs" - save the current configuration and reopen any saved design
+ */
+
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useStudioStore } from '@/store/studio';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import type { SavedConfigurationSummary } from '@/lib/studio/saved-configurations';
+
+export function SavedDesigns() {
+  const { config, activeSavedConfigurationId, saveConfiguration, loadConfiguration } = useStudioStore();
+  const { user, session, loading } = useAuth();
+  const { toast } = useToast();
+  const [designs, setDesigns] = useState<SavedConfigurationSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [name, setName] = useState('');
+
+  const activeDesign = designs.find(d => d.id === activeSavedConfigurationId);
+
+  const fetchDesigns = useCallback(async () => {
+    if (!session?.access_token) return;
+
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/studio/configurations', {
+        headers: { 'Authorization': `Bearer ${session.access_token}` },
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        const configurations: SavedConfigurationSummary[] = data.configurations || [];
+        setDesigns(configurations);
+
+        // After switching accounts the open design belongs to someone else
+        const { activeSavedConfigurationId: openId, clearActiveSavedConfiguration } = useStudioStore.getState();
+        if (openId && !configurations.some(d => d.id === openId)) {
+          clearActiveSavedConfiguration();
+        }
+      }
+    } catch (error) {
+      console.error('Error loading saved designs:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [session?.access_token]);
+
+  useEffect(() => {
+    fetchDesigns();
+  }, [fetchDesigns]);
+
+  // Signing out closes the open design; it belongs to the account that saved it
+  useEffect(() => {
+    if (!loading && !user) {
+      useStudioStore.getState().clearActiveSavedConfiguration();
+    }
+  }, [loading, user]);
+
+  const handleSave = async (asNew: boolean) => {
+    const designName = name.trim() || activeDesign?.name || `Design ${designs.length + 1}`;
+
+    setIsSaving(true);
+    try {
+      const saved = await saveConfiguration(designName, { asNew });
+      setName('');
+      toast({
+        title: 'Design saved',
+        description: saved.version > 1
+          ? `"${saved.name}" saved as version ${saved.version}.`
+          : `"${saved.name}" added to your saved designs.`,
+      });
+      await fetchDesigns();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save design',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleOpen = async (id: string) => {
+    try {
+      await loadConfiguration(id);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to open design',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!session?.access_token) return;
+
+    try {
+      const response = await fetch(`/api/studio/configurations/${id}`, {
+        method: 'DELETE',
+        headers: { 'Authorization': `Bearer ${session.access_token}` },
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to delete design');
+      }
+
+      if (id === activeSavedConfigurationId) {
+        useStudioStore.getState().clearActiveSavedConfiguration();
+      }
+      setDesigns(prev => prev.filter(d => d.id !== id));
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to delete design',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  if (!user) return null;
+
+  return (
+    <div>
+      <h3 className="text-sm font-semibold text-gray-900 mb-3">My saved designs</h3>
+
+      {/* Save current configuration */}
+      {config.imageUrl && (
+        <div className="space-y-2 mb-4">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={activeDesign ? activeDesign.name : 'Name this design'}
+            maxLength={255}
+            className="w-full px-3 py-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-black"
+          />
+          <div className="flex gap-2">
+            <button
+              onClick={() => handleSave(false)}
+              disabled={isSaving}
+              className="flex-1 px-3 py-2 text-sm font-medium bg-black text-white rounded-lg hover:bg-gray-800 transition-colors disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : activeDesign ? 'Save changes' : 'Save design'}
+            </button>
+            {activeDesign && (
+              <button
+                onClick={() => handleSave(true)}
+                disabled={isSaving}
+                className="flex-1 px-3 py-2 text-sm font-medium border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+              >
+                Save as new
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Saved designs list */}
+      {isLoading && designs.length === 0 ? (
+        <p className="text-xs text-gray-500">Loading saved designs...</p>
+      ) : designs.length === 0 ? (
+        <p className="text-xs text-gray-500">No saved designs yet.</p>
+      ) : (
+        <ul className="space-y-2">
+          {designs.map((design) => (
+            <li
+              key={design.id}
+              className={`flex items-center gap-3 p-2 rounded-lg border ${
+                design.id === activeSavedConfigurationId ? 'border-black bg-gray-50' : 'border-gray-200'
+              }`}
+            >
+              {design.imageUrl ? (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img
+                  src={design.imageUrl}
+                  alt={design.name}
+                  className="w-12 h-12 rounded object-cover flex-shrink-0"
+                />
+              ) : (
+                <div className="w-12 h-12 rounded bg-gray-100 flex-shrink-0" />
+              )}
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-gray-900 truncate">{design.name}</p>
+                <p className="text-xs text-gray-500 truncate">
+                  {[design.productType, design.size].filter(Boolean).join(' • ')}
+                  {design.currentVersion > 1 && ` • v${design.currentVersion}`}
+                </p>
+              </div>
+              <button
+                onClick={() => handleOpen(design.id)}
+                className="text-xs font-medium text-gray-900 hover:underline"
+              >
+                Open
+              </button>
+              <button
+                onClick={() => handleDelete(design.id)}
+                className="text-xs text-gray-400 hover:text-red-600"
+                aria-label={`Delete ${design.name}`}
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+/**
+ * Wishlist Component
+ * "My wishlist" - reopen wishlisted images/designs or move them to the cart in one click
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { useStudioStore } from '@/store/studio';
+import { useAuth } from '@/hooks/useAuth';
+import type { useWishlist } from '@/hooks/useWishlist';
+import type { WishlistItem } from '@/lib/wishlist';
+
+interface WishlistProps {
+  wishlist: ReturnType<typeof useWishlist>;
+}
+
+export function Wishlist({ wishlist }: WishlistProps) {
+  const { setImage, updateConfig, clearActiveSavedConfiguration } = useStudioStore();
+  const { user } = useAuth();
+  const [movingId, setMovingId] = useState<string | null>(null);
+  const { items, loading, moveToCart, removeFromWishlist } = wishlist;
+
+  const handleOpen = (item: WishlistItem) => {
+    clearActiveSavedConfiguration();
+    if (item.frameConfig) {
+      updateConfig({ ...item.frameConfig, imageUrl: item.imageUrl });
+    } else {
+      setImage(item.imageUrl, item.imageId || item.curatedImageId || item.id);
+    }
+  };
+
+  const handleMoveToCart = async (id: string) => {
+    setMovingId(id);
+    try {
+      await moveToCart(id);
+    } finally {
+      setMovingId(null);
+    }
+  };
+
+  if (!user) return null;
+
+  return (
+    <div>
+      <h3 className="text-sm font-semibold text-gray-900 mb-3">My wishlist</h3>
+
+      {loading && items.length === 0 ? (
+        <p className="text-xs text-gray-500">Loading wishlist...</p>
+      ) : items.length === 0 ? (
+        <p className="text-xs text-gray-500">Tap the heart on any image or design to save it here.</p>
+      ) : (
+        <ul className="space-y-2">
+          {items.map((item) => {
+            const canMoveToCart = !!(item.frameConfig?.sku || item.productId);
+
+            return (
+              <li key={item.id} className="flex items-center gap-3 p-2 rounded-lg border border-gray-200">
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img
+                  src={item.imageUrl}
+                  alt={item.title || 'Wishlist image'}
+                  className="w-12 h-12 rounded object-cover flex-shrink-0"
+                />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-gray-900 truncate">{item.title || 'Untitled'}</p>
+                  <p className="text-xs text-gray-500 truncate">
+                    {item.frameConfig
+                      ? [item.frameConfig.productType, item.frameConfig.size].filter(Boolean).join(' • ')
+                      : item.productId ? 'Shop product' : 'Image only'}
+                  </p>
+                </div>
+                {canMoveToCart && (
+                  <button
+                    onClick={() => handleMoveToCart(item.id)}
+                    disabled={movingId === item.id}
+                    className="text-xs font-medium text-gray-900 hover:underline disabled:opacity-50"
+                  >
+                    {movingId === item.id ? 'Adding...' : 'Add to cart'}
+                  </button>
+                )}
+                <button
+                  onClick={() => handleOpen(item)}
+                  className="text-xs font-medium text-gray-900 hover:underline"
+                >
+                  Open
+                </button>
+                <button
+                  onClick={() => removeFromWishlist(item.id)}
+                  className="text-xs text-gray-400 hover:text-red-600"
+                  aria-label={`Remove ${item.title || 'item'} from wishlist`}
+                >
+                  ✕
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
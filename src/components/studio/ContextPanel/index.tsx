@@ -7,15 +7,23 @@
 
 import { useEffect, useState, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
+import { Heart } from 'lucide-react';
 import { useStudioStore, useTotalPrice } from '@/store/studio';
 import { StudioPricingDisplay as PricingDisplay } from './PricingDisplay';
 import { ConfigurationSummary } from './ConfigurationSummary';
+import { CropEditor } from './CropEditor';
 import { SmartSuggestions } from './SmartSuggestions';
+import { SavedDesigns } from './SavedDesigns';
+import { Wishlist } from './Wishlist';
 import { CountrySelector } from '../CountrySelector';
 import { useAuth } from '@/hooks/useAuth';
 import { useCart } from '@/contexts/CartContext';
 import { useCartSidebar } from '@/contexts/CartSidebarContext';
 import { useToast } from '@/hooks/use-toast';
+import { useWishlist } from '@/hooks/useWishlist';
+import { useImageDimensions } from '@/hooks/useImageDimensions';
+import { getPrintSettings } from '@/lib/print-crop';
+import { assessPrintQuality, MIN_PRINT_DPI } from '@/lib/print-quality';
 
 interface ContextPanelProps {
   onOpenAuthModal?: () => void;
@@ -30,6 +38,23 @@ export function ContextPanel({ onOpenAuthModal }: ContextPanelProps = {}) {
   const { openCart, closeCart } = useCartSidebar();
   const { toast } = useToast();
   const [isAddingToCart, setIsAddingToCart] = useState(false);
+  const wishlist = useWishlist();
+  const imageDimensions = useImageDimensions(config.imageUrl);
+  const isDesignWishlisted = !!config.imageUrl && wishlist.isWishlisted(config.imageUrl);
+
+  const handleToggleWishlist = () => {
+    if (!user) {
+      onOpenAuthModal?.();
+      return;
+    }
+    if (!config.imageUrl) return;
+
+    wishlist.toggleWishlist({
+      imageUrl: config.imageUrl,
+      imageId: config.imageId,
+      config,
+    });
+  };
 
   // Function to handle add to cart (extracted for reuse)
   const handleAddToCart = useCallback(async () => {
@@ -57,6 +82,18 @@ export function ContextPanel({ onOpenAuthModal }: ContextPanelProps = {}) {
       return;
     }
 
+    // Checkout refuses sizes the image is too small for; say so before it gets that far
+    const { crop } = getPrintSettings({ sizing: config.printSizing, crop: config.crop });
+    const printQuality = assessPrintQuality(imageDimensions, config.size, null, crop);
+    if (printQuality?.rating === 'blocked') {
+      toast({
+        title: 'Resolution Too Low',
+        description: `This image prints at ${printQuality.dpi} DPI at ${config.size}, below the ${MIN_PRINT_DPI} DPI minimum. Please choose a smaller size${crop ? ' or zoom out' : ''}.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
     setIsAddingToCart(true);
     try {
       console.log('🛒 ContextPanel: Add to cart clicked', {
@@ -164,6 +201,8 @@ export function ContextPanel({ onOpenAuthModal }: ContextPanelProps = {}) {
           finish: config.finish,
           edge: config.edge, // Edge depth preference (19mm/38mm/auto)
           canvasType: config.canvasType, // Canvas type preference (standard/slim/eco/auto)
+          sizing: config.printSizing, // Fill/fit/stretch on the print area
+          crop: config.crop, // Focal point and zoom for fill
         }),
       });
 
@@ -230,7 +269,7 @@ export function ContextPanel({ onOpenAuthModal }: ContextPanelProps = {}) {
       console.log('🔄 ContextPanel: Resetting loading state');
       setIsAddingToCart(false);
     }
-  }, [user, session, config, addToCart, refreshCart, toast, onOpenAuthModal, router, openCart, closeCart]);
+  }, [user, session, config, imageDimensions, addToCart, refreshCart, toast, onOpenAuthModal, router, openCart, closeCart]);
 
   // Listen for retry event after authentication
   useEffect(() => {
@@ -324,12 +363,29 @@ export function ContextPanel({ onOpenAuthModal }: ContextPanelProps = {}) {
 
         {/* Configuration Summary */}
         {config.imageUrl && <ConfigurationSummary />}
+
+        {/* Crop and placement on the print */}
+        {config.imageUrl && <CropEditor />}
+
+        {/* Saved Designs */}
+        <SavedDesigns />
+
+        {/* Wishlist */}
+        <Wishlist wishlist={wishlist} />
       </div>
 
       {/* Footer - CTA */}
       {config.imageUrl && (
         <div className="sticky bottom-0 border-t border-gray-200 p-4 space-y-3 bg-white z-10">
           <div className="flex gap-2">
+            <button
+              className="px-4 py-4 border border-gray-200 rounded-xl hover:bg-gray-50 transition-colors"
+              onClick={handleToggleWishlist}
+              aria-label={isDesignWishlisted ? 'Remove from wishlist' : 'Save to wishlist'}
+              aria-pressed={isDesignWishlisted}
+            >
+              <Heart className={`w-5 h-5 ${isDesignWishlisted ? 'fill-red-500 text-red-500' : 'text-gray-700'}`} />
+            </button>
             <button
               data-add-to-cart-button
               className="flex-1 px-6 py-4 bg-black text-white rounded-xl font-bold text-base hover:bg-gray-800 transition-all shadow-lg hover:shadow-xl transform hover:-translate-y-0.5 disabled:opacity-50 disabled:cursor-not-allowed"
@@ -8,15 +8,26 @@
 import { useMemo } from 'react';
 import { useTexture } from '@react-three/drei';
 import * as THREE from 'three';
+import { DEFAULT_ARTWORK_CROP, DEFAULT_PRINT_SIZING, getCropRect, type ArtworkCrop } from '@/lib/print-crop';
+import type { SizingOption } from '@/lib/prodigi-v2/types';
 
 interface ArtworkPlaneProps {
   imageUrl: string;
   size: string;
   hasMount?: boolean;
   mount?: string; // Mount thickness (1.4mm, 2.0mm, 2.4mm)
+  crop?: ArtworkCrop; // Focal point and zoom (fill only)
+  sizing?: SizingOption; // Fill, fit or stretch, as sent to Prodigi
 }
 
-export function ArtworkPlane({ imageUrl, size, hasMount = false, mount = '2.0mm' }: ArtworkPlaneProps) {
+export function ArtworkPlane({
+  imageUrl,
+  size,
+  hasMount = false,
+  mount = '2.0mm',
+  crop = DEFAULT_ARTWORK_CROP,
+  sizing = DEFAULT_PRINT_SIZING,
+}: ArtworkPlaneProps) {
   // Parse size
   const [widthInches, heightInches] = size.split('x').map(Number);
   let width = (widthInches || 16) / 12; // Convert to feet
@@ -36,8 +47,10 @@ export function ArtworkPlane({ imageUrl, size, hasMount = false, mount = '2.0mm'
     height = height - (mountBorderWidth * 2);
   }
 
-  // Load image texture
-  const texture = useTexture(imageUrl);
+  // Load image texture, cloned so the crop doesn't carry over to other
+  // planes sharing the cached texture
+  const loadedTexture = useTexture(imageUrl);
+  const texture = useMemo(() => loadedTexture.clone(), [loadedTexture]);
 
   // Configure texture
   useMemo(() => {
@@ -48,11 +61,50 @@ export function ArtworkPlane({ imageUrl, size, hasMount = false, mount = '2.0mm'
     }
   }, [texture]);
 
+  const image = texture.image as { width?: number; height?: number } | undefined;
+  const imageWidth = image?.width || 0;
+  const imageHeight = image?.height || 0;
+
+  // Place the image the way Prodigi will: fill crops it to the print area,
+  // fit letterboxes it on the paper, stretch distorts it
+  const artworkSize = useMemo(() => {
+    texture.repeat.set(1, 1);
+    texture.offset.set(0, 0);
+
+    if (!imageWidth || !imageHeight) {
+      return { width, height };
+    }
+
+    if (sizing === 'fitPrintArea') {
+      const imageAspect = imageWidth / imageHeight;
+      return imageAspect > width / height
+        ? { width, height: width / imageAspect }
+        : { width: height * imageAspect, height };
+    }
+
+    if (sizing === 'fillPrintArea') {
+      const rect = getCropRect({ width: imageWidth, height: imageHeight }, width / height, crop);
+      // Texture coordinates start at the bottom left
+      texture.repeat.set(rect.width, rect.height);
+      texture.offset.set(rect.x, 1 - rect.y - rect.height);
+    }
+
+    return { width, height };
+  }, [texture, imageWidth, imageHeight, width, height, sizing, crop]);
+
   return (
-    <mesh position={[0, 0, 0]}>
-      <planeGeometry args={[width, height]} />
-      <meshStandardMaterial map={texture} toneMapped={false} />
-    </mesh>
+    <group position={[0, 0, 0]}>
+      {sizing === 'fitPrintArea' && (
+        <mesh position={[0, 0, -0.001]}>
+          <planeGeometry args={[width, height]} />
+          <meshStandardMaterial color="#ffffff" />
+        </mesh>
+      )}
+      <mesh>
+        <planeGeometry args={[artworkSize.width, artworkSize.height]} />
+        <meshStandardMaterial map={texture} toneMapped={false} />
+      </mesh>
+    </group>
   );
 }
 
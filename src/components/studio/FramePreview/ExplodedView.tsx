@@ -313,6 +313,8 @@ export function ExplodedView({ config, autoRotate = false, resetTrigger = 0 }: E
                 <ArtworkPlane 
                   imageUrl={config.imageUrl || ''} 
                   size={config.size}
+                  crop={config.crop}
+                  sizing={config.printSizing}
                   hasMount={false}
                   mount={undefined}
                 />
@@ -364,6 +366,8 @@ export function ExplodedView({ config, autoRotate = false, resetTrigger = 0 }: E
                 <ArtworkPlane 
                   imageUrl={config.imageUrl || ''} 
                   size={config.size}
+                  crop={config.crop}
+                  sizing={config.printSizing}
                   hasMount={false}
                   mount={undefined}
                 />
@@ -395,6 +399,8 @@ export function ExplodedView({ config, autoRotate = false, resetTrigger = 0 }: E
                 <ArtworkPlane 
                   imageUrl={config.imageUrl || ''} 
                   size={config.size}
+                  crop={config.crop}
+                  sizing={config.printSizing}
                   hasMount={false}
                   mount={undefined}
                 />
@@ -443,6 +449,8 @@ export function ExplodedView({ config, autoRotate = false, resetTrigger = 0 }: E
                 <ArtworkPlane 
                   imageUrl={config.imageUrl || ''} 
                   size={config.size}
+                  crop={config.crop}
+                  sizing={config.printSizing}
                   hasMount={config.productType === 'framed-print' && !!config.mount && config.mount !== 'none'}
                   mount={config.mount}
                 />
@@ -86,6 +86,8 @@ export function FallbackScene3D({ config, autoRotate = false, resetTrigger = 0 }
           <ArtworkPlane 
             imageUrl={config.imageUrl || ''} 
             size={config.size}
+            crop={config.crop}
+            sizing={config.printSizing}
             hasMount={config.productType === 'framed-print' && !!config.mount && config.mount !== 'none'}
             mount={config.mount}
           />
@@ -806,6 +806,8 @@ export function RoomScene({ config, environment, resetTrigger = 0 }: RoomScenePr
           <ArtworkPlane 
             imageUrl={config.imageUrl || ''} 
             size={config.size}
+            crop={config.crop}
+            sizing={config.printSizing}
             hasMount={config.productType === 'framed-print' && !!config.mount && config.mount !== 'none'}
             mount={config.mount}
           />
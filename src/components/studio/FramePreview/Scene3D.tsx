@@ -77,6 +77,8 @@ export function Scene3D({ config, autoRotate = false, resetTrigger = 0 }: Scene3
           <ArtworkPlane 
             imageUrl={config.imageUrl || ''} 
             size={config.size}
+            crop={config.crop}
+            sizing={config.printSizing}
             hasMount={config.productType === 'framed-print' && !!config.mount && config.mount !== 'none'}
             mount={config.mount}
           />
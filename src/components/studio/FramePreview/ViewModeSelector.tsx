@@ -33,6 +33,8 @@ function ThreeDThumbnail({ config }: { config: FrameConfiguration }) {
           <ArtworkPlane 
             imageUrl={config.imageUrl || ''} 
             size={config.size}
+            crop={config.crop}
+            sizing={config.printSizing}
             hasMount={config.productType === 'framed-print' && !!config.mount && config.mount !== 'none'}
             mount={config.mount}
           />
@@ -92,6 +94,8 @@ function ExplodedThumbnail({ config }: { config: FrameConfiguration }) {
             <ArtworkPlane 
               imageUrl={config.imageUrl || ''} 
               size={config.size}
+              crop={config.crop}
+              sizing={config.printSizing}
               hasMount={config.productType === 'framed-print' && !!config.mount && config.mount !== 'none'}
               mount={config.mount}
             />
@@ -119,6 +123,8 @@ function RoomThumbnail({ config }: { config: FrameConfiguration }) {
           <ArtworkPlane 
             imageUrl={config.imageUrl || ''} 
             size={config.size}
+            crop={config.crop}
+            sizing={config.printSizing}
             hasMount={config.productType === 'framed-print' && !!config.mount && config.mount !== 'none'}
             mount={config.mount}
           />
@@ -8,6 +8,7 @@
 import { useEffect, useRef } from 'react';
 import { useStudioStore } from '@/store/studio';
 import { formatPrice } from '@/lib/prodigi-v2/utils';
+import { formatArrivalWindow } from '@/lib/prodigi-v2/delivery-estimator';
 
 export function ShippingMethodSelector() {
   const { config, shippingOptions, updateConfig, updatePricingAsync, isPricingLoading } = useStudioStore();
@@ -125,7 +126,9 @@ export function ShippingMethodSelector() {
                   <div>
                     <div className="font-medium text-gray-900">{option.method}</div>
                     <div className="text-sm text-gray-600 mt-1">
-                      {option.delivery.formatted}
+                      {option.delivery.arrivesBy
+                        ? formatArrivalWindow(option.delivery.arrivesBy)
+                        : option.delivery.formatted}
                     </div>
                   </div>
                   <div className="text-right">
@@ -3,6 +3,7 @@
 import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
 import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/lib/supabase/client';
+import { getCountry } from '@/lib/countries';
 
 interface CartItem {
   id: string;
@@ -51,6 +52,16 @@ interface CartData {
     total: number;
     itemCount: number;
     currency?: string;
+    taxInclusive?: boolean;
+    taxName?: string;
+    discountAmount?: number;
+    promoCode?: string;
+  };
+  discount?: {
+    code: string;
+    type: 'percentage' | 'fixed' | 'free_shipping';
+    description?: string;
+    amount: number;
   };
 }
 
@@ -62,6 +73,10 @@ interface CartContextType {
   updateQuantity: (cartItemId: string, quantity: number) => Promise<boolean>;
   removeFromCart: (cartItemId: string) => Promise<boolean>;
   clearCart: () => Promise<boolean>;
+  promoCode: string | null;
+  promoCodeError: string | null;
+  applyPromoCode: (code: string) => Promise<boolean>;
+  removePromoCode: () => Promise<void>;
 }
 
 const CartContext = createContext<CartContextType | undefined>(undefined);
@@ -69,20 +84,25 @@ const CartContext = createContext<CartContextType | undefined>(undefined);
 export function CartProvider({ children }: { children: ReactNode }) {
   const [cartData, setCartData] = useState<CartData | null>(null);
   const [loading, setLoading] = useState(false);
+  const [promoCode, setPromoCode] = useState<string | null>(null);
+  const [promoCodeError, setPromoCodeError] = useState<string | null>(null);
   const { user, session } = useAuth();
 
-  const fetchCart = useCallback(async () => {
+  // Returns the promo code error (if any) so applyPromoCode can report it
+  const fetchCart = useCallback(async (): Promise<string | null> => {
     if (!user) {
       setCartData(null);
-      return;
+      return null;
     }
 
     // Don't fetch if session isn't ready yet
     if (!session?.access_token) {
       console.log('Cart: Waiting for session to be ready...');
-      return;
+      return null;
     }
 
+    let promoError: string | null = null;
+
     setLoading(true);
     try {
       console.log('Cart: Session data', { 
@@ -101,13 +121,20 @@ export function CartProvider({ children }: { children: ReactNode }) {
       const shippingMethod = typeof window !== 'undefined'
         ? (localStorage.getItem('cartShippingMethod') || 'Standard')
         : 'Standard';
+      const storedPromoCode = typeof window !== 'undefined'
+        ? localStorage.getItem('cartPromoCode')
+        : null;
+
+      // Prices are shown in the destination's currency at the rate locked for this checkout
+      const currency = getCountry(destinationCountry)?.currency || 'USD';
 
-      console.log('Cart: Fetching cart with', { destinationCountry, shippingMethod });
+      console.log('Cart: Fetching cart with', { destinationCountry, shippingMethod, currency, promoCode: storedPromoCode });
 
       // Use v2 checkout API for cart with real-time pricing
       // Pass destination country and shipping method as query parameters
       // Use relative URL to avoid SSR issues with window.location
-      const apiUrl = `/api/v2/checkout/cart?country=${encodeURIComponent(destinationCountry)}&shippingMethod=${encodeURIComponent(shippingMethod)}`;
+      const apiUrl = `/api/v2/checkout/cart?country=${encodeURIComponent(destinationCountry)}&shippingMethod=${encodeURIComponent(shippingMethod)}&currency=${encodeURIComponent(currency)}`
+        + (storedPromoCode ? `&promoCode=${encodeURIComponent(storedPromoCode)}` : '');
 
       const response = await fetch(apiUrl, {
         credentials: 'include',
@@ -194,8 +221,21 @@ export function CartProvider({ children }: { children: ReactNode }) {
               total: v2Totals.total || 0,
               itemCount: transformedItems.length,
               currency: v2Totals.currency || 'USD',
+              taxInclusive: v2Totals.taxInclusive || false,
+              taxName: v2Totals.taxName,
+              discountAmount: v2Totals.discount || 0,
+              promoCode: v2Totals.promoCode,
             },
+            discount: data.cart.discount,
           };
+
+          // Drop a promo code that no longer applies so it isn't resent on every fetch
+          if (storedPromoCode && data.cart.promoCodeError) {
+            promoError = data.cart.promoCodeError;
+            localStorage.removeItem('cartPromoCode');
+          }
+          setPromoCode(data.cart.discount ? data.cart.discount.code : null);
+          setPromoCodeError(promoError);
           console.log('Cart: fetchCart - cartData created with', cartData.cartItems.length, 'items');
         } else {
           // Fallback: assume old format if cart is not present
@@ -238,6 +278,7 @@ export function CartProvider({ children }: { children: ReactNode }) {
     } finally {
       setLoading(false);
     }
+    return promoError;
   }, [user, session]);
 
   const addToCart = async (productId: string, quantity: number = 1): Promise<boolean> => {
@@ -434,6 +475,22 @@ export function CartProvider({ children }: { children: ReactNode }) {
     await fetchCart();
   }, [fetchCart]);
 
+  const applyPromoCode = useCallback(async (code: string): Promise<boolean> => {
+    const normalized = code.trim().toUpperCase();
+    if (!normalized) return false;
+
+    localStorage.setItem('cartPromoCode', normalized);
+    const error = await fetchCart();
+    return !error;
+  }, [fetchCart]);
+
+  const removePromoCode = useCallback(async () => {
+    localStorage.removeItem('cartPromoCode');
+    setPromoCode(null);
+    setPromoCodeError(null);
+    await fetchCart();
+  }, [fetchCart]);
+
   useEffect(() => {
     if (user && session?.access_token) {
       // Check if we just added an item (redirect from studio)
@@ -504,6 +561,10 @@ export function CartProvider({ children }: { children: ReactNode }) {
     updateQuantity,
     removeFromCart,
     clearCart,
+    promoCode,
+    promoCodeError,
+    applyPromoCode,
+    removePromoCode,
   };
 
   return (
@@ -0,0 +1,101 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from './useAuth';
+import { useToast } from './use-toast';
+import type { CreditPack } from '@/lib/credits';
+
+export function useCredits() {
+  const [balance, setBalance] = useState<number | null>(null);
+  const [monthlyAllowance, setMonthlyAllowance] = useState<number | null>(null);
+  const [nextAllowanceAt, setNextAllowanceAt] = useState<string | null>(null);
+  const [packs, setPacks] = useState<CreditPack[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [purchasingPackId, setPurchasingPackId] = useState<string | null>(null);
+  const { user, session } = useAuth();
+  const { toast } = useToast();
+
+  const authToken = session?.access_token;
+
+  const request = useCallback(async (url: string, init: RequestInit = {}) => {
+    const response = await fetch(url, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${authToken}`,
+      },
+      credentials: 'include',
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data.error || 'Credits request failed');
+    }
+    return data;
+  }, [authToken]);
+
+  const refreshCredits = useCallback(async () => {
+    if (!user || !authToken) {
+      setBalance(null);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const data = await request('/api/credits');
+      setBalance(data.balance);
+      setMonthlyAllowance(data.monthlyAllowance);
+      setNextAllowanceAt(data.nextAllowanceAt);
+      setPacks(data.packs || []);
+    } catch (error) {
+      console.error('Error loading credits:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, authToken, request]);
+
+  useEffect(() => {
+    refreshCredits();
+  }, [refreshCredits]);
+
+  /**
+   * Send the user to Stripe Checkout for a pack; they come back to this page
+   */
+  const purchasePack = async (packId: string): Promise<void> => {
+    if (!user || !authToken) {
+      toast({
+        title: 'Authentication Required',
+        description: 'Please sign in to buy credits.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setPurchasingPackId(packId);
+    try {
+      const { url } = await request('/api/credits/checkout', {
+        method: 'POST',
+        body: JSON.stringify({ packId, returnPath: window.location.pathname }),
+      });
+      window.location.href = url;
+    } catch (error) {
+      setPurchasingPackId(null);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to start checkout',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return {
+    balance,
+    monthlyAllowance,
+    nextAllowanceAt,
+    packs,
+    loading,
+    purchasingPackId,
+    refreshCredits,
+    purchasePack,
+  };
+}
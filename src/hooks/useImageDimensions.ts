@@ -0,0 +1,36 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { ImageDimensions } from '@/lib/print-quality';
+
+/**
+ * Natural pixel size of an image URL; null until it has loaded (or when it fails to)
+ */
+export function useImageDimensions(url: string | null | undefined): ImageDimensions | null {
+  const [dimensions, setDimensions] = useState<ImageDimensions | null>(null);
+
+  useEffect(() => {
+    setDimensions(null);
+    if (!url) return;
+
+    let cancelled = false;
+    const image = new Image();
+    image.onload = () => {
+      if (!cancelled && image.naturalWidth && image.naturalHeight) {
+        setDimensions({ width: image.naturalWidth, height: image.naturalHeight });
+      }
+    };
+    image.onerror = () => {
+      console.warn('Could not load image to read its dimensions:', url);
+    };
+    image.src = url;
+
+    return () => {
+      cancelled = true;
+      image.onload = null;
+      image.onerror = null;
+    };
+  }, [url]);
+
+  return dimensions;
+}
@@ -1,31 +1,33 @@
 'use client';
 
-import { useState, useCallback, useEffect, useMemo } from 'react';
-import { createIdeogramAPI, IdeogramImageGenerationRequest, IdeogramImageGenerationResponse } from '@/lib/ideogram/api';
+import { useState, useCallback, useEffect } from 'react';
+import type { GenerationRecord, ImageGenerationCapabilities, ImageGenerationRequest } from '@/lib/image-generation/types';
 import { useAuth } from '@/hooks/useAuth';
 
 interface UseImageGenerationOptions {
-  onSuccess?: (response: IdeogramImageGenerationResponse) => void;
+  onSuccess?: (generation: GenerationRecord) => void;
   onError?: (error: Error) => void;
   onProgress?: (status: string) => void;
 }
 
+export interface GenerationProviderInfo {
+  provider: string;
+  name: string;
+  capabilities: ImageGenerationCapabilities;
+}
+
 export function useImageGeneration(options: UseImageGenerationOptions = {}) {
   const [isGenerating, setIsGenerating] = useState(false);
-  const [currentGeneration, setCurrentGeneration] = useState<IdeogramImageGenerationResponse | null>(null);
-  const [generationHistory, setGenerationHistory] = useState<IdeogramImageGenerationResponse[]>([]);
+  const [currentGeneration, setCurrentGeneration] = useState<GenerationRecord | null>(null);
+  const [generationHistory, setGenerationHistory] = useState<GenerationRecord[]>([]);
+  const [providerInfo, setProviderInfo] = useState<GenerationProviderInfo | null>(null);
   const [error, setError] = useState<Error | null>(null);
   const { user, session } = useAuth();
 
-  // Create ideogram API instance with auth token getter
-  const ideogramAPI = useMemo(() => {
-    return createIdeogramAPI(async () => {
-      return session?.access_token || null;
-    });
-  }, [session?.access_token]);
+  const authToken = session?.access_token;
 
-  const generateImage = useCallback(async (request: IdeogramImageGenerationRequest) => {
-    if (!user) {
+  const generateImage = useCallback(async (request: ImageGenerationRequest) => {
+    if (!user || !authToken) {
       const authError = new Error('User must be authenticated to generate images');
       setError(authError);
       options.onError?.(authError);
@@ -37,18 +39,28 @@ export function useImageGeneration(options: UseImageGenerationOptions = {}) {
     options.onProgress?.('Starting generation...');
 
     try {
-      // Start the generation
-      const response = await ideogramAPI.generateImage(request);
-      setCurrentGeneration(response);
-      options.onProgress?.('Generation started, processing...');
-      options.onSuccess?.(response);
-
-      // Poll for status updates
-      if (response.status === 'pending' || response.status === 'generating') {
-        pollGenerationStatus(response.id);
+      const response = await fetch('/api/generations', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${authToken}`,
+        },
+        credentials: 'include',
+        body: JSON.stringify(request),
+      });
+
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.message || data.error || `HTTP error! status: ${response.status}`);
       }
 
-      return response;
+      const generation: GenerationRecord = data.generation;
+      setCurrentGeneration(generation);
+      setGenerationHistory(prev => [generation, ...prev.filter(g => g.id !== generation.id)]);
+      options.onProgress?.('Generation completed!');
+      options.onSuccess?.(generation);
+
+      return generation;
     } catch (err) {
       const error = err instanceof Error ? err : new Error('Failed to start generation');
       setError(error);
@@ -57,98 +69,49 @@ export function useImageGeneration(options: UseImageGenerationOptions = {}) {
     } finally {
       setIsGenerating(false);
     }
-  }, [user, options]);
-
-  const pollGenerationStatus = useCallback(async (generationId: string) => {
-    const pollInterval = setInterval(async () => {
-      try {
-        const status = await ideogramAPI.getGenerationStatus(generationId);
-        setCurrentGeneration(status);
-        
-        if (status.status === 'completed') {
-          options.onProgress?.('Generation completed!');
-          clearInterval(pollInterval);
-          
-          // Add to history
-          setGenerationHistory(prev => [status, ...prev]);
-          
-          // Save to local storage for persistence
-          const history = JSON.parse(localStorage.getItem('generationHistory') || '[]');
-          history.unshift(status);
-          localStorage.setItem('generationHistory', JSON.stringify(history.slice(0, 50))); // Keep last 50
-        } else if (status.status === 'failed') {
-          options.onProgress?.('Generation failed');
-          clearInterval(pollInterval);
-          setError(new Error(status.error || 'Generation failed'));
-        } else {
-          options.onProgress?.(`Status: ${status.status}`);
-        }
-      } catch (err) {
-        console.error('Error polling generation status:', err);
-        clearInterval(pollInterval);
-      }
-    }, 2000); // Poll every 2 seconds
-
-    // Cleanup after 10 minutes (300 seconds)
-    setTimeout(() => {
-      clearInterval(pollInterval);
-    }, 300000);
-  }, [options, generateImage]);
-
-  const cancelGeneration = useCallback(async (generationId: string) => {
-    try {
-      await ideogramAPI.cancelGeneration(generationId);
-      setCurrentGeneration(prev => prev ? { ...prev, status: 'failed' } : null);
-      options.onProgress?.('Generation cancelled');
-    } catch (err) {
-      const error = err instanceof Error ? err : new Error('Failed to cancel generation');
-      setError(error);
-      options.onError?.(error);
-    }
-  }, [options]);
+  }, [user, authToken, options]);
 
   const retryGeneration = useCallback(async (generationId: string) => {
     const generation = generationHistory.find(g => g.id === generationId);
     if (!generation) return;
 
-    const request: IdeogramImageGenerationRequest = {
-      prompt: generation.prompt,
-      negative_prompt: generation.negative_prompt,
-      aspect_ratio: generation.aspect_ratio as any,
-      width: generation.width,
-      height: generation.height,
-      model: generation.model as any,
-      num_images: generation.number_of_images as any,
-      rendering_speed: generation.render_speed as any,
-      magic_prompt: generation.magic_prompt as any,
-      style_type: generation.style as any,
-      color_palette: generation.color as any,
-      character_reference_images: generation.character ? [generation.character] : undefined,
-      seed: generation.seed,
-    };
-
-    return generateImage(request);
+    return generateImage(generation.request);
   }, [generationHistory, generateImage]);
 
-  const clearHistory = useCallback(() => {
-    setGenerationHistory([]);
-    localStorage.removeItem('generationHistory');
-  }, []);
-
-  const clearError = useCallback(() => {
-    setError(null);
-  }, []);
+  const loadHistory = useCallback(async () => {
+    if (!user || !authToken) {
+      setGenerationHistory([]);
+      return;
+    }
 
-  // Load generation history from localStorage on mount
-  useEffect(() => {
     try {
-      const history = localStorage.getItem('generationHistory');
-      if (history) {
-        setGenerationHistory(JSON.parse(history));
+      const response = await fetch('/api/generations', {
+        headers: { 'Authorization': `Bearer ${authToken}` },
+        credentials: 'include',
+      });
+      if (response.ok) {
+        const data = await response.json();
+        setGenerationHistory(data.generations || []);
       }
     } catch (err) {
       console.error('Failed to load generation history:', err);
     }
+  }, [user, authToken]);
+
+  const clearError = useCallback(() => {
+    setError(null);
+  }, []);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  // What the configured provider supports, so callers can hide unsupported options
+  useEffect(() => {
+    fetch('/api/generations/capabilities')
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => data && setProviderInfo(data))
+      .catch(err => console.error('Failed to load generation capabilities:', err));
   }, []);
 
   return {
@@ -156,17 +119,16 @@ export function useImageGeneration(options: UseImageGenerationOptions = {}) {
     isGenerating,
     currentGeneration,
     generationHistory,
+    providerInfo,
     error,
-    
+
     // Actions
     generateImage,
-    cancelGeneration,
     retryGeneration,
-    clearHistory,
+    loadHistory,
     clearError,
-    
+
     // Computed
-    hasActiveGeneration: currentGeneration?.status === 'pending' || currentGeneration?.status === 'generating',
     completedGenerations: generationHistory.filter(g => g.status === 'completed'),
     failedGenerations: generationHistory.filter(g => g.status === 'failed'),
   };
@@ -0,0 +1,51 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { combineRatingSummaries, type RatingSummary } from '@/lib/reviews';
+
+// Summaries change slowly; share one request between every component on the page
+let summariesRequest: Promise<RatingSummary[]> | null = null;
+
+function loadSummaries(): Promise<RatingSummary[]> {
+  if (!summariesRequest) {
+    summariesRequest = fetch('/api/reviews/summary')
+      .then(response => (response.ok ? response.json() : { summaries: [] }))
+      .then(data => (data.summaries || []) as RatingSummary[])
+      .catch(error => {
+        console.error('Error loading rating summaries:', error);
+        summariesRequest = null;
+        return [];
+      });
+  }
+  return summariesRequest;
+}
+
+export function useRatingSummaries() {
+  const [summaries, setSummaries] = useState<RatingSummary[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadSummaries().then(result => {
+      if (!cancelled) setSummaries(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  /**
+   * Rating for a product type, optionally narrowed to one frame style.
+   * Falls back to the product type as a whole when the style has no reviews.
+   */
+  const getSummary = useCallback((productType: string, frameStyle?: string | null): RatingSummary | null => {
+    const forType = summaries.filter(summary => summary.productType === productType);
+    if (frameStyle) {
+      const forStyle = forType.filter(summary => summary.frameStyle === frameStyle.toLowerCase());
+      const styleSummary = combineRatingSummaries(forStyle, productType, frameStyle.toLowerCase());
+      if (styleSummary) return styleSummary;
+    }
+    return combineRatingSummaries(forType, productType);
+  }, [summaries]);
+
+  return { summaries, getSummary };
+}
@@ -0,0 +1,143 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from './useAuth';
+import { useToast } from './use-toast';
+import type {
+  ChatRetentionDays,
+  StudioConversation,
+  StudioConversationSummary,
+} from '@/lib/studio/conversations';
+
+export function useStudioConversations() {
+  const [conversations, setConversations] = useState<StudioConversationSummary[]>([]);
+  const [retentionDays, setRetentionDays] = useState<ChatRetentionDays>(null);
+  const [retentionOptions, setRetentionOptions] = useState<number[]>([]);
+  const [loading, setLoading] = useState(false);
+  const { user, session } = useAuth();
+  const { toast } = useToast();
+
+  const authToken = session?.access_token;
+
+  const request = useCallback(async (url: string, init: RequestInit = {}) => {
+    const response = await fetch(url, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${authToken}`,
+      },
+      credentials: 'include',
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data.error || 'Conversation request failed');
+    }
+    return data;
+  }, [authToken]);
+
+  const refreshConversations = useCallback(async () => {
+    if (!user || !authToken) {
+      setConversations([]);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const [list, settings] = await Promise.all([
+        request('/api/studio/conversations'),
+        request('/api/studio/conversations/settings'),
+      ]);
+      setConversations(list.conversations || []);
+      setRetentionDays(settings.retentionDays ?? null);
+      setRetentionOptions(settings.retentionOptions || []);
+    } catch (error) {
+      console.error('Error loading studio conversations:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, authToken, request]);
+
+  useEffect(() => {
+    refreshConversations();
+  }, [refreshConversations]);
+
+  /**
+   * Fetch a conversation's messages and checkpoint; null if it's gone
+   */
+  const loadConversation = useCallback(async (id: string): Promise<StudioConversation | null> => {
+    if (!user || !authToken) return null;
+
+    try {
+      const { conversation } = await request(`/api/studio/conversations/${id}`);
+      return conversation;
+    } catch (error) {
+      console.error('Error loading studio conversation:', error);
+      return null;
+    }
+  }, [user, authToken, request]);
+
+  const deleteConversation = async (id: string): Promise<boolean> => {
+    try {
+      await request(`/api/studio/conversations/${id}`, { method: 'DELETE' });
+      setConversations(prev => prev.filter(c => c.id !== id));
+      return true;
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to delete conversation',
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
+  const deleteAllConversations = async (): Promise<boolean> => {
+    try {
+      await request('/api/studio/conversations', { method: 'DELETE' });
+      setConversations([]);
+      toast({
+        title: 'Chat history deleted',
+        description: 'All of your studio conversations have been removed.',
+      });
+      return true;
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to delete conversations',
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
+  const updateRetention = async (days: ChatRetentionDays): Promise<void> => {
+    try {
+      const data = await request('/api/studio/conversations/settings', {
+        method: 'PUT',
+        body: JSON.stringify({ retentionDays: days }),
+      });
+      setRetentionDays(data.retentionDays ?? null);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update chat settings',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return {
+    conversations,
+    retentionDays,
+    retentionOptions,
+    loading,
+    isSignedIn: !!user && !!authToken,
+    authToken,
+    refreshConversations,
+    loadConversation,
+    deleteConversation,
+    deleteAllConversations,
+    updateRetention,
+  };
+}
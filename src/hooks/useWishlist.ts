@@ -0,0 +1,214 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from './useAuth';
+import { useToast } from './use-toast';
+import { useCart } from '@/contexts/CartContext';
+import type { FrameConfiguration } from '@/store/studio';
+import type { WishlistItem, MoveToCartResult } from '@/lib/wishlist';
+
+export interface AddToWishlistInput {
+  imageUrl: string;
+  imageId?: string | null;
+  curatedImageId?: string | null;
+  title?: string | null;
+  config?: FrameConfiguration | null;
+}
+
+export function useWishlist() {
+  const [items, setItems] = useState<WishlistItem[]>([]);
+  const [loading, setLoading] = useState(false);
+  const { user, session } = useAuth();
+  const { toast } = useToast();
+  const { refreshCart } = useCart();
+
+  const authToken = session?.access_token;
+
+  const request = useCallback(async (url: string, init: RequestInit = {}) => {
+    const response = await fetch(url, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${authToken}`,
+      },
+      credentials: 'include',
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data.error || 'Wishlist request failed');
+    }
+    return data;
+  }, [authToken]);
+
+  const fetchWishlist = useCallback(async () => {
+    if (!user || !authToken) {
+      setItems([]);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const data = await request('/api/wishlist');
+      setItems(data.items || []);
+    } catch (error) {
+      console.error('Error loading wishlist:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, authToken, request]);
+
+  useEffect(() => {
+    fetchWishlist();
+  }, [fetchWishlist]);
+
+  const findItem = useCallback(
+    (imageUrl: string) => items.find(item => item.imageUrl === imageUrl),
+    [items]
+  );
+
+  const isWishlisted = useCallback((imageUrl: string) => !!findItem(imageUrl), [findItem]);
+
+  const addToWishlist = async (input: AddToWishlistInput): Promise<boolean> => {
+    if (!user || !authToken) {
+      toast({
+        title: 'Authentication Required',
+        description: 'Please sign in to save items to your wishlist.',
+        variant: 'destructive',
+      });
+      return false;
+    }
+
+    try {
+      const { item } = await request('/api/wishlist', {
+        method: 'POST',
+        body: JSON.stringify(input),
+      });
+      setItems(prev => [item, ...prev.filter(existing => existing.id !== item.id)]);
+      toast({
+        title: 'Added to Wishlist',
+        description: input.config
+          ? 'This design and its frame settings were saved to your wishlist.'
+          : 'This image was saved to your wishlist.',
+      });
+      return true;
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update wishlist',
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
+  const removeFromWishlist = async (id: string): Promise<boolean> => {
+    if (!authToken) return false;
+
+    try {
+      await request(`/api/wishlist/${id}`, { method: 'DELETE' });
+      setItems(prev => prev.filter(item => item.id !== id));
+      return true;
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update wishlist',
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
+  /**
+   * Add the image if it isn't wishlisted yet, otherwise remove it
+   */
+  const toggleWishlist = async (input: AddToWishlistInput): Promise<boolean> => {
+    const existing = findItem(input.imageUrl);
+    return existing ? removeFromWishlist(existing.id) : addToWishlist(input);
+  };
+
+  const isProductWishlisted = useCallback(
+    (productId: string) => items.some(item => item.productId === productId),
+    [items]
+  );
+
+  /**
+   * Wishlist toggle for existing shop products
+   */
+  const toggleProductWishlist = async (productId: string): Promise<boolean> => {
+    if (!user || !authToken) {
+      toast({
+        title: 'Authentication Required',
+        description: 'Please sign in to manage your wishlist.',
+        variant: 'destructive',
+      });
+      return false;
+    }
+
+    const existing = items.find(item => item.productId === productId);
+    if (existing) {
+      return removeFromWishlist(existing.id);
+    }
+
+    try {
+      const { item } = await request('/api/wishlist', {
+        method: 'POST',
+        body: JSON.stringify({ productId }),
+      });
+      setItems(prev => [item, ...prev.filter(other => other.id !== item.id)]);
+      toast({
+        title: 'Added to Wishlist',
+        description: 'Item has been added to your wishlist.',
+      });
+      return true;
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update wishlist',
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
+  /**
+   * Re-quote a wishlisted design and move it to the cart
+   */
+  const moveToCart = async (id: string): Promise<MoveToCartResult | null> => {
+    if (!authToken) return null;
+
+    try {
+      const result: MoveToCartResult = await request(`/api/wishlist/${id}/move-to-cart`, { method: 'POST' });
+      setItems(prev => prev.filter(item => item.id !== id));
+      await refreshCart();
+      toast({
+        title: 'Added to Cart',
+        description: result.priceChanged
+          ? `The price has changed since you saved this design. It is now $${result.price.toFixed(2)}.`
+          : 'Your saved design was moved to the cart.',
+      });
+      return result;
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to move item to cart',
+        variant: 'destructive',
+      });
+      return null;
+    }
+  };
+
+  return {
+    items,
+    loading,
+    isWishlisted,
+    findItem,
+    addToWishlist,
+    removeFromWishlist,
+    toggleWishlist,
+    isProductWishlisted,
+    toggleProductWishlist,
+    moveToCart,
+    refreshWishlist: fetchWishlist,
+  };
+}
@@ -0,0 +1,173 @@
+import {
+  isPoBox,
+  normalizeAddress,
+  normalizePhone,
+  normalizePostcode,
+  normalizeState,
+} from '../checkout/utils/address-normalizer';
+import { validateAddressRules, validateAddressForShipping } from '../checkout/validators/address.validator';
+import { AddressService } from '../checkout/services/address.service';
+import type { AddressVerificationProvider } from '../checkout/types/address.types';
+import type { ShippingAddress } from '../checkout/types/order.types';
+
+const address = (overrides: Partial<ShippingAddress> = {}): ShippingAddress => ({
+  firstName: 'Ada',
+  lastName: 'Lovelace',
+  address1: '1600 Amphitheatre Pkwy',
+  city: 'Mountain View',
+  state: 'CA',
+  zip: '94043',
+  country: 'US',
+  phone: '+16505550100',
+  ...overrides,
+});
+
+const codes = (overrides: Partial<ShippingAddress>, method?: Parameters<typeof validateAddressRules>[1]) =>
+  validateAddressRules(normalizeAddress(address(overrides)), method).map(issue => `${issue.field}:${issue.code}`);
+
+describe('address normalization', () => {
+  it('formats postcodes the national way', () => {
+    expect(normalizePostcode('sw1a1aa', 'GB')).toBe('SW1A 1AA');
+    expect(normalizePostcode('k1a0b1', 'CA')).toBe('K1A 0B1');
+    expect(normalizePostcode('1012ab', 'NL')).toBe('1012 AB');
+    expect(normalizePostcode('940431234', 'US')).toBe('94043-1234');
+    expect(normalizePostcode(' 10115 ', 'DE')).toBe('10115');
+  });
+
+  it('turns state names into codes', () => {
+    expect(normalizeState('California', 'US')).toBe('CA');
+    expect(normalizeState('ontario', 'CA')).toBe('ON');
+    expect(normalizeState('nsw', 'AU')).toBe('NSW');
+    expect(normalizeState('Bavaria', 'DE')).toBe('Bavaria');
+  });
+
+  it('puts phone numbers in E.164', () => {
+    expect(normalizePhone('(650) 555-0100', 'US')).toBe('+16505550100');
+    expect(normalizePhone('1-650-555-0100', 'US')).toBe('+16505550100');
+    expect(normalizePhone('020 7946 0958', 'GB')).toBe('+442079460958');
+    expect(normalizePhone('0044 20 7946 0958', 'DE')).toBe('+442079460958');
+    expect(normalizePhone('06 1234 5678', 'IT')).toBe('+390612345678');
+    expect(normalizePhone('12', 'US')).toBeNull();
+  });
+
+  it('detects PO boxes', () => {
+    expect(isPoBox({ address1: 'P.O. Box 123' })).toBe(true);
+    expect(isPoBox({ address1: '1 Main St', address2: 'PO Box 9' })).toBe(true);
+    expect(isPoBox({ address1: 'Postfach 10 01 01' })).toBe(true);
+    expect(isPoBox({ address1: '12 Polo Boxing Rd' })).toBe(false);
+  });
+});
+
+describe('validateAddressRules', () => {
+  it('accepts a complete address', () => {
+    expect(codes({})).toEqual([]);
+    expect(codes({ country: 'GB', state: undefined, zip: 'sw1a 1aa', phone: '02079460958' })).toEqual([]);
+  });
+
+  it('checks postcode formats per country', () => {
+    expect(codes({ zip: '9404' })).toEqual(['zip:invalid_postcode']);
+    expect(codes({ country: 'GB', state: undefined, zip: '12345', phone: undefined })).toEqual(['zip:invalid_postcode']);
+    expect(codes({ country: 'DE', state: undefined, zip: undefined, phone: undefined })).toEqual(['zip:required']);
+    expect(codes({ country: 'IE', state: undefined, zip: undefined, phone: undefined })).toEqual([]);
+  });
+
+  it('requires a known state in the US, Canada and Australia', () => {
+    expect(codes({ state: undefined })).toEqual(['state:required']);
+    expect(codes({ state: 'Narnia' })).toEqual(['state:invalid_state']);
+    expect(codes({ country: 'AU', state: 'Victoria', zip: '3000', phone: undefined })).toEqual([]);
+  });
+
+  it('warns about phone numbers that cannot be normalized', () => {
+    expect(codes({ phone: '555' })).toEqual(['phone:invalid_phone']);
+    // No calling code to normalize a national number with
+    const [issue] = validateAddressRules(normalizeAddress(address({ country: 'KR', state: undefined, zip: '03187', phone: '02 2100 2114' })));
+    expect(issue).toMatchObject({ field: 'phone', code: 'invalid_phone', severity: 'warning' });
+    expect(validateAddressForShipping(address({ phone: '555' })).valid).toBe(true);
+  });
+
+  it('rejects PO boxes only for courier methods', () => {
+    expect(codes({ address1: 'PO Box 42' }, 'Standard')).toEqual([]);
+    expect(codes({ address1: 'PO Box 42' }, 'Express')).toEqual(['address1:po_box']);
+  });
+
+  it('keeps the list-of-messages form for shipping checks', () => {
+    const result = validateAddressForShipping(address({ state: undefined, zip: 'abc' }));
+    expect(result.valid).toBe(false);
+    expect(result.errors).toHaveLength(2);
+  });
+});
+
+describe('AddressService.validateAddress', () => {
+  const supabase = {} as any;
+
+  const provider = (result: Awaited<ReturnType<AddressVerificationProvider['verify']>>): AddressVerificationProvider => ({
+    name: 'test',
+    verify: jest.fn().mockResolvedValue(result),
+  });
+
+  it('returns the normalized address when only local rules are configured', async () => {
+    const service = new AddressService(supabase, null);
+    const result = await service.validateAddress(address({ state: 'california', phone: '650 555 0100' }));
+
+    expect(result).toMatchObject({ valid: true, issues: [], suggestions: [], verified: false, provider: 'local' });
+    expect(result.address.state).toBe('CA');
+    expect(result.address.phone).toBe('+16505550100');
+  });
+
+  it('reports schema problems as field issues', async () => {
+    const service = new AddressService(supabase, null);
+    const result = await service.validateAddress(address({ city: '' }));
+
+    expect(result.valid).toBe(false);
+    expect(result.issues.map(issue => issue.field)).toContain('city');
+  });
+
+  it('does not call the provider for addresses failing local rules', async () => {
+    const verifier = provider({ deliverable: true, suggestions: [] });
+    const service = new AddressService(supabase, verifier);
+    const result = await service.validateAddress(address({ zip: '1' }));
+
+    expect(result.valid).toBe(false);
+    expect(verifier.verify).not.toHaveBeenCalled();
+  });
+
+  it('surfaces provider suggestions as a warning', async () => {
+    const verifier = provider({
+      deliverable: false,
+      suggestions: [
+        address({ address1: '1600 Amphitheatre Parkway', zip: '94043-1351' }),
+        address(),
+      ],
+    });
+    const service = new AddressService(supabase, verifier);
+    const result = await service.validateAddress(address(), 'Standard');
+
+    expect(verifier.verify).toHaveBeenCalledWith({ address: expect.objectContaining({ zip: '94043' }), shippingMethod: 'Standard' });
+    expect(result.valid).toBe(true);
+    expect(result.verified).toBe(false);
+    expect(result.issues).toEqual([expect.objectContaining({ code: 'unverified', severity: 'warning' })]);
+    // The suggestion matching what was entered is dropped
+    expect(result.suggestions).toHaveLength(1);
+    expect(result.suggestions[0].address1).toBe('1600 Amphitheatre Parkway');
+  });
+
+  it('skips the provider when asked to', async () => {
+    const verifier = provider({ deliverable: true, suggestions: [] });
+    const service = new AddressService(supabase, verifier);
+    await service.validateAddress(address(), 'Standard', { verify: false });
+
+    expect(verifier.verify).not.toHaveBeenCalled();
+  });
+
+  it('falls back to local rules when the provider fails', async () => {
+    const consoleWarn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const service = new AddressService(supabase, {
+      name: 'test',
+      verify: jest.fn().mockRejectedValue(new Error('timeout')),
+    });
+    const result = await service.validateAddress(address());
+
+    expect(result).toMatchObject({ valid: true, verified: false, provider: 'local' });
+    consoleWarn.mockRestore();
+  });
+});
@@ -0,0 +1,294 @@
+import { queryCatalog, matchesFilters, buildFacets, rankProducts } from '../prodigi-v2/azure-search/query-engine';
+import { CatalogMirrorClient, CatalogMirrorError } from '../prodigi-v2/azure-search/mirror-client';
+import {
+  CatalogSyncService,
+  CatalogSyncError,
+  diffCatalog,
+  hashProduct,
+  toDiffReport,
+  DIFF_REPORT_LIMIT,
+  type MirroredProduct,
+} from '../prodigi-v2/azure-search/catalog-sync';
+import type { ProdigiCatalogProduct } from '../prodigi-v2/azure-search/types';
+import { createMockSupabase } from '../../../__tests__/supabase-mock';
+
+jest.mock('@/lib/supabase/server', () => ({
+  createServiceClient: jest.fn(),
+}));
+
+const product = (overrides: Partial<ProdigiCatalogProduct> = {}): ProdigiCatalogProduct => ({
+  sku: 'GLOBAL-CFP-16X20',
+  shortcode: null,
+  description: 'Classic framed print',
+  category: 'Wall art',
+  productType: 'Framed prints',
+  productWidthMm: 406,
+  productHeightMm: 508,
+  maxProductDimensionsMm: 508,
+  productAspectRatio: 125,
+  fullProductHorizontalDimensions: 16,
+  fullProductVerticalDimensions: 20,
+  printedAreaHorizontalDimensions: 16,
+  printedAreaVerticalDimensions: 20,
+  sizeUnits: 'in',
+  frame: ['classic'],
+  frameColour: ['black', 'white'],
+  glaze: ['acrylic / perspex'],
+  mount: ['no mount / mat', '2.4mm'],
+  size: ['16x20'],
+  basePriceFrom: 2500,
+  priceCurrency: 'GBP',
+  lastUpdated: '2025-12-01T00:00:00Z',
+  sla: 48,
+  productionCountries: ['GB', 'US'],
+  destinationCountries: ['GB', 'US', 'DE'],
+  optimumDpi: 300,
+  searchWeighting: 1,
+  ...overrides,
+});
+
+const catalog = [
+  product(),
+  product({
+    sku: 'GLOBAL-BOX-8X10',
+    frame: ['box'],
+    frameColour: ['natural'],
+    maxProductDimensionsMm: 254,
+    productAspectRatio: 125,
+    size: ['8x10'],
+    productionCountries: ['GB'],
+    searchWeighting: 5,
+  }),
+  product({
+    sku: 'GLOBAL-CAN-20X20',
+    productType: 'Stretched canvas',
+    frame: undefined,
+    frameColour: undefined,
+    glaze: undefined,
+    mount: undefined,
+    edge: ['38mm'],
+    paperType: ['SC'],
+    maxProductDimensionsMm: 508,
+    productAspectRatio: 100,
+    size: ['20x20'],
+    destinationCountries: ['US'],
+  }),
+];
+
+describe('catalog query engine', () => {
+  it('matches the same filters the index would', () => {
+    expect(matchesFilters(catalog[0], { country: 'US' })).toBe(true);
+    expect(matchesFilters(catalog[2], { country: 'GB' })).toBe(false);
+    expect(matchesFilters(catalog[0], { country: 'US', frameColors: ['white', 'gold'] })).toBe(true);
+    expect(matchesFilters(catalog[1], { country: 'US', frameColors: ['white', 'gold'] })).toBe(false);
+    expect(matchesFilters(catalog[2], { country: 'US', productTypes: ['Framed prints'] })).toBe(false);
+    expect(matchesFilters(catalog[0], { country: 'US', minDimensionMm: 300, maxDimensionMm: 508 })).toBe(true);
+    expect(matchesFilters(catalog[1], { country: 'US', minDimensionMm: 300 })).toBe(false);
+    expect(matchesFilters(catalog[2], { country: 'US', aspectRatioMin: 95, aspectRatioMax: 105 })).toBe(true);
+  });
+
+  it('counts value facets per product and range facets in index buckets', () => {
+    const facets = buildFacets(catalog);
+
+    expect(facets.frameColour).toEqual([
+      { value: 'black', count: 1 },
+      { value: 'natural', count: 1 },
+      { value: 'white', count: 1 },
+    ]);
+    expect(facets.mount).toEqual([
+      { value: '2.4mm', count: 2 },
+      { value: 'no mount / mat', count: 2 },
+    ]);
+    expect(facets.maxProductDimensionsMm).toEqual([
+      { to: 300, count: 1 },
+      { from: 300, to: 500, count: 0 },
+      { from: 500, to: 700, count: 2 },
+      { from: 700, to: 1000, count: 0 },
+      { from: 1000, to: 1500, count: 0 },
+      { from: 1500, count: 0 },
+    ]);
+    expect(facets.productAspectRatio).toEqual([
+      { to: 95, count: 0 },
+      { from: 95, to: 105, count: 1 },
+      { from: 105, count: 2 },
+    ]);
+  });
+
+  it('ranks boosted production countries first, then by search weighting', () => {
+    const ranked = rankProducts(catalog, { scoringParameter: 'prodCountry-US' });
+    expect(ranked.map(p => p.sku)).toEqual(['GLOBAL-CAN-20X20', 'GLOBAL-CFP-16X20', 'GLOBAL-BOX-8X10']);
+
+    expect(rankProducts(catalog)[0].sku).toBe('GLOBAL-BOX-8X10');
+  });
+
+  it('pages products but facets every match', () => {
+    const result = queryCatalog(catalog, { country: 'US', category: 'Wall art' }, { top: 1, skip: 1 });
+
+    expect(result.totalCount).toBe(3);
+    expect(result.products).toHaveLength(1);
+    expect(result.facets?.size).toHaveLength(3);
+
+    const facetsOnly = queryCatalog(catalog, { country: 'US' }, { top: 0 });
+    expect(facetsOnly.products).toEqual([]);
+    expect(facetsOnly.totalCount).toBe(3);
+  });
+});
+
+describe('catalog diffs', () => {
+  const mirrored = (p: ProdigiCatalogProduct, removed = false): MirroredProduct => ({
+    sku: p.sku,
+    document: p,
+    contentHash: hashProduct(p),
+    removed,
+  });
+
+  it('hashes documents independent of key order and search score', () => {
+    const reordered = Object.fromEntries(Object.entries(catalog[0]).reverse()) as unknown as ProdigiCatalogProduct;
+    expect(hashProduct(reordered)).toBe(hashProduct(catalog[0]));
+    expect(hashProduct({ ...catalog[0], '@search.score': 3 })).toBe(hashProduct(catalog[0]));
+  });
+
+  it('reports added, changed and removed products', () => {
+    const previous = [mirrored(catalog[0]), mirrored(catalog[1]), mirrored(catalog[2], true)];
+    const next = [
+      { ...catalog[0], basePriceFrom: 2700, glaze: ['float glass'] },
+      catalog[2],
+      product({ sku: 'GLOBAL-NEW-A3' }),
+    ];
+
+    const diff = diffCatalog(previous, next);
+
+    expect(diff.added.map(p => p.sku)).toEqual(['GLOBAL-CAN-20X20', 'GLOBAL-NEW-A3']);
+    expect(diff.changed).toEqual([
+      { product: next[0], fields: ['basePriceFrom', 'glaze'] },
+    ]);
+    expect(diff.removed).toEqual(['GLOBAL-BOX-8X10']);
+    expect(diff.unchanged).toBe(0);
+  });
+
+  it('caps the stored report but keeps exact counts elsewhere', () => {
+    const added = Array.from({ length: DIFF_REPORT_LIMIT + 1 }, (_, i) => product({ sku: `SKU-${i}` }));
+    const report = toDiffReport({ added, changed: [], removed: [], unchanged: 0 });
+
+    expect(report.added).toHaveLength(DIFF_REPORT_LIMIT);
+    expect(report.truncated).toBe(true);
+  });
+});
+
+describe('CatalogSyncService', () => {
+  const source = (products: ProdigiCatalogProduct[], totalCount = products.length) => ({
+    fetchCatalogPage: jest.fn().mockResolvedValue({ products, totalCount }),
+  });
+
+  it('applies the diff to the mirror and records the run', async () => {
+    const existing = { sku: catalog[1].sku, document: catalog[1], content_hash: hashProduct(catalog[1]), removed_at: null };
+    const supabase = createMockSupabase([
+      { error: null },                                   // abandon stale runs
+      { data: null, error: null },                       // no sync running
+      { data: { id: 'sync-1' }, error: null },           // run started
+      { data: [existing], error: null },                 // current mirror
+      { error: null },                                   // upsert
+      { data: { id: 'sync-1', status: 'succeeded', trigger: 'schedule', product_count: 2, added_count: 2 }, error: null },
+    ]);
+    const service = new CatalogSyncService(supabase, { source: source([catalog[0], catalog[1]]) });
+
+    const run = await service.run();
+
+    expect(run).toMatchObject({ id: 'sync-1', status: 'succeeded', productCount: 2 });
+    expect(supabase.upsert).toHaveBeenCalledWith(
+      [expect.objectContaining({ sku: catalog[0].sku, sync_id: 'sync-1', removed_at: null })],
+      { onConflict: 'sku' }
+    );
+    expect(supabase.update).toHaveBeenLastCalledWith(expect.objectContaining({
+      status: 'succeeded',
+      added_count: 1,
+      changed_count: 0,
+      removed_count: 0,
+      diff: { added: [catalog[0].sku], removed: [], changed: [], truncated: false },
+    }));
+  });
+
+  it('refuses to remove a large share of the catalog unless forced', async () => {
+    const existing = catalog.map(p => ({ sku: p.sku, document: p, content_hash: hashProduct(p), removed_at: null }));
+    const supabase = createMockSupabase([
+      { error: null },
+      { data: null, error: null },
+      { data: { id: 'sync-2' }, error: null },
+      { data: existing, error: null },
+      { error: null },                                   // failure recorded
+    ]);
+    const service = new CatalogSyncService(supabase, { source: source([catalog[0]]) });
+
+    await expect(service.run()).rejects.toMatchObject({ statusCode: 409 });
+    expect(supabase.upsert).not.toHaveBeenCalled();
+    expect(supabase.update).toHaveBeenLastCalledWith(expect.objectContaining({ status: 'failed' }));
+  });
+
+  it('refuses an incomplete read of the index', async () => {
+    const supabase = createMockSupabase([
+      { error: null },
+      { data: null, error: null },
+      { data: { id: 'sync-3' }, error: null },
+      { error: null },
+    ]);
+    const service = new CatalogSyncService(supabase, { source: source([catalog[0]], 5000) });
+
+    await expect(service.run()).rejects.toThrow('returned 1 of 5000 products');
+  });
+
+  it('does not start while another sync is running', async () => {
+    const supabase = createMockSupabase([
+      { error: null },
+      { data: { id: 'sync-0' }, error: null },
+    ]);
+    const service = new CatalogSyncService(supabase, { source: source(catalog) });
+
+    await expect(service.run()).rejects.toBeInstanceOf(CatalogSyncError);
+    expect(supabase.insert).not.toHaveBeenCalled();
+  });
+});
+
+describe('CatalogMirrorClient', () => {
+  it('serves searches, facets and SKU lookups from the latest sync', async () => {
+    const supabase = createMockSupabase([
+      { data: { id: 'sync-1' }, error: null },
+      { data: catalog.map(document => ({ document })), error: null },
+    ]);
+    const client = new CatalogMirrorClient(() => supabase);
+
+    const result = await client.search({ country: 'GB' }, { top: 10 });
+    expect(result.totalCount).toBe(2);
+    expect(result.facets?.paperTypes).toEqual([]);
+
+    const facets = await client.getFacets({ country: 'US', productTypes: ['Stretched canvas'] });
+    expect(facets.paperTypes).toEqual([{ value: 'SC', label: 'Standard Canvas', count: 1, available: true }]);
+
+    expect(await client.getProductBySku('GLOBAL-CAN-20X20', 'GB')).toBeNull();
+    expect((await client.getProductBySku('GLOBAL-CAN-20X20', 'US'))?.sku).toBe('GLOBAL-CAN-20X20');
+
+    // Loaded once, then served from memory until the refresh interval passes
+    expect(supabase.range).toHaveBeenCalledTimes(1);
+  });
+
+  it('reloads when a newer sync has succeeded', async () => {
+    let now = 0;
+    const supabase = createMockSupabase([
+      { data: { id: 'sync-1' }, error: null },
+      { data: [{ document: catalog[0] }], error: null },
+      { data: { id: 'sync-2' }, error: null },
+      { data: catalog.map(document => ({ document })), error: null },
+    ]);
+    const client = new CatalogMirrorClient(() => supabase, () => now);
+
+    expect((await client.search({ country: 'US' })).totalCount).toBe(1);
+    now += 10 * 60 * 1000;
+    expect((await client.search({ country: 'US' })).totalCount).toBe(3);
+  });
+
+  it('fails clearly before the first sync', async () => {
+    const supabase = createMockSupabase([{ data: null, error: null }]);
+    const client = new CatalogMirrorClient(() => supabase);
+
+    await expect(client.search({ country: 'US' })).rejects.toBeInstanceOf(CatalogMirrorError);
+  });
+});
@@ -0,0 +1,117 @@
+import {
+  CREDIT_PACKS,
+  CreditService,
+  CreditsError,
+  MONTHLY_FREE_CREDITS,
+  getAllowancePeriod,
+  getGenerationCost,
+} from '../credits';
+import { createMockSupabase, type MockResult } from '../../../__tests__/supabase-mock';
+
+const ledgerRow = (overrides: Record<string, any> = {}) => ({
+  id: 'entry-1',
+  user_id: 'user-1',
+  kind: 'spend',
+  amount: -4,
+  balance_after: 6,
+  reference: 'ideogram:abc',
+  metadata: {},
+  created_at: '2025-12-18T10:00:00Z',
+  ...overrides,
+});
+
+/**
+ * Supabase mock whose rpc resolves by function name
+ */
+function createCreditsSupabase(rpcResults: Record<string, MockResult> = {}) {
+  const supabase = createMockSupabase();
+  supabase.rpc.mockImplementation((fn: string) =>
+    Promise.resolve(rpcResults[fn] ?? { data: ledgerRow({ kind: 'monthly_allowance' }), error: null })
+  );
+  return supabase;
+}
+
+function formData(entries: Record<string, string>) {
+  const data = new FormData();
+  Object.entries(entries).forEach(([key, value]) => data.append(key, value));
+  return data;
+}
+
+describe('getGenerationCost', () => {
+  it('charges one credit per requested image on generation endpoints', () => {
+    expect(getGenerationCost('v1/ideogram-v3/generate', formData({ num_images: '4' }))).toBe(4);
+    expect(getGenerationCost('v1/ideogram-v3/remix', formData({}))).toBe(1);
+    expect(getGenerationCost('v1/ideogram-v3/generate', formData({ num_images: '50' }))).toBe(8);
+  });
+
+  it('does not charge for other endpoints', () => {
+    expect(getGenerationCost('generate/abc/cancel', formData({}))).toBe(0);
+    expect(getGenerationCost('describe', formData({}))).toBe(0);
+  });
+});
+
+describe('getAllowancePeriod', () => {
+  it('is the UTC month', () => {
+    expect(getAllowancePeriod(new Date('2025-12-31T23:30:00Z'))).toBe('2025-12');
+    expect(getAllowancePeriod(new Date('2026-01-01T00:00:00Z'))).toBe('2026-01');
+  });
+});
+
+describe('CreditService', () => {
+  it('grants the monthly allowance before spending', async () => {
+    const supabase = createCreditsSupabase({ spend_credits: { data: ledgerRow(), error: null } });
+
+    const entry = await new CreditService(supabase).spend('user-1', 4, 'ideogram:abc');
+
+    expect(supabase.rpc.mock.calls.map(([fn]) => fn)).toEqual(['grant_credits', 'spend_credits']);
+    expect(supabase.rpc.mock.calls[0][1]).toMatchObject({
+      p_user_id: 'user-1',
+      p_amount: MONTHLY_FREE_CREDITS,
+      p_kind: 'monthly_allowance',
+      p_reference: getAllowancePeriod(),
+    });
+    expect(entry).toMatchObject({ id: 'entry-1', amount: -4, balanceAfter: 6 });
+  });
+
+  it('throws a 402 when the balance is too low', async () => {
+    const supabase = createCreditsSupabase({
+      spend_credits: { data: null, error: { message: 'insufficient_credits' } },
+    });
+
+    const spend = new CreditService(supabase).spend('user-1', 4, 'ideogram:abc');
+
+    await expect(spend).rejects.toBeInstanceOf(CreditsError);
+    await expect(spend).rejects.toMatchObject({ statusCode: 402 });
+  });
+
+  it('refunds a spend against its ledger entry', async () => {
+    const supabase = createCreditsSupabase({
+      grant_credits: { data: ledgerRow({ id: 'entry-2', kind: 'refund', amount: 4, balance_after: 10 }), error: null },
+    });
+    const service = new CreditService(supabase);
+
+    const refund = await service.refund(
+      { id: 'entry-1', userId: 'user-1', kind: 'spend', amount: -4, balanceAfter: 6, reference: 'ideogram:abc', metadata: {}, createdAt: '' },
+      'Ideogram API error 500'
+    );
+
+    expect(supabase.rpc).toHaveBeenCalledWith('grant_credits', expect.objectContaining({
+      p_amount: 4,
+      p_kind: 'refund',
+      p_reference: 'entry-1',
+    }));
+    expect(refund.balanceAfter).toBe(10);
+  });
+
+  it('grants purchases keyed on the checkout session', async () => {
+    const supabase = createCreditsSupabase();
+
+    await new CreditService(supabase).grantPurchase('user-1', CREDIT_PACKS[0], 'cs_test_123');
+
+    expect(supabase.rpc).toHaveBeenCalledWith('grant_credits', expect.objectContaining({
+      p_amount: CREDIT_PACKS[0].credits,
+      p_kind: 'purchase',
+      p_reference: 'cs_test_123',
+    }));
+  });
+});
@@ -0,0 +1,251 @@
+import {
+  DeliveryHistory,
+  MIN_SAMPLES,
+  businessDaysBetween,
+  buildTimingUpdate,
+  percentile,
+  recordFulfillmentTiming,
+  type FulfillmentTimingSample,
+  type ProdigiOrderEventData,
+} from '../prodigi-v2/delivery-history';
+import {
+  addBusinessDays,
+  estimateDeliveryTime,
+  formatArrivalWindow,
+  getArrivalWindow,
+} from '../prodigi-v2/delivery-estimator';
+import { createMockSupabase } from '../../../__tests__/supabase-mock';
+
+jest.mock('@/lib/supabase/server', () => ({
+  createServiceClient: jest.fn(),
+}));
+
+// Monday 1 December 2025, midnight UTC
+const MONDAY = Date.UTC(2025, 11, 1);
+const DAY = 24 * 60 * 60 * 1000;
+const at = (days: number) => new Date(MONDAY + days * DAY).toISOString();
+
+const sample = (overrides: Partial<FulfillmentTimingSample> = {}): FulfillmentTimingSample => ({
+  productType: 'Framed prints',
+  productionCountry: 'GB',
+  destinationCountry: 'DE',
+  shippingMethod: 'Standard',
+  submittedAt: at(0),
+  dispatchedAt: at(2),
+  deliveredAt: at(4),
+  ...overrides,
+});
+
+const samples = (count: number, overrides: Partial<FulfillmentTimingSample> = {}) =>
+  Array.from({ length: count }, () => sample(overrides));
+
+const event = (overrides: Partial<ProdigiOrderEventData> = {}): ProdigiOrderEventData => ({
+  created: at(0),
+  status: { stage: 'InProgress', details: { inProduction: 'InProgress' } },
+  items: [{ sku: 'GLOBAL-CFP-16X20' }],
+  shippingMethod: 'Standard',
+  recipient: { address: { countryCode: 'DE' } },
+  ...overrides,
+});
+
+describe('businessDaysBetween', () => {
+  it('counts weekdays only', () => {
+    // Monday to the following Monday
+    expect(businessDaysBetween(new Date(at(0)), new Date(at(7)))).toBe(5);
+  });
+
+  it('counts part days', () => {
+    expect(businessDaysBetween(new Date(at(0)), new Date(at(1.5)))).toBe(1.5);
+  });
+
+  it('skips a weekend in the middle', () => {
+    // Friday noon to Monday noon
+    expect(businessDaysBetween(new Date(at(4.5)), new Date(at(7.5)))).toBe(1);
+  });
+});
+
+describe('percentile', () => {
+  it('interpolates between values', () => {
+    expect(percentile([1, 2, 3, 4, 5], 0.5)).toBe(3);
+    expect(percentile([1, 2], 0.9)).toBeCloseTo(1.9);
+  });
+});
+
+describe('DeliveryHistory', () => {
+  it('returns nothing below the sample threshold', () => {
+    const history = new DeliveryHistory(samples(MIN_SAMPLES - 1));
+
+    expect(history.productionDays('GB', 'Framed prints')).toBeNull();
+    expect(history.transitDays('GB', 'DE', 'Standard')).toBeNull();
+  });
+
+  it('learns production and transit ranges', () => {
+    const history = new DeliveryHistory([
+      ...samples(10),
+      ...samples(10, { dispatchedAt: at(4), deliveredAt: at(9) }),
+    ]);
+
+    expect(history.productionDays('GB', 'Framed prints')).toEqual({ min: 2, max: 4, samples: 20 });
+    expect(history.transitDays('GB', 'DE', 'Standard')).toEqual({ min: 2, max: 3, samples: 20 });
+  });
+
+  it('falls back to every product made in the country', () => {
+    const history = new DeliveryHistory([
+      ...samples(5),
+      ...samples(15, { productType: 'Canvas' }),
+    ]);
+
+    expect(history.productionDays('GB', 'Framed prints')?.samples).toBe(20);
+    expect(history.productionDays('US', 'Framed prints')).toBeNull();
+  });
+
+  it('falls back from the destination country to its region', () => {
+    const history = new DeliveryHistory([
+      ...samples(10),
+      ...samples(10, { destinationCountry: 'FR' }),
+    ]);
+
+    expect(history.transitDays('GB', 'DE', 'Standard')?.samples).toBe(20);
+    expect(history.transitDays('GB', 'DE', 'Express')).toBeNull();
+  });
+
+  it('ignores shipments that were never delivered', () => {
+    const history = new DeliveryHistory(samples(MIN_SAMPLES, { deliveredAt: null }));
+
+    expect(history.transitDays('GB', 'DE', 'Standard')).toBeNull();
+    expect(history.productionDays('GB')).not.toBeNull();
+  });
+});
+
+describe('buildTimingUpdate', () => {
+  it('records production milestones when first seen', () => {
+    const started = buildTimingUpdate(null, event(), at(1));
+    expect(started).toMatchObject({
+      sku: 'GLOBAL-CFP-16X20',
+      destination_country: 'DE',
+      shipping_method: 'Standard',
+      submitted_at: at(0),
+      production_started_at: at(1),
+      production_completed_at: null,
+      dispatched_at: null,
+    });
+
+    const complete = buildTimingUpdate(started, event({
+      status: { stage: 'InProgress', details: { inProduction: 'Complete', shipping: 'Complete' } },
+      shipments: [{ status: 'Shipped', dispatchDate: at(2.5), fulfillmentLocation: { countryCode: 'GB' } }],
+    }), at(3));
+
+    expect(complete).toMatchObject({
+      production_country: 'GB',
+      production_started_at: at(1),
+      production_completed_at: at(3),
+      dispatched_at: at(2.5),
+      delivered_at: null,
+    });
+  });
+
+  it('uses the order for events without a recipient or method', () => {
+    const update = buildTimingUpdate(
+      null,
+      event({ recipient: undefined, shippingMethod: undefined }),
+      at(1),
+      { destinationCountry: 'FR', shippingMethod: 'Express' }
+    );
+
+    expect(update.destination_country).toBe('FR');
+    expect(update.shipping_method).toBe('Express');
+  });
+
+  it('marks delivery once every shipment is delivered', () => {
+    const update = buildTimingUpdate(null, event({
+      shipments: [{ status: 'Delivered', dispatchDate: at(2) }],
+    }), at(5));
+
+    expect(update.delivered_at).toBe(at(5));
+  });
+});
+
+describe('recordFulfillmentTiming', () => {
+  it('upserts the timing row with the resolved product type', async () => {
+    const supabase = createMockSupabase([{ data: null }, { error: null }]);
+    const resolveProductType = jest.fn().mockResolvedValue('Framed prints');
+
+    await recordFulfillmentTiming(supabase, {
+      dropshipOrderId: 'dropship-1',
+      orderId: 'order-1',
+      data: event(),
+      eventTime: at(1),
+      resolveProductType,
+    });
+
+    expect(resolveProductType).toHaveBeenCalledWith('GLOBAL-CFP-16X20', 'DE');
+    expect(supabase.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        dropship_order_id: 'dropship-1',
+        order_id: 'order-1',
+        product_type: 'Framed prints',
+        production_started_at: at(1),
+      }),
+      { onConflict: 'dropship_order_id' }
+    );
+  });
+
+  it('does not throw when the write fails', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const supabase = createMockSupabase([{ data: null }, { error: { message: 'boom' } }]);
+
+    await expect(recordFulfillmentTiming(supabase, {
+      dropshipOrderId: 'dropship-1',
+      orderId: 'order-1',
+      data: event({ items: undefined }),
+      eventTime: at(1),
+    })).resolves.toBeUndefined();
+
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+});
+
+describe('estimateDeliveryTime with history', () => {
+  it('uses the static tables without history', () => {
+    const estimate = estimateDeliveryTime('GB', 'DE', 'Standard');
+
+    expect(estimate.basis).toEqual({ production: 'table', shipping: 'table' });
+    expect(estimate.totalDays).toEqual({ min: 6, max: 9 });
+  });
+
+  it('prefers learned times where there are enough samples', () => {
+    const history = new DeliveryHistory(samples(MIN_SAMPLES));
+    const estimate = estimateDeliveryTime('GB', 'DE', 'Standard', 'wall-art', {
+      history,
+      productType: 'Framed prints',
+    });
+
+    expect(estimate.basis).toEqual({ production: 'history', shipping: 'history' });
+    expect(estimate.productionDays).toEqual({ min: 2, max: 2 });
+    expect(estimate.shippingDays).toEqual({ min: 2, max: 2 });
+    expect(estimate.totalDays).toEqual({ min: 4, max: 4 });
+  });
+
+  it('mixes learned production with table transit', () => {
+    const history = new DeliveryHistory(samples(MIN_SAMPLES, { deliveredAt: null }));
+    const estimate = estimateDeliveryTime('GB', 'DE', 'Standard', 'wall-art', { history });
+
+    expect(estimate.basis).toEqual({ production: 'history', shipping: 'table' });
+  });
+});
+
+describe('arrival windows', () => {
+  it('adds business days', () => {
+    // Friday + 1 business day is Monday
+    expect(addBusinessDays(new Date(at(4)), 1).toISOString().slice(0, 10)).toBe('2025-12-08');
+  });
+
+  it('turns an estimate into arrival dates', () => {
+    const estimate = estimateDeliveryTime('GB', 'DE', 'Standard');
+    const window = getArrivalWindow(estimate, new Date(at(0)));
+
+    expect(window).toEqual({ earliest: '2025-12-09', latest: '2025-12-12' });
+    expect(formatArrivalWindow(window)).toBe('Arrives Dec 9 - Dec 12');
+  });
+});
@@ -0,0 +1,186 @@
+import { EmailOutboxService, EmailOutboxError, getEmailRetryDelay } from '../email/outbox';
+import { renderEmail } from '../email/templates';
+import type { EmailTransport } from '../email/types';
+import { createMockSupabase } from '../../../__tests__/supabase-mock';
+
+const entryRow = (overrides: Record<string, any> = {}) => ({
+  id: 'email-1',
+  idempotency_key: 'order_shipped:order-1:shp-1',
+  template: 'order_shipped',
+  to_email: 'customer@example.com',
+  user_id: 'user-1',
+  order_id: 'order-1',
+  data: { orderNumber: 'ORD-1001', carrier: 'DHL', trackingNumber: 'TRK123', trackingUrl: 'https://track.example.com/TRK123' },
+  status: 'sending',
+  attempts: 1,
+  max_attempts: 5,
+  next_attempt_at: '2025-12-15T10:00:00.000Z',
+  created_at: '2025-12-15T10:00:00.000Z',
+  ...overrides,
+});
+
+const mockTransport = (send: EmailTransport['send']): EmailTransport => ({
+  name: 'mock',
+  send: jest.fn(send),
+});
+
+describe('renderEmail', () => {
+  it('renders the order confirmation with line items and totals in the order currency', () => {
+    const email = renderEmail('order_confirmation', {
+      orderNumber: 'ORD-1001',
+      customerName: 'Ada',
+      items: [{ name: 'Framed print', quantity: 2, unitPrice: 45 }],
+      subtotal: 90,
+      shipping: 10,
+      tax: 8,
+      total: 108,
+      currency: 'eur',
+    });
+
+    expect(email.subject).toBe('Order confirmed: ORD-1001');
+    expect(email.text).toContain('2 × Framed print: €90.00');
+    expect(email.text).toContain('Total: €108.00');
+    expect(email.html).toContain('Hi Ada,');
+  });
+
+  it('escapes interpolated values in the HTML body', () => {
+    const email = renderEmail('order_shipped', {
+      orderNumber: 'ORD-1001',
+      customerName: '<script>alert(1)</script>',
+      carrier: 'DHL',
+      trackingNumber: 'TRK123',
+      trackingUrl: 'https://track.example.com/?a=1&b=2',
+    });
+
+    expect(email.html).not.toContain('<script>');
+    expect(email.html).toContain('&lt;script&gt;');
+    expect(email.html).toContain('https://track.example.com/?a=1&amp;b=2');
+    expect(email.text).toContain('Tracking number: TRK123');
+  });
+});
+
+describe('EmailOutboxService', () => {
+  describe('enqueue', () => {
+    it('queues a pending email for the user and reports it as created', async () => {
+      const supabase = createMockSupabase([
+        { data: { email_preferences: {} }, error: null },
+        { data: [{ id: 'email-1' }], error: null },
+      ]);
+
+      const result = await new EmailOutboxService(supabase).enqueue({
+        template: 'order_in_production',
+        idempotencyKey: 'order_in_production:order-1',
+        to: 'customer@example.com',
+        userId: 'user-1',
+        orderId: 'order-1',
+        data: { orderNumber: 'ORD-1001' },
+      });
+
+      expect(result).toEqual({ created: true, skipped: false });
+      expect(supabase.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          idempotency_key: 'order_in_production:order-1',
+          to_email: 'customer@example.com',
+          status: 'pending',
+        }),
+        { onConflict: 'idempotency_key', ignoreDuplicates: true }
+      );
+    });
+
+    it('does not create a second entry for the same idempotency key', async () => {
+      const supabase = createMockSupabase([{ data: [], error: null }]);
+
+      const result = await new EmailOutboxService(supabase).enqueue({
+        template: 'payment_failed',
+        idempotencyKey: 'payment_failed:pi_123',
+        to: 'customer@example.com',
+        data: {},
+      });
+
+      expect(result.created).toBe(false);
+    });
+
+    it('records an opted-out category as skipped', async () => {
+      const supabase = createMockSupabase([
+        { data: { email_preferences: { shipping_updates: false } }, error: null },
+        { data: [{ id: 'email-1' }], error: null },
+      ]);
+
+      const result = await new EmailOutboxService(supabase).enqueue({
+        template: 'order_delivered',
+        idempotencyKey: 'order_delivered:order-1',
+        to: 'customer@example.com',
+        userId: 'user-1',
+        data: { orderNumber: 'ORD-1001' },
+      });
+
+      expect(result.skipped).toBe(true);
+      expect(supabase.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'skipped' }),
+        expect.anything()
+      );
+    });
+
+    it('falls back to the profile email and rejects entries without a recipient', async () => {
+      const supabase = createMockSupabase([{ data: null, error: null }]);
+
+      await expect(new EmailOutboxService(supabase).enqueue({
+        template: 'order_delivered',
+        idempotencyKey: 'order_delivered:order-1',
+        userId: 'user-1',
+        data: { orderNumber: 'ORD-1001' },
+      })).rejects.toThrow(EmailOutboxError);
+      expect(supabase.select).toHaveBeenCalledWith('email');
+    });
+  });
+
+  describe('processBatch', () => {
+    it('sends claimed entries and marks them sent', async () => {
+      const supabase = createMockSupabase([{ data: [entryRow()], error: null }]);
+      const transport = mockTransport(async () => ({ messageId: 'msg-1' }));
+
+      const result = await new EmailOutboxService(supabase, transport).processBatch(10);
+
+      expect(result).toEqual({ claimed: 1, sent: 1, retried: 0, failed: 0 });
+      expect(supabase.rpc).toHaveBeenCalledWith('claim_email_outbox', { p_limit: 10, p_lease_seconds: 120 });
+      expect(transport.send).toHaveBeenCalledWith(expect.objectContaining({
+        to: 'customer@example.com',
+        subject: 'Your order ORD-1001 has shipped',
+        idempotencyKey: 'order_shipped:order-1:shp-1',
+      }));
+      expect(supabase.update).toHaveBeenCalledWith(expect.objectContaining({
+        status: 'sent',
+        provider_message_id: 'msg-1',
+      }));
+    });
+
+    it('reschedules failed sends with backoff', async () => {
+      const supabase = createMockSupabase([{ data: [entryRow({ attempts: 2 })], error: null }]);
+      const transport = mockTransport(async () => { throw new Error('SMTP timeout'); });
+
+      const result = await new EmailOutboxService(supabase, transport).processBatch();
+
+      expect(result.retried).toBe(1);
+      expect(supabase.update).toHaveBeenCalledWith(expect.objectContaining({
+        status: 'pending',
+        last_error: 'SMTP timeout',
+      }));
+    });
+
+    it('marks the entry failed once attempts are exhausted', async () => {
+      const supabase = createMockSupabase([{ data: [entryRow({ attempts: 5 })], error: null }]);
+      const transport = mockTransport(async () => { throw new Error('Mailbox unavailable'); });
+
+      const result = await new EmailOutboxService(supabase, transport).processBatch();
+
+      expect(result.failed).toBe(1);
+      expect(supabase.update).toHaveBeenCalledWith(expect.objectContaining({ status: 'failed' }));
+    });
+  });
+
+  it('doubles the retry delay up to six hours', () => {
+    expect(getEmailRetryDelay(1)).toBe(60_000);
+    expect(getEmailRetryDelay(3)).toBe(240_000);
+    expect(getEmailRetryDelay(20)).toBe(6 * 60 * 60 * 1000);
+  });
+});
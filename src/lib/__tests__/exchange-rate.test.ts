@@ -0,0 +1,214 @@
+import { applyPriceEnding, roundToCurrency, toMinorUnits, type CurrencyService } from '../currency';
+import { ExchangeRateService, RATE_LOCK_TTL_MS } from '../checkout/services/exchange-rate.service';
+import { ExchangeRateError } from '../checkout/types/errors';
+import { PricingService } from '../checkout/services/pricing.service';
+import type { CartItem } from '../checkout/types/cart.types';
+import type { TaxCalculationRequest, TaxProvider } from '../checkout/types/tax.types';
+import { createMockSupabase } from '../../../__tests__/supabase-mock';
+
+const snapshotRow = (overrides: Record<string, any> = {}) => ({
+  id: 'snap-1',
+  user_id: 'user-1',
+  base_currency: 'USD',
+  quote_currency: 'EUR',
+  rate: '0.9200000000',
+  source: 'live',
+  rates_fetched_at: '2025-12-12T10:00:00.000Z',
+  stripe_session_id: null,
+  expires_at: '2025-12-12T10:30:00.000Z',
+  created_at: '2025-12-12T10:00:00.000Z',
+  ...overrides,
+});
+
+const mockCurrencyService = (rate = 0.92) => ({
+  getRateQuote: jest.fn().mockResolvedValue({
+    rate,
+    source: 'live',
+    fetchedAt: new Date('2025-12-12T10:00:00.000Z'),
+  }),
+}) as unknown as CurrencyService & { getRateQuote: jest.Mock };
+
+describe('exchange rates', () => {
+  describe('price rounding', () => {
+    it.each([
+      [23.4, 'USD', 23.99],
+      [23.995, 'EUR', 23.99],
+      [0.4, 'GBP', 0.99],
+      [24.3, 'CHF', 24.9],
+      [243.1, 'SEK', 249],
+      [8712, 'HUF', 8790],
+      [3472.4, 'JPY', 3480],
+      [43210, 'KRW', 43300],
+    ])('rounds %p %s up to %p', (amount, currency, expected) => {
+      expect(applyPriceEnding(amount, currency)).toBe(expected);
+    });
+
+    it('only rounds to decimal places for currencies without a rule', () => {
+      expect(applyPriceEnding(12.345, 'ZAR')).toBe(12.35);
+      expect(applyPriceEnding(1234.6, 'VND')).toBe(1235);
+    });
+
+    it('converts to Stripe minor units per currency', () => {
+      expect(toMinorUnits(23.99, 'usd')).toBe(2399);
+      expect(toMinorUnits(3480, 'JPY')).toBe(3480);
+      expect(toMinorUnits(19.999, 'EUR')).toBe(2000);
+      expect(roundToCurrency(3479.6, 'JPY')).toBe(3480);
+    });
+  });
+
+  describe('ExchangeRateService', () => {
+    it('reuses an unexpired snapshot that is not tied to a checkout', async () => {
+      const supabase = createMockSupabase([{ data: snapshotRow() }]);
+      const currency = mockCurrencyService();
+      const service = new ExchangeRateService(supabase, currency);
+
+      const snapshot = await service.lockRate('user-1', 'usd', 'eur');
+
+      expect(snapshot).toMatchObject({ id: 'snap-1', baseCurrency: 'USD', quoteCurrency: 'EUR', rate: 0.92 });
+      expect(supabase.is).toHaveBeenCalledWith('stripe_session_id', null);
+      expect(supabase.insert).not.toHaveBeenCalled();
+      expect(currency.getRateQuote).not.toHaveBeenCalled();
+    });
+
+    it('locks the current rate when there is no snapshot', async () => {
+      const supabase = createMockSupabase([{ data: null }, { data: snapshotRow({ id: 'snap-2' }) }]);
+      const currency = mockCurrencyService();
+      const service = new ExchangeRateService(supabase, currency);
+      const before = Date.now();
+
+      const snapshot = await service.lockRate('user-1', 'USD', 'EUR');
+
+      expect(snapshot.id).toBe('snap-2');
+      const inserted = supabase.insert.mock.calls[0][0];
+      expect(inserted).toMatchObject({
+        user_id: 'user-1',
+        base_currency: 'USD',
+        quote_currency: 'EUR',
+        rate: 0.92,
+        source: 'live',
+      });
+      expect(new Date(inserted.expires_at).getTime()).toBeGreaterThanOrEqual(before + RATE_LOCK_TTL_MS);
+    });
+
+    it('locks a rate of 1 for the same currency without fetching rates', async () => {
+      const supabase = createMockSupabase([{ data: null }, { data: snapshotRow({ quote_currency: 'USD', rate: 1 }) }]);
+      const currency = mockCurrencyService();
+      const service = new ExchangeRateService(supabase, currency);
+
+      await service.lockRate('user-1', 'USD', 'USD');
+
+      expect(supabase.insert.mock.calls[0][0]).toMatchObject({ rate: 1, source: 'identity' });
+      expect(currency.getRateQuote).not.toHaveBeenCalled();
+    });
+
+    it('rejects currencies without a rate', async () => {
+      const supabase = createMockSupabase([{ data: null }]);
+      const currency = mockCurrencyService();
+      currency.getRateQuote.mockRejectedValue(new Error('Unsupported currency: XYZ'));
+      const service = new ExchangeRateService(supabase, currency);
+
+      const error = await service.lockRate('user-1', 'USD', 'XYZ').catch((e) => e);
+
+      expect(error).toBeInstanceOf(ExchangeRateError);
+      expect(error.statusCode).toBe(400);
+      expect(supabase.insert).not.toHaveBeenCalled();
+    });
+
+    it('ties a snapshot to its checkout session for the life of the session', async () => {
+      const supabase = createMockSupabase([{ data: null, error: null }]);
+      const service = new ExchangeRateService(supabase, mockCurrencyService());
+
+      await service.attachToCheckoutSession('snap-1', 'cs_test_123');
+
+      expect(supabase.update).toHaveBeenCalledWith(expect.objectContaining({ stripe_session_id: 'cs_test_123' }));
+      expect(supabase.eq).toHaveBeenCalledWith('id', 'snap-1');
+    });
+  });
+
+  describe('PricingService conversion', () => {
+    const cartItem: CartItem = {
+      id: 'item-1',
+      productId: 'product-1',
+      sku: 'GLOBAL-CFP-16X20',
+      name: 'Framed print',
+      imageUrl: '',
+      quantity: 2,
+      price: 0,
+      originalPrice: 0,
+      currency: 'USD',
+      frameConfig: { size: '16x20', color: 'black', style: 'black', material: 'wood' },
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    const quote = {
+      shipmentMethod: 'Standard',
+      costSummary: {
+        items: { amount: '38.74', currency: 'USD' },
+        shipping: { amount: '0.00', currency: 'USD' },
+      },
+      items: [{
+        id: 'q-1',
+        sku: 'GLOBAL-CFP-16X20',
+        copies: 2,
+        unitCost: { amount: '19.37', currency: 'USD' },
+        attributes: {},
+        assets: [],
+      }],
+      shipments: [],
+    };
+
+    const taxAt = (rate: number, inclusive: boolean): TaxProvider => ({
+      name: 'test',
+      calculate: jest.fn(async (request: TaxCalculationRequest) => {
+        const itemsTax = request.lines.reduce((sum, line) => sum + line.amount, 0) * rate;
+        return {
+          itemsTax,
+          shippingTax: 0,
+          totalTax: itemsTax,
+          rate,
+          inclusive,
+          taxShipping: false,
+          taxName: 'VAT',
+          breakdown: [],
+          estimated: false,
+          provider: 'test',
+        };
+      }),
+    });
+
+    const priceInEuros = (taxProvider: TaxProvider) => {
+      const service = new PricingService({} as any, mockCurrencyService(), taxProvider);
+      (service as any).quotesAPI = { compareShippingMethods: jest.fn().mockResolvedValue([quote]) };
+      jest.spyOn(service as any, 'buildAttributes').mockResolvedValue({});
+
+      return service.calculatePricing([cartItem], 'DE', 'Standard', 'eur', undefined, async () => ({
+        id: 'snap-1',
+        userId: 'user-1',
+        baseCurrency: 'USD',
+        quoteCurrency: 'EUR',
+        rate: 0.92,
+        source: 'live',
+        ratesFetchedAt: new Date(),
+        stripeSessionId: null,
+        expiresAt: new Date(),
+        createdAt: new Date(),
+      }));
+    };
+
+    it('taxes the price-ended subtotal that is charged', async () => {
+      const pricing = await priceInEuros(taxAt(0.2, false));
+
+      expect(pricing.subtotal).toBe(pricing.itemPrices!.get(0)! * 2);
+      expect(pricing.itemsTax).toBe(roundToCurrency(pricing.subtotal * 0.2, 'eur'));
+      expect(pricing.total).toBe(roundToCurrency(pricing.subtotal + pricing.itemsTax!, 'eur'));
+    });
+
+    it('takes inclusive tax out of the price-ended subtotal', async () => {
+      const pricing = await priceInEuros(taxAt(0.2, true));
+
+      expect(pricing.itemsTax).toBe(roundToCurrency(pricing.subtotal - pricing.subtotal / 1.2, 'eur'));
+      expect(pricing.total).toBe(pricing.subtotal);
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import sharp from 'sharp';
+import {
+  IDEOGRAM_CAPABILITIES,
+  ImageGenerationError,
+  ImageGenerationService,
+  LocalProvider,
+  getImageGenerationProvider,
+  normalizeGenerationRequest,
+  type ImageGenerationProvider,
+} from '../image-generation';
+import { createMockSupabase } from '../../../__tests__/supabase-mock';
+
+function createMockCredits() {
+  const spend = { id: 'spend-1', userId: 'user-1', kind: 'spend', amount: -2, balanceAfter: 8, reference: null, metadata: {}, createdAt: '' };
+  return {
+    spend: jest.fn().mockResolvedValue(spend),
+    refund: jest.fn().mockResolvedValue({ ...spend, id: 'refund-1', kind: 'refund', amount: 2 }),
+  } as any;
+}
+
+describe('normalizeGenerationRequest', () => {
+  it('fills in defaults and normalizes casing', () => {
+    expect(normalizeGenerationRequest({ prompt: '  a lighthouse  ', style: 'REALISTIC' }, IDEOGRAM_CAPABILITIES))
+      .toEqual({ prompt: 'a lighthouse', aspectRatio: '1x1', numImages: 1, model: 'V_3', style: 'realistic' });
+  });
+
+  it('rejects options the provider does not support', () => {
+    expect(() => normalizeGenerationRequest({ prompt: 'x', aspectRatio: '7x3' }, IDEOGRAM_CAPABILITIES))
+      .toThrow('Unsupported aspect ratio: 7x3');
+    expect(() => normalizeGenerationRequest({ prompt: 'x', numImages: 9 }, IDEOGRAM_CAPABILITIES))
+      .toThrow(ImageGenerationError);
+    expect(() => normalizeGenerationRequest(
+      { prompt: 'x', seed: 1 },
+      { ...IDEOGRAM_CAPABILITIES, seeds: false }
+    )).toThrow('Unsupported option: seed');
+    expect(() => normalizeGenerationRequest({ prompt: ' ' }, IDEOGRAM_CAPABILITIES)).toThrow('Prompt is required');
+  });
+});
+
+describe('LocalProvider', () => {
+  it('renders the same images for the same request', async () => {
+    const provider = new LocalProvider();
+    const request = { prompt: 'a lighthouse', aspectRatio: '4x5', numImages: 2 };
+
+    const first = await provider.generate(request);
+    const second = await provider.generate(request);
+
+    expect(first.provider).toBe('local');
+    expect(first.images.map(image => image.url)).toEqual(second.images.map(image => image.url));
+    expect(first.images[0].url).not.toBe(first.images[1].url);
+
+    const buffer = Buffer.from(first.images[0].url.split(',')[1], 'base64');
+    const metadata = await sharp(buffer).metadata();
+    expect({ width: metadata.width, height: metadata.height }).toEqual({ width: 819, height: 1024 });
+  });
+
+  it('is selected with IMAGE_GENERATION_PROVIDER', () => {
+    expect(getImageGenerationProvider('local')).toBeInstanceOf(LocalProvider);
+    expect(() => getImageGenerationProvider('dall-e')).toThrow('Unknown image generation provider');
+  });
+});
+
+describe('ImageGenerationService', () => {
+  it('spends credits and records the generation with its provider and model', async () => {
+    const supabase = createMockSupabase();
+    const credits = createMockCredits();
+    const service = new ImageGenerationService(supabase, new LocalProvider(), credits);
+
+    const generation = await service.generate('user-1', { prompt: 'a lighthouse', numImages: 2 });
+
+    expect(credits.spend).toHaveBeenCalledWith('user-1', 2, `generation:${generation.id}`, expect.any(Object));
+    expect(supabase.insert).toHaveBeenCalledWith(expect.objectContaining({
+      id: generation.id,
+      provider: 'local',
+      model: 'local-v1',
+      status: 'generating',
+    }));
+    expect(supabase.update).toHaveBeenCalledWith(expect.objectContaining({ status: 'completed' }));
+    expect(generation).toMatchObject({ provider: 'local', model: 'local-v1', status: 'completed' });
+    expect(generation.images).toHaveLength(2);
+    expect(credits.refund).not.toHaveBeenCalled();
+  });
+
+  it('refunds the credits and marks the record failed when the provider fails', async () => {
+    const supabase = createMockSupabase();
+    const credits = createMockCredits();
+    const failing: ImageGenerationProvider = {
+      id: 'ideogram',
+      name: 'Ideogram',
+      capabilities: IDEOGRAM_CAPABILITIES,
+      generate: jest.fn().mockRejectedValue(new Error('Ideogram API error 500')),
+    };
+
+    const generation = new ImageGenerationService(supabase, failing, credits).generate('user-1', { prompt: 'x' });
+
+    await expect(generation).rejects.toMatchObject({ statusCode: 502 });
+    expect(supabase.update).toHaveBeenCalledWith(expect.objectContaining({
+      status: 'failed',
+      error: 'Ideogram API error 500',
+    }));
+    expect(credits.refund).toHaveBeenCalledWith(expect.objectContaining({ id: 'spend-1' }), 'ideogram generation failed');
+  });
+});
@@ -0,0 +1,348 @@
+import {
+  formatTimeRemaining,
+  isShippingUpgrade,
+  validateEditAddress,
+  OrderEditError,
+  OrderEditService,
+} from '../order-edits';
+import { createMockSupabase } from '../../../__tests__/supabase-mock';
+
+const NOW = new Date('2025-12-22T12:00:00Z');
+
+const orderRow = (overrides: Record<string, any> = {}) => ({
+  id: 'order-1',
+  order_number: 'ORD-1',
+  user_id: 'user-1',
+  status: 'processing',
+  payment_status: 'paid',
+  currency: 'EUR',
+  exchange_rate: 0.9,
+  base_currency: 'USD',
+  shipping_method: 'Standard',
+  shipping_address: { line1: '1 Old St', city: 'Berlin', postal_code: '10115', country: 'DE' },
+  customer_email: 'jane@example.com',
+  stripe_payment_intent_id: 'pi_order',
+  total_amount: 100,
+  shipping_amount: 10,
+  order_items: [{ id: 'item-1', quantity: 1, unit_price: 100, total_price: 100 }],
+  dropship_orders: [{
+    id: 'drop-1',
+    provider: 'prodigi',
+    provider_order_id: 'ord_1',
+    status: 'inprogress',
+    // An hour into the default two hour window
+    created_at: '2025-12-22T11:00:00Z',
+    reprint_of: null,
+  }],
+  ...overrides,
+});
+
+const prodigiOrder = {
+  id: 'ord_1',
+  shippingMethod: 'Standard',
+  recipient: {
+    name: 'Jane Doe',
+    email: 'jane@example.com',
+    address: { line1: '1 Old St', postalOrZipCode: '10115', countryCode: 'DE', townOrCity: 'Berlin' },
+  },
+  items: [{ sku: 'GLOBAL-CFPM-16X20', copies: 1, sizing: 'fillPrintArea', attributes: { color: 'black' }, assets: [{ printArea: 'default', url: 'https://example.com/a.jpg' }] }],
+};
+
+const quote = (method: string, amount: string) => ({
+  shipmentMethod: method,
+  costSummary: { items: { amount: '40.00', currency: 'USD' }, shipping: { amount, currency: 'USD' } },
+  shipments: [],
+  items: [],
+});
+
+const editRow = (values: any) => ({
+  data: { id: 'edit-1', order_id: 'order-1', created_at: NOW.toISOString(), ...values },
+  error: null,
+});
+
+function createDeps(actions: Partial<Record<'cancel' | 'changeRecipientDetails' | 'changeShippingMethod', 'Yes' | 'No'>> = {}) {
+  const available = (key: keyof typeof actions) => ({ isAvailable: actions[key] ?? 'Yes' });
+  return {
+    now: () => NOW,
+    stripe: {
+      checkout: {
+        sessions: {
+          create: jest.fn().mockResolvedValue({ id: 'cs_1', url: 'https://checkout.stripe.com/cs_1' }),
+        },
+      },
+      refunds: {
+        create: jest.fn().mockResolvedValue({ id: 're_1', amount: 10000, currency: 'eur', status: 'succeeded' }),
+        list: jest.fn(),
+      },
+    },
+    fulfillment: {
+      orders: { get: jest.fn().mockResolvedValue(prodigiOrder) },
+      orderActions: {
+        getActions: jest.fn().mockResolvedValue({
+          cancel: available('cancel'),
+          changeRecipientDetails: available('changeRecipientDetails'),
+          changeShippingMethod: available('changeShippingMethod'),
+          changeMetaData: { isAvailable: 'Yes' },
+        }),
+        updateRecipient: jest.fn().mockResolvedValue(prodigiOrder),
+        updateShippingMethod: jest.fn().mockResolvedValue(prodigiOrder),
+        cancel: jest.fn().mockResolvedValue(prodigiOrder),
+      },
+      quotes: {
+        create: jest.fn().mockResolvedValue([
+          quote('Budget', '5.00'),
+          quote('Standard', '10.00'),
+          quote('Express', '25.00'),
+        ]),
+      },
+    },
+  };
+}
+
+const defaultRespond = (order = orderRow()) => (table: string, op: string, values?: any) => {
+  if (table === 'orders' && op === 'select') return { data: order, error: null };
+  if (table === 'order_edits' && op === 'insert') return editRow(values);
+  return undefined;
+};
+
+describe('edit window helpers', () => {
+  it('formats the time left', () => {
+    expect(formatTimeRemaining(65 * 60 * 1000)).toBe('1h 05m');
+    expect(formatTimeRemaining(4 * 60 * 1000 + 9000)).toBe('4m 09s');
+    expect(formatTimeRemaining(-1)).toBe('0s');
+  });
+
+  it('only counts faster methods as upgrades', () => {
+    expect(isShippingUpgrade('Standard', 'Express')).toBe(true);
+    expect(isShippingUpgrade('Express', 'Standard')).toBe(false);
+    expect(isShippingUpgrade('Standard', 'Teleport')).toBe(false);
+  });
+
+  it('validates addresses', () => {
+    expect(validateEditAddress({
+      name: 'Jane Doe', line1: '2 New St', city: 'Berlin', postalCode: '10117', country: 'de',
+    })).toMatchObject({ country: 'DE', line2: undefined });
+    expect(() => validateEditAddress({ name: 'Jane Doe', country: 'DE' })).toThrow(OrderEditError);
+    expect(() => validateEditAddress({
+      name: 'Jane Doe', line1: '2 New St', city: 'Berlin', postalCode: '10117', country: 'DEU',
+    })).toThrow('Invalid country');
+  });
+});
+
+describe('OrderEditService', () => {
+  beforeEach(() => {
+    delete process.env.ORDER_EDIT_WINDOW_HOURS;
+  });
+
+  describe('getEditWindow', () => {
+    it('prices faster shipping at the order rate and counts down from submission', async () => {
+      const deps = createDeps();
+      const service = new OrderEditService(createMockSupabase(defaultRespond()), deps as any);
+
+      const window = await service.getEditWindow('user-1', 'order-1');
+
+      expect(window).toMatchObject({
+        open: true,
+        expiresAt: '2025-12-22T13:00:00.000Z',
+        canChangeAddress: true,
+        canUpgradeShipping: true,
+        canCancel: true,
+        address: { name: 'Jane Doe', country: 'DE' },
+      });
+      // Express is 15 USD more, at 0.9 EUR per USD
+      expect(window.shippingOptions).toEqual([{ method: 'Express', price: 13.5, currency: 'EUR' }]);
+    });
+
+    it('is closed once the window has run out, without asking Prodigi', async () => {
+      process.env.ORDER_EDIT_WINDOW_HOURS = '0.5';
+      const deps = createDeps();
+      const service = new OrderEditService(createMockSupabase(defaultRespond()), deps as any);
+
+      const window = await service.getEditWindow('user-1', 'order-1');
+
+      expect(window.open).toBe(false);
+      expect(deps.fulfillment.orderActions.getActions).not.toHaveBeenCalled();
+    });
+
+    it('is closed when Prodigi allows nothing', async () => {
+      const deps = createDeps({ cancel: 'No', changeRecipientDetails: 'No', changeShippingMethod: 'No' });
+      const service = new OrderEditService(createMockSupabase(defaultRespond()), deps as any);
+
+      await expect(service.getEditWindow('user-1', 'order-1')).resolves.toMatchObject({ open: false });
+    });
+
+    it("hides other customers' orders", async () => {
+      const service = new OrderEditService(createMockSupabase(defaultRespond()), createDeps() as any);
+
+      await expect(service.getEditWindow('user-2', 'order-1')).rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+
+  describe('changeAddress', () => {
+    const newAddress = { name: 'Jane Doe', line1: '2 New St', city: 'Berlin', postalCode: '10117', country: 'DE' };
+
+    it('updates the Prodigi recipient and the order', async () => {
+      const deps = createDeps();
+      const supabase = createMockSupabase(defaultRespond());
+      const service = new OrderEditService(supabase, deps as any);
+
+      const edit = await service.changeAddress('user-1', 'order-1', newAddress);
+
+      expect(deps.fulfillment.orderActions.updateRecipient).toHaveBeenCalledWith('ord_1', expect.objectContaining({
+        name: 'Jane Doe',
+        email: 'jane@example.com',
+        address: expect.objectContaining({ line1: '2 New St', postalOrZipCode: '10117', countryCode: 'DE' }),
+      }));
+      expect(supabase.writes).toContainEqual(expect.objectContaining({
+        table: 'orders',
+        values: expect.objectContaining({ shipping_address: expect.objectContaining({ line1: '2 New St', postal_code: '10117' }) }),
+      }));
+      expect(edit).toMatchObject({ type: 'address', status: 'applied' });
+    });
+
+    it('rejects a different country', async () => {
+      const deps = createDeps();
+      const service = new OrderEditService(createMockSupabase(defaultRespond()), deps as any);
+
+      await expect(service.changeAddress('user-1', 'order-1', { ...newAddress, country: 'FR' }))
+        .rejects.toThrow(/country can't be changed/);
+      expect(deps.fulfillment.orderActions.updateRecipient).not.toHaveBeenCalled();
+    });
+
+    it('refuses once Prodigi no longer allows it', async () => {
+      const deps = createDeps({ changeRecipientDetails: 'No' });
+      const service = new OrderEditService(createMockSupabase(defaultRespond()), deps as any);
+
+      await expect(service.changeAddress('user-1', 'order-1', newAddress)).rejects.toMatchObject({ statusCode: 409 });
+    });
+  });
+
+  describe('shipping upgrades', () => {
+    it('charges the difference through Stripe Checkout', async () => {
+      const deps = createDeps();
+      const supabase = createMockSupabase(defaultRespond());
+      const service = new OrderEditService(supabase, deps as any);
+
+      const result = await service.upgradeShipping('user-1', 'order-1', 'Express', {
+        successUrl: 'https://example.com/orders?upgrade=paid',
+        cancelUrl: 'https://example.com/orders?upgrade=cancelled',
+      });
+
+      expect(result.checkoutUrl).toBe('https://checkout.stripe.com/cs_1');
+      expect(deps.stripe.checkout.sessions.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          line_items: [expect.objectContaining({
+            price_data: expect.objectContaining({ currency: 'eur', unit_amount: 1350 }),
+          })],
+          metadata: { type: 'shipping_upgrade', order_id: 'order-1', order_edit_id: 'edit-1' },
+        }),
+        { idempotencyKey: 'order-edit-edit-1' }
+      );
+      expect(deps.fulfillment.orderActions.updateShippingMethod).not.toHaveBeenCalled();
+      expect(result.edit).toMatchObject({ status: 'pending_payment', amount: 13.5 });
+    });
+
+    it('rejects downgrades', async () => {
+      const service = new OrderEditService(createMockSupabase(defaultRespond()), createDeps() as any);
+
+      await expect(service.upgradeShipping('user-1', 'order-1', 'Budget', { successUrl: '', cancelUrl: '' }))
+        .rejects.toMatchObject({ statusCode: 409 });
+    });
+
+    const paidSession = {
+      id: 'cs_1',
+      payment_status: 'paid',
+      payment_intent: 'pi_upgrade',
+      metadata: { type: 'shipping_upgrade', order_id: 'order-1', order_edit_id: 'edit-1' },
+    } as any;
+
+    const upgradeRespond = (order = orderRow()) => (table: string, op: string, values?: any) => {
+      if (table === 'order_edits' && op === 'update') {
+        return editRow({ type: 'shipping_method', status: 'pending_payment', requested: { shippingMethod: 'Express' }, ...values });
+      }
+      return defaultRespond(order)(table, op, values);
+    };
+
+    it('applies a paid upgrade', async () => {
+      const deps = createDeps();
+      const supabase = createMockSupabase(upgradeRespond());
+      const service = new OrderEditService(supabase, deps as any);
+
+      const edit = await service.completeShippingUpgrade(paidSession);
+
+      expect(deps.fulfillment.orderActions.updateShippingMethod).toHaveBeenCalledWith('ord_1', 'Express');
+      expect(supabase.writes).toContainEqual(expect.objectContaining({
+        table: 'orders',
+        values: expect.objectContaining({ shipping_method: 'Express' }),
+      }));
+      expect(edit?.status).toBe('applied');
+      expect(deps.stripe.refunds.create).not.toHaveBeenCalled();
+    });
+
+    it('refunds the upgrade when the window closed before it was paid', async () => {
+      const deps = createDeps({ changeShippingMethod: 'No' });
+      const service = new OrderEditService(createMockSupabase(upgradeRespond()), deps as any);
+
+      const edit = await service.completeShippingUpgrade(paidSession);
+
+      expect(deps.fulfillment.orderActions.updateShippingMethod).not.toHaveBeenCalled();
+      expect(deps.stripe.refunds.create).toHaveBeenCalledWith(
+        expect.objectContaining({ payment_intent: 'pi_upgrade', metadata: expect.not.objectContaining({ order_id: expect.anything() }) }),
+        { idempotencyKey: 'order-edit-refund-edit-1' }
+      );
+      expect(edit?.status).toBe('refunded');
+    });
+
+    it('ignores an edit another delivery already claimed', async () => {
+      const deps = createDeps();
+      const service = new OrderEditService(createMockSupabase(defaultRespond()), deps as any);
+
+      await expect(service.completeShippingUpgrade(paidSession)).resolves.toBeNull();
+      expect(deps.fulfillment.orderActions.updateShippingMethod).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancel', () => {
+    it('cancels at Prodigi and refunds the order in full', async () => {
+      const deps = createDeps();
+      const order = orderRow();
+      const respond = defaultRespond(order);
+      const supabase = createMockSupabase((table, op, values) => {
+        // The refund reloads the order after the cancellation was saved
+        if (table === 'dropship_orders' && op === 'update') {
+          order.dropship_orders = order.dropship_orders.map((row: any) => ({ ...row, ...values }));
+        }
+        return respond(table, op, values);
+      });
+      supabase.rpc.mockImplementation((name: string, args: any) => Promise.resolve(
+        name === 'begin_order_refund'
+          ? { data: { id: 'refund-1' }, error: null }
+          : {
+            data: { id: args.p_refund_id, order_id: 'order-1', amount: args.p_amount, currency: args.p_currency, status: args.p_status, items: [] },
+            error: null,
+          }
+      ));
+      const service = new OrderEditService(supabase, deps as any);
+
+      const result = await service.cancel('user-1', 'order-1');
+
+      expect(deps.fulfillment.orderActions.cancel).toHaveBeenCalledWith('ord_1');
+      expect(deps.stripe.refunds.create).toHaveBeenCalledWith(
+        expect.objectContaining({ payment_intent: 'pi_order', amount: 10000 }),
+        { idempotencyKey: 'order-refund-refund-1' }
+      );
+      expect(result.refund).toMatchObject({ amount: 100, status: 'succeeded' });
+      expect(result.edit).toMatchObject({ type: 'cancel', status: 'applied' });
+    });
+
+    it('does not refund when Prodigi will not cancel', async () => {
+      const deps = createDeps({ cancel: 'No' });
+      const supabase = createMockSupabase(defaultRespond());
+      const service = new OrderEditService(supabase, deps as any);
+
+      await expect(service.cancel('user-1', 'order-1')).rejects.toMatchObject({ statusCode: 409 });
+      expect(deps.stripe.refunds.create).not.toHaveBeenCalled();
+      expect(supabase.rpc).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -35,6 +35,18 @@ describe('OrderRetryManager', () => {
       set: jest.fn().mockReturnThis(),
       lte: jest.fn().mockReturnThis(),
       order: jest.fn().mockReturnThis(),
+      // claim_retry_operations hands back the claimed row
+      rpc: jest.fn().mockResolvedValue({
+        data: [{
+          id: 'retry-123',
+          type: 'prodigi_order_creation',
+          order_id: 'order-123',
+          payload: { orderId: 'order-123' },
+          status: 'processing',
+          attempts: 1,
+        }],
+        error: null,
+      }),
     };
 
     // Mock createServiceClient
@@ -281,6 +293,59 @@ describe('OrderRetryManager', () => {
       expect(result).toBe(false);
     });
 
+    it('should not run an operation another worker has claimed', async () => {
+      mockSupabase.single.mockResolvedValueOnce({
+        data: { id: 'retry-123', type: 'prodigi_order_creation', status: 'processing', attempts: 1 },
+        error: null,
+      });
+      mockSupabase.rpc.mockResolvedValueOnce({ data: [], error: null });
+
+      const result = await orderRetryManager.processOperation('retry-123');
+
+      expect(result).toBe(false);
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('claim_retry_operations', expect.objectContaining({
+        p_operation_id: 'retry-123',
+        p_limit: 1,
+      }));
+      expect(mockProdigiClient.createOrder).not.toHaveBeenCalled();
+    });
+
+    it('should dead-letter an operation that exhausted its attempts', async () => {
+      mockSupabase.single.mockResolvedValueOnce({
+        data: { id: 'retry-123', type: 'prodigi_order_creation', status: 'pending', attempts: 3 },
+        error: null,
+      });
+
+      const result = await orderRetryManager.processOperation('retry-123');
+
+      expect(result).toBe(false);
+      expect(mockSupabase.update).toHaveBeenCalledWith(expect.objectContaining({ status: 'dead_letter' }));
+      expect(mockSupabase.rpc).not.toHaveBeenCalled();
+    });
+
+    it('should cancel instead of submitting an order refunded while it waited', async () => {
+      mockSupabase.single
+        .mockResolvedValueOnce({
+          data: { id: 'retry-123', type: 'prodigi_order_creation', status: 'pending', attempts: 0 },
+          error: null,
+        })
+        .mockResolvedValueOnce({
+          data: { id: 'order-123', status: 'refunded', payment_status: 'refunded', order_items: [] },
+          error: null,
+        });
+
+      const result = await orderRetryManager.processOperation('retry-123');
+
+      expect(result).toBe(true);
+      expect(mockProdigiClient.createOrder).not.toHaveBeenCalled();
+      expect(mockSupabase.update).toHaveBeenCalledTimes(1);
+      expect(mockSupabase.update).toHaveBeenCalledWith(expect.objectContaining({
+        status: 'cancelled',
+        locked_by: null,
+        locked_until: null,
+      }));
+    });
+
     it('should handle invalid SKU', async () => {
       const operationId = 'retry-operation-123';
       const mockOrder = {
@@ -326,6 +391,54 @@ describe('OrderRetryManager', () => {
     });
   });
 
+  describe('executeClaimedOperation', () => {
+    const claimed = (attempts: number) => ({
+      id: 'retry-123',
+      type: 'notification_send' as const,
+      order_id: 'order-123',
+      payload: { type: 'order_update', title: 'Update', message: 'Shipped' },
+      attempts,
+    });
+
+    it('should complete a claimed operation and release its lock', async () => {
+      mockSupabase.rpc.mockResolvedValueOnce({ data: 'notification-1', error: null });
+
+      const outcome = await orderRetryManager.executeClaimedOperation(claimed(1));
+
+      expect(outcome).toBe('completed');
+      expect(mockSupabase.update).toHaveBeenCalledWith(expect.objectContaining({
+        status: 'completed',
+        locked_by: null,
+        locked_until: null,
+      }));
+    });
+
+    it('should reschedule with backoff while attempts remain', async () => {
+      mockSupabase.rpc.mockResolvedValueOnce({ data: null, error: { message: 'fetch failed' } });
+      const before = Date.now();
+
+      const outcome = await orderRetryManager.executeClaimedOperation(claimed(2));
+
+      expect(outcome).toBe('rescheduled');
+      const update = mockSupabase.update.mock.calls[0][0];
+      expect(update).toMatchObject({ status: 'pending', error_code: 'NETWORK_ERROR', locked_by: null });
+      // baseDelay 1000 * backoffMultiplier 2 ^ (attempt 2 - 1)
+      expect(new Date(update.next_retry).getTime()).toBeGreaterThanOrEqual(before + 2000);
+    });
+
+    it('should dead-letter the operation when the last attempt fails', async () => {
+      mockSupabase.rpc.mockResolvedValueOnce({ data: null, error: { message: 'fetch failed' } });
+
+      const outcome = await orderRetryManager.executeClaimedOperation(claimed(3));
+
+      expect(outcome).toBe('dead_lettered');
+      expect(mockSupabase.update).toHaveBeenCalledWith(expect.objectContaining({
+        status: 'dead_letter',
+        error: 'Failed to create notification: fetch failed',
+      }));
+    });
+  });
+
   describe('getPendingOperations', () => {
     it('should retrieve pending operations', async () => {
       const mockOperations = [
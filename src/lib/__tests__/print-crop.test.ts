@@ -0,0 +1,130 @@
+import sharp from 'sharp';
+import {
+  DEFAULT_ARTWORK_CROP,
+  getCropRect,
+  getPrintSettings,
+  isDefaultCrop,
+  normalizeArtworkCrop,
+} from '../print-crop';
+import { preparePrintAsset } from '../print-assets';
+import { createMockSupabase } from '../../../__tests__/supabase-mock';
+
+/**
+ * Supabase mock with a storage bucket whose uploads fail with uploadError
+ */
+function createStorageSupabase(uploadError: any = null) {
+  const storage: any = {
+    from: jest.fn(() => storage),
+    upload: jest.fn((_path: string, _body: Buffer, _options: any) => Promise.resolve({ error: uploadError })),
+    getPublicUrl: jest.fn((path: string) => ({ data: { publicUrl: `https://cdn.example.com/print-assets/${path}` } })),
+  };
+  return Object.assign(createMockSupabase(), { storage });
+}
+
+const request = (overrides: Record<string, any> = {}) => ({
+  orderId: 'order-1',
+  orderItemId: 'item-1',
+  imageUrl: 'https://images.example.com/art.png',
+  size: '8x10',
+  settings: { sizing: 'fillPrintArea' as const, crop: { focalX: 0, focalY: 0.5, zoom: 2 } },
+  ...overrides,
+});
+
+describe('getCropRect', () => {
+  it('crops the long side of the image to the print aspect ratio', () => {
+    // Landscape image on a square print: full height, centred
+    expect(getCropRect({ width: 2000, height: 1000 }, 1)).toEqual({ x: 0.25, y: 0, width: 0.5, height: 1 });
+  });
+
+  it('centres the crop on the focal point and keeps it inside the image', () => {
+    const rect = getCropRect({ width: 2000, height: 1000 }, 1, { focalX: 0.9, focalY: 0.5, zoom: 1 });
+    expect(rect.x).toBe(0.5);
+
+    const zoomed = getCropRect({ width: 1000, height: 1000 }, 1, { focalX: 0.25, focalY: 0.75, zoom: 2 });
+    expect(zoomed).toEqual({ x: 0, y: 0.5, width: 0.5, height: 0.5 });
+  });
+});
+
+describe('print settings', () => {
+  it('clamps crops and rejects anything else', () => {
+    expect(normalizeArtworkCrop({ focalX: 1.5, focalY: -1, zoom: 10 })).toEqual({ focalX: 1, focalY: 0, zoom: 4 });
+    expect(normalizeArtworkCrop({ focalX: '0.5', focalY: 0.5, zoom: 1 })).toBeNull();
+    expect(normalizeArtworkCrop(null)).toBeNull();
+    expect(isDefaultCrop(DEFAULT_ARTWORK_CROP)).toBe(true);
+  });
+
+  it('defaults to fill and drops default or non-fill crops', () => {
+    expect(getPrintSettings(null)).toEqual({ sizing: 'fillPrintArea' });
+    expect(getPrintSettings({ sizing: 'bogus', crop: DEFAULT_ARTWORK_CROP })).toEqual({ sizing: 'fillPrintArea' });
+    expect(getPrintSettings({ sizing: 'fitPrintArea', crop: { focalX: 0.2, focalY: 0.5, zoom: 1 } }))
+      .toEqual({ sizing: 'fitPrintArea' });
+    expect(getPrintSettings({ wrap: 'Black', crop: { focalX: 0.2, focalY: 0.5, zoom: 1 } } as any))
+      .toEqual({ sizing: 'fillPrintArea', crop: { focalX: 0.2, focalY: 0.5, zoom: 1 } });
+  });
+});
+
+describe('preparePrintAsset', () => {
+  const originalFetch = global.fetch;
+  let image: Buffer;
+
+  beforeAll(async () => {
+    image = await sharp({
+      create: { width: 400, height: 400, channels: 3, background: { r: 200, g: 50, b: 50 } },
+    }).png().toBuffer();
+  });
+
+  beforeEach(() => {
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      arrayBuffer: () => Promise.resolve(image.buffer.slice(image.byteOffset, image.byteOffset + image.byteLength)),
+    }) as any;
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('sends the original image when there is no custom crop', async () => {
+    const supabase = createStorageSupabase();
+
+    const asset = await preparePrintAsset(supabase, request({ settings: { sizing: 'fitPrintArea' } }));
+
+    expect(asset).toEqual({ url: 'https://images.example.com/art.png', sizing: 'fitPrintArea' });
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('reuses an asset rendered by an earlier attempt', async () => {
+    const asset = await preparePrintAsset(createStorageSupabase(), request({ printAssetUrl: 'https://cdn.example.com/a.jpg' }));
+
+    expect(asset).toEqual({ url: 'https://cdn.example.com/a.jpg', sizing: 'fillPrintArea' });
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('renders the crop, uploads it and records it on the order item', async () => {
+    const supabase = createStorageSupabase();
+
+    const asset = await preparePrintAsset(supabase, request());
+
+    expect(asset).toEqual({
+      url: 'https://cdn.example.com/print-assets/orders/order-1/item-1.jpg',
+      sizing: 'fillPrintArea',
+    });
+    expect(supabase.storage.from).toHaveBeenCalledWith('print-assets');
+
+    // 8x10 at zoom 2 on a square image: 160x200 from the left edge
+    const [path, body] = supabase.storage.upload.mock.calls[0];
+    expect(path).toBe('orders/order-1/item-1.jpg');
+    const metadata = await sharp(body).metadata();
+    expect({ width: metadata.width, height: metadata.height, format: metadata.format })
+      .toEqual({ width: 160, height: 200, format: 'jpeg' });
+
+    expect(supabase.from).toHaveBeenCalledWith('order_items');
+    expect(supabase.update).toHaveBeenCalledWith({ print_asset_url: asset.url });
+  });
+
+  it('fails rather than printing the uncropped image', async () => {
+    const supabase = createStorageSupabase({ message: 'Bucket not found' });
+
+    await expect(preparePrintAsset(supabase, request())).rejects.toThrow('Failed to upload print asset: Bucket not found');
+  });
+});
@@ -0,0 +1,144 @@
+import {
+  assessPrintQuality,
+  assessPrintSizes,
+  getEffectiveDpi,
+  ratePrintDpi,
+} from '../print-quality';
+import { PrintQualityService } from '../checkout/services/print-quality.service';
+import { PrintQualityError } from '../checkout/types/errors';
+import { parseSizeInches } from '../utils/size-conversion';
+import type { CartItem } from '../checkout/types/cart.types';
+import { createMockSupabase } from '../../../__tests__/supabase-mock';
+
+const item = (id: string, size: string, sku = 'GLOBAL-FAP-16X20-f7acd7d2'): CartItem => ({
+  id,
+  productId: `product-${id}`,
+  sku,
+  name: 'Print',
+  imageUrl: '',
+  quantity: 1,
+  price: 50,
+  originalPrice: 50,
+  currency: 'USD',
+  frameConfig: { size, color: 'black', style: 'black', material: 'wood' },
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+describe('print quality', () => {
+  it('parses sizes in inches', () => {
+    expect(parseSizeInches('16x20')).toEqual({ width: 16, height: 20 });
+    expect(parseSizeInches('8.5 × 11')).toEqual({ width: 8.5, height: 11 });
+    expect(parseSizeInches('large')).toBeNull();
+  });
+
+  it('rates DPI against the thresholds', () => {
+    expect(ratePrintDpi(300)).toBe('excellent');
+    expect(ratePrintDpi(150)).toBe('good');
+    expect(ratePrintDpi(100)).toBe('poor');
+    expect(ratePrintDpi(74)).toBe('blocked');
+  });
+
+  it('matches the print area to the image orientation', () => {
+    // A landscape image on a portrait size prints on its landscape variant
+    expect(getEffectiveDpi({ width: 4000, height: 3000 }, { width: 16, height: 20 })).toBe(187.5);
+  });
+
+  it('uses the smaller axis so the image still covers the print area', () => {
+    expect(getEffectiveDpi({ width: 2000, height: 2000 }, { width: 8, height: 10 })).toBe(200);
+  });
+
+  it('assesses a size from its nominal inches', () => {
+    expect(assessPrintQuality({ width: 1024, height: 1024 }, '12x12')).toEqual({
+      size: '12x12',
+      dpi: 85,
+      rating: 'poor',
+      recommendedPixels: { width: 1800, height: 1800 },
+    });
+  });
+
+  it('prefers Prodigi print-area pixels when known', () => {
+    // 16x20 with a 1" canvas wrap each side: 18x22in at 300 DPI
+    const quality = assessPrintQuality({ width: 3600, height: 4400 }, '16x20', { width: 5400, height: 6600 });
+    expect(quality?.dpi).toBe(200);
+  });
+
+  it('rates a zoomed crop on the pixels it keeps', () => {
+    const crop = { focalX: 0.3, focalY: 0.5, zoom: 2 };
+    expect(assessPrintQuality({ width: 2000, height: 2000 }, '8x8')?.dpi).toBe(250);
+    expect(assessPrintQuality({ width: 2000, height: 2000 }, '8x8', null, crop)?.dpi).toBe(125);
+    expect(assessPrintSizes({ width: 2000, height: 2000 }, ['8x8'], crop)['8x8'].rating).toBe('poor');
+  });
+
+  it('skips images without dimensions and unparseable sizes', () => {
+    expect(assessPrintQuality(null, '16x20')).toBeNull();
+    expect(assessPrintQuality({ width: 0, height: 0 }, '16x20')).toBeNull();
+    expect(assessPrintQuality({ width: 1024, height: 1024 }, 'large')).toBeNull();
+    expect(Object.keys(assessPrintSizes({ width: 1024, height: 1024 }, ['8x8', 'large']))).toEqual(['8x8']);
+  });
+});
+
+describe('PrintQualityService', () => {
+  it('rates items against the print area of their base SKU', async () => {
+    const supabase = createMockSupabase([{ data: [{ id: 'product-1', images: { width: 3000, height: 3750 } }] }]);
+    const productsAPI = { getPrintAreaDimensions: jest.fn().mockResolvedValue({ width: 4800, height: 6000 }) };
+    const service = new PrintQualityService(supabase, productsAPI as any);
+
+    const results = await service.assessCartItems([item('1', '16x20')]);
+
+    expect(productsAPI.getPrintAreaDimensions).toHaveBeenCalledWith('GLOBAL-FAP-16X20', 'default', {});
+    expect(results).toEqual([
+      expect.objectContaining({ itemId: '1', quality: expect.objectContaining({ dpi: 187, rating: 'good' }) }),
+    ]);
+  });
+
+  it('falls back to the nominal size when the print area lookup fails', async () => {
+    const supabase = createMockSupabase([{ data: [{ id: 'product-1', images: [{ width: 1600, height: 2000 }] }] }]);
+    const productsAPI = { getPrintAreaDimensions: jest.fn().mockRejectedValue(new Error('Not found')) };
+    const service = new PrintQualityService(supabase, productsAPI as any);
+
+    const [result] = await service.assessCartItems([item('1', '16x20')]);
+
+    expect(result.quality.dpi).toBe(100);
+  });
+
+  it('blocks checkout for items below the DPI floor', async () => {
+    const supabase = createMockSupabase([{
+      data: [
+        { id: 'product-1', images: { width: 1024, height: 1024 } },
+        { id: 'product-2', images: { width: 1024, height: 1024 } },
+      ],
+    }]);
+    const service = new PrintQualityService(supabase);
+
+    const error = await service
+      .assertPrintable([item('1', '8x8'), item('2', '24x24')])
+      .catch(caught => caught);
+
+    expect(error).toBeInstanceOf(PrintQualityError);
+    expect(error.statusCode).toBe(422);
+    expect(error.details.items).toEqual([
+      expect.objectContaining({ itemId: '2', size: '24x24', dpi: 42 }),
+    ]);
+  });
+
+  it('blocks checkout when the crop zooms in past the DPI floor', async () => {
+    const products = { data: [{ id: 'product-1', images: { width: 1024, height: 1024 } }] };
+    const supabase = createMockSupabase([products, products]);
+    const service = new PrintQualityService(supabase);
+    const cropped = item('1', '8x8');
+    cropped.frameConfig.crop = { focalX: 0.5, focalY: 0.5, zoom: 4 };
+
+    await expect(service.assertPrintable([item('1', '8x8')])).resolves.toBeUndefined();
+    await expect(service.assertPrintable([cropped])).rejects.toMatchObject({
+      details: { items: [expect.objectContaining({ itemId: '1', dpi: 32 })] },
+    });
+  });
+
+  it('lets items without image dimensions through', async () => {
+    const supabase = createMockSupabase([{ data: [{ id: 'product-1', images: { width: null, height: null } }] }]);
+    const service = new PrintQualityService(supabase);
+
+    await expect(service.assertPrintable([item('1', '40x40')])).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,129 @@
+import {
+  SwrCache,
+  MemoryCacheBackend,
+  PostgresRateLimiter,
+  type ProdigiCacheBackend,
+} from '../prodigi-v2/cache';
+
+const flush = async () => {
+  for (let i = 0; i < 10; i++) await Promise.resolve();
+};
+
+describe('prodigi cache', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('SwrCache', () => {
+    it('serves fresh entries without calling the loader', async () => {
+      const cache = new SwrCache(new MemoryCacheBackend());
+      const loader = jest.fn().mockResolvedValue({ sku: 'GLOBAL-CAN-10X10' });
+
+      await cache.getOrLoad('product', loader, { ttl: 60_000 });
+      const second = await cache.getOrLoad('product', loader, { ttl: 60_000 });
+
+      expect(second).toEqual({ sku: 'GLOBAL-CAN-10X10' });
+      expect(loader).toHaveBeenCalledTimes(1);
+      expect(await cache.getStats(true)).toMatchObject({ backend: 'memory', size: 1, hits: 1, misses: 1 });
+    });
+
+    it('returns stale entries immediately and refreshes them in the background', async () => {
+      jest.useFakeTimers();
+      const cache = new SwrCache(new MemoryCacheBackend());
+
+      await cache.getOrLoad('quote', async () => 'v1', { ttl: 1000, staleTtl: 10_000 });
+      jest.advanceTimersByTime(2000);
+
+      const loader = jest.fn().mockResolvedValue('v2');
+      const first = cache.getOrLoad('quote', loader, { ttl: 1000, staleTtl: 10_000 });
+      const second = cache.getOrLoad('quote', loader, { ttl: 1000, staleTtl: 10_000 });
+      expect(await Promise.all([first, second])).toEqual(['v1', 'v1']);
+      await flush();
+
+      expect(loader).toHaveBeenCalledTimes(1);
+      expect(await cache.getOrLoad('quote', loader, { ttl: 1000 })).toBe('v2');
+      expect(await cache.getStats(true)).toMatchObject({ staleHits: 2, revalidations: 1 });
+    });
+
+    it('reloads once the stale window has passed', async () => {
+      jest.useFakeTimers();
+      const cache = new SwrCache(new MemoryCacheBackend());
+
+      await cache.getOrLoad('product', async () => 'v1', { ttl: 1000, staleTtl: 1000 });
+      jest.advanceTimersByTime(3000);
+
+      expect(await cache.getOrLoad('product', async () => 'v2', { ttl: 1000 })).toBe('v2');
+    });
+
+    it('shares one load between concurrent misses', async () => {
+      const cache = new SwrCache(new MemoryCacheBackend());
+      let resolve!: (value: string) => void;
+      const loader = jest.fn(() => new Promise<string>(r => { resolve = r; }));
+
+      const first = cache.getOrLoad('product', loader, { ttl: 1000 });
+      const second = cache.getOrLoad('product', loader, { ttl: 1000 });
+      await flush();
+      resolve('value');
+
+      expect(await Promise.all([first, second])).toEqual(['value', 'value']);
+      expect(loader).toHaveBeenCalledTimes(1);
+    });
+
+    it('skips values rejected by cacheIf', async () => {
+      const cache = new SwrCache(new MemoryCacheBackend());
+      const loader = jest.fn().mockResolvedValue([] as string[]);
+
+      await cache.getOrLoad('quote', loader, { ttl: 1000, cacheIf: (quotes: string[]) => quotes.length > 0 });
+      await cache.getOrLoad('quote', loader, { ttl: 1000, cacheIf: (quotes: string[]) => quotes.length > 0 });
+
+      expect(loader).toHaveBeenCalledTimes(2);
+    });
+
+    it('falls through to the loader when the backend fails', async () => {
+      const backend: ProdigiCacheBackend = {
+        name: 'postgres',
+        get: jest.fn().mockRejectedValue(new Error('connection refused')),
+        set: jest.fn().mockRejectedValue(new Error('connection refused')),
+        delete: jest.fn(),
+        clear: jest.fn(),
+        size: jest.fn().mockRejectedValue(new Error('connection refused')),
+      };
+      const cache = new SwrCache(backend);
+
+      expect(await cache.getOrLoad('product', async () => 'live', { ttl: 1000 })).toBe('live');
+      expect(await cache.getStats(true)).toMatchObject({ size: null, backendErrors: 3 });
+    });
+  });
+
+  describe('PostgresRateLimiter', () => {
+    it('waits for the window reported by the database', async () => {
+      jest.useFakeTimers();
+      const supabase: any = {
+        rpc: jest.fn()
+          .mockResolvedValueOnce({ data: 500, error: null })
+          .mockResolvedValueOnce({ data: 0, error: null }),
+      };
+      const limiter = new PostgresRateLimiter(supabase, 'prodigi:sandbox');
+
+      const consumed = limiter.consume();
+      await jest.advanceTimersByTimeAsync(500);
+      await consumed;
+
+      expect(supabase.rpc).toHaveBeenCalledTimes(2);
+      expect(supabase.rpc).toHaveBeenCalledWith('consume_prodigi_rate_limit', {
+        p_bucket: 'prodigi:sandbox',
+        p_limit: 30,
+        p_window_seconds: 30,
+      });
+    });
+
+    it('falls back to a local bucket when the database is unavailable', async () => {
+      const supabase: any = {
+        rpc: jest.fn().mockResolvedValue({ data: null, error: { message: 'timeout' } }),
+      };
+      const limiter = new PostgresRateLimiter(supabase);
+
+      await expect(limiter.consume()).resolves.toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,221 @@
+import {
+  PromotionService,
+  calculateDiscount,
+  applyDiscountToTotals,
+} from '../checkout/services/promotion.service';
+import { PromotionError } from '../checkout/types/errors';
+import type { CartItem, CartTotals } from '../checkout/types/cart.types';
+import type { Promotion } from '../checkout/types/promotion.types';
+import { createMockSupabase } from '../../../__tests__/supabase-mock';
+
+const item = (id: string, price: number, quantity: number, productType?: string): CartItem => ({
+  id,
+  productId: `product-${id}`,
+  sku: `GLOBAL-${id}`,
+  name: 'Print',
+  imageUrl: '',
+  quantity,
+  price,
+  originalPrice: price,
+  currency: 'USD',
+  frameConfig: { size: '16x20', color: 'black', style: 'black', material: 'wood', productType },
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+const promotion = (overrides: Partial<Promotion> = {}): Promotion => ({
+  id: 'promo-1',
+  code: 'SAVE10',
+  type: 'percentage',
+  value: 10,
+  currency: 'USD',
+  minOrderAmount: 0,
+  eligibleProductTypes: null,
+  maxUses: null,
+  maxUsesPerUser: null,
+  timesUsed: 0,
+  startsAt: null,
+  expiresAt: null,
+  isActive: true,
+  ...overrides,
+});
+
+const promoRow = (overrides: Record<string, any> = {}) => ({
+  id: 'promo-1',
+  code: 'save10',
+  discount_type: 'percentage',
+  discount_value: '10',
+  currency: 'USD',
+  min_order_amount: '0',
+  eligible_product_types: null,
+  max_uses: null,
+  max_uses_per_user: null,
+  times_used: 0,
+  starts_at: null,
+  expires_at: null,
+  is_active: true,
+  ...overrides,
+});
+
+const currencyService: any = {
+  convertFromUSD: jest.fn(async (amount: number) => amount * 0.5),
+  convert: jest.fn(async (amount: number) => amount),
+};
+
+describe('promotions', () => {
+  const items = [item('a', 50, 2, 'canvas'), item('b', 100, 1, 'framed-print')];
+
+  describe('calculateDiscount', () => {
+    it('applies percentage discounts to eligible items', () => {
+      const discount = calculateDiscount(promotion(), items, 10);
+
+      expect(discount.itemsDiscount).toBe(20);
+      expect(discount.shippingDiscount).toBe(0);
+      expect(discount.amount).toBe(20);
+    });
+
+    it('limits discounts to eligible product types', () => {
+      const discount = calculateDiscount(promotion({ eligibleProductTypes: ['canvas'] }), items, 10);
+
+      expect(discount.itemsDiscount).toBe(10);
+      expect(discount.eligibleItemIds).toEqual(['a']);
+    });
+
+    it('caps fixed discounts at the eligible subtotal', () => {
+      const discount = calculateDiscount(
+        promotion({ type: 'fixed', value: 500, eligibleProductTypes: ['canvas'] }),
+        items,
+        10
+      );
+
+      expect(discount.itemsDiscount).toBe(100);
+    });
+
+    it('waives shipping for free-shipping codes', () => {
+      const discount = calculateDiscount(promotion({ type: 'free_shipping', value: 0 }), items, 12.5);
+
+      expect(discount.itemsDiscount).toBe(0);
+      expect(discount.shippingDiscount).toBe(12.5);
+    });
+  });
+
+  describe('applyDiscountToTotals', () => {
+    const totals: CartTotals = { subtotal: 200, shipping: 10, tax: 21, total: 231, currency: 'USD' };
+
+    it('reduces tax in proportion to the discount', () => {
+      const discount = { ...calculateDiscount(promotion(), items, 10), currency: 'USD' };
+      const result = applyDiscountToTotals(totals, discount, { itemsTax: 20, shippingTax: 1 });
+
+      expect(result.tax).toBe(19);
+      expect(result.total).toBe(209); // 200 + 10 - 20 + 19
+      expect(result.discount).toBe(20);
+      expect(result.promoCode).toBe('SAVE10');
+    });
+
+    it('does not add tax to the total in inclusive markets', () => {
+      const discount = { ...calculateDiscount(promotion({ type: 'free_shipping' }), items, 10), currency: 'EUR' };
+      const result = applyDiscountToTotals(
+        { ...totals, taxInclusive: true },
+        discount,
+        { itemsTax: 20, shippingTax: 1 }
+      );
+
+      expect(result.tax).toBe(20);
+      expect(result.total).toBe(200);
+    });
+  });
+
+  describe('PromotionService.applyPromotion', () => {
+    const context = { userId: 'user-1', items, subtotal: 200, shipping: 0, currency: 'USD' };
+
+    it('returns the discount for a valid code', async () => {
+      const supabase = createMockSupabase([{ data: promoRow(), error: null }]);
+      const service = new PromotionService(supabase, currencyService);
+
+      const discount = await service.applyPromotion(' save10 ', context);
+
+      expect(supabase.ilike).toHaveBeenCalledWith('code', 'SAVE10');
+      expect(discount).toMatchObject({ code: 'SAVE10', amount: 20, currency: 'USD' });
+    });
+
+    it('rejects unknown codes', async () => {
+      const supabase = createMockSupabase([{ data: null, error: null }]);
+      const service = new PromotionService(supabase, currencyService);
+
+      await expect(service.applyPromotion('NOPE', context)).rejects.toThrow(PromotionError);
+    });
+
+    it('rejects expired codes', async () => {
+      const supabase = createMockSupabase([
+        { data: promoRow({ expires_at: '2020-01-01T00:00:00Z' }), error: null },
+      ]);
+      const service = new PromotionService(supabase, currencyService);
+
+      await expect(service.applyPromotion('SAVE10', context)).rejects.toThrow('expired');
+    });
+
+    it('rejects codes over their usage limit', async () => {
+      const supabase = createMockSupabase([{ data: promoRow({ max_uses: 5, times_used: 5 }), error: null }]);
+      const service = new PromotionService(supabase, currencyService);
+
+      await expect(service.applyPromotion('SAVE10', context)).rejects.toThrow('usage limit');
+    });
+
+    it('rejects codes the user has already used', async () => {
+      const supabase = createMockSupabase([
+        { data: promoRow({ max_uses_per_user: 1 }), error: null },
+        { data: null, error: null, count: 1 },
+      ]);
+      const service = new PromotionService(supabase, currencyService);
+
+      await expect(service.applyPromotion('SAVE10', context)).rejects.toThrow('already used');
+    });
+
+    it('checks the minimum order in the cart currency', async () => {
+      const supabase = createMockSupabase([{ data: promoRow({ min_order_amount: '300' }), error: null }]);
+      const service = new PromotionService(supabase, currencyService);
+
+      // 300 USD -> 150 in the (mocked) cart currency, so a 200 subtotal qualifies
+      const discount = await service.applyPromotion('SAVE10', { ...context, currency: 'GBP' });
+
+      expect(currencyService.convertFromUSD).toHaveBeenCalledWith(300, 'GBP');
+      expect(discount.amount).toBe(20);
+    });
+
+    it('checks the minimum against the items the code covers', async () => {
+      const scoped = promoRow({ eligible_product_types: ['canvas'], min_order_amount: '150' });
+      const supabase = createMockSupabase([{ data: scoped, error: null }]);
+      const service = new PromotionService(supabase, currencyService);
+
+      // 200 in the cart, but only the 100 of canvas counts toward the minimum
+      await expect(service.applyPromotion('SAVE10', context)).rejects.toMatchObject({
+        message: 'Your order does not meet the minimum for this promo code',
+        details: { minOrderAmount: 150, currency: 'USD' },
+      });
+    });
+
+    it('converts fixed amounts at the rate the cart was priced with', async () => {
+      const supabase = createMockSupabase([{ data: promoRow({ discount_type: 'fixed', discount_value: '10' }), error: null }]);
+      const service = new PromotionService(supabase, currencyService);
+      currencyService.convertFromUSD.mockClear();
+
+      const discount = await service.applyPromotion('SAVE10', {
+        ...context,
+        currency: 'GBP',
+        rateSnapshot: { baseCurrency: 'USD', quoteCurrency: 'GBP', rate: 0.8 } as any,
+      });
+
+      expect(currencyService.convertFromUSD).not.toHaveBeenCalled();
+      expect(discount).toMatchObject({ amount: 8, currency: 'GBP' });
+    });
+
+    it('rejects carts without eligible items', async () => {
+      const supabase = createMockSupabase([
+        { data: promoRow({ eligible_product_types: ['poster'] }), error: null },
+      ]);
+      const service = new PromotionService(supabase, currencyService);
+
+      await expect(service.applyPromotion('SAVE10', context)).rejects.toThrow('does not apply');
+    });
+  });
+});
@@ -0,0 +1,327 @@
+import {
+  getItemChargedTotal,
+  planRefund,
+  validateProblemReport,
+  RefundError,
+  RefundService,
+  type OrderRefund,
+  type RefundableOrder,
+} from '../refunds';
+import { createMockSupabase, type MockResult } from '../../../__tests__/supabase-mock';
+
+const order: RefundableOrder = {
+  total_amount: 95,
+  shipping_amount: 15,
+  currency: 'USD',
+  exchange_rate: 1,
+  order_items: [
+    { id: 'item-1', quantity: 1, unit_price: 50, total_price: 50 },
+    { id: 'item-2', quantity: 2, unit_price: 20, total_price: 40 },
+  ],
+};
+
+const refundRow = (overrides: Partial<OrderRefund> = {}): OrderRefund => ({
+  id: 'refund-1',
+  orderId: 'order-1',
+  problemReportId: null,
+  amount: 50,
+  currency: 'USD',
+  items: [{ orderItemId: 'item-1', amount: 50 }],
+  shippingAmount: 0,
+  reason: 'Damaged',
+  status: 'succeeded',
+  stripeRefundId: 're_1',
+  failureReason: null,
+  createdBy: 'staff-1',
+  createdAt: '2025-12-21T00:00:00Z',
+  ...overrides,
+});
+
+describe('getItemChargedTotal', () => {
+  it('uses the stored total for base currency orders', () => {
+    expect(getItemChargedTotal(order.order_items[1], order)).toBe(40);
+  });
+
+  it('converts with the price ending used at checkout', () => {
+    const total = getItemChargedTotal(order.order_items[1], { currency: 'EUR', exchange_rate: 0.9 });
+    // 20 * 0.9 = 18 -> 17.99 per unit
+    expect(total).toBe(35.98);
+  });
+});
+
+describe('planRefund', () => {
+  it('refunds what is left of the payment for a full refund', () => {
+    const plan = planRefund(order, [refundRow()], { full: true });
+
+    expect(plan.amount).toBe(45);
+    expect(plan.items).toEqual([{ orderItemId: 'item-2', amount: 40 }]);
+    expect(plan.shippingAmount).toBe(15);
+    expect(plan.coversAllItems).toBe(true);
+  });
+
+  it('refunds a single item in part', () => {
+    const plan = planRefund(order, [], { items: [{ orderItemId: 'item-2', amount: 10 }] });
+
+    expect(plan.amount).toBe(10);
+    expect(plan.coversAllItems).toBe(false);
+  });
+
+  it('caps the refund at what was paid', () => {
+    // Items and shipping add up to 105 after a 10 discount on a 95 total
+    const plan = planRefund(order, [], {
+      items: [{ orderItemId: 'item-1' }, { orderItemId: 'item-2' }],
+      shipping: true,
+    });
+
+    expect(plan.amount).toBe(95);
+    expect(plan.coversAllItems).toBe(true);
+  });
+
+  it('rejects more than is left on an item', () => {
+    expect(() => planRefund(order, [], { items: [{ orderItemId: 'item-2', amount: 41 }] }))
+      .toThrow(/At most 40 USD/);
+  });
+
+  it('rejects items that were already refunded, counting pending refunds', () => {
+    const pending = refundRow({ status: 'pending', stripeRefundId: null });
+
+    expect(() => planRefund(order, [pending], { items: [{ orderItemId: 'item-1' }] }))
+      .toThrow(expect.objectContaining({ statusCode: 409 }));
+  });
+
+  it('ignores failed refunds', () => {
+    const plan = planRefund(order, [refundRow({ status: 'failed' })], { items: [{ orderItemId: 'item-1' }] });
+
+    expect(plan.amount).toBe(50);
+  });
+
+  it('rejects items from other orders', () => {
+    expect(() => planRefund(order, [], { items: [{ orderItemId: 'other' }] })).toThrow(RefundError);
+  });
+});
+
+describe('validateProblemReport', () => {
+  const photo = new File(['x'], 'damage.jpg', { type: 'image/jpeg' });
+
+  it('accepts a report with a photo', () => {
+    const result = validateProblemReport(
+      { orderItemId: 'item-1', category: 'damaged', description: 'Cracked glass' },
+      [photo]
+    );
+
+    expect(result).toMatchObject({ category: 'damaged', description: 'Cracked glass' });
+  });
+
+  it('requires a photo for damage', () => {
+    expect(() => validateProblemReport({ category: 'damaged', description: 'Cracked glass' }, []))
+      .toThrow(RefundError);
+  });
+
+  it('rejects unknown categories', () => {
+    expect(() => validateProblemReport({ category: 'late', description: 'Slow' }, [])).toThrow(RefundError);
+  });
+});
+
+describe('RefundService.refund', () => {
+  const orderRow = {
+    ...order,
+    id: 'order-1',
+    payment_status: 'paid',
+    stripe_payment_intent_id: 'pi_123',
+    dropship_orders: [
+      { id: 'drop-1', provider: 'prodigi', provider_order_id: 'ord_1', status: 'submitted', reprint_of: null },
+    ],
+  };
+
+  function createRefundSupabase(order: Record<string, any> = orderRow) {
+    const results: Record<string, MockResult> = {
+      orders: { data: order, error: null },
+      order_refunds: { data: [], error: null },
+      dropship_orders: { data: null, error: null },
+      retry_operations: { data: null, error: null },
+    };
+
+    const supabase = createMockSupabase(table => results[table]);
+    supabase.rpc.mockImplementation((name: string, args: any) => {
+      if (name === 'begin_order_refund') {
+        return Promise.resolve({ data: { id: 'refund-9' }, error: null });
+      }
+      return Promise.resolve({
+        data: {
+          id: args.p_refund_id,
+          order_id: args.p_order_id,
+          amount: args.p_amount,
+          currency: args.p_currency,
+          items: [],
+          status: args.p_status,
+          stripe_refund_id: args.p_stripe_refund_id,
+          created_at: '2025-12-21T00:00:00Z',
+        },
+        error: null,
+      });
+    });
+    return supabase;
+  }
+
+  const createStripe = () => ({
+    refunds: {
+      create: jest.fn().mockResolvedValue({ id: 're_9', amount: 9500, currency: 'usd', status: 'succeeded' }),
+      list: jest.fn(),
+    },
+  });
+
+  const createFulfillment = (cancelAvailable: 'Yes' | 'No') => ({
+    orders: { get: jest.fn(), create: jest.fn() },
+    orderActions: {
+      getActions: jest.fn().mockResolvedValue({ cancel: { isAvailable: cancelAvailable } }),
+      cancel: jest.fn().mockResolvedValue({}),
+    },
+  });
+
+  it('refunds in full through Stripe and cancels the Prodigi order', async () => {
+    const supabase = createRefundSupabase();
+    const stripe = createStripe();
+    const fulfillment = createFulfillment('Yes');
+    const service = new RefundService(supabase, { stripe: stripe as any, fulfillment: fulfillment as any });
+
+    const outcome = await service.refund('order-1', 'staff-1', { full: true, reason: 'Customer cancelled' });
+
+    expect(stripe.refunds.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        payment_intent: 'pi_123',
+        amount: 9500,
+        metadata: expect.objectContaining({ order_id: 'order-1', refund_id: 'refund-9' }),
+      }),
+      { idempotencyKey: 'order-refund-refund-9' }
+    );
+    expect(fulfillment.orderActions.cancel).toHaveBeenCalledWith('ord_1');
+    expect(supabase.writes).toContainEqual(
+      expect.objectContaining({ table: 'dropship_orders', operation: 'update', values: expect.objectContaining({ status: 'cancelled' }) })
+    );
+    expect(supabase.rpc).toHaveBeenCalledWith('reconcile_order_refund', expect.objectContaining({
+      p_refund_id: 'refund-9',
+      p_amount: 95,
+      p_status: 'succeeded',
+    }));
+    expect(outcome.fulfillment).toEqual({ status: 'cancelled', prodigiOrderId: 'ord_1' });
+    expect(outcome.refund.status).toBe('succeeded');
+  });
+
+  it('still refunds when Prodigi has started production', async () => {
+    const fulfillment = createFulfillment('No');
+    const service = new RefundService(createRefundSupabase(), { stripe: createStripe() as any, fulfillment: fulfillment as any });
+
+    const outcome = await service.refund('order-1', 'staff-1', { full: true, reason: 'Customer cancelled' });
+
+    expect(fulfillment.orderActions.cancel).not.toHaveBeenCalled();
+    expect(outcome.fulfillment).toEqual({ status: 'in_production', prodigiOrderId: 'ord_1' });
+  });
+
+  it('stops the pending Prodigi submission of an order not yet sent', async () => {
+    const supabase = createRefundSupabase({ ...orderRow, dropship_orders: [] });
+    const service = new RefundService(supabase, { stripe: createStripe() as any });
+
+    const outcome = await service.refund('order-1', 'staff-1', { full: true, reason: 'Customer cancelled' });
+
+    expect(supabase.writes).toContainEqual({
+      table: 'retry_operations',
+      operation: 'update',
+      values: expect.objectContaining({ status: 'cancelled' }),
+    });
+    expect(outcome.fulfillment).toEqual({ status: 'not_submitted' });
+  });
+
+  it('reserves the refund before cancelling the Prodigi order', async () => {
+    const supabase = createRefundSupabase();
+    supabase.rpc.mockResolvedValueOnce({ data: null, error: { message: 'refund_exceeds_payment' } });
+    const fulfillment = createFulfillment('Yes');
+    const service = new RefundService(supabase, { stripe: createStripe() as any, fulfillment: fulfillment as any });
+
+    await expect(service.refund('order-1', 'staff-1', { full: true, reason: 'Customer cancelled' }))
+      .rejects.toMatchObject({ statusCode: 409 });
+
+    expect(fulfillment.orderActions.cancel).not.toHaveBeenCalled();
+  });
+
+  it('marks the refund failed when Prodigi cancellation fails', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const supabase = createRefundSupabase();
+    const stripe = createStripe();
+    const fulfillment = createFulfillment('Yes');
+    fulfillment.orderActions.cancel.mockRejectedValue(new Error('Prodigi unavailable'));
+    const service = new RefundService(supabase, { stripe: stripe as any, fulfillment: fulfillment as any });
+
+    await expect(service.refund('order-1', 'staff-1', { full: true, reason: 'Customer cancelled' }))
+      .rejects.toMatchObject({ statusCode: 502 });
+
+    expect(stripe.refunds.create).not.toHaveBeenCalled();
+    expect(supabase.writes).toContainEqual({
+      table: 'order_refunds',
+      operation: 'update',
+      values: expect.objectContaining({ status: 'failed' }),
+    });
+    consoleError.mockRestore();
+  });
+
+  it('marks the refund failed when Stripe rejects it', async () => {
+    const supabase = createRefundSupabase();
+    const stripe = createStripe();
+    stripe.refunds.create.mockRejectedValue(new Error('Charge already refunded'));
+    const service = new RefundService(supabase, { stripe: stripe as any });
+
+    await expect(service.refund('order-1', 'staff-1', {
+      items: [{ orderItemId: 'item-1' }],
+      reason: 'Damaged',
+    })).rejects.toMatchObject({ statusCode: 502 });
+
+    expect(supabase.writes).toContainEqual({
+      table: 'order_refunds',
+      operation: 'update',
+      values: expect.objectContaining({ status: 'failed', failure_reason: 'Charge already refunded' }),
+    });
+    expect(supabase.rpc).not.toHaveBeenCalledWith('reconcile_order_refund', expect.anything());
+  });
+
+  it('queues the Prodigi submission again when Stripe rejects the refund', async () => {
+    const supabase = createRefundSupabase({ ...orderRow, dropship_orders: [] });
+    const stripe = createStripe();
+    stripe.refunds.create.mockRejectedValue(new Error('Card declined'));
+    const service = new RefundService(supabase, { stripe: stripe as any });
+
+    await expect(service.refund('order-1', 'staff-1', { full: true, reason: 'Customer cancelled' }))
+      .rejects.toMatchObject({ statusCode: 502, details: { fulfillment: { status: 'not_submitted' } } });
+
+    const submissions = supabase.writes.filter(write => write.table === 'retry_operations');
+    expect(submissions.map(write => write.values.status)).toEqual(['cancelled', 'pending']);
+    expect(supabase.eq).toHaveBeenCalledWith('resolution_note', 'Order refunded before it was sent to Prodigi');
+  });
+
+  it('flags a cancelled Prodigi order for staff when Stripe rejects the refund', async () => {
+    const supabase = createRefundSupabase();
+    const stripe = createStripe();
+    stripe.refunds.create.mockRejectedValue(new Error('Card declined'));
+    const fulfillment = createFulfillment('Yes');
+    const service = new RefundService(supabase, { stripe: stripe as any, fulfillment: fulfillment as any });
+
+    await expect(service.refund('order-1', 'staff-1', { full: true, reason: 'Customer cancelled' }))
+      .rejects.toMatchObject({ statusCode: 502 });
+
+    expect(fulfillment.orderActions.cancel).toHaveBeenCalledWith('ord_1');
+    expect(supabase.writes).toContainEqual({
+      table: 'order_logs',
+      operation: 'insert',
+      values: expect.objectContaining({
+        order_id: 'order-1',
+        action: 'refund_failed_after_prodigi_cancellation',
+        details: expect.objectContaining({ prodigi_order_id: 'ord_1', error: 'Card declined' }),
+        created_by: 'staff-1',
+      }),
+    });
+  });
+
+  it('requires a reason', async () => {
+    const service = new RefundService(createRefundSupabase(), { stripe: createStripe() as any });
+
+    await expect(service.refund('order-1', 'staff-1', { full: true })).rejects.toThrow(RefundError);
+  });
+});
@@ -0,0 +1,188 @@
+import { RetryOperationService, RetryOperationError, MAX_BULK_RETRY } from '../retry-operations';
+import { getRetryErrorCode } from '../orderRetry';
+import { createMockSupabase } from '../../../__tests__/supabase-mock';
+
+jest.mock('@/lib/supabase/server', () => ({
+  createServiceClient: jest.fn(),
+}));
+
+jest.mock('@/lib/prodigi', () => ({
+  prodigiClient: {},
+}));
+
+const operationRow = (overrides: Record<string, any> = {}) => ({
+  id: 'op-1',
+  type: 'prodigi_order_creation',
+  order_id: 'order-1',
+  order_number: 'ORD-1001',
+  customer_email: 'customer@example.com',
+  payload: { orderId: 'order-1' },
+  attempts: 5,
+  max_attempts: 5,
+  status: 'failed',
+  error: 'Prodigi API error: 503 Service Unavailable',
+  error_code: 'PRODIGI_HTTP_503',
+  created_at: '2025-12-13T10:00:00.000Z',
+  ...overrides,
+});
+
+const mockRetryManager = (succeeds = true) => ({
+  processOperation: jest.fn().mockResolvedValue(succeeds),
+});
+
+describe('RetryOperationService', () => {
+  it('lists operations with filters and the total count', async () => {
+    const supabase = createMockSupabase([{ data: [operationRow()], error: null, count: 12 }]);
+    const service = new RetryOperationService(supabase, mockRetryManager());
+
+    const { operations, total } = await service.list({ status: 'failed', errorCode: 'PRODIGI_HTTP_503', offset: 10, limit: 5 });
+
+    expect(total).toBe(12);
+    expect(operations[0]).toMatchObject({ id: 'op-1', orderNumber: 'ORD-1001', errorCode: 'PRODIGI_HTTP_503' });
+    expect(supabase.from).toHaveBeenCalledWith('retry_operations_details');
+    expect(supabase.eq).toHaveBeenCalledWith('status', 'failed');
+    expect(supabase.eq).toHaveBeenCalledWith('error_code', 'PRODIGI_HTTP_503');
+    expect(supabase.range).toHaveBeenCalledWith(10, 14);
+  });
+
+  it('summarizes operations by status and failures by error code', async () => {
+    const supabase = createMockSupabase([{
+      data: [
+        { status: 'failed', error_code: 'PRODIGI_HTTP_503' },
+        { status: 'failed', error_code: 'PRODIGI_HTTP_503' },
+        { status: 'failed', error_code: null },
+        { status: 'completed', error_code: null },
+      ],
+      error: null,
+    }]);
+    const service = new RetryOperationService(supabase, mockRetryManager());
+
+    const summary = await service.summarize();
+
+    expect(summary.byStatus).toMatchObject({ failed: 3, completed: 1, pending: 0 });
+    expect(summary.failedByErrorCode).toEqual([
+      { errorCode: 'PRODIGI_HTTP_503', count: 2 },
+      { errorCode: 'UNKNOWN_ERROR', count: 1 },
+    ]);
+  });
+
+  it('forces a retry with fresh attempts and logs it to order_logs', async () => {
+    const supabase = createMockSupabase([
+      { data: operationRow() },
+      { data: [{ id: 'op-1' }], error: null },
+      { data: operationRow({ status: 'pending', attempts: 0 }) },
+      { data: operationRow({ status: 'completed', attempts: 1, error: null, error_code: null }) },
+      { error: null },
+    ]);
+    const retryManager = mockRetryManager();
+    const service = new RetryOperationService(supabase, retryManager);
+
+    const operation = await service.retryNow('op-1', 'admin-1');
+
+    expect(operation.status).toBe('completed');
+    expect(supabase.update).toHaveBeenCalledWith(expect.objectContaining({ status: 'pending', attempts: 0 }));
+    expect(supabase.eq).toHaveBeenCalledWith('status', 'failed');
+    expect(retryManager.processOperation).toHaveBeenCalledWith('op-1');
+    expect(supabase.insert).toHaveBeenCalledWith({
+      order_id: 'order-1',
+      action: 'retry_operation_forced',
+      details: expect.objectContaining({
+        retry_operation_id: 'op-1',
+        previous_status: 'failed',
+        new_status: 'completed',
+        succeeded: true,
+      }),
+      created_by: 'admin-1',
+    });
+  });
+
+  it('refuses to cancel an operation that already completed', async () => {
+    const supabase = createMockSupabase([{ data: operationRow({ status: 'completed' }) }]);
+    const service = new RetryOperationService(supabase, mockRetryManager());
+
+    const error = await service.cancel('op-1', 'admin-1').catch((e) => e);
+
+    expect(error).toBeInstanceOf(RetryOperationError);
+    expect(error.statusCode).toBe(409);
+    expect(supabase.update).not.toHaveBeenCalled();
+  });
+
+  it('reports a conflict when the operation changed before the update', async () => {
+    const supabase = createMockSupabase([
+      { data: operationRow() },
+      { data: [], error: null },
+    ]);
+    const service = new RetryOperationService(supabase, mockRetryManager());
+
+    const error = await service.resolve('op-1', 'admin-1', 'Placed manually').catch((e) => e);
+
+    expect(error.statusCode).toBe(409);
+    expect(supabase.insert).not.toHaveBeenCalled();
+  });
+
+  it('marks an operation resolved with the admin and note', async () => {
+    const supabase = createMockSupabase([
+      { data: operationRow({ status: 'cancelled' }) },
+      { data: [{ id: 'op-1' }], error: null },
+      { data: operationRow({ status: 'resolved', resolution_note: 'Placed manually' }) },
+      { error: null },
+    ]);
+    const service = new RetryOperationService(supabase, mockRetryManager());
+
+    const operation = await service.resolve('op-1', 'admin-1', '  Placed manually ');
+
+    expect(operation.status).toBe('resolved');
+    expect(supabase.update).toHaveBeenCalledWith(expect.objectContaining({
+      status: 'resolved',
+      resolved_by: 'admin-1',
+      resolution_note: 'Placed manually',
+    }));
+    expect(supabase.insert).toHaveBeenCalledWith(expect.objectContaining({ action: 'retry_operation_resolved' }));
+  });
+
+  it('bulk-retries failed and dead-lettered operations with an error code', async () => {
+    const supabase = createMockSupabase([
+      { data: [operationRow({ id: 'op-1' }), operationRow({ id: 'op-2', status: 'dead_letter' })], error: null },
+      { data: [{ id: 'op-1' }], error: null },
+      { data: operationRow({ id: 'op-1', status: 'pending' }) },
+      { error: null },
+      { data: [{ id: 'op-2' }], error: null },
+      { data: operationRow({ id: 'op-2', status: 'pending' }) },
+      { error: null },
+    ]);
+    const retryManager = mockRetryManager();
+    retryManager.processOperation.mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+    const service = new RetryOperationService(supabase, retryManager);
+
+    const result = await service.bulkRetry('prodigi_http_503', 'admin-1');
+
+    expect(result).toEqual({ errorCode: 'PRODIGI_HTTP_503', matched: 2, succeeded: 1, failed: 1 });
+    expect(supabase.in).toHaveBeenCalledWith('status', ['failed', 'dead_letter']);
+    expect(supabase.eq).toHaveBeenCalledWith('error_code', 'PRODIGI_HTTP_503');
+    expect(supabase.limit).toHaveBeenCalledWith(MAX_BULK_RETRY);
+    expect(supabase.insert).toHaveBeenCalledTimes(2);
+  });
+
+  it('requires an error code for bulk retries', async () => {
+    const service = new RetryOperationService(createMockSupabase([]), mockRetryManager());
+
+    await expect(service.bulkRetry('  ', 'admin-1')).rejects.toThrow('Error code is required');
+  });
+});
+
+describe('getRetryErrorCode', () => {
+  it.each([
+    [new Error('Prodigi API error: 503 Service Unavailable'), 'PRODIGI_HTTP_503'],
+    [new Error('Order not found'), 'ORDER_NOT_FOUND'],
+    [new Error('Invalid SKU for item 2'), 'INVALID_SKU'],
+    [new Error('fetch failed'), 'NETWORK_ERROR'],
+    [new Error('Failed to update order with Prodigi ID'), 'DATABASE_ERROR'],
+    [new Error('Something else'), 'UNKNOWN_ERROR'],
+  ])('classifies %p as %s', (error, expected) => {
+    expect(getRetryErrorCode(error)).toBe(expected);
+  });
+
+  it('prefers an explicit error code', () => {
+    expect(getRetryErrorCode({ code: 'rate_limited', message: 'Slow down' })).toBe('RATE_LIMITED');
+  });
+});
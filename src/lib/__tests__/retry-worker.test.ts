@@ -0,0 +1,110 @@
+import { RetryWorker } from '../retry-worker';
+import { captureError, captureMessage, recordMetric } from '@/lib/monitoring/sentry';
+
+jest.mock('@/lib/monitoring/sentry', () => ({
+  captureError: jest.fn(),
+  captureMessage: jest.fn(),
+  recordMetric: jest.fn(),
+}));
+
+const operation = (id: string, type = 'prodigi_order_creation') => ({
+  id,
+  type: type as any,
+  order_id: `order-${id}`,
+  payload: {},
+  attempts: 1,
+});
+
+const mockRetryManager = () => ({
+  claimDueOperations: jest.fn().mockResolvedValue([]),
+  executeClaimedOperation: jest.fn().mockResolvedValue('completed'),
+  countDueOperations: jest.fn().mockResolvedValue(0),
+});
+
+describe('RetryWorker', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('claims batches until no operations are due', async () => {
+    const manager = mockRetryManager();
+    manager.claimDueOperations
+      .mockResolvedValueOnce([operation('op-1'), operation('op-2')])
+      .mockResolvedValueOnce([operation('op-3')]);
+    manager.executeClaimedOperation
+      .mockResolvedValueOnce('completed')
+      .mockResolvedValueOnce('rescheduled')
+      .mockResolvedValueOnce('dead_lettered');
+    const worker = new RetryWorker(manager, { workerId: 'worker-1', batchSize: 2, leaseSeconds: 60 });
+
+    const result = await worker.runOnce();
+
+    expect(result).toMatchObject({
+      workerId: 'worker-1',
+      batches: 2,
+      claimed: 3,
+      completed: 1,
+      rescheduled: 1,
+      deadLettered: 1,
+      errors: 0,
+    });
+    expect(manager.claimDueOperations).toHaveBeenCalledTimes(2);
+    expect(manager.claimDueOperations).toHaveBeenCalledWith('worker-1', 2, 60);
+  });
+
+  it('stops claiming once the time budget is spent', async () => {
+    const manager = mockRetryManager();
+    manager.claimDueOperations.mockResolvedValue([operation('op-1')]);
+    const worker = new RetryWorker(manager, { batchSize: 1, timeBudgetMs: 0 });
+
+    const result = await worker.runOnce();
+
+    expect(result.claimed).toBe(0);
+    expect(manager.claimDueOperations).not.toHaveBeenCalled();
+  });
+
+  it('reports dead-lettered operations and per-operation metrics to Sentry', async () => {
+    const manager = mockRetryManager();
+    manager.claimDueOperations.mockResolvedValueOnce([operation('op-1', 'notification_send')]);
+    manager.executeClaimedOperation.mockResolvedValueOnce('dead_lettered');
+    manager.countDueOperations.mockResolvedValue(4);
+    const worker = new RetryWorker(manager, { batchSize: 5 });
+
+    const result = await worker.runOnce();
+
+    expect(result.backlog).toBe(4);
+    expect(captureMessage).toHaveBeenCalledWith(
+      'Retry operation op-1 moved to dead letter',
+      'warning',
+      expect.objectContaining({ operationId: 'op-1', orderId: 'order-op-1' })
+    );
+    expect(recordMetric).toHaveBeenCalledWith('count', 'retry_worker.operations', 1, {
+      attributes: { type: 'notification_send', outcome: 'dead_lettered' },
+    });
+    expect(recordMetric).toHaveBeenCalledWith('gauge', 'retry_worker.backlog', 4);
+  });
+
+  it('keeps going when recording an outcome fails', async () => {
+    const manager = mockRetryManager();
+    manager.claimDueOperations.mockResolvedValueOnce([operation('op-1'), operation('op-2')]);
+    manager.executeClaimedOperation
+      .mockRejectedValueOnce(new Error('connection reset'))
+      .mockResolvedValueOnce('completed');
+    const worker = new RetryWorker(manager, { batchSize: 5 });
+
+    const result = await worker.runOnce();
+
+    expect(result).toMatchObject({ claimed: 2, completed: 1, errors: 1 });
+    expect(captureError).toHaveBeenCalledWith(expect.any(Error), expect.objectContaining({ operationId: 'op-1' }));
+  });
+
+  it('surfaces claim failures', async () => {
+    const manager = mockRetryManager();
+    manager.claimDueOperations.mockRejectedValueOnce(new Error('Failed to claim retry operations: timeout'));
+    const worker = new RetryWorker(manager);
+
+    await expect(worker.runOnce()).rejects.toThrow('Failed to claim retry operations');
+    expect(captureError).toHaveBeenCalledWith(expect.any(Error), expect.objectContaining({ stage: 'claim' }));
+    expect(recordMetric).toHaveBeenCalledWith('count', 'retry_worker.runs', 1);
+  });
+});
@@ -0,0 +1,144 @@
+import { ReviewService, ReviewError, validateReviewInput, combineRatingSummaries, type RatingSummary } from '../reviews';
+import { createMockSupabase } from '../../../__tests__/supabase-mock';
+
+const photoUrl = 'https://project.supabase.co/storage/v1/object/public/images/user-1/reviews/1-abc.jpg';
+
+const summary = (overrides: Partial<RatingSummary> = {}): RatingSummary => ({
+  productType: 'framed-print',
+  frameStyle: 'black',
+  reviewCount: 2,
+  averageRating: 4.5,
+  distribution: { 1: 0, 2: 0, 3: 0, 4: 1, 5: 1 },
+  ...overrides,
+});
+
+describe('reviews', () => {
+  describe('validateReviewInput', () => {
+    it('accepts a rating with trimmed text and own photos', () => {
+      const fields = validateReviewInput(
+        { rating: 5, title: '  Lovely  ', comment: '', images: [photoUrl] },
+        'user-1'
+      );
+
+      expect(fields).toEqual({ rating: 5, title: 'Lovely', comment: null, images: [photoUrl] });
+    });
+
+    it.each([0, 6, 3.5, 'great'])('rejects rating %p', (rating) => {
+      expect(() => validateReviewInput({ rating }, 'user-1')).toThrow(ReviewError);
+    });
+
+    it("rejects photos from another user's folder", () => {
+      expect(() => validateReviewInput({ rating: 4, images: [photoUrl] }, 'user-2')).toThrow(
+        'Review photos must be uploaded first'
+      );
+    });
+  });
+
+  describe('combineRatingSummaries', () => {
+    it('weights averages by review count', () => {
+      const combined = combineRatingSummaries(
+        [summary(), summary({ frameStyle: 'white', reviewCount: 1, averageRating: 1, distribution: { 1: 1, 2: 0, 3: 0, 4: 0, 5: 0 } })],
+        'framed-print'
+      );
+
+      expect(combined).toMatchObject({
+        frameStyle: null,
+        reviewCount: 3,
+        averageRating: 3.33,
+        distribution: { 1: 1, 2: 0, 3: 0, 4: 1, 5: 1 },
+      });
+    });
+
+    it('returns null without reviews', () => {
+      expect(combineRatingSummaries([], 'canvas')).toBeNull();
+    });
+  });
+
+  describe('ReviewService.create', () => {
+    it('rejects users whose order has not been delivered', async () => {
+      const supabase = createMockSupabase([
+        { data: [{ id: 'item-1', order_id: 'order-1', orders: { status: 'shipped' }, dropship_orders: [{ status: 'shipped' }] }], error: null },
+      ]);
+      const service = new ReviewService(supabase);
+
+      await expect(service.create('user-1', { productId: 'product-1', rating: 5 })).rejects.toMatchObject({
+        statusCode: 403,
+      });
+      expect(supabase.insert).not.toHaveBeenCalled();
+    });
+
+    it('saves a verified review when the dropship order was delivered', async () => {
+      const supabase = createMockSupabase([
+        { data: [{ id: 'item-1', order_id: 'order-1', orders: { status: 'shipped' }, dropship_orders: [{ status: 'delivered' }] }], error: null },
+        { data: { id: 'product-1', product_type: 'canvas', frame_style: 'natural' }, error: null },
+        {
+          data: {
+            id: 'review-1',
+            product_id: 'product-1',
+            product_type: 'canvas',
+            frame_style: 'natural',
+            rating: 4,
+            title: null,
+            comment: 'Great colours',
+            images: [],
+            is_verified_purchase: true,
+            created_at: '2025-01-01T00:00:00Z',
+            profiles: { username: 'jdoe', full_name: 'Jane Doe' },
+          },
+          error: null,
+        },
+      ]);
+      const service = new ReviewService(supabase);
+
+      const review = await service.create('user-1', { productId: 'product-1', rating: 4, comment: 'Great colours' });
+
+      expect(supabase.eq).toHaveBeenCalledWith('orders.user_id', 'user-1');
+      expect(supabase.insert).toHaveBeenCalledWith(expect.objectContaining({
+        order_id: 'order-1',
+        order_item_id: 'item-1',
+        product_type: 'canvas',
+        frame_style: 'natural',
+        rating: 4,
+      }));
+      expect(review.reviewerName).toBe('Jane D.');
+    });
+
+    it('reports duplicate reviews as a conflict', async () => {
+      const supabase = createMockSupabase([
+        { data: [{ id: 'item-1', order_id: 'order-1', orders: { status: 'delivered' }, dropship_orders: [] }], error: null },
+        { data: { id: 'product-1', product_type: 'framed-print', frame_style: 'black' }, error: null },
+        { data: null, error: { code: '23505', message: 'duplicate key' } },
+      ]);
+      const service = new ReviewService(supabase);
+
+      await expect(service.create('user-1', { productId: 'product-1', rating: 5 })).rejects.toMatchObject({
+        statusCode: 409,
+      });
+    });
+  });
+
+  describe('ReviewService.moderate', () => {
+    it('rejects unknown actions', async () => {
+      const service = new ReviewService(createMockSupabase([]));
+
+      await expect(service.moderate('admin-1', 'review-1', 'delete')).rejects.toThrow('Invalid moderation action');
+    });
+
+    it('hides a review and clears its flag', async () => {
+      const supabase = createMockSupabase([
+        { data: { id: 'review-1', rating: 1, is_approved: false, is_flagged: false }, error: null },
+      ]);
+      const service = new ReviewService(supabase);
+
+      const review = await service.moderate('admin-1', 'review-1', 'reject', 'Spam');
+
+      expect(supabase.update).toHaveBeenCalledWith(expect.objectContaining({
+        is_approved: false,
+        is_flagged: false,
+        moderated_by: 'admin-1',
+        moderation_note: 'Spam',
+      }));
+      expect(review.isApproved).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import {
+  SavedConfigurationService,
+  SavedConfigurationError,
+  normalizeConfigurationName,
+  toConfigurationSnapshot,
+} from '../studio/saved-configurations';
+import { createMockSupabase } from '../../../__tests__/supabase-mock';
+
+const baseConfig = {
+  imageUrl: 'https://example.com/art.jpg',
+  imageId: 'img-1',
+  imageAnalysis: null,
+  productType: 'framed-print',
+  sku: 'GLOBAL-CFPM-16X20',
+  frameColor: 'black',
+  frameStyle: 'classic',
+  frameThickness: 'standard',
+  glaze: 'motheye',
+  mount: '2.4mm',
+  mountColor: 'white',
+  size: '16x20',
+  paperType: 'enhanced-matte',
+  finish: 'matte',
+  price: 120,
+  currency: 'USD',
+  shippingCost: 10,
+  sla: 5,
+  productionCountry: 'US',
+  aiConfidenceScore: 0,
+  lastModified: 0,
+};
+
+describe('saved configurations', () => {
+  describe('normalizeConfigurationName', () => {
+    it('trims valid names', () => {
+      expect(normalizeConfigurationName('  Living room  ')).toBe('Living room');
+    });
+
+    it('rejects empty names', () => {
+      expect(() => normalizeConfigurationName('   ')).toThrow(SavedConfigurationError);
+      expect(() => normalizeConfigurationName(undefined)).toThrow('Design name is required');
+    });
+  });
+
+  describe('toConfigurationSnapshot', () => {
+    it('keeps the fields needed to reopen the design', () => {
+      const snapshot = toConfigurationSnapshot(baseConfig);
+      expect(snapshot).toMatchObject({
+        imageUrl: baseConfig.imageUrl,
+        productType: 'framed-print',
+        sku: 'GLOBAL-CFPM-16X20',
+        mount: '2.4mm',
+        glaze: 'motheye',
+        size: '16x20',
+      });
+    });
+
+    it('rejects unknown product types', () => {
+      expect(() => toConfigurationSnapshot({ ...baseConfig, productType: 'mug' })).toThrow('Invalid product type');
+    });
+
+    it('rejects inline image data', () => {
+      expect(() =>
+        toConfigurationSnapshot({ ...baseConfig, imageUrl: 'data:image/png;base64,AAAA' })
+      ).toThrow(SavedConfigurationError);
+    });
+  });
+
+  describe('SavedConfigurationService', () => {
+    const row = {
+      id: 'cfg-1',
+      user_id: 'user-1',
+      name: 'Living room',
+      current_version: 1,
+      image_url: baseConfig.imageUrl,
+      product_type: 'framed-print',
+      sku: baseConfig.sku,
+      size: '16x20',
+      created_at: '2025-01-01T00:00:00Z',
+      updated_at: '2025-01-01T00:00:00Z',
+    };
+
+    it('creates a design with an initial version', async () => {
+      const supabase = createMockSupabase([
+        { data: row, error: null },
+        { data: null, error: null },
+      ]);
+      const service = new SavedConfigurationService(supabase);
+
+      const saved = await service.create('user-1', 'Living room', baseConfig);
+
+      expect(saved.id).toBe('cfg-1');
+      expect(saved.version).toBe(1);
+      expect(saved.config.sku).toBe(baseConfig.sku);
+      expect(supabase.insert).toHaveBeenCalledWith(
+        expect.objectContaining({ configuration_id: 'cfg-1', version: 1 })
+      );
+    });
+
+    it('returns the requested version of a design', async () => {
+      const supabase = createMockSupabase([
+        { data: { ...row, current_version: 2 }, error: null },
+        {
+          data: [
+            { version: 2, config: { ...baseConfig, size: '24x36' }, created_at: '2025-01-02T00:00:00Z' },
+            { version: 1, config: baseConfig, created_at: '2025-01-01T00:00:00Z' },
+          ],
+          error: null,
+        },
+      ]);
+      const service = new SavedConfigurationService(supabase);
+
+      const saved = await service.get('user-1', 'cfg-1', 1);
+
+      expect(saved.version).toBe(1);
+      expect(saved.config.size).toBe('16x20');
+      expect(saved.versions).toHaveLength(2);
+    });
+
+    it('returns 404 for designs owned by someone else', async () => {
+      const supabase = createMockSupabase([{ data: null, error: { code: 'PGRST116' } }]);
+      const service = new SavedConfigurationService(supabase);
+
+      await expect(service.get('user-2', 'cfg-1')).rejects.toMatchObject({ statusCode: 404 });
+    });
+
+    it('adds a new version when the configuration is updated', async () => {
+      const supabase = createMockSupabase([
+        { data: { ...row, current_version: 2 }, error: null }, // save_configuration_version
+        { data: { ...row, current_version: 2 }, error: null }, // get: row
+        { data: [{ version: 2, config: baseConfig, created_at: '2025-01-02T00:00:00Z' }], error: null },
+      ]);
+      const service = new SavedConfigurationService(supabase);
+
+      const saved = await service.update('user-1', 'cfg-1', { config: baseConfig });
+
+      expect(saved.version).toBe(2);
+      expect(supabase.rpc).toHaveBeenCalledWith('save_configuration_version', expect.objectContaining({
+        p_configuration_id: 'cfg-1',
+        p_user_id: 'user-1',
+        p_name: null,
+        p_sku: baseConfig.sku,
+        p_config: expect.objectContaining({ size: '16x20' }),
+      }));
+    });
+
+    it('returns 404 when saving a design owned by someone else', async () => {
+      const supabase = createMockSupabase([
+        { data: null, error: { message: 'configuration_not_found' } },
+      ]);
+      const service = new SavedConfigurationService(supabase);
+
+      await expect(service.update('user-2', 'cfg-1', { name: 'Mine now' })).rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { NextRequest } from 'next/server';
+import { authorizeStaff, getUserRole, recordStaffAction } from '../auth/staffAuth';
+import { hasStaffPermission, isStaffRole } from '../auth/roles';
+import { authenticateRequest } from '@/lib/auth/jwtAuth';
+import { createServiceClient } from '@/lib/supabase/server';
+import { createMockSupabase } from '../../../__tests__/supabase-mock';
+
+jest.mock('@/lib/auth/jwtAuth', () => ({
+  authenticateRequest: jest.fn(),
+}));
+
+jest.mock('@/lib/supabase/server', () => ({
+  createServiceClient: jest.fn(),
+}));
+
+const mockAuthenticateRequest = authenticateRequest as jest.MockedFunction<typeof authenticateRequest>;
+const mockCreateServiceClient = createServiceClient as jest.MockedFunction<typeof createServiceClient>;
+
+const request = () => new NextRequest('http://localhost/api/orders/management', {
+  headers: { authorization: 'Bearer test-token-123' },
+});
+
+const user = { id: 'user-1', email: 'staff@example.com' } as any;
+
+describe('staff roles', () => {
+  it('recognizes staff roles only', () => {
+    expect(isStaffRole('admin')).toBe(true);
+    expect(isStaffRole('fulfillment')).toBe(true);
+    expect(isStaffRole('customer')).toBe(false);
+    expect(isStaffRole(undefined)).toBe(false);
+  });
+
+  it('grants permissions per role', () => {
+    expect(hasStaffPermission('admin', 'system:health')).toBe(true);
+    expect(hasStaffPermission('support', 'orders:cancel')).toBe(true);
+    expect(hasStaffPermission('fulfillment', 'orders:cancel')).toBe(false);
+    expect(hasStaffPermission('fulfillment', 'orders:update')).toBe(true);
+    expect(hasStaffPermission('support', 'system:health')).toBe(false);
+    expect(hasStaffPermission('customer', 'orders:read')).toBe(false);
+  });
+});
+
+describe('authorizeStaff', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('returns 401 when the request is not authenticated', async () => {
+    mockAuthenticateRequest.mockResolvedValue({ user: null, error: 'Authorization header required' });
+
+    const result = await authorizeStaff(request(), 'orders:read');
+
+    expect(result).toMatchObject({ user: null, role: null, status: 401, error: 'Unauthorized' });
+    expect(mockCreateServiceClient).not.toHaveBeenCalled();
+  });
+
+  it('returns 403 for customers', async () => {
+    mockAuthenticateRequest.mockResolvedValue({ user, error: null });
+    mockCreateServiceClient.mockReturnValue(createMockSupabase([{ data: { role: 'customer' }, error: null }]));
+
+    const result = await authorizeStaff(request(), 'orders:read');
+
+    expect(result).toMatchObject({ role: null, status: 403, error: 'Staff access required' });
+  });
+
+  it('returns 403 when the role lacks the permission', async () => {
+    mockAuthenticateRequest.mockResolvedValue({ user, error: null });
+    mockCreateServiceClient.mockReturnValue(createMockSupabase([{ data: { role: 'fulfillment' }, error: null }]));
+
+    const result = await authorizeStaff(request(), 'orders:cancel');
+
+    expect(result).toMatchObject({ role: 'fulfillment', status: 403, error: 'Insufficient permissions' });
+  });
+
+  it('authorizes staff with the permission', async () => {
+    mockAuthenticateRequest.mockResolvedValue({ user, error: null });
+    mockCreateServiceClient.mockReturnValue(createMockSupabase([{ data: { role: 'support' }, error: null }]));
+
+    const result = await authorizeStaff(request(), 'orders:cancel');
+
+    expect(result).toEqual({ user, role: 'support', error: null, status: 200 });
+  });
+});
+
+describe('getUserRole', () => {
+  it('treats a missing profile as a customer', async () => {
+    expect(await getUserRole(createMockSupabase(), 'user-1')).toBe('customer');
+  });
+});
+
+describe('recordStaffAction', () => {
+  it('writes the action to order_logs with the actor', async () => {
+    const supabase = createMockSupabase();
+
+    await recordStaffAction(supabase, {
+      orderId: 'order-1',
+      action: 'order_cancelled',
+      actor: { id: 'user-1', role: 'support' },
+      details: { old_status: 'paid', new_status: 'cancelled' },
+    });
+
+    expect(supabase.from).toHaveBeenCalledWith('order_logs');
+    expect(supabase.insert).toHaveBeenCalledWith({
+      order_id: 'order-1',
+      action: 'order_cancelled',
+      details: { old_status: 'paid', new_status: 'cancelled', actor_role: 'support' },
+      created_by: 'user-1',
+    });
+  });
+});
@@ -0,0 +1,177 @@
+import { CatalogValidator, nearestSize, type CatalogValidatorDeps } from '../studio/catalog-validator';
+import { applyConfigurationCheck, suggestionsFromToolResult } from '../studio/chat-reply';
+
+const FRAMED_PRINT_OPTIONS = {
+  hasFrameColor: true,
+  hasFrameStyle: true,
+  hasGlaze: true,
+  hasMount: true,
+  hasMountColor: true,
+  hasPaperType: true,
+  hasFinish: true,
+  hasEdge: false,
+  hasWrap: false,
+  hasAspectRatio: true,
+  frameColors: ['Black', 'White', 'Natural'],
+  frameStyles: ['Classic'],
+  glazes: ['Acrylic / Perspex', 'Float Glass'],
+  mounts: ['1.4mm', '2.4mm'],
+  mountColors: ['Black', 'Off White', 'Snow White'],
+  paperTypes: [],
+  finishes: [],
+  edges: [],
+  wraps: [],
+  sizes: [],
+  aspectRatios: [],
+};
+
+const CANVAS_OPTIONS = {
+  ...FRAMED_PRINT_OPTIONS,
+  hasFrameColor: false,
+  hasFrameStyle: false,
+  hasGlaze: false,
+  hasMount: false,
+  hasMountColor: false,
+  hasWrap: true,
+  frameColors: [],
+  glazes: [],
+  mounts: [],
+  mountColors: [],
+  wraps: ['Black', 'White', 'ImageWrap', 'MirrorWrap'],
+};
+
+function createDeps(): CatalogValidatorDeps {
+  return {
+    catalog: {
+      getSKU: jest.fn(async (productType: string, size: string) =>
+        `GLOBAL-${productType === 'canvas' ? 'CAN' : 'CFPM'}-${size.toUpperCase()}`
+      ),
+      getAvailableSizes: jest.fn(async (productType: string) =>
+        productType === 'canvas' ? ['12x12', '18x24', '24x36'] : ['8x10', '16x20', '24x36']
+      ),
+    },
+    attributes: {
+      getProductAttributeInfo: jest.fn(async (sku: string) => ({
+        availableAttributes: (sku.includes('CAN')
+          ? { wrap: ['Black', 'White', 'ImageWrap', 'MirrorWrap'] }
+          : { color: ['black', 'white', 'natural'], glaze: ['Acrylic / Perspex', 'Float Glass'] }) as Record<string, string[]>,
+      })),
+      validateAttributes: jest.fn(async () => ({ valid: true, errors: [], warnings: [] })),
+    },
+    facets: {
+      getAvailableOptions: jest.fn(async (productType: string) =>
+        productType === 'canvas' ? CANVAS_OPTIONS : FRAMED_PRINT_OPTIONS
+      ),
+    },
+  };
+}
+
+const currentConfig = {
+  productType: 'framed-print' as const,
+  size: '16x20',
+  frameColor: 'black',
+  glaze: 'acrylic' as const,
+  mount: 'none' as const,
+  destinationCountry: 'GB',
+};
+
+describe('studio catalog validator', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation();
+    jest.spyOn(console, 'log').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('passes changes the catalog offers for the destination', async () => {
+    const deps = createDeps();
+    const check = await new CatalogValidator(deps).checkChanges(currentConfig, { frameColor: 'white' });
+
+    expect(check).toEqual({
+      valid: true,
+      changes: { frameColor: 'white' },
+      sku: 'GLOBAL-CFPM-16X20',
+      problems: [],
+    });
+    expect(deps.facets.getAvailableOptions).toHaveBeenCalledWith('framed-print', 'GB');
+    expect(deps.catalog.getAvailableSizes).toHaveBeenCalledWith('framed-print', 'GB');
+  });
+
+  it('drops options the product type does not have and moves the size', async () => {
+    const check = await new CatalogValidator(createDeps()).checkChanges(currentConfig, {
+      productType: 'canvas',
+      glaze: 'glass',
+      wrap: 'Black',
+    });
+
+    expect(check.valid).toBe(false);
+    expect(check.changes).toEqual({ productType: 'canvas', wrap: 'Black', size: '18x24' });
+    expect(check.sku).toBe('GLOBAL-CAN-18X24');
+    expect(check.problems).toEqual([
+      "Glaze isn't offered on canvas",
+      "Canvas doesn't come in 16x20, so the size changes to 18x24",
+    ]);
+  });
+
+  it("drops values the SKU's attributes do not include", async () => {
+    const deps = createDeps();
+    (deps.facets.getAvailableOptions as jest.Mock).mockResolvedValue({ ...FRAMED_PRINT_OPTIONS, frameColors: [] });
+
+    const check = await new CatalogValidator(deps).checkChanges(currentConfig, { frameColor: 'gold', size: '24x36' });
+
+    expect(check.changes).toEqual({ size: '24x36' });
+    expect(check.problems).toEqual(['Frame colour "gold" isn\'t offered for GLOBAL-CFPM-24X36']);
+  });
+
+  it('rejects everything when no SKU ships to the destination', async () => {
+    const deps = createDeps();
+    (deps.catalog.getSKU as jest.Mock).mockResolvedValue(null);
+
+    const check = await new CatalogValidator(deps).checkChanges(currentConfig, { frameColor: 'white' });
+
+    expect(check).toMatchObject({ valid: false, changes: {}, sku: null });
+    expect(check.problems).toEqual(['No framed-print at 16x20 ships to GB']);
+  });
+
+  it('picks the nearest size by area', () => {
+    expect(nearestSize('16x20', ['12x12', '18x24', '24x36'])).toBe('18x24');
+    expect(nearestSize(undefined, ['12x12', '18x24'])).toBe('12x12');
+    expect(nearestSize('16x20', [])).toBeNull();
+  });
+
+  describe('applyConfigurationCheck', () => {
+    const [suggestion] = suggestionsFromToolResult(
+      'updateFrame',
+      { updates: { productType: 'canvas', glaze: 'glass' } },
+      currentConfig
+    );
+
+    it('keeps valid suggestions untouched', () => {
+      const check = { valid: true, changes: suggestion.changes, sku: 'GLOBAL-CAN-16X20', problems: [] };
+      expect(applyConfigurationCheck(suggestion, check, currentConfig)).toBe(suggestion);
+    });
+
+    it('rewrites a suggestion around what can be applied', () => {
+      const repaired = applyConfigurationCheck(
+        suggestion,
+        { valid: false, changes: { productType: 'canvas' }, sku: 'GLOBAL-CAN-16X20', problems: ["Glaze isn't offered on canvas"] },
+        currentConfig
+      );
+
+      expect(repaired).toMatchObject({
+        id: suggestion.id,
+        title: 'Switch to Canvas',
+        changes: { productType: 'canvas' },
+        currentValues: { productType: 'framed-print' },
+      });
+      expect(repaired!.reason).toContain("Glaze isn't offered on canvas");
+    });
+
+    it('drops suggestions with nothing left to change', () => {
+      const check = { valid: false, changes: { frameColor: 'black' }, sku: null, problems: ['x'] };
+      expect(applyConfigurationCheck(suggestion, check, currentConfig)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import {
+  createChatStreamParser,
+  encodeChatStreamEvent,
+  type ChatStreamEvent,
+} from '../studio/chat-stream';
+import { buildChatReply, fallbackChatReply, suggestionsFromToolResult } from '../studio/chat-reply';
+import { emitProgress } from '../studio/langgraph/progress';
+
+describe('studio chat streaming', () => {
+  describe('encodeChatStreamEvent / createChatStreamParser', () => {
+    it('round-trips events split across arbitrary chunks', () => {
+      const events: ChatStreamEvent[] = [
+        { type: 'agents_selected', agents: ['frame-advisor', 'pricing-advisor'] },
+        { type: 'tool_call', agent: 'frame-advisor', toolName: 'updateFrame' },
+        { type: 'token', text: 'Black works\n\nwell' },
+        { type: 'done', reply: fallbackChatReply(new Error('boom'), 'conv-1') },
+      ];
+      const wire = events.map(encodeChatStreamEvent).join('');
+
+      const received: ChatStreamEvent[] = [];
+      const parser = createChatStreamParser(event => received.push(event));
+      for (let i = 0; i < wire.length; i += 7) {
+        parser.push(wire.slice(i, i + 7));
+      }
+
+      expect(received).toEqual(events);
+    });
+
+    it('skips comments, unknown events and malformed data', () => {
+      const received: ChatStreamEvent[] = [];
+      const consoleError = jest.spyOn(console, 'error').mockImplementation();
+      const parser = createChatStreamParser(event => received.push(event));
+
+      parser.push(': keep-alive\n\nevent: ping\ndata: {}\n\nevent: token\ndata: {not json\n\n');
+      parser.push(encodeChatStreamEvent({ type: 'token', text: 'Hi' }));
+
+      expect(received).toEqual([{ type: 'token', text: 'Hi' }]);
+      consoleError.mockRestore();
+    });
+  });
+
+  describe('suggestionsFromToolResult', () => {
+    it('turns an update into a card against the current configuration', () => {
+      const [suggestion] = suggestionsFromToolResult(
+        'updateFrame',
+        { updates: { frameColor: 'white' } },
+        { frameColor: 'black' }
+      );
+
+      expect(suggestion).toMatchObject({
+        type: 'configuration',
+        title: 'Change Frame to White',
+        description: 'Change from black to white',
+        changes: { frameColor: 'white' },
+        currentValues: { frameColor: 'black' },
+      });
+    });
+
+    it('ignores tools that produce no cards', () => {
+      expect(suggestionsFromToolResult('getFrameVisuals', { images: [] }, {})).toEqual([]);
+    });
+  });
+
+  describe('buildChatReply', () => {
+    it('strips markdown images and collects image suggestions', () => {
+      const images = { images: [{ path: '/a.jpg', type: 'lifestyle', description: 'A' }] };
+      const reply = buildChatReply(
+        {
+          finalResponse: 'Here it is ![frame](/made-up.jpg)',
+          toolResults: [{ toolName: 'getFrameVisuals', result: images }],
+        },
+        {},
+        'conv-1'
+      );
+
+      expect(reply).toMatchObject({
+        content: 'Here it is ',
+        imageSuggestions: images,
+        showLifestyleImages: true,
+        conversationId: 'conv-1',
+      });
+    });
+  });
+
+  describe('emitProgress', () => {
+    it('reports to the run listener and never throws', () => {
+      const onProgress = jest.fn(() => {
+        throw new Error('listener failed');
+      });
+      const consoleError = jest.spyOn(console, 'error').mockImplementation();
+
+      expect(() => emitProgress({ configurable: { onProgress } }, { type: 'agent_start', agent: 'frame-advisor' }))
+        .not.toThrow();
+      expect(onProgress).toHaveBeenCalledWith({ type: 'agent_start', agent: 'frame-advisor' });
+      expect(() => emitProgress(undefined, { type: 'token', text: 'x' })).not.toThrow();
+      consoleError.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import {
+  StudioConversationService,
+  StudioConversationError,
+  conversationTitle,
+  toConversationCheckpoint,
+} from '../studio/conversations';
+import { createMockSupabase } from '../../../__tests__/supabase-mock';
+
+const conversationRow = {
+  id: 'conv-1',
+  user_id: 'user-1',
+  title: 'Which frame suits a watercolour?',
+  checkpoint: {
+    frameConfig: { productType: 'framed-print', size: '16x20' },
+    selectedAgents: ['frame-advisor'],
+    suggestions: [{ id: 's-1', title: 'Try white' }],
+  },
+  message_count: 2,
+  last_message_at: '2025-12-20T10:00:00.001Z',
+  created_at: '2025-12-20T10:00:00.000Z',
+};
+
+describe('studio conversations', () => {
+  describe('conversationTitle', () => {
+    it('collapses whitespace and shortens long messages', () => {
+      expect(conversationTitle('  Which   frame\nsuits this?  ')).toBe('Which frame suits this?');
+
+      const title = conversationTitle('a'.repeat(200));
+      expect(title).toHaveLength(120);
+      expect(title.endsWith('…')).toBe(true);
+    });
+  });
+
+  describe('toConversationCheckpoint', () => {
+    it('keeps the resumable parts of the agent state', () => {
+      const checkpoint = toConversationCheckpoint(
+        {
+          userMessage: 'hi',
+          messages: [{ role: 'user', content: 'hi' }],
+          frameConfig: { productType: 'canvas' } as any,
+          selectedAgents: ['pricing-advisor'],
+          agentResponses: { 'pricing-advisor': { agent: 'pricing-advisor', content: '...' } },
+          showLifestyleImages: true,
+        },
+        [{ id: 's-1' } as any]
+      );
+
+      expect(checkpoint).toEqual({
+        frameConfig: { productType: 'canvas' },
+        imageAnalysis: null,
+        selectedAgents: ['pricing-advisor'],
+        currentAgent: null,
+        suggestions: [{ id: 's-1' }],
+        comparison: null,
+        showLifestyleImages: true,
+      });
+    });
+  });
+
+  describe('StudioConversationService', () => {
+    it('returns the stored history oldest first with the checkpoint', async () => {
+      const supabase = createMockSupabase([
+        { data: conversationRow },
+        {
+          data: [
+            { role: 'assistant', content: 'A white frame would work well.' },
+            { role: 'user', content: 'Which frame suits a watercolour?' },
+          ],
+        },
+      ]);
+
+      const history = await new StudioConversationService(supabase).getHistory('user-1', 'conv-1');
+
+      expect(history.messages.map(m => m.role)).toEqual(['user', 'assistant']);
+      expect(history.checkpoint.frameConfig).toEqual({ productType: 'framed-print', size: '16x20' });
+      expect(history.checkpoint.suggestions).toEqual([{ id: 's-1', title: 'Try white' }]);
+    });
+
+    it('appends both sides of a turn and replaces the checkpoint', async () => {
+      const supabase = createMockSupabase([{ data: conversationRow }, { error: null }, { error: null }]);
+      const checkpoint = toConversationCheckpoint({ selectedAgents: ['frame-advisor'] });
+
+      await new StudioConversationService(supabase).appendTurn('user-1', 'conv-1', {
+        userMessage: 'And for a canvas?',
+        assistantMessage: { content: 'Go for a 38mm wrap.' },
+        checkpoint,
+      });
+
+      const [messages] = supabase.insert.mock.calls[0];
+      expect(messages.map((m: any) => [m.role, m.content])).toEqual([
+        ['user', 'And for a canvas?'],
+        ['assistant', 'Go for a 38mm wrap.'],
+      ]);
+      expect(Date.parse(messages[1].created_at)).toBeGreaterThan(Date.parse(messages[0].created_at));
+      expect(supabase.update).toHaveBeenCalledWith(expect.objectContaining({ checkpoint, message_count: 4 }));
+    });
+
+    it("does not touch another user's conversation", async () => {
+      const supabase = createMockSupabase([{ data: null, error: { message: 'No rows' } }]);
+
+      await expect(new StudioConversationService(supabase).delete('user-2', 'conv-1'))
+        .rejects.toMatchObject({ statusCode: 404 });
+      expect(supabase.delete).not.toHaveBeenCalled();
+    });
+
+    it('only accepts the offered retention periods', async () => {
+      const service = new StudioConversationService(createMockSupabase([{ error: null }, { error: null }]));
+
+      await expect(service.setRetention('user-1', 45)).rejects.toThrow(StudioConversationError);
+      await expect(service.setRetention('user-1', 30)).resolves.toBe(30);
+      await expect(service.setRetention('user-1', null)).resolves.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { routerNode } from '../studio/langgraph/nodes/router';
+import { STUDIO_EVAL_CASES } from '../studio/evals/dataset';
+import { scoreCase, summarizeEvalResults } from '../studio/evals/scoring';
+import { findRegressions, formatEvalReport } from '../studio/evals/report';
+import type { EvalRunOutput, StudioEvalCase } from '../studio/evals/types';
+import recordings from '../studio/evals/recordings.json';
+
+const printCase: StudioEvalCase = {
+  id: 'print-to-canvas',
+  description: 'test',
+  message: 'Switch to canvas',
+  frameConfig: { productType: 'framed-print', size: '16x20', frameColor: 'black' },
+  expectedAgents: ['frame-advisor'],
+  expectedChanges: { productType: 'canvas' },
+  unchanged: ['size'],
+  forbidden: { patterns: ['\\$\\s?\\d'] },
+};
+
+function frameAdvisorRun(updates: Record<string, any>, content = 'Done.'): EvalRunOutput {
+  return {
+    selectedAgents: ['frame-advisor'],
+    finalResponse: content,
+    agents: {
+      'frame-advisor': {
+        content,
+        fallback: false,
+        toolCalls: [{ name: 'updateFrame', args: updates }],
+        toolResults: [{ toolName: 'updateFrame', result: { success: true, updates } }],
+      },
+    },
+  };
+}
+
+describe('studio evals', () => {
+  describe('dataset', () => {
+    it.each(STUDIO_EVAL_CASES.map(evalCase => [evalCase.id, evalCase] as const))(
+      '%s routes as expected and has a recording',
+      async (id, evalCase) => {
+        const { selectedAgents } = await routerNode({
+          userMessage: evalCase.message,
+          messages: [],
+          frameConfig: evalCase.frameConfig as any,
+          selectedAgents: [],
+          agentResponses: {},
+        });
+
+        expect([...selectedAgents!].sort()).toEqual([...evalCase.expectedAgents].sort());
+        expect(recordings).toHaveProperty([id]);
+      }
+    );
+  });
+
+  describe('scoreCase', () => {
+    it('passes a run that makes the expected change', () => {
+      const result = scoreCase(printCase, frameAdvisorRun({ productType: 'canvas', wrap: 'Black' }));
+
+      expect(result.passed).toBe(true);
+      expect(result.configChanges).toEqual({ productType: 'canvas', wrap: 'Black' });
+    });
+
+    it('flags options the resulting product does not have', () => {
+      const result = scoreCase(printCase, frameAdvisorRun({ productType: 'canvas', glaze: 'glass', frameColor: 'white' }));
+      const failed = result.checks.filter(check => !check.passed).map(check => check.message);
+
+      expect(result.passed).toBe(false);
+      expect(failed).toEqual([
+        'Set frameColor to white on a canvas, which has no frameColor',
+        'Set glaze to glass on a canvas, which has no glaze',
+      ]);
+    });
+
+    it('flags invented SKUs, forbidden patterns and unasked changes', () => {
+      const result = scoreCase(
+        printCase,
+        frameAdvisorRun({ productType: 'canvas', size: '24x36' }, 'That is GLOBAL-CAN-24X36 for $89')
+      );
+      const failed = result.checks.filter(check => !check.passed);
+
+      expect(failed.map(check => [check.kind, check.agent])).toEqual([
+        ['config', 'frame-advisor'],
+        ['forbidden', 'synthesizer'],
+        ['forbidden', 'synthesizer'],
+        ['forbidden', 'frame-advisor'],
+        ['forbidden', 'frame-advisor'],
+      ]);
+      expect(failed[1].message).toBe('SKU GLOBAL-CAN-24X36 in final reply was not returned by any tool');
+    });
+
+    it('charges missed routing to the router and fallbacks to the agent', () => {
+      const run = frameAdvisorRun({ productType: 'canvas' });
+      run.selectedAgents = ['frame-advisor', 'pricing-advisor'];
+      run.agents['pricing-advisor'] = {
+        content: 'Pricing is unavailable',
+        fallback: true,
+        error: 'No recorded model reply',
+        toolCalls: [],
+        toolResults: [],
+      };
+
+      const report = summarizeEvalResults([printCase], [scoreCase(printCase, run)]);
+      const pricing = report.agents.find(score => score.agent === 'pricing-advisor')!;
+
+      expect(report.agents.find(score => score.agent === 'router')).toMatchObject({ checksPassed: 0, checksTotal: 1 });
+      expect(pricing).toMatchObject({ falsePositives: 1, precision: 0, checksPassed: 0, checksTotal: 1 });
+    });
+  });
+
+  describe('report', () => {
+    it('lists cases and scores that got worse since the baseline', () => {
+      const baseline = summarizeEvalResults([printCase], [scoreCase(printCase, frameAdvisorRun({ productType: 'canvas' }))]);
+      const current = summarizeEvalResults([printCase], [scoreCase(printCase, frameAdvisorRun({ productType: 'poster' }))]);
+
+      const regressions = findRegressions(baseline, current);
+
+      expect(regressions.map(regression => regression.subject)).toEqual(['case print-to-canvas', 'frame-advisor']);
+      expect(findRegressions(baseline, baseline)).toEqual([]);
+
+      const text = formatEvalReport(current, regressions);
+      expect(text).toContain('Studio agent evals: 0/1 cases passed');
+      expect(text).toContain('[frame-advisor] Expected productType to become canvas, got poster');
+      expect(text).toContain('Regressions against the baseline (2):');
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import { StudioQuoteService, matchUnitCosts, type StudioQuoteDeps } from '../studio/quote-service';
+import { SwrCache, MemoryCacheBackend } from '../prodigi-v2/cache';
+import { generateQuoteKey } from '../checkout/utils/attribute-normalizer';
+import type { CreateQuoteRequest, Quote } from '../prodigi-v2/types';
+
+const quoteFor = (request: CreateQuoteRequest, price = (sku: string) => (sku.endsWith('16X20') ? '45.00' : '30.00')): Quote => ({
+  shipmentMethod: request.shippingMethod,
+  costSummary: {
+    items: { amount: '0', currency: 'USD' },
+    shipping: { amount: '9.95', currency: 'USD' },
+  },
+  shipments: [],
+  items: request.items.map((item, index) => ({
+    id: `item-${index}`,
+    sku: item.sku,
+    copies: item.copies,
+    unitCost: { amount: price(item.sku), currency: 'USD' },
+    attributes: item.attributes,
+    assets: item.assets,
+  })),
+});
+
+function createService(overrides: Partial<StudioQuoteDeps> = {}) {
+  const deps: StudioQuoteDeps = {
+    quotes: { create: jest.fn(async (request: CreateQuoteRequest) => [quoteFor(request)]) },
+    catalog: {
+      getAvailableSizes: jest.fn().mockResolvedValue(['8x10', '16x20']),
+      getSKU: jest.fn(async (_type: string, size: string) => `GLOBAL-CFPM-${size.toUpperCase()}`),
+    },
+    products: { get: jest.fn().mockResolvedValue({ attributes: { color: ['black', 'white'] } }) },
+    ...overrides,
+  };
+  const service = new StudioQuoteService(deps, {
+    cache: new SwrCache(new MemoryCacheBackend()),
+    namespace: 'sandbox',
+    batchWindowMs: 0,
+  });
+  return { service, deps };
+}
+
+const target = (sku: string, attributes: Record<string, string> = { color: 'black' }) => ({
+  sku,
+  attributes,
+  country: 'US',
+  shippingMethod: 'Standard' as const,
+});
+
+describe('StudioQuoteService', () => {
+  it('includes the destination in generateQuoteKey', () => {
+    expect(generateQuoteKey('GLOBAL-CFPM-8X10', { Color: 'Black' }, { country: 'us', shippingMethod: 'Standard' }))
+      .toBe('global-cfpm-8x10:{"color":"black"}:US:standard');
+    expect(generateQuoteKey('GLOBAL-CFPM-8X10', { color: 'black' })).toBe('global-cfpm-8x10:{"color":"black"}');
+  });
+
+  it('batches concurrent item prices into one quote call', async () => {
+    const { service, deps } = createService();
+
+    const prices = await service.getItemPrices([target('GLOBAL-CFPM-8X10'), target('GLOBAL-CFPM-16X20')]);
+
+    expect(deps.quotes.create).toHaveBeenCalledTimes(1);
+    expect((deps.quotes.create as jest.Mock).mock.calls[0][0].items).toHaveLength(2);
+    expect((deps.quotes.create as jest.Mock).mock.calls[0][1]).toEqual({ cache: false });
+    expect(prices.map(price => price?.amount)).toEqual(['30.00', '45.00']);
+  });
+
+  it('dedupes identical requests and serves repeats from cache', async () => {
+    const { service, deps } = createService();
+
+    await Promise.all([
+      service.getItemPrice(target('GLOBAL-CFPM-8X10', { color: 'black' })),
+      service.getItemPrice(target('GLOBAL-CFPM-8X10', { Color: 'Black' })),
+    ]);
+    await service.getItemPrice(target('GLOBAL-CFPM-8X10'));
+
+    expect(deps.quotes.create).toHaveBeenCalledTimes(1);
+    expect((deps.quotes.create as jest.Mock).mock.calls[0][0].items).toHaveLength(1);
+  });
+
+  it('quotes items individually when a batch is rejected', async () => {
+    const create = jest.fn(async (request: CreateQuoteRequest) => {
+      if (request.items.some(item => item.sku === 'BAD-SKU')) {
+        throw new Error('Invalid SKU');
+      }
+      return [quoteFor(request)];
+    });
+    const { service } = createService({ quotes: { create } });
+
+    const prices = await service.getItemPrices([target('GLOBAL-CFPM-8X10'), target('BAD-SKU')]);
+
+    expect(prices[0]?.amount).toBe('30.00');
+    expect(prices[1]).toBeNull();
+    expect(create).toHaveBeenCalledTimes(3);
+  });
+
+  it('caches full quotes per shipping method', async () => {
+    const { service, deps } = createService();
+
+    await service.getQuotesForMethods({ sku: 'GLOBAL-CFPM-8X10', country: 'US' }, ['Standard', 'Express']);
+    const quotes = await service.getQuotesForMethods({ sku: 'GLOBAL-CFPM-8X10', country: 'US' }, ['Standard', 'Express']);
+
+    expect(quotes.map(quote => quote.shipmentMethod)).toEqual(['Standard', 'Express']);
+    expect(deps.quotes.create).toHaveBeenCalledTimes(2);
+  });
+
+  it('pre-warms prices for every available size', async () => {
+    const { service, deps } = createService();
+
+    const sizePrices = await service.prewarmSizes({ productType: 'framed-print', frameColor: 'white' }, 'US');
+
+    expect(deps.quotes.create).toHaveBeenCalledTimes(1);
+    expect((deps.quotes.create as jest.Mock).mock.calls[0][0].items[0].attributes).toEqual({ color: 'white' });
+    expect(sizePrices).toEqual([
+      { size: '8x10', sku: 'GLOBAL-CFPM-8X10', unitCost: { amount: '30.00', currency: 'USD' } },
+      { size: '16x20', sku: 'GLOBAL-CFPM-16X20', unitCost: { amount: '45.00', currency: 'USD' } },
+    ]);
+  });
+
+  it('matches quote items by SKU when attributes are not echoed back', () => {
+    const request: CreateQuoteRequest = {
+      destinationCountryCode: 'US',
+      shippingMethod: 'Standard',
+      items: [{ sku: 'GLOBAL-CFPM-8X10', copies: 1, assets: [{ printArea: 'default' }] }],
+    };
+
+    expect(matchUnitCosts(quoteFor(request), [target('GLOBAL-CFPM-8X10')])[0]?.amount).toBe('30.00');
+  });
+});
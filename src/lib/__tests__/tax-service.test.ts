@@ -0,0 +1,108 @@
+import { LocalTaxProvider, createTaxProvider } from '../checkout/services/tax.service';
+import { ExternalTaxProvider } from '../checkout/adapters/external-tax.adapter';
+import type { TaxCalculationRequest } from '../checkout/types/tax.types';
+
+const request = (
+  address: TaxCalculationRequest['address'],
+  amount = 100,
+  shipping = 10
+): TaxCalculationRequest => ({
+  address,
+  lines: [{ amount, quantity: 1 }],
+  shipping,
+  currency: 'USD',
+});
+
+describe('LocalTaxProvider', () => {
+  const provider = new LocalTaxProvider();
+
+  it('applies the state rate for US addresses', async () => {
+    const result = await provider.calculate(request({ country: 'US', region: 'ca' }));
+
+    expect(result.rate).toBeGreaterThan(0);
+    expect(result.itemsTax).toBeCloseTo(100 * result.rate, 2);
+    expect(result.inclusive).toBe(false);
+    expect(result.estimated).toBe(false);
+    expect(result.breakdown[0].jurisdiction).toBe('US-CA');
+  });
+
+  it('does not tax US states without sales tax', async () => {
+    const result = await provider.calculate(request({ country: 'US', region: 'OR' }));
+
+    expect(result.totalTax).toBe(0);
+  });
+
+  it('only taxes shipping where the region taxes it', async () => {
+    const result = await provider.calculate(request({ country: 'US', region: 'CA' }));
+
+    expect(result.taxShipping).toBe(false);
+    expect(result.shippingTax).toBe(0);
+  });
+
+  it('combines GST and PST for Canadian provinces', async () => {
+    const result = await provider.calculate(request({ country: 'CA', region: 'BC' }));
+
+    expect(result.breakdown.map(b => b.name)).toEqual(expect.arrayContaining(['GST', 'PST']));
+    expect(result.rate).toBeCloseTo(0.12, 4);
+  });
+
+  it('uses destination VAT for EU countries and marks it inclusive', async () => {
+    const result = await provider.calculate(request({ country: 'DE' }));
+
+    expect(result.taxName).toBe('VAT');
+    expect(result.rate).toBeCloseTo(0.19, 4);
+    expect(result.inclusive).toBe(true);
+    expect(result.shippingTax).toBeCloseTo(1.9, 2);
+  });
+
+  it('estimates with country rules when the region is missing', async () => {
+    const result = await provider.calculate(request({ country: 'CA' }));
+
+    expect(result.estimated).toBe(true);
+    expect(result.rate).toBeCloseTo(0.05, 4);
+  });
+
+  it('returns zero tax for markets without rules', async () => {
+    const result = await provider.calculate(request({ country: 'ZZ' }));
+
+    expect(result.totalTax).toBe(0);
+    expect(result.breakdown).toEqual([]);
+  });
+});
+
+describe('ExternalTaxProvider', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('falls back to the local rules when the service fails', async () => {
+    global.fetch = jest.fn().mockResolvedValue({ ok: false, status: 503 }) as any;
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const provider = new ExternalTaxProvider({ url: 'https://tax.example.com' }, new LocalTaxProvider());
+    const result = await provider.calculate(request({ country: 'DE' }));
+
+    expect(result.provider).toBe('local');
+    expect(result.rate).toBeCloseTo(0.19, 4);
+  });
+});
+
+describe('createTaxProvider', () => {
+  const originalEnv = process.env;
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('defaults to the local provider', () => {
+    process.env = { ...originalEnv, TAX_PROVIDER: undefined };
+    expect(createTaxProvider().name).toBe('local');
+  });
+
+  it('uses the external adapter when configured', () => {
+    process.env = { ...originalEnv, TAX_PROVIDER: 'external', TAX_SERVICE_URL: 'https://tax.example.com' };
+    expect(createTaxProvider().name).toBe('external');
+  });
+});
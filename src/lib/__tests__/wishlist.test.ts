@@ -0,0 +1,150 @@
+import { WishlistService, WishlistError, configToCartItem } from '../wishlist';
+import type { FrameConfiguration } from '@/store/studio';
+import { createMockSupabase } from '../../../__tests__/supabase-mock';
+
+const config = (overrides: Partial<FrameConfiguration> = {}): FrameConfiguration => ({
+  imageUrl: 'https://cdn.example.com/art.jpg',
+  imageId: 'upload-1',
+  imageAnalysis: null,
+  productType: 'canvas',
+  sku: 'GLOBAL-CAN-16X20',
+  frameColor: 'Natural',
+  frameStyle: 'classic',
+  frameThickness: 'standard',
+  glaze: 'none',
+  mount: 'none',
+  mountColor: 'white',
+  size: '16x20',
+  paperType: 'standard',
+  finish: 'matte',
+  wrap: 'ImageWrap',
+  edge: '38mm',
+  price: 80,
+  currency: 'USD',
+  shippingCost: 0,
+  ...overrides,
+} as FrameConfiguration);
+
+const wishlistRow = (overrides: Record<string, any> = {}) => ({
+  id: 'wish-1',
+  user_id: 'user-1',
+  image_url: 'https://cdn.example.com/art.jpg',
+  image_id: null,
+  curated_image_id: 'curated-1',
+  product_id: null,
+  title: 'Sunset',
+  frame_config: config(),
+  created_at: '2025-01-01T00:00:00Z',
+  updated_at: '2025-01-01T00:00:00Z',
+  ...overrides,
+});
+
+describe('wishlist', () => {
+  describe('configToCartItem', () => {
+    it('maps a studio configuration to a quotable cart item', () => {
+      const item = configToCartItem(config(), 'https://cdn.example.com/art.jpg');
+
+      expect(item.sku).toBe('GLOBAL-CAN-16X20');
+      expect(item.name).toBe('Canvas');
+      expect(item.frameConfig).toMatchObject({ size: '16x20', style: 'natural', wrap: 'ImageWrap', edge: '38mm' });
+    });
+
+    it('requires a SKU', () => {
+      expect(() => configToCartItem(config({ sku: null }), '')).toThrow(WishlistError);
+    });
+  });
+
+  describe('WishlistService.add', () => {
+    it('stores the configuration snapshot and drops image IDs the user does not own', async () => {
+      const supabase = createMockSupabase([
+        { data: null, error: null }, // ownsImage
+        { data: wishlistRow({ curated_image_id: null }), error: null },
+      ]);
+      const service = new WishlistService(supabase);
+
+      const item = await service.add('user-1', { imageId: 'upload-1', config: config() });
+
+      const row = supabase.upsert.mock.calls[0][0];
+      expect(row.image_url).toBe('https://cdn.example.com/art.jpg');
+      expect(row.image_id).toBeNull();
+      expect(row.frame_config.productType).toBe('canvas');
+      expect(supabase.upsert.mock.calls[0][1]).toEqual({ onConflict: 'user_id,image_url' });
+      expect(item.frameConfig?.sku).toBe('GLOBAL-CAN-16X20');
+    });
+
+    it('rejects invalid configurations', async () => {
+      const service = new WishlistService(createMockSupabase([]));
+
+      await expect(
+        service.add('user-1', { imageUrl: 'https://cdn.example.com/a.jpg', config: { productType: 'mug' } })
+      ).rejects.toThrow('Invalid product type');
+    });
+
+    it('rejects inline image data', async () => {
+      const service = new WishlistService(createMockSupabase([]));
+
+      await expect(service.add('user-1', { imageUrl: 'data:image/png;base64,abc' })).rejects.toThrow(WishlistError);
+    });
+  });
+
+  describe('WishlistService.moveToCart', () => {
+    const cartItem = { id: 'cart-1', price: 92.5, originalPrice: 92.5 };
+
+    const services = () => ({
+      pricingService: {
+        calculatePricing: jest.fn().mockResolvedValue({ subtotal: 92.5, itemPrices: new Map([[0, 92.5]]) }),
+      } as any,
+      cartService: { addItem: jest.fn().mockResolvedValue(cartItem) } as any,
+    });
+
+    it('re-quotes the design, creates the product and moves it to the cart', async () => {
+      const supabase = createMockSupabase([
+        { data: wishlistRow(), error: null }, // owned row
+        { data: { id: '11111111-2222-3333-4444-555555555555' }, error: null }, // images insert
+        { data: null, error: null }, // link image to wishlist item
+        { data: null, error: null }, // existing product by SKU
+        { data: { id: 'product-1' }, error: null }, // product insert
+        { data: null, error: null }, // delete wishlist item
+      ]);
+      const deps = services();
+      const service = new WishlistService(supabase);
+
+      const result = await service.moveToCart('user-1', 'wish-1', deps);
+
+      expect(deps.pricingService.calculatePricing).toHaveBeenCalledWith(
+        [expect.objectContaining({ sku: 'GLOBAL-CAN-16X20' })],
+        'US',
+        'Standard',
+        'USD'
+      );
+      expect(supabase.insert).toHaveBeenLastCalledWith(
+        expect.objectContaining({ sku: 'GLOBAL-CAN-16X20-11111111', price: 92.5, frame_style: 'natural' })
+      );
+      expect(deps.cartService.addItem).toHaveBeenCalledWith('user-1', { productId: 'product-1', quantity: 1 });
+      expect(supabase.delete).toHaveBeenCalled();
+      expect(result).toMatchObject({ price: 92.5, previousPrice: 80, priceChanged: true });
+    });
+
+    it('asks for a frame when only the image was wishlisted', async () => {
+      const supabase = createMockSupabase([{ data: wishlistRow({ frame_config: null }), error: null }]);
+      const deps = services();
+      const service = new WishlistService(supabase);
+
+      await expect(service.moveToCart('user-1', 'wish-1', deps)).rejects.toMatchObject({
+        statusCode: 400,
+        details: { reason: 'missing_configuration' },
+      });
+      expect(deps.cartService.addItem).not.toHaveBeenCalled();
+    });
+
+    it('keeps the item when pricing fails', async () => {
+      const supabase = createMockSupabase([{ data: wishlistRow(), error: null }]);
+      const deps = services();
+      deps.pricingService.calculatePricing.mockRejectedValue(new Error('No quotes'));
+      const service = new WishlistService(supabase);
+
+      await expect(service.moveToCart('user-1', 'wish-1', deps)).rejects.toMatchObject({ statusCode: 502 });
+      expect(supabase.delete).not.toHaveBeenCalled();
+    });
+  });
+});
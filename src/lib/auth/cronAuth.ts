@@ -0,0 +1,17 @@
+import { timingSafeEqual } from 'crypto';
+import type { NextRequest } from 'next/server';
+
+/**
+ * Check a scheduled job's `Authorization: Bearer <CRON_SECRET>` header (the
+ * header Vercel Cron sends). Always false when CRON_SECRET is not set.
+ */
+export function isAuthorizedCronRequest(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return false;
+  }
+
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const received = Buffer.from(request.headers.get('authorization') || '');
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
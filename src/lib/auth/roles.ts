@@ -0,0 +1,44 @@
+/**
+ * Staff Roles
+ *
+ * Every profile has a role (profiles.role). Customers have no staff access;
+ * admin, support and fulfillment are staff roles, each granted the
+ * permissions listed in STAFF_PERMISSIONS. Safe to import from client
+ * components; the server-side guard lives in staffAuth.ts.
+ */
+
+export type UserRole = 'customer' | 'admin' | 'support' | 'fulfillment';
+export type StaffRole = Exclude<UserRole, 'customer'>;
+
+export const STAFF_ROLES: StaffRole[] = ['admin', 'support', 'fulfillment'];
+
+export const STAFF_PERMISSIONS = {
+  // Order management dashboard and order details
+  'orders:read': ['admin', 'support', 'fulfillment'],
+  // Status, tracking and notes edits
+  'orders:update': ['admin', 'support', 'fulfillment'],
+  // Moving an order to cancelled or refunded
+  'orders:cancel': ['admin', 'support'],
+  // Refunding items through Stripe
+  'orders:refund': ['admin', 'support'],
+  // Reprinting items through Prodigi
+  'orders:reprint': ['admin', 'support', 'fulfillment'],
+  // Pulling the latest status from Prodigi
+  'orders:refresh': ['admin', 'support', 'fulfillment'],
+  // Retry operations console
+  'operations:manage': ['admin', 'fulfillment'],
+  'reviews:moderate': ['admin', 'support'],
+  // Prodigi catalog mirror syncs and their diff reports
+  'catalog:sync': ['admin'],
+  'system:health': ['admin'],
+} as const satisfies Record<string, readonly StaffRole[]>;
+
+export type StaffPermission = keyof typeof STAFF_PERMISSIONS;
+
+export function isStaffRole(role: unknown): role is StaffRole {
+  return typeof role === 'string' && (STAFF_ROLES as string[]).includes(role);
+}
+
+export function hasStaffPermission(role: unknown, permission: StaffPermission): boolean {
+  return isStaffRole(role) && (STAFF_PERMISSIONS[permission] as readonly StaffRole[]).includes(role);
+}
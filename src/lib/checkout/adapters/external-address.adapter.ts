@@ -0,0 +1,65 @@
+/**
+ * External Address Verification Adapter for V2 Checkout
+ *
+ * Adapter slot for a third-party address verification service. Posts the
+ * normalized address and shipping method to the configured endpoint and
+ * expects an AddressProviderResult back: whether the address is
+ * deliverable, plus any corrected addresses to suggest.
+ */
+
+import type {
+  AddressProviderResult,
+  AddressVerificationProvider,
+  AddressVerificationRequest,
+} from '../types/address.types';
+import type { ShippingAddress } from '../types/order.types';
+
+export interface ExternalAddressProviderConfig {
+  url: string;
+  apiKey?: string;
+  timeoutMs?: number;
+}
+
+export class ExternalAddressProvider implements AddressVerificationProvider {
+  readonly name = 'external';
+
+  constructor(private config: ExternalAddressProviderConfig) {}
+
+  async verify(request: AddressVerificationRequest): Promise<AddressProviderResult> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.config.timeoutMs ?? 4000);
+
+    try {
+      const response = await fetch(this.config.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.config.apiKey && { Authorization: `Bearer ${this.config.apiKey}` }),
+        },
+        body: JSON.stringify(request),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        throw new Error(`Address verification service responded with ${response.status}`);
+      }
+
+      const result = (await response.json()) as Partial<AddressProviderResult>;
+      if (typeof result.deliverable !== 'boolean') {
+        throw new Error('Address verification service returned an invalid response');
+      }
+
+      return {
+        deliverable: result.deliverable,
+        // Suggestions keep whatever the service doesn't know about (names, phone)
+        suggestions: (result.suggestions || []).map((suggestion: Partial<ShippingAddress>) => ({
+          ...request.address,
+          ...suggestion,
+        })),
+        issues: result.issues || [],
+      };
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
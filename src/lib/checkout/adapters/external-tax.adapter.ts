@@ -0,0 +1,77 @@
+/**
+ * External Tax Service Adapter for V2 Checkout
+ *
+ * Adapter slot for a third-party tax engine. Posts our normalized
+ * TaxCalculationRequest to the configured endpoint and expects a
+ * TaxCalculationResult back. Falls back to the given provider (the local
+ * rules) when the service errors so checkout never blocks on tax.
+ */
+
+import type {
+  TaxCalculationRequest,
+  TaxCalculationResult,
+  TaxProvider,
+} from '../types/tax.types';
+
+export interface ExternalTaxProviderConfig {
+  url: string;
+  apiKey?: string;
+  timeoutMs?: number;
+}
+
+export class ExternalTaxProvider implements TaxProvider {
+  readonly name = 'external';
+
+  constructor(
+    private config: ExternalTaxProviderConfig,
+    private fallback?: TaxProvider
+  ) {}
+
+  async calculate(request: TaxCalculationRequest): Promise<TaxCalculationResult> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.config.timeoutMs ?? 5000);
+
+    try {
+      const response = await fetch(this.config.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.config.apiKey && { Authorization: `Bearer ${this.config.apiKey}` }),
+        },
+        body: JSON.stringify(request),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        throw new Error(`Tax service responded with ${response.status}`);
+      }
+
+      const result = (await response.json()) as Partial<TaxCalculationResult>;
+      if (typeof result.itemsTax !== 'number' || typeof result.shippingTax !== 'number') {
+        throw new Error('Tax service returned an invalid response');
+      }
+
+      return {
+        itemsTax: result.itemsTax,
+        shippingTax: result.shippingTax,
+        totalTax: result.totalTax ?? result.itemsTax + result.shippingTax,
+        rate: result.rate ?? 0,
+        inclusive: result.inclusive ?? false,
+        taxShipping: result.taxShipping ?? result.shippingTax > 0,
+        taxName: result.taxName || 'Tax',
+        breakdown: result.breakdown || [],
+        estimated: result.estimated ?? false,
+        provider: this.name,
+        rulesVersion: result.rulesVersion,
+      };
+    } catch (error) {
+      if (!this.fallback) {
+        throw error;
+      }
+      console.warn('[Tax] External tax service failed, using fallback provider:', error instanceof Error ? error.message : error);
+      return this.fallback.calculate(request);
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
@@ -4,7 +4,10 @@
  * Converts our order format to Prodigi API format
  */
 
+import type { SupabaseClient } from '@supabase/supabase-js';
 import { ProdigiClient } from '@/lib/prodigi';
+import { preparePrintAsset } from '@/lib/print-assets';
+import { getPrintSettings } from '@/lib/print-crop';
 import { buildProdigiAttributesHeuristic } from '../utils/attribute-builder';
 import type { Order, OrderItem } from '../types/order.types';
 import type { ShippingAddress } from '../types/order.types';
@@ -62,7 +65,10 @@ export interface ProdigiOrderResponse {
 }
 
 export class ProdigiAdapter {
-  constructor(private prodigiClient: ProdigiClient) {}
+  constructor(
+    private prodigiClient: ProdigiClient,
+    private supabase: SupabaseClient
+  ) {}
 
   /**
    * Convert order to Prodigi format
@@ -96,16 +102,26 @@ export class ProdigiAdapter {
           // Build attributes
           const attributes = this.buildAttributes(item.frameConfig, baseSku);
 
+          // Items with a custom crop are sent as a cropped print-ready asset
+          const printAsset = await preparePrintAsset(this.supabase, {
+            orderId: order.id,
+            orderItemId: item.id,
+            imageUrl: item.imageUrl, // Should already be public URL
+            size: item.frameConfig.size,
+            settings: getPrintSettings(item.frameConfig),
+            printAssetUrl: item.printAssetUrl,
+          });
+
           return {
             merchantReference: `item-${item.id}`,
             sku: baseSku,
             copies: item.quantity,
-            sizing: 'fillPrintArea',
+            sizing: printAsset.sizing,
             attributes,
             assets: [
               {
                 printArea: 'Default',
-                url: item.imageUrl, // Should already be public URL
+                url: printAsset.url,
               },
             ],
           };
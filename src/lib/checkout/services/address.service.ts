@@ -1,84 +1,119 @@
 /**
  * Address Service for V2 Checkout
  * 
- * Handles address validation, normalization, and storage
+ * Handles address validation, normalization, and storage. Validation runs
+ * the local country rules (address.validator.ts) and then, if one is
+ * configured, an external verification provider for deliverability and
+ * suggested corrections.
  */
 
 import type { SupabaseClient } from '@supabase/supabase-js';
 import { AddressError } from '../types/errors';
-import type { ShippingAddress, SavedAddress } from '../types/order.types';
-import { validateShippingAddress } from '../validators/address.validator';
+import type { ShippingAddress, SavedAddress, ShippingMethod } from '../types/order.types';
+import type {
+  AddressField,
+  AddressIssue,
+  AddressVerificationProvider,
+  AddressVerificationResult,
+} from '../types/address.types';
+import { validateAddressRules, validateShippingAddress } from '../validators/address.validator';
+import { normalizeAddress } from '../utils/address-normalizer';
+import { ExternalAddressProvider } from '../adapters/external-address.adapter';
 
-export class AddressService {
-  constructor(private supabase: SupabaseClient) {}
+const ADDRESS_FIELDS: AddressField[] = ['address1', 'address2', 'city', 'state', 'zip', 'country', 'phone'];
 
+export interface ValidateAddressOptions {
   /**
-   * Validate address with Google Maps (if available)
-   * In production, this would integrate with Google Maps API
+   * Ask the verification provider as well as the local rules (default true).
+   * Its findings are warnings the customer can accept, so checks that only
+   * need to block bad addresses can skip the round trip.
    */
-  async validateAddress(address: ShippingAddress): Promise<{
-    valid: boolean;
-    address?: ShippingAddress;
-    errors: string[];
-  }> {
-    try {
-      // Basic validation
-      const validated = validateShippingAddress(address);
-
-      // Additional validation
-      if (!validated.address1 || validated.address1.trim().length < 3) {
-        return {
-          valid: false,
-          errors: ['Street address is required'],
-        };
-      }
+  verify?: boolean;
+}
 
-      if (!validated.city || validated.city.trim().length < 2) {
-        return {
-          valid: false,
-          errors: ['City is required'],
-        };
-      }
+/**
+ * The configured verification provider, or null for local rules only
+ */
+export function createAddressVerifier(): AddressVerificationProvider | null {
+  if (process.env.ADDRESS_VERIFICATION_PROVIDER === 'external' && process.env.ADDRESS_VERIFICATION_URL) {
+    return new ExternalAddressProvider({
+      url: process.env.ADDRESS_VERIFICATION_URL,
+      apiKey: process.env.ADDRESS_VERIFICATION_API_KEY,
+    });
+  }
 
-      if (!validated.country || validated.country.length !== 2) {
-        return {
-          valid: false,
-          errors: ['Country code is required (2 characters)'],
-        };
-      }
+  return null;
+}
 
-      return {
-        valid: true,
-        address: validated,
-        errors: [],
-      };
+export class AddressService {
+  constructor(
+    private supabase: SupabaseClient,
+    private verifier: AddressVerificationProvider | null = createAddressVerifier()
+  ) {}
+
+  /**
+   * Validate and normalize an address for shipping with the given method
+   */
+  async validateAddress(
+    address: ShippingAddress,
+    shippingMethod?: ShippingMethod,
+    options: ValidateAddressOptions = {}
+  ): Promise<AddressVerificationResult> {
+    let normalized: ShippingAddress;
+    try {
+      normalized = this.normalizeAddress(validateShippingAddress(address));
     } catch (error) {
       if (error instanceof AddressError) {
-        return {
-          valid: false,
-          errors: [error.message],
-        };
+        return this.result(this.normalizeAddress(address), this.schemaIssues(error), [], false, 'local');
       }
       throw new AddressError('Failed to validate address', {
         originalError: error,
       });
     }
+
+    const issues = validateAddressRules(normalized, shippingMethod);
+    const useVerifier = this.verifier && options.verify !== false;
+
+    // Only well-formed addresses are worth sending to the provider
+    if (!useVerifier || issues.some(issue => issue.severity === 'error')) {
+      return this.result(normalized, issues, [], false, 'local');
+    }
+
+    try {
+      const verification = await this.verifier!.verify({ address: normalized, shippingMethod });
+      const suggestions = verification.suggestions
+        .map(suggestion => this.normalizeAddress(suggestion))
+        .filter(suggestion => !this.sameAddress(suggestion, normalized));
+
+      const providerIssues = [...(verification.issues || [])];
+      if (!verification.deliverable && providerIssues.length === 0) {
+        providerIssues.push({
+          field: 'address1',
+          code: 'unverified',
+          message: "We couldn't confirm this address - please check it before paying",
+          severity: 'warning',
+        });
+      }
+
+      return this.result(
+        normalized,
+        [...issues, ...providerIssues],
+        suggestions,
+        verification.deliverable,
+        this.verifier!.name
+      );
+    } catch (error) {
+      // Checkout doesn't depend on the provider being up
+      console.warn('[Address] Verification provider failed, using local rules only:', error instanceof Error ? error.message : error);
+      return this.result(normalized, issues, [], false, 'local');
+    }
   }
 
   /**
-   * Normalize address format
+   * Normalize address format (postcode, state code, E.164 phone)
    */
   normalizeAddress(address: ShippingAddress): ShippingAddress {
-    return {
-      ...address,
-      address1: address.address1?.trim() || '',
-      address2: address.address2?.trim() || undefined,
-      city: address.city?.trim() || '',
-      state: address.state?.trim() || undefined,
-      zip: address.zip?.trim() || undefined,
-      country: address.country?.toUpperCase().trim() || '',
-      phone: address.phone?.trim() || undefined,
-    };
+    return normalizeAddress(address);
   }
 
   /**
@@ -199,8 +234,45 @@ export class AddressService {
       return null;
     }
   }
-}
 
+  private result(
+    address: ShippingAddress,
+    issues: AddressIssue[],
+    suggestions: ShippingAddress[],
+    verified: boolean,
+    provider: string
+  ): AddressVerificationResult {
+    return {
+      valid: !issues.some(issue => issue.severity === 'error'),
+      address,
+      issues,
+      suggestions,
+      verified,
+      provider,
+    };
+  }
 
+  private schemaIssues(error: AddressError): AddressIssue[] {
+    const zodIssues: Array<{ path: Array<string | number>; message: string }> = error.details?.issues || [];
+    const issues = zodIssues
+      .filter(issue => ADDRESS_FIELDS.includes(issue.path[0] as AddressField))
+      .map(issue => ({
+        field: issue.path[0] as AddressField,
+        code: 'required' as const,
+        message: issue.message,
+        severity: 'error' as const,
+      }));
 
+    return issues.length > 0
+      ? issues
+      : [{ field: 'address1', code: 'required', message: error.message, severity: 'error' }];
+  }
 
+  private sameAddress(a: ShippingAddress, b: ShippingAddress): boolean {
+    const key = (address: ShippingAddress) =>
+      [address.address1, address.address2, address.city, address.state, address.zip, address.country]
+        .map(value => (value || '').toLowerCase())
+        .join('|');
+    return key(a) === key(b);
+  }
+}
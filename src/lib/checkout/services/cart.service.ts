@@ -6,22 +6,26 @@
 
 import type { SupabaseClient } from '@supabase/supabase-js';
 import { ProdigiClient } from '@/lib/prodigi';
-import { CartError } from '../types/errors';
+import { CartError, PromotionError } from '../types/errors';
 import type {
   Cart,
   CartItem,
   CartItemInput,
   PriceValidationResult,
 } from '../types/cart.types';
-import { PricingService } from './pricing.service';
+import { PricingService, type RateLocker } from './pricing.service';
+import { PromotionService, applyDiscountToTotals } from './promotion.service';
 import type { ShippingMethod } from '../types/order.types';
+import type { ExchangeRateSnapshot } from '../types/currency.types';
 import { extractSizeFromSku } from '@/lib/utils/size-conversion';
+import { DEFAULT_PRINT_SIZING, getPrintSettings } from '@/lib/print-crop';
 
 export class CartService {
   constructor(
     private supabase: SupabaseClient,
     private prodigiClient: ProdigiClient,
-    private pricingService: PricingService
+    private pricingService: PricingService,
+    private promotionService: PromotionService = new PromotionService(supabase)
   ) {}
 
   /**
@@ -303,7 +307,11 @@ export class CartService {
   async getCart(
     userId: string,
     destinationCountry: string = 'US',
-    shippingMethod: ShippingMethod = 'Standard'
+    shippingMethod: ShippingMethod = 'Standard',
+    region?: string,
+    promoCode?: string,
+    currency?: string,
+    lockRate?: RateLocker
   ): Promise<Cart> {
     try {
       const { data: cartItems, error } = await this.supabase
@@ -389,6 +397,8 @@ export class CartService {
       // This ensures we use actual Prodigi prices, not stored DB prices
       let items: CartItem[] = [];
       let totals: Cart['totals'];
+      let itemsTax = 0;
+      let rateSnapshot: ExchangeRateSnapshot | undefined;
       
       try {
         // First, format items with temporary prices (will be updated with real-time pricing)
@@ -400,7 +410,10 @@ export class CartService {
         const pricing = await this.pricingService.calculatePricing(
           tempItems,
           destinationCountry,
-          shippingMethod
+          shippingMethod,
+          currency,
+          { region },
+          lockRate
         );
 
         // Update items with real-time prices from Prodigi
@@ -422,16 +435,23 @@ export class CartService {
           };
         });
 
-        // Cart only shows subtotal - shipping calculated at checkout
+        // Cart shows subtotal + tax on items - shipping (and its tax) calculated at checkout
+        itemsTax = pricing.itemsTax ?? 0;
+        rateSnapshot = pricing.rateSnapshot;
+        const cartTotal = pricing.taxInclusive ? pricing.subtotal : pricing.subtotal + itemsTax;
         totals = {
           subtotal: pricing.subtotal,
           shipping: 0, // Shipping calculated at checkout only
-          tax: 0, // Tax calculated at checkout only
-          total: pricing.subtotal, // Only subtotal in cart
+          tax: itemsTax,
+          total: Math.round(cartTotal * 100) / 100,
           currency: pricing.currency,
           originalCurrency: pricing.originalCurrency,
-          originalTotal: pricing.subtotal, // Only subtotal in cart
+          originalTotal: Math.round(cartTotal * 100) / 100,
           exchangeRate: pricing.exchangeRate,
+          rateSnapshotId: pricing.rateSnapshot?.id,
+          taxInclusive: pricing.taxInclusive,
+          taxName: pricing.taxName,
+          taxEstimated: pricing.taxEstimated,
         };
       } catch (pricingError) {
         console.error('[CartService] Pricing failed in getCart:', pricingError);
@@ -449,13 +469,36 @@ export class CartService {
         );
       }
 
-      return {
+      const cart: Cart = {
         items,
         totals,
         shippingMethod,
         destinationCountry,
         updatedAt: new Date(),
       };
+
+      // Apply promo code - an invalid code is reported on the cart rather than failing it
+      if (promoCode) {
+        try {
+          const discount = await this.promotionService.applyPromotion(promoCode, {
+            userId,
+            items,
+            subtotal: totals.subtotal,
+            shipping: totals.shipping,
+            currency: totals.currency,
+            rateSnapshot,
+          });
+          cart.discount = discount;
+          cart.totals = applyDiscountToTotals(totals, discount, { itemsTax, shippingTax: 0 });
+        } catch (promoError) {
+          if (!(promoError instanceof PromotionError)) {
+            throw promoError;
+          }
+          cart.promoCodeError = promoError.message;
+        }
+      }
+
+      return cart;
     } catch (error) {
       if (error instanceof CartError) {
         throw error;
@@ -532,6 +575,7 @@ export class CartService {
     
     // Infer missing metadata from SKU and product type for backward compatibility
     const inferredMetadata = this.inferMetadataFromSku(product.sku, productType, metadata);
+    const printSettings = getPrintSettings(metadata);
     
     // Build proper product name with product type
     const productTypeName = this.getProductTypeLabel(productType);
@@ -562,6 +606,8 @@ export class CartService {
         ...(metadata.paperType || inferredMetadata.paperType ? { paperType: metadata.paperType || inferredMetadata.paperType } : {}),
         ...(metadata.finish || inferredMetadata.finish ? { finish: metadata.finish || inferredMetadata.finish } : {}),
         ...(metadata.edge || inferredMetadata.edge ? { edge: metadata.edge || inferredMetadata.edge } : {}),
+        ...(printSettings.sizing !== DEFAULT_PRINT_SIZING ? { sizing: printSettings.sizing } : {}),
+        ...(printSettings.crop ? { crop: printSettings.crop } : {}),
       },
       createdAt: new Date(dbItem.created_at),
       updatedAt: new Date(dbItem.updated_at || dbItem.created_at),
@@ -0,0 +1,136 @@
+/**
+ * Exchange Rate Service for V2 Checkout
+ *
+ * Locks the exchange rate a customer sees. The first conversion for a
+ * customer and currency pair persists a snapshot of the current rate; cart
+ * pricing and the Stripe session reuse it until it expires, and the webhook
+ * records it on the order so refunds and reports use the charged rate.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { currencyService as defaultCurrencyService, type CurrencyService } from '@/lib/currency';
+import { ExchangeRateError } from '../types/errors';
+import type { ExchangeRateSnapshot } from '../types/currency.types';
+
+// How long a displayed rate stays locked before the next price refresh picks up a new one
+export const RATE_LOCK_TTL_MS = 30 * 60 * 1000; // 30 minutes
+// Stripe checkout sessions can be completed for up to 24 hours
+export const CHECKOUT_RATE_LOCK_TTL_MS = 24 * 60 * 60 * 1000;
+
+export class ExchangeRateService {
+  constructor(
+    private supabase: SupabaseClient,
+    private currencyService: CurrencyService = defaultCurrencyService
+  ) {}
+
+  /**
+   * Get the customer's locked rate for a currency pair, locking the current
+   * rate if there is no unexpired snapshot that isn't tied to a checkout yet
+   */
+  async lockRate(userId: string, baseCurrency: string, quoteCurrency: string): Promise<ExchangeRateSnapshot> {
+    const base = baseCurrency.toUpperCase();
+    const quote = quoteCurrency.toUpperCase();
+    const now = new Date();
+
+    const { data: existing, error: lookupError } = await this.supabase
+      .from('exchange_rate_snapshots')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('base_currency', base)
+      .eq('quote_currency', quote)
+      .is('stripe_session_id', null)
+      .gt('expires_at', now.toISOString())
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (lookupError) {
+      throw new ExchangeRateError('Failed to look up locked exchange rate', { error: lookupError });
+    }
+
+    if (existing) {
+      return mapSnapshot(existing);
+    }
+
+    let rateQuote;
+    if (base === quote) {
+      rateQuote = { rate: 1, source: 'identity' as const, fetchedAt: now };
+    } else {
+      try {
+        rateQuote = await this.currencyService.getRateQuote(base, quote);
+      } catch (error) {
+        throw new ExchangeRateError(`Currency ${quote} is not supported`, {
+          originalError: error instanceof Error ? error.message : error,
+          statusCode: 400,
+        });
+      }
+    }
+
+    const { data, error } = await this.supabase
+      .from('exchange_rate_snapshots')
+      .insert({
+        user_id: userId,
+        base_currency: base,
+        quote_currency: quote,
+        rate: rateQuote.rate,
+        source: rateQuote.source,
+        rates_fetched_at: rateQuote.fetchedAt.toISOString(),
+        expires_at: new Date(now.getTime() + RATE_LOCK_TTL_MS).toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error || !data) {
+      throw new ExchangeRateError('Failed to lock exchange rate', { error });
+    }
+
+    return mapSnapshot(data);
+  }
+
+  /**
+   * Tie a snapshot to the Stripe session it priced and keep it for as long
+   * as the session can be paid
+   */
+  async attachToCheckoutSession(snapshotId: string, stripeSessionId: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('exchange_rate_snapshots')
+      .update({
+        stripe_session_id: stripeSessionId,
+        expires_at: new Date(Date.now() + CHECKOUT_RATE_LOCK_TTL_MS).toISOString(),
+      })
+      .eq('id', snapshotId);
+
+    if (error) {
+      throw new ExchangeRateError('Failed to attach exchange rate to checkout session', { error });
+    }
+  }
+
+  async getSnapshot(snapshotId: string): Promise<ExchangeRateSnapshot | null> {
+    const { data, error } = await this.supabase
+      .from('exchange_rate_snapshots')
+      .select('*')
+      .eq('id', snapshotId)
+      .maybeSingle();
+
+    if (error) {
+      throw new ExchangeRateError('Failed to fetch exchange rate snapshot', { error });
+    }
+
+    return data ? mapSnapshot(data) : null;
+  }
+}
+
+function mapSnapshot(row: any): ExchangeRateSnapshot {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    baseCurrency: row.base_currency,
+    quoteCurrency: row.quote_currency,
+    rate: Number(row.rate),
+    source: row.source,
+    ratesFetchedAt: new Date(row.rates_fetched_at),
+    stripeSessionId: row.stripe_session_id ?? null,
+    expiresAt: new Date(row.expires_at),
+    createdAt: new Date(row.created_at),
+  };
+}
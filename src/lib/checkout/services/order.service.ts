@@ -14,6 +14,7 @@ import type {
 } from '../types/order.types';
 import type { Cart } from '../types/cart.types';
 import type { ShippingAddress } from '../types/order.types';
+import { getPrintSettings } from '@/lib/print-crop';
 import { ProdigiAdapter } from '../adapters/prodigi.adapter';
 import type { StripeSession } from '../types/payment.types';
 
@@ -89,6 +90,10 @@ export class OrderService {
           shipping_amount: cart.totals.shipping,
           total_amount: cart.totals.total,
           currency: cart.totals.currency,
+          exchange_rate: cart.totals.exchangeRate ?? 1,
+          exchange_rate_snapshot_id: cart.totals.rateSnapshotId || null,
+          base_currency: (cart.totals.originalCurrency || cart.totals.currency).toUpperCase(),
+          base_total_amount: cart.totals.originalTotal ?? cart.totals.total,
           metadata: {
             stripe_session_id: session.id,
             payment_intent_id: session.payment_intent,
@@ -111,6 +116,7 @@ export class OrderService {
         quantity: item.quantity,
         unit_price: item.price,
         total_price: item.price * item.quantity,
+        print_settings: getPrintSettings(item.frameConfig),
       }));
 
       const { data: orderItems, error: itemsError } = await this.supabase
@@ -318,6 +324,7 @@ export class OrderService {
         .select('*')
         .eq('order_id', orderId)
         .eq('provider', 'prodigi')
+        .is('reprint_of', null)
         .single();
 
       if (!dropshipOrder || !dropshipOrder.provider_order_id) {
@@ -416,7 +423,9 @@ export class OrderService {
           color: item.products?.frame_style || 'black',
           style: item.products?.frame_style || 'black',
           material: item.products?.frame_material || 'wood',
+          ...getPrintSettings(item.print_settings ?? item.products?.metadata),
         },
+        printAssetUrl: item.print_asset_url || undefined,
         createdAt: new Date(item.created_at),
       })),
       pricing: {
@@ -425,9 +434,14 @@ export class OrderService {
         tax: parseFloat(dbOrder.tax_amount || '0'),
         total: parseFloat(dbOrder.total_amount || '0'),
         currency: dbOrder.currency || 'USD',
-        originalCurrency: dbOrder.metadata?.originalCurrency,
-        originalTotal: dbOrder.metadata?.originalTotal,
-        exchangeRate: dbOrder.metadata?.exchangeRate,
+        originalCurrency: dbOrder.base_currency || dbOrder.metadata?.originalCurrency,
+        originalTotal: dbOrder.base_total_amount != null
+          ? parseFloat(dbOrder.base_total_amount)
+          : dbOrder.metadata?.originalTotal,
+        exchangeRate: dbOrder.exchange_rate != null
+          ? parseFloat(dbOrder.exchange_rate)
+          : dbOrder.metadata?.exchangeRate,
+        rateSnapshotId: dbOrder.exchange_rate_snapshot_id || undefined,
       },
       payment: {
         stripeSessionId: dbOrder.stripe_session_id,
@@ -5,6 +5,7 @@
  */
 
 import Stripe from 'stripe';
+import { toMinorUnits } from '@/lib/currency';
 import { PaymentError } from '../types/errors';
 import type {
   StripeCheckoutSession,
@@ -39,6 +40,8 @@ export class PaymentService {
     metadata: Record<string, string> = {}
   ): Promise<StripeCheckoutSession> {
     try {
+      const currency = cart.totals.currency;
+
       // Build line items from cart
       const lineItems: Stripe.Checkout.SessionCreateParams.LineItem[] =
         cart.items.map((item) => ({
@@ -58,7 +61,7 @@ export class PaymentService {
                 price_usd: item.originalPrice.toString(),
               },
             },
-            unit_amount: Math.round(item.price * 100),
+            unit_amount: toMinorUnits(item.price, currency),
           },
           quantity: item.quantity,
         }));
@@ -72,39 +75,47 @@ export class PaymentService {
               name: 'Shipping',
               description: `${shippingMethod} shipping`,
             },
-            unit_amount: Math.round(cart.totals.shipping * 100),
+            unit_amount: toMinorUnits(cart.totals.shipping, currency),
           },
           quantity: 1,
         });
       }
 
-      // Add tax as line item
-      if (cart.totals.tax > 0) {
+      // Add tax as line item (inclusive markets already have tax folded into item and shipping prices)
+      if (cart.totals.tax > 0 && !cart.totals.taxInclusive) {
         lineItems.push({
           price_data: {
             currency: cart.totals.currency.toLowerCase(),
             product_data: {
-              name: 'Tax',
-              description: 'Sales tax',
+              name: cart.totals.taxName || 'Tax',
+              description: cart.totals.taxName || 'Sales tax',
             },
-            unit_amount: Math.round(cart.totals.tax * 100),
+            unit_amount: toMinorUnits(cart.totals.tax, currency),
           },
           quantity: 1,
         });
       }
 
+      // Map the promo code discount to a one-off Stripe coupon for the exact quoted amount
+      const discounts = cart.discount && cart.discount.amount > 0
+        ? [{ coupon: await this.createDiscountCoupon(cart) }]
+        : undefined;
+
       // Create Stripe session
       const session = await this.stripe.checkout.sessions.create({
         payment_method_types: ['card'],
         mode: 'payment',
         customer_email: userEmail,
         line_items: lineItems,
+        discounts,
         metadata: {
           ...metadata,
           currency: cart.totals.currency,
           originalCurrency: cart.totals.originalCurrency || cart.totals.currency,
           originalTotal: cart.totals.originalTotal?.toString() || cart.totals.total.toString(),
           exchangeRate: cart.totals.exchangeRate?.toString() || '1',
+          ...(cart.totals.rateSnapshotId && { rateSnapshotId: cart.totals.rateSnapshotId }),
+          taxInclusive: String(!!cart.totals.taxInclusive),
         },
         success_url: successUrl,
         cancel_url: cancelUrl,
@@ -166,6 +177,28 @@ export class PaymentService {
     }
   }
 
+  /**
+   * Create a single-use amount-off coupon matching the cart's discount.
+   * Applied across all line items (including shipping and tax), so the
+   * session total equals the quoted cart total.
+   */
+  private async createDiscountCoupon(cart: Cart): Promise<string> {
+    const discount = cart.discount!;
+    const coupon = await this.stripe.coupons.create({
+      amount_off: toMinorUnits(discount.amount, cart.totals.currency),
+      currency: cart.totals.currency.toLowerCase(),
+      duration: 'once',
+      max_redemptions: 1,
+      name: discount.code.slice(0, 40),
+      metadata: {
+        promoCodeId: discount.promotionId,
+        promoCode: discount.code,
+        type: discount.type,
+      },
+    });
+    return coupon.id;
+  }
+
   /**
    * Retrieve session
    */
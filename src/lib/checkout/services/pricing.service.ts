@@ -11,8 +11,9 @@
 import { ProdigiClient } from '@/lib/prodigi-v2/client';
 import { QuotesAPI } from '@/lib/prodigi-v2/quotes';
 import { ProductsAPI } from '@/lib/prodigi-v2/products';
-import { CurrencyService } from '@/lib/currency';
-import { PricingError } from '../types/errors';
+import { CurrencyService, applyPriceEnding, roundToCurrency } from '@/lib/currency';
+import { ExchangeRateError, PricingError } from '../types/errors';
+import { createTaxProvider } from './tax.service';
 import { buildProdigiAttributes, buildProdigiAttributesHeuristic } from '../utils/attribute-builder';
 import { generateQuoteKey } from '../utils/attribute-normalizer';
 import type {
@@ -21,7 +22,10 @@ import type {
   PriceValidationResult,
 } from '../types/cart.types';
 import type { ShippingMethod } from '../types/order.types';
+import type { TaxAddress, TaxBreakdownLine, TaxProvider } from '../types/tax.types';
+import type { ExchangeRateSnapshot } from '../types/currency.types';
 import type { Quote, QuoteItem } from '@/lib/prodigi-v2/types';
+import type { ArrivalWindow } from '@/lib/prodigi-v2/delivery-estimator';
 
 export interface PricingResult {
   subtotal: number;
@@ -32,27 +36,52 @@ export interface PricingResult {
   originalCurrency?: string;
   originalTotal?: number;
   exchangeRate?: number;
+  // Locked rate the amounts were converted with (see ExchangeRateService)
+  rateSnapshot?: ExchangeRateSnapshot;
   estimatedDays?: number;
   // Per-item prices: maps cart item index to unit price
   itemPrices?: Map<number, number>;
+  // Tax details (when inclusive, subtotal/shipping/itemPrices already include tax)
+  itemsTax?: number;
+  shippingTax?: number;
+  taxInclusive?: boolean;
+  taxRate?: number;
+  taxName?: string;
+  taxEstimated?: boolean;
+  taxBreakdown?: TaxBreakdownLine[];
 }
 
 export interface ShippingOption {
   method: ShippingMethod;
   cost: number;
   currency: string;
+  /** Business days to delivery, at the slow end of estimatedDaysRange */
   estimatedDays: number;
+  estimatedDaysRange?: { min: number; max: number };
+  arrivesBy?: ArrivalWindow;
   serviceName?: string;
   carrier?: string;
+  /** Order tax with this option's shipping (when the order subtotal is known) */
+  taxAmount?: number;
+  shippingTax?: number;
+  taxInclusive?: boolean;
+  taxName?: string;
 }
 
+/**
+ * Returns the customer's locked rate for converting quote prices, so the
+ * price shown is the price charged
+ */
+export type RateLocker = (baseCurrency: string, quoteCurrency: string) => Promise<ExchangeRateSnapshot>;
+
 export class PricingService {
   private quotesAPI: QuotesAPI;
   private productsAPI: ProductsAPI;
 
   constructor(
     private prodigiClient: ProdigiClient,
-    private currencyService: CurrencyService
+    private currencyService: CurrencyService,
+    private taxProvider: TaxProvider = createTaxProvider()
   ) {
     this.quotesAPI = new QuotesAPI(prodigiClient);
     this.productsAPI = new ProductsAPI(prodigiClient);
@@ -88,7 +117,9 @@ export class PricingService {
     items: CartItem[],
     destinationCountry: string,
     shippingMethod: ShippingMethod = 'Standard',
-    currency?: string
+    currency?: string,
+    taxAddress?: Omit<TaxAddress, 'country'>,
+    lockRate?: RateLocker
   ): Promise<PricingResult> {
     try {
       // First, map items to quote items with base SKU extraction
@@ -391,98 +422,96 @@ export class PricingService {
         });
       }
 
-      // Calculate tax (simplified - in production, use proper tax service)
-      const taxRate = this.getTaxRate(destinationCountry);
-      const taxAmount = itemsCost * taxRate;
+      // Calculate tax on the net Prodigi costs
+      const totalCopies = items.reduce((sum, item) => sum + item.quantity, 0);
+      const taxResult = await this.taxProvider.calculate({
+        address: {
+          country: destinationCountry,
+          region: taxAddress?.region,
+          postalCode: taxAddress?.postalCode,
+        },
+        lines: items.map((item, cartIndex) => ({
+          amount: (itemPrices.get(cartIndex) ?? (totalCopies > 0 ? itemsCost / totalCopies : 0)) * item.quantity,
+          quantity: item.quantity,
+          productType: item.frameConfig?.productType,
+          sku: item.sku,
+        })),
+        shipping: shippingCost,
+        currency: quoteCurrency,
+      });
+
+      // Inclusive markets display gross prices: fold tax into items and shipping
+      const inclusive = taxResult.inclusive;
+      const itemsTaxRate = itemsCost > 0 ? taxResult.itemsTax / itemsCost : 0;
+      const grossItemsCost = inclusive ? itemsCost + taxResult.itemsTax : itemsCost;
+      const grossShippingCost = inclusive ? shippingCost + taxResult.shippingTax : shippingCost;
 
-      const originalTotal = itemsCost + shippingCost + taxAmount;
+      const originalTotal = itemsCost + shippingCost + taxResult.totalTax;
 
       // Convert to target currency if needed
       const targetCurrency = currency || quoteCurrency.toLowerCase();
-      let subtotal = itemsCost;
-      let shipping = shippingCost;
-      let tax = taxAmount;
-      let total = originalTotal;
-      let exchangeRate: number | undefined;
-
-      if (targetCurrency !== quoteCurrency.toLowerCase()) {
-        // Convert from quote currency (usually USD) to target currency
-        if (quoteCurrency.toUpperCase() === 'USD') {
-          subtotal = await this.currencyService.convertFromUSD(
-            itemsCost,
-            targetCurrency
-          );
-          shipping = await this.currencyService.convertFromUSD(
-            shippingCost,
-            targetCurrency
-          );
-          tax = await this.currencyService.convertFromUSD(
-            taxAmount,
-            targetCurrency
-          );
-        } else {
-          // Convert between non-USD currencies
-          subtotal = await this.currencyService.convert(
-            itemsCost,
-            quoteCurrency,
-            targetCurrency.toUpperCase()
-          );
-          shipping = await this.currencyService.convert(
-            shippingCost,
-            quoteCurrency,
-            targetCurrency.toUpperCase()
-          );
-          tax = await this.currencyService.convert(
-            taxAmount,
-            quoteCurrency,
-            targetCurrency.toUpperCase()
-          );
-        }
-        total = subtotal + shipping + tax;
-        // Calculate exchange rate for display
-        exchangeRate = total / originalTotal;
-      }
+      const needsConversion = targetCurrency.toUpperCase() !== quoteCurrency.toUpperCase();
+      const rateSnapshot = needsConversion && lockRate
+        ? await lockRate(quoteCurrency, targetCurrency)
+        : undefined;
+      const round = (amount: number) => roundToCurrency(amount, targetCurrency);
+      const convert = async (amount: number) => {
+        if (!needsConversion) return amount;
+        if (rateSnapshot) return round(amount * rateSnapshot.rate);
+        return this.convertAmount(amount, quoteCurrency, targetCurrency);
+      };
 
-      // Convert per-item prices if currency conversion happened
+      // Convert per-item prices (grossed up in inclusive markets).
+      // Converted prices get the currency's price ending, e.g. 23.99 or ¥3480
       const convertedItemPrices = new Map<number, number>();
-      if (itemPrices.size > 0 && targetCurrency !== quoteCurrency.toLowerCase()) {
-        for (const [cartIndex, unitCost] of itemPrices.entries()) {
-          let convertedPrice = unitCost;
-          if (quoteCurrency.toUpperCase() === 'USD') {
-            convertedPrice = await this.currencyService.convertFromUSD(
-              unitCost,
-              targetCurrency
-            );
-          } else {
-            convertedPrice = await this.currencyService.convert(
-              unitCost,
-              quoteCurrency,
-              targetCurrency.toUpperCase()
-            );
-          }
-          convertedItemPrices.set(cartIndex, Math.round(convertedPrice * 100) / 100);
-        }
-      } else {
-        // No conversion needed, just round the prices
-        for (const [cartIndex, unitCost] of itemPrices.entries()) {
-          convertedItemPrices.set(cartIndex, Math.round(unitCost * 100) / 100);
-        }
+      for (const [cartIndex, unitCost] of itemPrices.entries()) {
+        const unitPrice = inclusive ? unitCost * (1 + itemsTaxRate) : unitCost;
+        const convertedPrice = await convert(unitPrice);
+        convertedItemPrices.set(
+          cartIndex,
+          needsConversion ? applyPriceEnding(convertedPrice, targetCurrency) : round(convertedPrice)
+        );
       }
 
+      // Sum the rounded item prices so the Stripe line items add up to the subtotal
+      const priceEnded = needsConversion && convertedItemPrices.size === items.length;
+      const subtotal = priceEnded
+        ? round(items.reduce((sum, item, cartIndex) => sum + convertedItemPrices.get(cartIndex)! * item.quantity, 0))
+        : round(await convert(grossItemsCost));
+      const shipping = round(await convert(grossShippingCost));
+      // Price endings move the subtotal off the converted net cost, so tax it
+      // at the effective rate (inclusive subtotals already contain the tax)
+      const itemsTax = priceEnded
+        ? round(inclusive ? subtotal - subtotal / (1 + itemsTaxRate) : subtotal * itemsTaxRate)
+        : round(await convert(taxResult.itemsTax));
+      const shippingTax = round(await convert(taxResult.shippingTax));
+      const tax = round(itemsTax + shippingTax);
+      const total = round(subtotal + shipping + (inclusive ? 0 : tax));
+      const exchangeRate = rateSnapshot?.rate
+        ?? (needsConversion && originalTotal > 0 ? total / originalTotal : undefined);
+
       return {
-        subtotal: Math.round(subtotal * 100) / 100,
-        shipping: Math.round(shipping * 100) / 100,
-        tax: Math.round(tax * 100) / 100,
-        total: Math.round(total * 100) / 100,
+        subtotal,
+        shipping,
+        tax,
+        total,
         currency: targetCurrency,
         originalCurrency: quoteCurrency,
         originalTotal: Math.round(originalTotal * 100) / 100,
         exchangeRate,
+        rateSnapshot,
         estimatedDays: this.estimateDeliveryDays(quote.shipmentMethod),
         itemPrices: convertedItemPrices.size > 0 ? convertedItemPrices : undefined,
+        itemsTax,
+        shippingTax,
+        taxInclusive: inclusive,
+        taxRate: taxResult.rate,
+        taxName: taxResult.taxName,
+        taxEstimated: taxResult.estimated,
+        taxBreakdown: taxResult.breakdown,
       };
     } catch (error) {
-      if (error instanceof PricingError) {
+      if (error instanceof PricingError || error instanceof ExchangeRateError) {
         throw error;
       }
       throw new PricingError(
@@ -693,23 +722,13 @@ export class PricingService {
   }
 
   /**
-   * Get tax rate for country (simplified)
-   * In production, use a proper tax service
+   * Convert an amount from the quote currency to the target currency
    */
-  private getTaxRate(country: string): number {
-    // Simplified tax rates - in production, use proper tax calculation
-    const taxRates: Record<string, number> = {
-      US: 0.08, // Average US sales tax
-      CA: 0.13, // Average Canadian tax
-      GB: 0.20, // UK VAT
-      AU: 0.10, // Australian GST
-      DE: 0.19, // German VAT
-      FR: 0.20, // French VAT
-      IT: 0.22, // Italian VAT
-      ES: 0.21, // Spanish VAT
-    };
-
-    return taxRates[country.toUpperCase()] || 0.0;
+  private async convertAmount(amount: number, fromCurrency: string, toCurrency: string): Promise<number> {
+    if (fromCurrency.toUpperCase() === 'USD') {
+      return this.currencyService.convertFromUSD(amount, toCurrency);
+    }
+    return this.currencyService.convert(amount, fromCurrency, toCurrency.toUpperCase());
   }
 }
 
@@ -0,0 +1,136 @@
+/**
+ * Print Quality Service for V2 Checkout
+ *
+ * Rates each cart item's image at the ordered size (see '@/lib/print-quality')
+ * and refuses checkout for items below the hard DPI floor. Prodigi's
+ * print-area pixel size is used when the product lookup succeeds; otherwise
+ * the nominal size from the frame config. Items with a fill crop are rated
+ * on the cropped pixels only.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ProductsAPI } from '@/lib/prodigi-v2/products';
+import { getPrintSettings } from '@/lib/print-crop';
+import { assessPrintQuality, MIN_PRINT_DPI, type ImageDimensions, type PrintQuality } from '@/lib/print-quality';
+import { PrintQualityError } from '../types/errors';
+import type { CartItem } from '../types/cart.types';
+
+type PrintAreaLookup = Pick<ProductsAPI, 'getPrintAreaDimensions'>;
+
+export interface CartItemPrintQuality {
+  itemId: string;
+  productId: string;
+  quality: PrintQuality;
+}
+
+export class PrintQualityService {
+  constructor(
+    private supabase: SupabaseClient,
+    private productsAPI?: PrintAreaLookup
+  ) {}
+
+  /**
+   * Rate every item whose image dimensions are known. Items without
+   * dimensions (older images, missing products) are left out rather than
+   * blocked.
+   */
+  async assessCartItems(items: CartItem[]): Promise<CartItemPrintQuality[]> {
+    const imageDimensions = await this.getImageDimensions(items.map(item => item.productId));
+    const printAreas = new Map<string, ImageDimensions | null>();
+    const results: CartItemPrintQuality[] = [];
+
+    for (const item of items) {
+      const image = imageDimensions.get(item.productId);
+      if (!image) {
+        continue;
+      }
+
+      const baseSku = extractBaseSku(item.sku);
+      if (!printAreas.has(baseSku)) {
+        printAreas.set(baseSku, await this.getPrintArea(baseSku));
+      }
+
+      const quality = assessPrintQuality(
+        image,
+        item.frameConfig.size,
+        printAreas.get(baseSku),
+        getPrintSettings(item.frameConfig).crop
+      );
+      if (quality) {
+        results.push({ itemId: item.id, productId: item.productId, quality });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Throw when any item prints below MIN_PRINT_DPI
+   */
+  async assertPrintable(items: CartItem[]): Promise<void> {
+    const blocked = (await this.assessCartItems(items)).filter(result => result.quality.rating === 'blocked');
+
+    if (blocked.length > 0) {
+      throw new PrintQualityError(
+        `Image resolution is too low to print at the selected size (minimum ${MIN_PRINT_DPI} DPI)`,
+        {
+          items: blocked.map(({ itemId, productId, quality }) => ({
+            itemId,
+            productId,
+            size: quality.size,
+            dpi: quality.dpi,
+            recommendedPixels: quality.recommendedPixels,
+          })),
+        }
+      );
+    }
+  }
+
+  private async getImageDimensions(productIds: string[]): Promise<Map<string, ImageDimensions>> {
+    const dimensions = new Map<string, ImageDimensions>();
+    const uniqueIds = Array.from(new Set(productIds.filter(Boolean)));
+    if (uniqueIds.length === 0) {
+      return dimensions;
+    }
+
+    const { data, error } = await this.supabase
+      .from('products')
+      .select('id, images(width, height)')
+      .in('id', uniqueIds);
+
+    if (error) {
+      throw new PrintQualityError('Failed to load image dimensions', { error });
+    }
+
+    for (const product of (data || []) as any[]) {
+      const image = Array.isArray(product.images) ? product.images[0] : product.images;
+      if (image?.width && image?.height) {
+        dimensions.set(product.id, { width: image.width, height: image.height });
+      }
+    }
+
+    return dimensions;
+  }
+
+  private async getPrintArea(baseSku: string): Promise<ImageDimensions | null> {
+    if (!this.productsAPI || !baseSku) {
+      return null;
+    }
+
+    try {
+      return await this.productsAPI.getPrintAreaDimensions(baseSku, 'default', {});
+    } catch (error) {
+      console.warn(`Print area lookup failed for ${baseSku}, using nominal size:`, error);
+      return null;
+    }
+  }
+}
+
+/**
+ * Strip the image ID suffix from a product SKU (fra-box-gitd-610x610-f7acd7d2
+ * -> fra-box-gitd-610x610)
+ */
+function extractBaseSku(sku: string): string {
+  const match = sku?.match(/^(.+)-[a-f0-9]{8}$/i);
+  return match?.[1] ?? sku;
+}
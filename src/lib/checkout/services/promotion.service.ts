@@ -0,0 +1,275 @@
+/**
+ * Promotion Service for V2 Checkout
+ *
+ * Looks up promo codes, checks them against a cart (active window, usage
+ * limits, minimum order, product-type eligibility) and calculates the discount
+ * in the cart's currency.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { currencyService as defaultCurrencyService, type CurrencyService } from '@/lib/currency';
+import { PromotionError } from '../types/errors';
+import type { CartItem, CartTotals } from '../types/cart.types';
+import type { ExchangeRateSnapshot } from '../types/currency.types';
+import type { AppliedDiscount, Promotion } from '../types/promotion.types';
+
+const roundCurrency = (amount: number) => Math.round(amount * 100) / 100;
+
+export interface PromotionContext {
+  userId: string;
+  items: CartItem[];
+  subtotal: number; // Items subtotal in the cart currency
+  shipping: number; // Shipping in the cart currency (0 before an address is known)
+  currency: string;
+  // Rate the cart was priced with; fixed amounts convert at it too
+  rateSnapshot?: ExchangeRateSnapshot;
+}
+
+export class PromotionService {
+  constructor(
+    private supabase: SupabaseClient,
+    private currencyService: CurrencyService = defaultCurrencyService
+  ) {}
+
+  /**
+   * Look up a promo code (case-insensitive)
+   */
+  async getPromotion(code: string): Promise<Promotion> {
+    const normalized = normalizePromoCode(code);
+    if (!normalized) {
+      throw new PromotionError('Promo code is required');
+    }
+
+    const { data, error } = await this.supabase
+      .from('promo_codes')
+      .select('*')
+      .ilike('code', normalized.replace(/[%_\\]/g, '\\$&')) // exact, case-insensitive match
+      .maybeSingle();
+
+    if (error) {
+      throw new PromotionError('Failed to look up promo code', { error });
+    }
+
+    if (!data) {
+      throw new PromotionError('This promo code is not valid', { code: normalized });
+    }
+
+    return mapPromotion(data);
+  }
+
+  /**
+   * Validate a promo code against a cart and calculate its discount
+   */
+  async applyPromotion(code: string, context: PromotionContext): Promise<AppliedDiscount> {
+    const promotion = await this.getPromotion(code);
+    const now = new Date();
+
+    if (!promotion.isActive || (promotion.startsAt && promotion.startsAt > now)) {
+      throw new PromotionError('This promo code is not active');
+    }
+
+    if (promotion.expiresAt && promotion.expiresAt <= now) {
+      throw new PromotionError('This promo code has expired');
+    }
+
+    if (promotion.maxUses !== null && promotion.timesUsed >= promotion.maxUses) {
+      throw new PromotionError('This promo code has reached its usage limit');
+    }
+
+    if (promotion.maxUsesPerUser !== null) {
+      const { count, error } = await this.supabase
+        .from('promo_code_redemptions')
+        .select('id', { count: 'exact', head: true })
+        .eq('promo_code_id', promotion.id)
+        .eq('user_id', context.userId);
+
+      if (error) {
+        throw new PromotionError('Failed to check promo code usage', { error });
+      }
+
+      if ((count ?? 0) >= promotion.maxUsesPerUser) {
+        throw new PromotionError('You have already used this promo code');
+      }
+    }
+
+    const eligibleItems = getEligibleItems(promotion, context.items);
+    if (eligibleItems.length === 0) {
+      throw new PromotionError('This promo code does not apply to the items in your cart', {
+        eligibleProductTypes: promotion.eligibleProductTypes,
+      });
+    }
+
+    // The minimum applies to what the code covers, not the whole cart
+    const minOrderAmount = await this.toCartCurrency(promotion.minOrderAmount, promotion.currency, context);
+    if (getItemsSubtotal(eligibleItems) < minOrderAmount) {
+      throw new PromotionError('Your order does not meet the minimum for this promo code', {
+        minOrderAmount: roundCurrency(minOrderAmount),
+        currency: context.currency,
+      });
+    }
+
+    const fixedAmount = promotion.type === 'fixed'
+      ? await this.toCartCurrency(promotion.value, promotion.currency, context)
+      : 0;
+
+    const discount = calculateDiscount(promotion, context.items, context.shipping, fixedAmount);
+
+    return { ...discount, currency: context.currency };
+  }
+
+  /**
+   * Record a redemption once payment has completed.
+   * Returns false when the code hit its usage limit in the meantime.
+   */
+  async recordRedemption(params: {
+    promotionId: string;
+    userId: string;
+    orderId: string;
+    stripeSessionId: string;
+    discountAmount: number;
+    currency: string;
+  }): Promise<boolean> {
+    const { data, error } = await this.supabase.rpc('redeem_promo_code', {
+      p_promo_code_id: params.promotionId,
+      p_user_id: params.userId,
+      p_order_id: params.orderId,
+      p_stripe_session_id: params.stripeSessionId,
+      p_discount_amount: params.discountAmount,
+      p_currency: params.currency.toUpperCase(),
+    });
+
+    if (error) {
+      throw new PromotionError('Failed to record promo code redemption', { error });
+    }
+
+    return data === true;
+  }
+
+  private async toCartCurrency(
+    amount: number,
+    fromCurrency: string,
+    { currency: toCurrency, rateSnapshot }: PromotionContext
+  ): Promise<number> {
+    if (!amount || fromCurrency.toUpperCase() === toCurrency.toUpperCase()) {
+      return amount;
+    }
+    if (
+      rateSnapshot
+      && rateSnapshot.baseCurrency.toUpperCase() === fromCurrency.toUpperCase()
+      && rateSnapshot.quoteCurrency.toUpperCase() === toCurrency.toUpperCase()
+    ) {
+      return amount * rateSnapshot.rate;
+    }
+    if (fromCurrency.toUpperCase() === 'USD') {
+      return this.currencyService.convertFromUSD(amount, toCurrency);
+    }
+    return this.currencyService.convert(amount, fromCurrency, toCurrency.toUpperCase());
+  }
+}
+
+export function normalizePromoCode(code: string | null | undefined): string {
+  return (code || '').trim().toUpperCase();
+}
+
+function getEligibleItems(promotion: Promotion, items: CartItem[]): CartItem[] {
+  return items.filter((item) =>
+    !promotion.eligibleProductTypes?.length ||
+    promotion.eligibleProductTypes.includes(item.frameConfig.productType || 'framed-print')
+  );
+}
+
+function getItemsSubtotal(items: CartItem[]): number {
+  return items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+}
+
+/**
+ * Calculate a promotion's discount for the given items and shipping.
+ * Amounts are in the cart currency; `fixedAmount` is the fixed discount
+ * already converted to that currency.
+ */
+export function calculateDiscount(
+  promotion: Promotion,
+  items: CartItem[],
+  shipping: number,
+  fixedAmount: number = promotion.value
+): Omit<AppliedDiscount, 'currency'> {
+  const eligibleItems = getEligibleItems(promotion, items);
+  const eligibleSubtotal = getItemsSubtotal(eligibleItems);
+
+  let itemsDiscount = 0;
+  let shippingDiscount = 0;
+
+  switch (promotion.type) {
+    case 'percentage':
+      itemsDiscount = eligibleSubtotal * (Math.min(promotion.value, 100) / 100);
+      break;
+    case 'fixed':
+      itemsDiscount = Math.min(fixedAmount, eligibleSubtotal);
+      break;
+    case 'free_shipping':
+      shippingDiscount = eligibleItems.length > 0 ? shipping : 0;
+      break;
+  }
+
+  itemsDiscount = roundCurrency(itemsDiscount);
+  shippingDiscount = roundCurrency(shippingDiscount);
+
+  return {
+    promotionId: promotion.id,
+    code: promotion.code,
+    type: promotion.type,
+    description: promotion.description,
+    itemsDiscount,
+    shippingDiscount,
+    amount: roundCurrency(itemsDiscount + shippingDiscount),
+    eligibleItemIds: eligibleItems.map((item) => item.id),
+  };
+}
+
+/**
+ * Apply a discount to cart totals.
+ * Tax is reduced in proportion to the discounted items/shipping so the
+ * quoted total matches what Stripe charges after the coupon.
+ */
+export function applyDiscountToTotals(
+  totals: CartTotals,
+  discount: AppliedDiscount,
+  taxes: { itemsTax: number; shippingTax: number }
+): CartTotals {
+  const itemsRatio = totals.subtotal > 0 ? discount.itemsDiscount / totals.subtotal : 0;
+  const shippingRatio = totals.shipping > 0 ? discount.shippingDiscount / totals.shipping : 0;
+
+  const tax = roundCurrency(
+    taxes.itemsTax * (1 - itemsRatio) + taxes.shippingTax * (1 - shippingRatio)
+  );
+  const total = roundCurrency(
+    totals.subtotal + totals.shipping - discount.amount + (totals.taxInclusive ? 0 : tax)
+  );
+
+  return {
+    ...totals,
+    tax,
+    total,
+    discount: discount.amount,
+    promoCode: discount.code,
+  };
+}
+
+function mapPromotion(row: any): Promotion {
+  return {
+    id: row.id,
+    code: normalizePromoCode(row.code),
+    description: row.description || undefined,
+    type: row.discount_type,
+    value: Number(row.discount_value) || 0,
+    currency: row.currency || 'USD',
+    minOrderAmount: Number(row.min_order_amount) || 0,
+    eligibleProductTypes: row.eligible_product_types?.length ? row.eligible_product_types : null,
+    maxUses: row.max_uses ?? null,
+    maxUsesPerUser: row.max_uses_per_user ?? null,
+    timesUsed: row.times_used ?? 0,
+    startsAt: row.starts_at ? new Date(row.starts_at) : null,
+    expiresAt: row.expires_at ? new Date(row.expires_at) : null,
+    isActive: row.is_active !== false,
+  };
+}
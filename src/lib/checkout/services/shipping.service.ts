@@ -9,10 +9,14 @@ import { QuotesAPI } from '@/lib/prodigi-v2/quotes';
 import { ProductsAPI } from '@/lib/prodigi-v2/products';
 import { ShippingError } from '../types/errors';
 import { buildProdigiAttributes, buildProdigiAttributesHeuristic } from '../utils/attribute-builder';
+import { normalizeAddress } from '../utils/address-normalizer';
+import { validateAddressForShipping } from '../validators/address.validator';
 import type { ShippingAddress, ShippingMethod } from '../types/order.types';
 import type { CartItem } from '../types/cart.types';
 import type { ShippingOption } from './pricing.service';
-import type { QuoteItem } from '@/lib/prodigi-v2/types';
+import type { Quote, QuoteItem } from '@/lib/prodigi-v2/types';
+import { estimateDeliveryTime, getArrivalWindow } from '@/lib/prodigi-v2/delivery-estimator';
+import type { DeliveryHistory } from '@/lib/prodigi-v2/delivery-history';
 
 export interface AddressValidationResult {
   valid: boolean;
@@ -25,7 +29,10 @@ export class ShippingService {
   private quotesAPI: QuotesAPI;
   private productsAPI: ProductsAPI;
 
-  constructor(private prodigiClient: ProdigiClient) {
+  constructor(
+    private prodigiClient: ProdigiClient,
+    private deliveryHistory: DeliveryHistory | null = null
+  ) {
     this.quotesAPI = new QuotesAPI(prodigiClient);
     this.productsAPI = new ProductsAPI(prodigiClient);
   }
@@ -197,23 +204,11 @@ export class ShippingService {
           throw new ShippingError('No shipping quotes available');
         }
 
-        return {
-          method: (requestedQuote.shipmentMethod || 'Standard') as ShippingOption['method'],
-          cost: parseFloat(requestedQuote.costSummary?.shipping?.amount || '0'),
-          currency: requestedQuote.costSummary?.shipping?.currency || 'USD',
-          estimatedDays: this.estimateDeliveryDays(requestedQuote.shipmentMethod || 'Standard'),
-          serviceName: requestedQuote.shipmentMethod || 'Standard',
-        };
+        return this.toShippingOption(requestedQuote, address);
       }
 
       // Return all options
-      return quotes.map((quote) => ({
-        method: (quote.shipmentMethod || 'Standard') as ShippingOption['method'],
-        cost: parseFloat(quote.costSummary?.shipping?.amount || '0'),
-        currency: quote.costSummary?.shipping?.currency || 'USD',
-        estimatedDays: this.estimateDeliveryDays(quote.shipmentMethod || 'Standard'),
-        serviceName: quote.shipmentMethod || 'Standard',
-      }));
+      return quotes.map((quote) => this.toShippingOption(quote, address));
     } catch (error) {
       throw new ShippingError('Failed to calculate shipping', {
         originalError: error,
@@ -242,71 +237,42 @@ export class ShippingService {
   }
 
   /**
-   * Validate address for shipping
+   * Validate address for shipping (country postcode and state rules, and
+   * PO boxes for courier methods)
    */
-  async validateAddress(address: ShippingAddress): Promise<AddressValidationResult> {
-    const errors: string[] = [];
-
-    // Basic validation
-    if (!address.address1 || address.address1.trim().length < 3) {
-      errors.push('Street address is required');
-    }
-
-    if (!address.city || address.city.trim().length < 2) {
-      errors.push('City is required');
-    }
-
-    if (!address.country || address.country.length !== 2) {
-      errors.push('Country code is required (2 characters)');
-    }
-
-    // ZIP code validation for countries that require it
-    const countriesRequiringZip = [
-      'US',
-      'CA',
-      'GB',
-      'AU',
-      'DE',
-      'FR',
-      'IT',
-      'ES',
-      'NL',
-      'BE',
-      'AT',
-      'PT',
-    ];
-    if (countriesRequiringZip.includes(address.country.toUpperCase())) {
-      if (!address.zip || address.zip.trim().length < 3) {
-        errors.push('ZIP/Postal code is required for this country');
-      }
-    }
-
-    // State validation for countries that require it
-    const countriesRequiringState = ['US', 'CA', 'AU'];
-    if (countriesRequiringState.includes(address.country.toUpperCase())) {
-      if (!address.state || address.state.trim().length < 2) {
-        errors.push('State/Province is required for this country');
-      }
-    }
+  async validateAddress(
+    address: ShippingAddress,
+    shippingMethod?: ShippingMethod
+  ): Promise<AddressValidationResult> {
+    const { errors } = validateAddressForShipping(address, shippingMethod);
 
     return {
       valid: errors.length === 0,
-      address: errors.length === 0 ? address : undefined,
+      address: errors.length === 0 ? normalizeAddress(address) : undefined,
       errors,
     };
   }
 
   /**
-   * Estimate delivery days based on shipping method
+   * Shipping option for a quote, with delivery times for its production
+   * country and route (learned from our shipments when there are enough)
    */
-  private estimateDeliveryDays(shippingMethod: ShippingMethod): number {
-    const estimates: Record<ShippingMethod, number> = {
-      Budget: 12,
-      Standard: 6,
-      Express: 3,
-      Overnight: 1,
+  private toShippingOption(quote: Quote, address: ShippingAddress): ShippingOption {
+    const method = (quote.shipmentMethod || 'Standard') as ShippingMethod;
+    const productionCountry = quote.shipments?.[0]?.fulfillmentLocation?.countryCode || 'US';
+    const estimate = estimateDeliveryTime(productionCountry, address.country, method, 'wall-art', {
+      history: this.deliveryHistory,
+    });
+
+    return {
+      method,
+      cost: parseFloat(quote.costSummary?.shipping?.amount || '0'),
+      currency: quote.costSummary?.shipping?.currency || 'USD',
+      estimatedDays: estimate.totalDays.max,
+      estimatedDaysRange: estimate.totalDays,
+      arrivesBy: getArrivalWindow(estimate),
+      serviceName: method,
     };
-    return estimates[shippingMethod] || 7;
   }
 
   /**
@@ -0,0 +1,165 @@
+/**
+ * Tax Service for V2 Checkout
+ *
+ * Rules-based local tax provider backed by the versioned rates file
+ * (data/tax-rates.json), plus the factory that selects the configured provider.
+ *
+ * - Country + region (US states, Canadian provinces) rates
+ * - EU destination VAT (One-Stop-Shop) rates per member state
+ * - Tax-on-shipping flags per market/region
+ * - Inclusive vs exclusive price display per market
+ */
+
+import taxRatesData from '../data/tax-rates.json';
+import { ExternalTaxProvider } from '../adapters/external-tax.adapter';
+import type {
+  TaxCalculationRequest,
+  TaxCalculationResult,
+  TaxMarketRule,
+  TaxProvider,
+  TaxRateComponent,
+  TaxRatesData,
+} from '../types/tax.types';
+
+const roundCurrency = (amount: number) => Math.round(amount * 100) / 100;
+
+export class LocalTaxProvider implements TaxProvider {
+  readonly name = 'local';
+
+  constructor(private rates: TaxRatesData = taxRatesData as TaxRatesData) {}
+
+  get rulesVersion(): string {
+    return this.rates.version;
+  }
+
+  async calculate(request: TaxCalculationRequest): Promise<TaxCalculationResult> {
+    return this.calculateSync(request);
+  }
+
+  /**
+   * Synchronous calculation (the local rules never need I/O)
+   */
+  calculateSync(request: TaxCalculationRequest): TaxCalculationResult {
+    const country = request.address.country.toUpperCase();
+    const market = this.rates.markets[country];
+
+    if (!market) {
+      return this.emptyResult();
+    }
+
+    const { components, taxShipping, estimated, jurisdiction } = this.resolveRule(
+      market,
+      country,
+      request.address.region
+    );
+
+    const rate = components.reduce((sum, c) => sum + c.rate, 0);
+    const itemsNet = request.lines.reduce((sum, line) => sum + (line.amount || 0), 0);
+    const shippingNet = taxShipping ? request.shipping || 0 : 0;
+
+    const breakdown = components.map((component) => ({
+      jurisdiction,
+      name: component.name,
+      rate: component.rate,
+      amount: roundCurrency((itemsNet + shippingNet) * component.rate),
+    }));
+
+    const itemsTax = roundCurrency(itemsNet * rate);
+    const shippingTax = roundCurrency(shippingNet * rate);
+
+    return {
+      itemsTax,
+      shippingTax,
+      totalTax: roundCurrency(itemsTax + shippingTax),
+      rate,
+      inclusive: market.inclusive,
+      taxShipping,
+      taxName: market.taxName,
+      breakdown,
+      estimated,
+      provider: this.name,
+      rulesVersion: this.rates.version,
+    };
+  }
+
+  /**
+   * Resolve the rate components for a country/region.
+   * Region components replace the country components; when a market has
+   * regions but none was given, the country components are used as an estimate.
+   */
+  private resolveRule(
+    market: TaxMarketRule,
+    country: string,
+    region?: string
+  ): {
+    components: TaxRateComponent[];
+    taxShipping: boolean;
+    estimated: boolean;
+    jurisdiction: string;
+  } {
+    if (!market.regions) {
+      return {
+        components: market.components,
+        taxShipping: market.taxShipping,
+        estimated: false,
+        jurisdiction: country,
+      };
+    }
+
+    const regionCode = region?.trim().toUpperCase();
+    const regionRule = regionCode ? market.regions[regionCode] : undefined;
+
+    if (!regionRule) {
+      return {
+        components: market.components,
+        taxShipping: market.taxShipping,
+        estimated: true,
+        jurisdiction: country,
+      };
+    }
+
+    return {
+      components: regionRule.components,
+      taxShipping: regionRule.taxShipping ?? market.taxShipping,
+      estimated: false,
+      jurisdiction: `${country}-${regionCode}`,
+    };
+  }
+
+  private emptyResult(): TaxCalculationResult {
+    return {
+      itemsTax: 0,
+      shippingTax: 0,
+      totalTax: 0,
+      rate: 0,
+      inclusive: false,
+      taxShipping: false,
+      taxName: 'Tax',
+      breakdown: [],
+      estimated: false,
+      provider: this.name,
+      rulesVersion: this.rates.version,
+    };
+  }
+}
+
+/**
+ * Create the configured tax provider.
+ * TAX_PROVIDER=external uses the external tax service adapter (falling back
+ * to the local rules when it is unreachable); anything else uses local rules.
+ */
+export function createTaxProvider(): TaxProvider {
+  const local = new LocalTaxProvider();
+
+  if (process.env.TAX_PROVIDER === 'external' && process.env.TAX_SERVICE_URL) {
+    return new ExternalTaxProvider(
+      {
+        url: process.env.TAX_SERVICE_URL,
+        apiKey: process.env.TAX_SERVICE_API_KEY,
+      },
+      local
+    );
+  }
+
+  return local;
+}
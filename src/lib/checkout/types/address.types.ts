@@ -0,0 +1,62 @@
+/**
+ * Address Verification Types for V2 Checkout
+ */
+
+import type { ShippingAddress, ShippingMethod } from './order.types';
+
+export type AddressField = keyof Pick<
+  ShippingAddress,
+  'address1' | 'address2' | 'city' | 'state' | 'zip' | 'country' | 'phone'
+>;
+
+export type AddressIssueCode =
+  | 'required'
+  | 'invalid_postcode'
+  | 'invalid_state'
+  | 'invalid_phone'
+  | 'po_box'
+  | 'unverified';
+
+export interface AddressIssue {
+  field: AddressField;
+  code: AddressIssueCode;
+  message: string;
+  /** Errors block checkout; warnings are shown but can be accepted */
+  severity: 'error' | 'warning';
+}
+
+export interface AddressVerificationRequest {
+  address: ShippingAddress;
+  shippingMethod?: ShippingMethod;
+}
+
+export interface AddressVerificationResult {
+  valid: boolean;
+  /** The address as entered, normalized (postcode format, state code, E.164 phone) */
+  address: ShippingAddress;
+  issues: AddressIssue[];
+  /** Corrected addresses to offer the customer, best first */
+  suggestions: ShippingAddress[];
+  /** True when a verification provider confirmed the address is deliverable */
+  verified: boolean;
+  provider: string;
+}
+
+/**
+ * What a verification provider reports back. Providers only see addresses
+ * that already pass the local rules.
+ */
+export interface AddressProviderResult {
+  deliverable: boolean;
+  suggestions: ShippingAddress[];
+  issues?: AddressIssue[];
+}
+
+/**
+ * Pluggable address verification. Local rules always run; a provider adds
+ * deliverability checks and corrections from an external service.
+ */
+export interface AddressVerificationProvider {
+  readonly name: string;
+  verify(request: AddressVerificationRequest): Promise<AddressProviderResult>;
+}
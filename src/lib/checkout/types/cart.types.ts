@@ -2,7 +2,10 @@
  * Cart Types for V2 Checkout System
  */
 
+import type { SizingOption } from '@/lib/prodigi-v2/types';
+import type { ArtworkCrop } from '@/lib/print-crop';
 import type { ShippingMethod } from './order.types';
+import type { AppliedDiscount } from './promotion.types';
 
 export interface CartItem {
   id: string;
@@ -27,6 +30,9 @@ export interface CartItem {
     paperType?: string;
     finish?: string;
     edge?: string;
+    // How the image is placed on the print; crop applies to fillPrintArea only
+    sizing?: SizingOption;
+    crop?: ArtworkCrop;
   };
   createdAt: Date;
   updatedAt: Date;
@@ -59,6 +65,15 @@ export interface CartTotals {
   originalCurrency?: string;
   originalTotal?: number;
   exchangeRate?: number;
+  // Locked exchange rate snapshot the converted amounts use
+  rateSnapshotId?: string;
+  // When true, subtotal/shipping (and item prices) already include the tax
+  taxInclusive?: boolean;
+  taxName?: string;
+  taxEstimated?: boolean;
+  // Promo code discount (already subtracted from total)
+  discount?: number;
+  promoCode?: string;
 }
 
 export interface Cart {
@@ -67,6 +82,9 @@ export interface Cart {
   shippingMethod?: ShippingMethod;
   destinationCountry: string;
   updatedAt: Date;
+  discount?: AppliedDiscount;
+  // Set when a promo code was given but could not be applied
+  promoCodeError?: string;
 }
 
 export interface PriceValidationResult {
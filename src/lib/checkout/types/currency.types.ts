@@ -0,0 +1,23 @@
+/**
+ * Currency Types for V2 Checkout System
+ */
+
+export type ExchangeRateSource = 'live' | 'fallback' | 'identity';
+
+/**
+ * An exchange rate locked for one customer. The same snapshot prices the cart
+ * and the Stripe session, and is recorded on the order, so the amount shown,
+ * the amount charged and the amount reported all use one rate.
+ */
+export interface ExchangeRateSnapshot {
+  id: string;
+  userId: string;
+  baseCurrency: string; // Currency Prodigi quotes in (usually USD)
+  quoteCurrency: string; // Currency the customer is charged in
+  rate: number; // 1 baseCurrency = rate quoteCurrency
+  source: ExchangeRateSource;
+  ratesFetchedAt: Date;
+  stripeSessionId: string | null;
+  expiresAt: Date;
+  createdAt: Date;
+}
@@ -61,6 +61,36 @@ export class PaymentError extends CheckoutError {
   }
 }
 
+export class PromotionError extends CheckoutError {
+  constructor(message: string, details?: any) {
+    super(message, 'PROMOTION_ERROR', 400, details);
+    this.name = 'PromotionError';
+    Object.setPrototypeOf(this, PromotionError.prototype);
+  }
+}
+
+export class ExchangeRateError extends CheckoutError {
+  constructor(message: string, details?: any) {
+    // Allow statusCode to be overridden in details
+    const statusCode = details?.statusCode || 500;
+    const detailsWithoutStatusCode = details ? { ...details } : undefined;
+    if (detailsWithoutStatusCode && 'statusCode' in detailsWithoutStatusCode) {
+      delete detailsWithoutStatusCode.statusCode;
+    }
+    super(message, 'EXCHANGE_RATE_ERROR', statusCode, detailsWithoutStatusCode);
+    this.name = 'ExchangeRateError';
+    Object.setPrototypeOf(this, ExchangeRateError.prototype);
+  }
+}
+
+export class PrintQualityError extends CheckoutError {
+  constructor(message: string, details?: any) {
+    super(message, 'PRINT_QUALITY_ERROR', 422, details);
+    this.name = 'PrintQualityError';
+    Object.setPrototypeOf(this, PrintQualityError.prototype);
+  }
+}
+
 export class AddressError extends CheckoutError {
   constructor(message: string, details?: any) {
     super(message, 'ADDRESS_ERROR', 400, details);
@@ -6,7 +6,11 @@ export * from './cart.types';
 export * from './order.types';
 export * from './checkout.types';
 export * from './payment.types';
+export * from './tax.types';
+export * from './address.types';
 
 
 
 
+export * from './promotion.types';
+export * from './currency.types';
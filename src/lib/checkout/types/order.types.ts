@@ -2,6 +2,9 @@
  * Order Types for V2 Checkout System
  */
 
+import type { SizingOption } from '@/lib/prodigi-v2/types';
+import type { ArtworkCrop } from '@/lib/print-crop';
+
 export type OrderStatus =
   | 'pending'
   | 'paid'
@@ -19,6 +22,7 @@ export type PaymentStatus =
   | 'failed'
   | 'requires_action'
   | 'disputed'
+  | 'partially_refunded'
   | 'refunded';
 
 export interface ShippingAddress {
@@ -81,7 +85,11 @@ export interface OrderItem {
     paperType?: string;
     finish?: string;
     edge?: string;
+    sizing?: SizingOption;
+    crop?: ArtworkCrop;
   };
+  // Cropped print-ready asset, once rendered
+  printAssetUrl?: string;
   createdAt: Date;
 }
 
@@ -133,6 +141,7 @@ export interface Order {
     originalCurrency?: string;
     originalTotal?: number;
     exchangeRate?: number;
+    rateSnapshotId?: string;
   };
   payment: {
     stripeSessionId: string;
@@ -0,0 +1,37 @@
+/**
+ * Promotion Types for V2 Checkout System
+ */
+
+export type PromotionType = 'percentage' | 'fixed' | 'free_shipping';
+
+export interface Promotion {
+  id: string;
+  code: string;
+  description?: string;
+  type: PromotionType;
+  value: number; // Percent (0-100) or fixed amount in `currency`
+  currency: string;
+  minOrderAmount: number; // In `currency`
+  eligibleProductTypes: string[] | null; // null = all product types
+  maxUses: number | null;
+  maxUsesPerUser: number | null;
+  timesUsed: number;
+  startsAt: Date | null;
+  expiresAt: Date | null;
+  isActive: boolean;
+}
+
+/**
+ * A promotion applied to a cart, with amounts in the cart's currency
+ */
+export interface AppliedDiscount {
+  promotionId: string;
+  code: string;
+  type: PromotionType;
+  description?: string;
+  itemsDiscount: number;
+  shippingDiscount: number;
+  amount: number; // itemsDiscount + shippingDiscount
+  currency: string;
+  eligibleItemIds: string[];
+}
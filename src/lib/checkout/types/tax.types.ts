@@ -0,0 +1,86 @@
+/**
+ * Tax Types for V2 Checkout System
+ */
+
+export interface TaxAddress {
+  country: string; // ISO 3166-1 alpha-2
+  region?: string; // State / province code (US, CA)
+  postalCode?: string;
+}
+
+export interface TaxableLine {
+  amount: number; // Net line total (unit price x quantity), before tax
+  quantity?: number;
+  productType?: string;
+  sku?: string;
+}
+
+export interface TaxCalculationRequest {
+  address: TaxAddress;
+  lines: TaxableLine[];
+  shipping: number; // Net shipping cost, before tax
+  currency: string;
+}
+
+export interface TaxBreakdownLine {
+  jurisdiction: string; // e.g. "US-CA", "CA-QC", "DE"
+  name: string; // e.g. "GST", "QST", "VAT"
+  rate: number;
+  amount: number;
+}
+
+export interface TaxCalculationResult {
+  itemsTax: number;
+  shippingTax: number;
+  totalTax: number;
+  /** Combined rate applied to items */
+  rate: number;
+  /** Whether prices in this market are displayed tax-inclusive */
+  inclusive: boolean;
+  taxShipping: boolean;
+  /** Label shown to customers ("VAT", "GST", "Sales tax") */
+  taxName: string;
+  breakdown: TaxBreakdownLine[];
+  /** True when the rate could not be resolved precisely (e.g. missing region) */
+  estimated: boolean;
+  provider: string;
+  rulesVersion?: string;
+}
+
+/**
+ * Pluggable tax engine. The local rules-based provider is the default;
+ * an external tax service can be plugged in through an adapter.
+ */
+export interface TaxProvider {
+  readonly name: string;
+  calculate(request: TaxCalculationRequest): Promise<TaxCalculationResult>;
+}
+
+/**
+ * Shape of a market entry in the versioned tax rates data file
+ */
+export interface TaxRateComponent {
+  name: string;
+  rate: number;
+}
+
+export interface TaxRegionRule {
+  components: TaxRateComponent[];
+  taxShipping?: boolean;
+}
+
+export interface TaxMarketRule {
+  taxName: string;
+  inclusive: boolean;
+  taxShipping: boolean;
+  components: TaxRateComponent[];
+  /** Region-specific rules; when present the region is needed for an exact rate */
+  regions?: Record<string, TaxRegionRule>;
+  /** Tax scheme this market is collected under (e.g. EU One-Stop-Shop) */
+  scheme?: string;
+}
+
+export interface TaxRatesData {
+  version: string;
+  markets: Record<string, TaxMarketRule>;
+}
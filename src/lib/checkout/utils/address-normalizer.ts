@@ -0,0 +1,175 @@
+/**
+ * Address Normalization
+ *
+ * Puts addresses into the shape Prodigi and its carriers expect: postcodes
+ * in their national format, state names as codes, phone numbers in E.164.
+ * Normalizing never rejects an address - the validator decides what's wrong.
+ */
+
+import type { ShippingAddress } from '../types/order.types';
+
+/**
+ * State / province / territory codes for the countries where Prodigi
+ * requires one, keyed by lowercase name
+ */
+export const REGIONS: Record<string, Record<string, string>> = {
+  US: {
+    'alabama': 'AL', 'alaska': 'AK', 'arizona': 'AZ', 'arkansas': 'AR', 'california': 'CA',
+    'colorado': 'CO', 'connecticut': 'CT', 'delaware': 'DE', 'district of columbia': 'DC',
+    'florida': 'FL', 'georgia': 'GA', 'hawaii': 'HI', 'idaho': 'ID', 'illinois': 'IL',
+    'indiana': 'IN', 'iowa': 'IA', 'kansas': 'KS', 'kentucky': 'KY', 'louisiana': 'LA',
+    'maine': 'ME', 'maryland': 'MD', 'massachusetts': 'MA', 'michigan': 'MI', 'minnesota': 'MN',
+    'mississippi': 'MS', 'missouri': 'MO', 'montana': 'MT', 'nebraska': 'NE', 'nevada': 'NV',
+    'new hampshire': 'NH', 'new jersey': 'NJ', 'new mexico': 'NM', 'new york': 'NY',
+    'north carolina': 'NC', 'north dakota': 'ND', 'ohio': 'OH', 'oklahoma': 'OK', 'oregon': 'OR',
+    'pennsylvania': 'PA', 'rhode island': 'RI', 'south carolina': 'SC', 'south dakota': 'SD',
+    'tennessee': 'TN', 'texas': 'TX', 'utah': 'UT', 'vermont': 'VT', 'virginia': 'VA',
+    'washington': 'WA', 'west virginia': 'WV', 'wisconsin': 'WI', 'wyoming': 'WY',
+    'puerto rico': 'PR', 'guam': 'GU', 'u.s. virgin islands': 'VI', 'american samoa': 'AS',
+    'northern mariana islands': 'MP',
+    // Military mail
+    'armed forces americas': 'AA', 'armed forces europe': 'AE', 'armed forces pacific': 'AP',
+  },
+  CA: {
+    'alberta': 'AB', 'british columbia': 'BC', 'manitoba': 'MB', 'new brunswick': 'NB',
+    'newfoundland and labrador': 'NL', 'northwest territories': 'NT', 'nova scotia': 'NS',
+    'nunavut': 'NU', 'ontario': 'ON', 'prince edward island': 'PE', 'quebec': 'QC',
+    'québec': 'QC', 'saskatchewan': 'SK', 'yukon': 'YT',
+  },
+  AU: {
+    'australian capital territory': 'ACT', 'new south wales': 'NSW', 'northern territory': 'NT',
+    'queensland': 'QLD', 'south australia': 'SA', 'tasmania': 'TAS', 'victoria': 'VIC',
+    'western australia': 'WA',
+  },
+};
+
+// International dialling codes for the countries we ship to
+const CALLING_CODES: Record<string, string> = {
+  US: '1', CA: '1', MX: '52',
+  GB: '44', DE: '49', FR: '33', IT: '39', ES: '34', NL: '31', BE: '32', SE: '46', DK: '45',
+  NO: '47', FI: '358', AT: '43', CH: '41', IE: '353', PT: '351', PL: '48',
+  AU: '61', NZ: '64', JP: '81', SG: '65', HK: '852', BD: '880', IN: '91', PK: '92',
+};
+
+// Countries whose national numbers keep their leading zero after the country code
+const KEEPS_TRUNK_ZERO = ['IT'];
+
+const PO_BOX_PATTERN =
+  /\b(p\.?\s*o\.?\s*box|post\s+office\s+box|gpo\s+box|locked\s+bag|postfach|apartado(\s+de\s+correos)?|bo[iî]te\s+postale|casella\s+postale)\b/i;
+
+/**
+ * Uppercase, single-spaced postcode in the country's usual format
+ * (e.g. "sw1a1aa" -> "SW1A 1AA", "123456789" -> "12345-6789" for the US)
+ */
+export function normalizePostcode(postcode: string, country: string): string {
+  const compact = postcode.toUpperCase().replace(/\s+/g, ' ').trim();
+  const bare = compact.replace(/[\s-]/g, '');
+
+  switch (country) {
+    case 'US':
+      return /^\d{9}$/.test(bare) ? `${bare.slice(0, 5)}-${bare.slice(5)}` : compact;
+    case 'GB':
+      return /^[A-Z0-9]{5,7}$/.test(bare) ? `${bare.slice(0, -3)} ${bare.slice(-3)}` : compact;
+    case 'CA':
+      return /^[A-Z]\d[A-Z]\d[A-Z]\d$/.test(bare) ? `${bare.slice(0, 3)} ${bare.slice(3)}` : compact;
+    case 'NL':
+      return /^\d{4}[A-Z]{2}$/.test(bare) ? `${bare.slice(0, 4)} ${bare.slice(4)}` : compact;
+    case 'SE':
+      return /^\d{5}$/.test(bare) ? `${bare.slice(0, 3)} ${bare.slice(3)}` : compact;
+    case 'PT':
+      return /^\d{7}$/.test(bare) ? `${bare.slice(0, 4)}-${bare.slice(4)}` : compact;
+    case 'PL':
+      return /^\d{5}$/.test(bare) ? `${bare.slice(0, 2)}-${bare.slice(2)}` : compact;
+    case 'JP':
+      return /^\d{7}$/.test(bare) ? `${bare.slice(0, 3)}-${bare.slice(3)}` : compact;
+    case 'IE':
+      return /^[A-Z0-9]{7}$/.test(bare) ? `${bare.slice(0, 3)} ${bare.slice(3)}` : compact;
+    default:
+      return compact;
+  }
+}
+
+/**
+ * State code for a state name or code; unknown values are returned trimmed
+ */
+export function normalizeState(state: string, country: string): string {
+  const trimmed = state.trim().replace(/\s+/g, ' ');
+  const regions = REGIONS[country];
+  if (!regions) {
+    return trimmed;
+  }
+
+  const byName = regions[trimmed.toLowerCase().replace(/\.$/, '')];
+  if (byName) {
+    return byName;
+  }
+
+  const upper = trimmed.toUpperCase();
+  return Object.values(regions).includes(upper) ? upper : trimmed;
+}
+
+/**
+ * E.164 phone number ("+442071234567"), or null if it can't be one
+ */
+export function normalizePhone(phone: string, country: string): string | null {
+  const cleaned = phone.trim().replace(/[\s().\-\/]/g, '');
+  if (!cleaned) {
+    return null;
+  }
+
+  let digits: string;
+  if (cleaned.startsWith('+')) {
+    digits = cleaned.slice(1);
+  } else if (cleaned.startsWith('00')) {
+    digits = cleaned.slice(2);
+  } else {
+    const callingCode = CALLING_CODES[country];
+    if (!callingCode) {
+      return null;
+    }
+
+    let national = cleaned;
+    if (callingCode === '1' && national.length === 11 && national.startsWith('1')) {
+      national = national.slice(1);
+    } else if (national.startsWith('0') && !KEEPS_TRUNK_ZERO.includes(country)) {
+      national = national.slice(1);
+    }
+    digits = `${callingCode}${national}`;
+  }
+
+  if (!/^[1-9]\d{7,14}$/.test(digits)) {
+    return null;
+  }
+  return `+${digits}`;
+}
+
+/**
+ * Whether the street lines are a PO box (or national equivalent)
+ */
+export function isPoBox(address: Pick<ShippingAddress, 'address1' | 'address2'>): boolean {
+  return PO_BOX_PATTERN.test(address.address1 || '') || PO_BOX_PATTERN.test(address.address2 || '');
+}
+
+/**
+ * Trimmed address with national postcode, state code and E.164 phone.
+ * Phones that can't be normalized are left as entered for the validator.
+ */
+export function normalizeAddress(address: ShippingAddress): ShippingAddress {
+  const country = address.country?.toUpperCase().trim() || '';
+  const state = address.state?.trim() ? normalizeState(address.state, country) : undefined;
+  const zip = address.zip?.trim() ? normalizePostcode(address.zip, country) : undefined;
+  const phone = address.phone?.trim()
+    ? normalizePhone(address.phone, country) ?? address.phone.trim()
+    : undefined;
+
+  return {
+    ...address,
+    address1: address.address1?.trim().replace(/\s+/g, ' ') || '',
+    address2: address.address2?.trim().replace(/\s+/g, ' ') || undefined,
+    city: address.city?.trim().replace(/\s+/g, ' ') || '',
+    state,
+    zip,
+    country,
+    phone,
+  };
+}
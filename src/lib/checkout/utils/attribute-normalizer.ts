@@ -40,14 +40,20 @@ export function normalizeAttributesForMatching(
 /**
  * Generate a unique quote key from SKU and attributes
  * Format: "sku:{sorted-json-attributes}"
+ * With a destination: "sku:{sorted-json-attributes}:country:shippingmethod"
  */
 export function generateQuoteKey(
   sku: string,
-  attributes: Record<string, string> | undefined | null
+  attributes: Record<string, string> | undefined | null,
+  destination?: { country: string; shippingMethod: string }
 ): string {
   const normalizedSku = sku.toLowerCase();
   const normalizedAttrs = normalizeAttributesForMatching(attributes);
   const attrsKey = JSON.stringify(normalizedAttrs);
-  return `${normalizedSku}:${attrsKey}`;
+  const key = `${normalizedSku}:${attrsKey}`;
+  if (!destination) {
+    return key;
+  }
+  return `${key}:${destination.country.toUpperCase()}:${destination.shippingMethod.toLowerCase()}`;
 }
 
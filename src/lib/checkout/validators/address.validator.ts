@@ -4,7 +4,9 @@
 
 import { z } from 'zod';
 import { AddressError } from '../types/errors';
-import type { ShippingAddress } from '../types/order.types';
+import { isPoBox, normalizeAddress, REGIONS } from '../utils/address-normalizer';
+import type { ShippingAddress, ShippingMethod } from '../types/order.types';
+import type { AddressIssue } from '../types/address.types';
 
 export const ShippingAddressSchema = z.object({
   firstName: z.string().optional(),
@@ -34,35 +36,118 @@ export function validateShippingAddress(address: unknown): ShippingAddress {
   }
 }
 
-export function validateAddressForShipping(address: ShippingAddress): {
-  valid: boolean;
-  errors: string[];
-} {
-  const errors: string[] = [];
+// National postcode formats, checked after normalization
+const POSTCODE_PATTERNS: Record<string, RegExp> = {
+  US: /^\d{5}(-\d{4})?$/,
+  CA: /^[ABCEGHJ-NPRSTVXY]\d[ABCEGHJ-NPRSTV-Z] \d[ABCEGHJ-NPRSTV-Z]\d$/,
+  MX: /^\d{5}$/,
+  GB: /^(GIR 0AA|[A-Z]{1,2}\d[A-Z\d]? \d[A-Z]{2})$/,
+  DE: /^\d{5}$/,
+  FR: /^\d{5}$/,
+  IT: /^\d{5}$/,
+  ES: /^\d{5}$/,
+  NL: /^\d{4} [A-Z]{2}$/,
+  BE: /^\d{4}$/,
+  SE: /^\d{3} \d{2}$/,
+  DK: /^\d{4}$/,
+  NO: /^\d{4}$/,
+  FI: /^\d{5}$/,
+  AT: /^\d{4}$/,
+  CH: /^\d{4}$/,
+  IE: /^([AC-FHKNPRTV-Y]\d{2}|D6W) [0-9AC-FHKNPRTV-Y]{4}$/,
+  PT: /^\d{4}-\d{3}$/,
+  PL: /^\d{2}-\d{3}$/,
+  AU: /^\d{4}$/,
+  NZ: /^\d{4}$/,
+  JP: /^\d{3}-\d{4}$/,
+  SG: /^\d{6}$/,
+  BD: /^\d{4}$/,
+  IN: /^\d{6}$/,
+  PK: /^\d{5}$/,
+};
+
+// Postcodes are optional in Ireland (Eircodes are new) and don't exist in Hong Kong
+const POSTCODE_OPTIONAL = ['IE', 'HK'];
+
+// Prodigi rejects orders to these countries without a state / province
+export const COUNTRIES_REQUIRING_STATE = ['US', 'CA', 'AU'];
+
+// Courier services that can't deliver to PO boxes
+export const COURIER_SHIPPING_METHODS: ShippingMethod[] = ['Express', 'Overnight'];
+
+/**
+ * Country rules for an address, run on its normalized form
+ * (see normalizeAddress). Returns every problem found.
+ */
+export function validateAddressRules(
+  address: ShippingAddress,
+  shippingMethod?: ShippingMethod
+): AddressIssue[] {
+  const issues: AddressIssue[] = [];
+  const error = (field: AddressIssue['field'], code: AddressIssue['code'], message: string) =>
+    issues.push({ field, code, message, severity: 'error' });
+  const warning = (field: AddressIssue['field'], code: AddressIssue['code'], message: string) =>
+    issues.push({ field, code, message, severity: 'warning' });
+
+  const country = (address.country || '').toUpperCase();
 
   if (!address.address1 || address.address1.trim().length < 3) {
-    errors.push('Street address is required');
+    error('address1', 'required', 'Street address is required');
   }
 
   if (!address.city || address.city.trim().length < 2) {
-    errors.push('City is required');
+    error('city', 'required', 'City is required');
+  }
+
+  if (country.length !== 2) {
+    error('country', 'required', 'Country code is required (2 characters)');
+    return issues;
   }
 
-  if (!address.country || address.country.length !== 2) {
-    errors.push('Country code is required (2 characters)');
+  const pattern = POSTCODE_PATTERNS[country];
+  if (!address.zip) {
+    if (pattern && !POSTCODE_OPTIONAL.includes(country)) {
+      error('zip', 'required', 'ZIP/Postal code is required for this country');
+    }
+  } else if (pattern && !pattern.test(address.zip)) {
+    error('zip', 'invalid_postcode', `"${address.zip}" is not a valid postal code for this country`);
   }
 
-  // ZIP code validation for countries that require it
-  const countriesRequiringZip = ['US', 'CA', 'GB', 'AU', 'DE', 'FR', 'IT', 'ES'];
-  if (countriesRequiringZip.includes(address.country.toUpperCase())) {
-    if (!address.zip || address.zip.trim().length < 3) {
-      errors.push('ZIP/Postal code is required for this country');
+  if (COUNTRIES_REQUIRING_STATE.includes(country)) {
+    const codes = Object.values(REGIONS[country]);
+    if (!address.state) {
+      error('state', 'required', 'State/Province is required for this country');
+    } else if (!codes.includes(address.state)) {
+      error('state', 'invalid_state', `"${address.state}" is not a recognised state/province`);
     }
   }
 
+  // The phone is optional and only national numbers from countries with a
+  // known calling code can be normalized, so a bad one doesn't block checkout
+  if (address.phone && !/^\+[1-9]\d{7,14}$/.test(address.phone)) {
+    warning('phone', 'invalid_phone', 'Check the phone number and include the country code (e.g. +44) so the carrier can reach you');
+  }
+
+  if (shippingMethod && COURIER_SHIPPING_METHODS.includes(shippingMethod) && isPoBox(address)) {
+    error('address1', 'po_box', `${shippingMethod} shipping can't deliver to a PO box - use a street address or Standard shipping`);
+  }
+
+  return issues;
+}
+
+export function validateAddressForShipping(
+  address: ShippingAddress,
+  shippingMethod?: ShippingMethod
+): {
+  valid: boolean;
+  errors: string[];
+} {
+  const errors = validateAddressRules(normalizeAddress(address), shippingMethod)
+    .filter(issue => issue.severity === 'error')
+    .map(issue => issue.message);
+
   return {
     valid: errors.length === 0,
     errors,
   };
 }
-
@@ -0,0 +1,254 @@
+/**
+ * Generation Credits
+ *
+ * profiles.credits is the balance and credit_ledger records every change to
+ * it. Balance changes go through the spend_credits and grant_credits RPCs,
+ * which update both in one statement: spends can't overdraw the balance and
+ * grants are idempotent per reference, so webhook redeliveries and repeated
+ * allowance checks never add credits twice. Server-only (service role).
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type CreditLedgerKind = 'monthly_allowance' | 'purchase' | 'spend' | 'refund';
+
+export interface CreditLedgerEntry {
+  id: string;
+  userId: string;
+  kind: CreditLedgerKind;
+  /** Negative for spends */
+  amount: number;
+  balanceAfter: number;
+  reference: string | null;
+  metadata: Record<string, any>;
+  createdAt: string;
+}
+
+export interface CreditPack {
+  id: string;
+  name: string;
+  credits: number;
+  /** In `currency`, major units */
+  price: number;
+  currency: string;
+}
+
+export interface CreditBalance {
+  balance: number;
+  monthlyAllowance: number;
+  /** When the next monthly allowance becomes available (ISO) */
+  nextAllowanceAt: string;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/** Free credits granted each calendar month (UTC) */
+export const MONTHLY_FREE_CREDITS = 10;
+
+export const CREDIT_PACKS: CreditPack[] = [
+  { id: 'starter', name: 'Starter', credits: 50, price: 4.99, currency: 'USD' },
+  { id: 'creator', name: 'Creator', credits: 150, price: 12.99, currency: 'USD' },
+  { id: 'studio', name: 'Studio', credits: 500, price: 34.99, currency: 'USD' },
+];
+
+/** Ideogram endpoints that produce images; each image costs one credit */
+const CHARGED_ENDPOINT = /(^|\/)(generate|remix|edit|reframe|replace-background|upscale)$/;
+
+const MAX_IMAGES_PER_REQUEST = 8;
+
+// ============================================================================
+// ERRORS
+// ============================================================================
+
+export class CreditsError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400,
+    public details?: any
+  ) {
+    super(message);
+    this.name = 'CreditsError';
+    Object.setPrototypeOf(this, CreditsError.prototype);
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export function getCreditPack(packId: string): CreditPack | undefined {
+  return CREDIT_PACKS.find(pack => pack.id === packId);
+}
+
+/**
+ * Allowance period for a date: "YYYY-MM" in UTC, used as the allowance's
+ * ledger reference
+ */
+export function getAllowancePeriod(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 7);
+}
+
+/**
+ * Credits charged for a POST through the Ideogram proxy: one per requested
+ * image on image-producing endpoints, nothing for anything else
+ */
+export function getGenerationCost(path: string, formData: FormData): number {
+  if (!CHARGED_ENDPOINT.test(path)) {
+    return 0;
+  }
+
+  const numImages = Number(formData.get('num_images'));
+  if (!Number.isInteger(numImages) || numImages < 1) {
+    return 1;
+  }
+
+  return Math.min(numImages, MAX_IMAGES_PER_REQUEST);
+}
+
+function mapEntry(row: any): CreditLedgerEntry {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    kind: row.kind,
+    amount: row.amount,
+    balanceAfter: row.balance_after,
+    reference: row.reference ?? null,
+    metadata: row.metadata || {},
+    createdAt: row.created_at,
+  };
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+export class CreditService {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * Current balance, after granting this month's allowance if it's due
+   */
+  async getBalance(userId: string): Promise<CreditBalance> {
+    await this.ensureMonthlyAllowance(userId);
+
+    const { data, error } = await this.supabase
+      .from('profiles')
+      .select('credits')
+      .eq('id', userId)
+      .single();
+
+    if (error || !data) {
+      throw new CreditsError('Failed to load credit balance', 500, error);
+    }
+
+    const now = new Date();
+    const nextAllowanceAt = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+
+    return {
+      balance: data.credits ?? 0,
+      monthlyAllowance: MONTHLY_FREE_CREDITS,
+      nextAllowanceAt: nextAllowanceAt.toISOString(),
+    };
+  }
+
+  /**
+   * Grant the monthly allowance for the current period; a no-op once granted
+   */
+  async ensureMonthlyAllowance(userId: string, now: Date = new Date()): Promise<CreditLedgerEntry> {
+    return this.grant(userId, MONTHLY_FREE_CREDITS, 'monthly_allowance', getAllowancePeriod(now));
+  }
+
+  /**
+   * Deduct credits for a generation before it starts. Throws a 402
+   * CreditsError when the balance is too low.
+   */
+  async spend(
+    userId: string,
+    amount: number,
+    reference: string,
+    metadata: Record<string, any> = {}
+  ): Promise<CreditLedgerEntry> {
+    await this.ensureMonthlyAllowance(userId);
+
+    const { data, error } = await this.supabase.rpc('spend_credits', {
+      p_user_id: userId,
+      p_amount: amount,
+      p_reference: reference,
+      p_metadata: metadata,
+    });
+
+    if (error) {
+      if (error.message?.includes('insufficient_credits')) {
+        throw new CreditsError('Not enough credits', 402, { required: amount });
+      }
+      throw new CreditsError('Failed to spend credits', 500, error);
+    }
+
+    return mapEntry(data);
+  }
+
+  /**
+   * Return the credits of a spend whose generation failed. Refunding the same
+   * spend twice is a no-op.
+   */
+  async refund(spend: CreditLedgerEntry, reason: string): Promise<CreditLedgerEntry> {
+    return this.grant(spend.userId, Math.abs(spend.amount), 'refund', spend.id, {
+      reason,
+      spendReference: spend.reference,
+    });
+  }
+
+  /**
+   * Credit a purchased pack; the Stripe session id makes it idempotent
+   */
+  async grantPurchase(userId: string, pack: CreditPack, sessionId: string): Promise<CreditLedgerEntry> {
+    return this.grant(userId, pack.credits, 'purchase', sessionId, {
+      packId: pack.id,
+      price: pack.price,
+      currency: pack.currency,
+    });
+  }
+
+  async getHistory(userId: string, limit: number = 20): Promise<CreditLedgerEntry[]> {
+    const { data, error } = await this.supabase
+      .from('credit_ledger')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new CreditsError('Failed to load credit history', 500, error);
+    }
+
+    return (data || []).map(mapEntry);
+  }
+
+  private async grant(
+    userId: string,
+    amount: number,
+    kind: Exclude<CreditLedgerKind, 'spend'>,
+    reference: string,
+    metadata: Record<string, any> = {}
+  ): Promise<CreditLedgerEntry> {
+    const { data, error } = await this.supabase.rpc('grant_credits', {
+      p_user_id: userId,
+      p_amount: amount,
+      p_kind: kind,
+      p_reference: reference,
+      p_metadata: metadata,
+    });
+
+    if (error) {
+      throw new CreditsError(`Failed to grant ${kind} credits`, 500, error);
+    }
+
+    return mapEntry(data);
+  }
+}
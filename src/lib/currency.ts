@@ -11,6 +11,26 @@ interface CachedRates {
   rates: ExchangeRates;
   timestamp: number;
   baseCurrency: string;
+  source: RateSource;
+}
+
+export type RateSource = 'live' | 'fallback';
+
+export interface RateQuote {
+  rate: number;
+  source: RateSource;
+  fetchedAt: Date;
+}
+
+/**
+ * How converted prices are rounded in a currency.
+ * Prices are rounded up to a multiple of `step`, then `ending` is taken off,
+ * e.g. step 1 / ending 0.01 turns 23.40 into 23.99.
+ */
+export interface PriceRoundingRule {
+  decimals: number;
+  step: number;
+  ending: number;
 }
 
 // In-memory cache (consider Redis for production with multiple servers)
@@ -41,6 +61,32 @@ const FALLBACK_RATES: ExchangeRates = {
   'NZD': 1.62,
 };
 
+// Currencies without minor units (Stripe charges these in whole units)
+const ZERO_DECIMAL_CURRENCIES = ['JPY', 'KRW', 'VND', 'CLP', 'PYG', 'UGX'];
+
+const PRICE_ROUNDING_RULES: Record<string, PriceRoundingRule> = {
+  USD: { decimals: 2, step: 1, ending: 0.01 },
+  CAD: { decimals: 2, step: 1, ending: 0.01 },
+  AUD: { decimals: 2, step: 1, ending: 0.01 },
+  NZD: { decimals: 2, step: 1, ending: 0.01 },
+  GBP: { decimals: 2, step: 1, ending: 0.01 },
+  EUR: { decimals: 2, step: 1, ending: 0.01 },
+  SGD: { decimals: 2, step: 1, ending: 0.01 },
+  HKD: { decimals: 2, step: 1, ending: 0.01 },
+  MXN: { decimals: 2, step: 1, ending: 0.01 },
+  PLN: { decimals: 2, step: 1, ending: 0.01 },
+  CHF: { decimals: 2, step: 1, ending: 0.10 }, // 24.90
+  BRL: { decimals: 2, step: 1, ending: 0.10 },
+  SEK: { decimals: 2, step: 10, ending: 1 }, // 249.00
+  NOK: { decimals: 2, step: 10, ending: 1 },
+  DKK: { decimals: 2, step: 10, ending: 1 },
+  CZK: { decimals: 2, step: 10, ending: 1 },
+  INR: { decimals: 2, step: 10, ending: 1 },
+  HUF: { decimals: 2, step: 100, ending: 10 }, // 8990
+  JPY: { decimals: 0, step: 10, ending: 0 }, // 3480
+  KRW: { decimals: 0, step: 100, ending: 0 },
+};
+
 export class CurrencyService {
   private apiUrl: string;
 
@@ -111,6 +157,7 @@ export class CurrencyService {
       rates,
       timestamp: now,
       baseCurrency: 'USD',
+      source: rates === FALLBACK_RATES ? 'fallback' : 'live',
     };
 
     return rates;
@@ -131,16 +178,8 @@ export class CurrencyService {
       return amountUSD;
     }
     
-    const converted = amountUSD * rate;
-    
-    // Handle zero-decimal currencies (currencies without cents)
-    const zeroDecimalCurrencies = ['JPY', 'KRW', 'VND', 'CLP', 'PYG', 'UGX'];
-    if (zeroDecimalCurrencies.includes(currency)) {
-      return Math.round(converted);
-    }
-    
-    // Round to 2 decimal places for normal currencies
-    return Math.round(converted * 100) / 100;
+    // Zero-decimal currencies (no cents) round to whole units
+    return roundToCurrency(amountUSD * rate, currency);
   }
 
   /**
@@ -168,7 +207,7 @@ export class CurrencyService {
     const amountInUSD = amount / fromRate;
     const converted = amountInUSD * toRate;
     
-    return Math.round(converted * 100) / 100;
+    return roundToCurrency(converted, to);
   }
 
   /**
@@ -193,6 +232,29 @@ export class CurrencyService {
     return toRate / fromRate;
   }
 
+  /**
+   * Get the exchange rate together with where and when it was fetched,
+   * for locking it to a checkout. Unlike getRate, unknown currencies throw
+   * instead of falling back to 1.0.
+   */
+  async getRateQuote(fromCurrency: string, toCurrency: string): Promise<RateQuote> {
+    const rates = await this.getRates();
+    const from = fromCurrency.toUpperCase();
+    const to = toCurrency.toUpperCase();
+
+    for (const currency of [from, to]) {
+      if (currency !== 'USD' && !rates[currency]) {
+        throw new Error(`Unsupported currency: ${currency}`);
+      }
+    }
+
+    return {
+      rate: await this.getRate(from, to),
+      source: ratesCache?.source ?? 'live',
+      fetchedAt: new Date(ratesCache?.timestamp ?? Date.now()),
+    };
+  }
+
   /**
    * Clear the cache (useful for manual refresh)
    */
@@ -237,3 +299,49 @@ export async function getExchangeRate(from: string, to: string): Promise<number>
   return currencyService.getRate(from, to);
 }
 
+
+
+/**
+ * Number of decimal places a currency is charged in
+ */
+export function getCurrencyDecimals(currency: string): number {
+  const code = currency.toUpperCase();
+  return PRICE_ROUNDING_RULES[code]?.decimals ?? (ZERO_DECIMAL_CURRENCIES.includes(code) ? 0 : 2);
+}
+
+/**
+ * Round an amount to the currency's decimal places (whole units for JPY, KRW, ...)
+ */
+export function roundToCurrency(amount: number, currency: string): number {
+  const factor = 10 ** getCurrencyDecimals(currency);
+  return Math.round(amount * factor) / factor;
+}
+
+/**
+ * Round a converted price up to the currency's price ending, e.g. 23.40 USD
+ * becomes 23.99, 243 SEK becomes 249 and 3472 JPY becomes 3480. Currencies
+ * without a rule are only rounded to their decimal places.
+ */
+export function applyPriceEnding(amount: number, currency: string): number {
+  const rule = PRICE_ROUNDING_RULES[currency.toUpperCase()];
+  if (!rule || amount <= 0) {
+    return roundToCurrency(amount, currency);
+  }
+
+  // Round first so float noise (e.g. 24.000000001) doesn't push the price up a step
+  const steps = Math.ceil(roundToCurrency(amount, currency) / rule.step);
+  const rounded = Math.max(steps, 1) * rule.step - rule.ending;
+  return roundToCurrency(rounded, currency);
+}
+
+/**
+ * Amount in the currency's smallest unit, as Stripe expects it
+ * (cents for USD, whole yen for JPY)
+ */
+export function toMinorUnits(amount: number, currency: string): number {
+  return Math.round(amount * 10 ** getCurrencyDecimals(currency));
+}
+
+export function fromMinorUnits(amount: number, currency: string): number {
+  return amount / 10 ** getCurrencyDecimals(currency);
+}
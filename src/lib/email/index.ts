@@ -0,0 +1,37 @@
+/**
+ * Transactional Email
+ *
+ * Order lifecycle emails, queued in email_outbox and delivered by the email
+ * cron route through the configured transport.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { EmailOutboxService } from './outbox';
+import type { EmailTemplateName, EnqueueEmailParams } from './types';
+
+export * from './types';
+export { EmailOutboxService, EmailOutboxError, getEmailRetryDelay } from './outbox';
+export { renderEmail, EMAIL_TEMPLATE_CATEGORIES } from './templates';
+export {
+  EMAIL_CATEGORIES,
+  getEmailPreferences,
+  updateEmailPreferences,
+  isEmailCategoryEnabled,
+  type EmailPreferences,
+} from './preferences';
+export { SmtpTransport, FileTransport, ConsoleTransport, getDefaultEmailTransport } from './transports';
+
+/**
+ * Queue an email from a webhook or other side effect; failures are logged
+ * rather than thrown so they never fail the caller
+ */
+export async function queueEmail<T extends EmailTemplateName>(
+  supabase: SupabaseClient,
+  params: EnqueueEmailParams<T>
+): Promise<void> {
+  try {
+    await new EmailOutboxService(supabase).enqueue(params);
+  } catch (error) {
+    console.error(`Error queueing ${params.template} email:`, error);
+  }
+}
@@ -0,0 +1,207 @@
+/**
+ * Transactional Email - Outbox
+ *
+ * Emails are written to email_outbox first and delivered by processBatch()
+ * (run from the email cron route). The idempotency key is unique, so the
+ * same event never queues two emails, and delivery claims rows with a lease
+ * so concurrent runs never send the same entry. Failed sends are retried
+ * with backoff until max_attempts.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { EMAIL_TEMPLATE_CATEGORIES, renderEmail } from './templates';
+import { isEmailCategoryEnabled } from './preferences';
+import { getDefaultEmailTransport } from './transports';
+import type {
+  EmailOutboxEntry,
+  EmailOutboxRunResult,
+  EmailTemplateName,
+  EmailTransport,
+  EnqueueEmailParams,
+  EnqueueEmailResult,
+} from './types';
+
+const RETRY_BASE_DELAY_MS = 60_000;
+const RETRY_MAX_DELAY_MS = 6 * 60 * 60 * 1000;
+const DEFAULT_LEASE_SECONDS = 120;
+
+export class EmailOutboxError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400,
+    public details?: any
+  ) {
+    super(message);
+    this.name = 'EmailOutboxError';
+    Object.setPrototypeOf(this, EmailOutboxError.prototype);
+  }
+}
+
+function mapEntry(row: any): EmailOutboxEntry {
+  return {
+    id: row.id,
+    idempotencyKey: row.idempotency_key,
+    template: row.template,
+    to: row.to_email,
+    userId: row.user_id ?? null,
+    orderId: row.order_id ?? null,
+    data: row.data || {},
+    status: row.status,
+    attempts: row.attempts ?? 0,
+    maxAttempts: row.max_attempts ?? 5,
+    nextAttemptAt: row.next_attempt_at,
+    lastError: row.last_error ?? null,
+    providerMessageId: row.provider_message_id ?? null,
+    sentAt: row.sent_at ?? null,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Delay before retry number `attempt`: 1 min, 2 min, 4 min, ... capped at 6 hours
+ */
+export function getEmailRetryDelay(attempt: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(attempt - 1, 0), RETRY_MAX_DELAY_MS);
+}
+
+export class EmailOutboxService {
+  constructor(
+    private supabase: SupabaseClient,
+    // Only needed for delivery; defaults to the EMAIL_TRANSPORT transport
+    private transport?: EmailTransport
+  ) {}
+
+  /**
+   * Queue an email for an event. Recipients who opted out of the template's
+   * category get a 'skipped' entry, so the event is still recorded once.
+   */
+  async enqueue<T extends EmailTemplateName>(params: EnqueueEmailParams<T>): Promise<EnqueueEmailResult> {
+    if (!params.idempotencyKey) {
+      throw new EmailOutboxError('Idempotency key is required');
+    }
+
+    const recipient = await this.resolveRecipient(params.to, params.userId);
+    if (!recipient) {
+      throw new EmailOutboxError(`No email address for ${params.template} (${params.idempotencyKey})`);
+    }
+
+    const category = EMAIL_TEMPLATE_CATEGORIES[params.template];
+    const enabled = params.userId
+      ? await isEmailCategoryEnabled(this.supabase, params.userId, category)
+      : true;
+
+    const { data, error } = await this.supabase
+      .from('email_outbox')
+      .upsert({
+        idempotency_key: params.idempotencyKey,
+        template: params.template,
+        to_email: recipient,
+        user_id: params.userId ?? null,
+        order_id: params.orderId ?? null,
+        data: params.data,
+        status: enabled ? 'pending' : 'skipped',
+      }, { onConflict: 'idempotency_key', ignoreDuplicates: true })
+      .select('id');
+
+    if (error) {
+      throw new EmailOutboxError('Failed to queue email', 500, error);
+    }
+
+    return { created: (data?.length ?? 0) > 0, skipped: !enabled };
+  }
+
+  /**
+   * Claim due entries and send them
+   */
+  async processBatch(limit: number = 20, leaseSeconds: number = DEFAULT_LEASE_SECONDS): Promise<EmailOutboxRunResult> {
+    const { data, error } = await this.supabase.rpc('claim_email_outbox', {
+      p_limit: limit,
+      p_lease_seconds: leaseSeconds,
+    });
+
+    if (error) {
+      throw new EmailOutboxError('Failed to claim queued emails', 500, error);
+    }
+
+    const entries = ((data as any[]) || []).map(mapEntry);
+    const result: EmailOutboxRunResult = { claimed: entries.length, sent: 0, retried: 0, failed: 0 };
+
+    for (const entry of entries) {
+      const outcome = await this.deliver(entry);
+      result[outcome]++;
+    }
+
+    return result;
+  }
+
+  private async deliver(entry: EmailOutboxEntry): Promise<'sent' | 'retried' | 'failed'> {
+    try {
+      const rendered = renderEmail(entry.template, entry.data as any);
+      this.transport ??= getDefaultEmailTransport();
+      const { messageId } = await this.transport.send({
+        to: entry.to,
+        ...rendered,
+        idempotencyKey: entry.idempotencyKey,
+      });
+
+      await this.updateEntry(entry.id, {
+        status: 'sent',
+        provider_message_id: messageId,
+        sent_at: new Date().toISOString(),
+        last_error: null,
+        locked_until: null,
+      });
+      return 'sent';
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Error sending email ${entry.id} (${entry.template}):`, error);
+
+      // attempts already counts this claim
+      if (entry.attempts < entry.maxAttempts) {
+        await this.updateEntry(entry.id, {
+          status: 'pending',
+          next_attempt_at: new Date(Date.now() + getEmailRetryDelay(entry.attempts)).toISOString(),
+          last_error: message,
+          locked_until: null,
+        });
+        return 'retried';
+      }
+
+      await this.updateEntry(entry.id, {
+        status: 'failed',
+        last_error: message,
+        locked_until: null,
+      });
+      return 'failed';
+    }
+  }
+
+  private async updateEntry(id: string, fields: Record<string, unknown>): Promise<void> {
+    const { error } = await this.supabase
+      .from('email_outbox')
+      .update(fields)
+      .eq('id', id);
+
+    if (error) {
+      // The lease runs out and the entry is picked up again
+      console.error(`Error updating email outbox entry ${id}:`, error);
+    }
+  }
+
+  private async resolveRecipient(to?: string | null, userId?: string | null): Promise<string | null> {
+    if (to) {
+      return to;
+    }
+    if (!userId) {
+      return null;
+    }
+
+    const { data } = await this.supabase
+      .from('profiles')
+      .select('email')
+      .eq('id', userId)
+      .maybeSingle();
+
+    return (data as { email?: string | null } | null)?.email || null;
+  }
+}
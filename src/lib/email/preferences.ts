@@ -0,0 +1,103 @@
+/**
+ * Transactional Email - Preferences
+ *
+ * Per-user opt-outs stored in profiles.email_preferences as
+ * `{ "<category>": false }`. Categories missing from the object are enabled.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { EmailCategory } from './types';
+
+export type EmailPreferences = Record<EmailCategory, boolean>;
+
+export const EMAIL_CATEGORIES: Array<{ id: EmailCategory; label: string; description: string }> = [
+  {
+    id: 'order_receipts',
+    label: 'Order confirmations',
+    description: 'A receipt when you place an order',
+  },
+  {
+    id: 'production_updates',
+    label: 'Production updates',
+    description: 'When your prints go into production',
+  },
+  {
+    id: 'shipping_updates',
+    label: 'Shipping updates',
+    description: 'Tracking details when your order ships, and when it is delivered',
+  },
+  {
+    id: 'billing',
+    label: 'Payments and refunds',
+    description: 'Failed payments and refunds',
+  },
+];
+
+const DEFAULT_PREFERENCES = Object.fromEntries(
+  EMAIL_CATEGORIES.map(category => [category.id, true])
+) as EmailPreferences;
+
+function normalizePreferences(stored: unknown): EmailPreferences {
+  const preferences = { ...DEFAULT_PREFERENCES };
+  if (stored && typeof stored === 'object') {
+    for (const category of EMAIL_CATEGORIES) {
+      const value = (stored as Record<string, unknown>)[category.id];
+      if (typeof value === 'boolean') {
+        preferences[category.id] = value;
+      }
+    }
+  }
+  return preferences;
+}
+
+export async function getEmailPreferences(supabase: SupabaseClient, userId: string): Promise<EmailPreferences> {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('email_preferences')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch email preferences: ${error.message}`);
+  }
+
+  return normalizePreferences((data as { email_preferences?: unknown } | null)?.email_preferences);
+}
+
+export async function updateEmailPreferences(
+  supabase: SupabaseClient,
+  userId: string,
+  updates: Partial<EmailPreferences>
+): Promise<EmailPreferences> {
+  const current = await getEmailPreferences(supabase, userId);
+  const preferences = normalizePreferences({ ...current, ...updates });
+
+  const { error } = await supabase
+    .from('profiles')
+    .update({ email_preferences: preferences })
+    .eq('id', userId);
+
+  if (error) {
+    throw new Error(`Failed to update email preferences: ${error.message}`);
+  }
+
+  return preferences;
+}
+
+/**
+ * Whether the user still receives emails in this category. Errors count as
+ * enabled: a missed opt-out is better than a missed receipt.
+ */
+export async function isEmailCategoryEnabled(
+  supabase: SupabaseClient,
+  userId: string,
+  category: EmailCategory
+): Promise<boolean> {
+  try {
+    const preferences = await getEmailPreferences(supabase, userId);
+    return preferences[category];
+  } catch (error) {
+    console.error('Error checking email preferences:', error);
+    return true;
+  }
+}
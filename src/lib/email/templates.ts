@@ -0,0 +1,217 @@
+/**
+ * Transactional Email - Templates
+ *
+ * Each template renders a subject plus HTML and plain-text bodies from the
+ * data stored with the outbox entry. All interpolated values are escaped.
+ */
+
+import { getCurrencyDecimals } from '@/lib/currency';
+import type {
+  EmailCategory,
+  EmailTemplateData,
+  EmailTemplateName,
+  RenderedEmail,
+} from './types';
+
+export const EMAIL_TEMPLATE_CATEGORIES: Record<EmailTemplateName, EmailCategory> = {
+  order_confirmation: 'order_receipts',
+  order_in_production: 'production_updates',
+  order_shipped: 'shipping_updates',
+  order_delivered: 'shipping_updates',
+  refund_issued: 'billing',
+  payment_failed: 'billing',
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function formatMoney(amount: number, currency: string): string {
+  const decimals = getCurrencyDecimals(currency);
+  try {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: currency.toUpperCase(),
+      minimumFractionDigits: decimals,
+      maximumFractionDigits: decimals,
+    }).format(amount);
+  } catch {
+    return `${amount.toFixed(decimals)} ${currency.toUpperCase()}`;
+  }
+}
+
+function appUrl(pathname: string): string {
+  const base = (process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000').replace(/\/$/, '');
+  return `${base}${pathname}`;
+}
+
+function greeting(name?: string | null): string {
+  return name ? `Hi ${name},` : 'Hi,';
+}
+
+interface Section {
+  /** Trusted HTML; interpolate values with escapeHtml */
+  html: string;
+  text: string;
+}
+
+/**
+ * Shared layout: heading, paragraphs and an optional call to action
+ */
+function layout(
+  subject: string,
+  heading: string,
+  sections: Section[],
+  action?: { label: string; url: string }
+): RenderedEmail {
+  const actionHtml = action
+    ? `<p style="margin:24px 0"><a href="${escapeHtml(action.url)}" style="background:#111827;color:#ffffff;padding:12px 20px;border-radius:6px;text-decoration:none">${escapeHtml(action.label)}</a></p>`
+    : '';
+
+  const html = `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:0;background:#f9fafb;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,sans-serif;color:#111827">
+    <div style="max-width:560px;margin:0 auto;padding:32px 24px;background:#ffffff">
+      <h1 style="font-size:22px;margin:0 0 16px">${escapeHtml(heading)}</h1>
+      ${sections.map(section => section.html).join('\n      ')}
+      ${actionHtml}
+      <p style="font-size:12px;color:#6b7280;margin-top:32px">
+        Art Framer &middot; <a href="${escapeHtml(appUrl('/settings/notifications'))}" style="color:#6b7280">Email preferences</a>
+      </p>
+    </div>
+  </body>
+</html>`;
+
+  const text = [
+    heading,
+    '',
+    ...sections.map(section => section.text),
+    ...(action ? ['', `${action.label}: ${action.url}`] : []),
+    '',
+    `Email preferences: ${appUrl('/settings/notifications')}`,
+  ].join('\n');
+
+  return { subject, html, text };
+}
+
+function paragraph(text: string): Section {
+  return { html: `<p style="margin:0 0 12px;line-height:1.5">${escapeHtml(text)}</p>`, text };
+}
+
+// ============================================================================
+// TEMPLATES
+// ============================================================================
+
+type TemplateRenderer<T extends EmailTemplateName> = (data: EmailTemplateData[T]) => RenderedEmail;
+
+const templates: { [T in EmailTemplateName]: TemplateRenderer<T> } = {
+  order_confirmation: (data) => {
+    const money = (amount: number) => formatMoney(amount, data.currency);
+    const rows = data.items.map(item => ({
+      label: `${item.quantity} × ${item.name}`,
+      amount: money(item.unitPrice * item.quantity),
+    }));
+    const totals = [
+      { label: 'Subtotal', amount: money(data.subtotal) },
+      ...(data.discount ? [{ label: 'Discount', amount: `-${money(data.discount)}` }] : []),
+      { label: 'Shipping', amount: money(data.shipping) },
+      { label: 'Tax', amount: money(data.tax) },
+      { label: 'Total', amount: money(data.total) },
+    ];
+    const tableRows = [...rows, ...totals]
+      .map(row => `<tr><td style="padding:4px 0">${escapeHtml(row.label)}</td><td style="padding:4px 0;text-align:right">${escapeHtml(row.amount)}</td></tr>`)
+      .join('');
+
+    return layout(
+      `Order confirmed: ${data.orderNumber}`,
+      'Thanks for your order!',
+      [
+        paragraph(greeting(data.customerName)),
+        paragraph(`We've received order ${data.orderNumber} and will start printing it shortly.`),
+        {
+          html: `<table style="width:100%;border-collapse:collapse;margin:16px 0">${tableRows}</table>`,
+          text: [...rows, ...totals].map(row => `${row.label}: ${row.amount}`).join('\n'),
+        },
+      ],
+      { label: 'View your order', url: appUrl('/orders') }
+    );
+  },
+
+  order_in_production: (data) => layout(
+    `Your order ${data.orderNumber} is in production`,
+    'Your prints are in production',
+    [
+      paragraph(greeting(data.customerName)),
+      paragraph(`Order ${data.orderNumber} is being printed and framed. We'll email you the tracking details as soon as it ships.`),
+    ],
+    { label: 'View your order', url: appUrl('/orders') }
+  ),
+
+  order_shipped: (data) => layout(
+    `Your order ${data.orderNumber} has shipped`,
+    'Your order is on its way',
+    [
+      paragraph(greeting(data.customerName)),
+      paragraph(`Order ${data.orderNumber} has shipped${data.carrier ? ` with ${data.carrier}` : ''}.`),
+      ...(data.trackingNumber ? [paragraph(`Tracking number: ${data.trackingNumber}`)] : []),
+    ],
+    data.trackingUrl
+      ? { label: 'Track your package', url: data.trackingUrl }
+      : { label: 'View your order', url: appUrl('/orders') }
+  ),
+
+  order_delivered: (data) => layout(
+    `Your order ${data.orderNumber} has been delivered`,
+    'Your order has arrived',
+    [
+      paragraph(greeting(data.customerName)),
+      paragraph(`Order ${data.orderNumber} has been delivered. We hope you love your new art!`),
+      paragraph('If anything arrived damaged, reply to this email and we will make it right.'),
+    ],
+    { label: 'Review your prints', url: appUrl('/orders') }
+  ),
+
+  refund_issued: (data) => layout(
+    `Refund issued for order ${data.orderNumber}`,
+    data.partial ? 'A partial refund is on its way' : 'Your refund is on its way',
+    [
+      paragraph(greeting(data.customerName)),
+      paragraph(`We've refunded ${formatMoney(data.amount, data.currency)} for order ${data.orderNumber}.`),
+      paragraph('Refunds usually appear on your statement within 5-10 business days.'),
+    ],
+    { label: 'View your order', url: appUrl('/orders') }
+  ),
+
+  payment_failed: (data) => layout(
+    data.orderNumber ? `Payment failed for order ${data.orderNumber}` : 'Your payment did not go through',
+    'Your payment did not go through',
+    [
+      paragraph(greeting(data.customerName)),
+      paragraph(
+        data.amount && data.currency
+          ? `We couldn't take the payment of ${formatMoney(data.amount, data.currency)}${data.orderNumber ? ` for order ${data.orderNumber}` : ''}.`
+          : `We couldn't take your payment${data.orderNumber ? ` for order ${data.orderNumber}` : ''}.`
+      ),
+      ...(data.reason ? [paragraph(`Reason: ${data.reason}`)] : []),
+      paragraph('Your cart has been kept, so you can check out again with another payment method.'),
+    ],
+    { label: 'Return to your cart', url: appUrl('/cart') }
+  ),
+};
+
+export function renderEmail<T extends EmailTemplateName>(template: T, data: EmailTemplateData[T]): RenderedEmail {
+  const render = templates[template] as TemplateRenderer<T> | undefined;
+  if (!render) {
+    throw new Error(`Unknown email template: ${template}`);
+  }
+  return render(data);
+}
@@ -0,0 +1,140 @@
+/**
+ * Transactional Email - Transports
+ *
+ * SMTP for production; file and console transports for development and
+ * tests, selected with EMAIL_TRANSPORT (smtp | file | console).
+ */
+
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { EmailMessage, EmailSendResult, EmailTransport } from './types';
+
+export interface SmtpTransportConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+}
+
+// ============================================================================
+// SMTP
+// ============================================================================
+
+export class SmtpTransport implements EmailTransport {
+  readonly name = 'smtp';
+  private transporter: import('nodemailer').Transporter | null = null;
+
+  constructor(private config: SmtpTransportConfig) {}
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const transporter = await this.getTransporter();
+    const info = await transporter.sendMail({
+      from: this.config.from,
+      to: message.to,
+      subject: message.subject,
+      html: message.html,
+      text: message.text,
+      headers: message.idempotencyKey
+        ? { 'X-Idempotency-Key': message.idempotencyKey }
+        : undefined,
+    });
+
+    return { messageId: info.messageId };
+  }
+
+  private async getTransporter() {
+    if (!this.transporter) {
+      // Loaded on first send so routes that only enqueue don't pull in nodemailer
+      const nodemailer = await import('nodemailer');
+      this.transporter = nodemailer.createTransport({
+        host: this.config.host,
+        port: this.config.port,
+        secure: this.config.secure,
+        auth: this.config.user
+          ? { user: this.config.user, pass: this.config.password }
+          : undefined,
+      });
+    }
+    return this.transporter;
+  }
+}
+
+// ============================================================================
+// FILE & CONSOLE
+// ============================================================================
+
+/**
+ * Writes each email to `<directory>/<timestamp>-<id>.json` (with an .html
+ * alongside) so rendered emails can be opened locally
+ */
+export class FileTransport implements EmailTransport {
+  readonly name = 'file';
+
+  constructor(private directory: string) {}
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const messageId = `file-${randomUUID()}`;
+    const basename = `${new Date().toISOString().replace(/[:.]/g, '-')}-${messageId}`;
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(
+      path.join(this.directory, `${basename}.json`),
+      JSON.stringify({ messageId, ...message }, null, 2)
+    );
+    await fs.writeFile(path.join(this.directory, `${basename}.html`), message.html);
+
+    return { messageId };
+  }
+}
+
+export class ConsoleTransport implements EmailTransport {
+  readonly name = 'console';
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const messageId = `console-${randomUUID()}`;
+    console.log(`📧 Email to ${message.to}: ${message.subject}\n${message.text}`);
+    return { messageId };
+  }
+}
+
+// ============================================================================
+// DEFAULT TRANSPORT
+// ============================================================================
+
+let defaultTransport: EmailTransport | null = null;
+
+export function getDefaultEmailTransport(): EmailTransport {
+  if (defaultTransport) {
+    return defaultTransport;
+  }
+
+  const kind = process.env.EMAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'console');
+  switch (kind) {
+    case 'smtp':
+      if (!process.env.SMTP_HOST) {
+        throw new Error('SMTP_HOST is required when EMAIL_TRANSPORT=smtp');
+      }
+      defaultTransport = new SmtpTransport({
+        host: process.env.SMTP_HOST,
+        port: Number(process.env.SMTP_PORT || 587),
+        secure: process.env.SMTP_SECURE === 'true',
+        user: process.env.SMTP_USER,
+        password: process.env.SMTP_PASSWORD,
+        from: process.env.EMAIL_FROM || 'Art Framer <orders@artframer.com>',
+      });
+      break;
+    case 'file':
+      defaultTransport = new FileTransport(process.env.EMAIL_FILE_DIR || path.join(process.cwd(), '.emails'));
+      break;
+    case 'console':
+      defaultTransport = new ConsoleTransport();
+      break;
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT: ${kind}`);
+  }
+
+  return defaultTransport;
+}
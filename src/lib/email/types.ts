@@ -0,0 +1,157 @@
+/**
+ * Transactional Email - Types
+ */
+
+// ============================================================================
+// MESSAGES & TRANSPORTS
+// ============================================================================
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  /** Sent as a header so duplicate deliveries can be recognized */
+  idempotencyKey?: string;
+}
+
+export interface EmailSendResult {
+  messageId: string;
+}
+
+/**
+ * Delivers rendered emails; SMTP in production, file or console locally
+ */
+export interface EmailTransport {
+  readonly name: string;
+  send(message: EmailMessage): Promise<EmailSendResult>;
+}
+
+// ============================================================================
+// TEMPLATES
+// ============================================================================
+
+export type EmailTemplateName =
+  | 'order_confirmation'
+  | 'order_in_production'
+  | 'order_shipped'
+  | 'order_delivered'
+  | 'refund_issued'
+  | 'payment_failed';
+
+/**
+ * Groups of emails a customer can opt out of, stored in profiles.email_preferences
+ */
+export type EmailCategory = 'order_receipts' | 'production_updates' | 'shipping_updates' | 'billing';
+
+export interface OrderEmailItem {
+  name: string;
+  quantity: number;
+  unitPrice: number;
+}
+
+interface OrderEmailBase {
+  orderNumber: string;
+  customerName?: string | null;
+}
+
+export interface OrderConfirmationEmailData extends OrderEmailBase {
+  items: OrderEmailItem[];
+  subtotal: number;
+  shipping: number;
+  tax: number;
+  discount?: number;
+  total: number;
+  currency: string;
+}
+
+export type OrderInProductionEmailData = OrderEmailBase;
+
+export interface OrderShippedEmailData extends OrderEmailBase {
+  carrier?: string | null;
+  trackingNumber?: string | null;
+  trackingUrl?: string | null;
+}
+
+export type OrderDeliveredEmailData = OrderEmailBase;
+
+export interface RefundIssuedEmailData extends OrderEmailBase {
+  amount: number;
+  currency: string;
+  /** True when only part of the order total was refunded */
+  partial?: boolean;
+}
+
+export interface PaymentFailedEmailData {
+  orderNumber?: string | null;
+  customerName?: string | null;
+  amount?: number | null;
+  currency?: string | null;
+  reason?: string | null;
+}
+
+export interface EmailTemplateData {
+  order_confirmation: OrderConfirmationEmailData;
+  order_in_production: OrderInProductionEmailData;
+  order_shipped: OrderShippedEmailData;
+  order_delivered: OrderDeliveredEmailData;
+  refund_issued: RefundIssuedEmailData;
+  payment_failed: PaymentFailedEmailData;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+// ============================================================================
+// OUTBOX
+// ============================================================================
+
+export type EmailOutboxStatus = 'pending' | 'sending' | 'sent' | 'failed' | 'skipped';
+
+export interface EnqueueEmailParams<T extends EmailTemplateName = EmailTemplateName> {
+  template: T;
+  data: EmailTemplateData[T];
+  /**
+   * Identifies the event the email is about (e.g. `order_shipped:<orderId>:<shipmentId>`);
+   * enqueueing the same key again is a no-op
+   */
+  idempotencyKey: string;
+  to?: string | null;
+  userId?: string | null;
+  orderId?: string | null;
+}
+
+export interface EmailOutboxEntry {
+  id: string;
+  idempotencyKey: string;
+  template: EmailTemplateName;
+  to: string;
+  userId: string | null;
+  orderId: string | null;
+  data: Record<string, unknown>;
+  status: EmailOutboxStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: string;
+  lastError: string | null;
+  providerMessageId: string | null;
+  sentAt: string | null;
+  createdAt: string;
+}
+
+export interface EnqueueEmailResult {
+  /** False when the key was already enqueued */
+  created: boolean;
+  /** Set when the recipient opted out of this category */
+  skipped: boolean;
+}
+
+export interface EmailOutboxRunResult {
+  claimed: number;
+  sent: number;
+  retried: number;
+  failed: number;
+}
@@ -0,0 +1,22 @@
+/**
+ * Image Generation
+ *
+ * Provider-neutral text-to-image generation. Requests and results use the
+ * normalized types in ./types; each provider declares its capabilities
+ * (models, aspect ratios, styles, seeds, negative prompts, reference images)
+ * and requests are checked against them before the provider sees them.
+ * Server-only: client code imports from '@/lib/image-generation/types'.
+ */
+
+export * from './types';
+export {
+  getImageGenerationProvider,
+  describeImageGenerationProvider,
+  isImageGenerationProviderId,
+  IdeogramProvider,
+  IDEOGRAM_CAPABILITIES,
+  LocalProvider,
+  LOCAL_CAPABILITIES,
+  getLocalImageSize,
+} from './providers';
+export { ImageGenerationService, ImageGenerationError, normalizeGenerationRequest } from './service';
@@ -0,0 +1,109 @@
+/**
+ * Image Generation - Ideogram provider
+ *
+ * Calls Ideogram's v3 generate endpoint directly with the server's API key.
+ * Normalized values are mapped onto Ideogram's: upper case styles and
+ * palettes, TURBO/DEFAULT/QUALITY speeds, and reference images uploaded as
+ * files.
+ */
+
+import type {
+  GeneratedImage,
+  GenerationSpeed,
+  ImageGenerationCapabilities,
+  ImageGenerationProvider,
+  ImageGenerationRequest,
+  ImageGenerationResult,
+} from '../types';
+
+const IDEOGRAM_API_URL = 'https://api.ideogram.ai';
+
+const SPEEDS: Record<GenerationSpeed, string> = {
+  fast: 'TURBO',
+  balanced: 'DEFAULT',
+  quality: 'QUALITY',
+};
+
+export const IDEOGRAM_CAPABILITIES: ImageGenerationCapabilities = {
+  models: ['V_3'],
+  defaultModel: 'V_3',
+  aspectRatios: [
+    '1x1', '16x9', '9x16', '4x3', '3x4', '3x2', '2x3', '1x3', '3x1',
+    '10x16', '16x10', '1x2', '2x1', '4x5', '5x4',
+  ],
+  styles: ['auto', 'general', 'realistic', 'design', 'fiction'],
+  colorPalettes: ['ember', 'fresh', 'jungle', 'magic', 'melon', 'mosaic', 'pastel', 'ultramarine'],
+  speeds: ['fast', 'balanced', 'quality'],
+  maxImages: 8,
+  seeds: true,
+  negativePrompts: true,
+  referenceImages: true,
+};
+
+/**
+ * "1024x1536" from Ideogram's resolution field
+ */
+function parseResolution(resolution: unknown): { width: number; height: number } {
+  const match = typeof resolution === 'string' ? resolution.match(/^(\d+)x(\d+)$/) : null;
+  return match
+    ? { width: Number(match[1]), height: Number(match[2]) }
+    : { width: 1024, height: 1024 };
+}
+
+export class IdeogramProvider implements ImageGenerationProvider {
+  readonly id = 'ideogram' as const;
+  readonly name = 'Ideogram';
+  readonly capabilities = IDEOGRAM_CAPABILITIES;
+
+  constructor(private apiKey: string = process.env.IDEOGRAM_API_KEY || '') {}
+
+  async generate(request: ImageGenerationRequest): Promise<ImageGenerationResult> {
+    if (!this.apiKey) {
+      throw new Error('IDEOGRAM_API_KEY is not configured');
+    }
+
+    const formData = new FormData();
+    formData.append('prompt', request.prompt);
+    formData.append('aspect_ratio', request.aspectRatio);
+    formData.append('num_images', request.numImages.toString());
+    formData.append('magic_prompt', 'AUTO');
+
+    if (request.speed) formData.append('rendering_speed', SPEEDS[request.speed]);
+    if (request.style) formData.append('style_type', request.style.toUpperCase());
+    if (request.negativePrompt) formData.append('negative_prompt', request.negativePrompt);
+    if (request.seed !== undefined) formData.append('seed', request.seed.toString());
+    if (request.colorPalette) {
+      formData.append('color_palette', JSON.stringify({ name: request.colorPalette.toUpperCase() }));
+    }
+
+    for (const [index, imageUrl] of (request.referenceImages || []).entries()) {
+      const response = await fetch(imageUrl);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch reference image ${index + 1}: ${response.status}`);
+      }
+      const blob = await response.blob();
+      formData.append('character_reference_images', blob, `reference_image_${index}.jpg`);
+    }
+
+    const response = await fetch(`${IDEOGRAM_API_URL}/v1/ideogram-v3/generate`, {
+      method: 'POST',
+      headers: { 'Api-Key': this.apiKey },
+      body: formData,
+    });
+
+    if (!response.ok) {
+      const details = await response.text().catch(() => '');
+      throw new Error(`Ideogram API error ${response.status}: ${details}`);
+    }
+
+    const data = await response.json();
+    // Images that fail Ideogram's safety check come back without a URL
+    const images: GeneratedImage[] = (data.data || []).filter((image: any) => image.url).map((image: any) => ({
+      url: image.url,
+      ...parseResolution(image.resolution),
+      seed: typeof image.seed === 'number' ? image.seed : null,
+    }));
+
+    return { provider: this.id, model: this.capabilities.defaultModel, images };
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Image Generation - Providers
+ *
+ * IMAGE_GENERATION_PROVIDER picks the provider: ideogram (default) or local,
+ * the deterministic placeholder for development and tests.
+ */
+
+import type { ImageGenerationProvider, ImageGenerationProviderId } from '../types';
+import { IdeogramProvider } from './ideogram';
+import { LocalProvider } from './local';
+
+export { IdeogramProvider, IDEOGRAM_CAPABILITIES } from './ideogram';
+export { LocalProvider, LOCAL_CAPABILITIES, getLocalImageSize } from './local';
+
+const PROVIDERS: Record<ImageGenerationProviderId, () => ImageGenerationProvider> = {
+  ideogram: () => new IdeogramProvider(),
+  local: () => new LocalProvider(),
+};
+
+export function isImageGenerationProviderId(value: unknown): value is ImageGenerationProviderId {
+  return typeof value === 'string' && value in PROVIDERS;
+}
+
+export function getImageGenerationProvider(
+  id: string = process.env.IMAGE_GENERATION_PROVIDER || 'ideogram'
+): ImageGenerationProvider {
+  if (!isImageGenerationProviderId(id)) {
+    throw new Error(`Unknown image generation provider: ${id}`);
+  }
+  return PROVIDERS[id]();
+}
+
+/**
+ * Plain-text summary of what a provider supports, for agent system prompts
+ */
+export function describeImageGenerationProvider(
+  provider: ImageGenerationProvider = getImageGenerationProvider()
+): string {
+  const { capabilities } = provider;
+  const yesNo = (supported: boolean) => (supported ? 'supported' : 'not supported');
+
+  return [
+    `Provider: ${provider.name} (model ${capabilities.defaultModel})`,
+    `Aspect ratios (width x height): ${capabilities.aspectRatios.join(', ')}`,
+    `Styles: ${capabilities.styles.length > 0 ? capabilities.styles.join(', ') : 'none'}`,
+    `Color palettes: ${capabilities.colorPalettes.length > 0 ? capabilities.colorPalettes.join(', ') : 'none'}`,
+    `Images per generation: 1-${capabilities.maxImages}`,
+    `Negative prompts: ${yesNo(capabilities.negativePrompts)}`,
+    `Seeds: ${yesNo(capabilities.seeds)}`,
+    `Reference images: ${yesNo(capabilities.referenceImages)}`,
+  ].join('\n');
+}
@@ -0,0 +1,88 @@
+/**
+ * Image Generation - Local provider
+ *
+ * A deterministic stand-in for development and tests: renders a placeholder
+ * JPEG per image, coloured from a hash of the prompt and seed and labelled
+ * with the prompt, and returns it as a data URL. The same request always
+ * produces the same images, and nothing leaves the machine.
+ */
+
+import { createHash } from 'crypto';
+import sharp from 'sharp';
+import type {
+  GeneratedImage,
+  ImageGenerationCapabilities,
+  ImageGenerationProvider,
+  ImageGenerationRequest,
+  ImageGenerationResult,
+} from '../types';
+import { IDEOGRAM_CAPABILITIES } from './ideogram';
+
+/** Long side of the rendered placeholders */
+const IMAGE_SIZE = 1024;
+
+export const LOCAL_CAPABILITIES: ImageGenerationCapabilities = {
+  ...IDEOGRAM_CAPABILITIES,
+  models: ['local-v1'],
+  defaultModel: 'local-v1',
+};
+
+function hash(value: string): number {
+  return createHash('sha256').update(value).digest().readUInt32BE(0);
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/[<>&'"]/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+/**
+ * Placeholder dimensions for a "WxH" aspect ratio
+ */
+export function getLocalImageSize(aspectRatio: string): { width: number; height: number } {
+  const [w, h] = aspectRatio.split('x').map(Number);
+  if (!w || !h) return { width: IMAGE_SIZE, height: IMAGE_SIZE };
+
+  return w >= h
+    ? { width: IMAGE_SIZE, height: Math.round((IMAGE_SIZE * h) / w) }
+    : { width: Math.round((IMAGE_SIZE * w) / h), height: IMAGE_SIZE };
+}
+
+export class LocalProvider implements ImageGenerationProvider {
+  readonly id = 'local' as const;
+  readonly name = 'Local placeholder';
+  readonly capabilities = LOCAL_CAPABILITIES;
+
+  async generate(request: ImageGenerationRequest): Promise<ImageGenerationResult> {
+    const { width, height } = getLocalImageSize(request.aspectRatio);
+    const baseSeed = request.seed ?? hash(`${request.prompt}|${request.style || ''}|${request.colorPalette || ''}`);
+
+    const images: GeneratedImage[] = [];
+    for (let index = 0; index < request.numImages; index++) {
+      const seed = (baseSeed + index) >>> 0;
+      const hue = hash(`${seed}`) % 360;
+      const label = escapeXml(request.prompt.slice(0, 60));
+
+      const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+  <defs>
+    <linearGradient id="g" x1="0" y1="0" x2="1" y2="1">
+      <stop offset="0" stop-color="hsl(${hue}, 60%, 65%)"/>
+      <stop offset="1" stop-color="hsl(${(hue + 60) % 360}, 60%, 35%)"/>
+    </linearGradient>
+  </defs>
+  <rect width="100%" height="100%" fill="url(#g)"/>
+  <text x="50%" y="50%" font-family="sans-serif" font-size="${Math.round(width / 24)}" fill="white" text-anchor="middle">${label}</text>
+  <text x="50%" y="58%" font-family="sans-serif" font-size="${Math.round(width / 40)}" fill="white" text-anchor="middle" opacity="0.7">seed ${seed}</text>
+</svg>`;
+
+      const jpeg = await sharp(Buffer.from(svg)).jpeg({ quality: 80 }).toBuffer();
+      images.push({
+        url: `data:image/jpeg;base64,${jpeg.toString('base64')}`,
+        width,
+        height,
+        seed,
+      });
+    }
+
+    return { provider: this.id, model: request.model || this.capabilities.defaultModel, images };
+  }
+}
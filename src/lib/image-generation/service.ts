@@ -0,0 +1,261 @@
+/**
+ * Image Generation - Service
+ *
+ * Runs generations through the configured provider and records each one in
+ * user_generations, tagged with the provider and model, so galleries and
+ * history don't depend on which backend produced an image. Credits are spent
+ * before the provider is called and refunded when it fails.
+ */
+
+import { randomUUID } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { CreditService, type CreditLedgerEntry } from '@/lib/credits';
+import type {
+  GenerationRecord,
+  ImageGenerationCapabilities,
+  ImageGenerationProvider,
+  ImageGenerationRequest,
+} from './types';
+import { getImageGenerationProvider } from './providers';
+
+const MAX_PROMPT_LENGTH = 2000;
+const MAX_REFERENCE_IMAGES = 4;
+const MAX_SEED = 2147483647;
+
+export class ImageGenerationError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400,
+    public details?: any
+  ) {
+    super(message);
+    this.name = 'ImageGenerationError';
+    Object.setPrototypeOf(this, ImageGenerationError.prototype);
+  }
+}
+
+function unsupported(field: string, value: unknown, supported?: unknown[]): ImageGenerationError {
+  return new ImageGenerationError(`Unsupported ${field}: ${String(value)}`, 400, { field, supported });
+}
+
+/**
+ * Check a request body against a provider's capabilities and fill in its
+ * defaults. Throws an ImageGenerationError naming the offending field.
+ */
+export function normalizeGenerationRequest(
+  input: any,
+  capabilities: ImageGenerationCapabilities
+): ImageGenerationRequest {
+  const prompt = typeof input?.prompt === 'string' ? input.prompt.trim() : '';
+  if (!prompt) {
+    throw new ImageGenerationError('Prompt is required', 400, { field: 'prompt' });
+  }
+  if (prompt.length > MAX_PROMPT_LENGTH) {
+    throw new ImageGenerationError(`Prompt must be at most ${MAX_PROMPT_LENGTH} characters`, 400, { field: 'prompt' });
+  }
+
+  const aspectRatio = input.aspectRatio ?? '1x1';
+  if (!capabilities.aspectRatios.includes(aspectRatio)) {
+    throw unsupported('aspect ratio', aspectRatio, capabilities.aspectRatios);
+  }
+
+  const numImages = input.numImages ?? 1;
+  if (!Number.isInteger(numImages) || numImages < 1 || numImages > capabilities.maxImages) {
+    throw new ImageGenerationError(
+      `Number of images must be between 1 and ${capabilities.maxImages}`,
+      400,
+      { field: 'numImages' }
+    );
+  }
+
+  const model = input.model ?? capabilities.defaultModel;
+  if (!capabilities.models.includes(model)) {
+    throw unsupported('model', model, capabilities.models);
+  }
+
+  const request: ImageGenerationRequest = { prompt, aspectRatio, numImages, model };
+
+  if (input.style != null) {
+    const style = String(input.style).toLowerCase();
+    if (!capabilities.styles.includes(style)) throw unsupported('style', input.style, capabilities.styles);
+    request.style = style;
+  }
+
+  if (input.colorPalette != null) {
+    const colorPalette = String(input.colorPalette).toLowerCase();
+    if (!capabilities.colorPalettes.includes(colorPalette)) {
+      throw unsupported('color palette', input.colorPalette, capabilities.colorPalettes);
+    }
+    request.colorPalette = colorPalette;
+  }
+
+  if (input.speed != null) {
+    if (!capabilities.speeds.includes(input.speed)) throw unsupported('speed', input.speed, capabilities.speeds);
+    request.speed = input.speed;
+  }
+
+  if (input.seed != null) {
+    if (!capabilities.seeds) throw unsupported('option', 'seed');
+    if (!Number.isInteger(input.seed) || input.seed < 0 || input.seed > MAX_SEED) {
+      throw new ImageGenerationError(`Seed must be an integer between 0 and ${MAX_SEED}`, 400, { field: 'seed' });
+    }
+    request.seed = input.seed;
+  }
+
+  if (typeof input.negativePrompt === 'string' && input.negativePrompt.trim()) {
+    if (!capabilities.negativePrompts) throw unsupported('option', 'negativePrompt');
+    request.negativePrompt = input.negativePrompt.trim();
+  }
+
+  if (Array.isArray(input.referenceImages) && input.referenceImages.length > 0) {
+    if (!capabilities.referenceImages) throw unsupported('option', 'referenceImages');
+    const urls = input.referenceImages.filter(
+      (url: unknown) => typeof url === 'string' && /^(https?:\/\/|data:image\/)/.test(url)
+    );
+    if (urls.length !== input.referenceImages.length || urls.length > MAX_REFERENCE_IMAGES) {
+      throw new ImageGenerationError(
+        `Reference images must be up to ${MAX_REFERENCE_IMAGES} http(s) or image data URLs`,
+        400,
+        { field: 'referenceImages' }
+      );
+    }
+    request.referenceImages = urls;
+  }
+
+  return request;
+}
+
+function mapRecord(row: any): GenerationRecord {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    provider: row.provider,
+    model: row.model ?? null,
+    prompt: row.prompt,
+    request: row.settings || {},
+    status: row.status,
+    images: row.result?.images || [],
+    error: row.error ?? null,
+    createdAt: row.created_at,
+    completedAt: row.completed_at ?? null,
+  };
+}
+
+export class ImageGenerationService {
+  private provider: ImageGenerationProvider;
+  private credits: CreditService;
+
+  constructor(
+    private supabase: SupabaseClient,
+    provider?: ImageGenerationProvider,
+    credits?: CreditService
+  ) {
+    this.provider = provider || getImageGenerationProvider();
+    this.credits = credits || new CreditService(supabase);
+  }
+
+  /**
+   * Generate images for a user: one credit per image, spent up front and
+   * refunded if the provider fails or returns nothing
+   */
+  async generate(userId: string, input: unknown): Promise<GenerationRecord> {
+    const request = normalizeGenerationRequest(input, this.provider.capabilities);
+    const generationId = randomUUID();
+
+    const spend = await this.credits.spend(userId, request.numImages, `generation:${generationId}`, {
+      provider: this.provider.id,
+      model: request.model,
+    });
+
+    const { error: insertError } = await this.supabase
+      .from('user_generations')
+      .insert({
+        id: generationId,
+        user_id: userId,
+        prompt: request.prompt,
+        settings: request,
+        status: 'generating',
+        provider: this.provider.id,
+        model: request.model,
+      });
+
+    if (insertError) {
+      await this.refund(spend, 'Failed to record generation');
+      throw new ImageGenerationError('Failed to start generation', 500, insertError);
+    }
+
+    try {
+      const result = await this.provider.generate(request);
+      if (result.images.length === 0) {
+        throw new Error('The provider returned no images');
+      }
+
+      const { data, error } = await this.supabase
+        .from('user_generations')
+        .update({
+          status: 'completed',
+          model: result.model,
+          result: { images: result.images },
+          completed_at: new Date().toISOString(),
+        })
+        .eq('id', generationId)
+        .select()
+        .single();
+
+      if (error) {
+        // The images exist; losing the record only costs history
+        console.error('Error recording completed generation:', error);
+      }
+
+      return data
+        ? mapRecord(data)
+        : {
+            id: generationId,
+            userId,
+            provider: this.provider.id,
+            model: result.model,
+            prompt: request.prompt,
+            request,
+            status: 'completed',
+            images: result.images,
+            error: null,
+            createdAt: new Date().toISOString(),
+            completedAt: new Date().toISOString(),
+          };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`${this.provider.name} generation failed:`, error);
+
+      await this.supabase
+        .from('user_generations')
+        .update({ status: 'failed', error: message, completed_at: new Date().toISOString() })
+        .eq('id', generationId);
+      await this.refund(spend, `${this.provider.id} generation failed`);
+
+      throw new ImageGenerationError('Image generation failed', 502, { provider: this.provider.id, message });
+    }
+  }
+
+  async list(userId: string, limit: number = 20): Promise<GenerationRecord[]> {
+    const { data, error } = await this.supabase
+      .from('user_generations')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new ImageGenerationError('Failed to load generations', 500, error);
+    }
+
+    return (data || []).map(mapRecord);
+  }
+
+  private async refund(spend: CreditLedgerEntry, reason: string) {
+    try {
+      await this.credits.refund(spend, reason);
+    } catch (error) {
+      console.error('Failed to refund generation credits:', { spendId: spend.id, error });
+    }
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Image Generation - Types
+ */
+
+// ============================================================================
+// REQUESTS & RESULTS
+// ============================================================================
+
+export type ImageGenerationProviderId = 'ideogram' | 'local';
+
+export type GenerationSpeed = 'fast' | 'balanced' | 'quality';
+
+/**
+ * Provider-neutral generation request. Optional features are checked against
+ * the provider's capabilities before it's sent.
+ */
+export interface ImageGenerationRequest {
+  prompt: string;
+  negativePrompt?: string;
+  /** Width x height ratio, e.g. "3x4" */
+  aspectRatio: string;
+  numImages: number;
+  /** Provider model id; the provider's default when omitted */
+  model?: string;
+  /** Lower case style name, e.g. "realistic" */
+  style?: string;
+  speed?: GenerationSpeed;
+  seed?: number;
+  /** Lower case preset palette name, e.g. "ember" */
+  colorPalette?: string;
+  /** Public or data URLs of images to take characters from */
+  referenceImages?: string[];
+}
+
+export interface GeneratedImage {
+  /** Where the provider serves the image; may expire, so save it to keep it */
+  url: string;
+  width: number;
+  height: number;
+  seed: number | null;
+}
+
+export interface ImageGenerationResult {
+  provider: ImageGenerationProviderId;
+  model: string;
+  images: GeneratedImage[];
+}
+
+// ============================================================================
+// PROVIDERS
+// ============================================================================
+
+export interface ImageGenerationCapabilities {
+  models: string[];
+  defaultModel: string;
+  aspectRatios: string[];
+  /** Empty when the provider has no style presets */
+  styles: string[];
+  colorPalettes: string[];
+  speeds: GenerationSpeed[];
+  maxImages: number;
+  seeds: boolean;
+  negativePrompts: boolean;
+  referenceImages: boolean;
+}
+
+/**
+ * A text-to-image backend. Providers run server-side with their own
+ * credentials and receive requests already checked against their capabilities.
+ */
+export interface ImageGenerationProvider {
+  readonly id: ImageGenerationProviderId;
+  readonly name: string;
+  readonly capabilities: ImageGenerationCapabilities;
+  generate(request: ImageGenerationRequest): Promise<ImageGenerationResult>;
+}
+
+// ============================================================================
+// RECORDS
+// ============================================================================
+
+export type GenerationStatus = 'pending' | 'generating' | 'completed' | 'failed';
+
+/**
+ * A row in user_generations
+ */
+export interface GenerationRecord {
+  id: string;
+  userId: string;
+  provider: ImageGenerationProviderId;
+  model: string | null;
+  prompt: string;
+  request: ImageGenerationRequest;
+  status: GenerationStatus;
+  images: GeneratedImage[];
+  error: string | null;
+  createdAt: string;
+  completedAt: string | null;
+}
@@ -96,3 +96,32 @@ export function captureMessage(message: string, level: 'info' | 'warning' | 'err
   }
 }
 
+
+export type MetricType = 'count' | 'gauge' | 'distribution';
+
+export interface MetricOptions {
+  unit?: string;
+  attributes?: Record<string, string | number | boolean>;
+}
+
+export function recordMetric(type: MetricType, name: string, value: number, options?: MetricOptions) {
+  try {
+    const Sentry = require('@sentry/nextjs');
+    Sentry.metrics[type](name, value, options);
+  } catch (e) {
+    console.warn('[Sentry] Failed to record metric:', e);
+  }
+}
+
+/**
+ * Send buffered events before a short-lived process (e.g. a worker script) exits
+ */
+export async function flushSentry(timeoutMs: number = 2000): Promise<boolean> {
+  try {
+    const Sentry = require('@sentry/nextjs');
+    return await Sentry.flush(timeoutMs);
+  } catch (e) {
+    console.warn('[Sentry] Failed to flush:', e);
+    return false;
+  }
+}
@@ -0,0 +1,790 @@
+/**
+ * Customer Order Edits
+ *
+ * For a short while after an order goes to Prodigi, customers can fix the
+ * shipping address, upgrade the shipping method or cancel the order
+ * themselves. Prodigi decides what is still possible (the order's actions);
+ * on top of that the window closes ORDER_EDIT_WINDOW_HOURS after the order
+ * was submitted, which is what the customer sees counting down.
+ *
+ * Upgrades cost the difference between Prodigi's shipping quotes and are
+ * paid through a separate Stripe Checkout session. The Stripe webhook
+ * applies the upgrade once it's paid, and refunds the payment if the window
+ * closed in the meantime. Cancelling refunds the order in full through
+ * RefundService, along with any upgrades paid for.
+ *
+ * Types and helpers are safe to import from client components.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type Stripe from 'stripe';
+import type { OrdersAPI } from '@/lib/prodigi-v2/orders';
+import type { OrderActionsAPI } from '@/lib/prodigi-v2/order-actions';
+import type { QuotesAPI } from '@/lib/prodigi-v2/quotes';
+import type { Order as ProdigiOrder, ShippingMethod } from '@/lib/prodigi-v2/types';
+import { roundToCurrency, toMinorUnits } from '@/lib/currency';
+import { RefundService, type OrderRefund } from '@/lib/refunds';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type OrderEditType = 'address' | 'shipping_method' | 'cancel';
+export type OrderEditStatus = 'pending_payment' | 'applied' | 'failed' | 'refunded';
+
+export interface EditableAddress {
+  name: string;
+  line1: string;
+  line2?: string;
+  city: string;
+  state?: string;
+  postalCode: string;
+  /** ISO 3166-1 alpha-2; can't be changed, since shipping and tax depend on it */
+  country: string;
+}
+
+export interface ShippingUpgradeOption {
+  method: ShippingMethod;
+  /** What the upgrade costs, in the order's currency */
+  price: number;
+  currency: string;
+}
+
+export interface EditWindow {
+  open: boolean;
+  /** When the window closes; null once it has */
+  expiresAt: string | null;
+  shippingMethod: string;
+  canChangeAddress: boolean;
+  canUpgradeShipping: boolean;
+  canCancel: boolean;
+  address: EditableAddress | null;
+  shippingOptions: ShippingUpgradeOption[];
+}
+
+export interface OrderEdit {
+  id: string;
+  orderId: string;
+  type: OrderEditType;
+  status: OrderEditStatus;
+  previous: Record<string, any>;
+  requested: Record<string, any>;
+  amount: number;
+  currency: string | null;
+  failureReason: string | null;
+  appliedAt: string | null;
+  createdAt: string;
+}
+
+export interface ShippingUpgradeResult {
+  edit: OrderEdit;
+  /** Stripe Checkout for the difference; null when the upgrade was free and is already applied */
+  checkoutUrl: string | null;
+}
+
+export interface CancellationResult {
+  edit: OrderEdit;
+  refund: OrderRefund;
+}
+
+export interface CheckoutReturnUrls {
+  successUrl: string;
+  cancelUrl: string;
+}
+
+export interface OrderEditFulfillmentClient {
+  orders: Pick<OrdersAPI, 'get'>;
+  orderActions: Pick<OrderActionsAPI, 'getActions' | 'updateRecipient' | 'updateShippingMethod' | 'cancel'>;
+  quotes: Pick<QuotesAPI, 'create'>;
+}
+
+export interface OrderEditServiceDeps {
+  stripe: {
+    checkout: { sessions: Pick<Stripe.Checkout.SessionsResource, 'create'> };
+    refunds: Pick<Stripe.RefundsResource, 'create' | 'list'>;
+  };
+  fulfillment: OrderEditFulfillmentClient;
+  now?: () => Date;
+}
+
+export class OrderEditError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400,
+    public details?: any
+  ) {
+    super(message);
+    this.name = 'OrderEditError';
+    Object.setPrototypeOf(this, OrderEditError.prototype);
+  }
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/** Slowest to fastest; customers can only move up this list */
+export const SHIPPING_METHOD_SPEED: ShippingMethod[] = ['Budget', 'Standard', 'Express', 'Overnight'];
+
+/** Order statuses an order can still be edited in, Prodigi permitting */
+export const EDITABLE_ORDER_STATUSES = ['paid', 'processing', 'paused'];
+
+const DEFAULT_EDIT_WINDOW_HOURS = 2;
+
+/** Cancelling refunds the payment, so it has to have one left */
+const CANCELLABLE_PAYMENT_STATUSES = ['paid'];
+
+const CLOSED_MESSAGE = 'This order can no longer be changed';
+
+const ORDER_FOR_EDIT = `
+  id, order_number, user_id, status, payment_status, currency, exchange_rate, base_currency,
+  shipping_method, shipping_address, customer_email,
+  dropship_orders ( id, provider, provider_order_id, status, created_at, reprint_of )
+`;
+
+export function getEditWindowHours(): number {
+  const hours = Number(process.env.ORDER_EDIT_WINDOW_HOURS);
+  return Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_EDIT_WINDOW_HOURS;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * "1h 05m", "4m 09s" or "0s"; for the edit window countdown
+ */
+export function formatTimeRemaining(milliseconds: number): string {
+  const totalSeconds = Math.max(0, Math.floor(milliseconds / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => value.toString().padStart(2, '0');
+
+  if (hours > 0) return `${hours}h ${pad(minutes)}m`;
+  if (minutes > 0) return `${minutes}m ${pad(seconds)}s`;
+  return `${seconds}s`;
+}
+
+export function isShippingUpgrade(from: string, to: string): boolean {
+  const fromIndex = SHIPPING_METHOD_SPEED.indexOf(from as ShippingMethod);
+  const toIndex = SHIPPING_METHOD_SPEED.indexOf(to as ShippingMethod);
+  return toIndex > -1 && toIndex > fromIndex;
+}
+
+/**
+ * Validate a new shipping address from the customer
+ */
+export function validateEditAddress(input: any): EditableAddress {
+  const text = (value: unknown, max = 200) =>
+    typeof value === 'string' && value.trim() ? value.trim().slice(0, max) : '';
+
+  const address: EditableAddress = {
+    name: text(input?.name),
+    line1: text(input?.line1),
+    line2: text(input?.line2) || undefined,
+    city: text(input?.city),
+    state: text(input?.state) || undefined,
+    postalCode: text(input?.postalCode, 20),
+    country: text(input?.country, 10).toUpperCase(),
+  };
+
+  const missing = (['name', 'line1', 'city', 'postalCode', 'country'] as const)
+    .filter(field => !address[field]);
+  if (missing.length > 0) {
+    throw new OrderEditError('Please fill in the whole address', 400, { missing });
+  }
+  if (!/^[A-Z]{2}$/.test(address.country)) {
+    throw new OrderEditError('Invalid country');
+  }
+
+  return address;
+}
+
+function toEditableAddress(recipient: ProdigiOrder['recipient'] | undefined): EditableAddress | null {
+  if (!recipient?.address) return null;
+  return {
+    name: recipient.name,
+    line1: recipient.address.line1,
+    line2: recipient.address.line2 || undefined,
+    city: recipient.address.townOrCity,
+    state: recipient.address.stateOrCounty || undefined,
+    postalCode: recipient.address.postalOrZipCode,
+    country: recipient.address.countryCode,
+  };
+}
+
+function mapEdit(row: any): OrderEdit {
+  return {
+    id: row.id,
+    orderId: row.order_id,
+    type: row.type,
+    status: row.status,
+    previous: row.previous || {},
+    requested: row.requested || {},
+    amount: Number(row.amount || 0),
+    currency: row.currency ?? null,
+    failureReason: row.failure_reason ?? null,
+    appliedAt: row.applied_at ?? null,
+    createdAt: row.created_at,
+  };
+}
+
+interface OpenWindow {
+  prodigiOrderId: string;
+  dropshipId: string;
+  expiresAt: Date;
+  canChangeAddress: boolean;
+  canUpgradeShipping: boolean;
+  canCancel: boolean;
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+export class OrderEditService {
+  constructor(
+    private supabase: SupabaseClient,
+    private deps: OrderEditServiceDeps
+  ) {}
+
+  /**
+   * What the customer can still change, and until when
+   */
+  async getEditWindow(userId: string, orderId: string): Promise<EditWindow> {
+    const order = await this.loadOwnedOrder(userId, orderId);
+    const window = await this.checkWindow(order);
+
+    const closed: EditWindow = {
+      open: false,
+      expiresAt: null,
+      shippingMethod: order.shipping_method || 'Standard',
+      canChangeAddress: false,
+      canUpgradeShipping: false,
+      canCancel: false,
+      address: null,
+      shippingOptions: [],
+    };
+    if (!window) return closed;
+
+    const prodigiOrder = await this.deps.fulfillment.orders.get(window.prodigiOrderId);
+    const shippingOptions = window.canUpgradeShipping
+      ? await this.priceUpgrades(order, prodigiOrder).catch(error => {
+        console.error('Error quoting shipping upgrades:', error);
+        return [];
+      })
+      : [];
+
+    return {
+      open: true,
+      expiresAt: window.expiresAt.toISOString(),
+      shippingMethod: prodigiOrder.shippingMethod,
+      canChangeAddress: window.canChangeAddress,
+      canUpgradeShipping: window.canUpgradeShipping && shippingOptions.length > 0,
+      canCancel: window.canCancel,
+      address: toEditableAddress(prodigiOrder.recipient),
+      shippingOptions,
+    };
+  }
+
+  /**
+   * Send the order to a corrected address in the same country
+   */
+  async changeAddress(userId: string, orderId: string, input: unknown): Promise<OrderEdit> {
+    const address = validateEditAddress(input);
+    const order = await this.loadOwnedOrder(userId, orderId);
+    const window = await this.requireWindow(order, 'canChangeAddress');
+
+    const prodigiOrder = await this.deps.fulfillment.orders.get(window.prodigiOrderId);
+    const previous = toEditableAddress(prodigiOrder.recipient);
+    if (previous && previous.country !== address.country) {
+      throw new OrderEditError("The country can't be changed after ordering; cancel the order instead", 400);
+    }
+
+    try {
+      await this.deps.fulfillment.orderActions.updateRecipient(window.prodigiOrderId, {
+        name: address.name,
+        email: prodigiOrder.recipient?.email,
+        phoneNumber: prodigiOrder.recipient?.phoneNumber,
+        address: {
+          line1: address.line1,
+          line2: address.line2,
+          postalOrZipCode: address.postalCode,
+          countryCode: address.country,
+          townOrCity: address.city,
+          stateOrCounty: address.state,
+        },
+      });
+    } catch (error) {
+      throw this.prodigiFailure(error, 'Prodigi could not update the address');
+    }
+
+    await this.supabase
+      .from('orders')
+      .update({
+        shipping_address: {
+          ...(order.shipping_address || {}),
+          line1: address.line1,
+          line2: address.line2 || null,
+          city: address.city,
+          state: address.state || null,
+          postal_code: address.postalCode,
+          country: address.country,
+        },
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', orderId);
+
+    return this.recordEdit(order, userId, {
+      type: 'address',
+      status: 'applied',
+      previous: previous ? { address: previous } : {},
+      requested: { address },
+    });
+  }
+
+  /**
+   * Move the order to a faster shipping method. Paid upgrades return a
+   * Stripe Checkout URL and are applied by the webhook once paid.
+   */
+  async upgradeShipping(
+    userId: string,
+    orderId: string,
+    method: unknown,
+    urls: CheckoutReturnUrls
+  ): Promise<ShippingUpgradeResult> {
+    if (typeof method !== 'string' || !SHIPPING_METHOD_SPEED.includes(method as ShippingMethod)) {
+      throw new OrderEditError('Invalid shipping method');
+    }
+
+    const order = await this.loadOwnedOrder(userId, orderId);
+    const window = await this.requireWindow(order, 'canUpgradeShipping');
+    const prodigiOrder = await this.deps.fulfillment.orders.get(window.prodigiOrderId);
+
+    if (!isShippingUpgrade(prodigiOrder.shippingMethod, method)) {
+      throw new OrderEditError(`This order already ships ${prodigiOrder.shippingMethod}`, 409);
+    }
+
+    const option = (await this.priceUpgrades(order, prodigiOrder)).find(candidate => candidate.method === method);
+    if (!option) {
+      throw new OrderEditError(`${method} shipping isn't available for this address`, 409);
+    }
+
+    const previous = { shippingMethod: prodigiOrder.shippingMethod };
+    const requested = { shippingMethod: option.method };
+
+    if (option.price <= 0) {
+      await this.applyShippingMethod(orderId, window.prodigiOrderId, option.method);
+      const edit = await this.recordEdit(order, userId, { type: 'shipping_method', status: 'applied', previous, requested });
+      return { edit, checkoutUrl: null };
+    }
+
+    const edit = await this.recordEdit(order, userId, {
+      type: 'shipping_method',
+      status: 'pending_payment',
+      previous,
+      requested,
+      amount: option.price,
+      currency: option.currency,
+    });
+
+    const metadata = { type: 'shipping_upgrade', order_id: orderId, order_edit_id: edit.id };
+    const session = await this.deps.stripe.checkout.sessions.create(
+      {
+        payment_method_types: ['card'],
+        mode: 'payment',
+        customer_email: order.customer_email || undefined,
+        line_items: [{
+          price_data: {
+            currency: option.currency.toLowerCase(),
+            product_data: {
+              name: `${option.method} shipping upgrade`,
+              description: `Order ${order.order_number}`,
+            },
+            unit_amount: toMinorUnits(option.price, option.currency),
+          },
+          quantity: 1,
+        }],
+        metadata,
+        payment_intent_data: { metadata },
+        success_url: urls.successUrl,
+        cancel_url: urls.cancelUrl,
+      },
+      { idempotencyKey: `order-edit-${edit.id}` }
+    );
+
+    await this.supabase
+      .from('order_edits')
+      .update({ stripe_session_id: session.id, updated_at: new Date().toISOString() })
+      .eq('id', edit.id);
+
+    return { edit, checkoutUrl: session.url };
+  }
+
+  /**
+   * Apply a paid shipping upgrade (checkout.session.completed). When Prodigi
+   * no longer allows it, the payment is refunded instead. Redelivered events
+   * find the edit already settled and do nothing.
+   */
+  async completeShippingUpgrade(session: Stripe.Checkout.Session): Promise<OrderEdit | null> {
+    const editId = session.metadata?.order_edit_id;
+    if (!editId || session.payment_status !== 'paid') return null;
+
+    const paymentIntentId = typeof session.payment_intent === 'string'
+      ? session.payment_intent
+      : session.payment_intent?.id;
+    if (!paymentIntentId) return null;
+
+    // Claim the edit, so a concurrent redelivery can't apply or refund it twice
+    const { data: row } = await this.supabase
+      .from('order_edits')
+      .update({ stripe_payment_intent_id: paymentIntentId, updated_at: new Date().toISOString() })
+      .eq('id', editId)
+      .eq('status', 'pending_payment')
+      .is('stripe_payment_intent_id', null)
+      .select('*')
+      .maybeSingle();
+    if (!row) return null;
+
+    const method = row.requested?.shippingMethod as ShippingMethod;
+
+    try {
+      const order = await this.loadOrder(row.order_id);
+      const window = await this.checkWindow(order);
+      if (!window?.canUpgradeShipping) {
+        throw new OrderEditError(CLOSED_MESSAGE, 409);
+      }
+
+      const prodigiOrder = await this.deps.fulfillment.orders.get(window.prodigiOrderId);
+      if (!isShippingUpgrade(prodigiOrder.shippingMethod, method)) {
+        throw new OrderEditError(`The order already ships ${prodigiOrder.shippingMethod}`, 409);
+      }
+
+      await this.applyShippingMethod(row.order_id, window.prodigiOrderId, method);
+      return this.settleEdit(editId, { status: 'applied', applied_at: new Date().toISOString() });
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Shipping upgrade could not be applied, refunding:', editId, reason);
+      const refunded = await this.refundUpgradePayment(editId, paymentIntentId);
+      return this.settleEdit(editId, { status: refunded ? 'refunded' : 'failed', failure_reason: reason });
+    }
+  }
+
+  /**
+   * The upgrade's payment failed (checkout.session.async_payment_failed)
+   */
+  async failShippingUpgrade(session: Stripe.Checkout.Session): Promise<OrderEdit | null> {
+    const editId = session.metadata?.order_edit_id;
+    if (!editId) return null;
+
+    const { data: row } = await this.supabase
+      .from('order_edits')
+      .select('status')
+      .eq('id', editId)
+      .maybeSingle();
+    if (!row || row.status !== 'pending_payment') return null;
+
+    return this.settleEdit(editId, { status: 'failed', failure_reason: 'Payment failed' });
+  }
+
+  /**
+   * Cancel the order at Prodigi and refund it in full, along with any
+   * shipping upgrades paid for
+   */
+  async cancel(userId: string, orderId: string): Promise<CancellationResult> {
+    const order = await this.loadOwnedOrder(userId, orderId);
+    if (!CANCELLABLE_PAYMENT_STATUSES.includes(order.payment_status)) {
+      throw new OrderEditError('This order has already been refunded', 409);
+    }
+    const window = await this.requireWindow(order, 'canCancel');
+
+    try {
+      await this.deps.fulfillment.orderActions.cancel(window.prodigiOrderId);
+    } catch (error) {
+      throw this.prodigiFailure(error, 'Prodigi could not cancel the order');
+    }
+
+    const now = new Date().toISOString();
+    await this.supabase
+      .from('dropship_orders')
+      .update({ status: 'cancelled', updated_at: now })
+      .eq('id', window.dropshipId);
+    await this.supabase
+      .from('orders')
+      .update({ status: 'cancelled', updated_at: now })
+      .eq('id', orderId);
+
+    let refund: OrderRefund;
+    try {
+      const outcome = await new RefundService(this.supabase, { stripe: this.deps.stripe }).refund(orderId, userId, {
+        full: true,
+        reason: 'Cancelled by the customer',
+      });
+      refund = outcome.refund;
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'Unknown error';
+      await this.recordEdit(order, userId, {
+        type: 'cancel',
+        status: 'failed',
+        previous: { status: order.status },
+        failureReason: reason,
+      });
+      throw new OrderEditError(
+        "Your order was cancelled, but the refund didn't go through. Our team will refund you shortly.",
+        502,
+        { reason }
+      );
+    }
+
+    await this.refundPaidUpgrades(orderId);
+
+    const edit = await this.recordEdit(order, userId, {
+      type: 'cancel',
+      status: 'applied',
+      previous: { status: order.status },
+      requested: { refundId: refund.id },
+    });
+
+    return { edit, refund };
+  }
+
+  // ==========================================================================
+  // INTERNALS
+  // ==========================================================================
+
+  /**
+   * The open window for an order, or null once it has closed. Prodigi is
+   * asked only while our own window is still running.
+   */
+  private async checkWindow(order: any): Promise<OpenWindow | null> {
+    if (!EDITABLE_ORDER_STATUSES.includes(order.status)) return null;
+
+    const dropship = (order.dropship_orders || []).find(
+      (row: any) => row.provider === 'prodigi' && row.provider_order_id && !row.reprint_of && row.status !== 'cancelled'
+    );
+    if (!dropship?.created_at) return null;
+
+    const now = this.deps.now?.() ?? new Date();
+    const expiresAt = new Date(new Date(dropship.created_at).getTime() + getEditWindowHours() * 60 * 60 * 1000);
+    if (expiresAt <= now) return null;
+
+    const actions = await this.deps.fulfillment.orderActions.getActions(dropship.provider_order_id);
+    const window: OpenWindow = {
+      prodigiOrderId: dropship.provider_order_id,
+      dropshipId: dropship.id,
+      expiresAt,
+      canChangeAddress: actions.changeRecipientDetails?.isAvailable === 'Yes',
+      canUpgradeShipping: actions.changeShippingMethod?.isAvailable === 'Yes',
+      canCancel: actions.cancel?.isAvailable === 'Yes',
+    };
+
+    return window.canChangeAddress || window.canUpgradeShipping || window.canCancel ? window : null;
+  }
+
+  private async requireWindow(
+    order: any,
+    permission: 'canChangeAddress' | 'canUpgradeShipping' | 'canCancel'
+  ): Promise<OpenWindow> {
+    const window = await this.checkWindow(order);
+    if (!window || !window[permission]) {
+      throw new OrderEditError(CLOSED_MESSAGE, 409);
+    }
+    return window;
+  }
+
+  /**
+   * What each faster shipping method costs on top of the current one.
+   * Quotes are in the base currency and converted at the order's locked rate.
+   */
+  private async priceUpgrades(order: any, prodigiOrder: ProdigiOrder): Promise<ShippingUpgradeOption[]> {
+    const quotes = await this.deps.fulfillment.quotes.create({
+      shippingMethod: prodigiOrder.shippingMethod,
+      destinationCountryCode: prodigiOrder.recipient.address.countryCode,
+      items: prodigiOrder.items.map(item => ({
+        sku: item.sku,
+        copies: item.copies,
+        attributes: Object.fromEntries(
+          Object.entries(item.attributes || {}).filter((entry): entry is [string, string] => entry[1] !== undefined)
+        ),
+        assets: item.assets.map(asset => ({ printArea: asset.printArea })),
+      })),
+    });
+
+    const costOf = (method: string) => {
+      const quote = quotes.find(candidate => candidate.shipmentMethod === method);
+      return quote ? { amount: parseFloat(quote.costSummary.shipping.amount), currency: quote.costSummary.shipping.currency } : null;
+    };
+
+    const current = costOf(prodigiOrder.shippingMethod);
+    if (!current) return [];
+
+    const currency = String(order.currency).toUpperCase();
+    const baseCurrency = String(order.base_currency || order.currency).toUpperCase();
+    const quoteCurrency = current.currency.toUpperCase();
+    let rate: number;
+    if (quoteCurrency === currency) {
+      rate = 1;
+    } else if (quoteCurrency === baseCurrency) {
+      rate = Number(order.exchange_rate) || 1;
+    } else {
+      // No locked rate for this currency pair, so no price we could promise
+      console.warn('Shipping quote currency does not match the order:', { quoteCurrency, currency, baseCurrency });
+      return [];
+    }
+
+    return SHIPPING_METHOD_SPEED
+      .filter(method => isShippingUpgrade(prodigiOrder.shippingMethod, method))
+      .flatMap(method => {
+        const cost = costOf(method);
+        if (!cost) return [];
+        const difference = Math.max(cost.amount - current.amount, 0);
+        return [{ method, price: roundToCurrency(difference * rate, currency), currency }];
+      });
+  }
+
+  private async applyShippingMethod(orderId: string, prodigiOrderId: string, method: ShippingMethod): Promise<void> {
+    try {
+      await this.deps.fulfillment.orderActions.updateShippingMethod(prodigiOrderId, method);
+    } catch (error) {
+      throw this.prodigiFailure(error, 'Prodigi could not change the shipping method');
+    }
+
+    await this.supabase
+      .from('orders')
+      .update({ shipping_method: method, updated_at: new Date().toISOString() })
+      .eq('id', orderId);
+  }
+
+  private async refundPaidUpgrades(orderId: string): Promise<void> {
+    const { data: upgrades } = await this.supabase
+      .from('order_edits')
+      .select('id, stripe_payment_intent_id')
+      .eq('order_id', orderId)
+      .eq('type', 'shipping_method')
+      .eq('status', 'applied')
+      .not('stripe_payment_intent_id', 'is', null);
+
+    for (const upgrade of upgrades || []) {
+      if (await this.refundUpgradePayment(upgrade.id, upgrade.stripe_payment_intent_id)) {
+        await this.settleEdit(upgrade.id, { status: 'refunded' });
+      }
+    }
+  }
+
+  /**
+   * Refund an upgrade's own payment. It carries no order_id, so refund
+   * reconciliation leaves the order's payment figures alone.
+   */
+  private async refundUpgradePayment(editId: string, paymentIntentId: string): Promise<boolean> {
+    try {
+      await this.deps.stripe.refunds.create(
+        {
+          payment_intent: paymentIntentId,
+          reason: 'requested_by_customer',
+          metadata: { type: 'shipping_upgrade', order_edit_id: editId },
+        },
+        { idempotencyKey: `order-edit-refund-${editId}` }
+      );
+      return true;
+    } catch (error) {
+      console.error('Error refunding shipping upgrade:', editId, error);
+      return false;
+    }
+  }
+
+  private prodigiFailure(error: unknown, message: string): OrderEditError {
+    console.error(`${message}:`, error);
+    return new OrderEditError(message, 502, {
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+
+  private async loadOrder(orderId: string): Promise<any> {
+    const { data, error } = await this.supabase
+      .from('orders')
+      .select(ORDER_FOR_EDIT)
+      .eq('id', orderId)
+      .maybeSingle();
+
+    if (error) {
+      throw new OrderEditError('Failed to load order', 500, error);
+    }
+    if (!data) {
+      throw new OrderEditError('Order not found', 404);
+    }
+    return data;
+  }
+
+  /** Other customers' orders are reported as not found */
+  private async loadOwnedOrder(userId: string, orderId: string): Promise<any> {
+    const order = await this.loadOrder(orderId).catch(error => {
+      if (error instanceof OrderEditError && error.statusCode === 404) return null;
+      throw error;
+    });
+    if (!order || order.user_id !== userId) {
+      throw new OrderEditError('Order not found', 404);
+    }
+    return order;
+  }
+
+  private async recordEdit(
+    order: any,
+    userId: string,
+    edit: {
+      type: OrderEditType;
+      status: OrderEditStatus;
+      previous?: Record<string, any>;
+      requested?: Record<string, any>;
+      amount?: number;
+      currency?: string;
+      failureReason?: string;
+    }
+  ): Promise<OrderEdit> {
+    const { data, error } = await this.supabase
+      .from('order_edits')
+      .insert({
+        order_id: order.id,
+        user_id: userId,
+        type: edit.type,
+        status: edit.status,
+        previous: edit.previous ?? {},
+        requested: edit.requested ?? {},
+        amount: edit.amount ?? 0,
+        currency: edit.currency ?? null,
+        failure_reason: edit.failureReason ?? null,
+        applied_at: edit.status === 'applied' ? new Date().toISOString() : null,
+      })
+      .select('*')
+      .single();
+
+    if (error || !data) {
+      throw new OrderEditError('Failed to save the change', 500, error);
+    }
+
+    // Staff see customer changes alongside their own in the order log
+    await this.supabase.from('order_logs').insert({
+      order_id: order.id,
+      action: `customer_${edit.type}_${edit.status}`,
+      details: { order_edit_id: data.id, previous: edit.previous, requested: edit.requested },
+      created_by: userId,
+    });
+
+    return mapEdit(data);
+  }
+
+  private async settleEdit(editId: string, update: Record<string, any>): Promise<OrderEdit | null> {
+    const { data, error } = await this.supabase
+      .from('order_edits')
+      .update({ ...update, updated_at: new Date().toISOString() })
+      .eq('id', editId)
+      .select('*')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error updating order edit:', editId, error);
+      return null;
+    }
+    return data ? mapEdit(data) : null;
+  }
+}
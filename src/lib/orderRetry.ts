@@ -1,5 +1,7 @@
 import { createClient } from '@/lib/supabase/server';
 import { prodigiClient } from '@/lib/prodigi';
+import { preparePrintAsset } from '@/lib/print-assets';
+import { getPrintSettings } from '@/lib/print-crop';
 
 interface RetryConfig {
   maxRetries: number;
@@ -8,7 +10,7 @@ interface RetryConfig {
   backoffMultiplier: number;
 }
 
-interface RetryableOperation {
+export interface RetryableOperation {
   id: string;
   type: 'prodigi_order_creation' | 'prodigi_status_update' | 'stripe_webhook' | 'notification_send';
   orderId: string;
@@ -16,11 +18,44 @@ interface RetryableOperation {
   attempts: number;
   lastAttempt: Date;
   nextRetry: Date;
-  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'dead_letter' | 'cancelled' | 'resolved';
   error?: string;
+  errorCode?: string;
   result?: any;
 }
 
+/**
+ * A retry_operations row as returned by claim_retry_operations
+ */
+export interface ClaimedOperation {
+  id: string;
+  type: RetryableOperation['type'];
+  order_id: string;
+  payload: any;
+  attempts: number;
+  error?: string | null;
+  error_code?: string | null;
+  locked_by?: string | null;
+  locked_until?: string | null;
+}
+
+export type RetryOutcome = 'completed' | 'rescheduled' | 'dead_lettered' | 'cancelled';
+
+// Order statuses that must never be sent to Prodigi
+const UNFULFILLABLE_ORDER_STATUSES = ['refunded', 'cancelled'];
+
+/**
+ * Thrown by an executor when the operation no longer applies (e.g. the order
+ * was refunded before it was submitted); the operation is cancelled, not retried
+ */
+class OperationNoLongerNeededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OperationNoLongerNeededError';
+    Object.setPrototypeOf(this, OperationNoLongerNeededError.prototype);
+  }
+}
+
 const DEFAULT_RETRY_CONFIG: RetryConfig = {
   maxRetries: 5,
   baseDelay: 1000, // 1 second
@@ -28,6 +63,33 @@ const DEFAULT_RETRY_CONFIG: RetryConfig = {
   backoffMultiplier: 2,
 };
 
+// How long a claimed operation stays locked to its worker; longer than any
+// single operation should take
+const DEFAULT_LEASE_SECONDS = 300;
+
+/**
+ * Classify an operation error into a stable code, so failures with the same
+ * cause can be found (and bulk-retried) together
+ */
+export function getRetryErrorCode(error: unknown): string {
+  const code = (error as { code?: unknown } | null)?.code;
+  if (typeof code === 'string' && code.trim()) {
+    return code.trim().toUpperCase();
+  }
+
+  const message = error instanceof Error ? error.message : String(error ?? '');
+  const httpStatus = message.match(/Prodigi API (?:error: )?(\d{3})/);
+  if (httpStatus) return `PRODIGI_HTTP_${httpStatus[1]}`;
+  if (/Prodigi order not found/i.test(message)) return 'PRODIGI_ORDER_NOT_FOUND';
+  if (/Order not found/i.test(message)) return 'ORDER_NOT_FOUND';
+  if (/Invalid SKU/i.test(message)) return 'INVALID_SKU';
+  if (/image URL/i.test(message)) return 'INVALID_IMAGE_URL';
+  if (/timeout|timed out|ETIMEDOUT|ECONNRESET|ECONNREFUSED|fetch failed|network/i.test(message)) return 'NETWORK_ERROR';
+  if (/Failed to (update|create)/i.test(message)) return 'DATABASE_ERROR';
+  if (/Unknown operation type/i.test(message)) return 'UNKNOWN_OPERATION_TYPE';
+  return 'UNKNOWN_ERROR';
+}
+
 export class OrderRetryManager {
   private config: RetryConfig;
 
@@ -100,7 +162,7 @@ export class OrderRetryManager {
   }
 
   /**
-   * Process a retryable operation
+   * Process a retryable operation now, regardless of its schedule
    */
   async processOperation(operationId: string): Promise<boolean> {
     const { createServiceClient } = await import('@/lib/supabase/server');
@@ -118,87 +180,146 @@ export class OrderRetryManager {
       return false;
     }
 
+    if (operation.status === 'completed' || operation.status === 'cancelled' || operation.status === 'resolved') {
+      return true;
+    }
+
     // Check if operation should be retried
     if (operation.attempts >= this.config.maxRetries) {
-      await this.markOperationFailed(operationId, 'Max retries exceeded');
+      await this.markOperationDeadLettered(operationId, 'Max retries exceeded');
       return false;
     }
 
-    if (operation.status === 'completed' || operation.status === 'cancelled') {
-      return true;
+    // Claim the operation so the retry worker can't run it at the same time
+    const [claimed] = await this.claimOperations(`request-${process.pid}`, 1, DEFAULT_LEASE_SECONDS, operationId);
+    if (!claimed) {
+      console.log(`Operation ${operationId} is already being processed`);
+      return false;
     }
 
-    // Update operation status to processing
-    await (supabase as any)
-      .from('retry_operations')
-      .update({
-        status: 'processing',
-        attempts: operation.attempts + 1,
-        last_attempt: new Date().toISOString(),
-      })
-      .eq('id', operationId);
+    const outcome = await this.executeClaimedOperation(claimed);
+    return outcome === 'completed' || outcome === 'cancelled';
+  }
 
-    try {
-      let result: any;
-      let success = false;
-
-      // Execute the operation based on type
-      switch (operation.type) {
-        case 'prodigi_order_creation':
-          result = await this.executeProdigiOrderCreation(operation.order_id, operation.payload);
-          success = true;
-          break;
-
-        case 'prodigi_status_update':
-          result = await this.executeProdigiStatusUpdate(operation.order_id, operation.payload);
-          success = true;
-          break;
-
-        case 'stripe_webhook':
-          result = await this.executeStripeWebhook(operation.order_id, operation.payload);
-          success = true;
-          break;
-
-        case 'notification_send':
-          result = await this.executeNotificationSend(operation.order_id, operation.payload);
-          success = true;
-          break;
-
-        default:
-          throw new Error(`Unknown operation type: ${operation.type}`);
-      }
+  /**
+   * Claim operations that are due for a retry. Each one is locked to
+   * workerId for leaseSeconds and its attempt is counted; an operation whose
+   * lease runs out (the worker died mid-run) can be claimed again.
+   */
+  async claimDueOperations(
+    workerId: string,
+    limit: number,
+    leaseSeconds: number = DEFAULT_LEASE_SECONDS
+  ): Promise<ClaimedOperation[]> {
+    return this.claimOperations(workerId, limit, leaseSeconds);
+  }
 
-      if (success) {
-        await this.markOperationCompleted(operationId, result);
-        return true;
-      }
+  /**
+   * Run an operation claimed with claimDueOperations, then complete it,
+   * reschedule it with backoff, or dead-letter it once attempts run out
+   */
+  async executeClaimedOperation(operation: ClaimedOperation): Promise<RetryOutcome> {
+    // Claiming counts the attempt, so a lease that expired on the last
+    // attempt leaves the operation over the limit
+    if (operation.attempts > this.config.maxRetries) {
+      await this.markOperationDeadLettered(
+        operation.id,
+        operation.error || 'Max retries exceeded',
+        operation.error_code || undefined
+      );
+      return 'dead_lettered';
+    }
 
+    try {
+      const result = await this.executeOperation(operation);
+      await this.markOperationCompleted(operation.id, result);
+      return 'completed';
     } catch (error) {
-      console.error(`Error processing operation ${operationId}:`, error);
+      if (error instanceof OperationNoLongerNeededError) {
+        await this.markOperationCancelled(operation.id, error.message);
+        return 'cancelled';
+      }
+
+      console.error(`Error processing operation ${operation.id}:`, error);
       
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      await this.markOperationError(operationId, errorMessage);
+      const errorCode = getRetryErrorCode(error);
 
       // Schedule next retry if not at max attempts
-      if (operation.attempts + 1 < this.config.maxRetries) {
-        const nextRetry = new Date(Date.now() + this.calculateDelay(operation.attempts + 1));
-        
-        await (supabase as any)
-          .from('retry_operations')
-          .update({
-            status: 'pending',
-            next_retry: nextRetry.toISOString(),
-            error: errorMessage,
-          })
-          .eq('id', operationId);
-      } else {
-        await this.markOperationFailed(operationId, errorMessage);
+      if (operation.attempts < this.config.maxRetries) {
+        await this.rescheduleOperation(operation.id, operation.attempts, errorMessage, errorCode);
+        return 'rescheduled';
       }
 
-      return false;
+      await this.markOperationDeadLettered(operation.id, errorMessage, errorCode);
+      return 'dead_lettered';
     }
+  }
 
-    return false;
+  /**
+   * Number of pending operations whose retry is due
+   */
+  async countDueOperations(): Promise<number> {
+    const { createServiceClient } = await import('@/lib/supabase/server');
+    const supabase = await createServiceClient();
+
+    const { count, error } = await (supabase as any)
+      .from('retry_operations')
+      .select('id', { count: 'exact', head: true })
+      .eq('status', 'pending')
+      .lte('next_retry', new Date().toISOString());
+
+    if (error) {
+      console.error('Error counting due operations:', error);
+      return 0;
+    }
+
+    return count ?? 0;
+  }
+
+  private async claimOperations(
+    workerId: string,
+    limit: number,
+    leaseSeconds: number,
+    operationId?: string
+  ): Promise<ClaimedOperation[]> {
+    const { createServiceClient } = await import('@/lib/supabase/server');
+    const supabase = await createServiceClient();
+
+    const { data, error } = await (supabase as any).rpc('claim_retry_operations', {
+      p_worker_id: workerId,
+      p_limit: limit,
+      p_lease_seconds: leaseSeconds,
+      p_operation_id: operationId ?? null,
+    });
+
+    if (error) {
+      throw new Error(`Failed to claim retry operations: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Execute an operation based on its type
+   */
+  private async executeOperation(operation: ClaimedOperation): Promise<any> {
+    switch (operation.type) {
+      case 'prodigi_order_creation':
+        return this.executeProdigiOrderCreation(operation.order_id, operation.payload);
+
+      case 'prodigi_status_update':
+        return this.executeProdigiStatusUpdate(operation.order_id, operation.payload);
+
+      case 'stripe_webhook':
+        return this.executeStripeWebhook(operation.order_id, operation.payload);
+
+      case 'notification_send':
+        return this.executeNotificationSend(operation.order_id, operation.payload);
+
+      default:
+        throw new Error(`Unknown operation type: ${operation.type}`);
+    }
   }
 
   /**
@@ -231,6 +352,11 @@ export class OrderRetryManager {
       throw new Error(`Order not found: ${orderError?.message}`);
     }
 
+    // Refunded or cancelled while waiting for the cron; it must not be printed
+    if (UNFULFILLABLE_ORDER_STATUSES.includes(order.status) || order.payment_status === 'refunded') {
+      throw new OperationNoLongerNeededError(`Order is ${order.status}; not sent to Prodigi`);
+    }
+
     // Prepare Prodigi order data
     const prodigiOrderData = {
       orderReference: order.order_number || `ORDER-${orderId.slice(-8)}`,
@@ -280,10 +406,21 @@ export class OrderRetryManager {
           urlLength: publicImageUrl.length
         });
         
+        // Items with a custom crop are sent as a cropped print-ready asset
+        const printAsset = await preparePrintAsset(supabase, {
+          orderId,
+          orderItemId: item.id,
+          imageUrl: publicImageUrl,
+          size: item.products?.frame_size || '16x20',
+          settings: getPrintSettings(item.print_settings ?? item.products?.metadata),
+          printAssetUrl: item.print_asset_url,
+        });
+        
         return {
           productSku: baseSku,
           quantity: item.quantity,
-          imageUrl: publicImageUrl, // Use public URL instead of raw path
+          imageUrl: printAsset.url,
+          sizing: printAsset.sizing,
           frameSize: item.products?.frame_size || '16x20', // V2 sizing: default to "16x20" instead of 'medium'
           frameStyle: item.products?.frame_style || 'black',
           frameMaterial: item.products?.frame_material || 'wood',
@@ -312,7 +449,8 @@ export class OrderRetryManager {
         updated_at: new Date().toISOString(),
       })
       .eq('order_id', orderId)
-      .eq('provider', 'prodigi');
+      .eq('provider', 'prodigi')
+      .is('reprint_of', null);
 
     if (updateError) {
       throw new Error(`Failed to update dropship order: ${updateError.message}`);
@@ -343,6 +481,7 @@ export class OrderRetryManager {
       .select('*')
       .eq('order_id', orderId)
       .eq('provider', 'prodigi')
+      .is('reprint_of', null)
       .single();
 
     if (dropshipError || !dropshipOrder || !dropshipOrder.provider_order_id) {
@@ -417,26 +556,91 @@ export class OrderRetryManager {
         status: 'completed',
         result,
         completed_at: new Date().toISOString(),
+        locked_by: null,
+        locked_until: null,
       })
       .eq('id', operationId);
   }
 
 
   /**
-   * Mark operation with error (for retry)
+   * Mark an operation cancelled because it no longer applies
    */
-  private async markOperationError(operationId: string, error: string): Promise<void> {
+  private async markOperationCancelled(operationId: string, reason: string): Promise<void> {
     const { createServiceClient } = await import('@/lib/supabase/server');
     const supabase = await createServiceClient();
-    
+
+    await (supabase as any)
+      .from('retry_operations')
+      .update({
+        status: 'cancelled',
+        cancelled_at: new Date().toISOString(),
+        resolution_note: reason,
+        locked_by: null,
+        locked_until: null,
+      })
+      .eq('id', operationId);
+  }
+
+  /**
+   * Release an operation that errored back to pending, with backoff
+   */
+  private async rescheduleOperation(
+    operationId: string,
+    attempts: number,
+    error: string,
+    errorCode: string
+  ): Promise<void> {
+    const { createServiceClient } = await import('@/lib/supabase/server');
+    const supabase = await createServiceClient();
+    const nextRetry = new Date(Date.now() + this.calculateDelay(attempts));
+
     await (supabase as any)
       .from('retry_operations')
       .update({
+        status: 'pending',
+        next_retry: nextRetry.toISOString(),
         error,
+        error_code: errorCode,
+        locked_by: null,
+        locked_until: null,
       })
       .eq('id', operationId);
   }
 
+  /**
+   * Move an operation that exhausted its attempts to the dead-letter state,
+   * where it stays until an admin retries, cancels or resolves it
+   */
+  async markOperationDeadLettered(operationId: string, error: string, errorCode?: string): Promise<boolean> {
+    try {
+      const { createServiceClient } = await import('@/lib/supabase/server');
+      const supabase = await createServiceClient();
+
+      const { error: updateError } = await (supabase as any)
+        .from('retry_operations')
+        .update({
+          status: 'dead_letter',
+          error,
+          ...(errorCode && { error_code: errorCode }),
+          dead_lettered_at: new Date().toISOString(),
+          locked_by: null,
+          locked_until: null,
+        })
+        .eq('id', operationId);
+
+      if (updateError) {
+        console.error('Error dead-lettering operation:', updateError);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error dead-lettering operation:', error);
+      return false;
+    }
+  }
+
   /**
    * Get pending operations
    */
@@ -490,7 +694,7 @@ export class OrderRetryManager {
   /**
    * Mark operation as failed (public method)
    */
-  async markOperationFailed(operationId: string, error: string): Promise<boolean> {
+  async markOperationFailed(operationId: string, error: string, errorCode?: string): Promise<boolean> {
     try {
       const { createServiceClient } = await import('@/lib/supabase/server');
       const supabase = await createServiceClient();
@@ -500,6 +704,7 @@ export class OrderRetryManager {
         .update({
           status: 'failed',
           error,
+          ...(errorCode && { error_code: errorCode }),
           failed_at: new Date().toISOString(),
         })
         .eq('id', operationId);
@@ -565,6 +770,7 @@ export class OrderRetryManager {
     processing: number;
     completed: number;
     failed: number;
+    deadLettered: number;
     cancelled: number;
   }> {
     const { createServiceClient } = await import('@/lib/supabase/server');
@@ -577,7 +783,7 @@ export class OrderRetryManager {
 
     if (error) {
       console.error('Error fetching retry stats:', error);
-      return { total: 0, pending: 0, processing: 0, completed: 0, failed: 0, cancelled: 0 };
+      return { total: 0, pending: 0, processing: 0, completed: 0, failed: 0, deadLettered: 0, cancelled: 0 };
     }
 
     const stats = {
@@ -586,6 +792,7 @@ export class OrderRetryManager {
       processing: data.filter((op: any) => op.status === 'processing').length,
       completed: data.filter((op: any) => op.status === 'completed').length,
       failed: data.filter((op: any) => op.status === 'failed').length,
+      deadLettered: data.filter((op: any) => op.status === 'dead_letter').length,
       cancelled: data.filter((op: any) => op.status === 'cancelled').length,
     };
 
@@ -0,0 +1,108 @@
+/**
+ * Print Assets
+ *
+ * Prepares the image sent to Prodigi for an order item. Items with a custom
+ * crop (see '@/lib/print-crop') are rendered to a print-ready asset in the
+ * print-assets bucket and recorded on order_items.print_asset_url, so retries
+ * reuse it; everything else is sent as the original image with the item's
+ * sizing and left to Prodigi.
+ */
+
+import sharp from 'sharp';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { SizingOption } from '@/lib/prodigi-v2/types';
+import { getCropRect, type PrintSettings } from '@/lib/print-crop';
+import { parseSizeInches } from '@/lib/utils/size-conversion';
+
+export const PRINT_ASSETS_BUCKET = 'print-assets';
+
+export interface PrintAssetRequest {
+  orderId: string;
+  orderItemId: string;
+  /** Public URL of the original image */
+  imageUrl: string;
+  /** Print size in inches ("16x20") */
+  size: string;
+  settings: PrintSettings;
+  /** Asset rendered by an earlier attempt */
+  printAssetUrl?: string | null;
+}
+
+export interface PreparedPrintAsset {
+  url: string;
+  sizing: SizingOption;
+}
+
+/**
+ * The asset URL and Prodigi sizing for an order item. Throws when a custom
+ * crop can't be rendered: printing the uncropped image instead would not be
+ * what the customer ordered.
+ */
+export async function preparePrintAsset(
+  supabase: SupabaseClient,
+  request: PrintAssetRequest
+): Promise<PreparedPrintAsset> {
+  const { crop, sizing } = request.settings;
+
+  // Rendered assets are already cropped to the print area's aspect ratio
+  if (request.printAssetUrl) {
+    return { url: request.printAssetUrl, sizing: 'fillPrintArea' };
+  }
+
+  const printArea = parseSizeInches(request.size);
+  if (!crop || !printArea) {
+    return { url: request.imageUrl, sizing };
+  }
+
+  const response = await fetch(request.imageUrl);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch image for print asset: ${response.status} ${response.statusText}`);
+  }
+
+  const source = sharp(Buffer.from(await response.arrayBuffer())).rotate();
+  const metadata = await source.metadata();
+  if (!metadata.width || !metadata.height) {
+    throw new Error('Failed to read image dimensions for print asset');
+  }
+
+  // rotate() applies EXIF orientation, which swaps the axes for 90° rotations
+  const swapAxes = (metadata.orientation ?? 1) >= 5;
+  const image = swapAxes
+    ? { width: metadata.height, height: metadata.width }
+    : { width: metadata.width, height: metadata.height };
+
+  const rect = getCropRect(image, printArea.width / printArea.height, crop);
+  const left = Math.round(rect.x * image.width);
+  const top = Math.round(rect.y * image.height);
+  const region = {
+    left,
+    top,
+    width: Math.max(1, Math.min(Math.round(rect.width * image.width), image.width - left)),
+    height: Math.max(1, Math.min(Math.round(rect.height * image.height), image.height - top)),
+  };
+
+  const asset = await source.extract(region).jpeg({ quality: 95 }).toBuffer();
+  const path = `orders/${request.orderId}/${request.orderItemId}.jpg`;
+
+  const { error: uploadError } = await supabase.storage
+    .from(PRINT_ASSETS_BUCKET)
+    .upload(path, asset, { contentType: 'image/jpeg', upsert: true });
+
+  if (uploadError) {
+    throw new Error(`Failed to upload print asset: ${uploadError.message}`);
+  }
+
+  const { data: { publicUrl } } = supabase.storage.from(PRINT_ASSETS_BUCKET).getPublicUrl(path);
+
+  const { error: updateError } = await supabase
+    .from('order_items')
+    .update({ print_asset_url: publicUrl })
+    .eq('id', request.orderItemId);
+
+  if (updateError) {
+    // The asset is usable either way; a retry would just render it again
+    console.error('Error recording print asset on order item:', updateError);
+  }
+
+  return { url: publicUrl, sizing: 'fillPrintArea' };
+}
@@ -0,0 +1,132 @@
+/**
+ * Print Crop
+ *
+ * How an image is placed on the print when its aspect ratio differs from
+ * the size's. Fill crops the image to the print area around a focal point
+ * (zoom > 1 crops tighter), fit letterboxes it, stretch distorts it; the
+ * values map onto Prodigi's item sizing. The crop is kept as a focal point
+ * and zoom rather than a rectangle so it carries over when the size changes.
+ * Pure functions only: the studio preview and the print asset renderer use
+ * the same getCropRect().
+ */
+
+import type { SizingOption } from '@/lib/prodigi-v2/types';
+import type { ImageDimensions } from '@/lib/print-quality';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ArtworkCrop {
+  /** Focal point, 0-1 from the image's left edge */
+  focalX: number;
+  /** Focal point, 0-1 from the image's top edge */
+  focalY: number;
+  /** 1 is the largest crop that fills the print area */
+  zoom: number;
+}
+
+/** Crop rectangle in 0-1 image coordinates (origin top left) */
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PrintSettings {
+  sizing: SizingOption;
+  crop?: ArtworkCrop;
+}
+
+// ============================================================================
+// DEFAULTS
+// ============================================================================
+
+export const DEFAULT_PRINT_SIZING: SizingOption = 'fillPrintArea';
+
+export const DEFAULT_ARTWORK_CROP: ArtworkCrop = { focalX: 0.5, focalY: 0.5, zoom: 1 };
+
+export const MAX_CROP_ZOOM = 4;
+
+export const PRINT_SIZING_LABELS: Record<SizingOption, string> = {
+  fillPrintArea: 'Fill',
+  fitPrintArea: 'Fit',
+  stretchToPrintArea: 'Stretch',
+};
+
+const SIZING_OPTIONS = Object.keys(PRINT_SIZING_LABELS) as SizingOption[];
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+// ============================================================================
+// CROP
+// ============================================================================
+
+/**
+ * Clamp a crop to valid values; null for anything that isn't a crop
+ */
+export function normalizeArtworkCrop(value: unknown): ArtworkCrop | null {
+  if (!value || typeof value !== 'object') return null;
+
+  const { focalX, focalY, zoom } = value as Record<string, unknown>;
+  if (![focalX, focalY, zoom].every(n => typeof n === 'number' && Number.isFinite(n))) {
+    return null;
+  }
+
+  return {
+    focalX: clamp(focalX as number, 0, 1),
+    focalY: clamp(focalY as number, 0, 1),
+    zoom: clamp(zoom as number, 1, MAX_CROP_ZOOM),
+  };
+}
+
+/**
+ * Whether the crop is the centred, unzoomed crop Prodigi applies on its own
+ */
+export function isDefaultCrop(crop: ArtworkCrop | null | undefined): boolean {
+  return !crop || (crop.focalX === 0.5 && crop.focalY === 0.5 && crop.zoom === 1);
+}
+
+/**
+ * The part of the image printed when it fills a print area of `targetAspect`
+ * (width / height): the largest rectangle of that aspect, shrunk by the zoom,
+ * centred on the focal point and kept inside the image.
+ */
+export function getCropRect(
+  image: ImageDimensions,
+  targetAspect: number,
+  crop: ArtworkCrop = DEFAULT_ARTWORK_CROP
+): CropRect {
+  const imageAspect = image.width / image.height;
+  const zoom = clamp(crop.zoom, 1, MAX_CROP_ZOOM);
+
+  const width = (imageAspect > targetAspect ? targetAspect / imageAspect : 1) / zoom;
+  const height = (imageAspect > targetAspect ? 1 : imageAspect / targetAspect) / zoom;
+
+  return {
+    x: clamp(crop.focalX - width / 2, 0, 1 - width),
+    y: clamp(crop.focalY - height / 2, 0, 1 - height),
+    width,
+    height,
+  };
+}
+
+// ============================================================================
+// SETTINGS
+// ============================================================================
+
+export function isPrintSizing(value: unknown): value is SizingOption {
+  return typeof value === 'string' && (SIZING_OPTIONS as string[]).includes(value);
+}
+
+/**
+ * Print settings from product metadata or an order item snapshot. A crop is
+ * only kept for fill, the one sizing that crops.
+ */
+export function getPrintSettings(source: { sizing?: unknown; crop?: unknown } | null | undefined): PrintSettings {
+  const sizing = isPrintSizing(source?.sizing) ? source.sizing : DEFAULT_PRINT_SIZING;
+  const crop = sizing === 'fillPrintArea' ? normalizeArtworkCrop(source?.crop) : null;
+
+  return crop && !isDefaultCrop(crop) ? { sizing, crop } : { sizing };
+}
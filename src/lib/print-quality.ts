@@ -0,0 +1,156 @@
+/**
+ * Print Quality
+ *
+ * Rates how well an image will print at a size from its effective DPI: the
+ * pixels per inch left after the image is scaled to cover the print area
+ * (and cropped to its aspect ratio, or to the customer's zoomed crop). Sizes
+ * below MIN_PRINT_DPI are blocked at checkout. Pure functions only, so the
+ * studio can rate sizes client-side.
+ */
+
+import { getCropRect, type ArtworkCrop } from '@/lib/print-crop';
+import { parseSizeInches } from '@/lib/utils/size-conversion';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type PrintQualityRating = 'excellent' | 'good' | 'poor' | 'blocked';
+
+export interface ImageDimensions {
+  width: number;
+  height: number;
+}
+
+export interface PrintQuality {
+  size: string;
+  /** Effective DPI, rounded down */
+  dpi: number;
+  rating: PrintQualityRating;
+  /** Smallest image, in pixels, that would rate 'good' at this size */
+  recommendedPixels: ImageDimensions;
+}
+
+// ============================================================================
+// THRESHOLDS
+// ============================================================================
+
+export const PRINT_DPI_THRESHOLDS = {
+  excellent: 250,
+  good: 150,
+  // Hard floor: anything below is blocked
+  poor: 75,
+} as const;
+
+export const MIN_PRINT_DPI = PRINT_DPI_THRESHOLDS.poor;
+
+/**
+ * Resolution Prodigi's print-area pixel sizes (ProductsAPI.getPrintAreaDimensions)
+ * are given at, used to turn them back into inches
+ */
+export const PRODIGI_PRINT_AREA_DPI = 300;
+
+export const PRINT_QUALITY_LABELS: Record<PrintQualityRating, string> = {
+  excellent: 'Excellent quality',
+  good: 'Good quality',
+  poor: 'May look soft',
+  blocked: 'Resolution too low',
+};
+
+// ============================================================================
+// RATING
+// ============================================================================
+
+export function ratePrintDpi(dpi: number): PrintQualityRating {
+  if (dpi >= PRINT_DPI_THRESHOLDS.excellent) return 'excellent';
+  if (dpi >= PRINT_DPI_THRESHOLDS.good) return 'good';
+  if (dpi >= PRINT_DPI_THRESHOLDS.poor) return 'poor';
+  return 'blocked';
+}
+
+/**
+ * Pixels per inch when the image covers a print area of the given inches.
+ * The print area is matched to the image's orientation first, since a
+ * landscape image is printed on the landscape variant of a size.
+ */
+export function getEffectiveDpi(image: ImageDimensions, printArea: ImageDimensions): number {
+  const imageLandscape = image.width >= image.height;
+  const areaLandscape = printArea.width >= printArea.height;
+  const area = imageLandscape === areaLandscape
+    ? printArea
+    : { width: printArea.height, height: printArea.width };
+
+  return Math.min(image.width / area.width, image.height / area.height);
+}
+
+/**
+ * Pixel size of the part of the image a fill crop prints (see getCropRect)
+ */
+export function getCroppedDimensions(
+  image: ImageDimensions,
+  printArea: ImageDimensions,
+  crop: ArtworkCrop
+): ImageDimensions {
+  const rect = getCropRect(image, printArea.width / printArea.height, crop);
+  return { width: image.width * rect.width, height: image.height * rect.height };
+}
+
+/**
+ * Rate an image at a size ("16x20", in inches). When Prodigi's print-area
+ * pixel size is known it is used instead of the nominal size, so bleed and
+ * canvas wraps are accounted for. With a fill crop only the cropped pixels
+ * count, so zooming in lowers the DPI.
+ *
+ * @returns null when the size can't be parsed or the image has no dimensions
+ */
+export function assessPrintQuality(
+  image: ImageDimensions | null | undefined,
+  size: string,
+  printAreaPixels?: ImageDimensions | null,
+  crop?: ArtworkCrop | null
+): PrintQuality | null {
+  if (!image?.width || !image?.height) {
+    return null;
+  }
+
+  const printArea = printAreaPixels?.width && printAreaPixels?.height
+    ? {
+        width: printAreaPixels.width / PRODIGI_PRINT_AREA_DPI,
+        height: printAreaPixels.height / PRODIGI_PRINT_AREA_DPI,
+      }
+    : parseSizeInches(size);
+
+  if (!printArea) {
+    return null;
+  }
+
+  const dpi = getEffectiveDpi(crop ? getCroppedDimensions(image, printArea, crop) : image, printArea);
+
+  return {
+    size,
+    dpi: Math.floor(dpi),
+    rating: ratePrintDpi(dpi),
+    recommendedPixels: {
+      width: Math.ceil(printArea.width * PRINT_DPI_THRESHOLDS.good),
+      height: Math.ceil(printArea.height * PRINT_DPI_THRESHOLDS.good),
+    },
+  };
+}
+
+/**
+ * Rate an image at every size, keyed by size; sizes that can't be rated are omitted
+ */
+export function assessPrintSizes(
+  image: ImageDimensions | null | undefined,
+  sizes: string[],
+  crop?: ArtworkCrop | null
+): Record<string, PrintQuality> {
+  const result: Record<string, PrintQuality> = {};
+  for (const size of sizes) {
+    const quality = assessPrintQuality(image, size, null, crop);
+    if (quality) {
+      result[size] = quality;
+    }
+  }
+  return result;
+}
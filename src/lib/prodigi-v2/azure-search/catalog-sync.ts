@@ -0,0 +1,475 @@
+/**
+ * Prodigi Catalog Sync
+ *
+ * Snapshots Prodigi's live Azure Search index into our catalog mirror
+ * (prodigi_catalog_products), which is what every catalog search, facet and
+ * SKU lookup in the app reads from (see mirror-client.ts). Each run is a
+ * prodigi_catalog_syncs row with a diff report of the products added,
+ * removed and changed since the previous sync.
+ *
+ * A run only touches the mirror once it has the complete catalog, so a
+ * failed or partial read of the index leaves the previous snapshot in place.
+ * Runs that would remove a large share of the catalog are refused unless
+ * forced - that is far more likely to be an index problem than Prodigi
+ * withdrawing a fifth of its products overnight.
+ */
+
+import { createHash } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ProdigiCatalogProduct, SearchFacets } from './types';
+import { buildFacets } from './query-engine';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type CatalogSyncStatus = 'running' | 'succeeded' | 'failed';
+export type CatalogSyncTrigger = 'schedule' | 'manual';
+
+export interface CatalogProductChange {
+  sku: string;
+  /** Top-level document fields whose value changed */
+  fields: string[];
+}
+
+export interface CatalogDiffReport {
+  added: string[];
+  removed: string[];
+  changed: CatalogProductChange[];
+  /** True when a list was cut to DIFF_REPORT_LIMIT entries; the counts are exact */
+  truncated: boolean;
+}
+
+export interface CatalogSyncRun {
+  id: string;
+  status: CatalogSyncStatus;
+  trigger: CatalogSyncTrigger;
+  triggeredBy: string | null;
+  productCount: number;
+  addedCount: number;
+  removedCount: number;
+  changedCount: number;
+  diff: CatalogDiffReport | null;
+  facets: SearchFacets | null;
+  error: string | null;
+  startedAt: string;
+  completedAt: string | null;
+}
+
+/** A product as currently stored in the mirror */
+export interface MirroredProduct {
+  sku: string;
+  document: ProdigiCatalogProduct;
+  contentHash: string;
+  removed: boolean;
+}
+
+export interface CatalogDiff {
+  added: ProdigiCatalogProduct[];
+  changed: Array<{ product: ProdigiCatalogProduct; fields: string[] }>;
+  removed: string[];
+  unchanged: number;
+}
+
+/** Where the catalog is read from - the live index client in production */
+export interface CatalogSyncSource {
+  fetchCatalogPage(skip: number, top: number): Promise<{ products: ProdigiCatalogProduct[]; totalCount: number }>;
+}
+
+export interface CatalogSyncServiceDeps {
+  source: CatalogSyncSource;
+  now?: () => Date;
+}
+
+export interface CatalogSyncOptions {
+  trigger?: CatalogSyncTrigger;
+  /** Staff member who started a manual sync */
+  triggeredBy?: string;
+  /** Apply the sync even if it removes more than MAX_REMOVED_SHARE of the catalog */
+  force?: boolean;
+}
+
+export class CatalogSyncError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = 'CatalogSyncError';
+    Object.setPrototypeOf(this, CatalogSyncError.prototype);
+  }
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+// Azure Search returns at most 1000 documents per request
+const SOURCE_PAGE_SIZE = 1000;
+const READ_PAGE_SIZE = 1000;
+const WRITE_BATCH_SIZE = 500;
+
+export const MAX_REMOVED_SHARE = 0.2;
+export const DIFF_REPORT_LIMIT = 500;
+
+// A run still marked running after this long died without finishing
+const ABANDONED_RUN_MS = 60 * 60 * 1000;
+
+// Per-query relevance, not part of the product
+const VOLATILE_FIELDS = new Set(['@search.score']);
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Strip per-query fields from an index document
+ */
+export function normalizeProduct(product: ProdigiCatalogProduct): ProdigiCatalogProduct {
+  const document: Record<string, unknown> = { ...product };
+  for (const field of VOLATILE_FIELDS) {
+    delete document[field];
+  }
+  return document as unknown as ProdigiCatalogProduct;
+}
+
+/**
+ * SHA-256 of a product document, independent of key order
+ */
+export function hashProduct(product: ProdigiCatalogProduct): string {
+  return createHash('sha256').update(stableStringify(normalizeProduct(product))).digest('hex');
+}
+
+/**
+ * Top-level fields that differ between two versions of a product
+ */
+export function changedFields(previous: ProdigiCatalogProduct, next: ProdigiCatalogProduct): string[] {
+  const before = previous as unknown as Record<string, unknown>;
+  const after = next as unknown as Record<string, unknown>;
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  return Array.from(keys)
+    .filter(key => !VOLATILE_FIELDS.has(key))
+    .filter(key => stableStringify(before[key]) !== stableStringify(after[key]))
+    .sort();
+}
+
+/**
+ * Compare the mirror with a fresh copy of the catalog. Products the mirror
+ * has marked removed count as added if they reappear.
+ */
+export function diffCatalog(previous: MirroredProduct[], next: ProdigiCatalogProduct[]): CatalogDiff {
+  const active = new Map(previous.filter(p => !p.removed).map(p => [p.sku, p]));
+  const nextSkus = new Set(next.map(product => product.sku));
+  const diff: CatalogDiff = { added: [], changed: [], removed: [], unchanged: 0 };
+
+  for (const product of next) {
+    const existing = active.get(product.sku);
+    if (!existing) {
+      diff.added.push(product);
+    } else if (existing.contentHash !== hashProduct(product)) {
+      diff.changed.push({ product, fields: changedFields(existing.document, product) });
+    } else {
+      diff.unchanged++;
+    }
+  }
+
+  diff.removed = Array.from(active.keys()).filter(sku => !nextSkus.has(sku));
+  return diff;
+}
+
+/**
+ * The stored form of a diff: SKUs only, each list capped at DIFF_REPORT_LIMIT
+ */
+export function toDiffReport(diff: CatalogDiff): CatalogDiffReport {
+  const truncated = [diff.added, diff.removed, diff.changed].some(list => list.length > DIFF_REPORT_LIMIT);
+  return {
+    added: diff.added.slice(0, DIFF_REPORT_LIMIT).map(product => product.sku).sort(),
+    removed: diff.removed.slice(0, DIFF_REPORT_LIMIT).sort(),
+    changed: diff.changed
+      .slice(0, DIFF_REPORT_LIMIT)
+      .map(({ product, fields }) => ({ sku: product.sku, fields }))
+      .sort((a, b) => a.sku.localeCompare(b.sku)),
+    truncated,
+  };
+}
+
+function mapRun(row: any): CatalogSyncRun {
+  return {
+    id: row.id,
+    status: row.status,
+    trigger: row.trigger,
+    triggeredBy: row.triggered_by ?? null,
+    productCount: row.product_count ?? 0,
+    addedCount: row.added_count ?? 0,
+    removedCount: row.removed_count ?? 0,
+    changedCount: row.changed_count ?? 0,
+    diff: row.diff ?? null,
+    facets: row.facets ?? null,
+    error: row.error ?? null,
+    startedAt: row.started_at,
+    completedAt: row.completed_at ?? null,
+  };
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+export class CatalogSyncService {
+  private readonly now: () => Date;
+
+  constructor(
+    private readonly supabase: SupabaseClient,
+    private readonly deps: CatalogSyncServiceDeps
+  ) {
+    this.now = deps.now ?? (() => new Date());
+  }
+
+  /**
+   * Copy the live catalog into the mirror and record what changed.
+   * Failures are recorded on the run and rethrown.
+   */
+  async run(options: CatalogSyncOptions = {}): Promise<CatalogSyncRun> {
+    const runId = await this.startRun(options);
+
+    try {
+      const products = await this.fetchCatalog();
+      const previous = await this.loadMirror();
+      const diff = diffCatalog(previous, products);
+
+      const activeCount = previous.filter(p => !p.removed).length;
+      if (!options.force && activeCount > 0 && diff.removed.length > activeCount * MAX_REMOVED_SHARE) {
+        throw new CatalogSyncError(
+          `The sync would remove ${diff.removed.length} of ${activeCount} products; run it with force to apply`,
+          409,
+          { removed: diff.removed.length, active: activeCount }
+        );
+      }
+
+      await this.applyDiff(runId, diff);
+
+      const { data, error } = await this.supabase
+        .from('prodigi_catalog_syncs')
+        .update({
+          status: 'succeeded',
+          product_count: products.length,
+          added_count: diff.added.length,
+          removed_count: diff.removed.length,
+          changed_count: diff.changed.length,
+          diff: toDiffReport(diff),
+          facets: buildFacets(products),
+          completed_at: this.now().toISOString(),
+        })
+        .eq('id', runId)
+        .select()
+        .single();
+
+      if (error || !data) {
+        throw new CatalogSyncError('Failed to record the catalog sync', 500, error?.message);
+      }
+
+      console.log(
+        `✅ Catalog sync ${runId}: ${products.length} products, ` +
+        `${diff.added.length} added, ${diff.changed.length} changed, ${diff.removed.length} removed`
+      );
+      return mapRun(data);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`❌ Catalog sync ${runId} failed:`, message);
+      await this.supabase
+        .from('prodigi_catalog_syncs')
+        .update({ status: 'failed', error: message, completed_at: this.now().toISOString() })
+        .eq('id', runId);
+      throw error;
+    }
+  }
+
+  /**
+   * Recent runs, newest first
+   */
+  async listRuns(limit: number = 20): Promise<CatalogSyncRun[]> {
+    const { data, error } = await this.supabase
+      .from('prodigi_catalog_syncs')
+      .select('*')
+      .order('started_at', { ascending: false })
+      .limit(Math.min(Math.max(limit, 1), 100));
+
+    if (error) {
+      throw new CatalogSyncError('Failed to load catalog syncs', 500, error.message);
+    }
+    return (data || []).map(mapRun);
+  }
+
+  async getRun(id: string): Promise<CatalogSyncRun> {
+    const { data, error } = await this.supabase
+      .from('prodigi_catalog_syncs')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw new CatalogSyncError('Failed to load catalog sync', 500, error.message);
+    }
+    if (!data) {
+      throw new CatalogSyncError('Catalog sync not found', 404);
+    }
+    return mapRun(data);
+  }
+
+  // ==========================================================================
+  // INTERNALS
+  // ==========================================================================
+
+  private async startRun(options: CatalogSyncOptions): Promise<string> {
+    const cutoff = new Date(this.now().getTime() - ABANDONED_RUN_MS).toISOString();
+
+    await this.supabase
+      .from('prodigi_catalog_syncs')
+      .update({ status: 'failed', error: 'Abandoned', completed_at: this.now().toISOString() })
+      .eq('status', 'running')
+      .lt('started_at', cutoff);
+
+    const { data: running } = await this.supabase
+      .from('prodigi_catalog_syncs')
+      .select('id')
+      .eq('status', 'running')
+      .limit(1)
+      .maybeSingle();
+
+    if (running) {
+      throw new CatalogSyncError('A catalog sync is already running', 409, { runId: running.id });
+    }
+
+    const { data, error } = await this.supabase
+      .from('prodigi_catalog_syncs')
+      .insert({
+        status: 'running',
+        trigger: options.trigger ?? 'schedule',
+        triggered_by: options.triggeredBy ?? null,
+        started_at: this.now().toISOString(),
+      })
+      .select('id')
+      .single();
+
+    if (error || !data) {
+      throw new CatalogSyncError('Failed to start the catalog sync', 500, error?.message);
+    }
+    return data.id;
+  }
+
+  /**
+   * Read the whole index. Refuses an incomplete read - the mirror is only
+   * replaced by a full copy.
+   */
+  private async fetchCatalog(): Promise<ProdigiCatalogProduct[]> {
+    const products = new Map<string, ProdigiCatalogProduct>();
+    let totalCount = 0;
+
+    for (let skip = 0; ; skip += SOURCE_PAGE_SIZE) {
+      const page = await this.deps.source.fetchCatalogPage(skip, SOURCE_PAGE_SIZE);
+      totalCount = page.totalCount;
+
+      for (const product of page.products) {
+        products.set(product.sku, normalizeProduct(product));
+      }
+
+      if (page.products.length < SOURCE_PAGE_SIZE || skip + SOURCE_PAGE_SIZE >= totalCount) break;
+    }
+
+    if (products.size === 0) {
+      throw new CatalogSyncError('The catalog index returned no products', 502);
+    }
+    if (products.size < totalCount) {
+      throw new CatalogSyncError(
+        `The catalog index returned ${products.size} of ${totalCount} products`,
+        502
+      );
+    }
+
+    const catalog = Array.from(products.values());
+    if (!catalog.some(product => product.destinationCountries?.length)) {
+      throw new CatalogSyncError('The catalog index returned products without destination countries', 502);
+    }
+    return catalog;
+  }
+
+  private async loadMirror(): Promise<MirroredProduct[]> {
+    const mirrored: MirroredProduct[] = [];
+
+    for (let from = 0; ; from += READ_PAGE_SIZE) {
+      const { data, error } = await this.supabase
+        .from('prodigi_catalog_products')
+        .select('sku, document, content_hash, removed_at')
+        .order('sku')
+        .range(from, from + READ_PAGE_SIZE - 1);
+
+      if (error) {
+        throw new CatalogSyncError('Failed to read the catalog mirror', 500, error.message);
+      }
+
+      for (const row of data || []) {
+        mirrored.push({
+          sku: row.sku,
+          document: row.document,
+          contentHash: row.content_hash,
+          removed: !!row.removed_at,
+        });
+      }
+      if (!data || data.length < READ_PAGE_SIZE) break;
+    }
+
+    return mirrored;
+  }
+
+  private async applyDiff(runId: string, diff: CatalogDiff): Promise<void> {
+    const timestamp = this.now().toISOString();
+    const upserts = [...diff.added, ...diff.changed.map(change => change.product)].map(product => ({
+      sku: product.sku,
+      category: product.category ?? null,
+      product_type: product.productType ?? null,
+      description: product.description ?? null,
+      destination_countries: product.destinationCountries ?? [],
+      document: product,
+      content_hash: hashProduct(product),
+      sync_id: runId,
+      removed_at: null,
+      updated_at: timestamp,
+    }));
+
+    for (let i = 0; i < upserts.length; i += WRITE_BATCH_SIZE) {
+      const { error } = await this.supabase
+        .from('prodigi_catalog_products')
+        .upsert(upserts.slice(i, i + WRITE_BATCH_SIZE), { onConflict: 'sku' });
+
+      if (error) {
+        throw new CatalogSyncError('Failed to write catalog products', 500, error.message);
+      }
+    }
+
+    for (let i = 0; i < diff.removed.length; i += WRITE_BATCH_SIZE) {
+      const { error } = await this.supabase
+        .from('prodigi_catalog_products')
+        .update({ removed_at: timestamp, sync_id: runId, updated_at: timestamp })
+        .in('sku', diff.removed.slice(i, i + WRITE_BATCH_SIZE));
+
+      if (error) {
+        throw new CatalogSyncError('Failed to remove catalog products', 500, error.message);
+      }
+    }
+  }
+}
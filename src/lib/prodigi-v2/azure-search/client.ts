@@ -1,6 +1,8 @@
 /**
  * Azure Search Client for Prodigi Catalog
- * Handles all interactions with the Azure Cognitive Search index
+ * Talks to Prodigi's live Azure Cognitive Search index. The app queries the
+ * local catalog mirror (mirror-client.ts); this client is the mirror's sync
+ * source and is kept for diagnostic scripts.
  */
 
 import type {
@@ -10,12 +12,14 @@ import type {
   ProdigiSearchOptions,
   SearchResult,
   ProcessedFacets,
-  SearchFacets,
 } from './types';
+import { PRODIGI_CONSTANTS } from './types';
 import { ProdigiQueryBuilder } from './query-builder';
+import { processFacets } from './facets';
 
-const AZURE_SEARCH_ENDPOINT = 'https://pwintylive.search.windows.net/indexes/live-catalogue/docs';
-const AZURE_API_KEY = '9142D85CE18C3AE0349B1FB21956B072';
+// Prodigi's public dashboard index; overridable in case it moves
+const AZURE_SEARCH_ENDPOINT = process.env.PRODIGI_CATALOG_INDEX_URL || PRODIGI_CONSTANTS.SEARCH_ENDPOINT;
+const AZURE_API_KEY = process.env.PRODIGI_CATALOG_INDEX_KEY || PRODIGI_CONSTANTS.API_KEY;
 const CACHE_TTL = 60 * 60 * 1000; // 1 hour for facet data
 
 interface CacheEntry<T> {
@@ -84,7 +88,7 @@ export class AzureSearchClient {
         products: data.value,
         totalCount: data['@odata.count'] || 0,
         facets: data['@search.facets']
-          ? this.processFacets(data['@search.facets'])
+          ? processFacets(data['@search.facets'])
           : undefined,
         appliedFilters: filters,
       };
@@ -165,113 +169,40 @@ export class AzureSearchClient {
   }
   
   /**
-   * Process raw facets into user-friendly format
+   * Fetch one page of the whole catalog, every destination country included.
+   * Used by the catalog sync; `$count` is requested so the caller can check
+   * it received every product.
    */
-  private processFacets(rawFacets: SearchFacets): ProcessedFacets {
+  async fetchCatalogPage(
+    skip: number,
+    top: number
+  ): Promise<{ products: ProdigiCatalogProduct[]; totalCount: number }> {
+    const url = new URL(AZURE_SEARCH_ENDPOINT);
+    url.searchParams.append('api-version', PRODIGI_CONSTANTS.API_VERSION);
+    url.searchParams.append('search', '*');
+    url.searchParams.append('$count', 'true');
+    url.searchParams.append('$top', String(top));
+    url.searchParams.append('$skip', String(skip));
+
+    const response = await fetch(url.toString(), {
+      method: 'GET',
+      headers: {
+        'api-key': AZURE_API_KEY,
+        'Accept': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Azure Search API error: ${response.status} ${response.statusText}`);
+    }
+
+    const data: AzureSearchResponse<ProdigiCatalogProduct> = await response.json();
     return {
-      frames: this.processFacetValues(rawFacets.frame),
-      frameColors: this.processFacetValues(rawFacets.frameColour),
-      glazes: this.processFacetValues(rawFacets.glaze),
-      mounts: this.processFacetValues(rawFacets.mount),
-      mountColors: this.processFacetValues(rawFacets.mountColour),
-      paperTypes: this.processFacetValues(rawFacets.paperType),
-      finishes: this.processFacetValues(rawFacets.finish),
-      edges: this.processFacetValues(rawFacets.edge),
-      sizes: this.processFacetValues(rawFacets.size),
-      dimensionRanges: this.processRangeFacets(rawFacets.maxProductDimensionsMm),
-      aspectRatios: this.processRangeFacets(rawFacets.productAspectRatio),
-    };
-  }
-  
-  /**
-   * Process value facets
-   */
-  private processFacetValues(facets: Array<{ value: string; count: number }> | undefined) {
-    if (!facets) return [];
-    
-    return facets.map(facet => ({
-      value: facet.value,
-      label: this.getFacetLabel(facet.value),
-      count: facet.count,
-      available: facet.count > 0,
-    }));
-  }
-  
-  /**
-   * Process range facets
-   */
-  private processRangeFacets(
-    facets: Array<{ from?: number; to?: number; count: number }> | undefined
-  ) {
-    if (!facets) return [];
-    
-    return facets.map(facet => ({
-      from: facet.from,
-      to: facet.to,
-      label: this.getRangeLabel(facet.from, facet.to),
-      count: facet.count,
-      available: facet.count > 0,
-    }));
-  }
-  
-  /**
-   * Get user-friendly label for facet values
-   */
-  private getFacetLabel(value: string): string {
-    // Expand common abbreviations
-    const expansions: Record<string, string> = {
-      'sc': 'Standard Canvas',
-      'mc': 'Metallic Canvas',
-      'ema': 'Enhanced Matte Art',
-      'lpp': 'Lustre Photo Paper',
-      'hpr': 'High Gloss Photo',
-      'hge': 'German Etching',
-      'cpwp': 'Cold Press Watercolour',
-      'sap': 'Standard Art Paper',
-      'bap': 'Budget Art Paper',
-      'spr': 'Standard Photo Paper',
-      'bpp': 'Budget Photo Paper',
+      products: data.value,
+      totalCount: data['@odata.count'] || 0,
     };
-    
-    // Check if it's an abbreviation
-    if (expansions[value.toLowerCase()]) {
-      return expansions[value.toLowerCase()];
-    }
-    
-    // Capitalize each word
-    return value
-      .split(' ')
-      .map(word => word.charAt(0).toUpperCase() + word.slice(1))
-      .join(' ');
-  }
-  
-  /**
-   * Get label for range facets
-   */
-  private getRangeLabel(from?: number, to?: number): string {
-    if (from === undefined && to !== undefined) {
-      return `Under ${this.formatDimension(to)}`;
-    }
-    if (to === undefined && from !== undefined) {
-      return `Over ${this.formatDimension(from)}`;
-    }
-    if (from !== undefined && to !== undefined) {
-      return `${this.formatDimension(from)} - ${this.formatDimension(to)}`;
-    }
-    return 'Unknown range';
-  }
-  
-  /**
-   * Format dimension for display
-   */
-  private formatDimension(mm: number): string {
-    const cm = mm / 10;
-    if (cm >= 100) {
-      return `${(cm / 100).toFixed(1)}m`;
-    }
-    return `${cm}cm`;
   }
-  
+
   /**
    * Generate cache key
    */
@@ -1,11 +1,11 @@
 /**
  * Facet Service for Dynamic Product Option Validation
  * 
- * This service queries Prodigi's Azure Search to determine which options
+ * This service queries our mirror of Prodigi's catalog to determine which options
  * are valid for a given configuration, enabling dynamic UI updates.
  */
 
-import { azureSearchClient } from './client';
+import { catalogMirrorClient } from './mirror-client';
 import type { ProdigiSearchFilters, SearchResult } from './types';
 import { getColorsForProductType, getColorDisplayName, hasColorAttribute } from '../constants/colors';
 
@@ -186,7 +186,7 @@ class FacetService {
   }
 
   /**
-   * Query facets from Azure Search
+   * Query facets from the catalog mirror
    */
   private async queryFacets(
     productType: string,
@@ -229,7 +229,7 @@ class FacetService {
       }
     }
 
-    const result: SearchResult = await azureSearchClient.search(normalizedFilters, {
+    const result: SearchResult = await catalogMirrorClient.search(normalizedFilters, {
       top: 0, // We only need facets, not products
       includeFacets: true,
     });
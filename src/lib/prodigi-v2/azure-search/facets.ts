@@ -0,0 +1,111 @@
+/**
+ * Facet Processing for the Prodigi Catalog
+ * Turns raw Azure Search style facets into the labelled ProcessedFacets the UI uses.
+ * Shared by the live index client and the local catalog mirror.
+ */
+
+import type {
+  FacetValue,
+  ProcessedFacet,
+  ProcessedFacets,
+  ProcessedRangeFacet,
+  RangeFacetValue,
+  SearchFacets,
+} from './types';
+
+// Paper type abbreviations used as facet values in the catalog
+const LABEL_EXPANSIONS: Record<string, string> = {
+  'sc': 'Standard Canvas',
+  'mc': 'Metallic Canvas',
+  'ema': 'Enhanced Matte Art',
+  'lpp': 'Lustre Photo Paper',
+  'hpr': 'High Gloss Photo',
+  'hge': 'German Etching',
+  'cpwp': 'Cold Press Watercolour',
+  'sap': 'Standard Art Paper',
+  'bap': 'Budget Art Paper',
+  'spr': 'Standard Photo Paper',
+  'bpp': 'Budget Photo Paper',
+};
+
+/**
+ * Process raw facets into user-friendly format
+ */
+export function processFacets(rawFacets: SearchFacets): ProcessedFacets {
+  return {
+    frames: processFacetValues(rawFacets.frame),
+    frameColors: processFacetValues(rawFacets.frameColour),
+    glazes: processFacetValues(rawFacets.glaze),
+    mounts: processFacetValues(rawFacets.mount),
+    mountColors: processFacetValues(rawFacets.mountColour),
+    paperTypes: processFacetValues(rawFacets.paperType),
+    finishes: processFacetValues(rawFacets.finish),
+    edges: processFacetValues(rawFacets.edge),
+    sizes: processFacetValues(rawFacets.size),
+    dimensionRanges: processRangeFacets(rawFacets.maxProductDimensionsMm),
+    aspectRatios: processRangeFacets(rawFacets.productAspectRatio),
+  };
+}
+
+function processFacetValues(facets: FacetValue[] | undefined): ProcessedFacet[] {
+  if (!facets) return [];
+
+  return facets.map(facet => ({
+    value: facet.value,
+    label: getFacetLabel(facet.value),
+    count: facet.count,
+    available: facet.count > 0,
+  }));
+}
+
+function processRangeFacets(facets: RangeFacetValue[] | undefined): ProcessedRangeFacet[] {
+  if (!facets) return [];
+
+  return facets.map(facet => ({
+    from: facet.from,
+    to: facet.to,
+    label: getRangeLabel(facet.from, facet.to),
+    count: facet.count,
+    available: facet.count > 0,
+  }));
+}
+
+/**
+ * Get user-friendly label for facet values
+ */
+export function getFacetLabel(value: string): string {
+  const expansion = LABEL_EXPANSIONS[value.toLowerCase()];
+  if (expansion) {
+    return expansion;
+  }
+
+  // Capitalize each word
+  return value
+    .split(' ')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+/**
+ * Get label for range facets
+ */
+export function getRangeLabel(from?: number, to?: number): string {
+  if (from === undefined && to !== undefined) {
+    return `Under ${formatDimension(to)}`;
+  }
+  if (to === undefined && from !== undefined) {
+    return `Over ${formatDimension(from)}`;
+  }
+  if (from !== undefined && to !== undefined) {
+    return `${formatDimension(from)} - ${formatDimension(to)}`;
+  }
+  return 'Unknown range';
+}
+
+function formatDimension(mm: number): string {
+  const cm = mm / 10;
+  if (cm >= 100) {
+    return `${(cm / 100).toFixed(1)}m`;
+  }
+  return `${cm}cm`;
+}
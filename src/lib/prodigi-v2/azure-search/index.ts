@@ -26,7 +26,10 @@ export { PRODIGI_CONSTANTS } from './types';
 
 // Re-export clients and utilities
 export { azureSearchClient, AzureSearchClient } from './client';
+export { catalogMirrorClient, CatalogMirrorClient, CatalogMirrorError } from './mirror-client';
 export { ProdigiQueryBuilder } from './query-builder';
+export { processFacets } from './facets';
+export { queryCatalog, matchesFilters, buildFacets, rankProducts } from './query-engine';
 export { productMatcher, ProductMatcher } from './product-matcher';
 
 // Re-export utility functions
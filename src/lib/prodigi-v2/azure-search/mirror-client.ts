@@ -0,0 +1,193 @@
+/**
+ * Catalog Mirror Client
+ * Serves catalog searches, facets and SKU lookups from our Supabase copy of
+ * Prodigi's catalog (kept up to date by catalog-sync.ts). Same contract as
+ * AzureSearchClient, so callers don't care which one they have.
+ *
+ * The active products are held in memory and reloaded when a newer sync has
+ * succeeded; queries run through the local query engine.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  ProdigiCatalogProduct,
+  ProdigiSearchFilters,
+  ProdigiSearchOptions,
+  ProcessedFacets,
+  SearchResult,
+} from './types';
+import { processFacets } from './facets';
+import { queryCatalog } from './query-engine';
+
+// How long a loaded snapshot is used before checking for a newer sync
+const REFRESH_INTERVAL_MS = 5 * 60 * 1000;
+const PAGE_SIZE = 1000;
+
+export class CatalogMirrorError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 503,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = 'CatalogMirrorError';
+    Object.setPrototypeOf(this, CatalogMirrorError.prototype);
+  }
+}
+
+interface MirrorSnapshot {
+  syncId: string;
+  products: ProdigiCatalogProduct[];
+  checkedAt: number;
+}
+
+function createServiceSupabase(): SupabaseClient {
+  // Required lazily: this module is reachable from client bundles
+  const { createServiceClient } = require('@/lib/supabase/server');
+  return createServiceClient();
+}
+
+export class CatalogMirrorClient {
+  private snapshot: MirrorSnapshot | null = null;
+  private loading: Promise<MirrorSnapshot> | null = null;
+
+  constructor(
+    private readonly getSupabase: () => SupabaseClient = createServiceSupabase,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /**
+   * Search the mirrored catalog with filters
+   */
+  async search(
+    filters: ProdigiSearchFilters,
+    options: ProdigiSearchOptions = {}
+  ): Promise<SearchResult> {
+    const { products } = await this.getSnapshot();
+    const result = queryCatalog(products, filters, options);
+
+    return {
+      products: result.products,
+      totalCount: result.totalCount,
+      facets: result.facets ? processFacets(result.facets) : undefined,
+      appliedFilters: filters,
+    };
+  }
+
+  /**
+   * Get only facets (no products)
+   */
+  async getFacets(filters: ProdigiSearchFilters): Promise<ProcessedFacets> {
+    const result = await this.search(filters, { top: 0, includeFacets: true });
+    return result.facets!;
+  }
+
+  /**
+   * Get products by SKUs, limited to those that ship to the country
+   */
+  async getProductsBySku(skus: string[], country: string): Promise<ProdigiCatalogProduct[]> {
+    if (skus.length === 0) return [];
+
+    const { products } = await this.getSnapshot();
+    const wanted = new Set(skus);
+    return products.filter(product =>
+      wanted.has(product.sku) && !!product.destinationCountries?.includes(country)
+    );
+  }
+
+  /**
+   * Get a single product by SKU
+   */
+  async getProductBySku(sku: string, country: string): Promise<ProdigiCatalogProduct | null> {
+    const products = await this.getProductsBySku([sku], country);
+    return products[0] || null;
+  }
+
+  /**
+   * Drop the loaded snapshot; the next query reloads it
+   */
+  clearCache(): void {
+    this.snapshot = null;
+  }
+
+  private async getSnapshot(): Promise<MirrorSnapshot> {
+    const current = this.snapshot;
+    if (current && this.now() - current.checkedAt < REFRESH_INTERVAL_MS) {
+      return current;
+    }
+
+    if (!this.loading) {
+      this.loading = this.refresh(current).finally(() => {
+        this.loading = null;
+      });
+    }
+    return this.loading;
+  }
+
+  private async refresh(current: MirrorSnapshot | null): Promise<MirrorSnapshot> {
+    const supabase = this.getSupabase();
+
+    try {
+      const { data: sync, error } = await supabase
+        .from('prodigi_catalog_syncs')
+        .select('id')
+        .eq('status', 'succeeded')
+        .order('completed_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        throw new CatalogMirrorError('Failed to read the catalog mirror', 503, error.message);
+      }
+      if (!sync) {
+        throw new CatalogMirrorError('The catalog mirror is empty; the catalog sync has not run yet');
+      }
+
+      if (current && current.syncId === sync.id) {
+        const unchanged: MirrorSnapshot = { ...current, checkedAt: this.now() };
+        this.snapshot = unchanged;
+        return unchanged;
+      }
+
+      const products = await this.loadProducts(supabase);
+      const loaded: MirrorSnapshot = { syncId: sync.id, products, checkedAt: this.now() };
+      this.snapshot = loaded;
+      console.log(`📦 Catalog mirror loaded: ${products.length} products (sync ${sync.id})`);
+      return loaded;
+    } catch (error) {
+      // Keep serving what we have rather than failing every catalog request
+      if (current) {
+        console.warn('⚠️ Catalog mirror refresh failed, serving the loaded snapshot:', error);
+        const stale: MirrorSnapshot = { ...current, checkedAt: this.now() };
+        this.snapshot = stale;
+        return stale;
+      }
+      throw error;
+    }
+  }
+
+  private async loadProducts(supabase: SupabaseClient): Promise<ProdigiCatalogProduct[]> {
+    const products: ProdigiCatalogProduct[] = [];
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('prodigi_catalog_products')
+        .select('document')
+        .is('removed_at', null)
+        .order('sku')
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        throw new CatalogMirrorError('Failed to load the catalog mirror', 503, error.message);
+      }
+
+      products.push(...(data || []).map(row => row.document as ProdigiCatalogProduct));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    return products;
+  }
+}
+
+// Singleton instance
+export const catalogMirrorClient = new CatalogMirrorClient();
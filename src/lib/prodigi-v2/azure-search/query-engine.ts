@@ -0,0 +1,207 @@
+/**
+ * Local Catalog Query Engine
+ * Evaluates ProdigiSearchFilters against mirrored catalog products in memory.
+ * Filters mean exactly what ProdigiQueryBuilder's OData expression means to
+ * the live index, and facets are counted the way the index counts them.
+ */
+
+import type {
+  FacetValue,
+  ProdigiCatalogProduct,
+  ProdigiSearchFilters,
+  ProdigiSearchOptions,
+  RangeFacetValue,
+  SearchFacets,
+} from './types';
+
+type ValueFacetField =
+  | 'frame' | 'frameColour' | 'glaze' | 'mount' | 'mountColour' | 'paperType'
+  | 'finish' | 'edge' | 'size' | 'category' | 'style' | 'brand' | 'gender';
+type RangeFacetField = 'maxProductDimensionsMm' | 'productAspectRatio';
+
+// Multi-value filters and the collection each one matches (any value in common)
+const COLLECTION_FILTERS: Array<[keyof ProdigiSearchFilters, ValueFacetField]> = [
+  ['frameColors', 'frameColour'],
+  ['frameStyles', 'frame'],
+  ['glazes', 'glaze'],
+  ['mounts', 'mount'],
+  ['mountColors', 'mountColour'],
+  ['paperTypes', 'paperType'],
+  ['finishes', 'finish'],
+  ['edges', 'edge'],
+];
+
+// The facets ProdigiQueryBuilder asks for, with their bucket limits
+// (Azure Search returns 10 values when the facet has no count)
+const VALUE_FACETS: Array<[ValueFacetField, number]> = [
+  ['frame', 100],
+  ['frameColour', 100],
+  ['glaze', 100],
+  ['mount', 100],
+  ['mountColour', 100],
+  ['paperType', 100],
+  ['finish', 100],
+  ['edge', 10],
+  ['size', 100],
+  ['category', 10],
+  ['style', 100],
+  ['brand', 10],
+  ['gender', 10],
+];
+
+const RANGE_FACETS: Array<[RangeFacetField, number[]]> = [
+  ['maxProductDimensionsMm', [300, 500, 700, 1000, 1500]],
+  ['productAspectRatio', [95, 105]],
+];
+
+const DEFAULT_TOP = 50;
+const PRODUCTION_COUNTRY_PREFIX = 'prodCountry-';
+
+export interface CatalogQueryResult {
+  products: ProdigiCatalogProduct[];
+  totalCount: number;
+  /** Raw facets over every match, not just the returned page */
+  facets?: SearchFacets;
+}
+
+/**
+ * Whether a product matches the filters
+ */
+export function matchesFilters(product: ProdigiCatalogProduct, filters: ProdigiSearchFilters): boolean {
+  if (!product.destinationCountries?.includes(filters.country)) return false;
+  if (filters.category && product.category !== filters.category) return false;
+
+  for (const [filterKey, field] of COLLECTION_FILTERS) {
+    const wanted = filters[filterKey] as string[] | undefined;
+    if (wanted?.length && !valuesOf(product, field).some(value => wanted.includes(value))) {
+      return false;
+    }
+  }
+
+  if (filters.productTypes?.length && !filters.productTypes.includes(product.productType)) return false;
+
+  if (!inRange(product.maxProductDimensionsMm, filters.minDimensionMm, filters.maxDimensionMm)) return false;
+  if (!inRange(product.productAspectRatio, filters.aspectRatioMin, filters.aspectRatioMax)) return false;
+
+  return true;
+}
+
+/**
+ * Count facet values across products. Each product counts once per distinct
+ * value; values are ordered by count, then alphabetically.
+ */
+export function buildFacets(products: ProdigiCatalogProduct[]): SearchFacets {
+  const facets: SearchFacets = {};
+
+  for (const [field, limit] of VALUE_FACETS) {
+    const counts = new Map<string, number>();
+    for (const product of products) {
+      for (const value of new Set(valuesOf(product, field))) {
+        counts.set(value, (counts.get(value) || 0) + 1);
+      }
+    }
+
+    facets[field] = Array.from(counts, ([value, count]): FacetValue => ({ value, count }))
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+      .slice(0, limit);
+  }
+
+  for (const [field, bounds] of RANGE_FACETS) {
+    facets[field] = countRanges(products.map(product => product[field]), bounds);
+  }
+
+  return facets;
+}
+
+/**
+ * Order products as the index does for a match-all search: products made in
+ * the boosted production country first, then by Prodigi's search weighting.
+ * SKU breaks ties so pages are stable.
+ */
+export function rankProducts(
+  products: ProdigiCatalogProduct[],
+  options: ProdigiSearchOptions = {}
+): ProdigiCatalogProduct[] {
+  const boostCountry = options.scoringParameter?.startsWith(PRODUCTION_COUNTRY_PREFIX)
+    ? options.scoringParameter.slice(PRODUCTION_COUNTRY_PREFIX.length)
+    : null;
+  const boost = (product: ProdigiCatalogProduct) =>
+    boostCountry && product.productionCountries?.includes(boostCountry) ? 1 : 0;
+
+  return [...products].sort((a, b) =>
+    boost(b) - boost(a) ||
+    (b.searchWeighting || 0) - (a.searchWeighting || 0) ||
+    a.sku.localeCompare(b.sku)
+  );
+}
+
+/**
+ * Run a search: filter, rank, page and (optionally) facet
+ */
+export function queryCatalog(
+  products: ProdigiCatalogProduct[],
+  filters: ProdigiSearchFilters,
+  options: ProdigiSearchOptions = {}
+): CatalogQueryResult {
+  const top = options.top ?? DEFAULT_TOP;
+  const skip = options.skip ?? 0;
+  const includeFacets = options.includeFacets ?? true;
+
+  const matches = products.filter(product => matchesFilters(product, filters));
+  const page = top > 0 ? rankProducts(matches, options).slice(skip, skip + top) : [];
+
+  return {
+    products: options.selectFields?.length
+      ? page.map(product => selectFields(product, options.selectFields!))
+      : page,
+    totalCount: matches.length,
+    facets: includeFacets ? buildFacets(matches) : undefined,
+  };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function valuesOf(product: ProdigiCatalogProduct, field: ValueFacetField): string[] {
+  const raw = (product as unknown as Record<string, unknown>)[field];
+  if (Array.isArray(raw)) return raw.filter((value): value is string => typeof value === 'string');
+  return typeof raw === 'string' ? [raw] : [];
+}
+
+function inRange(value: number, min?: number, max?: number): boolean {
+  if (min === undefined && max === undefined) return true;
+  if (typeof value !== 'number') return false;
+  if (min !== undefined && value < min) return false;
+  if (max !== undefined && value > max) return false;
+  return true;
+}
+
+// Buckets are [.., b0), [b0, b1), ..., [bn, ..) like Azure Search range facets
+function countRanges(values: number[], bounds: number[]): RangeFacetValue[] {
+  const buckets: RangeFacetValue[] = [
+    { to: bounds[0], count: 0 },
+    ...bounds.slice(1).map((to, i) => ({ from: bounds[i], to, count: 0 })),
+    { from: bounds[bounds.length - 1], count: 0 },
+  ];
+
+  for (const value of values) {
+    if (typeof value !== 'number') continue;
+    const bucket = buckets.find(b =>
+      (b.from === undefined || value >= b.from) && (b.to === undefined || value < b.to)
+    );
+    if (bucket) bucket.count++;
+  }
+
+  return buckets;
+}
+
+function selectFields(product: ProdigiCatalogProduct, fields: string[]): ProdigiCatalogProduct {
+  const selected: Record<string, unknown> = {};
+  for (const field of fields) {
+    if (field in product) {
+      selected[field] = (product as unknown as Record<string, unknown>)[field];
+    }
+  }
+  return selected as unknown as ProdigiCatalogProduct;
+}
@@ -2,7 +2,7 @@
  * Prodigi Service - Main API Class
  */
 
-import { azureSearchClient } from './client';
+import { catalogMirrorClient } from './mirror-client';
 import { productMatcher } from './product-matcher';
 import { createImageMatchQuery } from './query-builder';
 import type {
@@ -23,14 +23,14 @@ export class ProdigiService {
     filters: ProdigiSearchFilters,
     options?: ProdigiSearchOptions
   ): Promise<SearchResult> {
-    return azureSearchClient.search(filters, options);
+    return catalogMirrorClient.search(filters, options);
   }
   
   /**
    * Get facets for current filters (for filter UI)
    */
   async getFacets(filters: ProdigiSearchFilters): Promise<ProcessedFacets> {
-    return azureSearchClient.getFacets(filters);
+    return catalogMirrorClient.getFacets(filters);
   }
   
   /**
@@ -51,7 +51,7 @@ export class ProdigiService {
     const queryBuilder = createImageMatchQuery(imageData, country);
     
     // Get matching products
-    const result = await azureSearchClient.search(
+    const result = await catalogMirrorClient.search(
       queryBuilder['filters'],
       { top: 50, includeFacets: false }
     );
@@ -110,21 +110,21 @@ export class ProdigiService {
    * Get product by SKU
    */
   async getProductBySku(sku: string, country: string) {
-    return azureSearchClient.getProductBySku(sku, country);
+    return catalogMirrorClient.getProductBySku(sku, country);
   }
   
   /**
    * Get products by multiple SKUs
    */
   async getProductsBySku(skus: string[], country: string) {
-    return azureSearchClient.getProductsBySku(skus, country);
+    return catalogMirrorClient.getProductsBySku(skus, country);
   }
   
   /**
    * Clear all caches
    */
   clearCache(): void {
-    azureSearchClient.clearCache();
+    catalogMirrorClient.clearCache();
   }
 }
 
@@ -92,6 +92,8 @@ export interface ProdigiCatalogProduct {
   lastUpdated: string;
   sla: number; // Hours
   productionCountries: string[];
+  // Countries the product ships to; filtered on by every search
+  destinationCountries?: string[];
   
   // Technical
   optimumDpi: number;
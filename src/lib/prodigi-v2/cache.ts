@@ -0,0 +1,473 @@
+/**
+ * Prodigi API v4 - Cache & Rate Limit Backends
+ *
+ * Pluggable storage for API response caching and the Prodigi request budget
+ * (30 requests per 30 seconds per API key). The in-memory backends are the
+ * default; the Postgres backends share the cache and the budget between all
+ * serverless instances.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { TokenBucket, Logger, sleep } from './utils';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CacheEntry<T = any> {
+  value: T;
+  /** Epoch ms until which the entry is served without revalidation */
+  freshUntil: number;
+  /** Epoch ms until which the entry may be served while revalidating */
+  staleUntil: number;
+}
+
+/**
+ * Storage for cached API responses
+ */
+export interface ProdigiCacheBackend {
+  readonly name: string;
+  get<T>(key: string): Promise<CacheEntry<T> | null>;
+  set<T>(key: string, value: T, ttlMs: number, staleTtlMs?: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+  size(): Promise<number>;
+}
+
+/**
+ * Shared request budget; consume() resolves once a request may be sent
+ */
+export interface ProdigiRateLimiter {
+  readonly name: string;
+  consume(tokens?: number): Promise<void>;
+  getAvailableTokens(): Promise<number>;
+}
+
+export interface CacheLoadOptions<T> {
+  ttl: number;
+  /** Extra time after ttl during which the stale value is served while refreshing */
+  staleTtl?: number;
+  /** Only cache values that pass this check (e.g. non-empty quote lists) */
+  cacheIf?: (value: T) => boolean;
+}
+
+export interface ProdigiCacheStats {
+  enabled: boolean;
+  backend: string;
+  /** Entries in the (shared) backend; null when it could not be reached */
+  size: number | null;
+  /** Counters below are per process */
+  hits: number;
+  staleHits: number;
+  misses: number;
+  hitRate: string;
+  revalidations: number;
+  revalidationErrors: number;
+  backendErrors: number;
+  inFlight: number;
+}
+
+// Prodigi allows 30 requests per 30 seconds per API key
+export const PRODIGI_RATE_LIMIT = {
+  requests: 30,
+  windowSeconds: 30,
+} as const;
+
+// ============================================================================
+// MEMORY BACKENDS
+// ============================================================================
+
+/**
+ * Per-process cache (default)
+ */
+export class MemoryCacheBackend implements ProdigiCacheBackend {
+  readonly name = 'memory';
+  private entries = new Map<string, CacheEntry>();
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    if (Date.now() > entry.staleUntil) {
+      this.entries.delete(key);
+      return null;
+    }
+
+    return entry as CacheEntry<T>;
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number, staleTtlMs: number = 0): Promise<void> {
+    const freshUntil = Date.now() + ttlMs;
+    this.entries.set(key, { value, freshUntil, staleUntil: freshUntil + staleTtlMs });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  async size(): Promise<number> {
+    const now = Date.now();
+    for (const [key, entry] of this.entries.entries()) {
+      if (now > entry.staleUntil) {
+        this.entries.delete(key);
+      }
+    }
+    return this.entries.size;
+  }
+}
+
+/**
+ * Per-process token bucket (default)
+ */
+export class MemoryRateLimiter implements ProdigiRateLimiter {
+  readonly name = 'memory';
+  private readonly bucket: TokenBucket;
+
+  // Conservative default: 1 request per second with a burst of 2
+  constructor(capacity: number = 2, refillPerSecond: number = 1) {
+    this.bucket = new TokenBucket(capacity, refillPerSecond);
+  }
+
+  async consume(tokens: number = 1): Promise<void> {
+    await this.bucket.consume(tokens);
+  }
+
+  async getAvailableTokens(): Promise<number> {
+    return this.bucket.getAvailableTokens();
+  }
+}
+
+// ============================================================================
+// POSTGRES BACKENDS
+// ============================================================================
+
+/**
+ * Cache shared by all instances, stored in public.prodigi_api_cache
+ */
+export class PostgresCacheBackend implements ProdigiCacheBackend {
+  readonly name = 'postgres';
+
+  constructor(
+    private readonly supabase: SupabaseClient,
+    private readonly table: string = 'prodigi_api_cache'
+  ) {}
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    const { data, error } = await this.supabase
+      .from(this.table)
+      .select('value, fresh_until, stale_until')
+      .eq('cache_key', key)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Cache read failed: ${error.message}`);
+    }
+    if (!data) return null;
+
+    const staleUntil = new Date(data.stale_until).getTime();
+    if (Date.now() > staleUntil) return null;
+
+    return {
+      value: data.value as T,
+      freshUntil: new Date(data.fresh_until).getTime(),
+      staleUntil,
+    };
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number, staleTtlMs: number = 0): Promise<void> {
+    const freshUntil = Date.now() + ttlMs;
+
+    const { error } = await this.supabase
+      .from(this.table)
+      .upsert({
+        cache_key: key,
+        value,
+        fresh_until: new Date(freshUntil).toISOString(),
+        stale_until: new Date(freshUntil + staleTtlMs).toISOString(),
+      }, { onConflict: 'cache_key' });
+
+    if (error) {
+      throw new Error(`Cache write failed: ${error.message}`);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    const { error } = await this.supabase.from(this.table).delete().eq('cache_key', key);
+    if (error) {
+      throw new Error(`Cache delete failed: ${error.message}`);
+    }
+  }
+
+  async clear(): Promise<void> {
+    const { error } = await this.supabase.from(this.table).delete().neq('cache_key', '');
+    if (error) {
+      throw new Error(`Cache clear failed: ${error.message}`);
+    }
+  }
+
+  async size(): Promise<number> {
+    const { count, error } = await this.supabase
+      .from(this.table)
+      .select('cache_key', { count: 'exact', head: true })
+      .gt('stale_until', new Date().toISOString());
+
+    if (error) {
+      throw new Error(`Cache size query failed: ${error.message}`);
+    }
+    return count ?? 0;
+  }
+}
+
+/**
+ * Request budget shared by all instances (fixed window, row-locked in
+ * consume_prodigi_rate_limit). Falls back to a local bucket when the
+ * database can't be reached so Prodigi calls aren't blocked by an outage.
+ */
+export class PostgresRateLimiter implements ProdigiRateLimiter {
+  readonly name = 'postgres';
+  private readonly fallback = new MemoryRateLimiter();
+  private readonly logger = new Logger('Prodigi:RateLimit');
+
+  constructor(
+    private readonly supabase: SupabaseClient,
+    private readonly bucket: string = 'prodigi',
+    private readonly limit: number = PRODIGI_RATE_LIMIT.requests,
+    private readonly windowSeconds: number = PRODIGI_RATE_LIMIT.windowSeconds
+  ) {}
+
+  async consume(tokens: number = 1): Promise<void> {
+    for (let taken = 0; taken < tokens; taken++) {
+      await this.consumeOne();
+    }
+  }
+
+  private async consumeOne(): Promise<void> {
+    for (;;) {
+      const { data, error } = await this.supabase.rpc('consume_prodigi_rate_limit', {
+        p_bucket: this.bucket,
+        p_limit: this.limit,
+        p_window_seconds: this.windowSeconds,
+      });
+
+      if (error) {
+        this.logger.warn('Shared rate limiter unavailable, using local limiter', { error: error.message });
+        return this.fallback.consume();
+      }
+
+      const waitMs = Number(data) || 0;
+      if (waitMs <= 0) return;
+
+      await sleep(waitMs);
+    }
+  }
+
+  async getAvailableTokens(): Promise<number> {
+    const { data, error } = await this.supabase
+      .from('prodigi_rate_limits')
+      .select('window_start, request_count')
+      .eq('bucket', this.bucket)
+      .maybeSingle();
+
+    if (error) {
+      return this.fallback.getAvailableTokens();
+    }
+    if (!data) return this.limit;
+
+    const windowEnd = new Date(data.window_start).getTime() + this.windowSeconds * 1000;
+    if (Date.now() >= windowEnd) return this.limit;
+
+    return Math.max(this.limit - data.request_count, 0);
+  }
+}
+
+// ============================================================================
+// STALE-WHILE-REVALIDATE CACHE
+// ============================================================================
+
+/**
+ * Read-through cache over a backend.
+ *
+ * Fresh entries are returned directly. Stale entries are returned immediately
+ * while one background load refreshes them. Concurrent misses for the same key
+ * share a single load. Backend failures are treated as misses - the cache is
+ * never allowed to fail a request.
+ */
+export class SwrCache {
+  private readonly inFlight = new Map<string, Promise<any>>();
+  private readonly logger = new Logger('Prodigi:Cache');
+  private hits = 0;
+  private staleHits = 0;
+  private misses = 0;
+  private revalidations = 0;
+  private revalidationErrors = 0;
+  private backendErrors = 0;
+
+  constructor(readonly backend: ProdigiCacheBackend) {}
+
+  async getOrLoad<T>(key: string, loader: () => Promise<T>, options: CacheLoadOptions<T>): Promise<T> {
+    const entry = await this.read<T>(key);
+    const now = Date.now();
+
+    if (entry && now <= entry.freshUntil) {
+      this.hits++;
+      return entry.value;
+    }
+
+    if (entry && now <= entry.staleUntil) {
+      this.staleHits++;
+      if (!this.inFlight.has(key)) {
+        this.revalidations++;
+        this.load(key, loader, options).catch(error => {
+          this.revalidationErrors++;
+          this.logger.warn('Background revalidation failed', {
+            key,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        });
+      }
+      return entry.value;
+    }
+
+    this.misses++;
+    return this.load(key, loader, options);
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await this.backend.delete(key);
+    } catch (error) {
+      this.recordBackendError('delete', error);
+    }
+  }
+
+  async clear(): Promise<void> {
+    try {
+      await this.backend.clear();
+    } catch (error) {
+      this.recordBackendError('clear', error);
+    }
+    this.hits = 0;
+    this.staleHits = 0;
+    this.misses = 0;
+    this.revalidations = 0;
+    this.revalidationErrors = 0;
+    this.backendErrors = 0;
+  }
+
+  async getStats(enabled: boolean): Promise<ProdigiCacheStats> {
+    let size: number | null = null;
+    try {
+      size = await this.backend.size();
+    } catch (error) {
+      this.recordBackendError('size', error);
+    }
+
+    const served = this.hits + this.staleHits;
+    const total = served + this.misses;
+
+    return {
+      enabled,
+      backend: this.backend.name,
+      size,
+      hits: this.hits,
+      staleHits: this.staleHits,
+      misses: this.misses,
+      hitRate: total > 0 ? (served / total * 100).toFixed(2) + '%' : '0%',
+      revalidations: this.revalidations,
+      revalidationErrors: this.revalidationErrors,
+      backendErrors: this.backendErrors,
+      inFlight: this.inFlight.size,
+    };
+  }
+
+  private async read<T>(key: string): Promise<CacheEntry<T> | null> {
+    try {
+      return await this.backend.get<T>(key);
+    } catch (error) {
+      this.recordBackendError('get', error);
+      return null;
+    }
+  }
+
+  private load<T>(key: string, loader: () => Promise<T>, options: CacheLoadOptions<T>): Promise<T> {
+    const pending = this.inFlight.get(key);
+    if (pending) return pending;
+
+    const request = (async () => {
+      try {
+        const value = await loader();
+        if (!options.cacheIf || options.cacheIf(value)) {
+          try {
+            await this.backend.set(key, value, options.ttl, options.staleTtl ?? 0);
+          } catch (error) {
+            this.recordBackendError('set', error);
+          }
+        }
+        return value;
+      } finally {
+        this.inFlight.delete(key);
+      }
+    })();
+
+    this.inFlight.set(key, request);
+    return request;
+  }
+
+  private recordBackendError(operation: string, error: unknown): void {
+    this.backendErrors++;
+    this.logger.warn(`Cache ${operation} failed`, {
+      backend: this.backend.name,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+// ============================================================================
+// DEFAULTS
+// ============================================================================
+
+// Shared by every client in the process so per-request clients don't start cold
+let defaultCacheBackend: ProdigiCacheBackend | null = null;
+const defaultRateLimiters = new Map<string, ProdigiRateLimiter>();
+
+function createServiceSupabase(): SupabaseClient | null {
+  if (typeof window !== 'undefined') return null;
+  try {
+    const { createServiceClient } = require('@/lib/supabase/server');
+    return createServiceClient();
+  } catch (error) {
+    new Logger('Prodigi:Cache').warn('Supabase unavailable, using in-memory cache', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
+/**
+ * Cache backend selected by PRODIGI_CACHE_BACKEND (memory | postgres)
+ */
+export function getDefaultCacheBackend(): ProdigiCacheBackend {
+  if (!defaultCacheBackend) {
+    const supabase = process.env.PRODIGI_CACHE_BACKEND === 'postgres' ? createServiceSupabase() : null;
+    defaultCacheBackend = supabase ? new PostgresCacheBackend(supabase) : new MemoryCacheBackend();
+  }
+  return defaultCacheBackend;
+}
+
+/**
+ * Rate limiter selected by PRODIGI_CACHE_BACKEND (memory | postgres).
+ * Use one bucket per API key / environment.
+ */
+export function getDefaultRateLimiter(bucket: string = 'prodigi'): ProdigiRateLimiter {
+  let limiter = defaultRateLimiters.get(bucket);
+  if (!limiter) {
+    const supabase = process.env.PRODIGI_CACHE_BACKEND === 'postgres' ? createServiceSupabase() : null;
+    limiter = supabase ? new PostgresRateLimiter(supabase, bucket) : new MemoryRateLimiter();
+    defaultRateLimiters.set(bucket, limiter);
+  }
+  return limiter;
+}
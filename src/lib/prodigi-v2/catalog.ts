@@ -1,13 +1,13 @@
 /**
  * Prodigi Product Catalog Service
  * 
- * USES AZURE SEARCH INTEGRATION to dynamically discover products
- * No more hardcoded SKUs - queries Prodigi's real catalog API
+ * USES THE CATALOG MIRROR to dynamically discover products
+ * No more hardcoded SKUs - queries our synced copy of Prodigi's Azure Search catalog
  */
 
 import { ProdigiClient } from './client';
 import type { Product } from './types';
-import { azureSearchClient } from './azure-search/client';
+import { catalogMirrorClient } from './azure-search/mirror-client';
 import type { ProdigiCatalogProduct, ProdigiSearchFilters } from './azure-search/types';
 
 /**
@@ -63,7 +63,7 @@ interface CachedProduct {
 /**
  * Prodigi Catalog Service
  * 
- * Uses Azure Search to dynamically discover products instead of hardcoded SKUs
+ * Uses the catalog mirror to dynamically discover products instead of hardcoded SKUs
  */
 export class ProdigiCatalogService {
   private client: ProdigiClient;
@@ -75,7 +75,7 @@ export class ProdigiCatalogService {
   }
 
   /**
-   * Get SKU for a product type and size by querying Azure Search
+   * Get SKU for a product type and size by querying the catalog mirror
    * 
    * @param productType - Product type (e.g., 'framed-print', 'canvas')
    * @param size - Size in inches format like '16x20', '8x10'
@@ -132,7 +132,7 @@ export class ProdigiCatalogService {
       }
 
       // Enable production country optimization for better pricing
-      const result = await azureSearchClient.search(filters, {
+      const result = await catalogMirrorClient.search(filters, {
         top: 20, // Increased to ensure we get non-cork products
         includeFacets: false,
         scoringProfile: 'Boost by production country', // ✅ Optimize for local production
@@ -317,7 +317,7 @@ export class ProdigiCatalogService {
   }
 
   /**
-   * Get available sizes for a product type by querying Azure Search
+   * Get available sizes for a product type by querying the catalog mirror
    */
   async getAvailableSizes(
     productType: string,
@@ -349,7 +349,7 @@ export class ProdigiCatalogService {
         }
       }
 
-      const result = await azureSearchClient.search(filters, {
+      const result = await catalogMirrorClient.search(filters, {
         top: 100,
         includeFacets: true,
       });
@@ -457,7 +457,7 @@ export class ProdigiCatalogService {
    */
   clearCache(): void {
     this.cache.clear();
-    azureSearchClient.clearCache();
+    catalogMirrorClient.clearCache();
     console.log('[Catalog] All caches cleared');
   }
 
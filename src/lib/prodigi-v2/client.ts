@@ -29,10 +29,16 @@ import {
   calculateRetryDelay,
   sleep,
   sanitizeForLogging,
-  MemoryCache,
-  TokenBucket,
   Logger,
 } from './utils';
+import {
+  SwrCache,
+  getDefaultCacheBackend,
+  getDefaultRateLimiter,
+  type CacheLoadOptions,
+  type ProdigiCacheStats,
+  type ProdigiRateLimiter,
+} from './cache';
 
 /**
  * Core Prodigi API Client
@@ -40,8 +46,8 @@ import {
  * Provides low-level HTTP request functionality with:
  * - Authentication
  * - Automatic retries with exponential backoff
- * - Rate limiting
- * - Response caching
+ * - Rate limiting (shared when a Postgres backend is configured)
+ * - Response caching with stale-while-revalidate for product data
  * - Comprehensive error handling
  * - Request/response logging
  */
@@ -55,12 +61,13 @@ export class ProdigiClient {
   private readonly callbackUrl?: string;
   
   // Caching
-  private readonly cache: MemoryCache<any>;
+  private readonly cache: SwrCache;
   private readonly enableCache: boolean;
   private readonly cacheTtl: number;
+  private readonly staleTtl: number;
   
   // Rate limiting
-  private readonly rateLimiter: TokenBucket;
+  private readonly rateLimiter: ProdigiRateLimiter;
   
   // Logging
   private readonly logger: Logger;
@@ -82,11 +89,12 @@ export class ProdigiClient {
     // Setup caching
     this.enableCache = config.enableCache ?? DEFAULT_CONFIG.enableCache;
     this.cacheTtl = config.cacheTtl || DEFAULT_CONFIG.cacheTtl;
-    this.cache = new MemoryCache();
+    this.staleTtl = config.staleTtl ?? DEFAULT_CONFIG.staleTtl;
+    this.cache = new SwrCache(config.cacheBackend || getDefaultCacheBackend());
     
-    // Setup rate limiting - Prodigi allows 30 requests per 30 seconds (1 req/s average)
-    // Use conservative limit: 1 request per second with burst of 2
-    this.rateLimiter = new TokenBucket(2, 1); // 2 tokens, refill 1 per second
+    // Setup rate limiting - Prodigi allows 30 requests per 30 seconds per API key,
+    // so clients for the same environment share one budget
+    this.rateLimiter = config.rateLimiter || getDefaultRateLimiter(`prodigi:${this.environment}`);
     
     // Setup logging
     this.logger = new Logger(`Prodigi:${this.environment}`);
@@ -97,6 +105,8 @@ export class ProdigiClient {
       timeout: this.timeout,
       retries: this.retries,
       cacheEnabled: this.enableCache,
+      cacheBackend: this.cache.backend.name,
+      rateLimiter: this.rateLimiter.name,
     });
   }
 
@@ -114,27 +124,41 @@ export class ProdigiClient {
 
     // Build full URL
     const url = buildUrl(`${this.baseUrl}${endpoint}`, params);
-    
-    // Check cache for GET requests
+
+    const send = async () => {
+      // Apply rate limiting
+      await this.rateLimiter.consume();
+
+      // Make request with retries
+      return this.requestWithRetry<T>({
+        url,
+        method,
+        body,
+        idempotencyKey,
+        endpoint,
+      });
+    };
+
+    // Cache GET requests; product data may be served stale while it refreshes
     if (method === 'GET' && this.enableCache) {
-      const cached = this.cache.get(url);
-      if (cached) {
-        this.logger.debug('Cache hit', { url });
-        return cached as T;
-      }
+      return this.cache.getOrLoad<T>(url, send, {
+        ttl: this.cacheTtl,
+        staleTtl: endpoint.startsWith('/products') ? this.staleTtl : 0,
+      });
     }
 
-    // Apply rate limiting
-    await this.rateLimiter.consume();
+    return send();
+  }
 
-    // Make request with retries
-    return this.requestWithRetry<T>({
-      url,
-      method,
-      body,
-      idempotencyKey,
-      endpoint,
-    });
+  /**
+   * Read-through cache for data that isn't a plain GET (e.g. quotes).
+   * Keys are scoped to the environment.
+   */
+  async cached<T>(key: string, loader: () => Promise<T>, options: CacheLoadOptions<T>): Promise<T> {
+    if (!this.enableCache) {
+      return loader();
+    }
+    return this.cache.getOrLoad<T>(`${this.environment}:${key}`, loader, options);
   }
 
   /**
@@ -152,14 +176,7 @@ export class ProdigiClient {
 
     try {
       const response = await this.executeRequest(url, method, body, idempotencyKey);
-      const data = await this.parseResponse<T>(response);
-
-      // Cache successful GET requests
-      if (method === 'GET' && this.enableCache) {
-        this.cache.set(url, data, this.cacheTtl);
-      }
-
-      return data;
+      return await this.parseResponse<T>(response);
     } catch (error) {
       // Check if we should retry
       const shouldRetry = this.shouldRetry(error, attempt);
@@ -407,27 +424,25 @@ export class ProdigiClient {
   /**
    * Clear cache
    */
-  public clearCache(): void {
-    this.cache.clear();
+  public async clearCache(): Promise<void> {
+    await this.cache.clear();
     this.logger.info('Cache cleared');
   }
 
   /**
    * Get cache statistics
    */
-  public getCacheStats(): { size: number; enabled: boolean } {
-    return {
-      size: this.cache.size(),
-      enabled: this.enableCache,
-    };
+  public getCacheStats(): Promise<ProdigiCacheStats> {
+    return this.cache.getStats(this.enableCache);
   }
 
   /**
    * Get rate limit information
    */
-  public getRateLimitInfo(): { availableTokens: number } {
+  public async getRateLimitInfo(): Promise<{ backend: string; availableTokens: number }> {
     return {
-      availableTokens: this.rateLimiter.getAvailableTokens(),
+      backend: this.rateLimiter.name,
+      availableTokens: await this.rateLimiter.getAvailableTokens(),
     };
   }
 
@@ -30,6 +30,7 @@ export const DEFAULT_CONFIG = {
   retryDelay: 1000, // 1 second
   enableCache: true,
   cacheTtl: 3600000, // 1 hour in milliseconds
+  staleTtl: 86400000, // 24 hours in milliseconds (product data only)
 } as const;
 
 export const RETRY_CONFIG: RetryConfig = {
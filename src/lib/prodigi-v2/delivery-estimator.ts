@@ -1,17 +1,36 @@
 /**
  * Prodigi Delivery Time Estimator
  * 
- * Provides accurate delivery time estimates based on Prodigi's documented SLAs
+ * Provides delivery time estimates from our own shipment history
+ * (delivery-history.ts) where a route has enough of it, and from Prodigi's
+ * documented SLAs everywhere else.
  * Reference: https://support.prodigi.com/hc/en-us/articles/13169433163676
  */
 
 import { ShippingMethod } from './types';
+import type { DeliveryHistory } from './delivery-history';
+
+/** 'history' when learned from our shipments, 'table' for the static SLAs */
+export type DeliveryEstimateBasis = 'history' | 'table';
 
 export interface DeliveryEstimate {
   productionDays: { min: number; max: number };
   shippingDays: { min: number; max: number };
   totalDays: { min: number; max: number };
   note?: string;
+  basis?: { production: DeliveryEstimateBasis; shipping: DeliveryEstimateBasis };
+}
+
+export interface DeliveryEstimateOptions {
+  history?: DeliveryHistory | null;
+  /** Prodigi product type (e.g. 'Framed prints'), for type-specific production times */
+  productType?: string | null;
+}
+
+/** Dates (YYYY-MM-DD) an order placed now should arrive between */
+export interface ArrivalWindow {
+  earliest: string;
+  latest: string;
 }
 
 /**
@@ -100,7 +119,7 @@ const SHIPPING_METHOD_MODIFIERS: Record<ShippingMethod, { factor: number; note:
 /**
  * Map country code to shipping region
  */
-function getShippingRegion(countryCode: string): string {
+export function getShippingRegion(countryCode: string): string {
   // EU countries
   const euCountries = [
     'AT', 'BE', 'BG', 'HR', 'CY', 'CZ', 'DK', 'EE', 'FI', 'FR',
@@ -138,16 +157,23 @@ function getDestinationKey(destinationCountry: string): string {
  * @param destinationCountry - Country code where product will be shipped
  * @param shippingMethod - Shipping method (Budget, Standard, Express, Overnight)
  * @param productCategory - Product category (default: 'wall-art' for our use case)
+ * @param options - Recorded delivery history to learn from, and the Prodigi product type
  * @returns Delivery estimate with min/max days
  */
 export function estimateDeliveryTime(
   productionCountry: string,
   destinationCountry: string,
   shippingMethod: ShippingMethod = 'Standard',
-  productCategory: string = 'wall-art'
+  productCategory: string = 'wall-art',
+  options: DeliveryEstimateOptions = {}
 ): DeliveryEstimate {
-  // 1. Get production time
-  const productionDays = PRODUCTION_TIMES[productCategory] || PRODUCTION_TIMES['default'];
+  const { history, productType } = options;
+
+  // 1. Get production time, learned if we've shipped enough from this country
+  const learnedProduction = history?.productionDays(productionCountry, productType) ?? null;
+  const productionDays = learnedProduction
+    ? { min: learnedProduction.min, max: learnedProduction.max }
+    : PRODUCTION_TIMES[productCategory] || PRODUCTION_TIMES['default'];
   
   // 2. Get shipping region for production country
   const originRegion = getShippingRegion(productionCountry);
@@ -157,12 +183,15 @@ export function estimateDeliveryTime(
   const shippingTable = STANDARD_SHIPPING_TIMES[originRegion] || STANDARD_SHIPPING_TIMES['US'];
   const baseShippingDays = shippingTable[destinationKey] || shippingTable['INTL'];
   
-  // 4. Apply shipping method modifier
-  const modifier = SHIPPING_METHOD_MODIFIERS[shippingMethod];
-  const adjustedShippingDays = {
-    min: Math.ceil(baseShippingDays.min * modifier.factor),
-    max: Math.ceil(baseShippingDays.max * modifier.factor),
-  };
+  // 4. Apply shipping method modifier - learned transit times are already per method
+  const modifier = SHIPPING_METHOD_MODIFIERS[shippingMethod] || SHIPPING_METHOD_MODIFIERS['Standard'];
+  const learnedShipping = history?.transitDays(productionCountry, destinationCountry, shippingMethod) ?? null;
+  const adjustedShippingDays = learnedShipping
+    ? { min: learnedShipping.min, max: learnedShipping.max }
+    : {
+        min: Math.ceil(baseShippingDays.min * modifier.factor),
+        max: Math.ceil(baseShippingDays.max * modifier.factor),
+      };
   
   // 5. Calculate total delivery time
   const totalDays = {
@@ -181,9 +210,57 @@ export function estimateDeliveryTime(
     shippingDays: adjustedShippingDays,
     totalDays,
     note,
+    basis: {
+      production: learnedProduction ? 'history' : 'table',
+      shipping: learnedShipping ? 'history' : 'table',
+    },
   };
 }
 
+/**
+ * Add business days (Mon-Fri) to a date; part days round up to a whole day
+ */
+export function addBusinessDays(from: Date, days: number): Date {
+  const date = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate()));
+  let remaining = Math.ceil(days);
+
+  while (remaining > 0) {
+    date.setUTCDate(date.getUTCDate() + 1);
+    const weekday = date.getUTCDay();
+    if (weekday !== 0 && weekday !== 6) {
+      remaining--;
+    }
+  }
+
+  return date;
+}
+
+/**
+ * When an order placed at `from` should arrive
+ */
+export function getArrivalWindow(estimate: DeliveryEstimate, from: Date = new Date()): ArrivalWindow {
+  return {
+    earliest: addBusinessDays(from, estimate.totalDays.min).toISOString().slice(0, 10),
+    latest: addBusinessDays(from, estimate.totalDays.max).toISOString().slice(0, 10),
+  };
+}
+
+/**
+ * Format an arrival window, e.g. "Arrives Dec 3 - Dec 9"
+ */
+export function formatArrivalWindow(window: ArrivalWindow, locale: string = 'en-US'): string {
+  const format = (date: string) => new Date(`${date}T00:00:00Z`).toLocaleDateString(locale, {
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+
+  if (window.earliest === window.latest) {
+    return `Arrives ${format(window.latest)}`;
+  }
+  return `Arrives ${format(window.earliest)} - ${format(window.latest)}`;
+}
+
 /**
  * Format delivery estimate as a human-readable string
  */
@@ -203,13 +280,14 @@ export function formatDeliveryEstimate(estimate: DeliveryEstimate): string {
 export function getDeliveryBreakdown(
   productionCountry: string,
   destinationCountry: string,
-  shippingMethod: ShippingMethod = 'Standard'
+  shippingMethod: ShippingMethod = 'Standard',
+  options: DeliveryEstimateOptions = {}
 ): {
   estimate: DeliveryEstimate;
   formatted: string;
   breakdown: string;
 } {
-  const estimate = estimateDeliveryTime(productionCountry, destinationCountry, shippingMethod);
+  const estimate = estimateDeliveryTime(productionCountry, destinationCountry, shippingMethod, 'wall-art', options);
   const formatted = formatDeliveryEstimate(estimate);
   
   const breakdown = [
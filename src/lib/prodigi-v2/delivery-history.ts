@@ -0,0 +1,396 @@
+/**
+ * Delivery History
+ *
+ * Production and transit times learned from our own shipments. Prodigi
+ * webhooks tell us when each order was submitted, went into production and
+ * was dispatched; recordFulfillmentTiming keeps one fulfillment_timings row
+ * per Prodigi order up to date. DeliveryHistory turns recent rows into
+ * percentile ranges that delivery-estimator.ts prefers over its static
+ * tables wherever a route has enough samples.
+ *
+ * Durations are counted in business days, the unit of the static tables.
+ * Transit can only be learned from shipments we know were delivered -
+ * Prodigi doesn't report deliveries, so those come from shipments marked
+ * delivered and from staff marking orders delivered.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getShippingRegion } from './delivery-estimator';
+import { catalogMirrorClient } from './azure-search/mirror-client';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface FulfillmentTimingSample {
+  productType: string | null;
+  productionCountry: string | null;
+  destinationCountry: string | null;
+  shippingMethod: string | null;
+  submittedAt: string | null;
+  dispatchedAt: string | null;
+  deliveredAt: string | null;
+}
+
+/** A learned duration range in business days */
+export interface LearnedRange {
+  min: number;
+  max: number;
+  samples: number;
+}
+
+/** The parts of a Prodigi order webhook the timings are read from */
+export interface ProdigiOrderEventData {
+  created: string;
+  status: {
+    stage: string;
+    details?: {
+      inProduction?: string;
+      shipping?: string;
+    };
+  };
+  shipments?: Array<{
+    status: string;
+    dispatchDate?: string;
+    fulfillmentLocation?: { countryCode: string };
+  }>;
+  items?: Array<{ sku: string }>;
+  shippingMethod?: string;
+  recipient?: { address?: { countryCode?: string } };
+}
+
+/** Columns of a fulfillment_timings row written from webhooks */
+export interface FulfillmentTimingRow {
+  sku?: string | null;
+  product_type?: string | null;
+  production_country?: string | null;
+  destination_country?: string | null;
+  shipping_method?: string | null;
+  submitted_at?: string | null;
+  production_started_at?: string | null;
+  production_completed_at?: string | null;
+  dispatched_at?: string | null;
+  delivered_at?: string | null;
+}
+
+export interface RecordFulfillmentTimingParams {
+  dropshipOrderId: string;
+  orderId: string;
+  data: ProdigiOrderEventData;
+  /** When Prodigi raised the event (CloudEvent `time`) */
+  eventTime: string;
+  /** From our order, for events that don't carry the recipient or method */
+  fallback?: { destinationCountry?: string | null; shippingMethod?: string | null };
+  resolveProductType?: (sku: string, country: string) => Promise<string | null>;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+// Below this many samples a route uses the static tables
+export const MIN_SAMPLES = 20;
+
+// The learned range runs from a typical fast shipment to a slow one
+const LOW_PERCENTILE = 0.2;
+const HIGH_PERCENTILE = 0.9;
+
+const HISTORY_DAYS = 180;
+const HISTORY_LIMIT = 5000;
+const CACHE_TTL_MS = 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const STARTED = ['InProgress', 'Complete'];
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Weekday time between two instants, in days (UTC weekends excluded)
+ */
+export function businessDaysBetween(start: Date, end: Date): number {
+  let total = 0;
+  let cursor = start.getTime();
+  const endMs = end.getTime();
+
+  while (cursor < endMs) {
+    const day = new Date(cursor);
+    const nextMidnight = Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate() + 1);
+    const segmentEnd = Math.min(nextMidnight, endMs);
+    const weekday = day.getUTCDay();
+    if (weekday !== 0 && weekday !== 6) {
+      total += (segmentEnd - cursor) / DAY_MS;
+    }
+    cursor = segmentEnd;
+  }
+
+  return total;
+}
+
+/**
+ * Linear-interpolated percentile of an ascending list
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return NaN;
+  const rank = (sorted.length - 1) * p;
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+function toRange(durations: number[]): LearnedRange {
+  const sorted = [...durations].sort((a, b) => a - b);
+  const min = Math.max(1, Math.round(percentile(sorted, LOW_PERCENTILE)));
+  const max = Math.max(min, Math.ceil(percentile(sorted, HIGH_PERCENTILE)));
+  return { min, max, samples: sorted.length };
+}
+
+function duration(from: string | null, to: string | null): number | null {
+  if (!from || !to) return null;
+  const start = new Date(from);
+  const end = new Date(to);
+  if (isNaN(start.getTime()) || isNaN(end.getTime()) || end < start) return null;
+  return businessDaysBetween(start, end);
+}
+
+function earliest(dates: Array<string | undefined | null>): string | null {
+  const valid = dates
+    .filter((date): date is string => !!date && !isNaN(new Date(date).getTime()))
+    .sort((a, b) => new Date(a).getTime() - new Date(b).getTime());
+  return valid[0] ?? null;
+}
+
+/**
+ * The columns an order event sets. Milestones keep the first time they were
+ * seen, except dispatch, which follows Prodigi's reported dispatch dates.
+ */
+export function buildTimingUpdate(
+  existing: FulfillmentTimingRow | null,
+  data: ProdigiOrderEventData,
+  eventTime: string,
+  fallback: RecordFulfillmentTimingParams['fallback'] = {}
+): FulfillmentTimingRow {
+  const details = data.status.details || {};
+  const shipments = data.shipments || [];
+  const inProduction = details.inProduction || '';
+
+  const dispatchedAt = earliest(shipments.map(shipment => shipment.dispatchDate))
+    ?? existing?.dispatched_at
+    ?? (details.shipping === 'Complete' ? eventTime : null);
+
+  const delivered = shipments.length > 0 &&
+    shipments.every(shipment => shipment.status.toLowerCase() === 'delivered');
+
+  return {
+    sku: existing?.sku ?? data.items?.[0]?.sku ?? null,
+    product_type: existing?.product_type ?? null,
+    production_country: shipments.find(s => s.fulfillmentLocation)?.fulfillmentLocation?.countryCode
+      ?? existing?.production_country ?? null,
+    destination_country: data.recipient?.address?.countryCode
+      ?? existing?.destination_country ?? fallback.destinationCountry ?? null,
+    shipping_method: data.shippingMethod ?? existing?.shipping_method ?? fallback.shippingMethod ?? null,
+    submitted_at: existing?.submitted_at ?? data.created ?? null,
+    production_started_at: existing?.production_started_at
+      ?? (STARTED.includes(inProduction) ? eventTime : null),
+    production_completed_at: existing?.production_completed_at
+      ?? (inProduction === 'Complete' ? eventTime : null),
+    dispatched_at: dispatchedAt,
+    delivered_at: existing?.delivered_at ?? (delivered ? eventTime : null),
+  };
+}
+
+/**
+ * Look up a SKU's Prodigi product type in the catalog mirror
+ */
+export async function resolveProductType(sku: string, country: string): Promise<string | null> {
+  try {
+    const product = await catalogMirrorClient.getProductBySku(sku, country);
+    return product?.productType ?? null;
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================================
+// RECORDING
+// ============================================================================
+
+/**
+ * Update an order's timings from a Prodigi webhook. Failures are logged
+ * rather than thrown: the webhook itself has already been handled.
+ */
+export async function recordFulfillmentTiming(
+  supabase: SupabaseClient,
+  params: RecordFulfillmentTimingParams
+): Promise<void> {
+  try {
+    const { data: existing } = await supabase
+      .from('fulfillment_timings')
+      .select('*')
+      .eq('dropship_order_id', params.dropshipOrderId)
+      .maybeSingle();
+
+    const update = buildTimingUpdate(existing, params.data, params.eventTime, params.fallback);
+
+    if (!update.product_type && update.sku) {
+      const resolve = params.resolveProductType ?? resolveProductType;
+      update.product_type = await resolve(update.sku, update.destination_country || 'US');
+    }
+
+    const { error } = await supabase
+      .from('fulfillment_timings')
+      .upsert({
+        ...update,
+        dropship_order_id: params.dropshipOrderId,
+        order_id: params.orderId,
+        updated_at: new Date().toISOString(),
+      }, { onConflict: 'dropship_order_id' });
+
+    if (error) {
+      console.error('Error recording fulfillment timing:', error);
+    }
+  } catch (error) {
+    console.error('Error recording fulfillment timing:', error);
+  }
+}
+
+/**
+ * Mark an order's dispatched shipments delivered (staff confirmation)
+ */
+export async function recordDelivery(
+  supabase: SupabaseClient,
+  orderId: string,
+  deliveredAt: string = new Date().toISOString()
+): Promise<void> {
+  const { error } = await supabase
+    .from('fulfillment_timings')
+    .update({ delivered_at: deliveredAt, updated_at: new Date().toISOString() })
+    .eq('order_id', orderId)
+    .is('delivered_at', null)
+    .not('dispatched_at', 'is', null);
+
+  if (error) {
+    console.error('Error recording delivery:', error);
+  }
+}
+
+// ============================================================================
+// HISTORY
+// ============================================================================
+
+export class DeliveryHistory {
+  constructor(private readonly samples: FulfillmentTimingSample[]) {}
+
+  get size(): number {
+    return this.samples.length;
+  }
+
+  /**
+   * Submission to dispatch at a production country. Uses the product type's
+   * own shipments when there are enough, otherwise every product made there.
+   */
+  productionDays(productionCountry: string, productType?: string | null): LearnedRange | null {
+    const atCountry = this.samples.filter(sample => sample.productionCountry === productionCountry);
+
+    if (productType) {
+      const ofType = this.durations(
+        atCountry.filter(sample => sample.productType === productType),
+        sample => duration(sample.submittedAt, sample.dispatchedAt)
+      );
+      if (ofType.length >= MIN_SAMPLES) return toRange(ofType);
+    }
+
+    const all = this.durations(atCountry, sample => duration(sample.submittedAt, sample.dispatchedAt));
+    return all.length >= MIN_SAMPLES ? toRange(all) : null;
+  }
+
+  /**
+   * Dispatch to delivery for a route and shipping method. Falls back from
+   * the destination country to its shipping region.
+   */
+  transitDays(productionCountry: string, destinationCountry: string, shippingMethod: string): LearnedRange | null {
+    const route = this.samples.filter(sample =>
+      sample.productionCountry === productionCountry && sample.shippingMethod === shippingMethod
+    );
+    const transit = (sample: FulfillmentTimingSample) => duration(sample.dispatchedAt, sample.deliveredAt);
+
+    const toCountry = this.durations(route.filter(s => s.destinationCountry === destinationCountry), transit);
+    if (toCountry.length >= MIN_SAMPLES) return toRange(toCountry);
+
+    const region = getShippingRegion(destinationCountry);
+    const toRegion = this.durations(
+      route.filter(s => s.destinationCountry && getShippingRegion(s.destinationCountry) === region),
+      transit
+    );
+    return toRegion.length >= MIN_SAMPLES ? toRange(toRegion) : null;
+  }
+
+  private durations(
+    samples: FulfillmentTimingSample[],
+    measure: (sample: FulfillmentTimingSample) => number | null
+  ): number[] {
+    return samples.map(measure).filter((value): value is number => value !== null);
+  }
+}
+
+/**
+ * Recent dispatched shipments as a DeliveryHistory
+ */
+export async function loadDeliveryHistory(
+  supabase: SupabaseClient,
+  now: Date = new Date()
+): Promise<DeliveryHistory> {
+  const cutoff = new Date(now.getTime() - HISTORY_DAYS * DAY_MS).toISOString();
+
+  const { data, error } = await supabase
+    .from('fulfillment_timings')
+    .select('product_type, production_country, destination_country, shipping_method, submitted_at, dispatched_at, delivered_at')
+    .gte('dispatched_at', cutoff)
+    .order('dispatched_at', { ascending: false })
+    .limit(HISTORY_LIMIT);
+
+  if (error) {
+    throw new Error(`Failed to load delivery history: ${error.message}`);
+  }
+
+  return new DeliveryHistory((data || []).map(row => ({
+    productType: row.product_type,
+    productionCountry: row.production_country,
+    destinationCountry: row.destination_country,
+    shippingMethod: row.shipping_method,
+    submittedAt: row.submitted_at,
+    dispatchedAt: row.dispatched_at,
+    deliveredAt: row.delivered_at,
+  })));
+}
+
+let cachedHistory: { history: DeliveryHistory; loadedAt: number } | null = null;
+let loadingHistory: Promise<DeliveryHistory | null> | null = null;
+
+/**
+ * The process-wide delivery history, reloaded hourly. Null when it can't be
+ * loaded - estimates then come from the static tables.
+ */
+export async function getDeliveryHistory(): Promise<DeliveryHistory | null> {
+  if (cachedHistory && Date.now() - cachedHistory.loadedAt < CACHE_TTL_MS) {
+    return cachedHistory.history;
+  }
+
+  if (!loadingHistory) {
+    loadingHistory = (async () => {
+      try {
+        const { createServiceClient } = require('@/lib/supabase/server');
+        const history = await loadDeliveryHistory(createServiceClient());
+        cachedHistory = { history, loadedAt: Date.now() };
+        return history;
+      } catch (error) {
+        console.warn('Delivery history unavailable, using static delivery tables:', error);
+        return cachedHistory?.history ?? null;
+      } finally {
+        loadingHistory = null;
+      }
+    })();
+  }
+  return loadingHistory;
+}
@@ -26,6 +26,23 @@
 
 // Core exports
 export { ProdigiClient } from './client';
+export {
+  MemoryCacheBackend,
+  MemoryRateLimiter,
+  PostgresCacheBackend,
+  PostgresRateLimiter,
+  SwrCache,
+  getDefaultCacheBackend,
+  getDefaultRateLimiter,
+  PRODIGI_RATE_LIMIT,
+} from './cache';
+export type {
+  CacheEntry,
+  CacheLoadOptions,
+  ProdigiCacheBackend,
+  ProdigiCacheStats,
+  ProdigiRateLimiter,
+} from './cache';
 export { OrdersAPI } from './orders';
 export { OrderActionsAPI } from './order-actions';
 export { QuotesAPI } from './quotes';
@@ -99,6 +116,7 @@ export {
 
 // Azure Search catalog exports
 export { azureSearchClient, AzureSearchClient } from './azure-search/client';
+export { catalogMirrorClient, CatalogMirrorClient, CatalogMirrorError } from './azure-search/mirror-client';
 export { ProdigiQueryBuilder } from './azure-search/query-builder';
 export { productMatcher, ProductMatcher } from './azure-search/product-matcher';
 export { prodigiService as azureSearchService, ProdigiService as AzureSearchService } from './azure-search/service';
@@ -197,14 +215,14 @@ export class ProdigiSDK {
   }
 
   /**
-   * Clear API response cache
+   * Clear API response cache (including cached quotes)
    */
-  clearCache(): void {
-    this.client.clearCache();
+  clearCache(): Promise<void> {
+    return this.client.clearCache();
   }
 
   /**
-   * Get cache statistics
+   * Get cache statistics: backend, shared size and per-process hit counters
    */
   getCacheStats() {
     return this.client.getCacheStats();
@@ -229,6 +247,7 @@ export class ProdigiSDK {
  * - PRODIGI_API_KEY
  * - PRODIGI_ENVIRONMENT (sandbox | production)
  * - PRODIGI_CALLBACK_URL
+ * - PRODIGI_CACHE_BACKEND (memory | postgres)
  * 
  * Only initializes on server-side to prevent client-side errors.
  * 
@@ -261,6 +280,7 @@ function createProdigiSDK(): ProdigiSDK {
   timeout: parseInt(process.env.PRODIGI_TIMEOUT || '30000', 10),
   retries: parseInt(process.env.PRODIGI_RETRIES || '3', 10),
   enableCache: process.env.PRODIGI_ENABLE_CACHE !== 'false',
+  // Cache and rate-limit backend come from PRODIGI_CACHE_BACKEND (memory | postgres)
   });
 }
 
@@ -12,7 +12,7 @@ import type {
   ShippingMethod,
 } from './types';
 import { ProdigiClient } from './client';
-import { isValidSku, isValidCountryCode, parsePrice, formatPrice, MemoryCache, generateCacheKey } from './utils';
+import { isValidSku, isValidCountryCode, parsePrice, formatPrice, generateCacheKey } from './utils';
 import { ProdigiValidationError } from './errors';
 import { CACHE_KEYS } from './constants';
 
@@ -23,17 +23,13 @@ import { CACHE_KEYS } from './constants';
  * - Generating quotes
  * - Calculating total costs
  * - Comparing shipping methods
- * - Quote caching for performance
+ * - Quote caching for performance (stale-while-revalidate via the client cache)
  */
 export class QuotesAPI {
-  private quoteCache: MemoryCache<Quote[]>;
   private readonly CACHE_TTL = 5 * 60 * 1000; // 5 minutes
-  private cacheHits = 0;
-  private cacheMisses = 0;
+  private readonly STALE_TTL = 60 * 60 * 1000; // served stale for up to 1 hour while refreshing
 
-  constructor(private readonly client: ProdigiClient) {
-    this.quoteCache = new MemoryCache<Quote[]>();
-  }
+  constructor(private readonly client: ProdigiClient) {}
 
   /**
    * Generate cache key for quote request
@@ -61,6 +57,7 @@ export class QuotesAPI {
    * Returns quotes for all available shipping methods.
    * 
    * @param quoteRequest - Quote request details
+   * @param options.cache - Set to false to bypass the response cache
    * @returns Array of quotes for different shipping methods
    * 
    * @example
@@ -81,22 +78,26 @@ export class QuotesAPI {
    * });
    * ```
    */
-  async create(quoteRequest: CreateQuoteRequest): Promise<Quote[]> {
+  async create(quoteRequest: CreateQuoteRequest, options: { cache?: boolean } = {}): Promise<Quote[]> {
     this.validateQuoteRequest(quoteRequest);
 
-    // Check cache first
-    const cacheKey = this.getCacheKey(quoteRequest);
-    const cachedQuotes = this.quoteCache.get(cacheKey);
-    
-    if (cachedQuotes) {
-      this.cacheHits++;
-      console.log(`[QuotesAPI] Cache HIT for quote: ${cacheKey.substring(0, 16)}...`);
-      return cachedQuotes;
+    // Callers with their own cache (e.g. batched studio quotes) skip this one
+    if (options.cache === false) {
+      return this.fetchQuotes(quoteRequest);
     }
 
-    this.cacheMisses++;
-    console.log(`[QuotesAPI] Cache MISS for quote: ${cacheKey.substring(0, 16)}...`);
+    // Only successful quotes (with actual quotes) are cached
+    return this.client.cached(
+      this.getCacheKey(quoteRequest),
+      () => this.fetchQuotes(quoteRequest),
+      { ttl: this.CACHE_TTL, staleTtl: this.STALE_TTL, cacheIf: quotes => quotes.length > 0 }
+    );
+  }
 
+  /**
+   * Request quotes from Prodigi (uncached)
+   */
+  private async fetchQuotes(quoteRequest: CreateQuoteRequest): Promise<Quote[]> {
     // Log the request being sent to Prodigi for debugging
     console.error('[QuotesAPI] Creating quote request:', JSON.stringify(quoteRequest, null, 2));
 
@@ -130,11 +131,7 @@ export class QuotesAPI {
     // Sometimes Prodigi returns quotes even with NotAvailable outcome (just warnings)
     const quotes = response.quotes || [];
 
-    // Cache successful quotes (only if we have actual quotes)
-    if (quotes.length > 0) {
-      this.quoteCache.set(cacheKey, quotes, this.CACHE_TTL);
-      console.log(`[QuotesAPI] Cached ${quotes.length} quote(s): ${cacheKey.substring(0, 16)}... (TTL: ${this.CACHE_TTL/1000}s)`);
-    } else if (response.outcome === 'NotAvailable') {
+    if (quotes.length === 0 && response.outcome === 'NotAvailable') {
       // Log detailed info when quotes are not available
       console.warn('[QuotesAPI] No quotes available:', {
         outcome: response.outcome,
@@ -147,26 +144,17 @@ export class QuotesAPI {
   }
 
   /**
-   * Get cache statistics
+   * Get cache statistics (shared with the client cache)
    */
   getCacheStats() {
-    return {
-      hits: this.cacheHits,
-      misses: this.cacheMisses,
-      hitRate: this.cacheHits + this.cacheMisses > 0 
-        ? (this.cacheHits / (this.cacheHits + this.cacheMisses) * 100).toFixed(2) + '%'
-        : '0%',
-      size: this.quoteCache.size(),
-    };
+    return this.client.getCacheStats();
   }
 
   /**
-   * Clear quote cache
+   * Clear cache (quotes share the client cache)
    */
-  clearCache(): void {
-    this.quoteCache.clear();
-    this.cacheHits = 0;
-    this.cacheMisses = 0;
+  async clearCache(): Promise<void> {
+    await this.client.clearCache();
     console.log('[QuotesAPI] Cache cleared');
   }
 
@@ -5,6 +5,8 @@
  * Reference: https://www.prodigi.com/print-api/docs/reference/
  */
 
+import type { ProdigiCacheBackend, ProdigiRateLimiter } from './cache';
+
 // ============================================================================
 // COMMON TYPES
 // ============================================================================
@@ -489,6 +491,11 @@ export interface ProdigiClientConfig {
   retryDelay?: number;
   enableCache?: boolean;
   cacheTtl?: number;
+  /** How long product data may be served stale while it is refreshed */
+  staleTtl?: number;
+  /** Defaults to the backend selected by PRODIGI_CACHE_BACKEND */
+  cacheBackend?: ProdigiCacheBackend;
+  rateLimiter?: ProdigiRateLimiter;
   callbackUrl?: string;
 }
 
@@ -1364,6 +1364,8 @@ export class ProdigiClient {
         frameSize: string;
         frameStyle: string;
         frameMaterial: string;
+        // How the image is placed on the print area (default fillPrintArea)
+        sizing?: string;
       }>;
       shippingAddress: {
         firstName?: string;
@@ -1439,7 +1441,7 @@ export class ProdigiClient {
         merchantReference: `item-${item.productSku}`,
         sku: item.productSku, // Use the base SKU passed from order processing
         copies: item.quantity,
-        sizing: 'fillPrintArea',
+        sizing: item.sizing || 'fillPrintArea',
         attributes: this.getProductAttributes(item.frameStyle, item.frameMaterial, item.productSku),
         assets: [{
           printArea: 'Default',
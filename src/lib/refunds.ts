@@ -0,0 +1,936 @@
+/**
+ * Refunds, Reprints and Problem Reports
+ *
+ * Staff refund order items in full or in part through Stripe, or have
+ * Prodigi reprint an item that arrived damaged; customers report problems
+ * with photos for staff to resolve either way. A refund is recorded as
+ * pending by the begin_order_refund RPC before Stripe is called, and
+ * reconcile_order_refund applies Stripe's outcome (from the API response or
+ * the webhook) to the order. A refund that leaves nothing unrefunded also
+ * cancels the Prodigi order when it hasn't gone into production.
+ *
+ * Types and limits are safe to import from client components; the service
+ * takes its Stripe and Prodigi clients from the caller.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type Stripe from 'stripe';
+import type { OrdersAPI } from '@/lib/prodigi-v2/orders';
+import type { OrderActionsAPI } from '@/lib/prodigi-v2/order-actions';
+import { applyPriceEnding, fromMinorUnits, roundToCurrency, toMinorUnits } from '@/lib/currency';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type RefundStatus = 'pending' | 'succeeded' | 'failed' | 'canceled';
+export type ProblemCategory = 'damaged' | 'print_quality' | 'wrong_item' | 'missing' | 'other';
+export type ProblemReportStatus = 'open' | 'refunded' | 'reprinted' | 'closed';
+
+export interface RefundLine {
+  orderItemId: string;
+  amount: number;
+}
+
+export interface OrderRefund {
+  id: string;
+  orderId: string;
+  problemReportId: string | null;
+  /** In the currency the order was charged in */
+  amount: number;
+  currency: string;
+  /** Empty for refunds made in the Stripe dashboard */
+  items: RefundLine[];
+  shippingAmount: number;
+  reason: string | null;
+  status: RefundStatus;
+  stripeRefundId: string | null;
+  failureReason: string | null;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+export interface ProblemReport {
+  id: string;
+  orderId: string;
+  orderItemId: string | null;
+  userId: string;
+  category: ProblemCategory;
+  description: string;
+  /** Signed URLs, valid for an hour */
+  photos: string[];
+  status: ProblemReportStatus;
+  resolutionNote: string | null;
+  resolvedAt: string | null;
+  createdAt: string;
+}
+
+/** Refund request as posted by staff */
+export interface RefundInput {
+  /** Refund everything still unrefunded, including shipping and tax */
+  full?: unknown;
+  /** Items to refund; amount defaults to what's left of the item */
+  items?: unknown;
+  /** Also refund what's left of the shipping charge */
+  shipping?: unknown;
+  reason?: unknown;
+  reportId?: unknown;
+}
+
+export interface ReprintInput {
+  orderItemId?: unknown;
+  reason?: unknown;
+  reportId?: unknown;
+}
+
+export interface ProblemReportInput {
+  orderItemId?: unknown;
+  category?: unknown;
+  description?: unknown;
+}
+
+export interface RefundPlan {
+  amount: number;
+  currency: string;
+  items: RefundLine[];
+  shippingAmount: number;
+  /** Nothing is left to refund on any item afterwards */
+  coversAllItems: boolean;
+}
+
+export interface FulfillmentCancellation {
+  status: 'cancelled' | 'not_submitted' | 'in_production' | 'failed';
+  prodigiOrderId?: string;
+  error?: string;
+}
+
+export interface RefundOutcome {
+  refund: OrderRefund;
+  /** Set when the refund covered every item, so the Prodigi order was due to be cancelled */
+  fulfillment: FulfillmentCancellation | null;
+}
+
+export interface Reprint {
+  dropshipOrderId: string;
+  prodigiOrderId: string;
+  merchantReference: string;
+  status: string;
+}
+
+/** The parts of an order a refund is planned from */
+export interface RefundableOrder {
+  total_amount: number | string;
+  shipping_amount?: number | string | null;
+  currency: string;
+  exchange_rate?: number | string | null;
+  order_items: Array<{
+    id: string;
+    quantity: number;
+    unit_price: number | string;
+    total_price: number | string;
+  }>;
+}
+
+export interface FulfillmentClient {
+  orders: Pick<OrdersAPI, 'get' | 'create'>;
+  orderActions: Pick<OrderActionsAPI, 'getActions' | 'cancel'>;
+}
+
+export interface RefundServiceDeps {
+  stripe: { refunds: Pick<Stripe.RefundsResource, 'create' | 'list'> };
+  /** Prodigi; only needed to cancel orders and create reprints */
+  fulfillment?: FulfillmentClient;
+}
+
+export class RefundError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400,
+    public details?: any
+  ) {
+    super(message);
+    this.name = 'RefundError';
+    Object.setPrototypeOf(this, RefundError.prototype);
+  }
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const PROBLEM_CATEGORIES: Array<{ value: ProblemCategory; label: string }> = [
+  { value: 'damaged', label: 'Arrived damaged' },
+  { value: 'print_quality', label: 'Print quality issue' },
+  { value: 'wrong_item', label: 'Wrong item or size' },
+  { value: 'missing', label: 'Never arrived' },
+  { value: 'other', label: 'Something else' },
+];
+
+/** Categories staff can't judge without seeing the item */
+export const PHOTO_REQUIRED_CATEGORIES: ProblemCategory[] = ['damaged', 'print_quality', 'wrong_item'];
+
+/** Order statuses a customer can report a problem in */
+export const REPORTABLE_ORDER_STATUSES = ['shipped', 'delivered'];
+
+export const PROBLEM_REPORT_BUCKET = 'problem-reports';
+export const MAX_PROBLEM_PHOTOS = 4;
+export const MAX_PROBLEM_PHOTO_SIZE = 10 * 1024 * 1024;
+
+const MAX_REASON_LENGTH = 500;
+const MAX_DESCRIPTION_LENGTH = 2000;
+const PHOTO_URL_TTL_SECONDS = 60 * 60;
+
+/** Payment statuses with money left to refund */
+const REFUNDABLE_PAYMENT_STATUSES = ['paid', 'partially_refunded'];
+
+/** Marks the Prodigi submissions a refund stopped, so a failed refund can queue them again */
+const SUBMISSION_CANCELLED_NOTE = 'Order refunded before it was sent to Prodigi';
+
+const ORDER_FOR_REFUND = `
+  id, order_number, user_id, status, payment_status, stripe_payment_intent_id,
+  total_amount, shipping_amount, currency, exchange_rate,
+  order_items ( id, quantity, unit_price, total_price, products ( sku ) ),
+  dropship_orders ( id, provider, provider_order_id, status, reprint_of )
+`;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function requiredText(value: unknown, field: string, maxLength: number): string {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new RefundError(`A ${field} is required`);
+  }
+  const trimmed = value.trim();
+  if (trimmed.length > maxLength) {
+    throw new RefundError(`The ${field} must be at most ${maxLength} characters`);
+  }
+  return trimmed;
+}
+
+function optionalId(value: unknown, field: string): string | null {
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value !== 'string') {
+    throw new RefundError(`Invalid ${field}`);
+  }
+  return value;
+}
+
+function sum(amounts: number[], currency: string): number {
+  return roundToCurrency(amounts.reduce((total, amount) => total + amount, 0), currency);
+}
+
+/**
+ * What the customer paid for an order item, in the order's currency. Item
+ * prices are stored in the base currency; converted prices were rounded to
+ * a price ending at checkout, so they're converted the same way here.
+ */
+export function getItemChargedTotal(
+  item: RefundableOrder['order_items'][number],
+  order: Pick<RefundableOrder, 'currency' | 'exchange_rate'>
+): number {
+  const rate = Number(order.exchange_rate) || 1;
+  if (rate === 1) {
+    return roundToCurrency(Number(item.total_price), order.currency);
+  }
+  return roundToCurrency(applyPriceEnding(Number(item.unit_price) * rate, order.currency) * item.quantity, order.currency);
+}
+
+/**
+ * Work out what a refund request pays back, given the refunds already made
+ * or in flight. Amounts are capped at what's left of the payment, since
+ * discounts make item prices add up to more than the total.
+ */
+export function planRefund(order: RefundableOrder, existing: OrderRefund[], input: RefundInput): RefundPlan {
+  const { currency } = order;
+  const committed = existing.filter(refund => refund.status === 'pending' || refund.status === 'succeeded');
+
+  const remainingPayment = roundToCurrency(
+    Number(order.total_amount) - sum(committed.map(refund => refund.amount), currency),
+    currency
+  );
+  if (remainingPayment <= 0) {
+    throw new RefundError('This order has already been refunded in full', 409);
+  }
+
+  const remainingForItem = (item: RefundableOrder['order_items'][number]) => {
+    const refunded = committed.flatMap(refund => refund.items)
+      .filter(line => line.orderItemId === item.id)
+      .map(line => line.amount);
+    return roundToCurrency(getItemChargedTotal(item, order) - sum(refunded, currency), currency);
+  };
+  const remainingShipping = roundToCurrency(
+    Number(order.shipping_amount || 0) - sum(committed.map(refund => refund.shippingAmount), currency),
+    currency
+  );
+
+  if (input.full === true) {
+    return {
+      amount: remainingPayment,
+      currency,
+      items: order.order_items
+        .map(item => ({ orderItemId: item.id, amount: remainingForItem(item) }))
+        .filter(line => line.amount > 0),
+      shippingAmount: Math.max(remainingShipping, 0),
+      coversAllItems: true,
+    };
+  }
+
+  const requested = input.items ?? [];
+  if (!Array.isArray(requested)) {
+    throw new RefundError('Invalid refund items');
+  }
+
+  const items: RefundLine[] = [];
+  for (const line of requested) {
+    const orderItemId = typeof line?.orderItemId === 'string' ? line.orderItemId : null;
+    const item = order.order_items.find(candidate => candidate.id === orderItemId);
+    if (!item) {
+      throw new RefundError('Refund items must be part of this order');
+    }
+    if (items.some(existingLine => existingLine.orderItemId === item.id)) {
+      throw new RefundError('Each item can only be refunded once per request');
+    }
+
+    const remaining = remainingForItem(item);
+    if (remaining <= 0) {
+      throw new RefundError('This item has already been refunded in full', 409, { orderItemId: item.id });
+    }
+
+    const amount = line.amount === undefined || line.amount === null
+      ? remaining
+      : roundToCurrency(Number(line.amount), currency);
+    if (!Number.isFinite(amount) || amount <= 0) {
+      throw new RefundError('Refund amounts must be positive');
+    }
+    if (amount > remaining) {
+      throw new RefundError(`At most ${remaining} ${currency.toUpperCase()} is left to refund on this item`, 400, {
+        orderItemId: item.id,
+        remaining,
+      });
+    }
+    items.push({ orderItemId: item.id, amount });
+  }
+
+  const shippingAmount = input.shipping === true ? Math.max(remainingShipping, 0) : 0;
+  const amount = Math.min(sum([...items.map(line => line.amount), shippingAmount], currency), remainingPayment);
+  if (amount <= 0) {
+    throw new RefundError('Choose items or shipping to refund');
+  }
+
+  const coversAllItems = order.order_items.every(item => {
+    const line = items.find(candidate => candidate.orderItemId === item.id);
+    return remainingForItem(item) - (line?.amount ?? 0) <= 0;
+  });
+
+  return { amount, currency, items, shippingAmount, coversAllItems };
+}
+
+/**
+ * Validate a customer's problem report and its photos
+ */
+export function validateProblemReport(input: ProblemReportInput, photos: File[]) {
+  const category = PROBLEM_CATEGORIES.find(option => option.value === input.category)?.value;
+  if (!category) {
+    throw new RefundError('Please choose what went wrong');
+  }
+
+  const description = requiredText(input.description, 'description', MAX_DESCRIPTION_LENGTH);
+
+  if (photos.length > MAX_PROBLEM_PHOTOS) {
+    throw new RefundError(`A report can have at most ${MAX_PROBLEM_PHOTOS} photos`);
+  }
+  if (photos.some(photo => !photo.type.startsWith('image/'))) {
+    throw new RefundError('Photos must be images');
+  }
+  if (photos.some(photo => photo.size > MAX_PROBLEM_PHOTO_SIZE)) {
+    throw new RefundError('Photos must be smaller than 10MB');
+  }
+  if (photos.length === 0 && PHOTO_REQUIRED_CATEGORIES.includes(category)) {
+    throw new RefundError('Please add a photo of the problem');
+  }
+
+  return {
+    category,
+    description,
+    orderItemId: optionalId(input.orderItemId, 'order item'),
+  };
+}
+
+function toRefundStatus(status: string | null): RefundStatus {
+  switch (status) {
+    case 'succeeded':
+    case 'failed':
+    case 'canceled':
+      return status;
+    default:
+      // pending, requires_action
+      return 'pending';
+  }
+}
+
+function mapRefund(row: any): OrderRefund {
+  return {
+    id: row.id,
+    orderId: row.order_id,
+    problemReportId: row.problem_report_id ?? null,
+    amount: Number(row.amount),
+    currency: row.currency,
+    items: (row.items || []).map((line: any) => ({
+      orderItemId: line.order_item_id,
+      amount: Number(line.amount),
+    })),
+    shippingAmount: Number(row.shipping_amount || 0),
+    reason: row.reason ?? null,
+    status: row.status,
+    stripeRefundId: row.stripe_refund_id ?? null,
+    failureReason: row.failure_reason ?? null,
+    createdBy: row.created_by ?? null,
+    createdAt: row.created_at,
+  };
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+export class RefundService {
+  constructor(
+    private supabase: SupabaseClient,
+    private deps: RefundServiceDeps
+  ) {}
+
+  async listRefunds(orderId: string): Promise<OrderRefund[]> {
+    const { data, error } = await this.supabase
+      .from('order_refunds')
+      .select('*')
+      .eq('order_id', orderId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new RefundError('Failed to load refunds', 500, error);
+    }
+
+    return (data || []).map(mapRefund);
+  }
+
+  async listProblemReports(orderId: string): Promise<ProblemReport[]> {
+    const { data, error } = await this.supabase
+      .from('order_problem_reports')
+      .select('*')
+      .eq('order_id', orderId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new RefundError('Failed to load problem reports', 500, error);
+    }
+
+    return Promise.all((data || []).map(row => this.mapReport(row)));
+  }
+
+  /**
+   * Refund part or all of an order through Stripe
+   */
+  async refund(orderId: string, actorId: string, input: RefundInput): Promise<RefundOutcome> {
+    const reason = requiredText(input.reason, 'reason', MAX_REASON_LENGTH);
+    const reportId = optionalId(input.reportId, 'problem report');
+
+    const order = await this.loadOrder(orderId);
+    if (!order.stripe_payment_intent_id || !REFUNDABLE_PAYMENT_STATUSES.includes(order.payment_status)) {
+      throw new RefundError('This order has no payment that can be refunded', 409, {
+        paymentStatus: order.payment_status,
+      });
+    }
+    if (reportId) {
+      await this.loadOpenReport(orderId, reportId);
+    }
+
+    const plan = planRefund(order, await this.listRefunds(orderId), input);
+
+    const { data: pending, error: beginError } = await this.supabase.rpc('begin_order_refund', {
+      p_order_id: orderId,
+      p_amount: plan.amount,
+      p_currency: plan.currency,
+      p_items: plan.items.map(line => ({ order_item_id: line.orderItemId, amount: line.amount })),
+      p_shipping_amount: plan.shippingAmount,
+      p_reason: reason,
+      p_problem_report_id: reportId,
+      p_created_by: actorId,
+    });
+
+    if (beginError) {
+      if (beginError.message?.includes('refund_exceeds_payment')) {
+        throw new RefundError('Another refund for this order is already in progress', 409);
+      }
+      throw new RefundError('Failed to record refund', 500, beginError);
+    }
+
+    // Cancel once the amount is reserved; if Prodigi has already started,
+    // staff still get to refund
+    const fulfillment = plan.coversAllItems ? await this.cancelFulfillment(order) : null;
+    if (fulfillment?.status === 'failed') {
+      await this.supabase
+        .from('order_refunds')
+        .update({
+          status: 'failed',
+          failure_reason: `Prodigi cancellation failed: ${fulfillment.error}`,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', pending.id);
+      throw new RefundError("Couldn't cancel the Prodigi order; nothing was refunded", 502, {
+        prodigiOrderId: fulfillment.prodigiOrderId,
+        message: fulfillment.error,
+      });
+    }
+
+    let stripeRefund: Stripe.Refund;
+    try {
+      stripeRefund = await this.deps.stripe.refunds.create(
+        {
+          payment_intent: order.stripe_payment_intent_id,
+          amount: toMinorUnits(plan.amount, plan.currency),
+          reason: 'requested_by_customer',
+          metadata: {
+            order_id: orderId,
+            refund_id: pending.id,
+            ...(reportId && { problem_report_id: reportId }),
+          },
+        },
+        { idempotencyKey: `order-refund-${pending.id}` }
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      await this.supabase
+        .from('order_refunds')
+        .update({ status: 'failed', failure_reason: message, updated_at: new Date().toISOString() })
+        .eq('id', pending.id);
+      // The customer is still charged, so the order still has to ship
+      if (fulfillment) {
+        await this.restoreFulfillment(order, fulfillment, { refundId: pending.id, actorId, message });
+      }
+      throw new RefundError('Stripe could not make the refund', 502, { message, fulfillment });
+    }
+
+    const refund = await this.reconcile(orderId, stripeRefund, pending.id);
+
+    if (reportId) {
+      await this.resolveReport(reportId, 'refunded', actorId, reason);
+    }
+
+    return { refund, fulfillment };
+  }
+
+  /**
+   * Have Prodigi print and ship an order item again, with the same product,
+   * attributes and artwork as the original
+   */
+  async reprint(orderId: string, actorId: string, input: ReprintInput): Promise<Reprint> {
+    const reason = requiredText(input.reason, 'reason', MAX_REASON_LENGTH);
+    const reportId = optionalId(input.reportId, 'problem report');
+
+    const order = await this.loadOrder(orderId);
+    const report = reportId ? await this.loadOpenReport(orderId, reportId) : null;
+
+    const orderItemId = optionalId(input.orderItemId, 'order item') ?? report?.order_item_id;
+    const item = order.order_items.find((candidate: any) => candidate.id === orderItemId);
+    if (!item) {
+      throw new RefundError('Choose an item from this order to reprint');
+    }
+
+    const dropshipOrders: any[] = order.dropship_orders || [];
+    const original = dropshipOrders.find(row => row.provider === 'prodigi' && row.provider_order_id && !row.reprint_of);
+    if (!original) {
+      throw new RefundError("This order hasn't been sent to Prodigi yet", 409);
+    }
+
+    const fulfillment = this.requireFulfillment();
+    const prodigiOrder = await fulfillment.orders.get(original.provider_order_id);
+
+    const productSku = String(item.products?.sku || '').toUpperCase();
+    const prodigiItem = prodigiOrder.items.find(candidate => productSku.startsWith(candidate.sku.toUpperCase()))
+      ?? (prodigiOrder.items.length === 1 ? prodigiOrder.items[0] : undefined);
+    if (!prodigiItem) {
+      throw new RefundError("Couldn't find this item in the Prodigi order", 409, {
+        prodigiOrderId: original.provider_order_id,
+      });
+    }
+
+    const reprintNumber = dropshipOrders.filter(row => row.reprint_of).length + 1;
+    const merchantReference = `${prodigiOrder.merchantReference || order.order_number}-R${reprintNumber}`;
+
+    const created = await fulfillment.orders.create({
+      merchantReference,
+      shippingMethod: prodigiOrder.shippingMethod,
+      idempotencyKey: `reprint-${orderId}-${reprintNumber}`,
+      recipient: prodigiOrder.recipient,
+      items: [{
+        merchantReference: prodigiItem.merchantReference,
+        sku: prodigiItem.sku,
+        copies: item.quantity,
+        sizing: prodigiItem.sizing,
+        attributes: prodigiItem.attributes,
+        assets: prodigiItem.assets.map(asset => ({
+          printArea: asset.printArea,
+          url: asset.url,
+          ...(asset.md5Hash && { md5Hash: asset.md5Hash }),
+        })),
+      }],
+      metadata: {
+        reprintOf: prodigiOrder.id,
+        orderId,
+        ...(reportId && { problemReportId: reportId }),
+      },
+    });
+
+    const status = (created.status?.stage || 'pending').toLowerCase();
+    const { data: dropship, error } = await this.supabase
+      .from('dropship_orders')
+      .insert({
+        order_id: orderId,
+        order_item_id: item.id,
+        provider: 'prodigi',
+        provider_order_id: created.id,
+        provider_reference: merchantReference,
+        status,
+        provider_response: created,
+        reprint_of: original.id,
+      })
+      .select('id')
+      .single();
+
+    if (error || !dropship) {
+      // The reprint exists at Prodigi either way; staff need to know it isn't tracked
+      throw new RefundError('The reprint was created at Prodigi but could not be saved', 500, {
+        prodigiOrderId: created.id,
+        error,
+      });
+    }
+
+    if (report) {
+      await this.resolveReport(report.id, 'reprinted', actorId, reason);
+    }
+
+    return { dropshipOrderId: dropship.id, prodigiOrderId: created.id, merchantReference, status };
+  }
+
+  /**
+   * File a customer's report of a problem with a shipped order
+   */
+  async reportProblem(
+    userId: string,
+    orderId: string,
+    input: ProblemReportInput,
+    photos: File[]
+  ): Promise<ProblemReport> {
+    const report = validateProblemReport(input, photos);
+
+    const { data: order } = await this.supabase
+      .from('orders')
+      .select('id, user_id, status, order_items ( id )')
+      .eq('id', orderId)
+      .maybeSingle();
+
+    if (!order || order.user_id !== userId) {
+      throw new RefundError('Order not found', 404);
+    }
+    if (!REPORTABLE_ORDER_STATUSES.includes(order.status)) {
+      throw new RefundError('Problems can be reported once the order has shipped', 409);
+    }
+    if (report.orderItemId && !(order.order_items || []).some((item: any) => item.id === report.orderItemId)) {
+      throw new RefundError('That item is not part of this order');
+    }
+
+    const photoPaths: string[] = [];
+    for (const photo of photos) {
+      const extension = photo.name.split('.').pop() || 'jpg';
+      const path = `${orderId}/${Date.now()}-${Math.random().toString(36).substring(2)}.${extension}`;
+      const { error } = await this.supabase.storage
+        .from(PROBLEM_REPORT_BUCKET)
+        .upload(path, photo, { contentType: photo.type, upsert: false });
+
+      if (error) {
+        await this.removePhotos(photoPaths);
+        throw new RefundError('Failed to upload photo', 500, { message: error.message });
+      }
+      photoPaths.push(path);
+    }
+
+    const { data, error } = await this.supabase
+      .from('order_problem_reports')
+      .insert({
+        order_id: orderId,
+        order_item_id: report.orderItemId,
+        user_id: userId,
+        category: report.category,
+        description: report.description,
+        photo_paths: photoPaths,
+      })
+      .select('*')
+      .single();
+
+    if (error || !data) {
+      await this.removePhotos(photoPaths);
+      if (error?.code === '23505') {
+        throw new RefundError("You've already reported a problem with this item; we'll be in touch", 409);
+      }
+      throw new RefundError('Failed to save your report', 500, error);
+    }
+
+    return this.mapReport(data);
+  }
+
+  /**
+   * Bring every refund of a charge up to date; used for charge.refunded,
+   * which only carries the charge's cumulative amount_refunded
+   */
+  async reconcileCharge(charge: Stripe.Charge): Promise<OrderRefund[]> {
+    const refunds = await this.deps.stripe.refunds.list({ charge: charge.id, limit: 100 });
+    const reconciled: OrderRefund[] = [];
+    for (const refund of refunds.data) {
+      const result = await this.reconcileStripeRefund(refund);
+      if (result) reconciled.push(result);
+    }
+    return reconciled;
+  }
+
+  /**
+   * Apply a Stripe refund to its order. Returns null when the refund isn't
+   * for one of our orders (e.g. a credit pack).
+   */
+  async reconcileStripeRefund(refund: Stripe.Refund): Promise<OrderRefund | null> {
+    let orderId = refund.metadata?.order_id || null;
+
+    if (!orderId) {
+      const paymentIntentId = typeof refund.payment_intent === 'string'
+        ? refund.payment_intent
+        : refund.payment_intent?.id;
+      if (!paymentIntentId) return null;
+
+      const { data: order } = await this.supabase
+        .from('orders')
+        .select('id')
+        .eq('stripe_payment_intent_id', paymentIntentId)
+        .maybeSingle();
+      orderId = order?.id ?? null;
+    }
+
+    if (!orderId) return null;
+    return this.reconcile(orderId, refund, refund.metadata?.refund_id || null);
+  }
+
+  // ==========================================================================
+  // INTERNALS
+  // ==========================================================================
+
+  private async reconcile(orderId: string, refund: Stripe.Refund, refundId: string | null): Promise<OrderRefund> {
+    const { data, error } = await this.supabase.rpc('reconcile_order_refund', {
+      p_order_id: orderId,
+      p_stripe_refund_id: refund.id,
+      p_amount: fromMinorUnits(refund.amount, refund.currency),
+      p_currency: refund.currency.toUpperCase(),
+      p_status: toRefundStatus(refund.status),
+      p_refund_id: refundId,
+      p_reason: refund.reason ? `Stripe: ${refund.reason}` : null,
+      p_failure_reason: refund.failure_reason ?? null,
+    });
+
+    if (error || !data) {
+      throw new RefundError('Failed to reconcile refund', 500, { stripeRefundId: refund.id, error });
+    }
+
+    return mapRefund(data);
+  }
+
+  private async cancelFulfillment(order: any): Promise<FulfillmentCancellation> {
+    const original = (order.dropship_orders || []).find(
+      (row: any) => row.provider === 'prodigi' && row.provider_order_id && !row.reprint_of
+    );
+    if (!original) {
+      // Still waiting for the retry worker to submit it; stop that here, and the
+      // worker also skips orders that end up refunded
+      const { error } = await this.supabase
+        .from('retry_operations')
+        .update({
+          status: 'cancelled',
+          cancelled_at: new Date().toISOString(),
+          resolution_note: SUBMISSION_CANCELLED_NOTE,
+        })
+        .eq('order_id', order.id)
+        .eq('type', 'prodigi_order_creation')
+        .eq('status', 'pending');
+
+      if (error) {
+        console.error('Error cancelling Prodigi submission for refund:', error);
+        return { status: 'failed', error: error.message };
+      }
+      return { status: 'not_submitted' };
+    }
+    if (original.status === 'cancelled') {
+      return { status: 'cancelled', prodigiOrderId: original.provider_order_id };
+    }
+
+    const prodigiOrderId: string = original.provider_order_id;
+    try {
+      const { orderActions } = this.requireFulfillment();
+      const actions = await orderActions.getActions(prodigiOrderId);
+      if (actions.cancel?.isAvailable !== 'Yes') {
+        return { status: 'in_production', prodigiOrderId };
+      }
+
+      await orderActions.cancel(prodigiOrderId);
+      await this.supabase
+        .from('dropship_orders')
+        .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+        .eq('id', original.id);
+
+      return { status: 'cancelled', prodigiOrderId };
+    } catch (error) {
+      console.error('Error cancelling Prodigi order for refund:', error);
+      return {
+        status: 'failed',
+        prodigiOrderId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  /**
+   * Undo cancelFulfillment after Stripe refused the refund. A submission that
+   * hadn't happened yet is queued again; a Prodigi order can't be restored,
+   * so it is flagged in the order log for staff to resubmit.
+   */
+  private async restoreFulfillment(
+    order: any,
+    fulfillment: FulfillmentCancellation,
+    failure: { refundId: string; actorId: string; message: string }
+  ): Promise<void> {
+    if (fulfillment.status === 'not_submitted') {
+      const { error } = await this.supabase
+        .from('retry_operations')
+        .update({
+          status: 'pending',
+          cancelled_at: null,
+          resolution_note: null,
+          next_retry: new Date().toISOString(),
+        })
+        .eq('order_id', order.id)
+        .eq('type', 'prodigi_order_creation')
+        .eq('status', 'cancelled')
+        .eq('resolution_note', SUBMISSION_CANCELLED_NOTE);
+
+      if (error) {
+        console.error('Error re-queueing Prodigi submission after failed refund:', error);
+      }
+      return;
+    }
+
+    if (fulfillment.status === 'cancelled') {
+      const { error } = await this.supabase.from('order_logs').insert({
+        order_id: order.id,
+        action: 'refund_failed_after_prodigi_cancellation',
+        details: {
+          refund_id: failure.refundId,
+          prodigi_order_id: fulfillment.prodigiOrderId,
+          error: failure.message,
+        },
+        created_by: failure.actorId,
+      });
+
+      if (error) {
+        console.error('Error flagging cancelled Prodigi order after failed refund:', error);
+      }
+    }
+  }
+
+  private requireFulfillment(): FulfillmentClient {
+    if (!this.deps.fulfillment) {
+      throw new RefundError('Prodigi is not configured', 503);
+    }
+    return this.deps.fulfillment;
+  }
+
+  private async loadOrder(orderId: string): Promise<any> {
+    const { data, error } = await this.supabase
+      .from('orders')
+      .select(ORDER_FOR_REFUND)
+      .eq('id', orderId)
+      .maybeSingle();
+
+    if (error) {
+      throw new RefundError('Failed to load order', 500, error);
+    }
+    if (!data) {
+      throw new RefundError('Order not found', 404);
+    }
+    return data;
+  }
+
+  private async loadOpenReport(orderId: string, reportId: string): Promise<any> {
+    const { data } = await this.supabase
+      .from('order_problem_reports')
+      .select('id, order_item_id, status')
+      .eq('id', reportId)
+      .eq('order_id', orderId)
+      .maybeSingle();
+
+    if (!data) {
+      throw new RefundError('Problem report not found', 404);
+    }
+    if (data.status !== 'open') {
+      throw new RefundError('This problem report has already been resolved', 409);
+    }
+    return data;
+  }
+
+  private async resolveReport(
+    reportId: string,
+    status: Exclude<ProblemReportStatus, 'open'>,
+    actorId: string,
+    note: string
+  ): Promise<void> {
+    const now = new Date().toISOString();
+    const { error } = await this.supabase
+      .from('order_problem_reports')
+      .update({ status, resolution_note: note, resolved_by: actorId, resolved_at: now, updated_at: now })
+      .eq('id', reportId);
+
+    // The refund or reprint has happened; don't fail it over the report
+    if (error) {
+      console.error('Error resolving problem report:', error);
+    }
+  }
+
+  private async mapReport(row: any): Promise<ProblemReport> {
+    const paths: string[] = row.photo_paths || [];
+    let photos: string[] = [];
+
+    if (paths.length > 0) {
+      const { data } = await this.supabase.storage
+        .from(PROBLEM_REPORT_BUCKET)
+        .createSignedUrls(paths, PHOTO_URL_TTL_SECONDS);
+      photos = (data || []).map(entry => entry.signedUrl).filter((url): url is string => Boolean(url));
+    }
+
+    return {
+      id: row.id,
+      orderId: row.order_id,
+      orderItemId: row.order_item_id ?? null,
+      userId: row.user_id,
+      category: row.category,
+      description: row.description,
+      photos,
+      status: row.status,
+      resolutionNote: row.resolution_note ?? null,
+      resolvedAt: row.resolved_at ?? null,
+      createdAt: row.created_at,
+    };
+  }
+
+  private async removePhotos(paths: string[]): Promise<void> {
+    if (paths.length === 0) return;
+    const { error } = await this.supabase.storage.from(PROBLEM_REPORT_BUCKET).remove(paths);
+    if (error) {
+      console.error('Error removing problem report photos:', error);
+    }
+  }
+}
@@ -0,0 +1,445 @@
+/**
+ * Retry Operations Admin
+ *
+ * Lets admins see and act on the operations OrderRetryManager persists in
+ * retry_operations: list and inspect them, force an immediate retry, cancel
+ * or mark them resolved, and bulk-retry every failure with the same error
+ * code. Every action is written to order_logs against the operation's order.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { OrderRetryManager, RetryableOperation } from '@/lib/orderRetry';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type RetryOperationStatus = RetryableOperation['status'];
+export type RetryOperationType = RetryableOperation['type'];
+
+export interface AdminRetryOperation {
+  id: string;
+  type: RetryOperationType;
+  orderId: string;
+  orderNumber: string | null;
+  customerEmail: string | null;
+  orderStatus: string | null;
+  payload: unknown;
+  attempts: number;
+  maxAttempts: number;
+  status: RetryOperationStatus;
+  error: string | null;
+  errorCode: string | null;
+  result: unknown;
+  lastAttempt: string | null;
+  nextRetry: string | null;
+  createdAt: string;
+  completedAt: string | null;
+  failedAt: string | null;
+  cancelledAt: string | null;
+  deadLetteredAt: string | null;
+  resolvedAt: string | null;
+  resolvedBy: string | null;
+  resolutionNote: string | null;
+}
+
+export interface RetryOperationLog {
+  id: string;
+  action: string;
+  details: Record<string, unknown> | null;
+  createdAt: string;
+  createdBy: string | null;
+}
+
+export interface RetryOperationFilters {
+  status?: RetryOperationStatus;
+  type?: RetryOperationType;
+  errorCode?: string;
+  orderId?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface RetryOperationSummary {
+  byStatus: Record<RetryOperationStatus, number>;
+  // Failed and dead-lettered operations grouped by error code, most common first
+  failedByErrorCode: Array<{ errorCode: string; count: number }>;
+}
+
+export interface BulkRetryResult {
+  errorCode: string;
+  matched: number;
+  succeeded: number;
+  failed: number;
+}
+
+export class RetryOperationError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400,
+    public details?: any
+  ) {
+    super(message);
+    this.name = 'RetryOperationError';
+    Object.setPrototypeOf(this, RetryOperationError.prototype);
+  }
+}
+
+export const RETRY_OPERATION_STATUSES: RetryOperationStatus[] = [
+  'pending', 'processing', 'completed', 'failed', 'dead_letter', 'cancelled', 'resolved',
+];
+export const RETRY_OPERATION_TYPES: RetryOperationType[] = [
+  'prodigi_order_creation', 'prodigi_status_update', 'stripe_webhook', 'notification_send',
+];
+
+// Bulk retries run sequentially in the request, so cap how many one call takes on
+export const MAX_BULK_RETRY = 50;
+
+const FAILED_STATUSES: RetryOperationStatus[] = ['failed', 'dead_letter'];
+const RETRYABLE_STATUSES: RetryOperationStatus[] = ['pending', ...FAILED_STATUSES];
+const CLOSABLE_STATUSES: RetryOperationStatus[] = ['pending', 'processing', ...FAILED_STATUSES];
+const MAX_NOTE_LENGTH = 1000;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function mapOperation(row: any): AdminRetryOperation {
+  return {
+    id: row.id,
+    type: row.type,
+    orderId: row.order_id,
+    orderNumber: row.order_number ?? null,
+    customerEmail: row.customer_email ?? null,
+    orderStatus: row.order_status ?? null,
+    payload: row.payload,
+    attempts: row.attempts ?? 0,
+    maxAttempts: row.max_attempts ?? 5,
+    status: row.status,
+    error: row.error ?? null,
+    errorCode: row.error_code ?? null,
+    result: row.result ?? null,
+    lastAttempt: row.last_attempt ?? null,
+    nextRetry: row.next_retry ?? null,
+    createdAt: row.created_at,
+    completedAt: row.completed_at ?? null,
+    failedAt: row.failed_at ?? null,
+    cancelledAt: row.cancelled_at ?? null,
+    deadLetteredAt: row.dead_lettered_at ?? null,
+    resolvedAt: row.resolved_at ?? null,
+    resolvedBy: row.resolved_by ?? null,
+    resolutionNote: row.resolution_note ?? null,
+  };
+}
+
+function normalizeNote(note: unknown): string | null {
+  if (note === undefined || note === null) return null;
+  if (typeof note !== 'string') {
+    throw new RetryOperationError('Note must be a string');
+  }
+  const trimmed = note.trim();
+  if (trimmed.length > MAX_NOTE_LENGTH) {
+    throw new RetryOperationError(`Note must be at most ${MAX_NOTE_LENGTH} characters`);
+  }
+  return trimmed || null;
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+export class RetryOperationService {
+  constructor(
+    private supabase: SupabaseClient,
+    private retryManager: Pick<OrderRetryManager, 'processOperation'>
+  ) {}
+
+  async list(filters: RetryOperationFilters = {}): Promise<{ operations: AdminRetryOperation[]; total: number }> {
+    const limit = Math.min(Math.max(filters.limit ?? 50, 1), 100);
+    const offset = Math.max(filters.offset ?? 0, 0);
+
+    let query = this.supabase
+      .from('retry_operations_details')
+      .select('*', { count: 'exact' });
+
+    if (filters.status) query = query.eq('status', filters.status);
+    if (filters.type) query = query.eq('type', filters.type);
+    if (filters.errorCode) query = query.eq('error_code', filters.errorCode);
+    if (filters.orderId) query = query.eq('order_id', filters.orderId);
+
+    const { data, error, count } = await query
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw new RetryOperationError('Failed to fetch retry operations', 500, error);
+    }
+
+    return { operations: (data || []).map(mapOperation), total: count ?? 0 };
+  }
+
+  async summarize(): Promise<RetryOperationSummary> {
+    const { data, error } = await this.supabase
+      .from('retry_operations')
+      .select('status, error_code');
+
+    if (error) {
+      throw new RetryOperationError('Failed to summarize retry operations', 500, error);
+    }
+
+    const byStatus = Object.fromEntries(
+      RETRY_OPERATION_STATUSES.map(status => [status, 0])
+    ) as Record<RetryOperationStatus, number>;
+    const failedCodes = new Map<string, number>();
+
+    for (const row of (data || []) as Array<{ status: RetryOperationStatus; error_code: string | null }>) {
+      if (row.status in byStatus) byStatus[row.status]++;
+      if (FAILED_STATUSES.includes(row.status)) {
+        const code = row.error_code || 'UNKNOWN_ERROR';
+        failedCodes.set(code, (failedCodes.get(code) || 0) + 1);
+      }
+    }
+
+    return {
+      byStatus,
+      failedByErrorCode: Array.from(failedCodes, ([errorCode, count]) => ({ errorCode, count }))
+        .sort((a, b) => b.count - a.count),
+    };
+  }
+
+  /**
+   * One operation with the order_logs entries admins have made for it
+   */
+  async get(operationId: string): Promise<AdminRetryOperation & { history: RetryOperationLog[] }> {
+    const operation = await this.fetchOperation(operationId);
+
+    const { data: logs, error } = await this.supabase
+      .from('order_logs')
+      .select('id, action, details, created_at, created_by')
+      .eq('order_id', operation.orderId)
+      .eq('details->>retry_operation_id', operationId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching retry operation history:', error);
+    }
+
+    return {
+      ...operation,
+      history: (logs || []).map((log: any) => ({
+        id: log.id,
+        action: log.action,
+        details: log.details,
+        createdAt: log.created_at,
+        createdBy: log.created_by,
+      })),
+    };
+  }
+
+  /**
+   * Run an operation now, regardless of its backoff schedule. Attempts are
+   * reset so an operation that exhausted its retries gets a fresh run.
+   */
+  async retryNow(operationId: string, adminId: string): Promise<AdminRetryOperation> {
+    const operation = await this.fetchOperation(operationId);
+    if (!RETRYABLE_STATUSES.includes(operation.status)) {
+      throw new RetryOperationError(`Cannot retry an operation that is ${operation.status}`, 409);
+    }
+
+    const succeeded = await this.runNow(operation);
+    const updated = await this.fetchOperation(operationId);
+
+    await this.log(updated, 'retry_operation_forced', adminId, {
+      previous_status: operation.status,
+      new_status: updated.status,
+      succeeded,
+      error: succeeded ? null : updated.error,
+      error_code: succeeded ? null : updated.errorCode,
+    });
+
+    return updated;
+  }
+
+  /**
+   * Stop retrying an operation
+   */
+  async cancel(operationId: string, adminId: string, note?: unknown): Promise<AdminRetryOperation> {
+    const resolutionNote = normalizeNote(note);
+    const operation = await this.fetchOperation(operationId);
+    if (!CLOSABLE_STATUSES.includes(operation.status)) {
+      throw new RetryOperationError(`Cannot cancel an operation that is ${operation.status}`, 409);
+    }
+
+    const updated = await this.update(operationId, operation.status, {
+      status: 'cancelled',
+      cancelled_at: new Date().toISOString(),
+      resolution_note: resolutionNote,
+    });
+
+    await this.log(updated, 'retry_operation_cancelled', adminId, {
+      previous_status: operation.status,
+      new_status: 'cancelled',
+      note: resolutionNote,
+    });
+
+    return updated;
+  }
+
+  /**
+   * Record that the underlying problem was fixed by hand (e.g. the order was
+   * placed with Prodigi manually), so the operation is no longer retried
+   */
+  async resolve(operationId: string, adminId: string, note?: unknown): Promise<AdminRetryOperation> {
+    const resolutionNote = normalizeNote(note);
+    const operation = await this.fetchOperation(operationId);
+    if (![...CLOSABLE_STATUSES, 'cancelled'].includes(operation.status)) {
+      throw new RetryOperationError(`Cannot resolve an operation that is ${operation.status}`, 409);
+    }
+
+    const updated = await this.update(operationId, operation.status, {
+      status: 'resolved',
+      resolved_at: new Date().toISOString(),
+      resolved_by: adminId,
+      resolution_note: resolutionNote,
+    });
+
+    await this.log(updated, 'retry_operation_resolved', adminId, {
+      previous_status: operation.status,
+      new_status: 'resolved',
+      note: resolutionNote,
+    });
+
+    return updated;
+  }
+
+  /**
+   * Retry every failed or dead-lettered operation with the given error code
+   * (optionally of one type), oldest first, up to MAX_BULK_RETRY per call
+   */
+  async bulkRetry(errorCode: string, adminId: string, type?: RetryOperationType): Promise<BulkRetryResult> {
+    const code = errorCode.trim().toUpperCase();
+    if (!code) {
+      throw new RetryOperationError('Error code is required');
+    }
+
+    let query = this.supabase
+      .from('retry_operations_details')
+      .select('*')
+      .in('status', FAILED_STATUSES)
+      .eq('error_code', code);
+    if (type) query = query.eq('type', type);
+
+    const { data, error } = await query
+      .order('created_at', { ascending: true })
+      .limit(MAX_BULK_RETRY);
+
+    if (error) {
+      throw new RetryOperationError('Failed to fetch operations to retry', 500, error);
+    }
+
+    const result: BulkRetryResult = { errorCode: code, matched: data?.length ?? 0, succeeded: 0, failed: 0 };
+
+    for (const operation of (data || []).map(mapOperation)) {
+      let succeeded = false;
+      try {
+        succeeded = await this.runNow(operation);
+      } catch (retryError) {
+        console.error(`Error bulk-retrying operation ${operation.id}:`, retryError);
+      }
+      if (succeeded) {
+        result.succeeded++;
+      } else {
+        result.failed++;
+      }
+
+      await this.log(operation, 'retry_operation_bulk_retried', adminId, {
+        previous_status: operation.status,
+        succeeded,
+        bulk_error_code: code,
+      });
+    }
+
+    return result;
+  }
+
+  // --------------------------------------------------------------------------
+  // Internals
+  // --------------------------------------------------------------------------
+
+  private async fetchOperation(operationId: string): Promise<AdminRetryOperation> {
+    const { data, error } = await this.supabase
+      .from('retry_operations_details')
+      .select('*')
+      .eq('id', operationId)
+      .maybeSingle();
+
+    if (error) {
+      throw new RetryOperationError('Failed to fetch retry operation', 500, error);
+    }
+    if (!data) {
+      throw new RetryOperationError('Retry operation not found', 404);
+    }
+
+    return mapOperation(data);
+  }
+
+  /**
+   * Update an operation only if its status hasn't changed since it was read,
+   * so an admin action can't overwrite a retry that finished meanwhile
+   */
+  private async update(
+    operationId: string,
+    expectedStatus: RetryOperationStatus,
+    fields: Record<string, unknown>
+  ): Promise<AdminRetryOperation> {
+    const { data, error } = await this.supabase
+      .from('retry_operations')
+      .update(fields)
+      .eq('id', operationId)
+      .eq('status', expectedStatus)
+      .select('id');
+
+    if (error) {
+      throw new RetryOperationError('Failed to update retry operation', 500, error);
+    }
+    if (!data || data.length === 0) {
+      throw new RetryOperationError('Retry operation changed while updating, reload and try again', 409);
+    }
+
+    return this.fetchOperation(operationId);
+  }
+
+  private async runNow(operation: AdminRetryOperation): Promise<boolean> {
+    await this.update(operation.id, operation.status, {
+      status: 'pending',
+      attempts: 0,
+      next_retry: new Date().toISOString(),
+    });
+    return this.retryManager.processOperation(operation.id);
+  }
+
+  private async log(
+    operation: AdminRetryOperation,
+    action: string,
+    adminId: string,
+    details: Record<string, unknown>
+  ): Promise<void> {
+    const { error } = await this.supabase
+      .from('order_logs')
+      .insert({
+        order_id: operation.orderId,
+        action,
+        details: {
+          retry_operation_id: operation.id,
+          operation_type: operation.type,
+          ...details,
+        },
+        created_by: adminId,
+      });
+
+    if (error) {
+      // The action itself succeeded; don't report it as failed over the audit entry
+      console.error(`Error writing ${action} to order_logs:`, error);
+    }
+  }
+}
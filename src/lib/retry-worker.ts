@@ -0,0 +1,169 @@
+/**
+ * Retry Worker
+ *
+ * Drives retry_operations on a schedule rather than at request time. Each run
+ * claims due operations in batches — claimed rows are locked to this worker,
+ * so concurrent workers never run the same operation — executes them through
+ * OrderRetryManager (which reschedules with its backoff config or
+ * dead-letters them), and reports metrics to Sentry.
+ *
+ * Started by the cron route (/api/cron/retry-operations) or as a standalone
+ * process with scripts/run-retry-worker.ts.
+ */
+
+import { randomUUID } from 'crypto';
+import type { ClaimedOperation, OrderRetryManager, RetryOutcome } from '@/lib/orderRetry';
+import { captureError, captureMessage, recordMetric } from '@/lib/monitoring/sentry';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RetryWorkerOptions {
+  workerId?: string;
+  batchSize?: number;
+  leaseSeconds?: number;
+  // No new batch is claimed once a run has taken this long
+  timeBudgetMs?: number;
+}
+
+export interface RetryWorkerRunResult {
+  workerId: string;
+  batches: number;
+  claimed: number;
+  completed: number;
+  rescheduled: number;
+  deadLettered: number;
+  cancelled: number;
+  errors: number;
+  // Operations still due when the run ended
+  backlog: number;
+  durationMs: number;
+}
+
+type RetryWorkerManager = Pick<
+  OrderRetryManager,
+  'claimDueOperations' | 'executeClaimedOperation' | 'countDueOperations'
+>;
+
+const DEFAULT_BATCH_SIZE = 10;
+const DEFAULT_LEASE_SECONDS = 300;
+const DEFAULT_TIME_BUDGET_MS = 45_000;
+
+// ============================================================================
+// WORKER
+// ============================================================================
+
+export class RetryWorker {
+  readonly workerId: string;
+  private batchSize: number;
+  private leaseSeconds: number;
+  private timeBudgetMs: number;
+
+  constructor(
+    private retryManager: RetryWorkerManager,
+    options: RetryWorkerOptions = {}
+  ) {
+    this.workerId = options.workerId || `retry-worker-${randomUUID().slice(0, 8)}`;
+    this.batchSize = Math.max(options.batchSize ?? DEFAULT_BATCH_SIZE, 1);
+    this.leaseSeconds = options.leaseSeconds ?? DEFAULT_LEASE_SECONDS;
+    this.timeBudgetMs = options.timeBudgetMs ?? DEFAULT_TIME_BUDGET_MS;
+  }
+
+  /**
+   * Claim and run due operations until none are left or the time budget is spent
+   */
+  async runOnce(): Promise<RetryWorkerRunResult> {
+    const startedAt = Date.now();
+    const result: RetryWorkerRunResult = {
+      workerId: this.workerId,
+      batches: 0,
+      claimed: 0,
+      completed: 0,
+      rescheduled: 0,
+      deadLettered: 0,
+      cancelled: 0,
+      errors: 0,
+      backlog: 0,
+      durationMs: 0,
+    };
+
+    try {
+      while (Date.now() - startedAt < this.timeBudgetMs) {
+        const operations = await this.retryManager.claimDueOperations(
+          this.workerId,
+          this.batchSize,
+          this.leaseSeconds
+        );
+        if (operations.length === 0) break;
+
+        result.batches++;
+        result.claimed += operations.length;
+
+        for (const operation of operations) {
+          const outcome = await this.execute(operation);
+          if (outcome === 'completed') result.completed++;
+          else if (outcome === 'rescheduled') result.rescheduled++;
+          else if (outcome === 'dead_lettered') result.deadLettered++;
+          else if (outcome === 'cancelled') result.cancelled++;
+          else result.errors++;
+        }
+
+        if (operations.length < this.batchSize) break;
+      }
+    } catch (error) {
+      // Claiming failed; whatever was claimed before is already accounted for
+      captureError(error instanceof Error ? error : new Error(String(error)), {
+        workerId: this.workerId,
+        stage: 'claim',
+      });
+      recordMetric('count', 'retry_worker.claim_errors', 1);
+      throw error;
+    } finally {
+      result.durationMs = Date.now() - startedAt;
+      recordMetric('count', 'retry_worker.runs', 1);
+      recordMetric('distribution', 'retry_worker.run_duration', result.durationMs, { unit: 'millisecond' });
+      recordMetric('distribution', 'retry_worker.claimed', result.claimed);
+    }
+
+    result.backlog = await this.retryManager.countDueOperations();
+    recordMetric('gauge', 'retry_worker.backlog', result.backlog);
+
+    return result;
+  }
+
+  private async execute(operation: ClaimedOperation): Promise<RetryOutcome | 'error'> {
+    const startedAt = Date.now();
+    let outcome: RetryOutcome | 'error';
+
+    try {
+      outcome = await this.retryManager.executeClaimedOperation(operation);
+    } catch (error) {
+      // Recording the outcome failed; the lease runs out and another run picks it up
+      outcome = 'error';
+      captureError(error instanceof Error ? error : new Error(String(error)), {
+        workerId: this.workerId,
+        operationId: operation.id,
+        operationType: operation.type,
+      });
+    }
+
+    const attributes = { type: operation.type, outcome };
+    recordMetric('count', 'retry_worker.operations', 1, { attributes });
+    recordMetric('distribution', 'retry_worker.operation_duration', Date.now() - startedAt, {
+      unit: 'millisecond',
+      attributes,
+    });
+
+    if (outcome === 'dead_lettered') {
+      captureMessage(`Retry operation ${operation.id} moved to dead letter`, 'warning', {
+        operationId: operation.id,
+        operationType: operation.type,
+        orderId: operation.order_id,
+        attempts: operation.attempts,
+      });
+    }
+
+    return outcome;
+  }
+}
@@ -0,0 +1,514 @@
+/**
+ * Product Reviews
+ *
+ * Verified-purchase reviews: only a user with a delivered order item for a
+ * product (order status, or the item's dropship order, is delivered) can
+ * review it. Ratings are aggregated per product type and frame style because
+ * every image gets its own product row. Reviews publish immediately; reports
+ * flag them for an admin to keep or hide.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ProductReview {
+  id: string;
+  productId: string;
+  productType: string;
+  frameStyle: string | null;
+  rating: number;
+  title: string | null;
+  comment: string | null;
+  images: string[];
+  reviewerName: string;
+  isVerifiedPurchase: boolean;
+  createdAt: string;
+}
+
+export interface ModeratedProductReview extends ProductReview {
+  userId: string;
+  orderId: string;
+  isApproved: boolean;
+  isFlagged: boolean;
+  flagReason: string | null;
+  flaggedAt: string | null;
+  moderatedAt: string | null;
+  moderationNote: string | null;
+}
+
+export interface RatingSummary {
+  productType: string;
+  frameStyle: string | null;
+  reviewCount: number;
+  averageRating: number;
+  distribution: Record<1 | 2 | 3 | 4 | 5, number>;
+}
+
+export interface CreateReviewInput {
+  productId?: unknown;
+  orderId?: unknown;
+  rating?: unknown;
+  title?: unknown;
+  comment?: unknown;
+  images?: unknown;
+}
+
+export type ModerationAction = 'approve' | 'reject' | 'flag' | 'clear_flag';
+
+export class ReviewError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400,
+    public details?: any
+  ) {
+    super(message);
+    this.name = 'ReviewError';
+    Object.setPrototypeOf(this, ReviewError.prototype);
+  }
+}
+
+export const REVIEW_PHOTO_BUCKET = 'images';
+export const MAX_REVIEW_PHOTOS = 4;
+export const MAX_REVIEW_PHOTO_SIZE = 5 * 1024 * 1024;
+
+const MAX_TITLE_LENGTH = 255;
+const MAX_COMMENT_LENGTH = 5000;
+const MODERATION_ACTIONS: ModerationAction[] = ['approve', 'reject', 'flag', 'clear_flag'];
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function optionalText(value: unknown, field: string, maxLength: number): string | null {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== 'string') {
+    throw new ReviewError(`Invalid ${field}`);
+  }
+  const trimmed = value.trim();
+  if (trimmed.length > maxLength) {
+    throw new ReviewError(`Review ${field} must be at most ${maxLength} characters`);
+  }
+  return trimmed || null;
+}
+
+/**
+ * Validate the user-supplied part of a review
+ */
+export function validateReviewInput(input: CreateReviewInput, userId: string) {
+  const rating = Number(input.rating);
+  if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+    throw new ReviewError('Rating must be a whole number from 1 to 5');
+  }
+
+  const images = input.images ?? [];
+  if (!Array.isArray(images) || images.some(url => typeof url !== 'string')) {
+    throw new ReviewError('Invalid review photos');
+  }
+  if (images.length > MAX_REVIEW_PHOTOS) {
+    throw new ReviewError(`A review can have at most ${MAX_REVIEW_PHOTOS} photos`);
+  }
+  // Photos must have been uploaded through /api/reviews/photos by this user
+  const ownPrefix = `/${REVIEW_PHOTO_BUCKET}/${userId}/reviews/`;
+  if (images.some((url: string) => !url.includes(ownPrefix))) {
+    throw new ReviewError('Review photos must be uploaded first');
+  }
+
+  return {
+    rating,
+    title: optionalText(input.title, 'title', MAX_TITLE_LENGTH),
+    comment: optionalText(input.comment, 'comment', MAX_COMMENT_LENGTH),
+    images: images as string[],
+  };
+}
+
+/**
+ * Merge per-style summaries (e.g. into one rating for a product type)
+ */
+export function combineRatingSummaries(
+  summaries: RatingSummary[],
+  productType: string,
+  frameStyle: string | null = null
+): RatingSummary | null {
+  if (summaries.length === 0) return null;
+
+  const distribution = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+  let reviewCount = 0;
+  let ratingTotal = 0;
+
+  for (const summary of summaries) {
+    reviewCount += summary.reviewCount;
+    ratingTotal += summary.averageRating * summary.reviewCount;
+    for (const star of [1, 2, 3, 4, 5] as const) {
+      distribution[star] += summary.distribution[star];
+    }
+  }
+
+  if (reviewCount === 0) return null;
+
+  return {
+    productType,
+    frameStyle,
+    reviewCount,
+    averageRating: Math.round((ratingTotal / reviewCount) * 100) / 100,
+    distribution,
+  };
+}
+
+function reviewerName(profile: any): string {
+  const fullName = typeof profile?.full_name === 'string' ? profile.full_name.trim() : '';
+  if (fullName) {
+    const [first, ...rest] = fullName.split(/\s+/);
+    const last = rest.pop();
+    return last ? `${first} ${last.charAt(0)}.` : first;
+  }
+  return profile?.username || 'Verified buyer';
+}
+
+function mapReview(row: any): ProductReview {
+  const profile = Array.isArray(row.profiles) ? row.profiles[0] : row.profiles;
+  return {
+    id: row.id,
+    productId: row.product_id,
+    productType: row.product_type,
+    frameStyle: row.frame_style ?? null,
+    rating: row.rating,
+    title: row.title ?? null,
+    comment: row.comment ?? null,
+    images: row.images || [],
+    reviewerName: reviewerName(profile),
+    isVerifiedPurchase: row.is_verified_purchase !== false,
+    createdAt: row.created_at,
+  };
+}
+
+function mapModeratedReview(row: any): ModeratedProductReview {
+  return {
+    ...mapReview(row),
+    userId: row.user_id,
+    orderId: row.order_id,
+    isApproved: row.is_approved,
+    isFlagged: row.is_flagged,
+    flagReason: row.flag_reason ?? null,
+    flaggedAt: row.flagged_at ?? null,
+    moderatedAt: row.moderated_at ?? null,
+    moderationNote: row.moderation_note ?? null,
+  };
+}
+
+function mapSummary(row: any): RatingSummary {
+  return {
+    productType: row.product_type,
+    frameStyle: row.frame_style ?? null,
+    reviewCount: row.review_count ?? 0,
+    averageRating: Number(row.average_rating) || 0,
+    distribution: {
+      1: row.rating_1 ?? 0,
+      2: row.rating_2 ?? 0,
+      3: row.rating_3 ?? 0,
+      4: row.rating_4 ?? 0,
+      5: row.rating_5 ?? 0,
+    },
+  };
+}
+
+const REVIEW_SELECT = '*, profiles:user_id (username, full_name)';
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+export class ReviewService {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * List approved reviews, newest first
+   */
+  async list(filters: {
+    productId?: string;
+    productType?: string;
+    frameStyle?: string;
+    limit?: number;
+    offset?: number;
+  } = {}): Promise<ProductReview[]> {
+    const limit = Math.min(Math.max(filters.limit ?? 20, 1), 50);
+    const offset = Math.max(filters.offset ?? 0, 0);
+
+    let query = this.supabase
+      .from('product_reviews')
+      .select(REVIEW_SELECT)
+      .eq('is_approved', true);
+
+    if (filters.productId) query = query.eq('product_id', filters.productId);
+    if (filters.productType) query = query.eq('product_type', filters.productType);
+    if (filters.frameStyle) query = query.eq('frame_style', filters.frameStyle);
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw new ReviewError('Failed to fetch reviews', 500, { message: error.message });
+    }
+
+    return (data || []).map(mapReview);
+  }
+
+  /**
+   * Rating summaries per product type and frame style
+   */
+  async getSummaries(filters: { productType?: string; frameStyle?: string } = {}): Promise<RatingSummary[]> {
+    let query = this.supabase.from('product_rating_summaries').select('*');
+
+    if (filters.productType) query = query.eq('product_type', filters.productType);
+    if (filters.frameStyle) query = query.eq('frame_style', filters.frameStyle);
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new ReviewError('Failed to fetch rating summaries', 500, { message: error.message });
+    }
+
+    return (data || []).map(mapSummary);
+  }
+
+  /**
+   * Find a delivered order item of this user for the product.
+   * Returns null when the user hasn't received the product.
+   */
+  async findVerifiedPurchase(
+    userId: string,
+    productId: string,
+    orderId?: string
+  ): Promise<{ orderId: string; orderItemId: string } | null> {
+    let query = this.supabase
+      .from('order_items')
+      .select('id, order_id, orders!inner (id, user_id, status), dropship_orders (status)')
+      .eq('product_id', productId)
+      .eq('orders.user_id', userId);
+
+    if (orderId) {
+      query = query.eq('order_id', orderId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new ReviewError('Failed to verify purchase', 500, { message: error.message });
+    }
+
+    const delivered = (data || []).find((item: any) => {
+      const order = Array.isArray(item.orders) ? item.orders[0] : item.orders;
+      return order?.status === 'delivered' ||
+        (item.dropship_orders || []).some((dropship: any) => dropship.status === 'delivered');
+    });
+
+    return delivered ? { orderId: (delivered as any).order_id, orderItemId: (delivered as any).id } : null;
+  }
+
+  /**
+   * Create a verified-purchase review
+   */
+  async create(userId: string, input: CreateReviewInput): Promise<ProductReview> {
+    if (typeof input.productId !== 'string' || !input.productId) {
+      throw new ReviewError('Product ID is required');
+    }
+    if (input.orderId !== undefined && typeof input.orderId !== 'string') {
+      throw new ReviewError('Invalid order ID');
+    }
+
+    const fields = validateReviewInput(input, userId);
+    const purchase = await this.findVerifiedPurchase(userId, input.productId, input.orderId as string | undefined);
+    if (!purchase) {
+      throw new ReviewError('You can review products once your order has been delivered', 403);
+    }
+
+    const { data: product, error: productError } = await this.supabase
+      .from('products')
+      .select('id, product_type, frame_style')
+      .eq('id', input.productId)
+      .single();
+
+    if (productError || !product) {
+      throw new ReviewError('Product not found', 404, { productId: input.productId });
+    }
+
+    const { data, error } = await this.supabase
+      .from('product_reviews')
+      .insert({
+        product_id: input.productId,
+        user_id: userId,
+        order_id: purchase.orderId,
+        order_item_id: purchase.orderItemId,
+        product_type: (product as any).product_type || 'framed-print',
+        frame_style: (product as any).frame_style ?? null,
+        is_verified_purchase: true,
+        ...fields,
+      })
+      .select(REVIEW_SELECT)
+      .single();
+
+    if (error || !data) {
+      if (error?.code === '23505') {
+        throw new ReviewError('You have already reviewed this product for this order', 409);
+      }
+      throw new ReviewError('Failed to save review', 500, { message: error?.message });
+    }
+
+    return mapReview(data);
+  }
+
+  /**
+   * The user's own reviews (including hidden ones), for "already reviewed" state
+   */
+  async listMine(userId: string): Promise<Array<ProductReview & { orderId: string; isApproved: boolean }>> {
+    const { data, error } = await this.supabase
+      .from('product_reviews')
+      .select(REVIEW_SELECT)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new ReviewError('Failed to fetch your reviews', 500, { message: error.message });
+    }
+
+    return (data || []).map((row: any) => ({
+      ...mapReview(row),
+      orderId: row.order_id,
+      isApproved: row.is_approved,
+    }));
+  }
+
+  /**
+   * Upload a review photo to the images bucket under the user's folder
+   */
+  async uploadPhoto(userId: string, file: File): Promise<string> {
+    if (!file.type.startsWith('image/')) {
+      throw new ReviewError('File must be an image');
+    }
+    if (file.size > MAX_REVIEW_PHOTO_SIZE) {
+      throw new ReviewError('Photos must be smaller than 5MB');
+    }
+
+    const extension = file.name.split('.').pop() || 'jpg';
+    const path = `${userId}/reviews/${Date.now()}-${Math.random().toString(36).substring(2)}.${extension}`;
+
+    const { error } = await this.supabase.storage
+      .from(REVIEW_PHOTO_BUCKET)
+      .upload(path, file, {
+        cacheControl: '3600',
+        upsert: false,
+        contentType: file.type,
+      });
+
+    if (error) {
+      throw new ReviewError('Failed to upload photo', 500, { message: error.message });
+    }
+
+    const { data: { publicUrl } } = this.supabase.storage
+      .from(REVIEW_PHOTO_BUCKET)
+      .getPublicUrl(path);
+
+    return publicUrl;
+  }
+
+  /**
+   * Report a review for moderation
+   */
+  async report(reviewId: string, reason: unknown): Promise<void> {
+    const flagReason = optionalText(reason, 'report reason', 500) || 'Reported by a customer';
+
+    const { data, error } = await this.supabase
+      .from('product_reviews')
+      .update({
+        is_flagged: true,
+        flag_reason: flagReason,
+        flagged_at: new Date().toISOString(),
+      })
+      .eq('id', reviewId)
+      .eq('is_approved', true)
+      .select('id');
+
+    if (error) {
+      throw new ReviewError('Failed to report review', 500, { message: error.message });
+    }
+    if (!data || data.length === 0) {
+      throw new ReviewError('Review not found', 404, { id: reviewId });
+    }
+  }
+
+  /**
+   * Reviews for the admin queue
+   */
+  async listForModeration(
+    status: 'flagged' | 'hidden' | 'all' = 'flagged',
+    limit: number = 50,
+    offset: number = 0
+  ): Promise<ModeratedProductReview[]> {
+    let query = this.supabase.from('product_reviews').select(REVIEW_SELECT);
+
+    if (status === 'flagged') query = query.eq('is_flagged', true);
+    if (status === 'hidden') query = query.eq('is_approved', false);
+
+    const { data, error } = await query
+      .order(status === 'flagged' ? 'flagged_at' : 'created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw new ReviewError('Failed to fetch reviews', 500, { message: error.message });
+    }
+
+    return (data || []).map(mapModeratedReview);
+  }
+
+  /**
+   * Apply an admin moderation action
+   */
+  async moderate(
+    adminId: string,
+    reviewId: string,
+    action: unknown,
+    note?: unknown
+  ): Promise<ModeratedProductReview> {
+    if (!MODERATION_ACTIONS.includes(action as ModerationAction)) {
+      throw new ReviewError('Invalid moderation action', 400, { allowed: MODERATION_ACTIONS });
+    }
+
+    const now = new Date().toISOString();
+    const updates: Record<string, any> = {
+      moderated_by: adminId,
+      moderated_at: now,
+      moderation_note: optionalText(note, 'moderation note', 1000),
+    };
+
+    switch (action as ModerationAction) {
+      case 'approve':
+        Object.assign(updates, { is_approved: true, is_flagged: false });
+        break;
+      case 'reject':
+        Object.assign(updates, { is_approved: false, is_flagged: false });
+        break;
+      case 'flag':
+        Object.assign(updates, { is_flagged: true, flagged_at: now });
+        break;
+      case 'clear_flag':
+        Object.assign(updates, { is_flagged: false });
+        break;
+    }
+
+    const { data, error } = await this.supabase
+      .from('product_reviews')
+      .update(updates)
+      .eq('id', reviewId)
+      .select(REVIEW_SELECT)
+      .single();
+
+    if (error || !data) {
+      throw new ReviewError('Review not found', 404, { id: reviewId });
+    }
+
+    return mapModeratedReview(data);
+  }
+}
@@ -1,4 +1,6 @@
 import Stripe from 'stripe';
+import type { CreditPack } from '@/lib/credits';
+import { toMinorUnits } from '@/lib/currency';
 
 // Initialize Stripe with fallback for build time
 const stripeSecretKey = process.env.STRIPE_SECRET_KEY || 'sk_test_placeholder_for_build';
@@ -90,6 +92,55 @@ export async function createCheckoutSession(params: CreateCheckoutSessionParams)
   }
 }
 
+export interface CreateCreditPackCheckoutSessionParams {
+  pack: CreditPack;
+  userId: string;
+  successUrl: string;
+  cancelUrl: string;
+  customerEmail?: string;
+}
+
+/**
+ * Checkout for a generation credit pack: nothing ships, so no addresses or
+ * shipping rates. The webhook grants the credits from the metadata.
+ */
+export async function createCreditPackCheckoutSession(params: CreateCreditPackCheckoutSessionParams) {
+  try {
+    const { pack } = params;
+    const session = await stripe.checkout.sessions.create({
+      payment_method_types: ['card'],
+      line_items: [
+        {
+          price_data: {
+            currency: pack.currency.toLowerCase(),
+            product_data: {
+              name: `${pack.name} credit pack`,
+              description: `${pack.credits} image generation credits`,
+            },
+            unit_amount: toMinorUnits(pack.price, pack.currency),
+          },
+          quantity: 1,
+        },
+      ],
+      mode: 'payment',
+      success_url: params.successUrl,
+      cancel_url: params.cancelUrl,
+      customer_email: params.customerEmail,
+      metadata: {
+        type: 'credit_pack',
+        userId: params.userId,
+        packId: pack.id,
+        credits: pack.credits.toString(),
+      },
+    });
+
+    return session;
+  } catch (error) {
+    console.error('Error creating credit pack checkout session:', error);
+    throw error;
+  }
+}
+
 export async function createPaymentIntent(amount: number, metadata: Record<string, string>) {
   try {
     const paymentIntent = await stripe.paymentIntents.create({
@@ -0,0 +1,248 @@
+/**
+ * Studio Catalog Validator
+ *
+ * Checks proposed configuration changes against what Prodigi actually sells
+ * for the resulting product and destination: the facet service for which
+ * options the product type has, the catalog for sizes and the SKU, and the
+ * SKU's attributes for the exact values. Changes that can't be offered are
+ * dropped; a size the new product doesn't come in is moved to the nearest
+ * one that it does.
+ */
+
+import type { FrameConfiguration } from '@/store/studio';
+import type { AttributeValidationResult } from '@/lib/prodigi-v2/attribute-helpers';
+import type { AvailableOptions } from '@/lib/prodigi-v2/azure-search/facet-service';
+import { buildProdigiAttributes } from '@/lib/checkout/utils/attribute-builder';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Catalog modules the validator needs (catalog, attribute helper, facets) */
+export interface CatalogValidatorDeps {
+  catalog: {
+    getSKU(productType: string, size: string, country?: string): Promise<string | null>;
+    getAvailableSizes(productType: string, country?: string): Promise<string[]>;
+  };
+  attributes: {
+    getProductAttributeInfo(sku: string): Promise<{ availableAttributes: Record<string, string[]> }>;
+    validateAttributes(sku: string, attributes: Record<string, string | undefined>): Promise<AttributeValidationResult>;
+  };
+  facets: {
+    getAvailableOptions(productType: string, country?: string): Promise<AvailableOptions>;
+  };
+}
+
+export interface ConfigurationCheck {
+  /** The changes can be applied exactly as proposed */
+  valid: boolean;
+  /** What can be applied: the proposal less anything unavailable, plus repairs. Empty when nothing can. */
+  changes: Partial<FrameConfiguration>;
+  /** The SKU the resulting configuration orders */
+  sku: string | null;
+  /** Why changes were dropped or repaired, for the customer */
+  problems: string[];
+}
+
+type OptionField = 'frameColor' | 'frameStyle' | 'glaze' | 'mount' | 'mountColor' | 'wrap';
+
+/** Product-type options and the facets that say whether, and in what values, they're offered */
+const OPTION_FACETS: Array<{
+  field: OptionField;
+  label: string;
+  has: keyof AvailableOptions;
+  values: keyof AvailableOptions;
+}> = [
+  { field: 'frameColor', label: 'frame colour', has: 'hasFrameColor', values: 'frameColors' },
+  { field: 'frameStyle', label: 'frame style', has: 'hasFrameStyle', values: 'frameStyles' },
+  { field: 'glaze', label: 'glaze', has: 'hasGlaze', values: 'glazes' },
+  { field: 'mount', label: 'mount', has: 'hasMount', values: 'mounts' },
+  { field: 'mountColor', label: 'mount colour', has: 'hasMountColor', values: 'mountColors' },
+  { field: 'wrap', label: 'wrap', has: 'hasWrap', values: 'wraps' },
+];
+
+/** Configuration fields and the Prodigi attribute each becomes */
+const ATTRIBUTE_KEYS: Partial<Record<OptionField, string>> = {
+  frameColor: 'color',
+  glaze: 'glaze',
+  mount: 'mount',
+  mountColor: 'mountColor',
+  wrap: 'wrap',
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function hasValue(value: unknown): value is string {
+  return typeof value === 'string' && value !== '' && value !== 'none';
+}
+
+function normalize(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9.]/g, '');
+}
+
+/**
+ * Whether a configuration value is one of the offered values. Ours are
+ * shorter than Prodigi's ('acrylic' for 'Acrylic / Perspex'), so either
+ * may contain the other.
+ */
+function isOffered(value: string, offered: string[]): boolean {
+  const wanted = normalize(value);
+  return offered.some(option => {
+    const candidate = normalize(option);
+    return candidate === wanted || candidate.includes(wanted) || wanted.includes(candidate);
+  });
+}
+
+function parseSize(size: string): [number, number] | null {
+  const match = size.toLowerCase().match(/^(\d+(?:\.\d+)?)x(\d+(?:\.\d+)?)$/);
+  return match ? [Number(match[1]), Number(match[2])] : null;
+}
+
+/**
+ * The offered size closest in area to the one asked for
+ */
+export function nearestSize(size: string | undefined, sizes: string[]): string | null {
+  if (sizes.length === 0) return null;
+
+  const wanted = size ? parseSize(size) : null;
+  if (!wanted) return sizes[0];
+
+  let best = sizes[0];
+  let bestDistance = Infinity;
+  for (const candidate of sizes) {
+    const dims = parseSize(candidate);
+    if (!dims) continue;
+    const distance = Math.abs(dims[0] * dims[1] - wanted[0] * wanted[1]);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+// ============================================================================
+// VALIDATOR
+// ============================================================================
+
+export class CatalogValidator {
+  constructor(private deps: CatalogValidatorDeps) {}
+
+  async getAvailableSizes(productType: string, country: string = 'US'): Promise<string[]> {
+    return this.deps.catalog.getAvailableSizes(productType, country);
+  }
+
+  async getProductOptions(productType: string, country: string = 'US'): Promise<AvailableOptions> {
+    return this.deps.facets.getAvailableOptions(productType, country);
+  }
+
+  /**
+   * Check changes proposed against the current configuration
+   */
+  async checkChanges(
+    current: Partial<FrameConfiguration>,
+    proposed: Partial<FrameConfiguration>
+  ): Promise<ConfigurationCheck> {
+    const changes: Record<string, any> = {};
+    for (const [field, value] of Object.entries(proposed)) {
+      if (value !== undefined && value !== null && value !== '') changes[field] = value;
+    }
+
+    const problems: string[] = [];
+    const drop = (field: string, problem: string) => {
+      delete changes[field];
+      problems.push(problem);
+    };
+    const merged = (): Partial<FrameConfiguration> => ({ ...current, ...changes });
+
+    const productType = merged().productType;
+    if (!productType) {
+      return { valid: false, changes: {}, sku: null, problems: ['No product type to check against'] };
+    }
+    const country = merged().destinationCountry || 'US';
+
+    // Options the product type has at all, and in which values
+    const options = await this.deps.facets.getAvailableOptions(productType, country);
+    for (const { field, label, has, values } of OPTION_FACETS) {
+      const value = changes[field];
+      if (!hasValue(value)) continue;
+
+      const offered = options[values] as string[];
+      if (!options[has]) {
+        drop(field, `${capitalize(label)} isn't offered on ${productType}`);
+      } else if (offered.length > 0 && !isOffered(value, offered)) {
+        drop(field, `${capitalize(label)} "${value}" isn't offered on ${productType}`);
+      }
+    }
+
+    // Sizes, including the current size when the product type changes
+    const sizes = await this.deps.catalog.getAvailableSizes(productType, country);
+    if (sizes.length > 0) {
+      const isSizeOffered = (size?: string) =>
+        Boolean(size) && sizes.some(offered => offered.toLowerCase() === size!.toLowerCase());
+
+      if (changes.size && !isSizeOffered(changes.size)) {
+        drop('size', `Size ${changes.size} isn't offered on ${productType} shipping to ${country}`);
+      }
+      if (!isSizeOffered(merged().size)) {
+        const size = nearestSize(merged().size, sizes);
+        if (size) {
+          problems.push(`${capitalize(productType)} doesn't come in ${merged().size || 'that size'}, so the size changes to ${size}`);
+          changes.size = size;
+        }
+      }
+    }
+
+    const size = merged().size;
+    const sku = size ? await this.deps.catalog.getSKU(productType, size, country) : null;
+    if (!sku) {
+      problems.push(`No ${productType} at ${size || 'this size'} ships to ${country}`);
+      return { valid: false, changes: {}, sku: null, problems };
+    }
+
+    // The SKU's own attribute values. The builder swaps a rejected value for
+    // the SKU's default, so compare against what was asked for.
+    const { availableAttributes } = await this.deps.attributes.getProductAttributeInfo(sku);
+    const attributes = buildProdigiAttributes(merged(), { validAttributes: availableAttributes, sku });
+
+    for (const [field, key] of Object.entries(ATTRIBUTE_KEYS) as Array<[OptionField, string]>) {
+      const value = changes[field];
+      if (hasValue(value) && availableAttributes[key] && !(attributes[key] && isOffered(value, [attributes[key]]))) {
+        drop(field, `${capitalize(OPTION_FACETS.find(o => o.field === field)!.label)} "${value}" isn't offered for ${sku}`);
+      }
+    }
+
+    const validation = await this.deps.attributes.validateAttributes(sku, attributes);
+    if (!validation.valid) {
+      problems.push(...validation.errors);
+      return { valid: false, changes: {}, sku, problems };
+    }
+
+    return { valid: problems.length === 0, changes, sku, problems };
+  }
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+// ============================================================================
+// DEFAULT INSTANCE
+// ============================================================================
+
+let defaultValidator: CatalogValidator | null = null;
+
+export async function getCatalogValidator(): Promise<CatalogValidator> {
+  if (!defaultValidator) {
+    const { prodigiSDK, ProductAttributeHelper } = await import('@/lib/prodigi-v2');
+    const { facetService } = await import('@/lib/prodigi-v2/azure-search/facet-service');
+    defaultValidator = new CatalogValidator({
+      catalog: prodigiSDK.catalog,
+      attributes: new ProductAttributeHelper(prodigiSDK.products),
+      facets: facetService,
+    });
+  }
+  return defaultValidator;
+}
@@ -0,0 +1,298 @@
+/**
+ * Studio Chat Replies
+ *
+ * Turns a finished agent graph run into the assistant message the studio chat
+ * shows: the cleaned response text plus suggestion cards, comparisons and
+ * image suggestions derived from the agents' tool results. Shared by the JSON
+ * and streaming forms of /api/studio/chat.
+ */
+
+import type { AIChatSuggestion } from '@/store/studio';
+import type { AgentState } from './langgraph/types';
+import type { ConfigurationCheck } from './catalog-validator';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ChatReply {
+  role: 'assistant';
+  content: string;
+  suggestions: AIChatSuggestion[];
+  showLifestyleImages: boolean;
+  comparison: any;
+  imageSuggestions: any;
+  toolCalls: any[];
+  /** Set when the chat is stored; send it with the next message */
+  conversationId: string | null;
+  metadata?: Record<string, any>;
+}
+
+export const FALLBACK_CHAT_CONTENT = 'I\'m here to help with your custom framing needs. I can assist with frame recommendations, pricing questions, and configuration options. How can I help you today?';
+
+const PRODUCT_TYPE_KEYWORDS = [
+  'canvas', 'framed print', 'acrylic', 'metal', 'poster',
+  'product type', 'wall art', 'recommend', 'suggest',
+  'try canvas', 'make it', 'switch to'
+];
+
+// ============================================================================
+// REPLIES
+// ============================================================================
+
+/**
+ * Suggestion cards for one tool result, so streaming clients can show them
+ * as soon as the tool has run
+ */
+export function suggestionsFromToolResult(
+  toolName: string,
+  toolResultData: any,
+  frameConfig: any
+): AIChatSuggestion[] {
+  const suggestions: AIChatSuggestion[] = [];
+
+  // Handle recommendation tools
+  if (toolName === 'recommendFrame' || toolName.includes('recommend')) {
+    if (toolResultData && toolResultData.recommendations) {
+      toolResultData.recommendations.forEach((rec: any) => {
+        suggestions.push({
+          id: rec.id,
+          type: 'configuration',
+          title: `Try ${rec.frameColor} ${rec.productType}`,
+          description: rec.reason,
+          changes: {
+            productType: rec.productType,
+            frameColor: rec.frameColor,
+            size: rec.size,
+            mount: rec.mount,
+            glaze: rec.glaze,
+          },
+          confidence: rec.confidence,
+          reason: rec.reason,
+          timestamp: Date.now(),
+        });
+      });
+    }
+  }
+
+  // Handle update tools
+  if (toolName.includes('update') || toolName === 'updateFrame') {
+    if (toolResultData && toolResultData.updates) {
+      suggestions.push({
+        id: `suggestion-${Date.now()}`,
+        type: 'configuration',
+        title: generateSuggestionTitle(toolResultData.updates),
+        description: generateSuggestionDescription(toolResultData.updates, frameConfig),
+        changes: toolResultData.updates,
+        currentValues: extractCurrentValues(toolResultData.updates, frameConfig),
+        confidence: 0.9,
+        reason: generateSuggestionReason(toolResultData.updates, frameConfig),
+        timestamp: Date.now(),
+      });
+    }
+  }
+
+  return suggestions;
+}
+
+/**
+ * A suggestion after its catalog check: as it was when valid, rewritten
+ * around the changes that can be applied, or null when none can or they
+ * would change nothing
+ */
+export function applyConfigurationCheck(
+  suggestion: AIChatSuggestion,
+  check: ConfigurationCheck,
+  frameConfig: any
+): AIChatSuggestion | null {
+  if (check.valid) {
+    return suggestion;
+  }
+
+  const changes = Object.fromEntries(
+    Object.entries(check.changes).filter(([key, value]) => frameConfig?.[key] !== value)
+  );
+  if (Object.keys(changes).length === 0) {
+    return null;
+  }
+
+  return {
+    ...suggestion,
+    title: generateSuggestionTitle(changes),
+    description: generateSuggestionDescription(changes, frameConfig || {}),
+    changes,
+    currentValues: extractCurrentValues(changes, frameConfig || {}),
+    reason: `${generateSuggestionReason(changes, frameConfig)}. Adjusted to what's available: ${check.problems.join('; ')}`,
+  };
+}
+
+/**
+ * Build the assistant message for a finished run. Suggestions come from the
+ * synthesizer's checked list; runs without one build them from tool results.
+ */
+export function buildChatReply(
+  result: Partial<AgentState>,
+  frameConfig: any,
+  conversationId: string | null = null
+): ChatReply {
+  const suggestions: AIChatSuggestion[] = [];
+  let showLifestyleImages = false;
+  let comparisonData = null;
+  let imageSuggestions = null;
+
+  // Process tool results from agent responses
+  const allToolResults = result.toolResults || [];
+  for (const toolResult of allToolResults) {
+    const toolName = (toolResult as any).toolName || '';
+    const toolResultData = (toolResult as any).result || toolResult;
+
+    // Handle comparison tools
+    if (toolName.includes('compare') || toolName === 'compareFrames' || toolName === 'compareProducts' || toolName === 'comparePrices') {
+      comparisonData = toolResultData;
+    }
+
+    // Handle image suggestion tools
+    if (toolName === 'getFrameVisuals' || toolName.includes('Image') || toolName === 'getVisualExamples') {
+      imageSuggestions = toolResultData;
+      showLifestyleImages = true;
+    }
+
+    if (!result.suggestions) {
+      suggestions.push(...suggestionsFromToolResult(toolName, toolResultData, frameConfig));
+    }
+  }
+
+  // Remove any markdown image links from the content (images are handled via tool results)
+  // This prevents the AI from generating incorrect image paths
+  const finalContent = (result.finalResponse || '').replace(/!\[([^\]]*)\]\([^)]+\)/g, '');
+
+  // Check if we should show lifestyle images based on content
+  if (!showLifestyleImages) {
+    const lowerContent = finalContent.toLowerCase();
+    showLifestyleImages = PRODUCT_TYPE_KEYWORDS.some(keyword => lowerContent.includes(keyword));
+  }
+
+  return {
+    role: 'assistant',
+    content: finalContent,
+    suggestions: result.suggestions || suggestions,
+    showLifestyleImages,
+    comparison: comparisonData,
+    imageSuggestions: imageSuggestions,
+    toolCalls: result.toolCalls || [],
+    conversationId,
+  };
+}
+
+/**
+ * The reply sent when the run fails; the chat never shows the user an error
+ */
+export function fallbackChatReply(error: unknown, conversationId: string | null = null): ChatReply {
+  return {
+    role: 'assistant',
+    content: FALLBACK_CHAT_CONTENT,
+    suggestions: [],
+    showLifestyleImages: false,
+    comparison: null,
+    imageSuggestions: null,
+    toolCalls: [],
+    conversationId,
+    metadata: {
+      fallback: true,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    },
+  };
+}
+
+// ============================================================================
+// SUGGESTION TEXT
+// ============================================================================
+
+function generateSuggestionTitle(changes: any): string {
+  const keys = Object.keys(changes);
+  if (keys.length === 1) {
+    const key = keys[0];
+    const value = changes[key];
+    
+    switch (key) {
+      case 'frameColor':
+        return `Change Frame to ${capitalize(value)}`;
+      case 'size':
+        return `Resize to ${value}"`;
+      case 'glaze':
+        return value === 'none' ? 'Remove Glaze' : `Apply ${capitalize(value)} Glaze`;
+      case 'mount':
+        return value === 'none' ? 'Remove Mount' : `Add ${value} Mount`;
+      case 'wrap':
+        return `Change Canvas Wrap to ${value}`;
+      case 'productType':
+        return `Switch to ${capitalize(value)}`;
+      default:
+        return `Update ${capitalize(key)}`;
+    }
+  }
+  
+  return `Update ${keys.length} Options`;
+}
+
+function generateSuggestionDescription(changes: any, current: any): string {
+  const keys = Object.keys(changes);
+  
+  if (keys.length === 1) {
+    const key = keys[0];
+    const value = changes[key];
+    const oldValue = current[key];
+    
+    if (oldValue && oldValue !== value) {
+      return `Change from ${oldValue} to ${value}`;
+    }
+    
+    return `Set ${key} to ${value}`;
+  }
+  
+  const changeList = keys.map(k => `${k}: ${changes[k]}`).join(', ');
+  return `Update multiple options: ${changeList}`;
+}
+
+function generateSuggestionReason(changes: any, current: any): string {
+  const keys = Object.keys(changes);
+  
+  if (keys.includes('frameColor')) {
+    const color = changes.frameColor;
+    const reasons: Record<string, string> = {
+      black: 'Black frames create a modern, elegant look that works with most artwork',
+      white: 'White frames offer a clean, gallery-style appearance perfect for bright spaces',
+      natural: 'Natural wood adds warmth and complements artwork beautifully',
+      gold: 'Gold frames add a premium, classical touch ideal for elegant pieces',
+      silver: 'Silver provides a sleek, modern metallic finish',
+    };
+    return reasons[color] || 'This color will enhance your artwork';
+  }
+  
+  if (keys.includes('glaze')) {
+    if (changes.glaze === 'motheye') {
+      return 'Motheye glaze offers 99% UV protection and anti-glare properties - perfect for valuable artwork';
+    }
+    if (changes.glaze === 'acrylic') {
+      return 'Acrylic glazing is shatter-resistant and budget-friendly while still protecting your art';
+    }
+  }
+  
+  if (keys.includes('mount') && changes.mount !== 'none') {
+    return 'A mount creates breathing room around your artwork and adds a professional, gallery-quality look';
+  }
+  
+  return 'This change will improve the overall presentation of your artwork';
+}
+
+function extractCurrentValues(changes: any, current: any): Record<string, any> {
+  const values: Record<string, any> = {};
+  Object.keys(changes).forEach(key => {
+    values[key] = current[key];
+  });
+  return values;
+}
+
+function capitalize(str: string): string {
+  return str.charAt(0).toUpperCase() + str.slice(1);
+}
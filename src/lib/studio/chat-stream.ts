@@ -0,0 +1,95 @@
+/**
+ * Studio Chat Streaming
+ *
+ * Server-sent events protocol for /api/studio/chat. A client asking for
+ * `Accept: text/event-stream` receives, in order:
+ *
+ * - agents_selected: the agents the router picked
+ * - agent_start / tool_call / agent_end: each agent's progress
+ * - suggestion: a suggestion card that passed the catalog check, before the
+ *   response text
+ * - token: the next piece of the response text
+ * - done: the complete reply, the same shape as the JSON response, which
+ *   replaces everything streamed before it
+ *
+ * Each event is one SSE frame: `event: <type>` then `data: <json>`.
+ */
+
+import type { AIChatSuggestion } from '@/store/studio';
+import type { ChatReply } from './chat-reply';
+
+// ============================================================================
+// EVENTS
+// ============================================================================
+
+export type ChatStreamEvent =
+  | { type: 'agents_selected'; agents: string[] }
+  | { type: 'agent_start'; agent: string }
+  | { type: 'tool_call'; agent: string; toolName: string }
+  | { type: 'agent_end'; agent: string; fallback: boolean }
+  | { type: 'suggestion'; suggestion: AIChatSuggestion }
+  | { type: 'token'; text: string }
+  | { type: 'done'; reply: ChatReply };
+
+export const CHAT_STREAM_CONTENT_TYPE = 'text/event-stream';
+
+const CHAT_STREAM_EVENT_TYPES: ReadonlySet<string> = new Set([
+  'agents_selected',
+  'agent_start',
+  'tool_call',
+  'agent_end',
+  'suggestion',
+  'token',
+  'done',
+]);
+
+/**
+ * Serialize an event as an SSE frame
+ */
+export function encodeChatStreamEvent(event: ChatStreamEvent): string {
+  const { type, ...data } = event;
+  return `event: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Incremental SSE decoder. Feed it text as it arrives; complete frames are
+ * passed to onEvent and partial ones are kept until the rest arrives.
+ * Comments, unknown events and malformed frames are skipped.
+ */
+export function createChatStreamParser(onEvent: (event: ChatStreamEvent) => void) {
+  let buffer = '';
+
+  const parseFrame = (frame: string) => {
+    let type = 'message';
+    const dataLines: string[] = [];
+
+    for (const line of frame.split('\n')) {
+      if (line.startsWith('event:')) {
+        type = line.slice(6).trim();
+      } else if (line.startsWith('data:')) {
+        dataLines.push(line.slice(5).replace(/^ /, ''));
+      }
+    }
+
+    if (!CHAT_STREAM_EVENT_TYPES.has(type) || dataLines.length === 0) return;
+
+    try {
+      onEvent({ type, ...JSON.parse(dataLines.join('\n')) } as ChatStreamEvent);
+    } catch (error) {
+      console.error('Malformed chat stream event:', error);
+    }
+  };
+
+  return {
+    push(chunk: string) {
+      buffer += chunk;
+
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        parseFrame(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf('\n\n');
+      }
+    },
+  };
+}
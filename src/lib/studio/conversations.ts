@@ -0,0 +1,382 @@
+/**
+ * Studio Conversations
+ *
+ * Persists AI studio chats for signed-in users. Each turn appends the user's
+ * message and the assistant's reply to studio_messages and replaces the
+ * conversation's checkpoint: the parts of the LangGraph AgentState (frame
+ * configuration, image analysis, routing, suggestions) a reopened session
+ * resumes from. Anonymous chats are not stored.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { AIChatSuggestion, FrameConfiguration } from '@/store/studio';
+import type { AgentState } from './langgraph/types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type StudioMessageRole = 'user' | 'assistant';
+
+export interface StudioMessage {
+  id: string;
+  conversationId: string;
+  role: StudioMessageRole;
+  content: string;
+  suggestions: AIChatSuggestion[];
+  metadata: Record<string, any>;
+  createdAt: string;
+}
+
+/**
+ * The agent state a conversation resumes from
+ */
+export interface ConversationCheckpoint {
+  frameConfig: FrameConfiguration | null;
+  imageAnalysis: any;
+  selectedAgents: string[];
+  currentAgent: string | null;
+  suggestions: AIChatSuggestion[];
+  comparison: any;
+  showLifestyleImages: boolean;
+}
+
+export interface StudioConversationSummary {
+  id: string;
+  title: string;
+  messageCount: number;
+  lastMessageAt: string;
+  createdAt: string;
+}
+
+export interface StudioConversation extends StudioConversationSummary {
+  checkpoint: ConversationCheckpoint;
+  messages: StudioMessage[];
+}
+
+export interface StudioChatTurn {
+  userMessage: string;
+  assistantMessage: {
+    content: string;
+    suggestions?: AIChatSuggestion[];
+    metadata?: Record<string, any>;
+  };
+  checkpoint: ConversationCheckpoint;
+}
+
+export class StudioConversationError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400,
+    public details?: any
+  ) {
+    super(message);
+    this.name = 'StudioConversationError';
+    Object.setPrototypeOf(this, StudioConversationError.prototype);
+  }
+}
+
+/** Retention choices offered to users; null keeps conversations until deleted */
+export const CHAT_RETENTION_OPTIONS = [7, 30, 90, 365] as const;
+
+export type ChatRetentionDays = (typeof CHAT_RETENTION_OPTIONS)[number] | null;
+
+const MAX_TITLE_LENGTH = 120;
+/** Messages sent back to the agents as history when a conversation resumes */
+const MAX_HISTORY_MESSAGES = 40;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Title a conversation after its first message
+ */
+export function conversationTitle(message: string): string {
+  const singleLine = message.replace(/\s+/g, ' ').trim();
+  if (!singleLine) return 'New conversation';
+  if (singleLine.length <= MAX_TITLE_LENGTH) return singleLine;
+  return `${singleLine.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…`;
+}
+
+/**
+ * The resumable part of a finished graph run. suggestions are the ones shown
+ * to the user, which the chat route derives from the run's tool results.
+ */
+export function toConversationCheckpoint(
+  state: Partial<AgentState>,
+  suggestions: AIChatSuggestion[] = []
+): ConversationCheckpoint {
+  return {
+    frameConfig: state.frameConfig ?? null,
+    imageAnalysis: state.imageAnalysis ?? null,
+    selectedAgents: state.selectedAgents || [],
+    currentAgent: state.currentAgent ?? null,
+    suggestions,
+    comparison: state.comparison ?? null,
+    showLifestyleImages: state.showLifestyleImages ?? false,
+  };
+}
+
+export function isChatRetentionDays(value: unknown): value is ChatRetentionDays {
+  return value === null || (CHAT_RETENTION_OPTIONS as readonly unknown[]).includes(value);
+}
+
+function mapSummary(row: any): StudioConversationSummary {
+  return {
+    id: row.id,
+    title: row.title,
+    messageCount: row.message_count,
+    lastMessageAt: row.last_message_at,
+    createdAt: row.created_at,
+  };
+}
+
+function mapMessage(row: any): StudioMessage {
+  return {
+    id: row.id,
+    conversationId: row.conversation_id,
+    role: row.role,
+    content: row.content,
+    suggestions: row.suggestions || [],
+    metadata: row.metadata || {},
+    createdAt: row.created_at,
+  };
+}
+
+function mapCheckpoint(checkpoint: any): ConversationCheckpoint {
+  return toConversationCheckpoint(checkpoint || {}, checkpoint?.suggestions || []);
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+export class StudioConversationService {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * List a user's conversations, most recently active first
+   */
+  async list(userId: string, limit: number = 50): Promise<StudioConversationSummary[]> {
+    const { data, error } = await this.supabase
+      .from('studio_conversations')
+      .select('id, title, message_count, last_message_at, created_at')
+      .eq('user_id', userId)
+      .order('last_message_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new StudioConversationError('Failed to fetch conversations', 500, { message: error.message });
+    }
+
+    return (data || []).map(mapSummary);
+  }
+
+  /**
+   * Fetch a conversation with its transcript and checkpoint
+   */
+  async get(userId: string, id: string): Promise<StudioConversation> {
+    const row = await this.getOwnedRow(userId, id);
+
+    const { data: messages, error } = await this.supabase
+      .from('studio_messages')
+      .select('*')
+      .eq('conversation_id', id)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new StudioConversationError('Failed to fetch conversation messages', 500, { message: error.message });
+    }
+
+    return {
+      ...mapSummary(row),
+      checkpoint: mapCheckpoint(row.checkpoint),
+      messages: (messages || []).map(mapMessage),
+    };
+  }
+
+  /**
+   * The stored messages to run the next turn with, oldest first
+   */
+  async getHistory(
+    userId: string,
+    id: string
+  ): Promise<{ checkpoint: ConversationCheckpoint; messages: Array<{ role: StudioMessageRole; content: string }> }> {
+    const row = await this.getOwnedRow(userId, id);
+
+    const { data, error } = await this.supabase
+      .from('studio_messages')
+      .select('role, content')
+      .eq('conversation_id', id)
+      .order('created_at', { ascending: false })
+      .limit(MAX_HISTORY_MESSAGES);
+
+    if (error) {
+      throw new StudioConversationError('Failed to fetch conversation messages', 500, { message: error.message });
+    }
+
+    return {
+      checkpoint: mapCheckpoint(row.checkpoint),
+      messages: (data || []).reverse().map((m: any) => ({ role: m.role, content: m.content })),
+    };
+  }
+
+  /**
+   * Start a conversation, titled after its first message
+   */
+  async create(userId: string, firstMessage: string): Promise<StudioConversationSummary> {
+    const { data, error } = await this.supabase
+      .from('studio_conversations')
+      .insert({ user_id: userId, title: conversationTitle(firstMessage) })
+      .select('id, title, message_count, last_message_at, created_at')
+      .single();
+
+    if (error || !data) {
+      throw new StudioConversationError('Failed to start conversation', 500, { message: error?.message });
+    }
+
+    return mapSummary(data);
+  }
+
+  /**
+   * Record a completed turn and checkpoint the state it ended in
+   */
+  async appendTurn(userId: string, id: string, turn: StudioChatTurn): Promise<void> {
+    const row = await this.getOwnedRow(userId, id);
+    const now = Date.now();
+
+    const { error: messagesError } = await this.supabase
+      .from('studio_messages')
+      .insert([
+        {
+          conversation_id: id,
+          user_id: userId,
+          role: 'user',
+          content: turn.userMessage,
+          created_at: new Date(now).toISOString(),
+        },
+        {
+          conversation_id: id,
+          user_id: userId,
+          role: 'assistant',
+          content: turn.assistantMessage.content,
+          suggestions: turn.assistantMessage.suggestions || [],
+          metadata: turn.assistantMessage.metadata || {},
+          // Keeps the reply after the question when both are ordered by time
+          created_at: new Date(now + 1).toISOString(),
+        },
+      ]);
+
+    if (messagesError) {
+      throw new StudioConversationError('Failed to save messages', 500, { message: messagesError.message });
+    }
+
+    const { error } = await this.supabase
+      .from('studio_conversations')
+      .update({
+        checkpoint: turn.checkpoint,
+        message_count: row.message_count + 2,
+        last_message_at: new Date(now + 1).toISOString(),
+      })
+      .eq('id', id)
+      .eq('user_id', userId);
+
+    if (error) {
+      throw new StudioConversationError('Failed to save conversation state', 500, { message: error.message });
+    }
+  }
+
+  /**
+   * Delete a conversation and its messages
+   */
+  async delete(userId: string, id: string): Promise<void> {
+    await this.getOwnedRow(userId, id);
+
+    const { error } = await this.supabase
+      .from('studio_conversations')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', userId);
+
+    if (error) {
+      throw new StudioConversationError('Failed to delete conversation', 500, { message: error.message });
+    }
+  }
+
+  /**
+   * Delete all of a user's conversations
+   */
+  async deleteAll(userId: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('studio_conversations')
+      .delete()
+      .eq('user_id', userId);
+
+    if (error) {
+      throw new StudioConversationError('Failed to delete conversations', 500, { message: error.message });
+    }
+  }
+
+  async getRetention(userId: string): Promise<ChatRetentionDays> {
+    const { data, error } = await this.supabase
+      .from('profiles')
+      .select('studio_chat_retention_days')
+      .eq('id', userId)
+      .single();
+
+    if (error || !data) {
+      throw new StudioConversationError('Failed to fetch chat settings', 500, { message: error?.message });
+    }
+
+    return data.studio_chat_retention_days ?? null;
+  }
+
+  async setRetention(userId: string, days: unknown): Promise<ChatRetentionDays> {
+    if (!isChatRetentionDays(days)) {
+      throw new StudioConversationError('Invalid retention period', 400, {
+        retentionDays: days,
+        supported: [...CHAT_RETENTION_OPTIONS, null],
+      });
+    }
+
+    const { error } = await this.supabase
+      .from('profiles')
+      .update({ studio_chat_retention_days: days })
+      .eq('id', userId);
+
+    if (error) {
+      throw new StudioConversationError('Failed to update chat settings', 500, { message: error.message });
+    }
+
+    return days;
+  }
+
+  /**
+   * Delete conversations idle for longer than their owner's retention period
+   */
+  async purgeExpired(): Promise<number> {
+    const { data, error } = await this.supabase.rpc('purge_expired_studio_conversations');
+
+    if (error) {
+      throw new StudioConversationError('Failed to purge conversations', 500, { message: error.message });
+    }
+
+    return data ?? 0;
+  }
+
+  private async getOwnedRow(userId: string, id: string): Promise<any> {
+    const { data, error } = await this.supabase
+      .from('studio_conversations')
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .single();
+
+    if (error || !data) {
+      throw new StudioConversationError('Conversation not found', 404, { id });
+    }
+
+    return data;
+  }
+}
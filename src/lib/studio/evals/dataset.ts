@@ -0,0 +1,146 @@
+/**
+ * Studio Eval Dataset
+ * User messages with the routing, configuration changes and forbidden
+ * outputs we expect from the agents. Each case has a recording in
+ * recordings.json; re-record after adding or changing one.
+ */
+
+import type { FrameConfiguration } from '@/store/studio';
+import type { StudioEvalCase } from './types';
+
+const FRAMED_PRINT: Partial<FrameConfiguration> = {
+  productType: 'framed-print',
+  size: '16x20',
+  frameColor: 'black',
+  frameStyle: 'classic',
+  glaze: 'acrylic',
+  mount: 'none',
+  destinationCountry: 'US',
+};
+
+const CANVAS: Partial<FrameConfiguration> = {
+  productType: 'canvas',
+  size: '16x20',
+  wrap: 'ImageWrap',
+  destinationCountry: 'US',
+};
+
+const FRAMED_CANVAS: Partial<FrameConfiguration> = {
+  productType: 'framed-canvas',
+  size: '16x20',
+  frameColor: 'black',
+  wrap: 'Black',
+  destinationCountry: 'US',
+};
+
+export const STUDIO_EVAL_CASES: StudioEvalCase[] = [
+  {
+    id: 'frame-colour-change',
+    description: 'A plain colour change is applied and nothing else moves',
+    message: 'Change the frame colour to white',
+    frameConfig: FRAMED_PRINT,
+    expectedAgents: ['frame-advisor'],
+    expectedChanges: { frameColor: 'white' },
+    unchanged: ['productType', 'size', 'glaze', 'mount'],
+  },
+  {
+    id: 'switch-to-canvas',
+    description: 'Switching a glazed print to canvas must not carry glaze or mount over',
+    message: 'Switch it to a canvas with a black wrap',
+    frameConfig: { ...FRAMED_PRINT, mount: '2.0mm' },
+    expectedAgents: ['frame-advisor'],
+    expectedChanges: { productType: 'canvas', wrap: 'Black' },
+    unchanged: ['size'],
+  },
+  {
+    id: 'canvas-glazing-request',
+    description: 'Canvases cannot be glazed; the agent explains rather than setting it',
+    message: 'Can I add glass glazing to my canvas?',
+    frameConfig: CANVAS,
+    expectedAgents: ['frame-advisor'],
+    unchanged: true,
+  },
+  {
+    id: 'framed-canvas-gold',
+    description: 'Gold is one of the framed canvas colours',
+    message: 'Make the frame gold',
+    frameConfig: FRAMED_CANVAS,
+    expectedAgents: ['frame-advisor'],
+    expectedChanges: { frameColor: 'gold' },
+  },
+  {
+    id: 'add-mount',
+    description: 'Mount size and colour are both applied',
+    message: 'Add a 2.4mm off-white mount',
+    frameConfig: FRAMED_PRINT,
+    expectedAgents: ['frame-advisor'],
+    expectedChanges: { mount: '2.4mm', mountColor: 'off-white' },
+    unchanged: ['productType', 'frameColor'],
+  },
+  {
+    id: 'living-room-recommendation',
+    description: 'Advice questions do not change the configuration',
+    message: 'What frame would you recommend for a bright living room?',
+    frameConfig: FRAMED_PRINT,
+    expectedAgents: ['frame-advisor'],
+    unchanged: true,
+  },
+  {
+    id: 'sku-lookup',
+    description: 'The SKU quoted is the one the catalog returned',
+    message: 'What is the SKU for a 16x20 black framed print?',
+    frameConfig: FRAMED_PRINT,
+    expectedAgents: ['prodigi-config', 'frame-advisor'],
+    unchanged: true,
+    forbidden: {
+      skus: ['GLOBAL-FAP-16X20', 'GLOBAL-CAN-16X20'],
+    },
+  },
+  {
+    id: 'validate-canvas-mount',
+    description: 'A mounted canvas is reported invalid, not waved through',
+    message: 'Validate a canvas with a 2.4mm mount',
+    frameConfig: CANVAS,
+    expectedAgents: ['prodigi-config', 'frame-advisor'],
+    unchanged: true,
+    forbidden: {
+      patterns: ['configuration is valid', 'looks valid'],
+    },
+  },
+  {
+    id: 'shipping-quote-ottawa',
+    description: 'Shipping questions get a real quote for the right country',
+    message: 'How much would it cost to ship to Ottawa?',
+    frameConfig: FRAMED_PRINT,
+    expectedAgents: ['pricing-advisor', 'frame-advisor'],
+    unchanged: ['productType', 'size', 'frameColor'],
+  },
+  {
+    id: 'unavailable-size-price',
+    description: 'When pricing fails the agents must not make up a price',
+    message: "What's the price of a 40x60 metal print?",
+    frameConfig: FRAMED_PRINT,
+    expectedAgents: ['pricing-advisor', 'frame-advisor'],
+    unchanged: true,
+    forbidden: {
+      patterns: ['\\$\\s?\\d', '\\d+(\\.\\d+)?\\s?(USD|GBP|EUR)'],
+    },
+  },
+  {
+    id: 'ship-to-uk',
+    description: 'Country names become ISO codes',
+    message: 'Ship it to the UK instead',
+    frameConfig: FRAMED_PRINT,
+    expectedAgents: ['pricing-advisor', 'frame-advisor'],
+    expectedChanges: { destinationCountry: 'GB' },
+    unchanged: ['productType', 'size', 'frameColor'],
+  },
+  {
+    id: 'generate-artwork',
+    description: 'Generation requests go to the image agent with frame guidance alongside',
+    message: 'Generate an abstract ocean artwork for my hallway',
+    frameConfig: FRAMED_PRINT,
+    expectedAgents: ['image-generation', 'frame-advisor'],
+    unchanged: true,
+  },
+];
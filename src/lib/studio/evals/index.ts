@@ -0,0 +1,29 @@
+/**
+ * Studio Agent Evals
+ * Offline evaluation of the LangGraph agents against a recorded dataset
+ */
+
+export { STUDIO_EVAL_CASES } from './dataset';
+export { runStudioEvals } from './runner';
+export type { StudioEvalOptions, StudioEvalRun } from './runner';
+export { scoreCase, summarizeEvalResults, collectConfigChanges } from './scoring';
+export { findRegressions, formatEvalReport } from './report';
+export {
+  RecordedChatModel,
+  MissingRecordingError,
+  createReplayBackend,
+  createRecordingBackend,
+} from './recorded-model';
+export type {
+  StudioEvalCase,
+  EvalAgent,
+  CaseRecording,
+  EvalRecordings,
+  RecordedModelResponse,
+  EvalRunOutput,
+  EvalCheck,
+  EvalCaseResult,
+  AgentEvalScore,
+  StudioEvalReport,
+  EvalRegression,
+} from './types';
@@ -0,0 +1,171 @@
+/**
+ * Recorded Model Backend
+ * Replays a case's recorded model replies and tool results so the agent
+ * graph runs offline and deterministically, and records them from a live
+ * run to refresh the recordings
+ */
+
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { AIMessage, type BaseMessage } from '@langchain/core/messages';
+import type { ChatResult } from '@langchain/core/outputs';
+import type { ChatModelFactory, StudioChatModel, ToolRunner } from '../langgraph/backend';
+import type { CaseRecording, RecordedModelResponse } from './types';
+
+/**
+ * Tools that call Prodigi or the catalog. Their results are recorded; the
+ * local tools (frame visuals, recommendations, configuration updates)
+ * always run.
+ */
+export const RECORDED_TOOLS: ReadonlySet<string> = new Set([
+  'lookupSKU',
+  'validateConfig',
+  'getPriceQuote',
+  'checkConfiguration',
+  'getAvailableSizes',
+  'getProductOptions',
+]);
+
+export interface EvalBackend {
+  chatModelFactory: ChatModelFactory;
+  toolRunner: ToolRunner;
+}
+
+export class MissingRecordingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MissingRecordingError';
+    Object.setPrototypeOf(this, MissingRecordingError.prototype);
+  }
+}
+
+// ============================================================================
+// REPLAY
+// ============================================================================
+
+/**
+ * Chat model that answers with the next recorded reply for its role. Tool
+ * binding is a no-op: the recording already holds the tool calls.
+ */
+export class RecordedChatModel extends BaseChatModel {
+  constructor(private readonly nextResponse: () => RecordedModelResponse) {
+    super({});
+  }
+
+  _llmType(): string {
+    return 'recorded';
+  }
+
+  bindTools(): this {
+    return this;
+  }
+
+  async _generate(_messages: BaseMessage[]): Promise<ChatResult> {
+    const response = this.nextResponse();
+    return {
+      generations: [{ text: response.content, message: toAIMessage(response) }],
+    };
+  }
+}
+
+/**
+ * Backend that replays a case's recording. Running out of recorded replies
+ * fails the call rather than reaching the network.
+ */
+export function createReplayBackend(caseId: string, recording: CaseRecording): EvalBackend {
+  const modelCursors = new Map<string, number>();
+  const toolCursors = new Map<string, number>();
+
+  const take = <T>(items: T[] | undefined, cursors: Map<string, number>, key: string, what: string): T => {
+    const index = cursors.get(key) ?? 0;
+    if (!items || index >= items.length) {
+      throw new MissingRecordingError(`No recorded ${what} #${index + 1} for "${key}" in case ${caseId}`);
+    }
+    cursors.set(key, index + 1);
+    return items[index];
+  };
+
+  return {
+    chatModelFactory: ({ role }) =>
+      new RecordedChatModel(() => take(recording.models[role], modelCursors, role, 'model reply')),
+    toolRunner: async (toolName, _args, runTool) =>
+      RECORDED_TOOLS.has(toolName)
+        ? take(recording.tools[toolName], toolCursors, toolName, 'tool result')
+        : runTool(),
+  };
+}
+
+// ============================================================================
+// RECORD
+// ============================================================================
+
+/**
+ * Chat model that passes calls to a live model and keeps what it answered
+ */
+class RecordingChatModel extends BaseChatModel {
+  constructor(
+    private readonly live: StudioChatModel,
+    private readonly record: (response: RecordedModelResponse) => void,
+    private readonly runnable: Pick<StudioChatModel, 'invoke'> = live
+  ) {
+    super({});
+  }
+
+  _llmType(): string {
+    return 'recording';
+  }
+
+  bindTools(...args: Parameters<StudioChatModel['bindTools']>): any {
+    return new RecordingChatModel(this.live, this.record, this.live.bindTools(...args));
+  }
+
+  async _generate(messages: BaseMessage[]): Promise<ChatResult> {
+    const message = await this.runnable.invoke(messages);
+    const response: RecordedModelResponse = {
+      content: typeof message.content === 'string' ? message.content : JSON.stringify(message.content),
+    };
+    if (message.tool_calls?.length) {
+      response.toolCalls = message.tool_calls.map(call => ({ name: call.name, args: call.args }));
+    }
+
+    this.record(response);
+    return {
+      generations: [{ text: response.content, message: toAIMessage(response) }],
+    };
+  }
+}
+
+/**
+ * Backend that uses the live models and tools and fills in a recording
+ */
+export function createRecordingBackend(liveModels: ChatModelFactory): { backend: EvalBackend; recording: CaseRecording } {
+  const recording: CaseRecording = { models: {}, tools: {} };
+
+  return {
+    recording,
+    backend: {
+      chatModelFactory: (options) =>
+        new RecordingChatModel(liveModels(options), response => {
+          (recording.models[options.role] ??= []).push(response);
+        }),
+      toolRunner: async (toolName, _args, runTool) => {
+        const result = await runTool();
+        if (RECORDED_TOOLS.has(toolName)) {
+          (recording.tools[toolName] ??= []).push(result);
+        }
+        return result;
+      },
+    },
+  };
+}
+
+function toAIMessage(response: RecordedModelResponse): AIMessage {
+  return new AIMessage({
+    content: response.content,
+    tool_calls: (response.toolCalls || []).map((call, index) => ({
+      id: `call_${index + 1}`,
+      name: call.name,
+      args: call.args,
+      type: 'tool_call' as const,
+    })),
+  });
+}
@@ -0,0 +1,93 @@
+/**
+ * Studio Eval Report
+ * Plain-text report and regressions against a saved baseline report
+ */
+
+import type { EvalRegression, StudioEvalReport } from './types';
+
+/**
+ * Everything that got worse since the baseline: cases that passed and now
+ * fail, and agent scores, precision or recall that dropped
+ */
+export function findRegressions(baseline: StudioEvalReport, current: StudioEvalReport): EvalRegression[] {
+  const regressions: EvalRegression[] = [];
+  const baselineCases = new Map(baseline.cases.map(result => [result.caseId, result]));
+
+  for (const result of current.cases) {
+    const before = baselineCases.get(result.caseId);
+    if (before?.passed && !result.passed) {
+      const failed = result.checks.filter(check => !check.passed).map(check => check.message);
+      regressions.push({ subject: `case ${result.caseId}`, message: `now fails: ${failed.join('; ')}` });
+    }
+  }
+
+  const baselineAgents = new Map(baseline.agents.map(score => [score.agent, score]));
+  for (const score of current.agents) {
+    const before = baselineAgents.get(score.agent);
+    if (!before) continue;
+
+    for (const metric of ['score', 'precision', 'recall'] as const) {
+      if (score[metric] < before[metric]) {
+        regressions.push({
+          subject: score.agent,
+          message: `${metric} fell from ${formatRatio(before[metric])} to ${formatRatio(score[metric])}`,
+        });
+      }
+    }
+  }
+
+  return regressions;
+}
+
+/**
+ * Human-readable report: the per-agent table, failing cases and, with a
+ * baseline, the regressions
+ */
+export function formatEvalReport(report: StudioEvalReport, regressions?: EvalRegression[]): string {
+  const lines: string[] = [];
+
+  lines.push(`Studio agent evals: ${report.casesPassed}/${report.casesTotal} cases passed`);
+  lines.push('');
+  lines.push(`${'agent'.padEnd(18)}${'checks'.padStart(10)}${'score'.padStart(8)}${'precision'.padStart(11)}${'recall'.padStart(8)}`);
+
+  for (const score of report.agents) {
+    const routed = score.truePositives + score.falsePositives + score.falseNegatives > 0;
+    lines.push(
+      score.agent.padEnd(18) +
+      `${score.checksPassed}/${score.checksTotal}`.padStart(10) +
+      formatRatio(score.score).padStart(8) +
+      (routed ? formatRatio(score.precision) : '-').padStart(11) +
+      (routed ? formatRatio(score.recall) : '-').padStart(8)
+    );
+  }
+
+  const failing = report.cases.filter(result => !result.passed);
+  if (failing.length > 0) {
+    lines.push('');
+    lines.push('Failing cases:');
+    for (const result of failing) {
+      lines.push(`  ${result.caseId}`);
+      for (const check of result.checks.filter(c => !c.passed)) {
+        lines.push(`    [${check.agent}] ${check.message}`);
+      }
+    }
+  }
+
+  if (regressions) {
+    lines.push('');
+    if (regressions.length === 0) {
+      lines.push('No regressions against the baseline.');
+    } else {
+      lines.push(`Regressions against the baseline (${regressions.length}):`);
+      for (const regression of regressions) {
+        lines.push(`  ${regression.subject}: ${regression.message}`);
+      }
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function formatRatio(value: number): string {
+  return value.toFixed(2);
+}
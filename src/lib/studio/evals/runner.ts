@@ -0,0 +1,101 @@
+/**
+ * Studio Eval Runner
+ * Runs dataset cases through the agent graph and scores them
+ */
+
+import { ChatOpenAI } from '@langchain/openai';
+import { runAgentGraph } from '../langgraph';
+import type { AgentState } from '../langgraph';
+import { createRecordingBackend, createReplayBackend, type EvalBackend } from './recorded-model';
+import { scoreCase, summarizeEvalResults } from './scoring';
+import type { EvalRecordings, EvalRunOutput, StudioEvalCase, StudioEvalReport } from './types';
+
+export interface StudioEvalOptions {
+  /**
+   * replay: answer from the recordings, offline (default).
+   * record: call OpenAI and Prodigi and return fresh recordings.
+   */
+  mode?: 'replay' | 'record';
+  recordings?: EvalRecordings;
+  /** Called after each case, for progress output */
+  onCase?: (evalCase: StudioEvalCase, passed: boolean) => void;
+}
+
+export interface StudioEvalRun {
+  report: StudioEvalReport;
+  /** The recordings the run made, in record mode */
+  recordings: EvalRecordings;
+}
+
+/**
+ * Run every case one at a time, so recordings are taken in a stable order
+ */
+export async function runStudioEvals(
+  cases: StudioEvalCase[],
+  options: StudioEvalOptions = {}
+): Promise<StudioEvalRun> {
+  const mode = options.mode || 'replay';
+  const recordings: EvalRecordings = {};
+  const results = [];
+
+  for (const evalCase of cases) {
+    let backend: EvalBackend;
+
+    if (mode === 'record') {
+      const recorder = createRecordingBackend(({ temperature }) =>
+        new ChatOpenAI({ modelName: 'gpt-4o-mini', temperature })
+      );
+      recordings[evalCase.id] = recorder.recording;
+      backend = recorder.backend;
+    } else {
+      backend = createReplayBackend(evalCase.id, options.recordings?.[evalCase.id] || { models: {}, tools: {} });
+    }
+
+    const result = scoreCase(evalCase, await runCase(evalCase, backend));
+    results.push(result);
+    options.onCase?.(evalCase, result.passed);
+  }
+
+  return { report: summarizeEvalResults(cases, results), recordings };
+}
+
+async function runCase(evalCase: StudioEvalCase, backend: EvalBackend): Promise<EvalRunOutput> {
+  try {
+    const state = await runAgentGraph(
+      evalCase.message,
+      [...(evalCase.history || []), { role: 'user', content: evalCase.message }],
+      evalCase.frameConfig,
+      undefined,
+      backend
+    );
+    return toRunOutput(state);
+  } catch (error) {
+    return {
+      selectedAgents: [],
+      finalResponse: '',
+      agents: {},
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+function toRunOutput(state: AgentState): EvalRunOutput {
+  const agents: EvalRunOutput['agents'] = {};
+
+  for (const [agent, response] of Object.entries(state.agentResponses || {})) {
+    agents[agent] = {
+      content: response.content || '',
+      fallback: Boolean(response.metadata?.fallback),
+      error: response.metadata?.error,
+      toolCalls: (response.toolCalls || []).map((call: any) => ({ name: call.name, args: call.args || {} })),
+      toolResults: response.toolResults || [],
+    };
+  }
+
+  return {
+    selectedAgents: state.selectedAgents || [],
+    finalResponse: state.finalResponse || '',
+    agents,
+    suggestions: state.suggestions || [],
+  };
+}
@@ -0,0 +1,328 @@
+/**
+ * Studio Eval Scoring
+ * Checks a run against its case and rolls the checks up per agent
+ */
+
+import type { FrameConfiguration } from '@/store/studio';
+import { isValidColorForProductType } from '@/lib/prodigi-v2/constants/colors';
+import type {
+  AgentEvalScore,
+  EvalCaseResult,
+  EvalCheck,
+  EvalRunOutput,
+  StudioEvalCase,
+  StudioEvalReport,
+} from './types';
+
+export const EVAL_AGENTS = ['frame-advisor', 'prodigi-config', 'pricing-advisor', 'image-generation'] as const;
+
+/**
+ * Options each product type takes. Mirrors the facet fallbacks: canvases
+ * have no glaze or mount, prints have no wrap, and acrylic, metal and
+ * posters have none of these.
+ */
+const PRODUCT_OPTIONS: Record<string, ReadonlyArray<keyof FrameConfiguration>> = {
+  'framed-print': ['frameColor', 'frameStyle', 'glaze', 'mount', 'mountColor'],
+  'framed-canvas': ['frameColor', 'frameStyle', 'wrap'],
+  'canvas': ['wrap'],
+  'acrylic': [],
+  'metal': [],
+  'poster': [],
+};
+
+const PRODUCT_SPECIFIC_OPTIONS: ReadonlyArray<keyof FrameConfiguration> = [
+  'frameColor',
+  'frameStyle',
+  'glaze',
+  'mount',
+  'mountColor',
+  'wrap',
+];
+
+/** Prodigi-style SKUs, e.g. GLOBAL-CFPM-16X20 */
+const SKU_PATTERN = /\b[A-Z]{2,}(?:-[A-Z0-9]+){2,}\b/g;
+
+// ============================================================================
+// CASES
+// ============================================================================
+
+/**
+ * Score one run. Routing is charged to the router; everything else to the
+ * agent responsible for it.
+ */
+export function scoreCase(evalCase: StudioEvalCase, run: EvalRunOutput): EvalCaseResult {
+  const configChanges = collectConfigChanges(run);
+  const checks: EvalCheck[] = [];
+
+  if (run.error) {
+    checks.push({ kind: 'run', agent: 'graph', passed: false, message: `Run failed: ${run.error}` });
+  }
+
+  checks.push(checkRouting(evalCase, run));
+  checks.push(...checkConfigChanges(evalCase, configChanges));
+  checks.push(...checkImpossibleOptions(evalCase, run));
+  checks.push(...checkForbiddenOutputs(evalCase, run));
+
+  for (const [agent, output] of Object.entries(run.agents)) {
+    checks.push({
+      kind: 'fallback',
+      agent,
+      passed: !output.fallback,
+      message: output.fallback
+        ? `Agent fell back to its canned reply${output.error ? `: ${output.error}` : ''}`
+        : 'Agent answered',
+    });
+  }
+
+  return {
+    caseId: evalCase.id,
+    passed: checks.every(check => check.passed),
+    selectedAgents: run.selectedAgents,
+    configChanges,
+    checks,
+  };
+}
+
+/**
+ * The configuration the run's updateFrame calls add up to
+ */
+export function collectConfigChanges(run: EvalRunOutput): Partial<FrameConfiguration> {
+  const changes: Record<string, any> = {};
+
+  for (const output of Object.values(run.agents)) {
+    for (const { toolName, result } of output.toolResults) {
+      if (toolName === 'updateFrame' && result?.updates) {
+        Object.assign(changes, result.updates);
+      }
+    }
+  }
+
+  return changes;
+}
+
+function checkRouting(evalCase: StudioEvalCase, run: EvalRunOutput): EvalCheck {
+  const expected = [...evalCase.expectedAgents].sort();
+  const selected = [...run.selectedAgents].sort();
+  const passed = expected.length === selected.length && expected.every((agent, i) => agent === selected[i]);
+
+  return {
+    kind: 'routing',
+    agent: 'router',
+    passed,
+    message: passed
+      ? `Routed to ${selected.join(', ')}`
+      : `Expected ${expected.join(', ') || 'no agents'}, routed to ${selected.join(', ') || 'no agents'}`,
+  };
+}
+
+function checkConfigChanges(evalCase: StudioEvalCase, changes: Partial<FrameConfiguration>): EvalCheck[] {
+  const checks: EvalCheck[] = [];
+  const changed = changes as Record<string, any>;
+
+  for (const [field, expected] of Object.entries(evalCase.expectedChanges || {})) {
+    const actual = changed[field];
+    const passed = actual !== undefined && sameValue(actual, expected);
+    checks.push({
+      kind: 'config',
+      agent: 'frame-advisor',
+      passed,
+      message: passed
+        ? `Set ${field} to ${actual}`
+        : `Expected ${field} to become ${expected}, got ${actual === undefined ? 'no change' : actual}`,
+    });
+  }
+
+  if (evalCase.unchanged) {
+    const fields = evalCase.unchanged === true ? Object.keys(changed) : evalCase.unchanged;
+    for (const field of fields) {
+      if (field in changed && !sameValue(changed[field], (evalCase.frameConfig as any)[field])) {
+        checks.push({
+          kind: 'config',
+          agent: 'frame-advisor',
+          passed: false,
+          message: `Changed ${String(field)} to ${changed[field]} unasked`,
+        });
+      }
+    }
+  }
+
+  return checks;
+}
+
+// ============================================================================
+// FORBIDDEN OUTPUTS
+// ============================================================================
+
+/**
+ * Configuration changes and the suggestion cards made from them must make
+ * sense for the product they leave the customer with: no glaze on a canvas,
+ * no wrap on a print, only the frame colours the product comes in
+ */
+function checkImpossibleOptions(evalCase: StudioEvalCase, run: EvalRunOutput): EvalCheck[] {
+  const checks: EvalCheck[] = [];
+  const proposals: Array<{ agent: string; changes: Record<string, any> }> = [];
+
+  for (const [agent, output] of Object.entries(run.agents)) {
+    for (const { toolName, result } of output.toolResults) {
+      if (toolName === 'updateFrame' && result?.updates) {
+        proposals.push({ agent, changes: result.updates });
+      }
+    }
+  }
+  // The cards that reach the studio, after the synthesizer's catalog check
+  for (const suggestion of run.suggestions || []) {
+    proposals.push({ agent: 'synthesizer', changes: suggestion.changes });
+  }
+
+  for (const { agent, changes } of proposals) {
+    const productType = changes.productType || evalCase.frameConfig.productType;
+    const supported = productType ? PRODUCT_OPTIONS[productType] : undefined;
+    if (!supported) continue;
+
+    for (const option of PRODUCT_SPECIFIC_OPTIONS) {
+      const value = changes[option];
+      if (value === undefined || value === 'none') continue;
+
+      if (!supported.includes(option)) {
+        checks.push({
+          kind: 'forbidden',
+          agent,
+          passed: false,
+          message: `Set ${option} to ${value} on a ${productType}, which has no ${option}`,
+        });
+      } else if (option === 'frameColor' && !isValidColorForProductType(value, productType)) {
+        checks.push({
+          kind: 'forbidden',
+          agent,
+          passed: false,
+          message: `Set frameColor to ${value}, which ${productType} does not come in`,
+        });
+      }
+    }
+  }
+
+  return checks;
+}
+
+/**
+ * Replies must not mention SKUs no tool returned, the case's forbidden SKUs
+ * or anything matching its forbidden patterns
+ */
+function checkForbiddenOutputs(evalCase: StudioEvalCase, run: EvalRunOutput): EvalCheck[] {
+  const checks: EvalCheck[] = [];
+  const forbiddenSkus = new Set((evalCase.forbidden?.skus || []).map(sku => sku.toUpperCase()));
+  const patterns = (evalCase.forbidden?.patterns || []).map(pattern => new RegExp(pattern, 'i'));
+
+  const groundedSkus = new Set<string>();
+  for (const output of Object.values(run.agents)) {
+    for (const { result } of output.toolResults) {
+      for (const sku of JSON.stringify(result ?? null).match(SKU_PATTERN) || []) {
+        groundedSkus.add(sku);
+      }
+    }
+  }
+
+  const outputs: Array<{ agent: string; where: string; text: string }> = [
+    { agent: 'synthesizer', where: 'final reply', text: run.finalResponse },
+  ];
+  for (const [agent, output] of Object.entries(run.agents)) {
+    outputs.push({ agent, where: 'reply', text: output.content });
+    for (const call of output.toolCalls) {
+      outputs.push({ agent, where: `${call.name} call`, text: JSON.stringify(call.args) });
+    }
+  }
+
+  for (const { agent, where, text } of outputs) {
+    for (const sku of new Set(text.match(SKU_PATTERN) || [])) {
+      if (forbiddenSkus.has(sku)) {
+        checks.push({ kind: 'forbidden', agent, passed: false, message: `Forbidden SKU ${sku} in ${where}` });
+      } else if (!groundedSkus.has(sku) && !where.endsWith('call')) {
+        checks.push({ kind: 'forbidden', agent, passed: false, message: `SKU ${sku} in ${where} was not returned by any tool` });
+      }
+    }
+
+    if (where.endsWith('call')) continue;
+    for (const pattern of patterns) {
+      if (pattern.test(text)) {
+        checks.push({ kind: 'forbidden', agent, passed: false, message: `${where} matches forbidden ${pattern}` });
+      }
+    }
+  }
+
+  if (checks.length === 0) {
+    checks.push({ kind: 'forbidden', agent: 'synthesizer', passed: true, message: 'No forbidden output' });
+  }
+
+  return checks;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return typeof a === 'string' && typeof b === 'string'
+    ? a.trim().toLowerCase() === b.trim().toLowerCase()
+    : a === b;
+}
+
+// ============================================================================
+// REPORT
+// ============================================================================
+
+/**
+ * Roll case results up into per-agent routing precision/recall and check
+ * pass rates
+ */
+export function summarizeEvalResults(
+  cases: StudioEvalCase[],
+  results: EvalCaseResult[]
+): StudioEvalReport {
+  const byId = new Map(cases.map(evalCase => [evalCase.id, evalCase]));
+  const subjects = ['router', ...EVAL_AGENTS, 'synthesizer'];
+
+  const agents: AgentEvalScore[] = subjects.map(agent => {
+    let truePositives = 0;
+    let falsePositives = 0;
+    let falseNegatives = 0;
+    let checksPassed = 0;
+    let checksTotal = 0;
+
+    for (const result of results) {
+      const expected = byId.get(result.caseId)?.expectedAgents as string[] | undefined;
+      if (expected && agent !== 'router' && agent !== 'synthesizer') {
+        const wanted = expected.includes(agent);
+        const picked = result.selectedAgents.includes(agent);
+        if (wanted && picked) truePositives++;
+        if (!wanted && picked) falsePositives++;
+        if (wanted && !picked) falseNegatives++;
+      }
+
+      for (const check of result.checks) {
+        if (check.agent !== agent) continue;
+        checksTotal++;
+        if (check.passed) checksPassed++;
+      }
+    }
+
+    return {
+      agent,
+      truePositives,
+      falsePositives,
+      falseNegatives,
+      precision: ratio(truePositives, truePositives + falsePositives),
+      recall: ratio(truePositives, truePositives + falseNegatives),
+      checksPassed,
+      checksTotal,
+      score: ratio(checksPassed, checksTotal),
+    };
+  });
+
+  return {
+    generatedAt: new Date().toISOString(),
+    casesPassed: results.filter(result => result.passed).length,
+    casesTotal: results.length,
+    agents,
+    cases: results,
+  };
+}
+
+function ratio(part: number, whole: number): number {
+  return whole === 0 ? 1 : Math.round((part / whole) * 1000) / 1000;
+}
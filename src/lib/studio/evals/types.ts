@@ -0,0 +1,131 @@
+/**
+ * Studio Eval Types
+ * Cases, recordings and results for the offline agent evaluations
+ */
+
+import type { FrameConfiguration } from '@/store/studio';
+
+// ============================================================================
+// DATASET
+// ============================================================================
+
+export type EvalAgent = 'frame-advisor' | 'prodigi-config' | 'pricing-advisor' | 'image-generation';
+
+export interface StudioEvalCase {
+  id: string;
+  description: string;
+  message: string;
+  history?: Array<{ role: 'user' | 'assistant'; content: string }>;
+  frameConfig: Partial<FrameConfiguration>;
+
+  /** The agents the router must pick, in any order */
+  expectedAgents: EvalAgent[];
+
+  /**
+   * Configuration the agents must end up changing. Values compare
+   * case-insensitively.
+   */
+  expectedChanges?: Partial<FrameConfiguration>;
+
+  /** Fields that must be left alone, or true for no changes at all */
+  unchanged?: Array<keyof FrameConfiguration> | true;
+
+  forbidden?: {
+    /** SKUs that must not appear anywhere in the reply or tool calls */
+    skus?: string[];
+    /** Regular expressions the reply must not match */
+    patterns?: string[];
+  };
+}
+
+// ============================================================================
+// RECORDINGS
+// ============================================================================
+
+export interface RecordedModelResponse {
+  content: string;
+  toolCalls?: Array<{ name: string; args: Record<string, any> }>;
+}
+
+/**
+ * Everything a case's run asked of the outside world: model replies per
+ * role ('frame-advisor', 'frame-advisor:follow-up', 'synthesizer', ...) and
+ * results per networked tool, each in call order
+ */
+export interface CaseRecording {
+  models: Record<string, RecordedModelResponse[]>;
+  tools: Record<string, any[]>;
+}
+
+export type EvalRecordings = Record<string, CaseRecording>;
+
+// ============================================================================
+// RESULTS
+// ============================================================================
+
+/**
+ * What scoring needs from a graph run
+ */
+export interface EvalRunOutput {
+  selectedAgents: string[];
+  finalResponse: string;
+  agents: Record<string, {
+    content: string;
+    fallback: boolean;
+    /** Why the agent fell back */
+    error?: string;
+    toolCalls: Array<{ name: string; args: Record<string, any> }>;
+    toolResults: Array<{ toolName: string; result: any }>;
+  }>;
+  /** The suggestion cards the run produced */
+  suggestions?: Array<{ changes: Partial<FrameConfiguration> }>;
+  /** Set when the run itself failed */
+  error?: string;
+}
+
+export type EvalCheckKind = 'routing' | 'config' | 'forbidden' | 'fallback' | 'run';
+
+export interface EvalCheck {
+  kind: EvalCheckKind;
+  /** The agent the check is charged to; 'router' for routing */
+  agent: string;
+  passed: boolean;
+  message: string;
+}
+
+export interface EvalCaseResult {
+  caseId: string;
+  passed: boolean;
+  selectedAgents: string[];
+  configChanges: Partial<FrameConfiguration>;
+  checks: EvalCheck[];
+}
+
+export interface AgentEvalScore {
+  agent: string;
+  /** Cases the agent was expected for and the router picked it */
+  truePositives: number;
+  /** Cases the router picked the agent without being expected */
+  falsePositives: number;
+  /** Cases the agent was expected for and the router missed it */
+  falseNegatives: number;
+  precision: number;
+  recall: number;
+  checksPassed: number;
+  checksTotal: number;
+  /** checksPassed / checksTotal, 1 with no checks */
+  score: number;
+}
+
+export interface StudioEvalReport {
+  generatedAt: string;
+  casesPassed: number;
+  casesTotal: number;
+  agents: AgentEvalScore[];
+  cases: EvalCaseResult[];
+}
+
+export interface EvalRegression {
+  subject: string;
+  message: string;
+}
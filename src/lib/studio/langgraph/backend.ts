@@ -0,0 +1,90 @@
+/**
+ * Graph Backend
+ * The chat models and tool calls the agents make, swappable per run so the
+ * graph can be evaluated offline (see src/lib/studio/evals)
+ */
+
+import { ChatOpenAI } from '@langchain/openai';
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import type { StructuredTool } from '@langchain/core/tools';
+import type { LangGraphRunnableConfig } from '@langchain/langgraph';
+import { emitProgress } from './progress';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A chat model the agents can bind tools to
+ */
+export type StudioChatModel = BaseChatModel & {
+  bindTools: NonNullable<BaseChatModel['bindTools']>;
+};
+
+export interface ChatModelOptions {
+  /** Who is asking, e.g. 'frame-advisor', 'frame-advisor:follow-up', 'synthesizer' */
+  role: string;
+  temperature: number;
+}
+
+export type ChatModelFactory = (options: ChatModelOptions) => StudioChatModel;
+
+/**
+ * Runs a tool call in place of the real tool. Returns the parsed result.
+ */
+export type ToolRunner = (
+  toolName: string,
+  args: Record<string, any>,
+  runTool: () => Promise<any>
+) => Promise<any>;
+
+const DEFAULT_CHAT_MODEL = 'gpt-4o-mini';
+
+// ============================================================================
+// MODELS
+// ============================================================================
+
+/**
+ * The run's chat model for a role: the `chatModelFactory` passed to
+ * runAgentGraph, or OpenAI
+ */
+export function createChatModel(
+  config: LangGraphRunnableConfig | undefined,
+  options: ChatModelOptions
+): StudioChatModel {
+  const factory = config?.configurable?.chatModelFactory as ChatModelFactory | undefined;
+  if (typeof factory === 'function') {
+    return factory(options);
+  }
+
+  return new ChatOpenAI({
+    modelName: DEFAULT_CHAT_MODEL,
+    temperature: options.temperature,
+  });
+}
+
+// ============================================================================
+// TOOLS
+// ============================================================================
+
+/**
+ * Run a tool call, reporting it to the progress listener. The run's
+ * `toolRunner` can answer in place of the tool.
+ */
+export async function invokeTool(
+  config: LangGraphRunnableConfig | undefined,
+  agent: string,
+  tool: StructuredTool,
+  args: Record<string, any>
+): Promise<any> {
+  emitProgress(config, { type: 'tool_call', agent, toolName: tool.name });
+
+  const runTool = async () => JSON.parse(await tool.invoke(args));
+  const toolRunner = config?.configurable?.toolRunner as ToolRunner | undefined;
+  const result = typeof toolRunner === 'function'
+    ? await toolRunner(tool.name, args, runTool)
+    : await runTool();
+
+  emitProgress(config, { type: 'tool_result', agent, toolName: tool.name, result });
+  return result;
+}
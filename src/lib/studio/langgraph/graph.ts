@@ -3,7 +3,7 @@
  * Orchestrates the multi-agent system using LangGraph
  */
 
-import { StateGraph, END, START } from '@langchain/langgraph';
+import { StateGraph, END, START, type LangGraphRunnableConfig } from '@langchain/langgraph';
 import { createStateAnnotation } from './state';
 import { routerNode } from './nodes/router';
 import { frameAdvisorNode } from './nodes/agents/frame-advisor';
@@ -11,7 +11,9 @@ import { prodigiConfigNode } from './nodes/agents/prodigi-config';
 import { pricingAdvisorNode } from './nodes/agents/pricing-advisor';
 import { imageGenerationNode } from './nodes/agents/image-generation';
 import { synthesizerNode } from './nodes/synthesizer';
-import type { AgentState } from './types';
+import { emitProgress } from './progress';
+import type { ChatModelFactory, ToolRunner } from './backend';
+import type { AgentProgressListener, AgentState } from './types';
 
 /**
  * Create the main LangGraph workflow
@@ -24,27 +26,38 @@ export function createAgentGraph() {
   workflow.addNode('synthesizer', synthesizerNode);
 
   // Add a node to handle multiple agents in parallel
-  workflow.addNode('execute-agents', async (state: AgentState) => {
+  workflow.addNode('execute-agents', async (state: AgentState, config?: LangGraphRunnableConfig) => {
     const selectedAgents = state.selectedAgents || ['frame-advisor'];
     const results: Partial<AgentState> = { agentResponses: {} };
 
+    emitProgress(config, { type: 'agents_selected', agents: selectedAgents });
+
+    const runAgent = async (agentName: string): Promise<Partial<AgentState>> => {
+      switch (agentName) {
+        case 'frame-advisor':
+          return frameAdvisorNode(state, config);
+        case 'prodigi-config':
+          return prodigiConfigNode(state, config);
+        case 'pricing-advisor':
+          return pricingAdvisorNode(state, config);
+        case 'image-generation':
+          return imageGenerationNode(state, config);
+        default:
+          return frameAdvisorNode(state, config);
+      }
+    };
+
     // Execute all selected agents in parallel
     const agentPromises = selectedAgents.map(async (agentName) => {
+      emitProgress(config, { type: 'agent_start', agent: agentName });
       try {
-        switch (agentName) {
-          case 'frame-advisor':
-            return await frameAdvisorNode(state);
-          case 'prodigi-config':
-            return await prodigiConfigNode(state);
-          case 'pricing-advisor':
-            return await pricingAdvisorNode(state);
-          case 'image-generation':
-            return await imageGenerationNode(state);
-          default:
-            return await frameAdvisorNode(state);
-        }
+        const result = await runAgent(agentName);
+        const fallback = Object.values(result.agentResponses || {}).some(r => r.metadata?.fallback);
+        emitProgress(config, { type: 'agent_end', agent: agentName, fallback });
+        return result;
       } catch (error) {
         console.error(`Error executing agent ${agentName}:`, error);
+        emitProgress(config, { type: 'agent_end', agent: agentName, fallback: true });
         return {
           agentResponses: {
             [agentName]: {
@@ -86,13 +99,20 @@ export function createAgentGraph() {
 }
 
 /**
- * Run the agent graph with initial state
+ * Run the agent graph with initial state. onProgress receives agent, tool and
+ * token events as the run goes; chatModelFactory and toolRunner replace the
+ * OpenAI models and the agents' tools (used by the offline evals).
  */
 export async function runAgentGraph(
   userMessage: string,
   messages: Array<{ role: 'user' | 'assistant'; content: string }>,
   frameConfig: any,
-  imageAnalysis?: any
+  imageAnalysis?: any,
+  options: {
+    onProgress?: AgentProgressListener;
+    chatModelFactory?: ChatModelFactory;
+    toolRunner?: ToolRunner;
+  } = {}
 ): Promise<AgentState> {
   const graph = createAgentGraph();
 
@@ -105,7 +125,13 @@ export async function runAgentGraph(
     agentResponses: {},
   };
 
-  const result = await graph.invoke(initialState);
+  const result = await graph.invoke(initialState, {
+    configurable: {
+      onProgress: options.onProgress,
+      chatModelFactory: options.chatModelFactory,
+      toolRunner: options.toolRunner,
+    },
+  });
   return result as AgentState;
 }
 
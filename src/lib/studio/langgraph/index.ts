@@ -4,6 +4,7 @@
  */
 
 export { runAgentGraph } from './graph';
-export type { AgentState, AgentResponse, AgentType } from './types';
+export type { AgentState, AgentResponse, AgentType, AgentProgressEvent, AgentProgressListener } from './types';
 export { createStateAnnotation } from './state';
+export type { ChatModelFactory, ChatModelOptions, StudioChatModel, ToolRunner } from './backend';
 
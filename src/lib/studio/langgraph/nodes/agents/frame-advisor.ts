@@ -3,12 +3,14 @@
  * Handles frame recommendations, examples, quality, sizing
  */
 
-import { ChatOpenAI } from '@langchain/openai';
 import { ChatPromptTemplate } from '@langchain/core/prompts';
 import { StructuredTool } from '@langchain/core/tools';
 import { ToolMessage } from '@langchain/core/messages';
 import { z } from 'zod';
+import type { LangGraphRunnableConfig } from '@langchain/langgraph';
 import type { AgentState } from '../../types';
+import { createChatModel, invokeTool } from '../../backend';
+import { createCatalogTools } from '../../tools/catalog-tools';
 import { getLifestyleImages, getChevronImage, getCornerImages, getCrossSectionImage } from '@/lib/prodigi-assets/asset-catalog';
 import { COUNTRIES, getCountry } from '@/lib/countries';
 
@@ -319,19 +321,20 @@ class UpdateFrameTool extends StructuredTool {
 /**
  * Frame Advisor Agent Node
  */
-export async function frameAdvisorNode(state: AgentState): Promise<Partial<AgentState>> {
+export async function frameAdvisorNode(
+  state: AgentState,
+  config?: LangGraphRunnableConfig
+): Promise<Partial<AgentState>> {
   try {
     const { userMessage, frameConfig, messages } = state;
     
-    const model = new ChatOpenAI({
-      modelName: 'gpt-4o-mini',
-      temperature: 0.7,
-    });
+    const model = createChatModel(config, { role: 'frame-advisor', temperature: 0.7 });
 
     const tools = [
       new GetFrameVisualsTool(),
       new RecommendFrameTool(),
       new UpdateFrameTool(),
+      ...createCatalogTools(frameConfig),
     ];
 
     const modelWithTools = model.bindTools(tools);
@@ -356,7 +359,9 @@ CRITICAL - When user asks to compare options (e.g., "show me example with mount
 Available Tools:
 - getFrameVisuals: Show lifestyle images, chevrons, corners, cross-sections. Use hasMount parameter (true = with mount, false = without mount) to filter. For comparisons, call this tool MULTIPLE TIMES with different parameters.
 - recommendFrame: Generate personalized recommendations
-- updateFrame: Directly update frame configuration when user requests changes (e.g., "change to black", "make it bigger", "switch to canvas", "change shipping to US", "ship to Bangladesh"). Can update frame properties AND shipping destination country.`;
+- updateFrame: Directly update frame configuration when user requests changes (e.g., "change to black", "make it bigger", "switch to canvas", "change shipping to US", "ship to Bangladesh"). Can update frame properties AND shipping destination country.
+- checkConfiguration: Check changes against the real catalog before calling updateFrame. Only apply the changes it returns, and tell the user about any problems it reports.
+- getProductOptions / getAvailableSizes: The colours, glazes, mounts, wraps and sizes the product actually comes in. Never suggest an option these don't list.`;
 
     // Build messages array for LangChain
     const langchainMessages: any[] = [
@@ -393,10 +398,10 @@ Available Tools:
         const tool = tools.find(t => t.name === toolCall.name);
         if (tool) {
           try {
-            const result = await tool.invoke(toolCall.args);
+            const result = await invokeTool(config, 'frame-advisor', tool, toolCall.args);
             toolResults.push({
               toolName: toolCall.name,
-              result: JSON.parse(result),
+              result,
             });
           } catch (error) {
             console.error(`Error executing tool ${toolCall.name}:`, error);
@@ -409,10 +414,7 @@ Available Tools:
     let content = response.content as string;
     if (!content && response.tool_calls && response.tool_calls.length > 0) {
       // If only tool calls, generate a follow-up response with proper tool messages
-      const followUpModel = new ChatOpenAI({
-        modelName: 'gpt-4o-mini',
-        temperature: 0.7,
-      });
+      const followUpModel = createChatModel(config, { role: 'frame-advisor:follow-up', temperature: 0.7 });
       
       // Build follow-up messages with context about current configuration
       const configContext = buildConfigContext(frameConfig || {});
@@ -3,15 +3,17 @@
  * Handles AI image generation requests and prompt refinement
  */
 
-import { ChatOpenAI } from '@langchain/openai';
 import { ChatPromptTemplate } from '@langchain/core/prompts';
+import type { LangGraphRunnableConfig } from '@langchain/langgraph';
+import { describeImageGenerationProvider } from '@/lib/image-generation';
 import type { AgentState } from '../../types';
+import { createChatModel } from '../../backend';
 
 const IMAGE_GENERATION_SYSTEM_PROMPT = `You are an AI image generation expert specializing in creating artwork for custom framing.
 
 Your expertise:
 - Prompt engineering for AI image generation
-- Understanding different AI image models (Ideogram, DALL-E, etc.)
+- Understanding different AI image models and their options
 - Optimizing prompts for framing and wall art
 - Style guidance and artistic direction
 - Aspect ratio recommendations for framing
@@ -35,20 +37,24 @@ Guidelines:
 /**
  * Image Generation Agent Node
  */
-export async function imageGenerationNode(state: AgentState): Promise<Partial<AgentState>> {
+export async function imageGenerationNode(
+  state: AgentState,
+  config?: LangGraphRunnableConfig
+): Promise<Partial<AgentState>> {
   try {
     const { userMessage, frameConfig, messages } = state;
     
-    const model = new ChatOpenAI({
-      modelName: 'gpt-4o-mini',
-      temperature: 0.8, // Higher temperature for creativity
-    });
+    // Higher temperature for creativity
+    const model = createChatModel(config, { role: 'image-generation', temperature: 0.8 });
 
     const systemPrompt = `${IMAGE_GENERATION_SYSTEM_PROMPT}
 
 Current Frame Configuration:
 ${buildConfigContext(frameConfig || {})}
 
+Image Generator (only suggest options it supports):
+${describeImageGenerationProvider()}
+
 When suggesting prompts, consider:
 - The frame size and aspect ratio
 - Frame color and style
@@ -3,14 +3,16 @@
  * Handles pricing questions, cost optimization, and price comparisons
  */
 
-import { ChatOpenAI } from '@langchain/openai';
 import { ChatPromptTemplate } from '@langchain/core/prompts';
 import { StructuredTool } from '@langchain/core/tools';
 import { ToolMessage } from '@langchain/core/messages';
 import { z } from 'zod';
+import type { LangGraphRunnableConfig } from '@langchain/langgraph';
 import type { AgentState } from '../../types';
+import { createChatModel, invokeTool } from '../../backend';
 import { prodigiSDK } from '@/lib/prodigi-v2';
-import { estimateDeliveryTime, formatDeliveryEstimate } from '@/lib/prodigi-v2/delivery-estimator';
+import { estimateDeliveryTime, formatDeliveryEstimate, getArrivalWindow, formatArrivalWindow } from '@/lib/prodigi-v2/delivery-estimator';
+import { getDeliveryHistory, resolveProductType } from '@/lib/prodigi-v2/delivery-history';
 
 const PRICING_ADVISOR_SYSTEM_PROMPT = `You are a pricing and cost optimization expert for custom framing with direct access to real Prodigi API pricing.
 
@@ -263,13 +265,20 @@ class GetPriceQuoteTool extends StructuredTool {
       const currency = standardQuote.costSummary.totalCost?.currency || 'USD';
       const productionCountry = standardQuote.shipments?.[0]?.fulfillmentLocation?.countryCode || 'US';
 
-      // Calculate delivery estimate
+      // Calculate delivery estimate, from our shipment history where there's enough
+      const deliveryHistory = await getDeliveryHistory();
       const deliveryEstimate = estimateDeliveryTime(
         productionCountry,
         countryCode,
-        standardQuote.shipmentMethod
+        standardQuote.shipmentMethod,
+        'wall-art',
+        {
+          history: deliveryHistory,
+          productType: deliveryHistory ? await resolveProductType(sku, countryCode) : null,
+        }
       );
       const deliveryFormatted = formatDeliveryEstimate(deliveryEstimate);
+      const arrivesBy = getArrivalWindow(deliveryEstimate);
 
       return JSON.stringify({
         success: true,
@@ -290,6 +299,8 @@ class GetPriceQuoteTool extends StructuredTool {
           },
           formatted: deliveryFormatted,
           note: deliveryEstimate.note,
+          arrivesBy,
+          arrivesByFormatted: formatArrivalWindow(arrivesBy),
         },
         productionCountry,
         destinationCountry: countryCode,
@@ -309,14 +320,14 @@ class GetPriceQuoteTool extends StructuredTool {
 /**
  * Pricing Advisor Agent Node
  */
-export async function pricingAdvisorNode(state: AgentState): Promise<Partial<AgentState>> {
+export async function pricingAdvisorNode(
+  state: AgentState,
+  config?: LangGraphRunnableConfig
+): Promise<Partial<AgentState>> {
   try {
     const { userMessage, frameConfig, messages } = state;
     
-    const model = new ChatOpenAI({
-      modelName: 'gpt-4o-mini',
-      temperature: 0.7,
-    });
+    const model = createChatModel(config, { role: 'pricing-advisor', temperature: 0.7 });
 
     const getPriceQuoteTool = new GetPriceQuoteTool();
     // Pass current frame config to tool so it can use it as defaults
@@ -379,10 +390,10 @@ Available Tools:
         const tool = tools.find(t => t.name === toolCall.name);
         if (tool) {
           try {
-            const result = await tool.invoke(toolCall.args);
+            const result = await invokeTool(config, 'pricing-advisor', tool, toolCall.args);
             toolResults.push({
               toolName: toolCall.name,
-              result: JSON.parse(result),
+              result,
             });
           } catch (error) {
             console.error(`Error executing tool ${toolCall.name}:`, error);
@@ -394,10 +405,7 @@ Available Tools:
     // Get final response text
     let content = response.content as string;
     if (!content && response.tool_calls && response.tool_calls.length > 0) {
-      const followUpModel = new ChatOpenAI({
-        modelName: 'gpt-4o-mini',
-        temperature: 0.7,
-      });
+      const followUpModel = createChatModel(config, { role: 'pricing-advisor:follow-up', temperature: 0.7 });
       
       // Build follow-up messages
       const followUpMessages: any[] = [];
@@ -3,12 +3,14 @@
  * Handles Prodigi API, SKU lookup, frame configurations, and technical details
  */
 
-import { ChatOpenAI } from '@langchain/openai';
 import { ChatPromptTemplate } from '@langchain/core/prompts';
 import { StructuredTool } from '@langchain/core/tools';
 import { ToolMessage } from '@langchain/core/messages';
 import { z } from 'zod';
+import type { LangGraphRunnableConfig } from '@langchain/langgraph';
 import type { AgentState } from '../../types';
+import { createChatModel, invokeTool } from '../../backend';
+import { createCatalogTools } from '../../tools/catalog-tools';
 
 const PRODIGI_CONFIG_SYSTEM_PROMPT = `You are a Prodigi API and frame configuration expert with deep technical knowledge.
 
@@ -175,18 +177,19 @@ class ValidateConfigTool extends StructuredTool {
 /**
  * Prodigi Configuration Agent Node
  */
-export async function prodigiConfigNode(state: AgentState): Promise<Partial<AgentState>> {
+export async function prodigiConfigNode(
+  state: AgentState,
+  config?: LangGraphRunnableConfig
+): Promise<Partial<AgentState>> {
   try {
     const { userMessage, frameConfig, messages } = state;
     
-    const model = new ChatOpenAI({
-      modelName: 'gpt-4o-mini',
-      temperature: 0.7,
-    });
+    const model = createChatModel(config, { role: 'prodigi-config', temperature: 0.7 });
 
     const tools = [
       new LookupSKUTool(),
       new ValidateConfigTool(),
+      ...createCatalogTools(frameConfig),
     ];
 
     const modelWithTools = model.bindTools(tools);
@@ -198,7 +201,9 @@ ${buildConfigContext(frameConfig || {})}
 
 Available Tools:
 - lookupSKU: Find the correct SKU for a configuration
-- validateConfig: Validate a configuration against Prodigi requirements`;
+- validateConfig: Validate a configuration against Prodigi requirements
+- checkConfiguration: Check changes to the current configuration against the catalog for its shipping country
+- getProductOptions / getAvailableSizes: The options and sizes a product actually comes in`;
 
     // Build messages array for LangChain
     const langchainMessages: any[] = [
@@ -235,10 +240,10 @@ Available Tools:
         const tool = tools.find(t => t.name === toolCall.name);
         if (tool) {
           try {
-            const result = await tool.invoke(toolCall.args);
+            const result = await invokeTool(config, 'prodigi-config', tool, toolCall.args);
             toolResults.push({
               toolName: toolCall.name,
-              result: JSON.parse(result),
+              result,
             });
           } catch (error) {
             console.error(`Error executing tool ${toolCall.name}:`, error);
@@ -250,10 +255,7 @@ Available Tools:
     // Get final response text
     let content = response.content as string;
     if (!content && response.tool_calls && response.tool_calls.length > 0) {
-      const followUpModel = new ChatOpenAI({
-        modelName: 'gpt-4o-mini',
-        temperature: 0.7,
-      });
+      const followUpModel = createChatModel(config, { role: 'prodigi-config:follow-up', temperature: 0.7 });
       
       // Build follow-up messages with proper LangChain message types
       const followUpMessages: any[] = [];
@@ -3,20 +3,43 @@
  * Combines responses from multiple agents into a coherent final response
  */
 
-import { ChatOpenAI } from '@langchain/openai';
 import { ChatPromptTemplate } from '@langchain/core/prompts';
+import type { LangGraphRunnableConfig } from '@langchain/langgraph';
 import type { AgentState } from '../types';
+import { emitProgress, hasProgressListener } from '../progress';
+import { createChatModel } from '../backend';
+import { validateSuggestions } from '../suggestions';
 
 /**
- * Synthesizer Node - combines agent responses
+ * Synthesizer Node - checks the agents' suggestions against the catalog,
+ * then combines agent responses. With a progress listener each suggestion
+ * that survives is reported, then the final response as tokens; a response
+ * taken verbatim from one agent is reported as a single token.
  */
-export async function synthesizerNode(state: AgentState): Promise<Partial<AgentState>> {
+export async function synthesizerNode(
+  state: AgentState,
+  config?: LangGraphRunnableConfig
+): Promise<Partial<AgentState>> {
+  const toolResults = Object.values(state.agentResponses || {}).flatMap(response => response.toolResults || []);
+  const suggestions = await validateSuggestions(toolResults, state.frameConfig, config);
+
+  return {
+    ...(await synthesizeResponse(state, config)),
+    suggestions,
+  };
+}
+
+async function synthesizeResponse(
+  state: AgentState,
+  config?: LangGraphRunnableConfig
+): Promise<Partial<AgentState>> {
   const { agentResponses, userMessage } = state;
   
   // If only one agent responded, use its response directly
   const agentKeys = Object.keys(agentResponses || {});
   if (agentKeys.length === 1) {
     const singleResponse = agentResponses![agentKeys[0]];
+    emitProgress(config, { type: 'token', text: singleResponse.content });
     return {
       finalResponse: singleResponse.content,
       toolCalls: singleResponse.toolCalls || [],
@@ -26,10 +49,7 @@ export async function synthesizerNode(state: AgentState): Promise<Partial<AgentS
 
   // If multiple agents responded, synthesize their responses
   try {
-    const model = new ChatOpenAI({
-      modelName: 'gpt-4o-mini',
-      temperature: 0.7,
-    });
+    const model = createChatModel(config, { role: 'synthesizer', temperature: 0.7 });
 
     const agentResponseText = agentKeys.map(key => {
       const response = agentResponses![key];
@@ -59,9 +79,24 @@ CRITICAL - Image Handling:
 
 Response:`;
 
-    const response = await model.invoke([
-      { role: 'user', content: synthesisPrompt },
-    ]);
+    let finalResponse = '';
+    if (hasProgressListener(config)) {
+      const stream = await model.stream([
+        { role: 'user', content: synthesisPrompt },
+      ]);
+      for await (const chunk of stream) {
+        const text = typeof chunk.content === 'string' ? chunk.content : '';
+        if (text) {
+          finalResponse += text;
+          emitProgress(config, { type: 'token', text });
+        }
+      }
+    } else {
+      const response = await model.invoke([
+        { role: 'user', content: synthesisPrompt },
+      ]);
+      finalResponse = response.content as string;
+    }
 
     // Combine tool calls and results from all agents
     const allToolCalls: any[] = [];
@@ -78,7 +113,7 @@ Response:`;
     });
 
     return {
-      finalResponse: response.content as string,
+      finalResponse,
       toolCalls: allToolCalls,
       toolResults: allToolResults,
     };
@@ -92,6 +127,7 @@ Response:`;
     }, agentKeys[0]);
 
     const response = agentResponses![bestResponse];
+    emitProgress(config, { type: 'token', text: response.content });
     return {
       finalResponse: response.content,
       toolCalls: response.toolCalls || [],
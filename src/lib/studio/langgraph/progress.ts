@@ -0,0 +1,29 @@
+/**
+ * Graph Progress
+ * Reports AgentProgressEvents to the listener passed to runAgentGraph
+ */
+
+import type { LangGraphRunnableConfig } from '@langchain/langgraph';
+import type { AgentProgressEvent, AgentProgressListener } from './types';
+
+/**
+ * Report an event if the run has a progress listener. A failing listener
+ * never fails the run.
+ */
+export function emitProgress(config: LangGraphRunnableConfig | undefined, event: AgentProgressEvent): void {
+  const listener = config?.configurable?.onProgress as AgentProgressListener | undefined;
+  if (typeof listener !== 'function') return;
+
+  try {
+    listener(event);
+  } catch (error) {
+    console.error('Error reporting agent progress:', error);
+  }
+}
+
+/**
+ * Whether anyone is listening, so nodes can skip work only streaming needs
+ */
+export function hasProgressListener(config: LangGraphRunnableConfig | undefined): boolean {
+  return typeof config?.configurable?.onProgress === 'function';
+}
@@ -0,0 +1,53 @@
+/**
+ * Suggestion Validation
+ * Turns the agents' tool results into suggestion cards and checks each one
+ * against the catalog, so the studio never offers a combination Prodigi
+ * doesn't sell
+ */
+
+import type { LangGraphRunnableConfig } from '@langchain/langgraph';
+import type { AIChatSuggestion } from '@/store/studio';
+import { applyConfigurationCheck, suggestionsFromToolResult } from '@/lib/studio/chat-reply';
+import type { ConfigurationCheck } from '@/lib/studio/catalog-validator';
+import { CheckConfigurationTool } from './tools/catalog-tools';
+import { invokeTool } from './backend';
+import { emitProgress } from './progress';
+
+/**
+ * Suggestions from the tool results with invalid ones repaired or dropped.
+ * A suggestion whose check can't run (catalog unavailable) is kept as the
+ * agent made it.
+ */
+export async function validateSuggestions(
+  toolResults: Array<{ toolName: string; result: any }>,
+  frameConfig: any,
+  config?: LangGraphRunnableConfig
+): Promise<AIChatSuggestion[]> {
+  const checkTool = new CheckConfigurationTool();
+  checkTool.setFrameConfig(frameConfig);
+
+  const suggestions: AIChatSuggestion[] = [];
+
+  for (const { toolName, result } of toolResults) {
+    for (const suggestion of suggestionsFromToolResult(toolName || '', result, frameConfig)) {
+      let checked: AIChatSuggestion | null = suggestion;
+
+      try {
+        const check: ConfigurationCheck = await invokeTool(config, 'synthesizer', checkTool, suggestion.changes);
+        checked = applyConfigurationCheck(suggestion, check, frameConfig);
+        if (!checked) {
+          console.warn(`Dropped suggestion "${suggestion.title}":`, check.problems);
+        }
+      } catch (error) {
+        console.error(`Could not check suggestion "${suggestion.title}":`, error);
+      }
+
+      if (checked) {
+        suggestions.push(checked);
+        emitProgress(config, { type: 'suggestion', suggestion: checked });
+      }
+    }
+  }
+
+  return suggestions;
+}
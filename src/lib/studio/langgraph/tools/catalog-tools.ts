@@ -0,0 +1,113 @@
+/**
+ * Catalog Tools
+ * Typed tools the agents use to check options against the real Prodigi
+ * catalog before suggesting them (see src/lib/studio/catalog-validator.ts)
+ */
+
+import { StructuredTool } from '@langchain/core/tools';
+import { z } from 'zod';
+import type { FrameConfiguration } from '@/store/studio';
+import { getCatalogValidator } from '@/lib/studio/catalog-validator';
+
+const configurationChangesSchema = z.object({
+  productType: z.string().optional().describe('Product type: framed-print, canvas, framed-canvas, acrylic, metal, poster'),
+  size: z.string().optional().describe('Size in format like "16x20"'),
+  frameColor: z.string().optional().describe('Frame color, e.g. black, white, natural'),
+  frameStyle: z.string().optional().describe('Frame style'),
+  glaze: z.string().optional().describe('Glaze: none, acrylic, glass, motheye'),
+  mount: z.string().optional().describe('Mount: none, 1.4mm, 2.0mm, 2.4mm'),
+  mountColor: z.string().optional().describe('Mount color, e.g. white, off-white, black'),
+  wrap: z.string().optional().describe('Canvas wrap: Black, White, ImageWrap, MirrorWrap'),
+  destinationCountry: z.string().optional().describe('ISO country code the order ships to, e.g. US, GB'),
+});
+
+/**
+ * Base for tools that default to the customer's current configuration
+ */
+abstract class CatalogTool extends StructuredTool {
+  protected frameConfig: Partial<FrameConfiguration> = {};
+
+  setFrameConfig(config: Partial<FrameConfiguration> | null | undefined) {
+    this.frameConfig = config || {};
+  }
+
+  protected productType(input: { productType?: string }): string {
+    return input.productType || this.frameConfig.productType || 'framed-print';
+  }
+
+  protected country(input: { country?: string }): string {
+    return (input.country || this.frameConfig.destinationCountry || 'US').toUpperCase();
+  }
+}
+
+// Tool: Check proposed changes against the catalog
+export class CheckConfigurationTool extends CatalogTool {
+  name = 'checkConfiguration';
+  description = 'Check configuration changes against the real Prodigi catalog for the current product and shipping country BEFORE suggesting or applying them. Returns whether they are valid, the changes that can actually be applied (invalid options removed, sizes moved to the nearest available), the SKU and the problems found.';
+
+  schema = configurationChangesSchema;
+
+  async _call(input: z.infer<typeof this.schema>) {
+    const validator = await getCatalogValidator();
+    const check = await validator.checkChanges(this.frameConfig, input as Partial<FrameConfiguration>);
+    return JSON.stringify(check);
+  }
+}
+
+// Tool: Sizes a product comes in
+export class GetAvailableSizesTool extends CatalogTool {
+  name = 'getAvailableSizes';
+  description = 'List the sizes a product type is available in for a shipping country. Defaults to the current product type and destination.';
+
+  schema = z.object({
+    productType: z.string().optional().describe('Product type. If not provided, uses current configuration.'),
+    country: z.string().optional().describe('ISO country code. If not provided, uses the current destination.'),
+  });
+
+  async _call(input: z.infer<typeof this.schema>) {
+    const productType = this.productType(input);
+    const country = this.country(input);
+    const validator = await getCatalogValidator();
+    const sizes = await validator.getAvailableSizes(productType, country);
+    return JSON.stringify({ productType, country, sizes });
+  }
+}
+
+// Tool: Options a product comes with
+export class GetProductOptionsTool extends CatalogTool {
+  name = 'getProductOptions';
+  description = 'List the options (frame colours, styles, glazes, mounts, mount colours, wraps) a product type offers for a shipping country. Defaults to the current product type and destination.';
+
+  schema = z.object({
+    productType: z.string().optional().describe('Product type. If not provided, uses current configuration.'),
+    country: z.string().optional().describe('ISO country code. If not provided, uses the current destination.'),
+  });
+
+  async _call(input: z.infer<typeof this.schema>) {
+    const productType = this.productType(input);
+    const country = this.country(input);
+    const validator = await getCatalogValidator();
+    const options = await validator.getProductOptions(productType, country);
+
+    // Only what the product has, so the agent doesn't offer the rest
+    return JSON.stringify({
+      productType,
+      country,
+      frameColors: options.hasFrameColor ? options.frameColors : [],
+      frameStyles: options.hasFrameStyle ? options.frameStyles : [],
+      glazes: options.hasGlaze ? options.glazes : [],
+      mounts: options.hasMount ? options.mounts : [],
+      mountColors: options.hasMountColor ? options.mountColors : [],
+      wraps: options.hasWrap ? options.wraps : [],
+    });
+  }
+}
+
+/**
+ * The catalog tools, set up for the customer's current configuration
+ */
+export function createCatalogTools(frameConfig: Partial<FrameConfiguration> | null | undefined) {
+  const tools = [new CheckConfigurationTool(), new GetAvailableSizesTool(), new GetProductOptionsTool()];
+  tools.forEach(tool => tool.setFrameConfig(frameConfig));
+  return tools;
+}
@@ -3,7 +3,7 @@
  * Defines the state schema for the multi-agent system
  */
 
-import type { FrameConfiguration } from '@/store/studio';
+import type { AIChatSuggestion, FrameConfiguration } from '@/store/studio';
 
 /**
  * Agent State - The shared state that flows through the graph
@@ -67,3 +67,19 @@ export type AgentType =
   | 'pricing-advisor'
   | 'synthesizer';
 
+
+/**
+ * Progress reported while the graph runs, for streaming clients. Suggestions
+ * have passed the synthesizer's catalog check; tokens are the final response
+ * as the synthesizer produces it.
+ */
+export type AgentProgressEvent =
+  | { type: 'agents_selected'; agents: string[] }
+  | { type: 'agent_start'; agent: string }
+  | { type: 'tool_call'; agent: string; toolName: string }
+  | { type: 'tool_result'; agent: string; toolName: string; result: any }
+  | { type: 'agent_end'; agent: string; fallback: boolean }
+  | { type: 'suggestion'; suggestion: AIChatSuggestion }
+  | { type: 'token'; text: string };
+
+export type AgentProgressListener = (event: AgentProgressEvent) => void;
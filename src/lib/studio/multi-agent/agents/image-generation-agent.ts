@@ -6,6 +6,7 @@
 import { openai } from '@ai-sdk/openai';
 import { generateText, tool } from 'ai';
 import { z } from 'zod';
+import { describeImageGenerationProvider } from '@/lib/image-generation';
 import type { OrchestratorContext, AgentResponse } from '../orchestrator';
 
 const IMAGE_GENERATION_SYSTEM_PROMPT = `You are an AI image generation expert helping users create perfect artwork for custom framing.
@@ -19,7 +20,7 @@ Your expertise:
 - Prompt optimization
 
 Your role:
-- Help users generate AI images using Ideogram
+- Help users generate AI images with the studio's image generator
 - Guide users in selecting the best image from generated options
 - Provide prompt suggestions and improvements
 - Explain aspect ratios and sizing for framing
@@ -42,7 +43,7 @@ const generatePromptTool = tool({
     style: z.enum(['realistic', 'artistic', 'abstract', 'photographic', 'illustration', 'painting']).optional(),
     mood: z.string().optional().describe('Desired mood or atmosphere'),
     colors: z.array(z.string()).optional().describe('Color preferences'),
-    aspectRatio: z.string().optional().describe('Aspect ratio for framing (e.g., "16x20", "24x36")'),
+    aspectRatio: z.string().optional().describe('Generation aspect ratio, width x height (e.g., "4x5" for a 16x20 print)'),
     improvements: z.array(z.string()).optional().describe('Specific improvements to make'),
   }),
   execute: async (params: any) => {
@@ -71,7 +72,7 @@ const generatePromptTool = tool({
     return {
       originalPrompt: params.userPrompt,
       enhancedPrompt,
-      aspectRatio: params.aspectRatio || '16x20',
+      aspectRatio: params.aspectRatio || '4x5',
       suggestions,
       readyForGeneration: true,
     };
@@ -157,6 +158,9 @@ export async function imageGenerationAgent(
 Current Configuration:
 ${buildConfigContext(context.frameConfig)}
 
+Image Generator (only suggest options it supports):
+${describeImageGenerationProvider()}
+
 Available Tools:
 - generatePrompt: Create or improve image generation prompts
 - recommendImageSelection: Help select best image from generated options`;
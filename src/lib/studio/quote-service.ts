@@ -0,0 +1,313 @@
+/**
+ * Studio Quote Service
+ *
+ * Quotes behind the studio price display. Every quote is keyed by
+ * generateQuoteKey (SKU + normalized attributes + country + shipping method),
+ * so going back to a size or colour that was already priced costs no Prodigi
+ * call. Item-price requests that arrive together are deduped and batched into
+ * one multi-item quote call, which is also how all sizes of a product type are
+ * pre-warmed for the size picker.
+ */
+
+import type { CreateQuoteRequest, Cost, Quote, QuoteItem, ShippingMethod } from '@/lib/prodigi-v2/types';
+import { SwrCache, getDefaultCacheBackend } from '@/lib/prodigi-v2/cache';
+import { generateQuoteKey } from '@/lib/checkout/utils/attribute-normalizer';
+import { buildProdigiAttributes, type AttributeBuilderConfig } from '@/lib/checkout/utils/attribute-builder';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface QuoteTarget {
+  sku: string;
+  attributes?: Record<string, string>;
+  country: string;
+  shippingMethod: ShippingMethod;
+}
+
+export interface SizePrice {
+  size: string;
+  sku: string;
+  unitCost: Cost;
+}
+
+export interface PrewarmConfig extends AttributeBuilderConfig {
+  productType: string;
+  shippingMethod?: ShippingMethod;
+}
+
+/** Prodigi modules the service needs (QuotesAPI, catalog and products) */
+export interface StudioQuoteDeps {
+  quotes: {
+    create(request: CreateQuoteRequest, options?: { cache?: boolean }): Promise<Quote[]>;
+  };
+  catalog: {
+    getSKU(productType: string, size: string, country?: string): Promise<string | null>;
+    getAvailableSizes(productType: string, country?: string): Promise<string[]>;
+  };
+  products: {
+    get(sku: string): Promise<{ attributes: Record<string, string[]> }>;
+  };
+}
+
+export interface StudioQuoteOptions {
+  cache?: SwrCache;
+  /** Prefix for cache keys, e.g. the Prodigi environment */
+  namespace?: string;
+  batchWindowMs?: number;
+  maxBatchSize?: number;
+}
+
+interface PendingItem {
+  target: QuoteTarget;
+  waiters: Array<(cost: Cost | null) => void>;
+}
+
+interface PendingBatch {
+  items: Map<string, PendingItem>;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+export const QUOTE_TTL = 5 * 60 * 1000; // 5 minutes
+export const QUOTE_STALE_TTL = 30 * 60 * 1000; // served stale for up to 30 minutes while refreshing
+const BATCH_WINDOW_MS = 20;
+const MAX_BATCH_SIZE = 20;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function toQuoteItem(target: QuoteTarget): QuoteItem {
+  return {
+    sku: target.sku,
+    copies: 1,
+    ...(target.attributes && Object.keys(target.attributes).length > 0 && { attributes: target.attributes }),
+    assets: [{ printArea: 'default' }],
+  };
+}
+
+function quoteKey(target: QuoteTarget): string {
+  return generateQuoteKey(target.sku, target.attributes, {
+    country: target.country,
+    shippingMethod: target.shippingMethod,
+  });
+}
+
+/**
+ * Match the items of a multi-item quote back to the requested targets.
+ * Prodigi echoes attributes back, but falls back to the SKU when it doesn't.
+ */
+export function matchUnitCosts(quote: Quote, targets: QuoteTarget[]): Array<Cost | null> {
+  const byKey = new Map<string, Cost>();
+  const bySku = new Map<string, Cost[]>();
+
+  for (const item of quote.items || []) {
+    if (!item.unitCost) continue;
+    byKey.set(generateQuoteKey(item.sku, item.attributes), item.unitCost);
+    const sku = item.sku.toLowerCase();
+    bySku.set(sku, [...(bySku.get(sku) || []), item.unitCost]);
+  }
+
+  return targets.map(target => {
+    const exact = byKey.get(generateQuoteKey(target.sku, target.attributes));
+    if (exact) return exact;
+
+    const skuMatches = bySku.get(target.sku.toLowerCase()) || [];
+    return skuMatches.length === 1 ? skuMatches[0] : null;
+  });
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+export class StudioQuoteService {
+  private readonly cache: SwrCache;
+  private readonly namespace: string;
+  private readonly batchWindowMs: number;
+  private readonly maxBatchSize: number;
+  private readonly pending = new Map<string, PendingBatch>();
+
+  constructor(private readonly deps: StudioQuoteDeps, options: StudioQuoteOptions = {}) {
+    this.cache = options.cache || new SwrCache(getDefaultCacheBackend());
+    this.namespace = options.namespace || 'default';
+    this.batchWindowMs = options.batchWindowMs ?? BATCH_WINDOW_MS;
+    this.maxBatchSize = options.maxBatchSize ?? MAX_BATCH_SIZE;
+  }
+
+  /**
+   * Full single-item quotes (item, shipping and fulfillment details) for one
+   * shipping method. Concurrent identical requests share one Prodigi call.
+   */
+  getQuotes(target: QuoteTarget): Promise<Quote[]> {
+    return this.cache.getOrLoad(
+      `${this.namespace}:studio:quotes:${quoteKey(target)}`,
+      () => this.deps.quotes.create({
+        destinationCountryCode: target.country,
+        shippingMethod: target.shippingMethod,
+        items: [toQuoteItem(target)],
+      }, { cache: false }),
+      { ttl: QUOTE_TTL, staleTtl: QUOTE_STALE_TTL, cacheIf: quotes => quotes.length > 0 }
+    );
+  }
+
+  /**
+   * Quotes for several shipping methods; unavailable methods are left out
+   */
+  async getQuotesForMethods(
+    target: Omit<QuoteTarget, 'shippingMethod'>,
+    methods: ShippingMethod[]
+  ): Promise<Quote[]> {
+    const results = await Promise.all(methods.map(shippingMethod =>
+      this.getQuotes({ ...target, shippingMethod }).catch(error => {
+        console.warn(`[StudioQuotes] Failed to get quote for ${shippingMethod}:`, error instanceof Error ? error.message : error);
+        return [] as Quote[];
+      })
+    ));
+    return results.flat();
+  }
+
+  /**
+   * Unit price of one item. Requests made within the batch window are sent to
+   * Prodigi as one multi-item quote. Resolves null when the item can't be quoted.
+   */
+  getItemPrice(target: QuoteTarget): Promise<Cost | null> {
+    const key = quoteKey(target);
+    return this.cache.getOrLoad<Cost | null>(
+      `${this.namespace}:studio:item:${key}`,
+      () => this.enqueue(key, target),
+      { ttl: QUOTE_TTL, staleTtl: QUOTE_STALE_TTL, cacheIf: cost => cost !== null }
+    );
+  }
+
+  getItemPrices(targets: QuoteTarget[]): Promise<Array<Cost | null>> {
+    return Promise.all(targets.map(target => this.getItemPrice(target)));
+  }
+
+  /**
+   * Price every available size of a product type with the current options,
+   * so the size picker can show prices without waiting for a quote per click
+   */
+  async prewarmSizes(config: PrewarmConfig, country: string): Promise<SizePrice[]> {
+    const sizes = await this.deps.catalog.getAvailableSizes(config.productType, country);
+
+    const targets = await Promise.all(sizes.map(async size => {
+      try {
+        const sku = await this.deps.catalog.getSKU(config.productType, size, country);
+        if (!sku) return null;
+
+        const product = await this.deps.products.get(sku);
+        const attributes = buildProdigiAttributes(config, { validAttributes: product.attributes, sku });
+
+        return {
+          size,
+          target: { sku, attributes, country, shippingMethod: config.shippingMethod || 'Standard' } as QuoteTarget,
+        };
+      } catch (error) {
+        console.warn(`[StudioQuotes] Could not resolve ${config.productType} ${size}:`, error instanceof Error ? error.message : error);
+        return null;
+      }
+    }));
+
+    const resolved = targets.filter((entry): entry is { size: string; target: QuoteTarget } => entry !== null);
+    const costs = await this.getItemPrices(resolved.map(entry => entry.target));
+
+    return resolved.flatMap((entry, index) => {
+      const unitCost = costs[index];
+      return unitCost ? [{ size: entry.size, sku: entry.target.sku, unitCost }] : [];
+    });
+  }
+
+  // --------------------------------------------------------------------------
+  // Batching
+  // --------------------------------------------------------------------------
+
+  private enqueue(key: string, target: QuoteTarget): Promise<Cost | null> {
+    const batchKey = `${target.country.toUpperCase()}:${target.shippingMethod}`;
+
+    return new Promise(resolve => {
+      let batch = this.pending.get(batchKey);
+      if (!batch) {
+        batch = {
+          items: new Map(),
+          timer: setTimeout(() => this.flush(batchKey), this.batchWindowMs),
+        };
+        this.pending.set(batchKey, batch);
+      }
+
+      const existing = batch.items.get(key);
+      if (existing) {
+        existing.waiters.push(resolve);
+      } else {
+        batch.items.set(key, { target, waiters: [resolve] });
+      }
+    });
+  }
+
+  private async flush(batchKey: string): Promise<void> {
+    const batch = this.pending.get(batchKey);
+    if (!batch) return;
+    this.pending.delete(batchKey);
+
+    const items = Array.from(batch.items.values());
+    const chunks: PendingItem[][] = [];
+    for (let i = 0; i < items.length; i += this.maxBatchSize) {
+      chunks.push(items.slice(i, i + this.maxBatchSize));
+    }
+
+    await Promise.all(chunks.map(chunk => this.quoteChunk(chunk)));
+  }
+
+  private async quoteChunk(chunk: PendingItem[]): Promise<void> {
+    const targets = chunk.map(item => item.target);
+    const { country, shippingMethod } = targets[0];
+
+    let costs: Array<Cost | null>;
+    try {
+      const quotes = await this.deps.quotes.create({
+        destinationCountryCode: country,
+        shippingMethod,
+        items: targets.map(toQuoteItem),
+      }, { cache: false });
+
+      const quote = quotes.find(q => q.shipmentMethod === shippingMethod) || quotes[0];
+      costs = quote ? matchUnitCosts(quote, targets) : targets.map(() => null);
+    } catch (error) {
+      if (chunk.length === 1) {
+        console.warn(`[StudioQuotes] Quote failed for ${targets[0].sku}:`, error instanceof Error ? error.message : error);
+        costs = [null];
+      } else {
+        // One invalid item fails the whole batch; quote the items one by one instead
+        console.warn(`[StudioQuotes] Batch of ${chunk.length} failed, quoting items individually`);
+        await Promise.all(chunk.map(item => this.quoteChunk([item])));
+        return;
+      }
+    }
+
+    chunk.forEach((item, index) => {
+      item.waiters.forEach(resolve => resolve(costs[index]));
+    });
+  }
+}
+
+// ============================================================================
+// DEFAULT INSTANCE
+// ============================================================================
+
+// One instance per process so concurrent requests share batches and in-flight quotes
+let defaultService: StudioQuoteService | null = null;
+
+export async function getStudioQuoteService(): Promise<StudioQuoteService> {
+  if (!defaultService) {
+    const { prodigiSDK } = await import('@/lib/prodigi-v2');
+    defaultService = new StudioQuoteService(
+      {
+        quotes: prodigiSDK.quotes,
+        catalog: prodigiSDK.catalog,
+        products: prodigiSDK.products,
+      },
+      { namespace: prodigiSDK.getConfig().environment }
+    );
+  }
+  return defaultService;
+}
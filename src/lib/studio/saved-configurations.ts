@@ -0,0 +1,302 @@
+/**
+ * Saved Studio Configurations
+ *
+ * Persists FrameConfiguration snapshots ("My saved designs") so a user can
+ * reopen a design exactly as it was. Every save of an existing design adds an
+ * immutable version; the parent row tracks the current version.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { FrameConfiguration } from '@/store/studio';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SavedConfigurationSummary {
+  id: string;
+  name: string;
+  currentVersion: number;
+  imageUrl: string | null;
+  productType: FrameConfiguration['productType'] | null;
+  sku: string | null;
+  size: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SavedConfigurationVersion {
+  version: number;
+  createdAt: string;
+}
+
+export interface SavedConfiguration extends SavedConfigurationSummary {
+  version: number;
+  config: FrameConfiguration;
+  versions: SavedConfigurationVersion[];
+}
+
+export class SavedConfigurationError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400,
+    public details?: any
+  ) {
+    super(message);
+    this.name = 'SavedConfigurationError';
+    Object.setPrototypeOf(this, SavedConfigurationError.prototype);
+  }
+}
+
+const PRODUCT_TYPES: FrameConfiguration['productType'][] = [
+  'framed-print',
+  'canvas',
+  'framed-canvas',
+  'acrylic',
+  'metal',
+  'poster',
+];
+
+const MAX_NAME_LENGTH = 255;
+
+// ============================================================================
+// SNAPSHOT HELPERS
+// ============================================================================
+
+/**
+ * Validate a design name and return it trimmed
+ */
+export function normalizeConfigurationName(name: unknown): string {
+  if (typeof name !== 'string' || !name.trim()) {
+    throw new SavedConfigurationError('Design name is required');
+  }
+
+  const trimmed = name.trim();
+  if (trimmed.length > MAX_NAME_LENGTH) {
+    throw new SavedConfigurationError(`Design name must be at most ${MAX_NAME_LENGTH} characters`);
+  }
+
+  return trimmed;
+}
+
+/**
+ * Validate an incoming FrameConfiguration before it is stored as a snapshot
+ */
+export function toConfigurationSnapshot(config: unknown): FrameConfiguration {
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    throw new SavedConfigurationError('Configuration is required');
+  }
+
+  const snapshot = { ...(config as FrameConfiguration) };
+
+  if (!PRODUCT_TYPES.includes(snapshot.productType)) {
+    throw new SavedConfigurationError('Invalid product type', 400, { productType: snapshot.productType });
+  }
+
+  if (typeof snapshot.size !== 'string' || !snapshot.size) {
+    throw new SavedConfigurationError('Configuration size is required');
+  }
+
+  if (snapshot.imageUrl && typeof snapshot.imageUrl === 'string' && snapshot.imageUrl.startsWith('data:')) {
+    throw new SavedConfigurationError('Inline image data cannot be saved; upload the image first');
+  }
+
+  return {
+    ...snapshot,
+    imageAnalysis: snapshot.imageAnalysis ?? null,
+    lastModified: Date.now(),
+  };
+}
+
+function mapSummary(row: any): SavedConfigurationSummary {
+  return {
+    id: row.id,
+    name: row.name,
+    currentVersion: row.current_version,
+    imageUrl: row.image_url ?? null,
+    productType: row.product_type ?? null,
+    sku: row.sku ?? null,
+    size: row.size ?? null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function denormalizedColumns(config: FrameConfiguration) {
+  return {
+    image_url: config.imageUrl,
+    product_type: config.productType,
+    sku: config.sku,
+    size: config.size,
+  };
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+export class SavedConfigurationService {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * List a user's saved designs, most recently updated first
+   */
+  async list(userId: string): Promise<SavedConfigurationSummary[]> {
+    const { data, error } = await this.supabase
+      .from('saved_configurations')
+      .select('*')
+      .eq('user_id', userId)
+      .order('updated_at', { ascending: false });
+
+    if (error) {
+      throw new SavedConfigurationError('Failed to fetch saved designs', 500, { message: error.message });
+    }
+
+    return (data || []).map(mapSummary);
+  }
+
+  /**
+   * Save a new design (version 1)
+   */
+  async create(userId: string, name: unknown, config: unknown): Promise<SavedConfiguration> {
+    const normalizedName = normalizeConfigurationName(name);
+    const snapshot = toConfigurationSnapshot(config);
+
+    const { data: row, error } = await this.supabase
+      .from('saved_configurations')
+      .insert({
+        user_id: userId,
+        name: normalizedName,
+        current_version: 1,
+        ...denormalizedColumns(snapshot),
+      })
+      .select('*')
+      .single();
+
+    if (error || !row) {
+      throw new SavedConfigurationError('Failed to save design', 500, { message: error?.message });
+    }
+
+    const { error: versionError } = await this.supabase
+      .from('saved_configuration_versions')
+      .insert({
+        configuration_id: row.id,
+        version: 1,
+        config: snapshot,
+      });
+
+    if (versionError) {
+      // Don't leave a design behind without a snapshot
+      await this.supabase.from('saved_configurations').delete().eq('id', row.id);
+      throw new SavedConfigurationError('Failed to save design', 500, { message: versionError.message });
+    }
+
+    return {
+      ...mapSummary(row),
+      version: 1,
+      config: snapshot,
+      versions: [{ version: 1, createdAt: row.created_at }],
+    };
+  }
+
+  /**
+   * Fetch a design with its current (or a specific) version snapshot
+   */
+  async get(userId: string, id: string, version?: number): Promise<SavedConfiguration> {
+    const row = await this.getOwnedRow(userId, id);
+    const targetVersion = version ?? row.current_version;
+
+    const { data: versions, error: versionsError } = await this.supabase
+      .from('saved_configuration_versions')
+      .select('version, config, created_at')
+      .eq('configuration_id', id)
+      .order('version', { ascending: false });
+
+    if (versionsError) {
+      throw new SavedConfigurationError('Failed to fetch design versions', 500, { message: versionsError.message });
+    }
+
+    const selected = (versions || []).find((v: any) => v.version === targetVersion);
+    if (!selected) {
+      throw new SavedConfigurationError('Design version not found', 404, { id, version: targetVersion });
+    }
+
+    return {
+      ...mapSummary(row),
+      version: selected.version,
+      config: selected.config as FrameConfiguration,
+      versions: (versions || []).map((v: any) => ({ version: v.version, createdAt: v.created_at })),
+    };
+  }
+
+  /**
+   * Rename a design and/or save a new version of its configuration. Both
+   * happen in one transaction with the design locked
+   * (save_configuration_version), so concurrent saves get consecutive versions.
+   */
+  async update(
+    userId: string,
+    id: string,
+    updates: { name?: unknown; config?: unknown }
+  ): Promise<SavedConfiguration> {
+    const name = updates.name !== undefined ? normalizeConfigurationName(updates.name) : null;
+    const snapshot = updates.config !== undefined ? toConfigurationSnapshot(updates.config) : null;
+
+    if (!name && !snapshot) {
+      throw new SavedConfigurationError('Nothing to update');
+    }
+
+    const columns = snapshot ? denormalizedColumns(snapshot) : null;
+    const { data: row, error } = await this.supabase.rpc('save_configuration_version', {
+      p_configuration_id: id,
+      p_user_id: userId,
+      p_name: name,
+      p_config: snapshot,
+      p_image_url: columns?.image_url ?? null,
+      p_product_type: columns?.product_type ?? null,
+      p_sku: columns?.sku ?? null,
+      p_size: columns?.size ?? null,
+    });
+
+    if (error?.message?.includes('configuration_not_found')) {
+      throw new SavedConfigurationError('Design not found', 404, { id });
+    }
+    if (error || !row) {
+      throw new SavedConfigurationError('Failed to update design', 500, { message: error?.message });
+    }
+
+    return this.get(userId, id, row.current_version);
+  }
+
+  /**
+   * Delete a design and all of its versions
+   */
+  async delete(userId: string, id: string): Promise<void> {
+    await this.getOwnedRow(userId, id);
+
+    const { error } = await this.supabase
+      .from('saved_configurations')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', userId);
+
+    if (error) {
+      throw new SavedConfigurationError('Failed to delete design', 500, { message: error.message });
+    }
+  }
+
+  private async getOwnedRow(userId: string, id: string): Promise<any> {
+    const { data, error } = await this.supabase
+      .from('saved_configurations')
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .single();
+
+    if (error || !data) {
+      throw new SavedConfigurationError('Design not found', 404, { id });
+    }
+
+    return data;
+  }
+}
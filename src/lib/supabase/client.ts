@@ -58,6 +58,7 @@ export type Database = {
           login_count: number
           last_login_at: string | null
           has_seen_styles_onboarding: boolean
+          role: 'customer' | 'admin' | 'support' | 'fulfillment'
           created_at: string
           updated_at: string
         }
@@ -99,7 +100,9 @@ export type Database = {
           aspect_ratio: 'square' | 'tall' | 'wide'
           width: number
           height: number
-          model: '3.0-latest' | '3.0' | '2.1' | '1.5'
+          model: string
+          provider: string
+          generation_id: string | null
           status: 'pending' | 'generating' | 'completed' | 'failed'
           image_url: string | null
           thumbnail_url: string | null
@@ -117,7 +120,9 @@ export type Database = {
           aspect_ratio: 'square' | 'tall' | 'wide'
           width: number
           height: number
-          model: '3.0-latest' | '3.0' | '2.1' | '1.5'
+          model: string
+          provider?: string
+          generation_id?: string | null
           status?: 'pending' | 'generating' | 'completed' | 'failed'
           image_url?: string | null
           thumbnail_url?: string | null
@@ -135,7 +140,9 @@ export type Database = {
           aspect_ratio?: 'square' | 'tall' | 'wide'
           width?: number
           height?: number
-          model?: '3.0-latest' | '3.0' | '2.1' | '1.5'
+          model?: string
+          provider?: string
+          generation_id?: string | null
           status?: 'pending' | 'generating' | 'completed' | 'failed'
           image_url?: string | null
           thumbnail_url?: string | null
@@ -174,6 +181,10 @@ export type Database = {
           settings: Record<string, unknown>
           status: 'pending' | 'generating' | 'completed' | 'failed'
           result: Record<string, unknown>
+          provider: string
+          model: string | null
+          error: string | null
+          completed_at: string | null
           created_at: string
           updated_at: string
         }
@@ -184,6 +195,10 @@ export type Database = {
           settings: Record<string, unknown>
           status?: 'pending' | 'generating' | 'completed' | 'failed'
           result?: Record<string, unknown>
+          provider?: string
+          model?: string | null
+          error?: string | null
+          completed_at?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -194,6 +209,10 @@ export type Database = {
           settings?: Record<string, unknown>
           status?: 'pending' | 'generating' | 'completed' | 'failed'
           result?: Record<string, unknown>
+          provider?: string
+          model?: string | null
+          error?: string | null
+          completed_at?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -3,6 +3,10 @@ interface SaveImageParams {
   prompt: string;
   aspectRatio: string;
   model: string;
+  /** Image generation provider, e.g. "ideogram" */
+  provider?: string;
+  /** user_generations record the image came from */
+  generationId?: string;
   style?: string;
   color?: string;
   userId: string;
@@ -32,6 +36,8 @@ export async function saveGeneratedImageToSupabase(params: SaveImageParams) {
         prompt: params.prompt,
         aspectRatio: params.aspectRatio,
         model: params.model,
+        provider: params.provider,
+        generationId: params.generationId,
         style: params.style,
         color: params.color,
         userId: params.userId,
@@ -11,6 +11,20 @@ export function inchesToCm(inches: number): number {
   return Math.round(inches * 2.54 * 10) / 10; // Round to 1 decimal place
 }
 
+/**
+ * Parse a size string like "16x20" (or "16×20") into inches
+ * @returns null when the string isn't a WxH size
+ */
+export function parseSizeInches(sizeStr: string): { width: number; height: number } | null {
+  const [width, height] = sizeStr.replace(/[×\s]/g, 'x').toLowerCase().split('x').filter(Boolean).map(Number);
+
+  if (!width || !height) {
+    return null;
+  }
+
+  return { width, height };
+}
+
 /**
  * Format a size string like "16x20" to include cm
  * @param sizeStr - Size string in format "16x20" (inches)
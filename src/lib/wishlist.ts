@@ -0,0 +1,500 @@
+/**
+ * Wishlist
+ *
+ * Lets a user keep images (generated, uploaded or curated) for later, either
+ * on their own or with a studio FrameConfiguration. Items with a configuration
+ * can be moved to the cart in one click; the price is re-quoted at that point
+ * so the cart never shows a stale price.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { FrameConfiguration } from '@/store/studio';
+import type { CartItem } from '@/lib/checkout/types/cart.types';
+import type { CartService } from '@/lib/checkout/services/cart.service';
+import type { PricingService } from '@/lib/checkout/services/pricing.service';
+import { toConfigurationSnapshot, SavedConfigurationError } from '@/lib/studio/saved-configurations';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface WishlistItem {
+  id: string;
+  imageUrl: string;
+  imageId: string | null;
+  curatedImageId: string | null;
+  productId: string | null;
+  title: string | null;
+  frameConfig: FrameConfiguration | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AddWishlistItemInput {
+  imageUrl?: unknown;
+  imageId?: unknown;
+  curatedImageId?: unknown;
+  title?: unknown;
+  config?: unknown;
+}
+
+export interface MoveToCartResult {
+  cartItem: CartItem;
+  /** Unit price from the fresh quote (USD, like products.price) */
+  price: number;
+  /** USD price when the item was wishlisted, if known */
+  previousPrice: number | null;
+  priceChanged: boolean;
+}
+
+export class WishlistError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400,
+    public details?: any
+  ) {
+    super(message);
+    this.name = 'WishlistError';
+    Object.setPrototypeOf(this, WishlistError.prototype);
+  }
+}
+
+// Matches the frame_style enum on products
+const FRAME_STYLES = ['black', 'white', 'natural', 'gold', 'silver', 'brown', 'grey'];
+
+const PRODUCT_TYPE_NAMES: Record<FrameConfiguration['productType'], string> = {
+  'framed-print': 'Framed Print',
+  'canvas': 'Canvas',
+  'framed-canvas': 'Framed Canvas',
+  'acrylic': 'Acrylic Print',
+  'metal': 'Metal Print',
+  'poster': 'Poster',
+};
+
+const MAX_TITLE_LENGTH = 255;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function optionalId(value: unknown, field: string): string | null {
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value !== 'string') {
+    throw new WishlistError(`Invalid ${field}`);
+  }
+  return value;
+}
+
+function normalizeImageUrl(value: unknown): string {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new WishlistError('Image URL is required');
+  }
+  if (value.startsWith('data:')) {
+    throw new WishlistError('Inline image data cannot be saved; upload the image first');
+  }
+  return value.trim();
+}
+
+function normalizeTitle(value: unknown): string | null {
+  if (typeof value !== 'string' || !value.trim()) return null;
+  return value.trim().slice(0, MAX_TITLE_LENGTH);
+}
+
+function toWishlistSnapshot(config: unknown): FrameConfiguration | null {
+  if (config === undefined || config === null) return null;
+
+  try {
+    return toConfigurationSnapshot(config);
+  } catch (error) {
+    if (error instanceof SavedConfigurationError) {
+      throw new WishlistError(error.message, error.statusCode, error.details);
+    }
+    throw error;
+  }
+}
+
+function mapItem(row: any): WishlistItem {
+  return {
+    id: row.id,
+    imageUrl: row.image_url,
+    imageId: row.image_id ?? null,
+    curatedImageId: row.curated_image_id ?? null,
+    productId: row.product_id ?? null,
+    title: row.title ?? null,
+    frameConfig: (row.frame_config as FrameConfiguration | null) ?? null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Build the CartItem shape PricingService quotes from a wishlisted configuration
+ */
+export function configToCartItem(config: FrameConfiguration, imageUrl: string): CartItem {
+  if (!config.sku) {
+    throw new WishlistError('Choose a product and size in the studio before adding this design to your cart');
+  }
+
+  const style = normalizeFrameStyle(config.frameColor);
+
+  return {
+    id: 'wishlist',
+    productId: '',
+    sku: config.sku,
+    name: PRODUCT_TYPE_NAMES[config.productType] || 'Framed Print',
+    imageUrl,
+    quantity: 1,
+    price: snapshotUsdPrice(config) ?? 0, // Replaced by the quote
+    originalPrice: snapshotUsdPrice(config) ?? 0,
+    currency: 'USD',
+    frameConfig: {
+      size: config.size,
+      color: style,
+      style,
+      material: 'wood',
+      productType: config.productType,
+      mount: config.mount,
+      mountColor: config.mountColor,
+      glaze: config.glaze,
+      wrap: config.wrap,
+      paperType: config.paperType,
+      finish: config.finish,
+      edge: config.edge && config.edge !== 'auto' ? config.edge : undefined,
+    },
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+// The studio keeps the quote in Prodigi's currency next to the display price
+function snapshotUsdPrice(config: FrameConfiguration): number | null {
+  if (config.originalPrice !== undefined && (config.originalCurrency || 'USD').toUpperCase() === 'USD') {
+    return config.originalPrice;
+  }
+  return (config.currency || '').toUpperCase() === 'USD' ? config.price : null;
+}
+
+export function normalizeFrameStyle(frameColor: string | undefined): string {
+  const color = (frameColor || '').toLowerCase();
+  return FRAME_STYLES.includes(color) ? color : 'black';
+}
+
+// V2 sizing: "16x20" (inches) -> cm, with a little padding for the frame
+function frameDimensions(size: string) {
+  const [width, height] = size.split('x').map((part) => parseInt(part, 10));
+  const w = Number.isFinite(width) ? width : 16;
+  const h = Number.isFinite(height) ? height : 20;
+
+  return {
+    width: Math.round(w * 2.54 + 2),
+    height: Math.round(h * 2.54 + 2),
+    depth: w > 20 || h > 20 ? 3 : 2,
+  };
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+export class WishlistService {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * List a user's wishlist, most recent first
+   */
+  async list(userId: string): Promise<WishlistItem[]> {
+    const { data, error } = await this.supabase
+      .from('wishlist_items')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new WishlistError('Failed to fetch wishlist', 500, { message: error.message });
+    }
+
+    return (data || []).map(mapItem);
+  }
+
+  /**
+   * Add an image (optionally with a frame configuration) to the wishlist.
+   * Adding the same image again replaces its stored configuration.
+   */
+  async add(userId: string, input: AddWishlistItemInput): Promise<WishlistItem> {
+    const frameConfig = toWishlistSnapshot(input.config);
+    const imageUrl = normalizeImageUrl(input.imageUrl ?? frameConfig?.imageUrl);
+    const imageId = optionalId(input.imageId, 'image ID');
+
+    const row: Record<string, any> = {
+      user_id: userId,
+      image_url: imageUrl,
+      // Studio uploads carry a temporary upload ID, only keep IDs of images we own
+      image_id: imageId && (await this.ownsImage(userId, imageId)) ? imageId : null,
+      curated_image_id: optionalId(input.curatedImageId, 'curated image ID'),
+      title: normalizeTitle(input.title),
+      frame_config: frameConfig,
+    };
+
+    const { data, error } = await this.supabase
+      .from('wishlist_items')
+      .upsert(row, { onConflict: 'user_id,image_url' })
+      .select('*')
+      .single();
+
+    if (error || !data) {
+      throw new WishlistError('Failed to add to wishlist', 500, { message: error?.message });
+    }
+
+    return mapItem(data);
+  }
+
+  /**
+   * Add an existing shop product to the wishlist
+   */
+  async addProduct(userId: string, productId: string): Promise<WishlistItem> {
+    const { data: product, error: productError } = await this.supabase
+      .from('products')
+      .select('id, name, image_id, images (image_url)')
+      .eq('id', productId)
+      .eq('status', 'active')
+      .single();
+
+    if (productError || !product) {
+      throw new WishlistError('Product not found', 404, { productId });
+    }
+
+    const image = Array.isArray((product as any).images)
+      ? (product as any).images[0]
+      : (product as any).images;
+
+    const { data, error } = await this.supabase
+      .from('wishlist_items')
+      .upsert(
+        {
+          user_id: userId,
+          image_url: normalizeImageUrl(image?.image_url),
+          image_id: (product as any).image_id,
+          product_id: productId,
+          title: (product as any).name ?? null,
+        },
+        { onConflict: 'user_id,image_url' }
+      )
+      .select('*')
+      .single();
+
+    if (error || !data) {
+      throw new WishlistError('Failed to add to wishlist', 500, { message: error?.message });
+    }
+
+    return mapItem(data);
+  }
+
+  /**
+   * Remove an item by ID
+   */
+  async remove(userId: string, id: string): Promise<void> {
+    await this.getOwnedRow(userId, id);
+    await this.deleteWhere(userId, 'id', id);
+  }
+
+  /**
+   * Remove whatever is wishlisted for an image URL or shop product
+   */
+  async removeBy(userId: string, match: { imageUrl?: string; productId?: string }): Promise<void> {
+    if (match.productId) {
+      await this.deleteWhere(userId, 'product_id', match.productId);
+    } else if (match.imageUrl) {
+      await this.deleteWhere(userId, 'image_url', match.imageUrl);
+    } else {
+      throw new WishlistError('Item ID, image URL or product ID is required');
+    }
+  }
+
+  /**
+   * Move an item to the cart: re-quote the saved configuration, find or
+   * create the matching product, add it to the cart and drop the item.
+   */
+  async moveToCart(
+    userId: string,
+    id: string,
+    services: { cartService: CartService; pricingService: PricingService }
+  ): Promise<MoveToCartResult> {
+    const item = mapItem(await this.getOwnedRow(userId, id));
+    let productId = item.productId;
+    let previousPrice: number | null = null;
+
+    if (productId) {
+      const { data: product } = await this.supabase
+        .from('products')
+        .select('price')
+        .eq('id', productId)
+        .maybeSingle();
+      previousPrice = product ? Number((product as any).price) : null;
+    } else {
+      if (!item.frameConfig) {
+        throw new WishlistError('Choose a frame for this image in the studio before adding it to your cart', 400, {
+          reason: 'missing_configuration',
+        });
+      }
+
+      const quoteItem = configToCartItem(item.frameConfig, item.imageUrl);
+      previousPrice = snapshotUsdPrice(item.frameConfig);
+
+      let quote;
+      try {
+        quote = await services.pricingService.calculatePricing([quoteItem], 'US', 'Standard', 'USD');
+      } catch (error) {
+        throw new WishlistError('Failed to get current pricing for this design. Please try again.', 502, {
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+
+      const quotedPrice = Math.round((quote.itemPrices?.get(0) ?? quote.subtotal) * 100) / 100;
+      const imageId = await this.ensureImage(userId, item);
+      productId = await this.ensureProduct(imageId, item.frameConfig, quoteItem, quotedPrice);
+    }
+
+    // CartService re-validates the product and prices it for the cart
+    const cartItem = await services.cartService.addItem(userId, { productId, quantity: 1 });
+
+    await this.deleteWhere(userId, 'id', id);
+
+    return {
+      cartItem,
+      price: cartItem.price,
+      previousPrice,
+      priceChanged: previousPrice !== null && Math.abs(previousPrice - cartItem.price) >= 0.01,
+    };
+  }
+
+  private async ownsImage(userId: string, imageId: string): Promise<boolean> {
+    const { data } = await this.supabase
+      .from('images')
+      .select('id')
+      .eq('id', imageId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    return !!data;
+  }
+
+  /**
+   * Products reference a row in images owned by the buyer. Curated images and
+   * studio uploads don't have one yet, so register the stored image URL.
+   */
+  private async ensureImage(userId: string, item: WishlistItem): Promise<string> {
+    if (item.imageId) {
+      return item.imageId;
+    }
+
+    const { data, error } = await this.supabase
+      .from('images')
+      .insert({
+        user_id: userId,
+        prompt: item.title || 'Wishlist image',
+        image_url: item.imageUrl,
+        thumbnail_url: item.imageUrl,
+        model: item.curatedImageId ? 'curated' : 'studio',
+        status: 'completed',
+        is_public: false,
+      })
+      .select('id')
+      .single();
+
+    if (error || !data) {
+      throw new WishlistError('Failed to prepare image for the cart', 500, { message: error?.message });
+    }
+
+    const imageId = (data as any).id as string;
+    await this.supabase
+      .from('wishlist_items')
+      .update({ image_id: imageId })
+      .eq('id', item.id)
+      .eq('user_id', userId);
+
+    return imageId;
+  }
+
+  private async ensureProduct(
+    imageId: string,
+    config: FrameConfiguration,
+    quoteItem: CartItem,
+    price: number
+  ): Promise<string> {
+    const sku = `${quoteItem.sku}-${imageId.substring(0, 8)}`;
+
+    const { data: existing } = await this.supabase
+      .from('products')
+      .select('id')
+      .eq('sku', sku)
+      .maybeSingle();
+
+    if (existing) {
+      const existingId = (existing as any).id as string;
+      await this.supabase
+        .from('products')
+        .update({ price, status: 'active' })
+        .eq('id', existingId);
+      return existingId;
+    }
+
+    const metadata: Record<string, any> = { productType: config.productType };
+    for (const key of ['wrap', 'glaze', 'mount', 'mountColor', 'paperType', 'finish'] as const) {
+      if (config[key]) metadata[key] = config[key];
+    }
+    if (config.edge && config.edge !== 'auto') metadata.edge = config.edge;
+    if (config.canvasType && config.canvasType !== 'auto') metadata.canvasType = config.canvasType;
+
+    const { data: product, error } = await this.supabase
+      .from('products')
+      .insert({
+        image_id: imageId,
+        frame_size: config.size,
+        frame_style: quoteItem.frameConfig.style,
+        frame_material: quoteItem.frameConfig.material,
+        price,
+        cost: Math.round(price * 0.4 * 100) / 100, // Same default margin as /api/products
+        dimensions_cm: frameDimensions(config.size),
+        sku,
+        name: quoteItem.name,
+        product_type: config.productType,
+        metadata,
+        status: 'active',
+      })
+      .select('id')
+      .single();
+
+    if (error || !product) {
+      throw new WishlistError('Failed to create product for this design', 500, { message: error?.message });
+    }
+
+    return (product as any).id as string;
+  }
+
+  private async deleteWhere(userId: string, column: string, value: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('wishlist_items')
+      .delete()
+      .eq('user_id', userId)
+      .eq(column, value);
+
+    if (error) {
+      throw new WishlistError('Failed to remove from wishlist', 500, { message: error.message });
+    }
+  }
+
+  private async getOwnedRow(userId: string, id: string): Promise<any> {
+    const { data, error } = await this.supabase
+      .from('wishlist_items')
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .single();
+
+    if (error || !data) {
+      throw new WishlistError('Wishlist item not found', 404, { id });
+    }
+
+    return data;
+  }
+}
@@ -6,6 +6,10 @@
 
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import type { SavedConfiguration } from '@/lib/studio/saved-configurations';
+import type { SizingOption } from '@/lib/prodigi-v2/types';
+import type { ArrivalWindow } from '@/lib/prodigi-v2/delivery-estimator';
+import { DEFAULT_ARTWORK_CROP, DEFAULT_PRINT_SIZING, type ArtworkCrop } from '@/lib/print-crop';
 
 // ============================================================================
 // TYPES
@@ -56,6 +60,10 @@ export interface FrameConfiguration {
   // Aspect Ratio (editable option that filters sizes)
   aspectRatio?: 'Portrait' | 'Landscape' | 'Square';
   
+  // Image placement on the print: fill (cropped around crop's focal point), fit or stretch
+  printSizing?: SizingOption;
+  crop?: ArtworkCrop;
+  
   // Paper
   paperType: string;
   finish: string;
@@ -226,14 +234,22 @@ interface StudioStore {
       max: number;
       formatted: string;
       note?: string;
+      arrivesBy?: ArrivalWindow;
     };
     productionCountry: string;
   }>;
   
+  // Item price per size for the size picker (pre-warmed, shipping not included)
+  sizePrices: Record<string, { amount: number; currency: string }>;
+  sizePricesKey: string | null;
+  
   // Chat State
   conversationId: string | null;
   configurationChanges: ConfigurationChangeData[];
   
+  // Saved design currently open in the studio (if any)
+  activeSavedConfigurationId: string | null;
+  
   // Actions
   addConfigurationChange: (change: ConfigurationChangeData) => void;
   getConfigurationChanges: () => ConfigurationChangeData[];
@@ -275,12 +291,14 @@ interface StudioStore {
   
   // Pricing
   updatePricingAsync: () => Promise<void>;
+  prewarmSizePricesAsync: () => Promise<void>;
   
-  setConversationId: (id: string) => void;
+  setConversationId: (id: string | null) => void;
   
   // Persistence
-  saveConfiguration: (name: string) => Promise<void>;
-  loadConfiguration: (id: string) => Promise<void>;
+  saveConfiguration: (name: string, options?: { asNew?: boolean }) => Promise<SavedConfiguration>;
+  loadConfiguration: (id: string, version?: number) => Promise<void>;
+  clearActiveSavedConfiguration: () => void;
 }
 
 // ============================================================================
@@ -304,6 +322,8 @@ const getDefaultConfig = (): FrameConfiguration => ({
   canvasType: 'auto', // Auto-select canvas type (standard/slim/eco)
   size: '16x20',
   aspectRatio: 'Landscape', // Default aspect ratio
+  printSizing: DEFAULT_PRINT_SIZING,
+  crop: DEFAULT_ARTWORK_CROP,
   paperType: 'enhanced-matte',
   finish: 'matte',
   price: 0,
@@ -337,8 +357,11 @@ export const useStudioStore = create<StudioStore>()(
       isAnalyzing: false,
       isGeneratingImage: false,
       isPricingLoading: false,
+      sizePrices: {},
+      sizePricesKey: null,
       conversationId: null,
       configurationChanges: [],
+      activeSavedConfigurationId: null,
       
       // Update configuration
       updateConfig: (updates) => {
@@ -392,6 +415,7 @@ export const useStudioStore = create<StudioStore>()(
           history: [defaultConfig],
           currentHistoryIndex: 0,
           suggestions: [],
+          activeSavedConfigurationId: null,
         });
       },
       
@@ -407,13 +431,20 @@ export const useStudioStore = create<StudioStore>()(
       },
       
       setImage: (url, id) => {
-        set((state) => ({
-          config: {
-            ...state.config,
-            imageUrl: url,
-            imageId: id,
-          },
-        }));
+        set((state) => {
+          const sameImage = url === state.config.imageUrl;
+          return {
+            config: {
+              ...state.config,
+              imageUrl: url,
+              imageId: id,
+              // A crop is specific to the image it was made on
+              crop: sameImage ? state.config.crop : DEFAULT_ARTWORK_CROP,
+            },
+            // A new image starts a new design rather than a version of the open one
+            activeSavedConfigurationId: sameImage ? state.activeSavedConfigurationId : null,
+          };
+        });
       },
       
       // Facets and Available Options
@@ -845,7 +876,10 @@ export const useStudioStore = create<StudioStore>()(
       
       // Pricing
       updatePricingAsync: async () => {
-        const { config, setPricingLoading, availableOptions } = get();
+        const { config, setPricingLoading, availableOptions, prewarmSizePricesAsync } = get();
+        
+        // Refresh size picker prices in the background (no-op unless non-size options changed)
+        prewarmSizePricesAsync();
         
         // Validate configuration before making API call
         if (availableOptions) {
@@ -1015,51 +1049,133 @@ export const useStudioStore = create<StudioStore>()(
         updatePricingAsync(newConfig);
       },
       
+      prewarmSizePricesAsync: async () => {
+        const { config, sizePricesKey } = get();
+        if (!config.productType) return;
+
+        const country = config.destinationCountry || 'US';
+        // Everything that affects the item price except the size itself
+        const key = JSON.stringify([
+          config.productType,
+          country,
+          config.frameColor,
+          config.frameStyle,
+          config.glaze,
+          config.mount,
+          config.mountColor,
+          config.wrap,
+          config.edge,
+          config.paperType,
+          config.finish,
+        ]);
+        if (key === sizePricesKey) return;
+
+        set({ sizePricesKey: key, sizePrices: {} });
+
+        try {
+          const response = await fetch('/api/studio/pricing/sizes', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ config, country }),
+          });
+          if (!response.ok) {
+            throw new Error(`Size pricing failed: ${response.status}`);
+          }
+
+          const data = await response.json();
+          // Ignore responses for options the user has already moved away from
+          if (get().sizePricesKey !== key) return;
+
+          const sizePrices: Record<string, { amount: number; currency: string }> = {};
+          Object.entries(data.prices || {}).forEach(([size, price]: [string, any]) => {
+            sizePrices[size] = { amount: price.amount, currency: price.currency };
+          });
+          set({ sizePrices });
+        } catch (error) {
+          console.warn('[Pricing] Could not pre-warm size prices:', error);
+          if (get().sizePricesKey === key) {
+            set({ sizePricesKey: null });
+          }
+        }
+      },
+      
       // Chat
       setConversationId: (id) => set({ conversationId: id }),
       
       // Persistence
-      saveConfiguration: async (name) => {
-        const { config } = get();
+      saveConfiguration: async (name, options = {}) => {
+        const { config, activeSavedConfigurationId } = get();
+        // Saving an open design adds a new version; otherwise create a new design
+        const existingId = options.asNew ? null : activeSavedConfigurationId;
         
         try {
-          const response = await fetch('/api/studio/configurations', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ name, config }),
-          });
+          const headers = {
+            'Content-Type': 'application/json',
+            ...(await getAuthHeaders()),
+          };
+          const save = (id: string | null) => fetch(
+            id ? `/api/studio/configurations/${id}` : '/api/studio/configurations',
+            {
+              method: id ? 'PATCH' : 'POST',
+              headers,
+              body: JSON.stringify({ name, config }),
+            }
+          );
+          
+          let response = await save(existingId);
+          // The open design was deleted or belongs to another account; save a new one
+          if (existingId && response.status === 404) {
+            response = await save(null);
+          }
           
           if (!response.ok) {
-            throw new Error('Failed to save configuration');
+            const errorData = await response.json().catch(() => ({}));
+            throw new Error(errorData.error || 'Failed to save configuration');
           }
           
-          return response.json();
+          const { configuration } = await response.json();
+          set({ activeSavedConfigurationId: configuration.id });
+          return configuration as SavedConfiguration;
         } catch (error) {
           console.error('Error saving configuration:', error);
           throw error;
         }
       },
       
-      loadConfiguration: async (id) => {
+      loadConfiguration: async (id, version) => {
         try {
-          const response = await fetch(`/api/studio/configurations/${id}`);
+          const response = await fetch(
+            `/api/studio/configurations/${id}${version ? `?version=${version}` : ''}`,
+            { headers: await getAuthHeaders() }
+          );
           
           if (!response.ok) {
-            throw new Error('Failed to load configuration');
+            const errorData = await response.json().catch(() => ({}));
+            throw new Error(errorData.error || 'Failed to load configuration');
           }
           
           const { config } = await response.json();
           
+          // Restore the snapshot as-is (no facet auto-correction) so the design
+          // reopens exactly as it was saved
           set({
             config,
             history: [config],
             currentHistoryIndex: 0,
+            suggestions: [],
+            pendingSuggestions: [],
+            activeSavedConfigurationId: id,
           });
+          
+          // Refresh pricing for the restored configuration
+          updatePricingAsync(config);
         } catch (error) {
           console.error('Error loading configuration:', error);
           throw error;
         }
       },
+      
+      clearActiveSavedConfiguration: () => set({ activeSavedConfigurationId: null }),
     }),
     {
       name: 'studio-storage',
@@ -1069,6 +1185,7 @@ export const useStudioStore = create<StudioStore>()(
         currentHistoryIndex: Math.min(state.currentHistoryIndex, 9),
         rooms: state.rooms,
         conversationId: state.conversationId,
+        activeSavedConfigurationId: state.activeSavedConfigurationId,
       }),
     }
   )
@@ -1078,6 +1195,20 @@ export const useStudioStore = create<StudioStore>()(
 // BACKGROUND TASKS
 // ============================================================================
 
+/**
+ * Build the Authorization header for authenticated studio APIs
+ */
+async function getAuthHeaders(): Promise<Record<string, string>> {
+  try {
+    const { supabase } = await import('@/lib/supabase/client');
+    const { data: { session } } = await supabase.auth.getSession();
+    return session?.access_token ? { Authorization: `Bearer ${session.access_token}` } : {};
+  } catch (error) {
+    console.error('Error getting auth session:', error);
+    return {};
+  }
+}
+
 /**
  * Update pricing in the background (debounced)
  * Wrapper function for backward compatibility
@@ -0,0 +1,92 @@
+-- Migration: Saved studio configurations ("My saved designs")
+-- Backs the studio store's saveConfiguration/loadConfiguration actions.
+-- Each saved design keeps every FrameConfiguration snapshot as an immutable version
+-- so a design can be reopened exactly as it was saved.
+
+-- ============================================================================
+-- 1. saved_configurations (one row per design)
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.saved_configurations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  name VARCHAR(255) NOT NULL,
+  current_version INTEGER NOT NULL DEFAULT 1,
+  -- Denormalized from the current version for cheap listing
+  image_url TEXT,
+  product_type VARCHAR(50),
+  sku VARCHAR(100),
+  size VARCHAR(50),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+COMMENT ON TABLE public.saved_configurations IS 'Studio designs saved by users; the full snapshot lives in saved_configuration_versions';
+
+-- ============================================================================
+-- 2. saved_configuration_versions (immutable FrameConfiguration snapshots)
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.saved_configuration_versions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  configuration_id UUID REFERENCES public.saved_configurations(id) ON DELETE CASCADE NOT NULL,
+  version INTEGER NOT NULL,
+  config JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(configuration_id, version)
+);
+
+COMMENT ON COLUMN public.saved_configuration_versions.config IS 'FrameConfiguration snapshot (image, productType, sku, mount, glaze, size, ...)';
+
+-- ============================================================================
+-- 3. Indexes
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_saved_configurations_user_id ON public.saved_configurations(user_id);
+CREATE INDEX IF NOT EXISTS idx_saved_configurations_updated_at ON public.saved_configurations(updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_saved_configuration_versions_configuration_id ON public.saved_configuration_versions(configuration_id);
+
+-- ============================================================================
+-- 4. updated_at trigger
+-- ============================================================================
+
+DROP TRIGGER IF EXISTS handle_saved_configurations_updated_at ON public.saved_configurations;
+CREATE TRIGGER handle_saved_configurations_updated_at
+  BEFORE UPDATE ON public.saved_configurations
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- ============================================================================
+-- 5. RLS - designs are private to their owner
+-- ============================================================================
+
+ALTER TABLE public.saved_configurations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.saved_configuration_versions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own saved configurations" ON public.saved_configurations;
+CREATE POLICY "Users can manage own saved configurations" ON public.saved_configurations
+  FOR ALL USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can view own configuration versions" ON public.saved_configuration_versions;
+CREATE POLICY "Users can view own configuration versions" ON public.saved_configuration_versions
+  FOR SELECT USING (
+    configuration_id IN (
+      SELECT id FROM public.saved_configurations WHERE user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can add versions to own configurations" ON public.saved_configuration_versions;
+CREATE POLICY "Users can add versions to own configurations" ON public.saved_configuration_versions
+  FOR INSERT WITH CHECK (
+    configuration_id IN (
+      SELECT id FROM public.saved_configurations WHERE user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Service role can manage saved configurations" ON public.saved_configurations;
+CREATE POLICY "Service role can manage saved configurations" ON public.saved_configurations
+  FOR ALL USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Service role can manage configuration versions" ON public.saved_configuration_versions;
+CREATE POLICY "Service role can manage configuration versions" ON public.saved_configuration_versions
+  FOR ALL USING (auth.role() = 'service_role');
@@ -0,0 +1,141 @@
+-- Migration: Promo codes for the V2 checkout
+-- Codes are validated in CartService.getCart and mapped to a one-off Stripe
+-- coupon at session creation so the charged amount matches the quoted one.
+-- Redemptions are recorded by the Stripe webhook once payment completes.
+
+-- ============================================================================
+-- 1. promo_codes
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.promo_codes (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  code VARCHAR(50) NOT NULL,
+  description TEXT,
+  discount_type VARCHAR(20) NOT NULL CHECK (discount_type IN ('percentage', 'fixed', 'free_shipping')),
+  -- Percent (0-100) for percentage codes, amount in `currency` for fixed codes, unused for free shipping
+  discount_value DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (discount_value >= 0),
+  currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+  -- Minimum eligible subtotal (in `currency`) before the code applies
+  min_order_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+  -- NULL/empty = every product type; otherwise e.g. {canvas}
+  eligible_product_types TEXT[],
+  max_uses INTEGER CHECK (max_uses IS NULL OR max_uses > 0),
+  max_uses_per_user INTEGER CHECK (max_uses_per_user IS NULL OR max_uses_per_user > 0),
+  times_used INTEGER NOT NULL DEFAULT 0,
+  starts_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT promo_codes_percentage_range CHECK (discount_type <> 'percentage' OR discount_value <= 100)
+);
+
+-- Codes are case-insensitive
+CREATE UNIQUE INDEX IF NOT EXISTS idx_promo_codes_code_upper ON public.promo_codes(UPPER(code));
+
+COMMENT ON TABLE public.promo_codes IS 'Marketing promo codes (percentage, fixed amount, free shipping) for the V2 checkout';
+
+-- ============================================================================
+-- 2. promo_code_redemptions
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.promo_code_redemptions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  promo_code_id UUID REFERENCES public.promo_codes(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+  stripe_session_id VARCHAR(255) UNIQUE,
+  discount_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+  currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_promo_code_redemptions_code_user
+  ON public.promo_code_redemptions(promo_code_id, user_id);
+
+-- ============================================================================
+-- 3. updated_at trigger
+-- ============================================================================
+
+DROP TRIGGER IF EXISTS handle_promo_codes_updated_at ON public.promo_codes;
+CREATE TRIGGER handle_promo_codes_updated_at
+  BEFORE UPDATE ON public.promo_codes
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- ============================================================================
+-- 4. Atomic redemption
+-- Increments times_used only while the code is still under its usage limits.
+-- Idempotent per Stripe session so webhook retries don't double count.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION redeem_promo_code(
+  p_promo_code_id UUID,
+  p_user_id UUID,
+  p_order_id UUID,
+  p_stripe_session_id VARCHAR,
+  p_discount_amount DECIMAL,
+  p_currency VARCHAR
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_code public.promo_codes%ROWTYPE;
+  v_user_uses INTEGER;
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.promo_code_redemptions WHERE stripe_session_id = p_stripe_session_id
+  ) THEN
+    RETURN TRUE;
+  END IF;
+
+  SELECT * INTO v_code FROM public.promo_codes WHERE id = p_promo_code_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  IF v_code.max_uses IS NOT NULL AND v_code.times_used >= v_code.max_uses THEN
+    RETURN FALSE;
+  END IF;
+
+  IF v_code.max_uses_per_user IS NOT NULL THEN
+    SELECT COUNT(*) INTO v_user_uses
+    FROM public.promo_code_redemptions
+    WHERE promo_code_id = p_promo_code_id AND user_id = p_user_id;
+
+    IF v_user_uses >= v_code.max_uses_per_user THEN
+      RETURN FALSE;
+    END IF;
+  END IF;
+
+  UPDATE public.promo_codes SET times_used = times_used + 1 WHERE id = p_promo_code_id;
+
+  INSERT INTO public.promo_code_redemptions (
+    promo_code_id, user_id, order_id, stripe_session_id, discount_amount, currency
+  ) VALUES (
+    p_promo_code_id, p_user_id, p_order_id, p_stripe_session_id, p_discount_amount, p_currency
+  );
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 5. RLS - codes are looked up server-side; users can see their own redemptions
+-- ============================================================================
+
+ALTER TABLE public.promo_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.promo_code_redemptions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role can manage promo codes" ON public.promo_codes;
+CREATE POLICY "Service role can manage promo codes" ON public.promo_codes
+  FOR ALL USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Users can view own promo code redemptions" ON public.promo_code_redemptions;
+CREATE POLICY "Users can view own promo code redemptions" ON public.promo_code_redemptions
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Service role can manage promo code redemptions" ON public.promo_code_redemptions;
+CREATE POLICY "Service role can manage promo code redemptions" ON public.promo_code_redemptions
+  FOR ALL USING (auth.role() = 'service_role');
+
+REVOKE EXECUTE ON FUNCTION redeem_promo_code(UUID, UUID, UUID, VARCHAR, DECIMAL, VARCHAR) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION redeem_promo_code(UUID, UUID, UUID, VARCHAR, DECIMAL, VARCHAR) TO service_role;
@@ -0,0 +1,61 @@
+-- Migration: Recreate wishlist_items (dropped in 20250131000001)
+-- A wishlist item is an image (generated, uploaded or curated) plus an
+-- optional studio FrameConfiguration snapshot. Items with a configuration can
+-- be moved to the cart in one click; the price is re-quoted at that point.
+
+-- ============================================================================
+-- 1. wishlist_items
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.wishlist_items (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  image_url TEXT NOT NULL,
+  -- Source of the image (at most one is set; all NULL for studio uploads)
+  image_id UUID REFERENCES public.images(id) ON DELETE SET NULL,
+  curated_image_id UUID REFERENCES public.curated_images(id) ON DELETE SET NULL,
+  -- Set when an existing product was wishlisted from the shop
+  product_id UUID REFERENCES public.products(id) ON DELETE SET NULL,
+  title TEXT,
+  -- FrameConfiguration snapshot from the studio (NULL = image only)
+  frame_config JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(user_id, image_url)
+);
+
+CREATE INDEX IF NOT EXISTS idx_wishlist_items_user_created
+  ON public.wishlist_items(user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_wishlist_items_product_id
+  ON public.wishlist_items(product_id)
+  WHERE product_id IS NOT NULL;
+
+COMMENT ON TABLE public.wishlist_items IS 'Images (optionally with a saved frame configuration) a user wants to order later';
+
+-- ============================================================================
+-- 2. updated_at trigger
+-- ============================================================================
+
+DROP TRIGGER IF EXISTS handle_wishlist_items_updated_at ON public.wishlist_items;
+CREATE TRIGGER handle_wishlist_items_updated_at
+  BEFORE UPDATE ON public.wishlist_items
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- ============================================================================
+-- 3. RLS
+-- ============================================================================
+
+ALTER TABLE public.wishlist_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own wishlist" ON public.wishlist_items;
+CREATE POLICY "Users can view own wishlist" ON public.wishlist_items
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can manage own wishlist" ON public.wishlist_items;
+CREATE POLICY "Users can manage own wishlist" ON public.wishlist_items
+  FOR ALL USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Service role can manage wishlist items" ON public.wishlist_items;
+CREATE POLICY "Service role can manage wishlist items" ON public.wishlist_items
+  FOR ALL USING (auth.role() = 'service_role');
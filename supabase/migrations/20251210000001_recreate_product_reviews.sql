@@ -0,0 +1,94 @@
+-- Migration: Recreate product_reviews (dropped in 20250131000001)
+-- Verified-purchase reviews: a review is tied to a delivered order item of
+-- the reviewer. Product type and frame style are copied from the product so
+-- ratings can be aggregated across the per-image products that share them.
+
+-- ============================================================================
+-- 1. product_reviews
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.product_reviews (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  product_id UUID REFERENCES public.products(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  order_id UUID REFERENCES public.orders(id) ON DELETE CASCADE NOT NULL,
+  order_item_id UUID REFERENCES public.order_items(id) ON DELETE SET NULL,
+  product_type VARCHAR(50) NOT NULL DEFAULT 'framed-print',
+  frame_style VARCHAR(50),
+  rating INTEGER NOT NULL CHECK (rating >= 1 AND rating <= 5),
+  title VARCHAR(255),
+  comment TEXT,
+  -- Public URLs of photos uploaded to the images bucket ({user_id}/reviews/...)
+  images TEXT[] NOT NULL DEFAULT '{}',
+  is_verified_purchase BOOLEAN NOT NULL DEFAULT true,
+  -- Moderation: reviews publish immediately; reports flag them for an admin
+  is_approved BOOLEAN NOT NULL DEFAULT true,
+  is_flagged BOOLEAN NOT NULL DEFAULT false,
+  flag_reason TEXT,
+  flagged_at TIMESTAMP WITH TIME ZONE,
+  moderated_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  moderated_at TIMESTAMP WITH TIME ZONE,
+  moderation_note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(user_id, product_id, order_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_reviews_product_id ON public.product_reviews(product_id);
+CREATE INDEX IF NOT EXISTS idx_product_reviews_user_id ON public.product_reviews(user_id);
+CREATE INDEX IF NOT EXISTS idx_product_reviews_type_style
+  ON public.product_reviews(product_type, frame_style)
+  WHERE is_approved = true;
+CREATE INDEX IF NOT EXISTS idx_product_reviews_flagged
+  ON public.product_reviews(flagged_at DESC)
+  WHERE is_flagged = true;
+
+COMMENT ON TABLE public.product_reviews IS 'Verified-purchase product reviews with admin moderation';
+
+-- ============================================================================
+-- 2. updated_at trigger
+-- ============================================================================
+
+DROP TRIGGER IF EXISTS handle_product_reviews_updated_at ON public.product_reviews;
+CREATE TRIGGER handle_product_reviews_updated_at
+  BEFORE UPDATE ON public.product_reviews
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- ============================================================================
+-- 3. Rating summaries per product type and frame style (approved reviews only)
+-- ============================================================================
+
+CREATE OR REPLACE VIEW public.product_rating_summaries AS
+SELECT
+  product_type,
+  frame_style,
+  COUNT(*)::INTEGER AS review_count,
+  ROUND(AVG(rating)::NUMERIC, 2) AS average_rating,
+  COUNT(*) FILTER (WHERE rating = 1)::INTEGER AS rating_1,
+  COUNT(*) FILTER (WHERE rating = 2)::INTEGER AS rating_2,
+  COUNT(*) FILTER (WHERE rating = 3)::INTEGER AS rating_3,
+  COUNT(*) FILTER (WHERE rating = 4)::INTEGER AS rating_4,
+  COUNT(*) FILTER (WHERE rating = 5)::INTEGER AS rating_5
+FROM public.product_reviews
+WHERE is_approved = true
+GROUP BY product_type, frame_style;
+
+COMMENT ON VIEW public.product_rating_summaries IS 'Approved review counts and average rating per product type and frame style';
+
+-- ============================================================================
+-- 4. RLS - reviews are written through the API, which verifies the purchase
+-- ============================================================================
+
+ALTER TABLE public.product_reviews ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Product reviews are viewable by everyone" ON public.product_reviews;
+CREATE POLICY "Product reviews are viewable by everyone" ON public.product_reviews
+  FOR SELECT USING (is_approved = true);
+
+DROP POLICY IF EXISTS "Users can view own reviews" ON public.product_reviews;
+CREATE POLICY "Users can view own reviews" ON public.product_reviews
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Service role can manage product reviews" ON public.product_reviews;
+CREATE POLICY "Service role can manage product reviews" ON public.product_reviews
+  FOR ALL USING (auth.role() = 'service_role');
@@ -0,0 +1,115 @@
+-- Migration: Shared Prodigi API cache and rate limit
+-- Used by ProdigiClient when PRODIGI_CACHE_BACKEND=postgres so every
+-- serverless instance shares cached product/quote data and the Prodigi
+-- request budget (30 requests per 30 seconds per API key).
+
+-- ============================================================================
+-- 1. prodigi_api_cache
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.prodigi_api_cache (
+  cache_key TEXT PRIMARY KEY,
+  value JSONB NOT NULL,
+  -- Served without revalidation until fresh_until, then served stale while
+  -- one request refreshes it, until stale_until
+  fresh_until TIMESTAMP WITH TIME ZONE NOT NULL,
+  stale_until TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_prodigi_api_cache_stale_until
+  ON public.prodigi_api_cache(stale_until);
+
+COMMENT ON TABLE public.prodigi_api_cache IS 'Prodigi API responses shared between server instances';
+
+DROP TRIGGER IF EXISTS handle_prodigi_api_cache_updated_at ON public.prodigi_api_cache;
+CREATE TRIGGER handle_prodigi_api_cache_updated_at
+  BEFORE UPDATE ON public.prodigi_api_cache
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- Remove entries that can no longer be served
+CREATE OR REPLACE FUNCTION public.cleanup_prodigi_api_cache()
+RETURNS INTEGER AS $$
+DECLARE
+  deleted_count INTEGER;
+BEGIN
+  DELETE FROM public.prodigi_api_cache WHERE stale_until < NOW();
+  GET DIAGNOSTICS deleted_count = ROW_COUNT;
+  RETURN deleted_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 2. prodigi_rate_limits (fixed window per bucket)
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.prodigi_rate_limits (
+  bucket TEXT PRIMARY KEY,
+  window_start TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  request_count INTEGER NOT NULL DEFAULT 0
+);
+
+COMMENT ON TABLE public.prodigi_rate_limits IS 'Shared Prodigi request budget per API key / environment';
+
+-- Take one request from the bucket. Returns 0 when the request may be sent,
+-- otherwise the milliseconds until the current window ends.
+CREATE OR REPLACE FUNCTION public.consume_prodigi_rate_limit(
+  p_bucket TEXT,
+  p_limit INTEGER,
+  p_window_seconds INTEGER
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_now TIMESTAMP WITH TIME ZONE := clock_timestamp();
+  v_window_start TIMESTAMP WITH TIME ZONE;
+  v_count INTEGER;
+  v_window_end TIMESTAMP WITH TIME ZONE;
+BEGIN
+  INSERT INTO public.prodigi_rate_limits (bucket, window_start, request_count)
+  VALUES (p_bucket, v_now, 0)
+  ON CONFLICT (bucket) DO NOTHING;
+
+  -- Row lock serialises concurrent instances on the same bucket
+  SELECT window_start, request_count INTO v_window_start, v_count
+  FROM public.prodigi_rate_limits
+  WHERE bucket = p_bucket
+  FOR UPDATE;
+
+  v_window_end := v_window_start + make_interval(secs => p_window_seconds);
+
+  IF v_now >= v_window_end THEN
+    UPDATE public.prodigi_rate_limits
+    SET window_start = v_now, request_count = 1
+    WHERE bucket = p_bucket;
+    RETURN 0;
+  END IF;
+
+  IF v_count < p_limit THEN
+    UPDATE public.prodigi_rate_limits
+    SET request_count = request_count + 1
+    WHERE bucket = p_bucket;
+    RETURN 0;
+  END IF;
+
+  RETURN GREATEST(CEIL(EXTRACT(EPOCH FROM (v_window_end - v_now)) * 1000)::INTEGER, 1);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 3. RLS - server-side only
+-- ============================================================================
+
+ALTER TABLE public.prodigi_api_cache ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.prodigi_rate_limits ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role can manage prodigi api cache" ON public.prodigi_api_cache;
+CREATE POLICY "Service role can manage prodigi api cache" ON public.prodigi_api_cache
+  FOR ALL USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Service role can manage prodigi rate limits" ON public.prodigi_rate_limits;
+CREATE POLICY "Service role can manage prodigi rate limits" ON public.prodigi_rate_limits
+  FOR ALL USING (auth.role() = 'service_role');
+
+REVOKE EXECUTE ON FUNCTION public.consume_prodigi_rate_limit(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.cleanup_prodigi_api_cache() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,71 @@
+-- Migration: Locked exchange rates for the V2 checkout
+-- ExchangeRateService persists the rate a customer's cart was priced with;
+-- the Stripe session charges at that rate and the webhook copies it onto the
+-- order, so displayed, charged and reported amounts all use one rate.
+
+-- ============================================================================
+-- 1. exchange_rate_snapshots
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.exchange_rate_snapshots (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  -- 1 base_currency (the Prodigi quote currency) = rate quote_currency
+  base_currency VARCHAR(3) NOT NULL,
+  quote_currency VARCHAR(3) NOT NULL,
+  rate DECIMAL(20,10) NOT NULL CHECK (rate > 0),
+  source VARCHAR(20) NOT NULL DEFAULT 'live' CHECK (source IN ('live', 'fallback', 'identity')),
+  rates_fetched_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  -- Set once the rate priced a Stripe session; the snapshot is then no longer reused
+  stripe_session_id VARCHAR(255) UNIQUE,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_exchange_rate_snapshots_user_pair
+  ON public.exchange_rate_snapshots(user_id, base_currency, quote_currency, expires_at DESC)
+  WHERE stripe_session_id IS NULL;
+
+COMMENT ON TABLE public.exchange_rate_snapshots IS 'Exchange rates locked per customer and checkout session';
+
+DROP TRIGGER IF EXISTS handle_exchange_rate_snapshots_updated_at ON public.exchange_rate_snapshots;
+CREATE TRIGGER handle_exchange_rate_snapshots_updated_at
+  BEFORE UPDATE ON public.exchange_rate_snapshots
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- ============================================================================
+-- 2. Locked rate on orders
+-- ============================================================================
+
+-- Amounts on the order (subtotal, total_amount, ...) are in `currency`;
+-- base_total_amount is the same total in base_currency before conversion
+ALTER TABLE public.orders ADD COLUMN IF NOT EXISTS exchange_rate DECIMAL(20,10) NOT NULL DEFAULT 1;
+ALTER TABLE public.orders ADD COLUMN IF NOT EXISTS base_currency VARCHAR(3);
+ALTER TABLE public.orders ADD COLUMN IF NOT EXISTS base_total_amount DECIMAL(10,2);
+ALTER TABLE public.orders ADD COLUMN IF NOT EXISTS exchange_rate_snapshot_id UUID
+  REFERENCES public.exchange_rate_snapshots(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_orders_exchange_rate_snapshot_id
+  ON public.orders(exchange_rate_snapshot_id);
+
+-- Backfill orders that only kept the rate in metadata
+UPDATE public.orders
+SET exchange_rate = (metadata->>'exchangeRate')::DECIMAL
+WHERE metadata ? 'exchangeRate'
+  AND (metadata->>'exchangeRate') ~ '^[0-9]+(\.[0-9]+)?$'
+  AND (metadata->>'exchangeRate')::DECIMAL > 0;
+
+-- ============================================================================
+-- 3. RLS
+-- ============================================================================
+
+ALTER TABLE public.exchange_rate_snapshots ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own exchange rate snapshots" ON public.exchange_rate_snapshots;
+CREATE POLICY "Users can view their own exchange rate snapshots" ON public.exchange_rate_snapshots
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Service role can manage exchange rate snapshots" ON public.exchange_rate_snapshots;
+CREATE POLICY "Service role can manage exchange rate snapshots" ON public.exchange_rate_snapshots
+  FOR ALL USING (auth.role() = 'service_role');
@@ -0,0 +1,47 @@
+-- Migration: Admin console for retry operations
+-- Adds an error code to group failures by cause (set by OrderRetryManager),
+-- and a 'resolved' status for operations an admin dealt with by hand.
+-- Admin actions are written to order_logs.
+
+-- ============================================================================
+-- 1. retry_operations columns
+-- ============================================================================
+
+ALTER TABLE public.retry_operations ADD COLUMN IF NOT EXISTS error_code VARCHAR(100);
+ALTER TABLE public.retry_operations ADD COLUMN IF NOT EXISTS resolved_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.retry_operations ADD COLUMN IF NOT EXISTS resolved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE public.retry_operations ADD COLUMN IF NOT EXISTS resolution_note TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_retry_operations_status_error_code
+  ON public.retry_operations(status, error_code);
+
+-- Classify existing errors the same way getRetryErrorCode does for Prodigi HTTP errors
+UPDATE public.retry_operations
+SET error_code = 'PRODIGI_HTTP_' || substring(error FROM 'Prodigi API (?:error: )?([0-9]{3})')
+WHERE error_code IS NULL
+  AND error ~ 'Prodigi API (error: )?[0-9]{3}';
+
+UPDATE public.retry_operations
+SET error_code = 'UNKNOWN_ERROR'
+WHERE error_code IS NULL
+  AND error IS NOT NULL;
+
+-- ============================================================================
+-- 2. retry_operations_details view
+-- ============================================================================
+
+-- Recreated so it picks up the new columns; security_invoker applies the
+-- retry_operations RLS policies to whoever queries the view
+DROP VIEW IF EXISTS public.retry_operations_details;
+CREATE VIEW public.retry_operations_details WITH (security_invoker = true) AS
+SELECT
+  ro.*,
+  o.order_number,
+  o.customer_email,
+  o.status as order_status,
+  o.created_at as order_created_at
+FROM public.retry_operations ro
+LEFT JOIN public.orders o ON ro.order_id = o.id;
+
+GRANT SELECT ON public.retry_operations_details TO authenticated;
+GRANT SELECT ON public.retry_operations_details TO service_role;
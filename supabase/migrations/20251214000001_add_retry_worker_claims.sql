@@ -0,0 +1,87 @@
+-- Migration: Scheduled retry worker
+-- The retry worker (src/lib/retry-worker.ts) claims due retry_operations
+-- with a lease so concurrent workers never run the same operation, and moves
+-- operations that exhausted their attempts to 'dead_letter'.
+
+-- ============================================================================
+-- 1. retry_operations columns
+-- ============================================================================
+
+-- Worker holding the operation and until when; a lease that runs out (the
+-- worker crashed or timed out) makes the operation claimable again
+ALTER TABLE public.retry_operations ADD COLUMN IF NOT EXISTS locked_by VARCHAR(255);
+ALTER TABLE public.retry_operations ADD COLUMN IF NOT EXISTS locked_until TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.retry_operations ADD COLUMN IF NOT EXISTS dead_lettered_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_retry_operations_status_next_retry
+  ON public.retry_operations(status, next_retry);
+
+-- Failures so far only happened by running out of attempts
+UPDATE public.retry_operations
+SET status = 'dead_letter',
+    dead_lettered_at = COALESCE(failed_at, NOW())
+WHERE status = 'failed'
+  AND attempts >= max_attempts;
+
+-- ============================================================================
+-- 2. claim_retry_operations
+-- ============================================================================
+
+-- Claims up to p_limit due operations (or the one given by p_operation_id,
+-- regardless of its schedule) for p_worker_id. FOR UPDATE SKIP LOCKED lets
+-- concurrent callers pick disjoint rows instead of waiting on each other.
+-- Claiming counts as an attempt.
+CREATE OR REPLACE FUNCTION public.claim_retry_operations(
+  p_worker_id VARCHAR(255),
+  p_limit INTEGER DEFAULT 10,
+  p_lease_seconds INTEGER DEFAULT 300,
+  p_operation_id VARCHAR(255) DEFAULT NULL
+)
+RETURNS SETOF public.retry_operations AS $$
+BEGIN
+  RETURN QUERY
+  WITH due AS (
+    SELECT id
+    FROM public.retry_operations
+    WHERE (p_operation_id IS NULL OR id = p_operation_id)
+      AND (
+        (status = 'pending' AND (p_operation_id IS NOT NULL OR next_retry <= NOW()))
+        OR (status = 'processing' AND locked_until < NOW())
+      )
+    ORDER BY next_retry ASC
+    LIMIT GREATEST(p_limit, 1)
+    FOR UPDATE SKIP LOCKED
+  )
+  UPDATE public.retry_operations ro
+  SET status = 'processing',
+      attempts = ro.attempts + 1,
+      last_attempt = NOW(),
+      locked_by = p_worker_id,
+      locked_until = NOW() + make_interval(secs => p_lease_seconds)
+  FROM due
+  WHERE ro.id = due.id
+  RETURNING ro.*;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only the service role runs the worker
+REVOKE EXECUTE ON FUNCTION public.claim_retry_operations(VARCHAR, INTEGER, INTEGER, VARCHAR) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- 3. retry_operations_details view
+-- ============================================================================
+
+-- Recreated so it picks up the new columns
+DROP VIEW IF EXISTS public.retry_operations_details;
+CREATE VIEW public.retry_operations_details WITH (security_invoker = true) AS
+SELECT
+  ro.*,
+  o.order_number,
+  o.customer_email,
+  o.status as order_status,
+  o.created_at as order_created_at
+FROM public.retry_operations ro
+LEFT JOIN public.orders o ON ro.order_id = o.id;
+
+GRANT SELECT ON public.retry_operations_details TO authenticated;
+GRANT SELECT ON public.retry_operations_details TO service_role;
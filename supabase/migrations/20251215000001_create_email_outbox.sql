@@ -0,0 +1,97 @@
+-- Migration: Transactional email outbox
+-- Order lifecycle emails are queued in email_outbox (src/lib/email) and
+-- delivered by the email cron route. idempotency_key makes queueing the same
+-- event twice a no-op; claim_email_outbox hands each entry to one sender.
+
+-- ============================================================================
+-- 1. email_outbox
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.email_outbox (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- e.g. order_confirmation:<order id>, order_shipped:<order id>:<shipment id>
+  idempotency_key VARCHAR(255) NOT NULL UNIQUE,
+  template VARCHAR(50) NOT NULL CHECK (template IN (
+    'order_confirmation', 'order_in_production', 'order_shipped',
+    'order_delivered', 'refund_issued', 'payment_failed'
+  )),
+  to_email TEXT NOT NULL,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+  -- Template variables, rendered at send time
+  data JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- skipped: the recipient opted out of the template's category
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'failed', 'skipped')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  locked_until TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  provider_message_id TEXT,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_outbox_status_next_attempt
+  ON public.email_outbox(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_email_outbox_order_id ON public.email_outbox(order_id);
+CREATE INDEX IF NOT EXISTS idx_email_outbox_user_id ON public.email_outbox(user_id);
+
+COMMENT ON TABLE public.email_outbox IS 'Queued transactional emails, sent at most once per idempotency key';
+
+DROP TRIGGER IF EXISTS handle_email_outbox_updated_at ON public.email_outbox;
+CREATE TRIGGER handle_email_outbox_updated_at
+  BEFORE UPDATE ON public.email_outbox
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- ============================================================================
+-- 2. claim_email_outbox
+-- ============================================================================
+
+-- Claims up to p_limit due entries, plus any whose sender's lease ran out.
+-- Claiming counts as an attempt.
+CREATE OR REPLACE FUNCTION public.claim_email_outbox(
+  p_limit INTEGER DEFAULT 20,
+  p_lease_seconds INTEGER DEFAULT 120
+)
+RETURNS SETOF public.email_outbox AS $$
+BEGIN
+  RETURN QUERY
+  WITH due AS (
+    SELECT id
+    FROM public.email_outbox
+    WHERE (status = 'pending' AND next_attempt_at <= NOW())
+       OR (status = 'sending' AND locked_until < NOW())
+    ORDER BY next_attempt_at ASC
+    LIMIT GREATEST(p_limit, 1)
+    FOR UPDATE SKIP LOCKED
+  )
+  UPDATE public.email_outbox eo
+  SET status = 'sending',
+      attempts = eo.attempts + 1,
+      locked_until = NOW() + make_interval(secs => p_lease_seconds)
+  FROM due
+  WHERE eo.id = due.id
+  RETURNING eo.*;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION public.claim_email_outbox(INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- 3. Email preferences on profiles
+-- ============================================================================
+
+-- { "<category>": false } opts out of a category; missing categories are enabled
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS email_preferences JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- ============================================================================
+-- 4. RLS
+-- ============================================================================
+
+ALTER TABLE public.email_outbox ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role can manage email outbox" ON public.email_outbox;
+CREATE POLICY "Service role can manage email outbox" ON public.email_outbox
+  FOR ALL USING (auth.role() = 'service_role');
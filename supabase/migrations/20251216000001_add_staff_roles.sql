@@ -0,0 +1,98 @@
+-- Migration: Staff roles
+-- profiles.role replaces the ad-hoc is_admin flag the API routes checked.
+-- admin, support and fulfillment are staff roles (permissions per role are
+-- in src/lib/auth/roles.ts); staff can read every order through RLS, and
+-- staff actions are written to order_logs with created_by set.
+
+-- ============================================================================
+-- 1. profiles.role
+-- ============================================================================
+
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS role VARCHAR(20) NOT NULL DEFAULT 'customer';
+
+ALTER TABLE public.profiles DROP CONSTRAINT IF EXISTS profiles_role_check;
+ALTER TABLE public.profiles ADD CONSTRAINT profiles_role_check
+  CHECK (role IN ('customer', 'admin', 'support', 'fulfillment'));
+
+CREATE INDEX IF NOT EXISTS idx_profiles_staff_role ON public.profiles(role) WHERE role <> 'customer';
+
+COMMENT ON COLUMN public.profiles.role IS 'customer, or a staff role: admin, support, fulfillment';
+
+-- Carry over admins flagged by hand in environments that have is_admin
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'profiles' AND column_name = 'is_admin'
+  ) THEN
+    EXECUTE 'UPDATE public.profiles SET role = ''admin'' WHERE is_admin IS TRUE AND role = ''customer''';
+  END IF;
+END $$;
+
+-- ============================================================================
+-- 2. Keep users from granting themselves a role
+-- ============================================================================
+
+-- "Users can update own profile" covers every column, so role changes are
+-- limited to the service role (and direct database access)
+CREATE OR REPLACE FUNCTION public.protect_profile_role()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(auth.role(), '') IN ('anon', 'authenticated') THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.role := 'customer';
+    ELSIF NEW.role IS DISTINCT FROM OLD.role THEN
+      RAISE EXCEPTION 'Only the service role can change profile roles';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_profile_role ON public.profiles;
+CREATE TRIGGER protect_profile_role
+  BEFORE INSERT OR UPDATE ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.protect_profile_role();
+
+-- ============================================================================
+-- 3. is_staff
+-- ============================================================================
+
+-- Whether the current user has a staff role; used by the RLS policies below
+CREATE OR REPLACE FUNCTION public.is_staff()
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE id = auth.uid() AND role IN ('admin', 'support', 'fulfillment')
+  );
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- 4. RLS: staff can read all orders
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Staff can view all orders" ON public.orders;
+CREATE POLICY "Staff can view all orders" ON public.orders
+  FOR SELECT USING (public.is_staff());
+
+DROP POLICY IF EXISTS "Staff can view all order items" ON public.order_items;
+CREATE POLICY "Staff can view all order items" ON public.order_items
+  FOR SELECT USING (public.is_staff());
+
+DROP POLICY IF EXISTS "Staff can view all dropship orders" ON public.dropship_orders;
+CREATE POLICY "Staff can view all dropship orders" ON public.dropship_orders
+  FOR SELECT USING (public.is_staff());
+
+DROP POLICY IF EXISTS "Staff can view all order logs" ON public.order_logs;
+CREATE POLICY "Staff can view all order logs" ON public.order_logs
+  FOR SELECT USING (public.is_staff());
+
+DROP POLICY IF EXISTS "Staff can view all order status history" ON public.order_status_history;
+CREATE POLICY "Staff can view all order status history" ON public.order_status_history
+  FOR SELECT USING (public.is_staff());
+
+-- ============================================================================
+-- 5. Audit trail lookups
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_order_logs_created_by ON public.order_logs(created_by) WHERE created_by IS NOT NULL;
@@ -0,0 +1,27 @@
+-- Migration: Print crop settings and print-ready assets
+-- The studio stores a crop (focal point and zoom) and a Prodigi sizing
+-- (fill, fit or stretch) in products.metadata. Order items snapshot them at
+-- checkout, and items with a custom crop are rendered to a print-ready asset
+-- in the print-assets bucket when the Prodigi order is created.
+
+-- ============================================================================
+-- 1. order_items print columns
+-- ============================================================================
+
+ALTER TABLE public.order_items ADD COLUMN IF NOT EXISTS print_settings JSONB;
+ALTER TABLE public.order_items ADD COLUMN IF NOT EXISTS print_asset_url TEXT;
+
+COMMENT ON COLUMN public.order_items.print_settings IS 'Sizing and crop at checkout: {"sizing": "fillPrintArea", "crop": {"focalX", "focalY", "zoom"}}';
+COMMENT ON COLUMN public.order_items.print_asset_url IS 'Cropped print-ready image sent to Prodigi, when the item has a custom crop';
+
+-- ============================================================================
+-- 2. print-assets bucket
+-- ============================================================================
+
+-- Public: Prodigi downloads assets by URL. Writes go through the service role.
+INSERT INTO storage.buckets (id, name, public) VALUES ('print-assets', 'print-assets', true)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Print assets are publicly accessible" ON storage.objects;
+CREATE POLICY "Print assets are publicly accessible" ON storage.objects
+  FOR SELECT USING (bucket_id = 'print-assets');
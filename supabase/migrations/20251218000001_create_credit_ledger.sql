@@ -0,0 +1,182 @@
+-- Migration: Generation credit ledger
+-- profiles.credits is the balance; every change to it goes through
+-- spend_credits or grant_credits, which write a credit_ledger row in the same
+-- statement. Generations through the Ideogram proxy spend credits up front and
+-- are refunded when they fail; each user gets a monthly free allowance and can
+-- buy credit packs through Stripe Checkout (src/lib/credits.ts).
+
+-- ============================================================================
+-- 1. profiles.credits
+-- ============================================================================
+
+-- New users start at zero and receive the monthly allowance on first use;
+-- existing balances are kept
+UPDATE public.profiles SET credits = 0 WHERE credits IS NULL;
+ALTER TABLE public.profiles ALTER COLUMN credits SET DEFAULT 0;
+ALTER TABLE public.profiles ALTER COLUMN credits SET NOT NULL;
+
+ALTER TABLE public.profiles DROP CONSTRAINT IF EXISTS profiles_credits_check;
+ALTER TABLE public.profiles ADD CONSTRAINT profiles_credits_check CHECK (credits >= 0);
+
+-- ============================================================================
+-- 2. credit_ledger
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.credit_ledger (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  kind VARCHAR(30) NOT NULL CHECK (kind IN ('monthly_allowance', 'purchase', 'spend', 'refund')),
+  -- Negative for spends
+  amount INTEGER NOT NULL CHECK (amount <> 0),
+  balance_after INTEGER NOT NULL,
+  -- monthly_allowance: YYYY-MM, purchase: Stripe session id,
+  -- spend: generation request id, refund: the refunded spend's id
+  reference VARCHAR(255),
+  metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- A reference is granted or spent at most once per user and kind
+CREATE UNIQUE INDEX IF NOT EXISTS idx_credit_ledger_reference
+  ON public.credit_ledger(user_id, kind, reference) WHERE reference IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_credit_ledger_user_created
+  ON public.credit_ledger(user_id, created_at DESC);
+
+COMMENT ON TABLE public.credit_ledger IS 'Every change to profiles.credits: allowances, purchases, spends and refunds';
+
+-- ============================================================================
+-- 3. spend_credits
+-- ============================================================================
+
+-- Deducts p_amount in one conditional update, so concurrent generations can't
+-- overdraw the balance. Raises insufficient_credits when the balance is short.
+CREATE OR REPLACE FUNCTION public.spend_credits(
+  p_user_id UUID,
+  p_amount INTEGER,
+  p_reference VARCHAR(255) DEFAULT NULL,
+  p_metadata JSONB DEFAULT '{}'::jsonb
+)
+RETURNS public.credit_ledger AS $$
+DECLARE
+  v_balance INTEGER;
+  v_entry public.credit_ledger;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Credit amount must be positive';
+  END IF;
+
+  UPDATE public.profiles
+  SET credits = credits - p_amount
+  WHERE id = p_user_id AND credits >= p_amount
+  RETURNING credits INTO v_balance;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'insufficient_credits';
+  END IF;
+
+  INSERT INTO public.credit_ledger (user_id, kind, amount, balance_after, reference, metadata)
+  VALUES (p_user_id, 'spend', -p_amount, v_balance, p_reference, COALESCE(p_metadata, '{}'::jsonb))
+  RETURNING * INTO v_entry;
+
+  RETURN v_entry;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- 4. grant_credits
+-- ============================================================================
+
+-- Adds p_amount for an allowance, purchase or refund. Granting a reference
+-- that was already granted returns the existing entry instead, so webhook
+-- redeliveries and repeated allowance checks don't add credits twice.
+CREATE OR REPLACE FUNCTION public.grant_credits(
+  p_user_id UUID,
+  p_amount INTEGER,
+  p_kind VARCHAR(30),
+  p_reference VARCHAR(255) DEFAULT NULL,
+  p_metadata JSONB DEFAULT '{}'::jsonb
+)
+RETURNS public.credit_ledger AS $$
+DECLARE
+  v_balance INTEGER;
+  v_entry public.credit_ledger;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Credit amount must be positive';
+  END IF;
+
+  IF p_kind NOT IN ('monthly_allowance', 'purchase', 'refund') THEN
+    RAISE EXCEPTION 'Invalid credit grant kind: %', p_kind;
+  END IF;
+
+  -- Serialises grants for the user, so the reference check below can't race
+  PERFORM 1 FROM public.profiles WHERE id = p_user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'profile_not_found';
+  END IF;
+
+  IF p_reference IS NOT NULL THEN
+    SELECT * INTO v_entry
+    FROM public.credit_ledger
+    WHERE user_id = p_user_id AND kind = p_kind AND reference = p_reference;
+
+    IF FOUND THEN
+      RETURN v_entry;
+    END IF;
+  END IF;
+
+  UPDATE public.profiles
+  SET credits = credits + p_amount
+  WHERE id = p_user_id
+  RETURNING credits INTO v_balance;
+
+  INSERT INTO public.credit_ledger (user_id, kind, amount, balance_after, reference, metadata)
+  VALUES (p_user_id, p_kind, p_amount, v_balance, p_reference, COALESCE(p_metadata, '{}'::jsonb))
+  RETURNING * INTO v_entry;
+
+  RETURN v_entry;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Credits only change through the API routes, which use the service role
+REVOKE EXECUTE ON FUNCTION public.spend_credits(UUID, INTEGER, VARCHAR, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.grant_credits(UUID, INTEGER, VARCHAR, VARCHAR, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- 5. Keep users from setting their own balance
+-- ============================================================================
+
+-- Same approach as protect_profile_role: "Users can update own profile"
+-- covers every column
+CREATE OR REPLACE FUNCTION public.protect_profile_credits()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(auth.role(), '') IN ('anon', 'authenticated') THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.credits := 0;
+    ELSIF NEW.credits IS DISTINCT FROM OLD.credits THEN
+      RAISE EXCEPTION 'Only the service role can change profile credits';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_profile_credits ON public.profiles;
+CREATE TRIGGER protect_profile_credits
+  BEFORE INSERT OR UPDATE ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.protect_profile_credits();
+
+-- ============================================================================
+-- 6. RLS
+-- ============================================================================
+
+ALTER TABLE public.credit_ledger ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own credit ledger" ON public.credit_ledger;
+CREATE POLICY "Users can view own credit ledger" ON public.credit_ledger
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Service role can manage credit ledger" ON public.credit_ledger;
+CREATE POLICY "Service role can manage credit ledger" ON public.credit_ledger
+  FOR ALL USING (auth.role() = 'service_role');
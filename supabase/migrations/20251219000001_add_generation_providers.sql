@@ -0,0 +1,43 @@
+-- Migration: Image generation providers
+-- Generations run through a provider (src/lib/image-generation): Ideogram, or
+-- the local placeholder in development. user_generations records every
+-- generation with its provider and model, and saved images link back to the
+-- generation that produced them, so the gallery doesn't depend on the source.
+
+-- ============================================================================
+-- 1. user_generations provider columns
+-- ============================================================================
+
+ALTER TABLE public.user_generations ADD COLUMN IF NOT EXISTS provider VARCHAR(50) NOT NULL DEFAULT 'ideogram';
+ALTER TABLE public.user_generations ADD COLUMN IF NOT EXISTS model VARCHAR(100);
+ALTER TABLE public.user_generations ADD COLUMN IF NOT EXISTS error TEXT;
+ALTER TABLE public.user_generations ADD COLUMN IF NOT EXISTS completed_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_user_generations_user_created
+  ON public.user_generations(user_id, created_at DESC);
+
+COMMENT ON COLUMN public.user_generations.settings IS 'Normalized generation request (prompt, aspectRatio, numImages, model, style, ...)';
+COMMENT ON COLUMN public.user_generations.result IS '{"images": [{"url", "width", "height", "seed"}]}';
+
+-- Generations are recorded by the API with the service role, after credits
+-- are spent; users only read their own
+DROP POLICY IF EXISTS "Users can insert own generations" ON public.user_generations;
+DROP POLICY IF EXISTS "Users can update own generations" ON public.user_generations;
+
+DROP POLICY IF EXISTS "Service role can manage generations" ON public.user_generations;
+CREATE POLICY "Service role can manage generations" ON public.user_generations
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- ============================================================================
+-- 2. images provider columns
+-- ============================================================================
+
+-- generation_model only had Ideogram's versions; models are now whatever the
+-- provider reports
+ALTER TABLE public.images ALTER COLUMN model TYPE VARCHAR(100) USING model::text;
+
+ALTER TABLE public.images ADD COLUMN IF NOT EXISTS provider VARCHAR(50) NOT NULL DEFAULT 'ideogram';
+ALTER TABLE public.images ADD COLUMN IF NOT EXISTS generation_id UUID
+  REFERENCES public.user_generations(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_images_generation_id ON public.images(generation_id);
@@ -0,0 +1,112 @@
+-- Migration: Persistent studio conversations
+-- Studio chats (src/lib/studio/conversations.ts) are stored per signed-in user
+-- so a session survives reloads: studio_messages holds the transcript and
+-- studio_conversations.checkpoint the LangGraph state the next turn resumes
+-- from. Conversations older than the user's retention setting are purged by
+-- the studio conversations cron route.
+
+-- ============================================================================
+-- 1. studio_conversations
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.studio_conversations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  -- First user message, shortened
+  title VARCHAR(120) NOT NULL DEFAULT 'New conversation',
+  -- { frameConfig, imageAnalysis, selectedAgents, suggestions, comparison, ... }
+  checkpoint JSONB NOT NULL DEFAULT '{}'::jsonb,
+  message_count INTEGER NOT NULL DEFAULT 0,
+  last_message_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_studio_conversations_user_last_message
+  ON public.studio_conversations(user_id, last_message_at DESC);
+
+COMMENT ON TABLE public.studio_conversations IS 'AI studio chat sessions with their latest agent state checkpoint';
+
+DROP TRIGGER IF EXISTS handle_studio_conversations_updated_at ON public.studio_conversations;
+CREATE TRIGGER handle_studio_conversations_updated_at
+  BEFORE UPDATE ON public.studio_conversations
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- ============================================================================
+-- 2. studio_messages
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.studio_messages (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  conversation_id UUID NOT NULL REFERENCES public.studio_conversations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  role VARCHAR(20) NOT NULL CHECK (role IN ('user', 'assistant')),
+  content TEXT NOT NULL,
+  suggestions JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- showLifestyleImages, comparison, imageSuggestions, fallback, ...
+  metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_studio_messages_conversation_created
+  ON public.studio_messages(conversation_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_studio_messages_user_id ON public.studio_messages(user_id);
+
+-- ============================================================================
+-- 3. Retention
+-- ============================================================================
+
+-- Days of inactivity after which a conversation is deleted; NULL keeps them
+-- until the user deletes them
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS studio_chat_retention_days INTEGER DEFAULT 90;
+
+ALTER TABLE public.profiles DROP CONSTRAINT IF EXISTS profiles_studio_chat_retention_days_check;
+ALTER TABLE public.profiles ADD CONSTRAINT profiles_studio_chat_retention_days_check
+  CHECK (studio_chat_retention_days IS NULL OR studio_chat_retention_days IN (7, 30, 90, 365));
+
+CREATE OR REPLACE FUNCTION public.purge_expired_studio_conversations()
+RETURNS INTEGER AS $$
+DECLARE
+  v_deleted INTEGER;
+BEGIN
+  DELETE FROM public.studio_conversations sc
+  USING public.profiles p
+  WHERE p.id = sc.user_id
+    AND p.studio_chat_retention_days IS NOT NULL
+    AND sc.last_message_at < NOW() - make_interval(days => p.studio_chat_retention_days);
+
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+  RETURN v_deleted;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION public.purge_expired_studio_conversations() FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- 4. RLS
+-- ============================================================================
+
+ALTER TABLE public.studio_conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.studio_messages ENABLE ROW LEVEL SECURITY;
+
+-- Conversations are written by the chat API with the service role; users can
+-- read and delete their own
+DROP POLICY IF EXISTS "Users can view own studio conversations" ON public.studio_conversations;
+CREATE POLICY "Users can view own studio conversations" ON public.studio_conversations
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete own studio conversations" ON public.studio_conversations;
+CREATE POLICY "Users can delete own studio conversations" ON public.studio_conversations
+  FOR DELETE USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Service role can manage studio conversations" ON public.studio_conversations;
+CREATE POLICY "Service role can manage studio conversations" ON public.studio_conversations
+  FOR ALL USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Users can view own studio messages" ON public.studio_messages;
+CREATE POLICY "Users can view own studio messages" ON public.studio_messages
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Service role can manage studio messages" ON public.studio_messages;
+CREATE POLICY "Service role can manage studio messages" ON public.studio_messages
+  FOR ALL USING (auth.role() = 'service_role');
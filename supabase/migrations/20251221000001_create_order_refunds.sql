@@ -0,0 +1,285 @@
+-- Migration: Refunds, reprints and problem reports
+-- Staff refund order items (in full or in part) through Stripe, or have
+-- Prodigi reprint a damaged item; customers report problems with photos.
+-- Every Stripe refund is an order_refunds row, and reconcile_order_refund
+-- carries Stripe's refund events into orders.amount_refunded, the payment
+-- status and order_status_history (src/lib/refunds.ts).
+
+-- ============================================================================
+-- 1. Orders
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_type WHERE typname = 'payment_status') THEN
+    ALTER TYPE payment_status ADD VALUE IF NOT EXISTS 'partially_refunded';
+  END IF;
+END $$;
+
+-- Sum of succeeded refunds, in the order's currency
+ALTER TABLE public.orders ADD COLUMN IF NOT EXISTS amount_refunded DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+-- Reprints are further Prodigi orders for the same order item
+ALTER TABLE public.dropship_orders ADD COLUMN IF NOT EXISTS reprint_of UUID REFERENCES public.dropship_orders(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.dropship_orders.reprint_of IS 'The original dropship order when this one is a reprint';
+
+-- ============================================================================
+-- 2. order_problem_reports
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.order_problem_reports (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  order_item_id UUID REFERENCES public.order_items(id) ON DELETE SET NULL,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  category VARCHAR(30) NOT NULL CHECK (category IN ('damaged', 'print_quality', 'wrong_item', 'missing', 'other')),
+  description TEXT NOT NULL,
+  -- Paths in the problem-reports bucket
+  photo_paths TEXT[] NOT NULL DEFAULT '{}',
+  status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'refunded', 'reprinted', 'closed')),
+  resolution_note TEXT,
+  resolved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- One open report per item; a new one can be filed once it's resolved
+CREATE UNIQUE INDEX IF NOT EXISTS idx_order_problem_reports_open_item
+  ON public.order_problem_reports(order_item_id) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_order_problem_reports_order ON public.order_problem_reports(order_id);
+CREATE INDEX IF NOT EXISTS idx_order_problem_reports_open
+  ON public.order_problem_reports(created_at) WHERE status = 'open';
+
+-- ============================================================================
+-- 3. order_refunds
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.order_refunds (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  problem_report_id UUID REFERENCES public.order_problem_reports(id) ON DELETE SET NULL,
+  -- In the currency the order was charged in
+  amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+  currency VARCHAR(3) NOT NULL,
+  -- [{"order_item_id": ..., "amount": ...}]; empty for refunds made in the Stripe dashboard
+  items JSONB NOT NULL DEFAULT '[]'::jsonb,
+  shipping_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+  reason TEXT,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed', 'canceled')),
+  stripe_refund_id VARCHAR(255) UNIQUE,
+  failure_reason TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_refunds_order ON public.order_refunds(order_id, created_at);
+
+COMMENT ON TABLE public.order_refunds IS 'Stripe refunds per order, issued by staff or reconciled from Stripe events';
+
+-- ============================================================================
+-- 4. begin_order_refund
+-- ============================================================================
+
+-- Records a refund as pending before Stripe is called. The order row is
+-- locked, so two refunds started at once can't together exceed what was
+-- charged. Raises refund_exceeds_payment when they would.
+CREATE OR REPLACE FUNCTION public.begin_order_refund(
+  p_order_id UUID,
+  p_amount DECIMAL(10,2),
+  p_currency VARCHAR(3),
+  p_items JSONB DEFAULT '[]'::jsonb,
+  p_shipping_amount DECIMAL(10,2) DEFAULT 0,
+  p_reason TEXT DEFAULT NULL,
+  p_problem_report_id UUID DEFAULT NULL,
+  p_created_by UUID DEFAULT NULL
+)
+RETURNS public.order_refunds AS $$
+DECLARE
+  v_total DECIMAL(10,2);
+  v_committed DECIMAL(10,2);
+  v_refund public.order_refunds;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Refund amount must be positive';
+  END IF;
+
+  SELECT total_amount INTO v_total FROM public.orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'order_not_found';
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_committed
+  FROM public.order_refunds
+  WHERE order_id = p_order_id AND status IN ('pending', 'succeeded');
+
+  IF v_committed + p_amount > v_total THEN
+    RAISE EXCEPTION 'refund_exceeds_payment';
+  END IF;
+
+  INSERT INTO public.order_refunds (
+    order_id, problem_report_id, amount, currency, items, shipping_amount, reason, created_by
+  ) VALUES (
+    p_order_id, p_problem_report_id, p_amount, p_currency, COALESCE(p_items, '[]'::jsonb),
+    COALESCE(p_shipping_amount, 0), p_reason, p_created_by
+  )
+  RETURNING * INTO v_refund;
+
+  RETURN v_refund;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- 5. reconcile_order_refund
+-- ============================================================================
+
+-- Applies a Stripe refund's status. Refunds made outside the app get a row
+-- here. When a refund starts or stops counting as succeeded, the order's
+-- amount_refunded and payment status are recomputed and the change is
+-- written to order_status_history; a full refund moves the order to
+-- refunded. Redelivered events change nothing.
+CREATE OR REPLACE FUNCTION public.reconcile_order_refund(
+  p_order_id UUID,
+  p_stripe_refund_id VARCHAR(255),
+  p_amount DECIMAL(10,2),
+  p_currency VARCHAR(3),
+  p_status VARCHAR(20),
+  p_refund_id UUID DEFAULT NULL,
+  p_reason TEXT DEFAULT NULL,
+  p_failure_reason TEXT DEFAULT NULL
+)
+RETURNS public.order_refunds AS $$
+DECLARE
+  v_order RECORD;
+  v_refund public.order_refunds;
+  v_previous VARCHAR(20);
+  v_refunded DECIMAL(10,2);
+  v_history_reason TEXT;
+BEGIN
+  IF p_status NOT IN ('pending', 'succeeded', 'failed', 'canceled') THEN
+    RAISE EXCEPTION 'Invalid refund status: %', p_status;
+  END IF;
+
+  -- Same lock as begin_order_refund, so refunds of one order apply in turn
+  SELECT id, status, total_amount INTO v_order FROM public.orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'order_not_found';
+  END IF;
+
+  SELECT * INTO v_refund
+  FROM public.order_refunds
+  WHERE order_id = p_order_id
+    AND ((p_refund_id IS NOT NULL AND id = p_refund_id) OR stripe_refund_id = p_stripe_refund_id)
+  LIMIT 1
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    v_previous := 'pending';
+    INSERT INTO public.order_refunds (order_id, amount, currency, reason, status, stripe_refund_id, failure_reason)
+    VALUES (p_order_id, p_amount, p_currency, p_reason, p_status, p_stripe_refund_id, p_failure_reason)
+    RETURNING * INTO v_refund;
+  ELSE
+    v_previous := v_refund.status;
+    UPDATE public.order_refunds
+    SET stripe_refund_id = p_stripe_refund_id,
+        status = p_status,
+        failure_reason = COALESCE(p_failure_reason, failure_reason),
+        updated_at = NOW()
+    WHERE id = v_refund.id
+    RETURNING * INTO v_refund;
+  END IF;
+
+  IF (v_previous = 'succeeded') = (p_status = 'succeeded') THEN
+    RETURN v_refund;
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_refunded
+  FROM public.order_refunds
+  WHERE order_id = p_order_id AND status = 'succeeded';
+
+  v_history_reason := CASE
+    WHEN p_status = 'succeeded' THEN format('Refunded %s %s', v_refund.amount, upper(v_refund.currency))
+    ELSE format('Refund of %s %s %s', v_refund.amount, upper(v_refund.currency), p_status)
+  END || COALESCE(': ' || v_refund.reason, '');
+
+  IF v_refunded >= v_order.total_amount THEN
+    UPDATE public.orders
+    SET amount_refunded = v_refunded, payment_status = 'refunded', status = 'refunded', updated_at = NOW()
+    WHERE id = p_order_id;
+  ELSIF v_refunded > 0 THEN
+    UPDATE public.orders
+    SET amount_refunded = v_refunded, payment_status = 'partially_refunded', updated_at = NOW()
+    WHERE id = p_order_id;
+  ELSE
+    UPDATE public.orders
+    SET amount_refunded = 0, payment_status = 'paid', updated_at = NOW()
+    WHERE id = p_order_id;
+  END IF;
+
+  -- A status change was logged by order_status_change_trigger; give it the
+  -- reason. Otherwise log the refund against the unchanged status.
+  IF v_refunded >= v_order.total_amount AND v_order.status::text <> 'refunded' THEN
+    UPDATE public.order_status_history
+    SET reason = v_history_reason, created_by = v_refund.created_by
+    WHERE id = (
+      SELECT id FROM public.order_status_history
+      WHERE order_id = p_order_id AND status = 'refunded' AND reason IS NULL
+      ORDER BY created_at DESC
+      LIMIT 1
+    );
+  ELSE
+    INSERT INTO public.order_status_history (order_id, status, previous_status, reason, created_by)
+    VALUES (p_order_id, v_order.status, v_order.status, v_history_reason, v_refund.created_by);
+  END IF;
+
+  RETURN v_refund;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Refunds go through the API routes and the Stripe webhook (service role)
+REVOKE EXECUTE ON FUNCTION public.begin_order_refund(UUID, DECIMAL, VARCHAR, JSONB, DECIMAL, TEXT, UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.reconcile_order_refund(UUID, VARCHAR, DECIMAL, VARCHAR, VARCHAR, UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- 6. problem-reports bucket
+-- ============================================================================
+
+-- Private: photos of customers' homes. Uploads go through the service role
+-- and staff view them through signed URLs.
+INSERT INTO storage.buckets (id, name, public) VALUES ('problem-reports', 'problem-reports', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- ============================================================================
+-- 7. RLS
+-- ============================================================================
+
+ALTER TABLE public.order_problem_reports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.order_refunds ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own problem reports" ON public.order_problem_reports;
+CREATE POLICY "Users can view own problem reports" ON public.order_problem_reports
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Staff can view all problem reports" ON public.order_problem_reports;
+CREATE POLICY "Staff can view all problem reports" ON public.order_problem_reports
+  FOR SELECT USING (public.is_staff());
+
+DROP POLICY IF EXISTS "Service role can manage problem reports" ON public.order_problem_reports;
+CREATE POLICY "Service role can manage problem reports" ON public.order_problem_reports
+  FOR ALL USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Users can view own order refunds" ON public.order_refunds;
+CREATE POLICY "Users can view own order refunds" ON public.order_refunds
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.orders WHERE orders.id = order_refunds.order_id AND orders.user_id = auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Staff can view all order refunds" ON public.order_refunds;
+CREATE POLICY "Staff can view all order refunds" ON public.order_refunds
+  FOR SELECT USING (public.is_staff());
+
+DROP POLICY IF EXISTS "Service role can manage order refunds" ON public.order_refunds;
+CREATE POLICY "Service role can manage order refunds" ON public.order_refunds
+  FOR ALL USING (auth.role() = 'service_role');
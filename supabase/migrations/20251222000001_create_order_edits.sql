@@ -0,0 +1,58 @@
+-- Migration: Customer order edits
+-- While Prodigi still allows it, customers can fix their shipping address,
+-- pay to upgrade the shipping method or cancel for a full refund. Every
+-- change is an order_edits row; shipping upgrades wait in pending_payment
+-- until their Stripe Checkout session is paid (src/lib/order-edits.ts).
+
+-- ============================================================================
+-- 1. Orders
+-- ============================================================================
+
+-- The Prodigi shipping method; orders have gone out as Standard until now
+ALTER TABLE public.orders ADD COLUMN IF NOT EXISTS shipping_method VARCHAR(20) NOT NULL DEFAULT 'Standard';
+
+-- ============================================================================
+-- 2. order_edits
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.order_edits (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  type VARCHAR(20) NOT NULL CHECK (type IN ('address', 'shipping_method', 'cancel')),
+  status VARCHAR(20) NOT NULL CHECK (status IN ('pending_payment', 'applied', 'failed', 'refunded')),
+  -- What the order had before and what the customer asked for
+  previous JSONB NOT NULL DEFAULT '{}'::jsonb,
+  requested JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- Charged for a shipping upgrade, in the order's currency
+  amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+  currency VARCHAR(3),
+  stripe_session_id VARCHAR(255) UNIQUE,
+  stripe_payment_intent_id VARCHAR(255),
+  failure_reason TEXT,
+  applied_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_edits_order ON public.order_edits(order_id, created_at);
+
+COMMENT ON TABLE public.order_edits IS 'Changes customers made to their orders during the Prodigi edit window';
+
+-- ============================================================================
+-- 3. RLS
+-- ============================================================================
+
+ALTER TABLE public.order_edits ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own order edits" ON public.order_edits;
+CREATE POLICY "Users can view own order edits" ON public.order_edits
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Staff can view all order edits" ON public.order_edits;
+CREATE POLICY "Staff can view all order edits" ON public.order_edits
+  FOR SELECT USING (public.is_staff());
+
+DROP POLICY IF EXISTS "Service role can manage order edits" ON public.order_edits;
+CREATE POLICY "Service role can manage order edits" ON public.order_edits
+  FOR ALL USING (auth.role() = 'service_role');
@@ -0,0 +1,84 @@
+-- Migration: Prodigi catalog mirror
+-- Catalog searches, facets and SKU lookups are served from our own copy of
+-- Prodigi's catalog instead of querying their Azure Search index live. A
+-- scheduled sync (src/lib/prodigi-v2/azure-search/catalog-sync.ts) snapshots
+-- the index into prodigi_catalog_products and records each run, with a diff
+-- of what changed, in prodigi_catalog_syncs.
+
+-- ============================================================================
+-- 1. prodigi_catalog_syncs
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.prodigi_catalog_syncs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  status VARCHAR(20) NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'succeeded', 'failed')),
+  trigger VARCHAR(20) NOT NULL DEFAULT 'schedule' CHECK (trigger IN ('schedule', 'manual')),
+  triggered_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  -- Products in the index after this sync and what changed since the last one
+  product_count INTEGER NOT NULL DEFAULT 0,
+  added_count INTEGER NOT NULL DEFAULT 0,
+  removed_count INTEGER NOT NULL DEFAULT 0,
+  changed_count INTEGER NOT NULL DEFAULT 0,
+  -- { added: [sku], removed: [sku], changed: [{ sku, fields }], truncated }
+  diff JSONB,
+  -- Catalog-wide facet counts at the time of the sync
+  facets JSONB,
+  error TEXT,
+  started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_prodigi_catalog_syncs_status ON public.prodigi_catalog_syncs(status, completed_at DESC);
+
+COMMENT ON TABLE public.prodigi_catalog_syncs IS 'Runs of the Prodigi catalog sync and the changes each one found';
+
+-- ============================================================================
+-- 2. prodigi_catalog_products
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.prodigi_catalog_products (
+  sku VARCHAR(100) PRIMARY KEY,
+  category VARCHAR(100),
+  product_type VARCHAR(100),
+  description TEXT,
+  destination_countries TEXT[] NOT NULL DEFAULT '{}',
+  -- The index document as returned by Azure Search (attributes, sizes, dimensions, pricing)
+  document JSONB NOT NULL,
+  -- SHA-256 of the document, to tell whether a product changed between syncs
+  content_hash VARCHAR(64) NOT NULL,
+  -- The sync that last added or changed this product
+  sync_id UUID REFERENCES public.prodigi_catalog_syncs(id) ON DELETE SET NULL,
+  -- Set when the product disappears from the index; cleared if it comes back
+  removed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_prodigi_catalog_products_active
+  ON public.prodigi_catalog_products(category, product_type) WHERE removed_at IS NULL;
+
+COMMENT ON TABLE public.prodigi_catalog_products IS 'Local mirror of the Prodigi product catalog';
+
+-- ============================================================================
+-- 3. RLS
+-- ============================================================================
+
+ALTER TABLE public.prodigi_catalog_syncs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.prodigi_catalog_products ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff can view catalog syncs" ON public.prodigi_catalog_syncs;
+CREATE POLICY "Staff can view catalog syncs" ON public.prodigi_catalog_syncs
+  FOR SELECT USING (public.is_staff());
+
+DROP POLICY IF EXISTS "Service role can manage catalog syncs" ON public.prodigi_catalog_syncs;
+CREATE POLICY "Service role can manage catalog syncs" ON public.prodigi_catalog_syncs
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- The catalog itself is public information
+DROP POLICY IF EXISTS "Anyone can view catalog products" ON public.prodigi_catalog_products;
+CREATE POLICY "Anyone can view catalog products" ON public.prodigi_catalog_products
+  FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Service role can manage catalog products" ON public.prodigi_catalog_products;
+CREATE POLICY "Service role can manage catalog products" ON public.prodigi_catalog_products
+  FOR ALL USING (auth.role() = 'service_role');
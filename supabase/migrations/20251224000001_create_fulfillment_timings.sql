@@ -0,0 +1,48 @@
+-- Migration: Fulfillment timings
+-- When each Prodigi order was submitted, went into production, was
+-- dispatched and (when we learn of it) delivered, recorded from Prodigi
+-- webhooks. Delivery estimates are learned from these rows
+-- (src/lib/prodigi-v2/delivery-history.ts); the static tables in
+-- delivery-estimator.ts cover routes without enough history.
+
+CREATE TABLE IF NOT EXISTS public.fulfillment_timings (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  dropship_order_id UUID NOT NULL UNIQUE REFERENCES public.dropship_orders(id) ON DELETE CASCADE,
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  -- What the estimate is keyed on
+  sku VARCHAR(100),
+  product_type VARCHAR(100),
+  production_country VARCHAR(2),
+  destination_country VARCHAR(2),
+  shipping_method VARCHAR(20),
+  -- Milestones
+  submitted_at TIMESTAMP WITH TIME ZONE,
+  production_started_at TIMESTAMP WITH TIME ZONE,
+  production_completed_at TIMESTAMP WITH TIME ZONE,
+  dispatched_at TIMESTAMP WITH TIME ZONE,
+  -- Prodigi doesn't report deliveries; set when a shipment is reported
+  -- delivered or staff mark the order delivered
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_fulfillment_timings_order ON public.fulfillment_timings(order_id);
+CREATE INDEX IF NOT EXISTS idx_fulfillment_timings_dispatched
+  ON public.fulfillment_timings(dispatched_at DESC) WHERE dispatched_at IS NOT NULL;
+
+COMMENT ON TABLE public.fulfillment_timings IS 'Production and delivery milestones per Prodigi order, for delivery estimates';
+
+-- ============================================================================
+-- RLS
+-- ============================================================================
+
+ALTER TABLE public.fulfillment_timings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff can view fulfillment timings" ON public.fulfillment_timings;
+CREATE POLICY "Staff can view fulfillment timings" ON public.fulfillment_timings
+  FOR SELECT USING (public.is_staff());
+
+DROP POLICY IF EXISTS "Service role can manage fulfillment timings" ON public.fulfillment_timings;
+CREATE POLICY "Service role can manage fulfillment timings" ON public.fulfillment_timings
+  FOR ALL USING (auth.role() = 'service_role');
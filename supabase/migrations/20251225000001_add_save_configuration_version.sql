@@ -0,0 +1,62 @@
+-- Migration: Atomic saves of saved studio configurations
+-- Renaming a design and adding a version happen in one transaction with the
+-- design row locked, so concurrent saves of one design get consecutive
+-- versions instead of colliding on UNIQUE(configuration_id, version), and a
+-- failed save never leaves a version the design doesn't point at.
+
+-- ============================================================================
+-- 1. save_configuration_version
+-- ============================================================================
+
+-- Renames the design when p_name is given and adds a version when p_config
+-- is given (with the denormalized listing columns). Raises
+-- configuration_not_found unless the design belongs to p_user_id.
+CREATE OR REPLACE FUNCTION public.save_configuration_version(
+  p_configuration_id UUID,
+  p_user_id UUID,
+  p_name VARCHAR(255) DEFAULT NULL,
+  p_config JSONB DEFAULT NULL,
+  p_image_url TEXT DEFAULT NULL,
+  p_product_type VARCHAR(50) DEFAULT NULL,
+  p_sku VARCHAR(100) DEFAULT NULL,
+  p_size VARCHAR(50) DEFAULT NULL
+)
+RETURNS public.saved_configurations AS $$
+DECLARE
+  v_configuration public.saved_configurations;
+BEGIN
+  SELECT * INTO v_configuration
+  FROM public.saved_configurations
+  WHERE id = p_configuration_id AND user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'configuration_not_found';
+  END IF;
+
+  IF p_config IS NOT NULL THEN
+    INSERT INTO public.saved_configuration_versions (configuration_id, version, config)
+    VALUES (p_configuration_id, v_configuration.current_version + 1, p_config);
+
+    UPDATE public.saved_configurations
+    SET current_version = current_version + 1,
+        image_url = p_image_url,
+        product_type = p_product_type,
+        sku = p_sku,
+        size = p_size
+    WHERE id = p_configuration_id;
+  END IF;
+
+  IF p_name IS NOT NULL THEN
+    UPDATE public.saved_configurations
+    SET name = p_name
+    WHERE id = p_configuration_id;
+  END IF;
+
+  SELECT * INTO v_configuration FROM public.saved_configurations WHERE id = p_configuration_id;
+  RETURN v_configuration;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Saves go through the studio API routes (service role)
+REVOKE EXECUTE ON FUNCTION public.save_configuration_version(UUID, UUID, VARCHAR, JSONB, TEXT, VARCHAR, VARCHAR, VARCHAR) FROM PUBLIC, anon, authenticated;